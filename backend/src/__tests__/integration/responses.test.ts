@@ -167,81 +167,27 @@ describe('Responses API Integration Tests', () => {
   });
 
   describe('GET /api/responses/forms/:formId/export', () => {
-    it('should export responses as CSV', async () => {
+    it('should queue a CSV export of the filtered responses', async () => {
       const response = await request(app)
-        .get(`/api/responses/forms/${testForm._id}/export?format=csv`)
+        .get(`/api/responses/forms/${testForm._id}/export?startDate=2024-01-16&endDate=2024-01-16`)
         .set('Authorization', `Bearer ${authToken}`)
-        .expect(200);
-
-      expect(response.headers['content-type']).toContain('text/csv');
-      expect(response.headers['content-disposition']).toContain('attachment');
-      expect(response.text).toContain('John Doe');
-      expect(response.text).toContain('Jane Smith');
-    });
-
-    it('should export responses as JSON', async () => {
-      const response = await request(app)
-        .get(`/api/responses/forms/${testForm._id}/export?format=json`)
-        .set('Authorization', `Bearer ${authToken}`)
-        .expect(200);
-
-      expect(response.body).toHaveProperty('success', true);
-      expect(response.body.data).toHaveProperty('responses');
-      expect(response.body.data.responses).toHaveLength(2);
-    });
+        .expect(202);
 
-    it('should filter exported responses by date range', async () => {
-      const startDate = '2024-01-16';
-      const endDate = '2024-01-16';
-
-      const response = await request(app)
-        .get(`/api/responses/forms/${testForm._id}/export?format=json&startDate=${startDate}&endDate=${endDate}`)
-        .set('Authorization', `Bearer ${authToken}`)
-        .expect(200);
-
-      expect(response.body.data.responses).toHaveLength(1);
-      expect(response.body.data.responses[0]).toHaveProperty('field1', 'Jane Smith');
-    });
-
-    it('should return error when no responses to export', async () => {
-      const emptyForm = await Form.create({
-        ...TestUtils.createTestForm(testUser._id.toString()),
-        publicUrl: 'empty-form-' + Date.now()
+      expect(response.headers.location).toBe(`/api/exports/jobs/${response.body.data._id}`);
+      expect(response.body.data).toMatchObject({
+        format: 'csv',
+        status: 'queued',
+        params: { startDate: '2024-01-16', endDate: '2024-01-16' }
       });
+    });
 
+    it('should return 404 for forms that do not exist', async () => {
       const response = await request(app)
-        .get(`/api/responses/forms/${emptyForm._id}/export`)
+        .get(`/api/responses/forms/${new mongoose.Types.ObjectId()}/export`)
         .set('Authorization', `Bearer ${authToken}`)
         .expect(404);
 
       expect(response.body).toHaveProperty('success', false);
-      expect(response.body.message).toContain('No responses found');
-    });
-
-    it('should handle large dataset exports', async () => {
-      // Create many responses
-      const manyResponses = Array(50).fill(null).map((_, index) => ({
-        formId: testForm._id,
-        responses: [
-          { fieldId: 'field1', value: `User ${index}`, fieldType: 'text' },
-          { fieldId: 'field2', value: `user${index}@example.com`, fieldType: 'email' }
-        ],
-        submittedAt: new Date(),
-        ipAddress: '127.0.0.1',
-        userAgent: 'Test Agent',
-        metadata: {},
-        isPartial: false,
-        completedAt: new Date()
-      }));
-
-      await FormResponse.create(manyResponses);
-
-      const response = await request(app)
-        .get(`/api/responses/forms/${testForm._id}/export?format=json`)
-        .set('Authorization', `Bearer ${authToken}`)
-        .expect(200);
-
-      expect(response.body.data.responses.length).toBeGreaterThan(50);
     });
   });
 
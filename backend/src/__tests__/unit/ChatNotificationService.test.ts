@@ -0,0 +1,160 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ChatNotificationService } from '../../services/ChatNotificationService';
+import { NotificationTemplateService } from '../../services/NotificationTemplateService';
+import { WebhookDeliveryService } from '../../services/WebhookDeliveryService';
+import { IFormField, IIntegration, IIntegrationEvent } from '../../types';
+
+describe('ChatNotificationService', () => {
+  const fields = [
+    { id: 'name', type: 'text', label: 'Full name', order: 1 },
+    { id: 'secret', type: 'password', label: 'Password', order: 2 },
+    { id: 'cv', type: 'file', label: 'CV', order: 3 },
+    { id: 'bio', type: 'textarea', label: 'Bio', order: 0 }
+  ] as unknown as IFormField[];
+
+  const event: IIntegrationEvent = {
+    eventId: 'evt-1',
+    eventType: 'form_submitted',
+    formId: 'form-1',
+    occurredAt: new Date('2024-01-01T00:00:00Z'),
+    form: { id: 'form-1', title: 'Applications' },
+    responseId: 'resp-1',
+    responses: {
+      name: 'Ada <Lovelace> & co',
+      secret: 'hunter2',
+      cv: { originalName: 'cv.pdf', url: '/uploads/form-file-1.pdf' },
+      bio: 'x'.repeat(5000)
+    },
+    calculatedValues: { score: { value: 42, formatted: '42 pts' } }
+  };
+
+  const buildIntegration = (type: string, settings: Record<string, any>, webhookUrl = 'http://127.0.0.1/hook'): IIntegration => ({
+    _id: 'int-1',
+    type,
+    credentials: { webhookUrl },
+    settings: { [type]: settings }
+  } as unknown as IIntegration);
+
+  describe('renderTemplate', () => {
+    it('should substitute fields by id or label, calculated values and built-ins', () => {
+      const text = NotificationTemplateService.renderTemplate(
+        '{{Full name}} ({{ name }}) scored {{score}} on {{form.title}}: {{responseUrl}} {{unknown}}',
+        event,
+        fields
+      );
+
+      expect(text).toBe(
+        'Ada <Lovelace> & co (Ada <Lovelace> & co) scored 42 pts on Applications: ' +
+        'http://localhost:3000/forms/form-1/responses?responseId=resp-1 '
+      );
+    });
+
+    it('should never render password answers', () => {
+      expect(NotificationTemplateService.renderTemplate('{{secret}}', event, fields)).toBe('');
+    });
+
+    it('should only link uploaded files when attachments are enabled', () => {
+      expect(NotificationTemplateService.renderTemplate('{{cv}}', event, fields)).toBe('cv.pdf');
+      expect(NotificationTemplateService.renderTemplate('{{cv}}', event, fields, true)).toContain('/uploads/form-file-1.pdf');
+    });
+  });
+
+  describe('truncate', () => {
+    it('should not split characters outside the basic plane', () => {
+      const truncated = ChatNotificationService.truncate('ab😀😀😀', 5);
+
+      expect(truncated).toBe('ab😀…');
+      expect(truncated.length).toBeLessThanOrEqual(5);
+    });
+  });
+
+  describe('buildPayload', () => {
+    it('should build Slack Block Kit with escaped, truncated answers and a response button', () => {
+      const payload = ChatNotificationService.buildPayload(
+        buildIntegration('slack', { messageFormat: 'detailed', mentionUsers: ['U123'] }),
+        event,
+        fields
+      );
+      const fieldTexts = payload.blocks.flatMap((block: any) => block.fields || []).map((field: any) => field.text);
+      const button = payload.blocks.find((block: any) => block.type === 'actions').elements[0];
+
+      expect(payload.text).toBe('New response: Applications');
+      expect(fieldTexts[0]).toMatch(/^\*Bio\*\n/);
+      expect(fieldTexts[0].length).toBeLessThanOrEqual(2000);
+      expect(fieldTexts).toContain('*Full name*\nAda &lt;Lovelace&gt; &amp; co');
+      expect(fieldTexts.join()).not.toContain('hunter2');
+      expect(JSON.stringify(payload)).toContain('<@U123>');
+      expect(button.url).toBe('http://localhost:3000/forms/form-1/responses?responseId=resp-1');
+    });
+
+    it('should build a Discord embed that only pings configured users', () => {
+      const payload = ChatNotificationService.buildPayload(
+        buildIntegration('discord', { messageFormat: 'detailed', mentionUsers: ['42'], color: '#ff0000', username: 'Forms' }),
+        event,
+        fields
+      );
+      const [embed] = payload.embeds;
+
+      expect(payload.username).toBe('Forms');
+      expect(payload.content).toBe('<@42>');
+      expect(payload.allowed_mentions).toEqual({ parse: [], users: ['42'] });
+      expect(embed.color).toBe(0xff0000);
+      expect(embed.url).toContain('responseId=resp-1');
+      expect(embed.fields.find((field: any) => field.name === 'Bio').value).toHaveLength(1024);
+    });
+
+    it('should build a Teams Adaptive Card from a custom template', () => {
+      const payload = ChatNotificationService.buildPayload(
+        buildIntegration('teams', { messageFormat: 'custom', customTemplate: 'Applicant: {{name}}' }),
+        event,
+        fields
+      );
+      const card = payload.attachments[0].content;
+
+      expect(payload.type).toBe('message');
+      expect(card.type).toBe('AdaptiveCard');
+      expect(card.body.map((block: any) => block.text)).toContain('Applicant: Ada <Lovelace> & co');
+      expect(card.actions[0]).toEqual(expect.objectContaining({ type: 'Action.OpenUrl', title: 'View response' }));
+    });
+  });
+
+  describe('delivery to a local stub', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let received: any[];
+
+    beforeAll(done => {
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+          received.push(JSON.parse(body));
+          res.end('ok');
+        });
+      });
+      server.listen(0, '127.0.0.1', () => {
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        done();
+      });
+    });
+
+    afterAll(done => {
+      server.close(done);
+    });
+
+    beforeEach(() => {
+      received = [];
+    });
+
+    it.each(['slack', 'discord', 'teams'])('should post the %s message to the incoming webhook', async type => {
+      const integration = buildIntegration(type, { messageFormat: 'simple' }, `${baseUrl}/${type}`);
+      const payload = ChatNotificationService.buildPayload(integration, event, fields);
+
+      const attempt = await WebhookDeliveryService.send(integration, event, { deliveryId: 'dlv-1', attempt: 1, trigger: 'test' }, payload);
+
+      expect(attempt.status).toBe('succeeded');
+      expect(received).toEqual([payload]);
+    });
+  });
+});
@@ -627,6 +627,69 @@ describe('ConditionalLogicService', () => {
     });
   });
 
+  describe('resolveSubmissionFields', () => {
+    it('should mark fields with unmet show conditions as hidden', () => {
+      const result = ConditionalLogicService.resolveSubmissionFields(testForm.fields, {
+        field1: 'Google Search',
+        field2: 'Instagram',
+        field3: '5'
+      });
+
+      expect(result.activeFields.has('field1')).toBe(true);
+      expect(result.inactiveFields.get('field2')).toBe('hidden');
+      expect(result.inactiveFields.get('field4')).toBe('hidden');
+    });
+
+    it('should keep fields visible when their show conditions are met', () => {
+      const result = ConditionalLogicService.resolveSubmissionFields(testForm.fields, {
+        field1: 'Social Media',
+        field2: 'Instagram',
+        field3: '15'
+      });
+
+      expect(result.activeFields.has('field2')).toBe(true);
+      expect(result.activeFields.has('field4')).toBe(true);
+      expect(result.inactiveFields.size).toBe(0);
+    });
+
+    it('should mark fields jumped over by skip logic as skipped', () => {
+      const fields = testForm.fields.map((field: any) => field.toObject());
+      fields[0].conditional.skip = {
+        enabled: true,
+        targetFieldId: 'field5',
+        conditions: [{ fieldId: 'field1', operator: 'equals', value: 'Friend' }]
+      };
+
+      const result = ConditionalLogicService.resolveSubmissionFields(fields, {
+        field1: 'Friend',
+        field3: '20'
+      });
+
+      expect(result.inactiveFields.get('field3')).toBe('skipped');
+      expect(result.inactiveFields.get('field4')).toBe('skipped');
+      expect(result.activeFields.has('field5')).toBe(true);
+    });
+
+    it('should ignore answers from bypassed fields when evaluating later conditions', () => {
+      const fields = testForm.fields.map((field: any) => field.toObject());
+      fields[2].conditional.show = {
+        enabled: true,
+        conditions: [{ fieldId: 'field2', operator: 'is_not_empty', value: '' }]
+      };
+
+      // field2 is hidden, so its stale answer must not reveal field3 and field4
+      const result = ConditionalLogicService.resolveSubmissionFields(fields, {
+        field1: 'Google Search',
+        field2: 'Instagram',
+        field3: '15'
+      });
+
+      expect(result.inactiveFields.get('field2')).toBe('hidden');
+      expect(result.inactiveFields.get('field3')).toBe('hidden');
+      expect(result.inactiveFields.get('field4')).toBe('hidden');
+    });
+  });
+
   describe('Edge Cases and Error Handling', () => {
     it('should handle malformed field responses', async () => {
       const responses = new Map([
@@ -0,0 +1,138 @@
+import mongoose from 'mongoose';
+import Form from '../../models/Form';
+import FormResponse from '../../models/FormResponse';
+import ConsentRecord from '../../models/ConsentRecord';
+import GDPRAuditEntry from '../../models/GDPRAuditEntry';
+import {
+  ConsentLedgerError,
+  ConsentLedgerService,
+  ConsentRequiredError,
+  ConsentVersionChangedError
+} from '../../services/ConsentLedgerService';
+import { TestUtils } from '../setup';
+
+describe('ConsentLedgerService', () => {
+  const ownerId = new mongoose.Types.ObjectId();
+  let form: any;
+
+  // Submitting requires consent to data processing; its record comes after the other choices
+  const submit = async (email: string, choices: Record<string, boolean>, version?: number) => {
+    const consent = { version, choices: { ...choices, data_processing: true } };
+    const response = await FormResponse.create({ formId: form._id, responses: { email } });
+    const current = await ConsentLedgerService.checkSubmission(form, consent);
+    return ConsentLedgerService.recordForResponse(form, response._id, current, consent, { ipAddress: '203.0.113.7' });
+  };
+
+  const changeWording = async (consentText: string) => {
+    form.settings.gdpr.consentText = consentText;
+    await form.save();
+  };
+
+  beforeEach(async () => {
+    const formData = TestUtils.createTestForm(ownerId.toString());
+    form = await Form.create({
+      ...formData,
+      fields: [{ ...formData.fields[0], id: 'email', type: 'email', label: 'Email', required: false }],
+      settings: {
+        ...formData.settings,
+        gdpr: { enabled: true, consentText: 'You may email me offers', privacyPolicyUrl: 'https://example.com/privacy' }
+      }
+    });
+  });
+
+  describe('getCurrentVersion', () => {
+    it('should number a new version only when the wording changes', async () => {
+      const first = await ConsentLedgerService.getCurrentVersion(form);
+      expect((await ConsentLedgerService.getCurrentVersion(form))!._id).toEqual(first!._id);
+
+      await changeWording('You may email and call me with offers');
+      const second = await ConsentLedgerService.getCurrentVersion(form);
+
+      expect(first!.version).toBe(1);
+      expect(second!.version).toBe(2);
+      expect(second!.consentText).toBe('You may email and call me with offers');
+      expect((await ConsentLedgerService.listVersions(form._id)).map(version => version.version)).toEqual([2, 1]);
+    });
+
+    it('should not version forms without GDPR consent', async () => {
+      form.settings.gdpr.enabled = false;
+
+      expect(await ConsentLedgerService.getCurrentVersion(form)).toBeNull();
+    });
+  });
+
+  describe('checkSubmission', () => {
+    it('should reject consent given against outdated wording or unknown consent types', async () => {
+      await ConsentLedgerService.getCurrentVersion(form);
+      await changeWording('New wording');
+
+      await expect(ConsentLedgerService.checkSubmission(form, { version: 1, choices: { marketing: true } }))
+        .rejects.toThrow(ConsentVersionChangedError);
+      await expect(ConsentLedgerService.checkSubmission(form, { version: 2, choices: { newsletter: true } as any }))
+        .rejects.toThrow(ConsentLedgerError);
+    });
+
+    it('should require consent to data processing', async () => {
+      await expect(ConsentLedgerService.checkSubmission(form, undefined)).rejects.toThrow(ConsentRequiredError);
+      await expect(ConsentLedgerService.checkSubmission(form, { version: 1, choices: { data_processing: false, marketing: true } }))
+        .rejects.toThrow(ConsentRequiredError);
+      expect(await ConsentLedgerService.checkSubmission(form, { version: 1, choices: { data_processing: true } }))
+        .toMatchObject({ version: 1 });
+    });
+  });
+
+  describe('recordForResponse', () => {
+    it('should snapshot the wording shown and link each choice to the response', async () => {
+      const records = await submit('ada@example.com', { data_processing: true, marketing: false }, 1);
+
+      expect(records).toHaveLength(2);
+      expect(records[0]).toMatchObject({
+        consentType: 'data_processing',
+        consentGiven: true,
+        version: 1,
+        consentText: 'You may email me offers',
+        privacyPolicyUrl: 'https://example.com/privacy',
+        ipAddress: '203.0.113.7'
+      });
+      expect(records[1].consentGiven).toBe(false);
+      expect(await GDPRAuditEntry.countDocuments({ action: 'consent_recorded', formId: form._id })).toBe(2);
+    });
+  });
+
+  describe('revoke', () => {
+    it('should keep the record and mark it revoked', async () => {
+      const [record] = await submit('ada@example.com', { marketing: true });
+
+      await ConsentLedgerService.revoke(record.consentId, { userId: 'subject', revocationMethod: 'email_request' });
+      const again = await ConsentLedgerService.revoke(record.consentId, { userId: 'subject', revocationMethod: 'button_click' });
+
+      expect(again.revokedAt).toBeInstanceOf(Date);
+      expect(again.revocation?.method).toBe('email_request');
+      expect(await ConsentRecord.countDocuments({ consentId: record.consentId })).toBe(1);
+      expect(await GDPRAuditEntry.countDocuments({ action: 'consent_revoked', requestId: record.consentId })).toBe(1);
+    });
+  });
+
+  describe('list and export', () => {
+    it('should find who consented to a type under a wording version', async () => {
+      await submit('ada@example.com', { marketing: true });
+      await submit('grace@example.com', { marketing: false });
+      await changeWording('Version three of the wording');
+      const [revoked] = await submit('alan@example.com', { marketing: true });
+      await submit('edsger@example.com', { marketing: true });
+      await ConsentLedgerService.revoke(revoked.consentId, { userId: 'subject', revocationMethod: 'button_click' });
+
+      const v1 = await ConsentLedgerService.list({ formId: form._id.toString(), consentType: 'marketing', version: 1, status: 'active' });
+      expect(v1.total).toBe(1);
+
+      const { content } = await ConsentLedgerService.export(form, { consentType: 'marketing', version: 2, status: 'active' }, 'json');
+      const exported = JSON.parse(content);
+
+      expect(exported.records).toHaveLength(1);
+      expect(exported.records[0]).toMatchObject({ respondentEmail: 'edsger@example.com', status: 'active', consentText: 'Version three of the wording' });
+
+      const csv = await ConsentLedgerService.export(form, { consentType: 'marketing' }, 'csv');
+      expect(csv.content.split('\n')).toHaveLength(5);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { DataRetentionService } from '../../services/DataRetentionService';
+
+describe('DataRetentionService', () => {
+  const form = (gdpr: { enabled: boolean; dataRetentionDays: number }): any => ({ settings: { gdpr } });
+  const workspace = (deleteResponsesAfter: number, anonymizeAfter: number): any => ({
+    settings: { dataRetention: { deleteResponsesAfter, anonymizeAfter, gdprCompliant: true } }
+  });
+
+  describe('getPolicy', () => {
+    it('should only use the form retention period when GDPR is enabled on the form', () => {
+      expect(DataRetentionService.getPolicy(form({ enabled: false, dataRetentionDays: 365 }))).toEqual({
+        deleteAfterDays: 0,
+        anonymizeAfterDays: 0,
+        deleteSource: undefined
+      });
+      expect(DataRetentionService.getPolicy(form({ enabled: true, dataRetentionDays: 365 }))).toEqual({
+        deleteAfterDays: 365,
+        anonymizeAfterDays: 0,
+        deleteSource: 'form'
+      });
+    });
+
+    it('should delete after the shorter of the form and workspace periods', () => {
+      expect(DataRetentionService.getPolicy(form({ enabled: true, dataRetentionDays: 365 }), workspace(90, 0)))
+        .toMatchObject({ deleteAfterDays: 90, deleteSource: 'workspace' });
+      expect(DataRetentionService.getPolicy(form({ enabled: true, dataRetentionDays: 30 }), workspace(90, 0)))
+        .toMatchObject({ deleteAfterDays: 30, deleteSource: 'form' });
+    });
+
+    it('should only anonymize responses that are not deleted first', () => {
+      expect(DataRetentionService.getPolicy(form({ enabled: false, dataRetentionDays: 0 }), workspace(365, 30)))
+        .toMatchObject({ deleteAfterDays: 365, anonymizeAfterDays: 30 });
+      expect(DataRetentionService.getPolicy(form({ enabled: true, dataRetentionDays: 30 }), workspace(0, 60)))
+        .toMatchObject({ deleteAfterDays: 30, anonymizeAfterDays: 0 });
+      expect(DataRetentionService.getPolicy(form({ enabled: false, dataRetentionDays: 0 }), workspace(0, 60)))
+        .toMatchObject({ deleteAfterDays: 0, anonymizeAfterDays: 60 });
+    });
+  });
+
+  describe('getPersonalFieldIds', () => {
+    it('should detect personal fields by type and by flag', () => {
+      const ids = DataRetentionService.getPersonalFieldIds({
+        fields: [
+          { id: 'email', type: 'email' },
+          { id: 'cv', type: 'file' },
+          { id: 'employer', type: 'text', personal: true },
+          { id: 'diagnosis', type: 'textarea', sensitive: true },
+          { id: 'rating', type: 'rating' }
+        ] as any
+      });
+
+      expect(Array.from(ids)).toEqual(['email', 'cv', 'employer', 'diagnosis']);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import mongoose from 'mongoose';
+import Form from '../../models/Form';
+import FormResponse from '../../models/FormResponse';
+import GDPRAuditEntry from '../../models/GDPRAuditEntry';
+import { DataSubjectRequestError, DataSubjectRequestService } from '../../services/DataSubjectRequestService';
+import { TestUtils } from '../setup';
+
+describe('DataSubjectRequestService', () => {
+  const operatorId = new mongoose.Types.ObjectId();
+  let form: any;
+
+  beforeEach(async () => {
+    const formData = TestUtils.createTestForm(operatorId.toString());
+    form = await Form.create({
+      ...formData,
+      fields: [
+        { ...formData.fields[0], id: 'name', type: 'text', label: 'Name', required: false },
+        { ...formData.fields[0], id: 'email', type: 'email', label: 'Email', required: false, order: 1 },
+        { ...formData.fields[0], id: 'phone', type: 'phone', label: 'Phone', required: false, order: 2 }
+      ]
+    });
+
+    await FormResponse.create([
+      { formId: form._id, responses: { name: 'Ada', email: 'Ada@Example.com ' } },
+      { formId: form._id, responses: { name: 'Ada', phone: '+44 (20) 7946-0018' } },
+      { formId: form._id, responses: { name: 'Grace', email: 'grace@example.com', phone: '555 0100 200' } }
+    ]);
+  });
+
+  describe('create', () => {
+    it('should set the deadline and log the request in the audit log', async () => {
+      const request = await DataSubjectRequestService.create(
+        { type: 'access', emails: ['ADA@example.com'], receivedAt: new Date('2026-01-01T00:00:00Z') },
+        operatorId
+      );
+
+      expect(request.status).toBe('received');
+      expect(request.identifiers.emails).toEqual(['ada@example.com']);
+      expect(request.dueAt).toEqual(new Date('2026-01-31T00:00:00Z'));
+      expect(request.isOverdue).toBe(true);
+      expect(await GDPRAuditEntry.countDocuments({ action: 'subject_request_received', requestId: request._id.toString() })).toBe(1);
+    });
+
+    it('should require an email address or phone number', async () => {
+      await expect(DataSubjectRequestService.create({ type: 'erasure' }, operatorId)).rejects.toThrow(DataSubjectRequestError);
+      await expect(DataSubjectRequestService.create({ type: 'erasure', phones: ['123'] }, operatorId)).rejects.toThrow('at least 7 digits');
+    });
+  });
+
+  describe('findMatches', () => {
+    it('should match emails and phone numbers in fields of those types, ignoring case and punctuation', async () => {
+      const request = await DataSubjectRequestService.create(
+        { type: 'erasure', emails: ['ada@example.com'], phones: ['20 7946 0018'] },
+        operatorId
+      );
+
+      const matches = await DataSubjectRequestService.findMatches(request);
+
+      expect(matches).toHaveLength(2);
+      expect(matches.flatMap(match => match.matchedFields.map(field => field.fieldId)).sort()).toEqual(['email', 'phone']);
+    });
+  });
+
+  describe('fulfill', () => {
+    it('should only fulfil verified requests', async () => {
+      const request = await DataSubjectRequestService.create({ type: 'erasure', emails: ['ada@example.com'] }, operatorId);
+
+      await expect(DataSubjectRequestService.fulfill(request, [], operatorId)).rejects.toThrow('must be verified');
+    });
+
+    it('should erase the confirmed responses and reject responses that do not match', async () => {
+      const request = await DataSubjectRequestService.create({ type: 'erasure', emails: ['ada@example.com'] }, operatorId);
+      await DataSubjectRequestService.verify(request, { method: 'email' }, operatorId);
+      const [match] = await DataSubjectRequestService.findMatches(request);
+      const other = await FormResponse.findOne({ 'responses.name': 'Grace' });
+
+      await expect(DataSubjectRequestService.fulfill(request, [other!._id.toString()], operatorId)).rejects.toThrow('do not match');
+
+      const { request: fulfilled, exported } = await DataSubjectRequestService.fulfill(request, [match.responseId.toString()], operatorId);
+
+      expect(exported).toBeUndefined();
+      expect(fulfilled.status).toBe('fulfilled');
+      expect(fulfilled.fulfillment?.erased).toBe(1);
+      expect(fulfilled.history.map(event => event.status)).toEqual(['received', 'verified', 'fulfilled']);
+      expect(await FormResponse.countDocuments({ formId: form._id })).toBe(2);
+      expect(await GDPRAuditEntry.countDocuments({ action: 'erasure_request', requestId: request._id.toString() })).toBe(1);
+    });
+
+    it('should return labelled answers for access requests', async () => {
+      const request = await DataSubjectRequestService.create({ type: 'access', phones: ['+44 20 7946 0018'] }, operatorId);
+      await DataSubjectRequestService.verify(request, { method: 'identity_document', notes: 'Passport checked' }, operatorId);
+      const matches = await DataSubjectRequestService.findMatches(request);
+
+      const { exported } = await DataSubjectRequestService.fulfill(request, matches.map(match => match.responseId.toString()), operatorId);
+
+      expect(exported).toHaveLength(1);
+      expect(exported![0].answers).toEqual({ Name: 'Ada', Phone: '+44 (20) 7946-0018' });
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import mongoose from 'mongoose';
+import DigestSubscription from '../../models/DigestSubscription';
+import EmailMessage from '../../models/EmailMessage';
+import Form from '../../models/Form';
+import FormActivity from '../../models/FormActivity';
+import FormResponse from '../../models/FormResponse';
+import Job from '../../models/Job';
+import User from '../../models/User';
+import Workspace from '../../models/Workspace';
+import JobQueueService from '../../services/JobQueueService';
+import { DIGEST_SEND_JOB, DigestError, DigestService, DigestTargetNotFoundError } from '../../services/DigestService';
+import { TestUtils } from '../setup';
+
+describe('DigestService', () => {
+  let userId: string;
+
+  const createForm = () => {
+    const data = TestUtils.createTestForm(userId);
+    return Form.create({
+      ...data,
+      fields: [
+        ...data.fields,
+        { ...data.fields[0], id: 'plan', type: 'radio', label: 'Plan', required: false, order: 1, options: ['Free', 'Pro', 'Team'] }
+      ]
+    });
+  };
+
+  beforeAll(() => {
+    DigestService.registerHandlers();
+  });
+
+  beforeEach(async () => {
+    const user = await User.create(TestUtils.createTestUser());
+    userId = user._id.toString();
+  });
+
+  describe('getNextRunAt', () => {
+    it('should send at the local hour across a daylight saving change', () => {
+      const schedule = { frequency: 'daily' as const, timezone: 'America/New_York', sendHour: 8, dayOfWeek: 1, dayOfMonth: 1 };
+
+      // Clocks go forward on 8 March 2026, so 08:00 is 12:00 UTC instead of 13:00
+      expect(DigestService.getNextRunAt(schedule, new Date('2026-03-07T20:00:00Z')).toISOString()).toBe('2026-03-08T12:00:00.000Z');
+    });
+
+    it('should send weekly digests on the chosen weekday', () => {
+      const schedule = { frequency: 'weekly' as const, timezone: 'Europe/Berlin', sendHour: 9, dayOfWeek: 1, dayOfMonth: 1 };
+
+      // Monday 19 October 12:00 in Berlin is past 09:00, so the next send is the Monday after
+      expect(DigestService.getNextRunAt(schedule, new Date('2026-10-19T10:00:00Z')).toISOString()).toBe('2026-10-26T08:00:00.000Z');
+    });
+
+    it('should send monthly digests on the chosen day of the month', () => {
+      const schedule = { frequency: 'monthly' as const, timezone: 'UTC', sendHour: 0, dayOfWeek: 1, dayOfMonth: 1 };
+
+      expect(DigestService.getNextRunAt(schedule, new Date('2026-01-31T12:00:00Z')).toISOString()).toBe('2026-02-01T00:00:00.000Z');
+    });
+  });
+
+  describe('getPeriod', () => {
+    it('should cover the previous calendar month in the subscriber timezone', () => {
+      const period = DigestService.getPeriod({ frequency: 'monthly', timezone: 'Asia/Tokyo' }, new Date('2026-03-01T00:00:00Z'));
+
+      expect(period.start.toISOString()).toBe('2026-01-31T15:00:00.000Z');
+      expect(period.end.toISOString()).toBe('2026-02-28T15:00:00.000Z');
+    });
+
+    it('should cover the seven days before the send day', () => {
+      const period = DigestService.getPeriod({ frequency: 'weekly', timezone: 'UTC' }, new Date('2026-10-19T08:00:00Z'));
+
+      expect(period.start.toISOString()).toBe('2026-10-12T00:00:00.000Z');
+      expect(period.end.toISOString()).toBe('2026-10-19T00:00:00.000Z');
+    });
+  });
+
+  describe('buildReport', () => {
+    it('should compare the period with the one before and list top answers', async () => {
+      const form = await createForm();
+      const subscription = await DigestService.create({ scope: 'form', formId: form._id.toString(), frequency: 'daily' }, userId);
+      const period = { start: new Date('2026-10-18T00:00:00Z'), end: new Date('2026-10-19T00:00:00Z') };
+
+      await FormActivity.create([
+        { formId: form._id, hour: new Date('2026-10-18T10:00:00Z'), views: 30, starts: 8 },
+        { formId: form._id, hour: new Date('2026-10-18T11:00:00Z'), views: 10, starts: 2 },
+        { formId: form._id, hour: new Date('2026-10-17T10:00:00Z'), views: 20, starts: 5 }
+      ]);
+      await FormResponse.create([
+        { formId: form._id, responses: { plan: 'Pro' }, submittedAt: new Date('2026-10-18T10:30:00Z') },
+        { formId: form._id, responses: { plan: 'Pro' }, submittedAt: new Date('2026-10-18T11:30:00Z') },
+        { formId: form._id, responses: { plan: 'Free' }, submittedAt: new Date('2026-10-18T12:30:00Z') },
+        { formId: form._id, responses: { plan: 'Team' }, submittedAt: new Date('2026-10-18T13:30:00Z'), status: 'spam' },
+        { formId: form._id, responses: { plan: 'Free' }, submittedAt: new Date('2026-10-17T10:30:00Z') }
+      ]);
+
+      const report = await DigestService.buildReport(subscription, period);
+
+      expect(report.metrics.views).toEqual({ current: 40, previous: 20, change: 100 });
+      expect(report.metrics.completions).toEqual({ current: 3, previous: 1, change: 200 });
+      expect(report.metrics.conversionRate).toEqual({ current: 7.5, previous: 5, change: 50 });
+      expect(report.metrics.completionRate.current).toBe(30);
+      expect(report.topAnswers).toEqual([
+        { fieldId: 'plan', label: 'Plan', answers: [{ answer: 'Pro', count: 2 }, { answer: 'Free', count: 1 }] }
+      ]);
+      expect(DigestService.renderHtml(report)).toContain('+200%');
+    });
+  });
+
+  describe('create', () => {
+    it('should email the subscriber by default', async () => {
+      const form = await createForm();
+
+      const subscription = await DigestService.create({ scope: 'form', formId: form._id.toString() }, userId);
+
+      expect(subscription).toMatchObject({ frequency: 'weekly', channel: 'email', recipients: ['test@example.com'] });
+      expect(subscription.nextRunAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should reject workspaces the user cannot see and unknown timezones', async () => {
+      const workspace = await Workspace.create({ name: 'Other', ownerId: new mongoose.Types.ObjectId() });
+      const form = await createForm();
+
+      await expect(DigestService.create({ scope: 'workspace', workspaceId: workspace._id.toString() }, userId))
+        .rejects.toThrow(DigestTargetNotFoundError);
+      await expect(DigestService.create({ scope: 'form', formId: form._id.toString(), timezone: 'Mars/Olympus' }, userId))
+        .rejects.toThrow(DigestError);
+    });
+  });
+
+  describe('dispatchDue', () => {
+    it('should queue due digests once and email them', async () => {
+      const form = await createForm();
+      const subscription = await DigestService.create({ scope: 'form', formId: form._id.toString(), frequency: 'daily' }, userId);
+      await DigestSubscription.updateOne({ _id: subscription._id }, { $set: { nextRunAt: new Date(Date.now() - 60000) } });
+
+      expect(await DigestService.dispatchDue()).toEqual({ queued: 1 });
+      expect(await DigestService.dispatchDue()).toEqual({ queued: 0 });
+      expect(await Job.countDocuments({ type: DIGEST_SEND_JOB })).toBe(1);
+
+      expect(await JobQueueService.processNext()).toBe(true);
+
+      const updated = await DigestSubscription.findById(subscription._id);
+      expect(updated).toMatchObject({ lastStatus: 'sent' });
+      expect(updated!.nextRunAt.getTime()).toBeGreaterThan(Date.now());
+      expect(await EmailMessage.findOne({ kind: 'digest' })).toMatchObject({ to: ['test@example.com'] });
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import mongoose from 'mongoose';
+import EmailMessage from '../../models/EmailMessage';
+import Form from '../../models/Form';
+import FormResponse from '../../models/FormResponse';
+import Job from '../../models/Job';
+import ResponseExport from '../../models/ResponseExport';
+import User from '../../models/User';
+import FileStorageService from '../../services/FileStorageService';
+import JobQueueService from '../../services/JobQueueService';
+import { MemoryFileStorage } from '../../services/FileStorageBackends';
+import { EXPORT_JOB, ExportError, ExportService } from '../../services/ExportService';
+import { TestUtils } from '../setup';
+
+describe('ExportService', () => {
+  const storage = new MemoryFileStorage();
+  let userId: string;
+  let form: any;
+
+  beforeAll(() => {
+    ExportService.registerHandlers();
+    FileStorageService.setBackend(storage);
+  });
+
+  afterAll(() => {
+    FileStorageService.setBackend(null);
+  });
+
+  beforeEach(async () => {
+    storage.clear();
+    const user = await User.create(TestUtils.createTestUser());
+    userId = user._id.toString();
+    form = await Form.create(TestUtils.createTestForm(userId));
+    await FormResponse.create([
+      { formId: form._id, responses: { field1: 'Ada' }, submittedAt: new Date('2026-10-01T10:00:00Z') },
+      { formId: form._id, responses: { field1: 'Grace' }, submittedAt: new Date('2026-10-02T10:00:00Z') },
+      { formId: form._id, responses: { field1: 'Linus' }, submittedAt: new Date('2026-10-03T10:00:00Z') }
+    ]);
+  });
+
+  describe('queueExport', () => {
+    it('should stream the matching responses into a stored file and email the requester', async () => {
+      const queued = await ExportService.queueExport(form, 'csv', { startDate: '2026-10-02T00:00:00Z' }, { selectedFields: ['field1'] }, userId);
+
+      expect(queued.status).toBe('queued');
+      expect(await Job.countDocuments({ type: EXPORT_JOB })).toBe(1);
+      expect(await JobQueueService.processNext()).toBe(true);
+
+      const completed = await ResponseExport.findById(queued._id);
+      expect(completed).toMatchObject({ status: 'completed', recordCount: 2, progress: { processed: 2, total: 2, percent: 100 } });
+      expect(completed!.expiresAt!.getTime()).toBeGreaterThan(Date.now());
+
+      const file = storage.files.get(completed!.storageKey!);
+      const lines = file!.body.toString().split('\n');
+      expect(lines).toEqual(['Name', 'Linus', 'Grace']);
+      expect(completed!.size).toBe(file!.body.length);
+
+      expect(await EmailMessage.findOne({ kind: 'export_ready' })).toMatchObject({ to: ['test@example.com'] });
+      expect(ExportService.getDownloadLink(completed!)).toContain('/api/public/files/');
+    });
+
+    it('should reject a saved view the user cannot use', async () => {
+      await expect(ExportService.queueExport(form, 'csv', { viewId: new mongoose.Types.ObjectId().toString() }, {}, userId))
+        .rejects.toThrow(ExportError);
+      expect(await ResponseExport.countDocuments()).toBe(0);
+    });
+  });
+
+  describe('removeExpired', () => {
+    it('should delete expired files and keep the export in the history', async () => {
+      const queued = await ExportService.queueExport(form, 'excel', {}, { includeSummary: true }, userId);
+      expect(await JobQueueService.processNext()).toBe(true);
+      const completed = await ResponseExport.findById(queued._id);
+      expect(storage.files.get(completed!.storageKey!)!.body.subarray(0, 2).toString()).toBe('PK');
+
+      expect(await ExportService.removeExpired()).toEqual({ expired: 0 });
+      expect(await ExportService.removeExpired(new Date(completed!.expiresAt!.getTime() + 1000))).toEqual({ expired: 1 });
+
+      const expired = await ResponseExport.findById(queued._id);
+      expect(expired!.status).toBe('expired');
+      expect(expired!.storageKey).toBeUndefined();
+      expect(storage.files.size).toBe(0);
+
+      const stats = await ExportService.getExportStats(form._id.toString());
+      expect(stats.recentExports).toEqual([
+        expect.objectContaining({ id: queued._id.toString(), format: 'excel', status: 'expired', recordCount: 3 })
+      ]);
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import DataKey from '../../models/DataKey';
+import Form from '../../models/Form';
+import Job from '../../models/Job';
+import PartialSubmission from '../../models/PartialSubmission';
+import ResponseRevision from '../../models/ResponseRevision';
+import { FieldEncryptionService, REDACTED_ANSWER } from '../../services/FieldEncryptionService';
+import { INTEGRATION_DISPATCH_JOB } from '../../services/IntegrationEventService';
+import JobQueueService from '../../services/JobQueueService';
+import PartialSubmissionService from '../../services/PartialSubmissionService';
+import { TestUtils } from '../setup';
+
+describe('FieldEncryptionService', () => {
+  const masterKey = crypto.randomBytes(32).toString('base64');
+  const responseId = new Types.ObjectId();
+
+  const form: any = {
+    userId: new Types.ObjectId(),
+    workspaceId: new Types.ObjectId(),
+    fields: [
+      { id: 'name', type: 'text', label: 'Name' },
+      { id: 'diagnosis', type: 'textarea', label: 'Diagnosis', sensitive: true },
+      { id: 'allergies', type: 'checkbox', label: 'Allergies', sensitive: true },
+      { id: 'cv', type: 'file', label: 'CV', sensitive: true }
+    ]
+  };
+
+  beforeEach(() => {
+    process.env.FIELD_ENCRYPTION_MASTER_KEY = masterKey;
+    delete process.env.FIELD_ENCRYPTION_PREVIOUS_MASTER_KEYS;
+    FieldEncryptionService.clearCache();
+  });
+
+  afterAll(() => {
+    delete process.env.FIELD_ENCRYPTION_MASTER_KEY;
+  });
+
+  describe('getSensitiveFieldIds', () => {
+    it('should treat calculations built on sensitive answers as sensitive', () => {
+      const calculation = (formula: string) => ({ enabled: true, formula, dependencies: [], displayType: 'number' });
+      const fields = [
+        { id: 'salary', type: 'number', label: 'Salary', sensitive: true },
+        { id: 'yearly', type: 'number', label: 'Yearly salary', calculation: calculation('{{salary}} * 12') },
+        { id: 'tax', type: 'number', label: 'Tax', calculation: calculation('yearly * 0.2') },
+        { id: 'age', type: 'number', label: 'Age' },
+        { id: 'ageInMonths', type: 'number', label: 'Age in months', calculation: calculation('age * 12') }
+      ];
+
+      expect(Array.from(FieldEncryptionService.getSensitiveFieldIds({ fields } as any))).toEqual(['salary', 'yearly', 'tax']);
+    });
+  });
+
+  describe('encryptAnswers', () => {
+    it('should encrypt only answers to sensitive fields, under a wrapped workspace key', async () => {
+      const stored = await FieldEncryptionService.encryptAnswers(form, {
+        name: 'Ada',
+        diagnosis: 'Migraine',
+        allergies: ['Pollen'],
+        cv: { originalName: 'cv.pdf', filename: 'f1.pdf' }
+      }, responseId);
+
+      expect(stored.name).toBe('Ada');
+      expect(stored.cv).toEqual({ originalName: 'cv.pdf', filename: 'f1.pdf' });
+      expect(FieldEncryptionService.isEncrypted(stored.diagnosis)).toBe(true);
+      expect(JSON.stringify(stored)).not.toContain('Migraine');
+
+      const key = await DataKey.findOne({ scope: `workspace:${form.workspaceId}` }).select('+wrappedKey');
+      expect(key).toMatchObject({ version: 1, status: 'active' });
+      expect(Buffer.from(key!.wrappedKey, 'base64')).toHaveLength(12 + 16 + 32);
+
+      FieldEncryptionService.clearCache();
+      expect(await FieldEncryptionService.decryptAnswers(stored, responseId)).toEqual({
+        name: 'Ada',
+        diagnosis: 'Migraine',
+        allergies: ['Pollen'],
+        cv: { originalName: 'cv.pdf', filename: 'f1.pdf' }
+      });
+    });
+
+    it('should not decrypt answers copied to another response or field', async () => {
+      const stored = await FieldEncryptionService.encryptAnswers(form, { diagnosis: 'Migraine' }, responseId);
+
+      expect(await FieldEncryptionService.decryptAnswers(stored, new Types.ObjectId())).toEqual({ diagnosis: REDACTED_ANSWER });
+      expect(await FieldEncryptionService.decryptAnswers({ notes: stored.diagnosis }, responseId)).toEqual({ notes: REDACTED_ANSWER });
+    });
+  });
+
+  describe('revealAnswers', () => {
+    it('should redact encrypted answers and plaintext answers to sensitive fields for readers without access', async () => {
+      const stored = await FieldEncryptionService.encryptAnswers(form, { name: 'Ada', diagnosis: 'Migraine' }, responseId);
+
+      expect(await FieldEncryptionService.revealAnswers(form, { ...stored, allergies: ['Pollen'] }, responseId, false)).toEqual({
+        name: 'Ada',
+        diagnosis: REDACTED_ANSWER,
+        allergies: REDACTED_ANSWER
+      });
+      expect(await FieldEncryptionService.revealAnswers(form, stored, responseId, true)).toEqual({ name: 'Ada', diagnosis: 'Migraine' });
+    });
+  });
+
+  describe('saved progress', () => {
+    it('should encrypt sensitive answers of partial saves and redact them from session events', async () => {
+      const data = TestUtils.createTestForm(form.userId.toString());
+      const savedForm = await Form.create({
+        ...data,
+        fields: [...data.fields, { ...data.fields[0], id: 'diagnosis', label: 'Diagnosis', required: false, order: 1, sensitive: true }],
+        settings: { ...data.settings, autoSave: { enabled: true, interval: 7 } }
+      });
+      const formId = savedForm._id.toString();
+
+      await PartialSubmissionService.savePartialSubmission(formId, 'session-1', { field1: 'Ada', diagnosis: 'Migraine' });
+
+      const stored = await PartialSubmission.findOne({ formId, sessionId: 'session-1' }).lean();
+      expect(FieldEncryptionService.isEncrypted(stored!.responses.diagnosis)).toBe(true);
+      expect((await PartialSubmissionService.retrievePartialSubmission(formId, 'session-1')).responses)
+        .toEqual({ field1: 'Ada', diagnosis: 'Migraine' });
+
+      const started = await Job.findOne({ type: INTEGRATION_DISPATCH_JOB, 'payload.eventType': 'form_started' });
+      expect(started!.payload.responses).toEqual({ field1: 'Ada', diagnosis: REDACTED_ANSWER });
+    });
+  });
+
+  describe('rotateKeys', () => {
+    it('should retire the active key and keep older answers readable after the master key changes', async () => {
+      const scope = FieldEncryptionService.getScope(form);
+      const stored = await FieldEncryptionService.encryptAnswers(form, { diagnosis: 'Migraine' }, responseId);
+
+      const { key, job } = await FieldEncryptionService.rotateKeys(scope);
+
+      expect(key.version).toBe(2);
+      expect(job.payload).toEqual({ scope });
+      expect(await DataKey.findOne({ scope, version: 1 })).toMatchObject({ status: 'retired' });
+
+      process.env.FIELD_ENCRYPTION_PREVIOUS_MASTER_KEYS = masterKey;
+      process.env.FIELD_ENCRYPTION_MASTER_KEY = crypto.randomBytes(32).toString('base64');
+      FieldEncryptionService.clearCache();
+
+      expect(await FieldEncryptionService.decryptAnswers(stored, responseId)).toEqual({ diagnosis: 'Migraine' });
+    });
+
+    it('should encrypt revision changes to calculations built on sensitive answers', async () => {
+      FieldEncryptionService.registerHandlers();
+      const payroll = await Form.create({
+        ...TestUtils.createTestForm(form.userId.toString()),
+        workspaceId: form.workspaceId,
+        fields: [
+          { id: 'salary', type: 'number', label: 'Salary', required: true, order: 0, sensitive: true },
+          {
+            id: 'yearly',
+            type: 'number',
+            label: 'Yearly salary',
+            required: false,
+            order: 1,
+            calculation: { enabled: true, formula: 'salary * 12', dependencies: ['salary'], displayType: 'number' }
+          }
+        ]
+      });
+      const revision = await ResponseRevision.create({
+        responseId,
+        formId: payroll._id,
+        revision: 1,
+        editedBy: form.userId,
+        mode: 'merge',
+        changes: [{ fieldId: 'yearly', label: 'Yearly salary', before: 12000, after: 24000, calculated: true }]
+      });
+
+      await FieldEncryptionService.rotateKeys(FieldEncryptionService.getScope(form));
+      expect(await JobQueueService.processNext()).toBe(true);
+
+      const [change] = (await ResponseRevision.findById(revision._id).lean())!.changes;
+      expect(FieldEncryptionService.isEncrypted(change.before)).toBe(true);
+      expect(FieldEncryptionService.isEncrypted(change.after)).toBe(true);
+      expect(await FieldEncryptionService.decryptChanges([change], responseId)).toMatchObject([{ before: 12000, after: 24000 }]);
+    });
+  });
+});
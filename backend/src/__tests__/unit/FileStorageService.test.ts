@@ -0,0 +1,138 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { FileStorageService } from '../../services/FileStorageService';
+import { LocalFileStorage, S3FileStorage, StoredFileNotFoundError } from '../../services/FileStorageBackends';
+
+/**
+ * Minimal S3-compatible server standing in for MinIO: path-style PUT, GET, HEAD and DELETE of objects
+ */
+const startS3StandIn = async () => {
+  const objects = new Map<string, { body: Buffer; contentType?: string }>();
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const key = decodeURIComponent(req.url!.split('?')[0]);
+      const object = objects.get(key);
+
+      if (req.method === 'PUT') {
+        objects.set(key, { body: Buffer.concat(chunks), contentType: req.headers['content-type'] });
+        res.writeHead(200, { ETag: '"etag"' }).end();
+      } else if (req.method === 'DELETE') {
+        objects.delete(key);
+        res.writeHead(204).end();
+      } else if (!object) {
+        res.writeHead(404, { 'Content-Type': 'application/xml' })
+          .end(req.method === 'HEAD' ? undefined : '<?xml version="1.0"?><Error><Code>NoSuchKey</Code><Message>Not found</Message></Error>');
+      } else {
+        res.writeHead(200, { 'Content-Type': object.contentType || 'application/octet-stream', 'Content-Length': object.body.length });
+        res.end(req.method === 'HEAD' ? undefined : object.body);
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, objects, endpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+};
+
+const readAll = async (stream: NodeJS.ReadableStream): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks).toString();
+};
+
+describe('FileStorageService', () => {
+  describe('S3FileStorage', () => {
+    let standIn: Awaited<ReturnType<typeof startS3StandIn>>;
+    let storage: S3FileStorage;
+
+    beforeAll(async () => {
+      standIn = await startS3StandIn();
+      storage = new S3FileStorage({
+        bucket: 'uploads',
+        endpoint: standIn.endpoint,
+        accessKeyId: 'minio',
+        secretAccessKey: 'minio-secret'
+      });
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => standIn.server.close(resolve));
+    });
+
+    it('should put, read, check and delete objects with path-style requests', async () => {
+      await storage.put('forms/1/responses/2/cv.pdf', Buffer.from('%PDF-1.7'), 'application/pdf');
+
+      expect(standIn.objects.get('/uploads/forms/1/responses/2/cv.pdf')).toEqual({
+        body: Buffer.from('%PDF-1.7'),
+        contentType: 'application/pdf'
+      });
+      expect(await readAll(await storage.getStream('forms/1/responses/2/cv.pdf'))).toBe('%PDF-1.7');
+      expect(await storage.exists('forms/1/responses/2/cv.pdf')).toBe(true);
+
+      await storage.remove('forms/1/responses/2/cv.pdf');
+
+      expect(await storage.exists('forms/1/responses/2/cv.pdf')).toBe(false);
+      await expect(storage.getStream('forms/1/responses/2/cv.pdf')).rejects.toBeInstanceOf(StoredFileNotFoundError);
+    });
+  });
+
+  describe('LocalFileStorage', () => {
+    let root: string;
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'fillme-storage-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should keep files under its root and refuse keys that leave it', async () => {
+      const storage = new LocalFileStorage(root);
+
+      await storage.put('forms/1/a.txt', Buffer.from('hello'));
+
+      expect(fs.readFileSync(path.join(root, 'forms/1/a.txt'), 'utf8')).toBe('hello');
+      expect(await readAll(await storage.getStream('forms/1/a.txt'))).toBe('hello');
+      await expect(storage.put('../escape.txt', Buffer.from('x'))).rejects.toThrow('Invalid storage key');
+      await expect(storage.getStream('forms/1/missing.txt')).rejects.toBeInstanceOf(StoredFileNotFoundError);
+    });
+  });
+
+  describe('createSignedUrl', () => {
+    it('should sign links that expire', () => {
+      const file = { storageKey: 'forms/1/responses/2/cv.pdf', originalName: 'cv.pdf', mimetype: 'application/pdf' };
+
+      const { url } = FileStorageService.createSignedUrl(file, 60);
+      const token = url.split('/api/public/files/')[1];
+
+      expect(FileStorageService.verifyDownloadToken(token)).toEqual({
+        key: 'forms/1/responses/2/cv.pdf',
+        name: 'cv.pdf',
+        type: 'application/pdf'
+      });
+      expect(FileStorageService.verifyDownloadToken(FileStorageService.createSignedUrl(file, -1).url.split('/files/')[1])).toBeNull();
+      expect(FileStorageService.verifyDownloadToken(`${token}x`)).toBeNull();
+    });
+  });
+
+  describe('findFile', () => {
+    it('should find files by ID, and files from before private storage by name', () => {
+      const response = {
+        responses: {
+          name: 'Ada',
+          photos: [{ id: 'f1', originalName: 'a.png', filename: 'f1.png', storageKey: 'forms/1/f1.png' }],
+          cv: { originalName: 'cv.pdf', filename: 'form-file-1.pdf', url: '/uploads/form-file-1.pdf' }
+        }
+      };
+
+      expect(FileStorageService.findFile(response, 'f1')).toMatchObject({ originalName: 'a.png' });
+      expect(FileStorageService.findFile(response, 'form-file-1.pdf')).toMatchObject({ originalName: 'cv.pdf' });
+      expect(FileStorageService.findFile(response, 'f1.png')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Types } from 'mongoose';
+import { FileUploadService } from '../../services/FileUploadService';
+import { FileStorageService } from '../../services/FileStorageService';
+import { MemoryFileStorage } from '../../services/FileStorageBackends';
+
+describe('FileUploadService', () => {
+  const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d]);
+  const PDF = Buffer.from('%PDF-1.7\n%âãÏÓ\n', 'latin1');
+  const CFB = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0, 0]);
+
+  const storage = new MemoryFileStorage();
+  const responseId = new Types.ObjectId();
+  let uploadDir: string;
+
+  const buildForm = (fileUpload: Record<string, any> = {}): any => ({
+    _id: new Types.ObjectId(),
+    fields: [
+      { id: 'name', type: 'text', label: 'Name' },
+      { id: 'resume', type: 'file', label: 'Resume', properties: { fileUpload: { allowedTypes: ['.pdf'], ...fileUpload } } },
+      { id: 'photos', type: 'file', label: 'Photos', properties: { fileUpload: { allowedTypes: ['image/*'], maxFiles: 2 } } }
+    ]
+  });
+
+  const upload = (fieldname: string, originalname: string, contents: Buffer): Express.Multer.File => {
+    const filename = `form-file-${Math.random().toString(36).slice(2)}`;
+    const filePath = path.join(uploadDir, filename);
+    fs.writeFileSync(filePath, contents);
+    return { fieldname, originalname, filename, path: filePath, size: contents.length, mimetype: 'application/octet-stream' } as Express.Multer.File;
+  };
+
+  beforeEach(() => {
+    uploadDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fillme-uploads-'));
+    storage.clear();
+    FileStorageService.setBackend(storage);
+  });
+
+  afterEach(() => {
+    fs.rmSync(uploadDir, { recursive: true, force: true });
+    FileStorageService.setBackend(null);
+  });
+
+  describe('detectType', () => {
+    it('should detect types from contents rather than the file name', () => {
+      expect(FileUploadService.detectType(PNG, 'photo.pdf')).toEqual({ mimetype: 'image/png', extension: '.png' });
+      expect(FileUploadService.detectType(PDF, 'resume.PDF')).toEqual({ mimetype: 'application/pdf', extension: '.pdf' });
+    });
+
+    it('should use the file name to pick between formats sharing a container', () => {
+      expect(FileUploadService.detectType(CFB, 'sheet.xls')).toEqual({ mimetype: 'application/vnd.ms-excel', extension: '.xls' });
+      expect(FileUploadService.detectType(CFB, 'setup.msi')).toBeNull();
+    });
+
+    it('should treat UTF-8 without binary bytes as text', () => {
+      expect(FileUploadService.detectType(Buffer.from('a,b\n1,2\n'), 'data.csv')).toEqual({ mimetype: 'text/csv', extension: '.csv' });
+      expect(FileUploadService.detectType(Buffer.from('<script>alert(1)</script>'), 'page.html')).toEqual({ mimetype: 'text/plain', extension: '.txt' });
+      expect(FileUploadService.detectType(Buffer.from([0x4d, 0x5a, 0x90, 0x00]), 'tool.exe')).toBeNull();
+    });
+  });
+
+  describe('isTypeAllowed', () => {
+    it('should match extensions, MIME types and wildcards', () => {
+      const png = { mimetype: 'image/png', extension: '.png' };
+
+      expect(FileUploadService.isTypeAllowed(png, ['png'])).toBe(true);
+      expect(FileUploadService.isTypeAllowed(png, ['.PNG'])).toBe(true);
+      expect(FileUploadService.isTypeAllowed(png, ['image/png'])).toBe(true);
+      expect(FileUploadService.isTypeAllowed(png, ['image/*'])).toBe(true);
+      expect(FileUploadService.isTypeAllowed(png, ['.pdf', 'video/*'])).toBe(false);
+    });
+  });
+
+  describe('getRules', () => {
+    it('should read sizes saved in megabytes by older forms', () => {
+      expect(FileUploadService.getRules({ properties: { fileUpload: { maxFileSize: 10 } } } as any).maxFileSize).toBe(10485760);
+      expect(FileUploadService.getRules({ properties: { fileUpload: { maxFileSize: 5242880 } } } as any).maxFileSize).toBe(5242880);
+      expect(FileUploadService.getRules({} as any).maxFiles).toBe(1);
+    });
+  });
+
+  describe('checkUploads', () => {
+    it('should accept allowed files and name them after their detected type', async () => {
+      const form = buildForm();
+      const files = [
+        upload('resume', 'cv.pdf', PDF),
+        upload('photos', 'a.jpg', PNG),
+        upload('photos', 'b.png', PNG)
+      ];
+
+      const result = await FileUploadService.checkUploads(form, files, responseId);
+
+      expect(result.errors).toEqual([]);
+      expect(result.totalBytes).toBe(PDF.length + PNG.length * 2);
+      expect(result.answers.resume).toMatchObject({ originalName: 'cv.pdf', mimetype: 'application/pdf' });
+      expect(result.answers.photos).toHaveLength(2);
+
+      const photo = (result.answers.photos as any[])[0];
+      expect(photo.filename).toMatch(/\.png$/);
+      expect(photo.storageKey).toBe(`forms/${form._id}/responses/${responseId}/${photo.filename}`);
+      expect(photo.url).toBe(`/api/responses/${responseId}/files/${photo.id}`);
+      expect(storage.files.size).toBe(0);
+    });
+
+    it('should move accepted files into file storage when stored', async () => {
+      const result = await FileUploadService.checkUploads(buildForm(), [upload('resume', 'cv.pdf', PDF)], responseId);
+
+      await FileUploadService.storeUploads(result);
+
+      const resume = result.answers.resume as any;
+      expect(storage.files.get(resume.storageKey)).toEqual({ body: PDF, contentType: 'application/pdf' });
+
+      await FileUploadService.removeStoredUploads(result);
+      expect(storage.files.size).toBe(0);
+    });
+
+    it('should reject unknown fields, disguised types, oversized files and extra files', async () => {
+      const files = [
+        upload('avatar', 'me.png', PNG),
+        upload('name', 'me.png', PNG),
+        upload('resume', 'cv.pdf', PNG),
+        upload('photos', 'a.png', PNG),
+        upload('photos', 'b.png', PNG),
+        upload('photos', 'c.png', PNG)
+      ];
+
+      const result = await FileUploadService.checkUploads(buildForm(), files, responseId);
+
+      expect(result.errors.map(error => error.fieldId)).toEqual(['avatar', 'name', 'resume', 'photos']);
+      expect(result.answers).toEqual({});
+      expect(result.pending).toEqual([]);
+
+      const oversized = await FileUploadService.checkUploads(
+        buildForm({ maxFileSize: 2000 }),
+        [upload('resume', 'cv.pdf', Buffer.concat([PDF, Buffer.alloc(2048, 0x20)]))],
+        responseId
+      );
+      expect(oversized.errors[0].message).toContain('larger than');
+    });
+  });
+
+  describe('applyAnswers', () => {
+    it('should drop file answers sent in the body', () => {
+      const responses = FileUploadService.applyAnswers(buildForm(), {
+        name: 'Ada',
+        resume: { filename: 'someone-elses.pdf', url: '/uploads/someone-elses.pdf' }
+      }, {});
+
+      expect(responses).toEqual({ name: 'Ada' });
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { Types } from 'mongoose';
+import Form from '../../models/Form';
+import FormResponse from '../../models/FormResponse';
+import { FormAccessService } from '../../services/FormAccessService';
+import { TestUtils } from '../setup';
+
+describe('FormAccessService', () => {
+  const buildForm = (settings: Record<string, any> = {}): any => ({
+    _id: new Types.ObjectId(),
+    title: 'Event Registration',
+    settings: {
+      allowMultipleSubmissions: true,
+      passwordProtection: { enabled: false },
+      responseLimit: { enabled: false },
+      schedule: { enabled: false },
+      ...settings
+    }
+  });
+
+  const buildRequest = (headers: Record<string, string> = {}, body: Record<string, any> = {}): any => ({
+    headers,
+    body,
+    query: {},
+    get: (name: string) => headers[name.toLowerCase()]
+  });
+
+  describe('checkAvailability', () => {
+    const now = new Date('2024-06-15T12:00:00Z');
+
+    it('should reject forms whose schedule has not started', async () => {
+      const form = buildForm({
+        schedule: { enabled: true, startDate: new Date('2024-06-16T00:00:00Z') }
+      });
+
+      const result = await FormAccessService.checkAvailability(form, now);
+
+      expect(result.allowed).toBe(false);
+      expect(result.code).toBe('FORM_NOT_OPEN');
+      expect(result.opensAt).toEqual(new Date('2024-06-16T00:00:00Z'));
+    });
+
+    it('should use the configured closed message once the schedule has ended', async () => {
+      const form = buildForm({
+        schedule: { enabled: true, endDate: new Date('2024-06-01T00:00:00Z') },
+        closedMessage: 'Registration is closed. See you next year!'
+      });
+
+      const result = await FormAccessService.checkAvailability(form, now);
+
+      expect(result).toMatchObject({
+        allowed: false,
+        code: 'FORM_CLOSED',
+        message: 'Registration is closed. See you next year!'
+      });
+    });
+
+    it('should allow forms inside their schedule window', async () => {
+      const form = buildForm({
+        schedule: {
+          enabled: true,
+          startDate: new Date('2024-06-01T00:00:00Z'),
+          endDate: new Date('2024-06-30T00:00:00Z')
+        }
+      });
+
+      expect(await FormAccessService.checkAvailability(form, now)).toEqual({ allowed: true });
+    });
+  });
+
+  describe('checkResponseLimit', () => {
+    it('should not count quarantined spam against the limit', async () => {
+      const form = buildForm({ responseLimit: { enabled: true, maxResponses: 2 } });
+      await FormResponse.create([
+        { formId: form._id, responses: {} },
+        { formId: form._id, responses: {}, status: 'spam' }
+      ]);
+
+      expect(await FormAccessService.checkResponseLimit(form)).toEqual({ allowed: true });
+
+      await FormResponse.create({ formId: form._id, responses: {} });
+
+      expect(await FormAccessService.checkResponseLimit(form)).toMatchObject({ allowed: false, code: 'RESPONSE_LIMIT_REACHED' });
+    });
+  });
+
+  describe('saveWithinResponseLimit', () => {
+    it('should save only as many racing submissions as there are places left', async () => {
+      const form = await Form.create({
+        ...TestUtils.createTestForm(new Types.ObjectId().toString()),
+        settings: { responseLimit: { enabled: true, maxResponses: 2 } }
+      });
+      await FormResponse.create({ formId: form._id, responses: {} });
+
+      const results = await Promise.all([1, 2, 3].map(() =>
+        FormAccessService.saveWithinResponseLimit(form, () => FormResponse.create({ formId: form._id, responses: {} }))
+      ));
+
+      expect(results.filter(result => result.allowed)).toHaveLength(1);
+      expect(results.filter(result => result.code === 'RESPONSE_LIMIT_REACHED')).toHaveLength(2);
+      expect(await FormResponse.countDocuments({ formId: form._id })).toBe(2);
+      expect(await Form.findById(form._id).select('+responseLimitLockedBy').lean()).not.toHaveProperty('responseLimitLockedBy');
+    });
+  });
+
+  describe('checkPassword', () => {
+    it('should require an unlock token for password-protected forms', async () => {
+      const form = buildForm({
+        passwordProtection: { enabled: true, password: await FormAccessService.hashPassword('open sesame') }
+      });
+
+      const result = await FormAccessService.checkPassword(form, buildRequest());
+
+      expect(result.code).toBe('PASSWORD_REQUIRED');
+    });
+
+    it('should accept tokens issued for the current password only', async () => {
+      const form = buildForm({
+        passwordProtection: { enabled: true, password: await FormAccessService.hashPassword('open sesame') }
+      });
+
+      expect(await FormAccessService.unlock(form, 'wrong')).toBeNull();
+
+      const unlock = await FormAccessService.unlock(form, 'open sesame');
+      const request = buildRequest({ 'x-form-unlock-token': unlock!.unlockToken });
+      expect((await FormAccessService.checkPassword(form, request)).allowed).toBe(true);
+
+      form.settings.passwordProtection.password = await FormAccessService.hashPassword('changed');
+      expect((await FormAccessService.checkPassword(form, request)).allowed).toBe(false);
+    });
+  });
+
+  describe('getSubmitterKeys', () => {
+    it('should derive stable hashed keys from the submission cookie and device fingerprint', () => {
+      const form = buildForm();
+      const request = buildRequest({
+        cookie: `theme=dark; fm_sub_${form._id}=abc123`,
+        'x-device-fingerprint': 'device-1'
+      });
+
+      const keys = FormAccessService.getSubmitterKeys(form, request);
+
+      expect(keys).toHaveLength(2);
+      expect(keys).toEqual(FormAccessService.getSubmitterKeys(form, request));
+      expect(keys.join()).not.toContain('abc123');
+    });
+  });
+
+  describe('prepareSettings', () => {
+    it('should hash new passwords and keep the stored hash when none is sent', async () => {
+      const created = await FormAccessService.prepareSettings({}, {
+        passwordProtection: { enabled: true, password: 'open sesame' }
+      });
+      const storedHash = created.passwordProtection.password;
+
+      expect(FormAccessService.isPasswordHash(storedHash)).toBe(true);
+
+      const updated = await FormAccessService.prepareSettings(created, {
+        passwordProtection: { enabled: true, password: '' },
+        closedMessage: 'Closed'
+      });
+
+      expect(updated.passwordProtection.password).toBe(storedHash);
+      expect(updated.closedMessage).toBe('Closed');
+    });
+
+    it('should reject enabling password protection without a password', async () => {
+      await expect(FormAccessService.prepareSettings({}, {
+        passwordProtection: { enabled: true }
+      })).rejects.toThrow('A password is required when password protection is enabled');
+    });
+
+    it('should interpret schedule dates in the schedule timezone', async () => {
+      const settings = await FormAccessService.prepareSettings({}, {
+        schedule: {
+          enabled: true,
+          timezone: 'America/New_York',
+          startDate: '2024-07-01T09:00',
+          endDate: '2024-07-31T17:00:00Z'
+        }
+      });
+
+      expect(settings.schedule.startDate).toEqual(new Date('2024-07-01T13:00:00Z'));
+      expect(settings.schedule.endDate).toEqual(new Date('2024-07-31T17:00:00Z'));
+    });
+  });
+});
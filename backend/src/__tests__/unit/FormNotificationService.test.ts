@@ -0,0 +1,120 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FormNotificationService } from '../../services/FormNotificationService';
+import { FileMailTransport, MemoryMailTransport } from '../../services/MailTransports';
+import { IFormField, IIntegrationEvent } from '../../types';
+
+describe('FormNotificationService', () => {
+  const fields = [
+    { id: 'name', type: 'text', label: 'Name', order: 0 },
+    { id: 'work_email', type: 'email', label: 'Work email', order: 1 },
+    { id: 'email', type: 'email', label: 'Email', order: 2 },
+    { id: 'resume', type: 'file', label: 'Resume', order: 3 }
+  ] as unknown as IFormField[];
+
+  const event: IIntegrationEvent = {
+    eventId: 'evt-1',
+    eventType: 'form_submitted',
+    formId: 'form-1',
+    occurredAt: new Date('2024-01-01T00:00:00Z'),
+    form: { id: 'form-1', title: 'Job <application>' },
+    responseId: 'resp-1',
+    responses: {
+      name: 'Grace\r\nHopper <script>',
+      work_email: 'not-an-email',
+      email: ' grace@example.com ',
+      resume: { originalName: 'resume.pdf', filename: 'form-file-1.pdf', mimetype: 'application/pdf', size: 1024, url: '/uploads/form-file-1.pdf' }
+    }
+  };
+
+  describe('renderEmail', () => {
+    it('should list every answer with a response link when there is no template', () => {
+      const email = FormNotificationService.renderEmail(event, fields, {
+        subject: 'New response to {{form.title}}',
+        includeAttachments: false,
+        includeResponseLink: true
+      });
+
+      expect(email.subject).toBe('New response to Job <application>');
+      expect(email.text).toContain('Resume: resume.pdf');
+      expect(email.text).toContain('View response: http://localhost:3000/forms/form-1/responses?responseId=resp-1');
+      expect(email.html).toContain('Grace\r\nHopper &lt;script&gt;');
+      expect(email.html).not.toContain('<script>');
+      expect(email.attachments).toEqual([]);
+    });
+
+    it('should render templates with escaped answers and keep the subject on one line', () => {
+      const email = FormNotificationService.renderEmail(event, fields, {
+        subject: 'Hi {{name}}',
+        template: 'Hello {{Name}},\n\nWe got your answers.',
+        includeAttachments: false,
+        includeResponseLink: false
+      });
+
+      expect(email.subject).toBe('Hi Grace Hopper <script>');
+      expect(email.text).toBe('Hello Grace\r\nHopper <script>,\n\nWe got your answers.');
+      expect(email.html).toContain('<p>Hello Grace\r<br>Hopper &lt;script&gt;,</p><p>We got your answers.</p>');
+      expect(email.html).not.toContain('View response');
+    });
+
+    it('should attach uploaded files only when enabled', () => {
+      const email = FormNotificationService.renderEmail(event, fields, {
+        subject: 'Files',
+        includeAttachments: true,
+        includeResponseLink: false
+      });
+
+      expect(email.attachments).toEqual([expect.objectContaining({
+        filename: 'resume.pdf',
+        contentType: 'application/pdf',
+        path: expect.stringMatching(/form-file-1\.pdf$/)
+      })]);
+    });
+  });
+
+  describe('getRespondentEmail', () => {
+    it('should use the first valid email answer by default', () => {
+      expect(FormNotificationService.getRespondentEmail(event, fields)).toBe('grace@example.com');
+    });
+
+    it('should only use the configured field when one is set', () => {
+      expect(FormNotificationService.getRespondentEmail(event, fields, 'work_email')).toBeUndefined();
+    });
+  });
+
+  describe('transports', () => {
+    const message = {
+      from: 'Youform <no-reply@youform.com>',
+      to: ['owner@example.com'],
+      subject: 'New response',
+      html: '<p>Hello</p>',
+      text: 'Hello'
+    };
+
+    it('should keep messages in memory', async () => {
+      const transport = new MemoryMailTransport();
+
+      const result = await transport.send(message);
+
+      expect(transport.messages).toEqual([expect.objectContaining({ ...message, messageId: result.messageId })]);
+    });
+
+    it('should write messages as .eml files', async () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'youform-mail-'));
+      const transport = new FileMailTransport(directory);
+
+      try {
+        await transport.send(message);
+
+        const files = fs.readdirSync(directory);
+        expect(files).toHaveLength(1);
+        const eml = fs.readFileSync(path.join(directory, files[0]), 'utf8');
+        expect(eml).toContain('Subject: New response');
+        expect(eml).toContain('To: owner@example.com');
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    });
+  });
+});
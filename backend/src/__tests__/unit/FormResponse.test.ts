@@ -0,0 +1,46 @@
+import mongoose from 'mongoose';
+import Form from '../../models/Form';
+import FormResponse from '../../models/FormResponse';
+import { TestUtils } from '../setup';
+
+describe('FormResponse', () => {
+  const ownerId = new mongoose.Types.ObjectId();
+  let form: any;
+
+  beforeEach(async () => {
+    form = await Form.create({
+      ...TestUtils.createTestForm(ownerId.toString()),
+      fields: [
+        { id: 'quantity', type: 'number', label: 'Quantity', required: true, order: 0 },
+        { id: 'price', type: 'number', label: 'Price', required: true, order: 1 },
+        {
+          id: 'total',
+          type: 'number',
+          label: 'Total',
+          required: false,
+          order: 2,
+          calculation: { enabled: true, formula: 'quantity * price', dependencies: ['quantity', 'price'], displayType: 'number' }
+        }
+      ]
+    });
+  });
+
+  describe('validateAgainstForm', () => {
+    it('should overwrite a submitted calculated value with the recomputed one', async () => {
+      const response = new FormResponse({ formId: form._id, responses: { quantity: 3, price: 4, total: 1 } });
+
+      expect(await response.validateAgainstForm()).toEqual([]);
+      expect(response.responses.total).toBe(12);
+      expect(response.calculatedValues).toEqual({ total: { value: 12, formatted: 12 } });
+    });
+
+    it('should drop a submitted calculated value that cannot be recomputed', async () => {
+      const response = new FormResponse({ formId: form._id, responses: { quantity: 3, total: 1 } });
+
+      await response.validateAgainstForm();
+
+      expect(response.responses).not.toHaveProperty('total');
+      expect(response.calculatedValues).toEqual({});
+    });
+  });
+});
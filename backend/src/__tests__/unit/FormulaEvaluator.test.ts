@@ -0,0 +1,151 @@
+import { FormulaEvaluator, FormulaError } from '../../services/FormulaEvaluator';
+import { CalculatorService } from '../../services/CalculatorService';
+
+describe('FormulaEvaluator', () => {
+  const responses: Record<string, any> = {
+    price: '19.99',
+    quantity: 3,
+    discount: '',
+    name: '  Ada Lovelace ',
+    toppings: ['cheese', 'olives'],
+    startDate: '2024-01-15',
+    endDate: '2024-03-20'
+  };
+  const resolve = (fieldId: string) => responses[fieldId];
+
+  describe('evaluate', () => {
+    it('should respect operator precedence and associativity', () => {
+      expect(FormulaEvaluator.evaluate('2 + 3 * 4', resolve)).toBe(14);
+      expect(FormulaEvaluator.evaluate('(2 + 3) * 4', resolve)).toBe(20);
+      expect(FormulaEvaluator.evaluate('2 ^ 3 ^ 2', resolve)).toBe(512);
+      expect(FormulaEvaluator.evaluate('-2 ^ 2', resolve)).toBe(-4);
+      expect(FormulaEvaluator.evaluate('10 - 4 - 3', resolve)).toBe(3);
+    });
+
+    it('should resolve braced and bare field references', () => {
+      expect(FormulaEvaluator.evaluate('{{price}} * {{quantity}}', resolve)).toBeCloseTo(59.97);
+      expect(FormulaEvaluator.evaluate('SUM(price, quantity)', resolve)).toBeCloseTo(22.99);
+    });
+
+    it('should evaluate nested function calls', () => {
+      expect(FormulaEvaluator.evaluate('ROUND(SUM({{price}}, {{quantity}}) * 1.2, 2)', resolve)).toBe(27.59);
+      expect(FormulaEvaluator.evaluate('IF(MAX(quantity, 1) > 2, "bulk", "single")', resolve)).toBe('bulk');
+      expect(FormulaEvaluator.evaluate('ROUND(1.005, 2)', resolve)).toBe(1.01);
+    });
+
+    it('should support comparison and boolean operators', () => {
+      expect(FormulaEvaluator.evaluate('quantity >= 3 && price < 20', resolve)).toBe(true);
+      expect(FormulaEvaluator.evaluate('quantity = 2 || !ISBLANK(discount)', resolve)).toBe(false);
+      expect(FormulaEvaluator.evaluate('"ABC" = "abc"', resolve)).toBe(true);
+    });
+
+    it('should only evaluate the branch IF takes', () => {
+      expect(FormulaEvaluator.evaluate('IF(quantity > 0, 10 / quantity, 1 / 0)', resolve)).toBeCloseTo(3.333, 2);
+    });
+
+    it('should treat list answers as counts and blanks as zero', () => {
+      expect(FormulaEvaluator.evaluate('{{toppings}} * 2', resolve)).toBe(4);
+      expect(FormulaEvaluator.evaluate('COUNT(toppings)', resolve)).toBe(2);
+      expect(FormulaEvaluator.evaluate('{{discount}} + 5', resolve)).toBe(5);
+    });
+
+    it('should provide string functions', () => {
+      expect(FormulaEvaluator.evaluate('UPPER(TRIM(name))', resolve)).toBe('ADA LOVELACE');
+      expect(FormulaEvaluator.evaluate('LEN(TRIM(name))', resolve)).toBe(12);
+      expect(FormulaEvaluator.evaluate('LEFT(TRIM(name), 3) & "!"', resolve)).toBe('Ada!');
+      expect(FormulaEvaluator.evaluate('CONTAINS(name, "love")', resolve)).toBe(true);
+    });
+
+    it('should provide date functions', () => {
+      expect(FormulaEvaluator.evaluate('DATEDIFF(endDate, startDate)', resolve)).toBe(65);
+      expect(FormulaEvaluator.evaluate('DATEDIFF(endDate, startDate, "months")', resolve)).toBe(2);
+      expect(FormulaEvaluator.evaluate('YEAR(ADDDAYS(startDate, 365))', resolve)).toBe(2025);
+      expect(FormulaEvaluator.evaluate('MONTH(DATE(2024, 2, 29))', resolve)).toBe(2);
+    });
+
+    it('should report runtime errors with the position of the failing operand', () => {
+      try {
+        FormulaEvaluator.evaluate('price / (quantity - 3)', resolve);
+        fail('Expected a FormulaError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(FormulaError);
+        expect((error as FormulaError).message).toBe('Division by zero');
+        expect((error as FormulaError).position).toBe(9);
+      }
+    });
+
+    it('should never execute code embedded in a formula', () => {
+      expect(() => FormulaEvaluator.evaluate('process.exit(1)', resolve)).toThrow(FormulaError);
+      expect(() => FormulaEvaluator.evaluate('constructor.constructor("return 1")()', resolve)).toThrow(FormulaError);
+    });
+  });
+
+  describe('validate', () => {
+    it('should accept a valid formula and list its references', () => {
+      const result = FormulaEvaluator.validate('ROUND(SUM({{price}}, quantity), 2)', new Set(['price', 'quantity']));
+
+      expect(result.isValid).toBe(true);
+      expect(result.fieldReferences).toEqual(['price', 'quantity']);
+    });
+
+    it('should report syntax errors with character positions', () => {
+      expect(FormulaEvaluator.validate('SUM(1, 2').errors[0]).toEqual({
+        message: 'Expected "," or ")" in call to SUM',
+        position: 8,
+        length: 1
+      });
+      expect(FormulaEvaluator.validate('1 + * 2').errors[0].position).toBe(4);
+      expect(FormulaEvaluator.validate('(1 + 2))').errors[0].message).toBe('Unmatched ")"');
+      expect(FormulaEvaluator.validate('"open').errors[0].message).toBe('Unterminated string literal');
+    });
+
+    it('should report unknown functions, wrong arity and unknown fields', () => {
+      expect(FormulaEvaluator.validate('FOO(1)').errors[0]).toEqual({
+        message: 'Unknown function "FOO"',
+        position: 0,
+        length: 3
+      });
+      expect(FormulaEvaluator.validate('1 + ROUND()').errors[0].message).toBe('ROUND expects 1 to 2 arguments but got 0');
+
+      const result = FormulaEvaluator.validate('{{price}} + {{missing}}', new Set(['price']));
+      expect(result.errors).toEqual([{ message: 'Unknown field "missing"', position: 12, length: 11 }]);
+    });
+  });
+
+  describe('CalculatorService integration', () => {
+    const calculatedField = (id: string, formula: string, dependencies: string[]): any => ({
+      id,
+      type: 'number',
+      label: id,
+      required: false,
+      order: 0,
+      calculation: { enabled: true, formula, dependencies, displayType: 'decimal' }
+    });
+
+    it('should chain dependent calculations and ignore client-supplied totals', () => {
+      const fields: any[] = [
+        { id: 'price', type: 'number', label: 'Price', required: true, order: 0 },
+        { id: 'quantity', type: 'number', label: 'Quantity', required: true, order: 1 },
+        calculatedField('subtotal', '{{price}} * {{quantity}}', ['price', 'quantity']),
+        calculatedField('total', 'ROUND({{subtotal}} * 1.2, 2)', ['subtotal'])
+      ];
+
+      const results = CalculatorService.computeCalculations(fields, { price: '10', quantity: 3, total: 1 });
+
+      expect(results.subtotal.value).toBe(30);
+      expect(results.total).toEqual({ value: 36, formatted: 36 });
+    });
+
+    it('should expose positioned formula errors from validateCalculations', () => {
+      const fields: any[] = [
+        { id: 'price', type: 'number', label: 'Price', required: true, order: 0 },
+        calculatedField('total', 'SUM(price,, 2)', ['price'])
+      ];
+
+      const validation = CalculatorService.validateCalculations(fields);
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.formulaErrors[0]).toMatchObject({ fieldId: 'total', position: 10 });
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { Types } from 'mongoose';
+import GDPRAuditEntry from '../../models/GDPRAuditEntry';
+import { GDPRAuditService, GDPR_AUDIT_GENESIS_HASH } from '../../services/GDPRAuditService';
+
+describe('GDPRAuditService', () => {
+  const subjectId = new Types.ObjectId().toString();
+  const formId = new Types.ObjectId();
+
+  const recordSome = async (): Promise<void> => {
+    await GDPRAuditService.record({ action: 'access_request', subjectId, subjectEmail: 'Ada@Example.com', requestId: 'r1', details: { dataCategories: ['forms'] } });
+    await GDPRAuditService.record({ action: 'retention_run', formId, requestId: 'run1', details: { deleted: 3, anonymized: 0 } });
+    await GDPRAuditService.record({ action: 'erasure_request', subjectId, requestId: 'r2', details: { erasureScope: ['form_responses'] } });
+  };
+
+  describe('record', () => {
+    it('should chain each entry to the one before it', async () => {
+      await recordSome();
+
+      const entries = await GDPRAuditEntry.find().sort({ sequence: 1 }).lean();
+
+      expect(entries.map(entry => entry.sequence)).toEqual([1, 2, 3]);
+      expect(entries[0].previousHash).toBe(GDPR_AUDIT_GENESIS_HASH);
+      expect(entries[1].previousHash).toBe(entries[0].hash);
+      expect(entries[2].previousHash).toBe(entries[1].hash);
+      expect(entries[0].subjectEmailHash).toBe(GDPRAuditService.hashEmail('ada@example.com'));
+      expect(JSON.stringify(entries)).not.toContain('Ada@Example.com');
+    });
+
+    it('should not allow entries to be changed or removed through the model', async () => {
+      await recordSome();
+
+      await expect(GDPRAuditEntry.updateOne({ sequence: 1 }, { $set: { action: 'consent_recorded' } })).rejects.toThrow();
+      await expect(GDPRAuditEntry.deleteMany({})).rejects.toThrow();
+    });
+  });
+
+  describe('list', () => {
+    it('should filter by subject email, subject ID, form and action', async () => {
+      await recordSome();
+
+      expect((await GDPRAuditService.list({ subject: 'ada@example.com' })).total).toBe(1);
+      expect((await GDPRAuditService.list({ subject: subjectId })).entries.map(entry => entry.action))
+        .toEqual(['erasure_request', 'access_request']);
+      expect((await GDPRAuditService.list({ formId: formId.toString() })).total).toBe(1);
+      expect((await GDPRAuditService.list({ action: 'retention_run' })).entries[0].details).toEqual({ deleted: 3, anonymized: 0 });
+    });
+  });
+
+  describe('verify', () => {
+    it('should accept an untouched chain', async () => {
+      await recordSome();
+
+      expect(await GDPRAuditService.verify()).toEqual({ valid: true, checked: 3, lastSequence: 3 });
+    });
+
+    it('should report an entry changed outside the service', async () => {
+      await recordSome();
+      await GDPRAuditEntry.collection.updateOne({ sequence: 2 }, { $set: { 'details.deleted': 1 } });
+
+      expect(await GDPRAuditService.verify()).toMatchObject({ valid: false, checked: 1, brokenAt: 2, reason: 'hash does not match the entry content' });
+    });
+
+    it('should report a removed entry', async () => {
+      await recordSome();
+      await GDPRAuditEntry.collection.deleteOne({ sequence: 2 });
+
+      expect(await GDPRAuditService.verify()).toMatchObject({ valid: false, brokenAt: 3, reason: 'entry 2 is missing' });
+    });
+  });
+
+  describe('export', () => {
+    it('should export entries oldest first with the chain verification', async () => {
+      await recordSome();
+
+      const { content, mimeType } = await GDPRAuditService.export({}, 'json');
+      const exported = JSON.parse(content);
+
+      expect(mimeType).toBe('application/json');
+      expect(exported.chainVerification.valid).toBe(true);
+      expect(exported.entries.map((entry: any) => entry.sequence)).toEqual([1, 2, 3]);
+
+      const csv = await GDPRAuditService.export({ action: 'erasure_request' }, 'csv');
+      expect(csv.content.split('\n')).toHaveLength(2);
+    });
+  });
+});
@@ -3,7 +3,13 @@ import crypto from 'crypto';
 import User from '../../models/User';
 import Form from '../../models/Form';
 import FormResponse from '../../models/FormResponse';
-import { GDPRComplianceService } from '../../services/GDPRComplianceService';
+import {
+  GDPRComplianceService,
+  IGDPRAccessRequest,
+  IGDPRErasureRequest,
+  IGDPRPortabilityRequest,
+  IGDPRRevocationData
+} from '../../services/GDPRComplianceService';
 import { TestUtils } from '../setup';
 
 // Mock crypto.randomUUID for consistent testing
@@ -154,6 +160,33 @@ describe('GDPRComplianceService', () => {
       expect(result.isActive).toBe(false);
     });
 
+    it('should only link consent to a response of the given form', async () => {
+      const consentData = {
+        purpose: 'form_submission',
+        legalBasis: 'consent' as const,
+        consentGiven: true,
+        consentMethod: 'checkbox' as const,
+        responseId: testResponse._id.toString()
+      };
+      const otherForm = await Form.create({ ...TestUtils.createTestForm(testUser._id.toString()), publicUrl: 'other-form' });
+
+      await expect(
+        GDPRComplianceService.recordConsent(testUser._id.toString(), 'data_processing', consentData)
+      ).rejects.toThrow('Response not found for this form');
+      await expect(
+        GDPRComplianceService.recordConsent(testUser._id.toString(), 'data_processing', {
+          ...consentData,
+          formId: otherForm._id.toString()
+        })
+      ).rejects.toThrow('Response not found for this form');
+
+      const result = await GDPRComplianceService.recordConsent(testUser._id.toString(), 'data_processing', {
+        ...consentData,
+        formId: testForm._id.toString()
+      });
+      expect(result.responseId).toBe(testResponse._id.toString());
+    });
+
     it('should handle errors gracefully', async () => {
       // Simulate an error by passing invalid data
       const invalidConsentData = null as any;
@@ -169,8 +202,18 @@ describe('GDPRComplianceService', () => {
   });
 
   describe('revokeConsent', () => {
+    beforeEach(async () => {
+      // Recorded as 'test-uuid-12345' by the crypto mock
+      await GDPRComplianceService.recordConsent(testUser._id.toString(), 'marketing', {
+        purpose: 'newsletter',
+        legalBasis: 'consent',
+        consentGiven: true,
+        consentMethod: 'checkbox'
+      });
+    });
+
     it('should revoke consent successfully', async () => {
-      const revocationData = {
+      const revocationData: IGDPRRevocationData = {
         userId: testUser._id.toString(),
         revocationMethod: 'button_click',
         ipAddress: '192.168.1.1',
@@ -185,6 +228,7 @@ describe('GDPRComplianceService', () => {
       expect(result).toBeDefined();
       expect(result.id).toBe('test-uuid-12345');
       expect(result.userId).toBe(testUser._id.toString());
+      expect(result.consentType).toBe('marketing');
       expect(result.consentGiven).toBe(false);
       expect(result.isActive).toBe(false);
       expect(result.revokedAt).toBeInstanceOf(Date);
@@ -194,7 +238,7 @@ describe('GDPRComplianceService', () => {
     });
 
     it('should map different revocation methods correctly', async () => {
-      const emailRevocationData = {
+      const emailRevocationData: IGDPRRevocationData = {
         userId: testUser._id.toString(),
         revocationMethod: 'email_request',
         ipAddress: '192.168.1.1',
@@ -210,9 +254,9 @@ describe('GDPRComplianceService', () => {
     });
 
     it('should handle unknown revocation methods', async () => {
-      const unknownRevocationData = {
+      const unknownRevocationData: IGDPRRevocationData = {
         userId: testUser._id.toString(),
-        revocationMethod: 'unknown_method',
+        revocationMethod: 'unknown_method' as IGDPRRevocationData['revocationMethod'],
         ipAddress: '192.168.1.1',
         userAgent: 'Test Browser'
       };
@@ -224,11 +268,21 @@ describe('GDPRComplianceService', () => {
 
       expect(result.consentMethod).toBe('form_submission'); // Default fallback
     });
+
+    it('should reject consent IDs that are not in the ledger', async () => {
+      await expect(
+        GDPRComplianceService.revokeConsent('unknown-consent', {
+          userId: testUser._id.toString(),
+          revocationMethod: 'button_click'
+        })
+      ).rejects.toThrow('Consent record not found');
+    });
   });
 
   describe('handleAccessRequest', () => {
     it('should handle access request by user ID', async () => {
-      const accessRequest = {
+      const accessRequest: IGDPRAccessRequest = {
+        verificationMethod: 'account_login',
         userId: testUser._id.toString(),
         requestId: 'access-request-123'
       };
@@ -253,7 +307,8 @@ describe('GDPRComplianceService', () => {
     });
 
     it('should handle access request by email', async () => {
-      const accessRequest = {
+      const accessRequest: IGDPRAccessRequest = {
+        verificationMethod: 'account_login',
         email: testUser.email,
         requestId: 'access-request-email'
       };
@@ -266,7 +321,8 @@ describe('GDPRComplianceService', () => {
     });
 
     it('should generate request ID if not provided', async () => {
-      const accessRequest = {
+      const accessRequest: IGDPRAccessRequest = {
+        verificationMethod: 'account_login',
         userId: testUser._id.toString()
       };
 
@@ -276,7 +332,8 @@ describe('GDPRComplianceService', () => {
     });
 
     it('should throw error when user not found', async () => {
-      const accessRequest = {
+      const accessRequest: IGDPRAccessRequest = {
+        verificationMethod: 'account_login',
         email: 'nonexistent@example.com'
       };
 
@@ -286,7 +343,8 @@ describe('GDPRComplianceService', () => {
     });
 
     it('should include form and response data in export', async () => {
-      const accessRequest = {
+      const accessRequest: IGDPRAccessRequest = {
+        verificationMethod: 'account_login',
         userId: testUser._id.toString()
       };
 
@@ -310,7 +368,8 @@ describe('GDPRComplianceService', () => {
 
   describe('handleErasureRequest', () => {
     it('should handle complete erasure request', async () => {
-      const erasureRequest = {
+      const erasureRequest: IGDPRErasureRequest = {
+        verificationMethod: 'account_login',
         userId: testUser._id.toString(),
         requestId: 'erasure-request-123',
         erasureScope: ['account_data', 'form_responses', 'forms', 'analytics_data']
@@ -343,7 +402,8 @@ describe('GDPRComplianceService', () => {
     });
 
     it('should handle partial erasure request', async () => {
-      const erasureRequest = {
+      const erasureRequest: IGDPRErasureRequest = {
+        verificationMethod: 'account_login',
         email: testUser.email,
         erasureScope: ['form_responses']
       };
@@ -356,7 +416,8 @@ describe('GDPRComplianceService', () => {
     });
 
     it('should generate request ID if not provided', async () => {
-      const erasureRequest = {
+      const erasureRequest: IGDPRErasureRequest = {
+        verificationMethod: 'account_login',
         userId: testUser._id.toString(),
         erasureScope: ['account_data']
       };
@@ -367,7 +428,8 @@ describe('GDPRComplianceService', () => {
     });
 
     it('should throw error when user not found', async () => {
-      const erasureRequest = {
+      const erasureRequest: IGDPRErasureRequest = {
+        verificationMethod: 'account_login',
         email: 'nonexistent@example.com',
         erasureScope: ['account_data']
       };
@@ -378,7 +440,8 @@ describe('GDPRComplianceService', () => {
     });
 
     it('should verify data is actually erased from database', async () => {
-      const erasureRequest = {
+      const erasureRequest: IGDPRErasureRequest = {
+        verificationMethod: 'account_login',
         userId: testUser._id.toString(),
         erasureScope: ['form_responses', 'forms']
       };
@@ -401,7 +464,8 @@ describe('GDPRComplianceService', () => {
 
   describe('handlePortabilityRequest', () => {
     it('should handle portability request in JSON format', async () => {
-      const portabilityRequest = {
+      const portabilityRequest: IGDPRPortabilityRequest = {
+        verificationMethod: 'account_login',
         userId: testUser._id.toString(),
         requestId: 'portability-request-123',
         exportFormat: 'json' as const
@@ -426,7 +490,8 @@ describe('GDPRComplianceService', () => {
     });
 
     it('should handle portability request in CSV format', async () => {
-      const portabilityRequest = {
+      const portabilityRequest: IGDPRPortabilityRequest = {
+        verificationMethod: 'account_login',
         email: testUser.email,
         exportFormat: 'csv' as const
       };
@@ -440,7 +505,8 @@ describe('GDPRComplianceService', () => {
     });
 
     it('should handle portability request in XML format', async () => {
-      const portabilityRequest = {
+      const portabilityRequest: IGDPRPortabilityRequest = {
+        verificationMethod: 'account_login',
         userId: testUser._id.toString(),
         exportFormat: 'xml' as const
       };
@@ -455,7 +521,8 @@ describe('GDPRComplianceService', () => {
     });
 
     it('should default to JSON format when not specified', async () => {
-      const portabilityRequest = {
+      const portabilityRequest: IGDPRPortabilityRequest = {
+        verificationMethod: 'account_login',
         userId: testUser._id.toString()
       };
 
@@ -466,7 +533,8 @@ describe('GDPRComplianceService', () => {
     });
 
     it('should only include user-provided data', async () => {
-      const portabilityRequest = {
+      const portabilityRequest: IGDPRPortabilityRequest = {
+        verificationMethod: 'account_login',
         userId: testUser._id.toString(),
         exportFormat: 'json' as const
       };
@@ -698,6 +766,7 @@ describe('GDPRComplianceService', () => {
       
       await expect(
         GDPRComplianceService.handleAccessRequest({
+          verificationMethod: 'account_login',
           userId: invalidUserId
         })
       ).rejects.toThrow();
@@ -731,6 +800,7 @@ describe('GDPRComplianceService', () => {
       });
 
       const result = await GDPRComplianceService.handleAccessRequest({
+        verificationMethod: 'account_login',
         userId: newUser._id.toString()
       });
 
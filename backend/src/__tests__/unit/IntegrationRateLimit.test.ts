@@ -0,0 +1,76 @@
+import mongoose from 'mongoose';
+import Integration from '../../models/Integration';
+import IntegrationExecution from '../../models/IntegrationExecution';
+
+describe('Integration rate limiting', () => {
+  const formId = new mongoose.Types.ObjectId();
+
+  const createIntegration = (rateLimit: Record<string, number>) => Integration.create({
+    name: 'Throttled webhook',
+    type: 'webhook',
+    formId,
+    userId: new mongoose.Types.ObjectId(),
+    credentials: { webhookUrl: 'http://127.0.0.1:1/hook' },
+    triggers: [{ event: 'form_submitted', isActive: true }],
+    rateLimit
+  });
+
+  const recordExecutions = (integrationId: any, count: number, ageMs: number, trigger = 'event') =>
+    IntegrationExecution.insertMany(Array.from({ length: count }, (_, i) => ({
+      integrationId,
+      deliveryId: `dlv-${ageMs}-${i}`,
+      eventType: 'form_submitted',
+      trigger,
+      status: 'succeeded',
+      event: {},
+      createdAt: new Date(Date.now() - ageMs + i)
+    })));
+
+  beforeEach(async () => {
+    await Integration.deleteMany({});
+    await IntegrationExecution.deleteMany({});
+  });
+
+  it('should allow executions under every limit', async () => {
+    const integration: any = await createIntegration({ maxExecutionsPerMinute: 3 });
+    await recordExecutions(integration._id, 2, 10000);
+
+    expect(await integration.checkRateLimit()).toEqual({ limited: false });
+  });
+
+  it('should report the full window and when it frees up', async () => {
+    const integration: any = await createIntegration({ maxExecutionsPerMinute: 2 });
+    await recordExecutions(integration._id, 3, 30000);
+
+    const status = await integration.checkRateLimit();
+
+    expect(status).toEqual(expect.objectContaining({ limited: true, window: 'minute', limit: 2, count: 3 }));
+    // Two executions must slide out, so the window frees up a minute after the second oldest
+    const secondOldest = Date.now() - 30000 + 1;
+    expect(status.retryAt.getTime()).toBeGreaterThan(secondOldest + 60000 - 1000);
+    expect(status.retryAt.getTime()).toBeLessThan(secondOldest + 60000 + 1000);
+  });
+
+  it('should ignore executions outside the window and test deliveries', async () => {
+    const integration: any = await createIntegration({ maxExecutionsPerMinute: 2, maxExecutionsPerHour: 100 });
+    await recordExecutions(integration._id, 5, 5 * 60 * 1000);
+    await recordExecutions(integration._id, 5, 1000, 'test');
+
+    expect((await integration.checkRateLimit()).limited).toBe(false);
+  });
+
+  it('should hold events back and record why instead of failing', async () => {
+    const integration: any = await createIntegration({ maxExecutionsPerMinute: 1 });
+    await recordExecutions(integration._id, 1, 1000);
+
+    const result = await integration.execute({ eventId: 'evt-1', formId, responses: {} }, 'form_submitted');
+
+    expect(result).toEqual(expect.objectContaining({ success: false, throttled: true }));
+    const stored: any = await Integration.findById(integration._id);
+    expect(stored.analytics.throttledExecutions).toBe(1);
+    expect(stored.analytics.lastThrottledAt).toBeDefined();
+    expect(stored.pausedReason).toContain('per minute');
+    expect(stored.throttledUntil.getTime()).toBeGreaterThan(Date.now());
+    expect(stored.isPaused).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+import Job from '../../models/Job';
+import { JobQueueService } from '../../services/JobQueueService';
+
+describe('JobQueueService', () => {
+  const handler = jest.fn();
+
+  beforeAll(() => {
+    JobQueueService.registerHandler('test.job', handler);
+  });
+
+  beforeEach(async () => {
+    handler.mockReset();
+    await Job.deleteMany({});
+  });
+
+  it('should process due jobs and store the handler result', async () => {
+    handler.mockResolvedValue({ result: { delivered: 2 } });
+    const job = await JobQueueService.enqueue('test.job', { value: 1 });
+
+    expect(await JobQueueService.processNext()).toBe(true);
+    expect(await JobQueueService.processNext()).toBe(false);
+
+    const processed = await Job.findById(job._id);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(processed!.status).toBe('completed');
+    expect(processed!.attempts).toBe(1);
+    expect(processed!.result).toEqual({ delivered: 2 });
+  });
+
+  it('should not run jobs scheduled in the future', async () => {
+    await JobQueueService.enqueue('test.job', {}, { delayMs: 60000 });
+
+    expect(await JobQueueService.processNext()).toBe(false);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should retry failed jobs with backoff and dead-letter them after the last attempt', async () => {
+    handler.mockRejectedValue(new Error('Endpoint unavailable'));
+    const job = await JobQueueService.enqueue('test.job', {}, {
+      maxAttempts: 2,
+      backoff: { strategy: 'exponential', delayMs: 1000 }
+    });
+
+    await JobQueueService.processNext();
+    let failed = await Job.findById(job._id);
+    expect(failed!.status).toBe('pending');
+    expect(failed!.lastError).toBe('Endpoint unavailable');
+    expect(failed!.runAt.getTime()).toBeGreaterThan(Date.now());
+
+    // Make the retry due immediately
+    await Job.updateOne({ _id: job._id }, { runAt: new Date() });
+    await JobQueueService.processNext();
+
+    failed = await Job.findById(job._id);
+    expect(failed!.status).toBe('dead_letter');
+    expect(failed!.attempts).toBe(2);
+    expect(failed!.errorHistory).toHaveLength(2);
+    expect(failed!.deadLetteredAt).toBeDefined();
+  });
+
+  it('should reclaim jobs whose worker stopped before finishing', async () => {
+    handler.mockResolvedValue(undefined);
+    const job = await Job.create({
+      type: 'test.job',
+      status: 'processing',
+      attempts: 1,
+      lockedBy: 'crashed-worker',
+      lockedUntil: new Date(Date.now() - 1000)
+    });
+
+    expect(await JobQueueService.processNext()).toBe(true);
+
+    const recovered = await Job.findById(job._id);
+    expect(recovered!.status).toBe('completed');
+    expect(recovered!.attempts).toBe(2);
+  });
+
+  it('should enqueue a job only once per dedupe key', async () => {
+    const first = await JobQueueService.enqueue('test.job', { value: 1 }, { dedupeKey: 'event:1' });
+    const second = await JobQueueService.enqueue('test.job', { value: 2 }, { dedupeKey: 'event:1' });
+
+    expect(second._id.toString()).toBe(first._id.toString());
+    expect(await Job.countDocuments()).toBe(1);
+  });
+
+  it('should reschedule without counting an attempt when the handler asks to', async () => {
+    const later = new Date(Date.now() + 60000);
+    handler.mockResolvedValue({ rescheduleAt: later });
+    const job = await JobQueueService.enqueue('test.job', {});
+
+    await JobQueueService.processNext();
+
+    const rescheduled = await Job.findById(job._id);
+    expect(rescheduled!.status).toBe('pending');
+    expect(rescheduled!.attempts).toBe(0);
+    expect(rescheduled!.runAt).toEqual(later);
+  });
+
+  it('should requeue dead-lettered jobs', async () => {
+    const job = await Job.create({ type: 'test.job', status: 'dead_letter', attempts: 5 });
+
+    const requeued = await JobQueueService.requeue(job._id);
+
+    expect(requeued!.status).toBe('pending');
+    expect(requeued!.attempts).toBe(0);
+  });
+});
@@ -0,0 +1,69 @@
+import EmailMessage from '../../models/EmailMessage';
+import Job from '../../models/Job';
+import { JobQueueService } from '../../services/JobQueueService';
+import { MailService } from '../../services/MailService';
+import { MemoryMailTransport } from '../../services/MailTransports';
+
+describe('MailService', () => {
+  const transport = new MemoryMailTransport();
+  const message = {
+    to: ['owner@example.com'],
+    subject: 'New response',
+    html: '<p>Hello</p>',
+    text: 'Hello'
+  };
+
+  beforeAll(() => {
+    MailService.registerHandlers();
+    MailService.setTransport(transport);
+  });
+
+  afterAll(() => {
+    MailService.setTransport(null);
+  });
+
+  beforeEach(async () => {
+    transport.clear();
+    await EmailMessage.deleteMany({});
+    await Job.deleteMany({});
+  });
+
+  it('should queue a message and record it as sent once delivered', async () => {
+    const queued = await MailService.queue(message, { kind: 'owner_notification' });
+    expect(queued.status).toBe('queued');
+    expect(queued.from).toBe(MailService.getDefaultFrom());
+
+    await JobQueueService.processNext();
+
+    const sent = await EmailMessage.findById(queued._id);
+    expect(sent!.status).toBe('sent');
+    expect(sent!.transport).toBe('memory');
+    expect(sent!.attempts).toBe(1);
+    expect(sent!.providerMessageId).toBe(transport.messages[0].messageId);
+  });
+
+  it('should queue a message only once per dedupe key', async () => {
+    const first = await MailService.queue(message, { kind: 'autoresponder', dedupeKey: 'evt-1:autoresponder' });
+    const second = await MailService.queue(message, { kind: 'autoresponder', dedupeKey: 'evt-1:autoresponder' });
+
+    expect(second._id.toString()).toBe(first._id.toString());
+    expect(await EmailMessage.countDocuments()).toBe(1);
+    expect(await Job.countDocuments()).toBe(1);
+  });
+
+  it('should record failed attempts and only mark the final one as failed', async () => {
+    transport.failWith = 'Connection refused';
+    const queued = await MailService.queue(message, { kind: 'owner_notification' });
+
+    await expect(MailService.sendMessage(queued, false)).rejects.toThrow('Connection refused');
+    let stored = await EmailMessage.findById(queued._id);
+    expect(stored!.status).toBe('queued');
+    expect(stored!.lastError).toBe('Connection refused');
+
+    await expect(MailService.sendMessage(stored!, true)).rejects.toThrow('Connection refused');
+    stored = await EmailMessage.findById(queued._id);
+    expect(stored!.status).toBe('failed');
+    expect(stored!.attempts).toBe(2);
+    expect(stored!.failedAt).toBeDefined();
+  });
+});
@@ -0,0 +1,139 @@
+import mongoose from 'mongoose';
+import Form from '../../models/Form';
+import FormResponse from '../../models/FormResponse';
+import Job from '../../models/Job';
+import PartialSubmission from '../../models/PartialSubmission';
+import FileStorageService from '../../services/FileStorageService';
+import JobQueueService from '../../services/JobQueueService';
+import { MemoryFileStorage } from '../../services/FileStorageBackends';
+import { MaintenanceError, MaintenanceService } from '../../services/MaintenanceService';
+import { TestUtils } from '../setup';
+
+describe('MaintenanceService', () => {
+  const adminId = new mongoose.Types.ObjectId();
+  const storage = new MemoryFileStorage();
+  let form: any;
+
+  const runNextJob = async (): Promise<void> => {
+    expect(await JobQueueService.processNext()).toBe(true);
+  };
+
+  const createPartialSubmission = (sessionId: string, expiresAt: Date) => PartialSubmission.create({
+    formId: form._id,
+    sessionId,
+    responses: {},
+    progress: { totalFields: 1, answeredFields: 0, percentage: 0, missingRequiredFields: [] },
+    lastSavedAt: new Date(),
+    expiresAt
+  });
+
+  beforeAll(() => {
+    MaintenanceService.registerHandlers();
+    FileStorageService.setBackend(storage);
+  });
+
+  afterAll(() => {
+    FileStorageService.setBackend(null);
+  });
+
+  beforeEach(async () => {
+    storage.clear();
+    form = await Form.create(TestUtils.createTestForm(adminId.toString()));
+  });
+
+  describe('start', () => {
+    it('should not queue a second copy of an operation that is queued or running', async () => {
+      await MaintenanceService.start('clear_cache', adminId);
+
+      await expect(MaintenanceService.start('clear_cache', adminId)).rejects.toThrow(MaintenanceError);
+      await expect(MaintenanceService.start('generate_reports', adminId)).resolves.toBeDefined();
+    });
+
+    it('should release a run whose job was lost', async () => {
+      const run = await MaintenanceService.start('clear_cache', adminId);
+      await Job.updateOne({ _id: run.jobId }, { $set: { status: 'dead_letter', lastError: 'Worker crashed' } });
+
+      await expect(MaintenanceService.start('clear_cache', adminId)).resolves.toBeDefined();
+      expect((await MaintenanceService.findById(run._id))!.status).toBe('failed');
+    });
+  });
+
+  describe('run', () => {
+    it('should delete expired partial submissions and record progress, log and duration', async () => {
+      await createPartialSubmission('expired', new Date(Date.now() - 60000));
+      await createPartialSubmission('current', new Date(Date.now() + 60 * 60000));
+      const run = await MaintenanceService.start('cleanup_expired_sessions', adminId);
+
+      await runNextJob();
+      const finished = (await MaintenanceService.findById(run._id))!;
+
+      expect(finished.status).toBe('completed');
+      expect(finished.active).toBeUndefined();
+      expect(finished.result).toEqual({ deleted: 1 });
+      expect(finished.progress).toMatchObject({ processed: 1, total: 1, percent: 100 });
+      expect(finished.durationMs).toBeGreaterThanOrEqual(0);
+      expect(finished.logs.map(entry => entry.message)).toContain('Deleted 1 partial submission(s)');
+      expect(await PartialSubmission.countDocuments()).toBe(1);
+    });
+
+    it('should remove stored files that no response refers to', async () => {
+      process.env.ORPHANED_UPLOAD_GRACE_HOURS = '0';
+      const responseId = new mongoose.Types.ObjectId();
+      const keptKey = FileStorageService.buildKey(form._id, responseId, 'kept.pdf');
+      const orphanKey = FileStorageService.buildKey(form._id, new mongoose.Types.ObjectId(), 'orphan.pdf');
+      await storage.put(keptKey, Buffer.from('kept'));
+      await storage.put(orphanKey, Buffer.from('orphan'));
+      await FormResponse.create({
+        _id: responseId,
+        formId: form._id,
+        responses: { resume: { id: 'f1', filename: 'kept.pdf', originalName: 'cv.pdf', storageKey: keptKey } }
+      });
+
+      const run = await MaintenanceService.start('cleanup_orphaned_uploads', adminId);
+      await runNextJob();
+
+      expect((await MaintenanceService.findById(run._id))!.result).toMatchObject({ scanned: 2, removed: 1, bytesRemoved: 6 });
+      expect(Array.from(storage.files.keys())).toEqual([keptKey]);
+      delete process.env.ORPHANED_UPLOAD_GRACE_HOURS;
+    });
+
+    it('should correct submission counts that drifted, leaving out quarantined spam', async () => {
+      await FormResponse.collection.insertMany([
+        { formId: form._id, responses: {}, isValid: true },
+        { formId: form._id, responses: {}, isValid: true },
+        { formId: form._id, responses: {}, isValid: true, status: 'spam' }
+      ]);
+      await Form.updateOne({ _id: form._id }, { $set: { 'analytics.submissions': 7 } });
+
+      const run = await MaintenanceService.start('generate_reports', adminId);
+      await runNextJob();
+
+      expect((await MaintenanceService.findById(run._id))!.result).toMatchObject({ forms: 1, responses: 3, formsCorrected: 1 });
+      expect((await Form.findById(form._id))!.analytics.submissions).toBe(2);
+    });
+  });
+
+  describe('cancel', () => {
+    it('should take a queued run out of the queue', async () => {
+      const run = await MaintenanceService.start('optimize_database', adminId);
+
+      const cancelled = await MaintenanceService.cancel(run, adminId);
+
+      expect(cancelled.status).toBe('cancelled');
+      expect((await Job.findById(run.jobId))!.status).toBe('cancelled');
+      await expect(MaintenanceService.cancel(cancelled, adminId)).rejects.toThrow('already been cancelled');
+      await expect(MaintenanceService.start('optimize_database', adminId)).resolves.toBeDefined();
+    });
+
+    it('should stop a running run at its next check', async () => {
+      const run = await MaintenanceService.start('generate_reports', adminId);
+      await Job.updateOne({ _id: run.jobId }, { $set: { status: 'processing' } });
+      await MaintenanceService.cancel(run, adminId);
+      await Job.updateOne({ _id: run.jobId }, { $set: { status: 'pending' } });
+
+      await runNextJob();
+
+      expect((await MaintenanceService.findById(run._id))!.status).toBe('cancelled');
+    });
+  });
+});
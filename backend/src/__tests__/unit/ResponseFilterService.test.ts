@@ -0,0 +1,109 @@
+import mongoose from 'mongoose';
+import { ResponseFilterService } from '../../services/ResponseFilterService';
+import { IFormField } from '../../types';
+
+describe('ResponseFilterService', () => {
+  const userId = new mongoose.Types.ObjectId();
+  const form = {
+    _id: new mongoose.Types.ObjectId(),
+    fields: [
+      { id: 'name', type: 'text', label: 'Name' },
+      { id: 'country', type: 'dropdown', label: 'Country' },
+      { id: 'age', type: 'number', label: 'Age' },
+      { id: 'visit', type: 'date', label: 'Visit' },
+      { id: 'cv', type: 'file', label: 'CV' },
+      { id: 'secret', type: 'password', label: 'Secret' },
+      { id: 'home', type: 'address', label: 'Home' }
+    ] as unknown as IFormField[]
+  };
+
+  const buildFilter = (filter: any, params: Record<string, any> = {}) =>
+    ResponseFilterService.buildResponseQuery(form, { filter, ...params }, userId);
+
+  describe('buildCondition', () => {
+    it('should compare numeric fields as numbers', () => {
+      const condition = ResponseFilterService.buildCondition({ fieldId: 'age', operator: 'greater_than', value: '18' }, form.fields);
+
+      expect(condition.$expr.$and[1]).toEqual({
+        $gt: [{ $convert: { input: '$responses.age', to: 'double', onError: null, onNull: null } }, 18]
+      });
+    });
+
+    it('should match text exactly, ignoring case and surrounding spaces', () => {
+      const { 'responses.country': equals } = ResponseFilterService.buildCondition(
+        { fieldId: 'country', operator: 'equals', value: 'France' },
+        form.fields
+      );
+      const { 'responses.country': oneOf } = ResponseFilterService.buildCondition(
+        { fieldId: 'country', operator: 'in', value: ['Spain', 'U.K.'] },
+        form.fields
+      );
+
+      expect(equals.test(' france ')).toBe(true);
+      expect(equals.test('French France')).toBe(false);
+      expect(oneOf.$in[1].test('u.k.')).toBe(true);
+      expect(oneOf.$in[1].test('usk.')).toBe(false);
+    });
+
+    it('should cover whole days for date ranges', () => {
+      expect(ResponseFilterService.buildCondition(
+        { fieldId: 'visit', operator: 'between', value: ['2026-01-01', '2026-01-31'] },
+        form.fields
+      )).toEqual({ 'responses.visit': { $gte: '2026-01-01', $lt: '2026-02-01' } });
+    });
+
+    it('should match missing, blank and empty list answers as empty', () => {
+      expect(ResponseFilterService.buildCondition({ fieldId: 'home', operator: 'is_empty' }, form.fields)).toEqual({
+        $or: [{ 'responses.home': null }, { 'responses.home': '' }, { 'responses.home': { $size: 0 } }]
+      });
+    });
+
+    it('should match files on their original name', () => {
+      const condition = ResponseFilterService.buildCondition({ fieldId: 'cv', operator: 'contains', value: '.pdf' }, form.fields);
+
+      expect(condition['responses.cv.originalName']).toEqual(/\.pdf/i);
+    });
+  });
+
+  describe('buildResponseQuery', () => {
+    it('should combine nested groups with the workflow filter', () => {
+      const { filter } = buildFilter(JSON.stringify({
+        logic: 'and',
+        conditions: [
+          { fieldId: 'name', operator: 'is_not_empty' },
+          {
+            logic: 'or',
+            conditions: [
+              { fieldId: 'age', operator: 'less_than', value: 30 },
+              { fieldId: 'country', operator: 'contains', value: 'land' }
+            ]
+          }
+        ]
+      }));
+
+      expect(filter!.status).toEqual({ $ne: 'spam' });
+      expect(filter!.$and[0].$and[0]).toEqual({ 'responses.name': { $nin: [null, '', []] } });
+      expect(filter!.$and[0].$and[1].$or).toHaveLength(2);
+    });
+
+    it('should search answers with the text index', () => {
+      expect(buildFilter(undefined, { search: ' invoice 42 ' }).filter!.$text).toEqual({ $search: 'invoice 42' });
+    });
+
+    it('should filter on the submission date', () => {
+      const { filter } = buildFilter(undefined, { startDate: '2026-01-01', endDate: '2026-02-01' });
+
+      expect(filter!.submittedAt.$gte).toEqual(new Date('2026-01-01'));
+    });
+
+    it('should reject invalid filters', () => {
+      expect(buildFilter([{ fieldId: 'missing', operator: 'equals', value: 'x' }]).error).toBe('Unknown field: missing');
+      expect(buildFilter([{ fieldId: 'secret', operator: 'equals', value: 'x' }]).error).toBe('Secret cannot be filtered');
+      expect(buildFilter([{ fieldId: 'name', operator: 'regex', value: '(' }]).error).toBe('Name has an invalid pattern');
+      expect(buildFilter('{not json').error).toBe('Filter must be valid JSON');
+      expect(buildFilter(undefined, { datePreset: 'last_century' }).error).toBe('Invalid date preset: last_century');
+      expect(buildFilter(undefined, { startDate: '2026-02-01', endDate: '2026-01-01' }).error)
+        .toBe('Start date must be before end date');
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { ResponseRevisionService } from '../../services/ResponseRevisionService';
+import { IFormField } from '../../types';
+
+describe('ResponseRevisionService', () => {
+  const fields = [
+    { id: 'name', type: 'text', label: 'Name', order: 0 },
+    { id: 'email', type: 'email', label: 'Email', order: 1 },
+    { id: 'skills', type: 'checkbox', label: 'Skills', order: 2 },
+    { id: 'total', type: 'calculated', label: 'Total', order: 3, calculation: { enabled: true } }
+  ] as unknown as IFormField[];
+
+  describe('diff', () => {
+    it('should list changed, added and removed answers in field order', () => {
+      const changes = ResponseRevisionService.diff(
+        { email: 'grace@exmaple.com', name: 'Grace', total: 10 },
+        { email: 'grace@example.com', skills: ['cobol'], total: 12 },
+        fields
+      );
+
+      expect(changes).toEqual([
+        { fieldId: 'name', label: 'Name', before: 'Grace' },
+        { fieldId: 'email', label: 'Email', before: 'grace@exmaple.com', after: 'grace@example.com' },
+        { fieldId: 'skills', label: 'Skills', after: ['cobol'] },
+        { fieldId: 'total', label: 'Total', before: 10, after: 12, calculated: true }
+      ]);
+    });
+
+    it('should compare arrays and objects by value', () => {
+      const file = { originalName: 'cv.pdf', filename: 'form-file-1.pdf', size: 10 };
+
+      const changes = ResponseRevisionService.diff(
+        { skills: ['a', 'b'], cv: file },
+        { skills: ['a', 'b'], cv: { ...file } },
+        fields
+      );
+
+      expect(changes).toEqual([]);
+    });
+
+    it('should report answers to fields no longer on the form after the form fields', () => {
+      const changes = ResponseRevisionService.diff({ legacy: 'x', name: 'A' }, { name: 'B' }, fields);
+
+      expect(changes.map(change => change.fieldId)).toEqual(['name', 'legacy']);
+      expect(changes[1]).toEqual({ fieldId: 'legacy', label: 'legacy', before: 'x' });
+    });
+  });
+
+  describe('applyAnswers', () => {
+    const current = { name: 'Grace', email: 'grace@exmaple.com' };
+
+    it('should replace every answer in replace mode', () => {
+      expect(ResponseRevisionService.applyAnswers(current, { name: 'Ada' }, 'replace')).toEqual({ name: 'Ada' });
+    });
+
+    it('should update only the sent answers in merge mode, clearing nulls', () => {
+      expect(ResponseRevisionService.applyAnswers(current, { email: 'grace@example.com', name: null }, 'merge'))
+        .toEqual({ email: 'grace@example.com' });
+      expect(current).toEqual({ name: 'Grace', email: 'grace@exmaple.com' });
+    });
+  });
+
+  describe('getRemovedFiles', () => {
+    it('should return the files no longer answered after the edit', () => {
+      const cv = { originalName: 'cv.pdf', filename: 'form-file-1.pdf', storageKey: 'forms/f/responses/r/form-file-1.pdf', size: 10 };
+      const photo = { originalName: 'me.png', filename: 'form-file-2.png', storageKey: 'forms/f/responses/r/form-file-2.png', size: 20 };
+      const legacy = { originalName: 'old.txt', filename: 'form-file-3.txt', size: 5 };
+
+      const removed = ResponseRevisionService.getRemovedFiles(
+        { name: 'Grace', cv, photos: [photo, legacy] },
+        { name: 'Grace', cv: { ...cv }, photos: [photo] }
+      );
+
+      expect(removed).toEqual([legacy]);
+      expect(ResponseRevisionService.getRemovedFiles({ cv }, {})).toEqual([cv]);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import mongoose from 'mongoose';
+import Form from '../../models/Form';
+import FormResponse from '../../models/FormResponse';
+import { ResponseWorkflowService } from '../../services/ResponseWorkflowService';
+import { TestUtils } from '../setup';
+
+describe('ResponseWorkflowService', () => {
+  const formId = new mongoose.Types.ObjectId();
+  const userId = new mongoose.Types.ObjectId();
+
+  describe('buildFilter', () => {
+    it('should hide spam by default', () => {
+      const { filter } = ResponseWorkflowService.buildFilter(formId, {}, userId);
+
+      expect(filter).toEqual({ formId, isValid: true, status: { $ne: 'spam' } });
+    });
+
+    it('should treat responses without a status as new', () => {
+      expect(ResponseWorkflowService.buildFilter(formId, { status: 'new,in_review' }, userId).filter!.status)
+        .toEqual({ $in: ['new', 'in_review', null] });
+      expect(ResponseWorkflowService.buildFilter(formId, { status: 'spam' }, userId).filter!.status)
+        .toEqual({ $in: ['spam'] });
+    });
+
+    it('should filter on tags, assignee and notes', () => {
+      const { filter } = ResponseWorkflowService.buildFilter(formId, {
+        tags: ' VIP, follow-up ,vip',
+        assignedTo: 'me',
+        hasNotes: 'true'
+      }, userId);
+
+      expect(filter!.tags).toEqual({ $all: ['vip', 'follow-up'] });
+      expect(filter!.assignedTo).toEqual(userId);
+      expect(filter!['notes.0']).toEqual({ $exists: true });
+    });
+
+    it('should match unassigned responses', () => {
+      expect(ResponseWorkflowService.buildFilter(formId, { assignedTo: 'unassigned' }, userId).filter!.assignedTo).toBeNull();
+    });
+
+    it('should reject unknown statuses and assignees', () => {
+      expect(ResponseWorkflowService.buildFilter(formId, { status: 'archived' }, userId).error).toBe('Invalid status: archived');
+      expect(ResponseWorkflowService.buildFilter(formId, { assignedTo: 'bob' }, userId).error).toBe('Invalid assignee');
+    });
+  });
+
+  describe('buildSort', () => {
+    it('should default to newest first', () => {
+      expect(ResponseWorkflowService.buildSort()).toEqual({ submittedAt: -1, _id: -1 });
+    });
+
+    it('should break ties on other fields by submission date', () => {
+      expect(ResponseWorkflowService.buildSort('status', 'asc')).toEqual({ status: 1, submittedAt: -1, _id: -1 });
+    });
+
+    it('should reject unknown fields', () => {
+      expect(ResponseWorkflowService.buildSort('ipAddress')).toBeNull();
+    });
+  });
+
+  describe('updateWorkflow', () => {
+    it('should release quarantined spam only once when released twice at the same time', async () => {
+      const form = await Form.create(TestUtils.createTestForm(userId.toString()));
+      const response = await FormResponse.create({
+        formId: form._id,
+        responses: { field1: 'Ada' },
+        status: 'spam',
+        spam: { score: 10, signals: [], quarantined: true, checkedAt: new Date() }
+      });
+
+      const results = await Promise.all([
+        ResponseWorkflowService.updateWorkflow(response, form, { status: 'new' }),
+        ResponseWorkflowService.updateWorkflow(response, form, { status: 'in_review' })
+      ]);
+
+      expect(results.filter(result => result.released)).toHaveLength(1);
+      expect(results.filter(result => result.conflict)).toHaveLength(1);
+      expect((await Form.findById(form._id))!.analytics.submissions).toBe(1);
+    });
+  });
+});
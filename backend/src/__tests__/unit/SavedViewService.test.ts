@@ -0,0 +1,78 @@
+import mongoose from 'mongoose';
+import { SavedViewService } from '../../services/SavedViewService';
+import { IForm } from '../../types';
+
+describe('SavedViewService', () => {
+  const userId = new mongoose.Types.ObjectId();
+  const form = {
+    _id: new mongoose.Types.ObjectId(),
+    userId,
+    fields: [
+      { id: 'company', type: 'text', label: 'Company' },
+      { id: 'budget', type: 'number', label: 'Budget' }
+    ]
+  } as unknown as IForm;
+
+  describe('validate', () => {
+    it('should normalize the criteria of a new view', () => {
+      const { values, error } = SavedViewService.validate(form, {
+        name: ' Qualified leads ',
+        criteria: {
+          status: 'new,in_review',
+          tags: ['Lead', 'lead '],
+          filter: JSON.stringify([{ fieldId: 'budget', operator: 'greater_than', value: 5000 }])
+        },
+        columns: ['company', 'budget', 'status'],
+        sortBy: 'status',
+        pageSize: 50
+      }, userId);
+
+      expect(error).toBeUndefined();
+      expect(values!.name).toBe('Qualified leads');
+      expect(values!.criteria).toEqual({
+        status: ['new', 'in_review'],
+        tags: ['lead'],
+        filter: { logic: 'and', conditions: [{ fieldId: 'budget', operator: 'greater_than', value: 5000 }] }
+      });
+      expect(values!.columns).toEqual(['company', 'budget', 'status']);
+    });
+
+    it('should reject views that cannot be applied to the form', () => {
+      const validate = (input: Record<string, any>) => SavedViewService.validate(form, { name: 'View', ...input }, userId).error;
+
+      expect(validate({ criteria: { filter: [{ fieldId: 'missing', operator: 'is_empty' }] } })).toBe('Unknown field: missing');
+      expect(validate({ criteria: { status: ['archived'] } })).toBe('Invalid status: archived');
+      expect(validate({ columns: ['ipAddress'] })).toBe('Unknown column: ipAddress');
+      expect(validate({ sortBy: 'company' })).toBe('Cannot sort by company');
+      expect(validate({ pageSize: 500 })).toBe('Page size must be between 1 and 100');
+      expect(validate({ visibility: 'workspace' })).toBe('Only views of workspace forms can be shared');
+      expect(SavedViewService.validate(form, {}, userId).error).toBe('View name is required');
+    });
+  });
+
+  describe('toQueryParams', () => {
+    it('should apply the view filter underneath the request filter', () => {
+      const filter = { logic: 'or' as const, conditions: [{ fieldId: 'company', operator: 'contains' as const, value: 'inc' }] };
+
+      expect(SavedViewService.toQueryParams({ status: ['done'], hasNotes: false, filter })).toEqual({
+        status: 'done',
+        hasNotes: 'false',
+        baseFilter: filter
+      });
+    });
+  });
+
+  describe('resolveQuery', () => {
+    it('should combine a view filter with a request filter', async () => {
+      const { filter, sort } = await SavedViewService.resolveQuery(form, {
+        baseFilter: { conditions: [{ fieldId: 'budget', operator: 'greater_than', value: 100 }] },
+        filter: JSON.stringify([{ fieldId: 'company', operator: 'is_not_empty' }]),
+        sortBy: 'status',
+        order: 'asc'
+      }, userId);
+
+      expect(filter!.$and).toHaveLength(2);
+      expect(sort).toEqual({ status: 1, submittedAt: -1, _id: -1 });
+    });
+  });
+});
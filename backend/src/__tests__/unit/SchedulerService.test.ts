@@ -0,0 +1,132 @@
+import mongoose from 'mongoose';
+import Form from '../../models/Form';
+import FormResponse from '../../models/FormResponse';
+import Job from '../../models/Job';
+import ScheduledTask from '../../models/ScheduledTask';
+import ScheduledTaskRun from '../../models/ScheduledTaskRun';
+import JobQueueService from '../../services/JobQueueService';
+import { SCHEDULED_TASK_JOB, ScheduledTaskNotFoundError, SchedulerError, SchedulerService } from '../../services/SchedulerService';
+import { TestUtils } from '../setup';
+
+describe('SchedulerService', () => {
+  const adminId = new mongoose.Types.ObjectId();
+  const run = jest.fn();
+
+  const runNextJob = async (): Promise<void> => {
+    expect(await JobQueueService.processNext()).toBe(true);
+  };
+
+  const queuedJobs = () => Job.find({ type: SCHEDULED_TASK_JOB, 'payload.task': 'test.task' }).sort({ runAt: 1 });
+
+  beforeAll(() => {
+    SchedulerService.registerHandlers();
+  });
+
+  beforeEach(async () => {
+    run.mockReset().mockResolvedValue({ processed: 3 });
+    SchedulerService.registerTask({ name: 'test.task', description: 'Test task', defaultIntervalMinutes: 60, run });
+    await ScheduledTask.create({ name: 'test.task', intervalMinutes: 60 });
+  });
+
+  describe('start', () => {
+    it('should queue each period once however many instances start', async () => {
+      await SchedulerService.start();
+      await SchedulerService.start();
+
+      expect(await queuedJobs()).toHaveLength(1);
+      expect(await ScheduledTask.findOne({ name: 'forms.sync_analytics' })).toMatchObject({ intervalMinutes: 1440, paused: false });
+    });
+  });
+
+  describe('scheduled runs', () => {
+    beforeEach(async () => {
+      // Keep only the test task's job in the queue
+      await SchedulerService.start();
+      await Job.deleteMany({ 'payload.task': { $ne: 'test.task' } });
+    });
+
+    it('should run the task, record the run and queue the next period', async () => {
+      await runNextJob();
+
+      const [next] = await queuedJobs().where({ status: 'pending' });
+      const runs = await ScheduledTaskRun.find({ task: 'test.task' });
+      const task = await ScheduledTask.findOne({ name: 'test.task' });
+
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(next.runAt.getTime() % (60 * 60 * 1000)).toBe(0);
+      expect(runs).toHaveLength(1);
+      expect(runs[0]).toMatchObject({ trigger: 'scheduled', status: 'completed', result: { processed: 3 } });
+      expect(task).toMatchObject({ lastStatus: 'completed' });
+      expect(task!.lockedUntil).toBeUndefined();
+    });
+
+    it('should record failures and keep the schedule', async () => {
+      run.mockRejectedValue(new Error('Boom'));
+
+      await runNextJob();
+
+      expect(await ScheduledTaskRun.findOne({ task: 'test.task' })).toMatchObject({ status: 'failed', error: 'Boom' });
+      expect(await ScheduledTask.findOne({ name: 'test.task' })).toMatchObject({ lastStatus: 'failed', lastError: 'Boom' });
+      expect(await queuedJobs().where({ status: 'pending' })).toHaveLength(1);
+    });
+
+    it('should skip paused tasks', async () => {
+      await SchedulerService.pause('test.task', adminId);
+
+      await runNextJob();
+
+      expect(run).not.toHaveBeenCalled();
+      expect(await queuedJobs().where({ status: 'pending' })).toHaveLength(1);
+      await expect(SchedulerService.pause('test.task', adminId)).rejects.toThrow('already paused');
+    });
+
+    it('should not run while another instance holds the lock', async () => {
+      await ScheduledTask.updateOne({ name: 'test.task' }, { $set: { lockedBy: 'other', lockedUntil: new Date(Date.now() + 60000) } });
+
+      await runNextJob();
+
+      expect(run).not.toHaveBeenCalled();
+      expect(await ScheduledTaskRun.findOne({ task: 'test.task' })).toMatchObject({ status: 'skipped' });
+      await expect(SchedulerService.trigger('test.task', adminId)).rejects.toThrow(SchedulerError);
+    });
+
+    it('should drop jobs queued for a replaced interval', async () => {
+      await SchedulerService.setInterval('test.task', 15);
+
+      await runNextJob();
+
+      const pending = await queuedJobs().where({ status: 'pending' });
+      expect(run).not.toHaveBeenCalled();
+      expect(pending).toHaveLength(1);
+      expect(pending[0].payload.intervalMinutes).toBe(15);
+    });
+  });
+
+  describe('trigger', () => {
+    it('should run the task on demand', async () => {
+      const job = await SchedulerService.trigger('test.task', adminId);
+      expect((await SchedulerService.trigger('test.task', adminId))._id).toEqual(job._id);
+
+      await runNextJob();
+
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(await ScheduledTaskRun.findOne({ task: 'test.task' })).toMatchObject({ trigger: 'manual', requestedBy: adminId });
+    });
+
+    it('should reject unknown tasks', async () => {
+      await expect(SchedulerService.trigger('unknown.task', adminId)).rejects.toThrow(ScheduledTaskNotFoundError);
+    });
+  });
+
+  describe('forms.sync_analytics', () => {
+    it('should reset submission counts to the stored responses', async () => {
+      const form = await Form.create({ ...TestUtils.createTestForm(adminId.toString()), analytics: { submissions: 7 } });
+      await FormResponse.create([{ formId: form._id, responses: {} }, { formId: form._id, responses: {} }]);
+
+      await SchedulerService.trigger('forms.sync_analytics', adminId);
+      await runNextJob();
+
+      expect((await Form.findById(form._id))!.analytics.submissions).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { SpamProtectionService } from '../../services/SpamProtectionService';
+
+describe('SpamProtectionService', () => {
+  const buildForm = (spamProtection: Record<string, any> = {}): any => ({
+    _id: new Types.ObjectId(),
+    fields: [
+      { id: 'message', type: 'textarea', label: 'Message' },
+      { id: 'site', type: 'url', label: 'Website' }
+    ],
+    settings: { spamProtection }
+  });
+
+  const solve = (challenge: string, difficulty: number): string => {
+    for (let nonce = 0; ; nonce++) {
+      if (SpamProtectionService.verifyProofOfWork(challenge, String(nonce), difficulty)) return String(nonce);
+    }
+  };
+
+  describe('checkProof', () => {
+    it('should accept a token used after the minimum fill time', () => {
+      const form = buildForm();
+      const { token } = SpamProtectionService.issueChallenge(form)!;
+      const settings = SpamProtectionService.getSettings(form);
+
+      const { signals, session } = SpamProtectionService.checkProof(form, settings, { token }, new Date(Date.now() + 10000));
+
+      expect(signals).toEqual([]);
+      expect(session!.jti).toHaveLength(32);
+    });
+
+    it('should flag fast, tokenless and honeypot submissions', () => {
+      const form = buildForm();
+      const settings = SpamProtectionService.getSettings(form);
+      const { token } = SpamProtectionService.issueChallenge(form)!;
+
+      const codes = (proof: Record<string, any>) =>
+        SpamProtectionService.checkProof(form, settings, proof).signals.map(signal => signal.code);
+
+      expect(codes({ token })).toEqual(['TOO_FAST']);
+      expect(codes({ honeypot: 'http://spam.example' })).toEqual(['HONEYPOT_FILLED', 'TOKEN_MISSING']);
+      expect(codes({ token: 'not-a-token' })).toEqual(['TOKEN_INVALID']);
+      expect(codes({ token: SpamProtectionService.issueChallenge(buildForm())!.token })).toEqual(['TOKEN_INVALID']);
+    });
+
+    it('should require a solved challenge when proof of work is on', () => {
+      const form = buildForm({ minFillSeconds: 0, proofOfWork: { enabled: true, difficulty: 8 } });
+      const settings = SpamProtectionService.getSettings(form);
+      const { token, proofOfWork } = SpamProtectionService.issueChallenge(form)!;
+      const nonce = solve(proofOfWork!.challenge, 8);
+
+      expect(SpamProtectionService.checkProof(form, settings, { token, nonce }).signals).toEqual([]);
+      expect(SpamProtectionService.checkProof(form, settings, { token }).signals[0].code).toBe('PROOF_OF_WORK_FAILED');
+    });
+  });
+
+  describe('checkContent', () => {
+    it('should count links outside URL fields and find blocked keywords', () => {
+      const form = buildForm();
+      const settings = SpamProtectionService.getSettings({ settings: { spamProtection: { maxLinks: 1, blockedKeywords: ['Casino'] } } } as any);
+
+      const signals = SpamProtectionService.checkContent(form.fields, settings, {
+        message: 'Best CASINO bonus at https://a.example and www.b.example',
+        site: 'https://my.example'
+      });
+
+      expect(signals).toEqual([
+        { code: 'TOO_MANY_LINKS', weight: 3, detail: '2 links' },
+        { code: 'BLOCKED_KEYWORD', weight: 5, detail: 'casino' }
+      ]);
+    });
+  });
+
+  describe('hashPayload', () => {
+    it('should ignore key order, case, blank answers and uploads', () => {
+      const upload = { originalName: 'cv.pdf', filename: `form-file-${crypto.randomUUID()}.pdf`, mimetype: 'application/pdf' };
+
+      expect(SpamProtectionService.hashPayload({ a: ' Hello ', b: ['X'], c: '', cv: upload }))
+        .toBe(SpamProtectionService.hashPayload({ b: ['x'], a: 'hello' }));
+      expect(SpamProtectionService.hashPayload({ a: 'hello' })).not.toBe(SpamProtectionService.hashPayload({ a: 'hello!' }));
+    });
+  });
+
+  describe('verifyProofOfWork', () => {
+    it('should check the leading zero bits of the solution hash', () => {
+      const nonce = solve('challenge', 12);
+      const hash = crypto.createHash('sha256').update(`challenge:${nonce}`).digest();
+
+      expect(hash[0]).toBe(0);
+      expect(hash[1] >> 4).toBe(0);
+      expect(SpamProtectionService.verifyProofOfWork('other', nonce, 24)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebhookDeliveryService } from '../../services/WebhookDeliveryService';
+import { IIntegration, IIntegrationEvent } from '../../types';
+
+interface IReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('WebhookDeliveryService', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: IReceivedRequest[];
+
+  const event: IIntegrationEvent = {
+    eventId: 'evt-1',
+    eventType: 'form_submitted',
+    formId: '507f1f77bcf86cd799439011',
+    occurredAt: new Date('2024-01-01T00:00:00Z'),
+    form: { id: '507f1f77bcf86cd799439011', title: 'Contact' },
+    responseId: '507f1f77bcf86cd799439012',
+    responses: { name: 'Ada' },
+    metadata: { ipAddress: '127.0.0.1' }
+  };
+
+  const buildIntegration = (path: string, webhook: Record<string, any> = {}): IIntegration => ({
+    _id: '507f1f77bcf86cd799439013',
+    type: 'webhook',
+    credentials: { webhookUrl: `${baseUrl}${path}`, webhookSecret: 'shh' },
+    settings: { webhook }
+  } as unknown as IIntegration);
+
+  beforeAll(done => {
+    // Local receiver: /ok answers 200, /fail answers 500, /slow never answers in time
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+
+        if (req.url === '/slow') {
+          setTimeout(() => res.end('late'), 500);
+          return;
+        }
+
+        res.statusCode = req.url === '/fail' ? 500 : 200;
+        res.end(req.url === '/fail' ? 'boom' : 'ok');
+      });
+    });
+    server.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  it('should sign the payload so receivers can verify it', async () => {
+    const attempt = await WebhookDeliveryService.send(buildIntegration('/ok'), event, { deliveryId: 'dlv-1', attempt: 2 });
+
+    expect(attempt.status).toBe('succeeded');
+    expect(attempt.response?.status).toBe(200);
+    expect(received).toHaveLength(1);
+
+    const { headers, body } = received[0];
+    expect(headers['x-youform-delivery']).toBe('dlv-1');
+    expect(headers['x-youform-attempt']).toBe('2');
+    expect(headers['x-youform-event']).toBe('form_submitted');
+    expect(WebhookDeliveryService.verifySignature(
+      'shh',
+      headers['x-youform-timestamp'] as string,
+      body,
+      headers['x-youform-signature'] as string
+    )).toBe(true);
+    expect(WebhookDeliveryService.verifySignature('other', headers['x-youform-timestamp'] as string, body, headers['x-youform-signature'] as string)).toBe(false);
+  });
+
+  it('should send custom headers and honor includeMetadata', async () => {
+    await WebhookDeliveryService.send(
+      buildIntegration('/ok', { customHeaders: { 'X-Api-Key': 'abc' }, includeMetadata: false }),
+      event,
+      { deliveryId: 'dlv-2', attempt: 1 }
+    );
+
+    const payload = JSON.parse(received[0].body);
+    expect(received[0].headers['x-api-key']).toBe('abc');
+    expect(payload.responses).toEqual({ name: 'Ada' });
+    expect(payload.metadata).toBeUndefined();
+  });
+
+  it('should report non-2xx responses as failed attempts', async () => {
+    const attempt = await WebhookDeliveryService.send(buildIntegration('/fail'), event, { deliveryId: 'dlv-3', attempt: 1 });
+
+    expect(attempt.status).toBe('failed');
+    expect(attempt.response).toEqual(expect.objectContaining({ status: 500, body: 'boom' }));
+    expect(attempt.error).toContain('500');
+  });
+
+  it('should fail attempts that exceed the configured timeout', async () => {
+    const attempt = await WebhookDeliveryService.send(buildIntegration('/slow', { timeout: 100 }), event, { deliveryId: 'dlv-4', attempt: 1 });
+
+    expect(attempt.status).toBe('failed');
+    expect(attempt.error).toContain('timed out');
+  });
+
+  it('should mark replays with the original delivery', () => {
+    const payload = WebhookDeliveryService.buildPayload(event, { deliveryId: 'dlv-5', attempt: 1, trigger: 'redelivery', redeliveryOf: 'dlv-1' });
+
+    expect(payload.deliveryId).toBe('dlv-5');
+    expect(payload.redeliveryOf).toBe('dlv-1');
+  });
+});
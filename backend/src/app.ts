@@ -1,4 +1,4 @@
-import express, { Application, Request, Response, NextFunction } from 'express';
+import express, { Application, Request, Response } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
@@ -6,6 +6,7 @@ import morgan from 'morgan';
 import dotenv from 'dotenv';
 import path from 'path';
 import { generalRateLimit } from './middleware/rateLimiting';
+import { blockRespondentFiles } from './middleware/uploads';
 
 // Load environment variables
 dotenv.config();
@@ -39,6 +40,7 @@ import gdprRoutes from './routes/gdpr';
 import apiKeyRoutes from './routes/apiKeys';
 import adminRoutes from './routes/admin';
 import formBuilderRoutes from './routes/formBuilder';
+import digestRoutes from './routes/digests';
 import errorHandler from './middleware/errorHandler';
 
 const app: Application = express();
@@ -86,8 +88,8 @@ const corsOptions: cors.CorsOptions = {
     }
   },
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Form-Unlock-Token', 'X-Device-Fingerprint'],
 };
 
 app.use(cors(corsOptions));
@@ -104,9 +106,10 @@ if (process.env.NODE_ENV === 'development') {
   app.use(morgan('dev'));
 }
 
-// Serve uploaded files
+// Serve public assets such as logos and QR codes. Respondent files left over
+// from before private file storage are only served through the responses API
 const uploadDir: string = process.env.UPLOAD_DIR || path.join(__dirname, '../uploads');
-app.use('/uploads', express.static(uploadDir));
+app.use('/uploads', blockRespondentFiles, express.static(uploadDir));
 
 // Health check endpoint
 app.get('/health', (req: Request, res: Response) => {
@@ -148,6 +151,7 @@ app.use('/api/gdpr', gdprRoutes);
 app.use('/api/api-keys', apiKeyRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/form-builder', formBuilderRoutes);
+app.use('/api/digests', digestRoutes);
 
 // 404 handler
 app.use('*', (req: Request, res: Response) => {
@@ -29,6 +29,13 @@ export const submissionRateLimit = RateLimitingService.createRateLimiter({
   keyGenerator: (req: Request) => `submission:${req.ip}:${req.params.formId || 'unknown'}`
 });
 
+// Rate limiter for form password attempts
+export const formUnlockRateLimit = RateLimitingService.createRateLimiter({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10,
+  keyGenerator: (req: Request) => `form_unlock:${req.ip}:${req.params.publicUrl || 'unknown'}`
+});
+
 // Rate limiter for API endpoints (authenticated users)
 export const apiRateLimit = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   const userId = req.user?._id?.toString();
@@ -127,6 +134,7 @@ export const rateLimitConfig = {
   api: apiRateLimit,
   apiKey: apiKeyRateLimit,
   submission: submissionRateLimit,
+  formUnlock: formUnlockRateLimit,
   export: exportRateLimit,
   upload: uploadRateLimit,
   webhook: webhookRateLimit,
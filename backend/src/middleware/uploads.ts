@@ -0,0 +1,38 @@
+import path from 'path';
+import { Request, Response, NextFunction } from 'express';
+
+/**
+ * Uploads Middleware
+ * Keeps respondent files out of the publicly served uploads directory
+ */
+
+// Name prefix of files uploaded by respondents
+const RESPONDENT_FILE_PREFIX = 'form-file-';
+
+/**
+ * Refuse requests for respondent files, which are only served through the responses API
+ * The path is decoded and normalised the way the static file server resolves it,
+ * so encoded or dotted paths to a respondent file are refused too.
+ * @param req - Request for a file under the uploads directory
+ * @param res - Response
+ * @param next - Next middleware
+ */
+export const blockRespondentFiles = (req: Request, res: Response, next: NextFunction): void => {
+  let filePath: string;
+  try {
+    filePath = decodeURIComponent(req.path);
+  } catch (error) {
+    res.status(400).end();
+    return;
+  }
+
+  const filename = path.posix.basename(path.posix.normalize(filePath.replace(/\\/g, '/')));
+  if (filename.toLowerCase().startsWith(RESPONDENT_FILE_PREFIX)) {
+    res.status(404).end();
+    return;
+  }
+
+  next();
+};
+
+export default blockRespondentFiles;
@@ -1,6 +1,7 @@
 import { body, validationResult, ValidationChain } from 'express-validator';
 import { Request, Response, NextFunction } from 'express';
 import ValidationService from '../services/ValidationService';
+import FieldEncryptionService from '../services/FieldEncryptionService';
 
 // Validation error interface
 interface ValidationError {
@@ -102,6 +103,19 @@ export const validateForm: ValidationChain[] = [
   body('fields.*.required')
     .isBoolean()
     .withMessage('Field required property must be a boolean'),
+
+  body('fields.*.sensitive')
+    .optional()
+    .isBoolean()
+    .withMessage('Field sensitive property must be a boolean')
+    .bail()
+    .custom((value) => !value || FieldEncryptionService.isConfigured())
+    .withMessage('Sensitive fields need field encryption, which is not configured on this server'),
+
+  body('fields.*.personal')
+    .optional()
+    .isBoolean()
+    .withMessage('Field personal property must be a boolean'),
   
   body('customization.primaryColor')
     .optional()
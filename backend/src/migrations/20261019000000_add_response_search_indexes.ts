@@ -0,0 +1,104 @@
+/**
+ * Migration: Add Response Search Indexes
+ * Description: Backfill the searchable text of responses and create the indexes used by response filters
+ * Created: 2026-10-19T00:00:00.000Z
+ */
+
+import mongoose from 'mongoose';
+import Form from '../models/Form';
+import FormResponse from '../models/FormResponse';
+
+export const description = 'Add Response Search Indexes';
+
+const BATCH_SIZE = 500;
+
+/**
+ * Run the migration
+ */
+export async function up(): Promise<void> {
+  console.log('Running migration: Add Response Search Indexes');
+
+  const db = mongoose.connection.db;
+  if (!db) throw new Error('Database connection not available');
+
+  try {
+    const forms = new Map<string, any>();
+    const cursor = FormResponse.find({ searchText: { $exists: false } })
+      .select('formId responses +searchText')
+      .cursor({ batchSize: BATCH_SIZE });
+
+    let operations: any[] = [];
+    let updated = 0;
+
+    for await (const response of cursor) {
+      const formId = response.formId.toString();
+      if (!forms.has(formId)) {
+        forms.set(formId, await Form.findById(formId).select('fields').lean());
+      }
+
+      const form = forms.get(formId);
+      if (!form) continue;
+
+      const searchText = response.applySearchText(form);
+      operations.push({
+        updateOne: {
+          filter: { _id: response._id },
+          update: { $set: { searchText } }
+        }
+      });
+
+      if (operations.length >= BATCH_SIZE) {
+        updated += (await db.collection('formresponses').bulkWrite(operations)).modifiedCount;
+        operations = [];
+      }
+    }
+
+    if (operations.length > 0) {
+      updated += (await db.collection('formresponses').bulkWrite(operations)).modifiedCount;
+    }
+
+    console.log(`Backfilled search text for ${updated} responses`);
+
+    await db.collection('formresponses').createIndex(
+      { formId: 1, searchText: 'text' },
+      { default_language: 'none', name: 'formId_1_searchText_text' }
+    );
+    await db.collection('formresponses').createIndex({ 'responses.$**': 1 });
+    await db.collection('formresponses').createIndex({ formId: 1, status: 1, submittedAt: -1 });
+    await db.collection('formresponses').createIndex({ formId: 1, tags: 1 });
+    await db.collection('formresponses').createIndex({ formId: 1, assignedTo: 1, submittedAt: -1 });
+
+    console.log('Created response search indexes');
+
+  } catch (error) {
+    console.error('Migration failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Rollback the migration
+ */
+export async function down(): Promise<void> {
+  console.log('Rolling back migration: Add Response Search Indexes');
+
+  const db = mongoose.connection.db;
+  if (!db) throw new Error('Database connection not available');
+
+  try {
+    try {
+      await db.collection('formresponses').dropIndex('formId_1_searchText_text');
+      await db.collection('formresponses').dropIndex('responses.$**_1');
+    } catch (indexError) {
+      console.warn('Some response indexes may not exist:', indexError);
+    }
+
+    await db.collection('formresponses').updateMany({}, { $unset: { searchText: 1 } });
+
+    console.log('Removed response search indexes');
+
+  } catch (error) {
+    console.error('Rollback failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Migration: Move Uploads To File Storage
+ * Description: Move respondent files from the public uploads directory into private file storage
+ * Created: 2026-10-19T00:01:00.000Z
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import Form from '../models/Form';
+import FormResponse from '../models/FormResponse';
+import FileStorageService from '../services/FileStorageService';
+
+export const description = 'Move Uploads To File Storage';
+
+const BATCH_SIZE = 100;
+
+/**
+ * Collect the file answers of a response
+ */
+function getFileAnswers(responses: Record<string, any>, fileFieldIds: string[]): any[] {
+  return fileFieldIds
+    .flatMap(fieldId => Array.isArray(responses[fieldId]) ? responses[fieldId] : [responses[fieldId]])
+    .filter(value => value && typeof value === 'object' && typeof value.filename === 'string');
+}
+
+/**
+ * Run the migration
+ */
+export async function up(): Promise<void> {
+  console.log('Running migration: Move Uploads To File Storage');
+
+  const uploadDir = FileStorageService.getLegacyUploadDir();
+  const backend = FileStorageService.getBackend();
+
+  try {
+    const forms = await Form.find({ 'fields.type': 'file' }).select('fields').lean();
+    let moved = 0;
+    let missing = 0;
+
+    for (const form of forms) {
+      const fileFieldIds = form.fields.filter(field => field.type === 'file').map(field => field.id);
+      const cursor = FormResponse.find({ formId: form._id }).select('responses').cursor({ batchSize: BATCH_SIZE });
+
+      for await (const response of cursor) {
+        const files = getFileAnswers(response.responses || {}, fileFieldIds).filter(file => !file.storageKey);
+        if (files.length === 0) continue;
+
+        const movedPaths: string[] = [];
+        for (const file of files) {
+          const legacyPath = path.join(uploadDir, path.basename(file.filename));
+          if (!fs.existsSync(legacyPath)) {
+            console.warn(`Uploaded file missing, left as is: ${legacyPath}`);
+            missing++;
+            continue;
+          }
+
+          // The file name is kept so the migration can be rolled back
+          file.id = uuidv4();
+          file.storageKey = FileStorageService.buildKey(form._id, response._id, path.basename(file.filename));
+          file.url = `/api/responses/${response._id}/files/${file.id}`;
+          await backend.put(file.storageKey, await fs.promises.readFile(legacyPath), file.mimetype);
+          movedPaths.push(legacyPath);
+        }
+
+        if (movedPaths.length === 0) continue;
+
+        response.markModified('responses');
+        await response.save({ validateBeforeSave: false });
+        await Promise.all(movedPaths.map(filePath => fs.promises.unlink(filePath)));
+        moved += movedPaths.length;
+      }
+    }
+
+    console.log(`Moved ${moved} uploaded files into ${backend.name} file storage (${missing} missing)`);
+
+  } catch (error) {
+    console.error('Migration failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Rollback the migration
+ */
+export async function down(): Promise<void> {
+  console.log('Rolling back migration: Move Uploads To File Storage');
+
+  const uploadDir = FileStorageService.getLegacyUploadDir();
+
+  try {
+    const forms = await Form.find({ 'fields.type': 'file' }).select('fields').lean();
+    let restored = 0;
+
+    await fs.promises.mkdir(uploadDir, { recursive: true });
+
+    for (const form of forms) {
+      const fileFieldIds = form.fields.filter(field => field.type === 'file').map(field => field.id);
+      const cursor = FormResponse.find({ formId: form._id }).select('responses').cursor({ batchSize: BATCH_SIZE });
+
+      for await (const response of cursor) {
+        const files = getFileAnswers(response.responses || {}, fileFieldIds).filter(file => file.storageKey);
+        if (files.length === 0) continue;
+
+        const storageKeys: string[] = [];
+        for (const file of files) {
+          try {
+            const content = await FileStorageService.readFile(file);
+            await fs.promises.writeFile(path.join(uploadDir, path.basename(file.filename)), content);
+          } catch (error) {
+            console.warn(`Stored file missing, left as is: ${file.storageKey}`);
+            continue;
+          }
+
+          storageKeys.push(file.storageKey);
+          file.url = `/uploads/${path.basename(file.filename)}`;
+          delete file.id;
+          delete file.storageKey;
+        }
+
+        if (storageKeys.length === 0) continue;
+
+        response.markModified('responses');
+        await response.save({ validateBeforeSave: false });
+        await Promise.all(storageKeys.map(storageKey => FileStorageService.getBackend().remove(storageKey)));
+        restored += storageKeys.length;
+      }
+    }
+
+    console.log(`Restored ${restored} uploaded files to ${uploadDir}`);
+
+  } catch (error) {
+    console.error('Rollback failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,109 @@
+import mongoose, { Schema } from 'mongoose';
+import { IConsentRecord, IGDPRConsentType } from '../types';
+
+export const GDPR_CONSENT_TYPES: IGDPRConsentType[] = ['data_processing', 'marketing', 'analytics', 'cookies', 'third_party_sharing'];
+
+// Consent record schema: one consent decision in the consent ledger, with a snapshot of
+// the wording shown, the response it was given with, and its later revocation. Records
+// are kept as evidence of the legal basis for processing.
+const consentRecordSchema = new Schema<IConsentRecord>({
+  // Public identifier used to revoke the consent
+  consentId: {
+    type: String,
+    required: true
+  },
+  // User ID of the data subject, when consent was recorded through the API
+  userId: String,
+  formId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Form'
+  },
+  workspaceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace'
+  },
+  responseId: {
+    type: Schema.Types.ObjectId,
+    ref: 'FormResponse'
+  },
+  consentVersionId: {
+    type: Schema.Types.ObjectId,
+    ref: 'ConsentVersion'
+  },
+  version: Number,
+  consentText: String,
+  privacyPolicyUrl: String,
+  consentType: {
+    type: String,
+    enum: GDPR_CONSENT_TYPES,
+    required: true
+  },
+  purpose: {
+    type: String,
+    required: true
+  },
+  legalBasis: {
+    type: String,
+    enum: ['consent', 'contract', 'legal_obligation', 'vital_interests', 'public_task', 'legitimate_interests'],
+    default: 'consent'
+  },
+  consentGiven: {
+    type: Boolean,
+    required: true
+  },
+  consentMethod: {
+    type: String,
+    enum: ['checkbox', 'button_click', 'form_submission', 'email_confirmation'],
+    required: true
+  },
+  explicitConsent: {
+    type: Boolean,
+    default: false
+  },
+  granularConsent: {
+    type: Schema.Types.Mixed,
+    default: () => ({})
+  },
+  parentalConsent: {
+    type: Boolean,
+    default: false
+  },
+  dataCategories: {
+    type: [String],
+    default: []
+  },
+  // Days
+  retentionPeriod: {
+    type: Number,
+    default: 365
+  },
+  source: {
+    type: String,
+    default: 'form_submission'
+  },
+  ipAddress: String,
+  userAgent: String,
+  consentedAt: {
+    type: Date,
+    default: Date.now
+  },
+  revokedAt: Date,
+  revocation: {
+    method: String,
+    userId: String,
+    ipAddress: String,
+    userAgent: String
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for revoking by consent ID and querying a form's ledger
+consentRecordSchema.index({ consentId: 1 }, { unique: true });
+consentRecordSchema.index({ formId: 1, consentType: 1, version: 1, consentedAt: -1 });
+consentRecordSchema.index({ responseId: 1 });
+consentRecordSchema.index({ userId: 1, consentedAt: -1 });
+
+const ConsentRecord = mongoose.model<IConsentRecord>('ConsentRecord', consentRecordSchema);
+
+export default ConsentRecord;
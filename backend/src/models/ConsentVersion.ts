@@ -0,0 +1,40 @@
+import mongoose, { Schema } from 'mongoose';
+import { IConsentVersion } from '../types';
+
+// Consent version schema: one wording of a form's consent text and privacy policy link.
+// A new version is numbered whenever either changes, so consent records can point at
+// the exact wording a respondent agreed to.
+const consentVersionSchema = new Schema<IConsentVersion>({
+  formId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Form',
+    required: true
+  },
+  // Numbered from 1 per form
+  version: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  consentText: {
+    type: String,
+    default: ''
+  },
+  privacyPolicyUrl: {
+    type: String,
+    default: ''
+  },
+  contentHash: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// The unique version makes concurrent first views of new wording share one version
+consentVersionSchema.index({ formId: 1, version: -1 }, { unique: true });
+
+const ConsentVersion = mongoose.model<IConsentVersion>('ConsentVersion', consentVersionSchema);
+
+export default ConsentVersion;
@@ -0,0 +1,49 @@
+import mongoose, { Schema } from 'mongoose';
+import { DataKeyStatus, IDataKey } from '../types';
+
+// Data key schema: a key that encrypts sensitive answers, stored wrapped by the master key.
+// Each workspace (or the owner of forms outside a workspace) has its own keys; new answers
+// use the active key, retired keys are kept so older answers stay readable.
+const dataKeySchema = new Schema<IDataKey>({
+  // 'workspace:<id>' or 'user:<id>'
+  scope: {
+    type: String,
+    required: true
+  },
+  version: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  status: {
+    type: String,
+    enum: ['active', 'retired'] as DataKeyStatus[],
+    default: 'active'
+  },
+  // IV, auth tag and ciphertext of the key, base64
+  wrappedKey: {
+    type: String,
+    required: true,
+    select: false
+  },
+  // Fingerprint of the master key the key is wrapped with
+  masterKeyId: {
+    type: String,
+    required: true
+  },
+  retiredAt: Date,
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// Versions count up per scope, and only one key per scope is active
+dataKeySchema.index({ scope: 1, version: -1 }, { unique: true });
+dataKeySchema.index({ scope: 1 }, { unique: true, partialFilterExpression: { status: 'active' }, name: 'scope_1_active' });
+
+const DataKey = mongoose.model<IDataKey>('DataKey', dataKeySchema);
+
+export default DataKey;
@@ -0,0 +1,140 @@
+import mongoose, { Schema } from 'mongoose';
+import {
+  DataSubjectRequestStatus,
+  DataSubjectRequestType,
+  DataSubjectVerificationMethod,
+  IDataSubjectRequest,
+  IDataSubjectRequestEvent
+} from '../types';
+
+export const DATA_SUBJECT_REQUEST_TYPES: DataSubjectRequestType[] = ['access', 'erasure', 'portability'];
+export const DATA_SUBJECT_VERIFICATION_METHODS: DataSubjectVerificationMethod[] = ['email', 'identity_document', 'account_login'];
+
+const STATUSES: DataSubjectRequestStatus[] = ['received', 'verified', 'fulfilled', 'rejected'];
+
+// Status change schema: who moved the request on, and when
+const requestEventSchema = new Schema<IDataSubjectRequestEvent>({
+  status: {
+    type: String,
+    enum: STATUSES,
+    required: true
+  },
+  at: {
+    type: Date,
+    default: Date.now
+  },
+  by: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  note: String
+}, { _id: false });
+
+// Data subject request schema: an access, erasure or portability request from a respondent,
+// who is found by the email addresses and phone numbers they gave in a workspace's forms
+const dataSubjectRequestSchema = new Schema<IDataSubjectRequest>({
+  // Forms searched: the workspace's, or the owner's forms outside a workspace
+  workspaceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace'
+  },
+  ownerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  type: {
+    type: String,
+    enum: DATA_SUBJECT_REQUEST_TYPES,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: STATUSES,
+    default: 'received'
+  },
+  identifiers: {
+    emails: {
+      type: [{ type: String, lowercase: true, trim: true }],
+      default: []
+    },
+    // Digits only
+    phones: {
+      type: [String],
+      default: []
+    }
+  },
+  receivedAt: {
+    type: Date,
+    default: Date.now
+  },
+  // When the request must be answered by
+  dueAt: {
+    type: Date,
+    required: true
+  },
+  notes: {
+    type: String,
+    maxlength: [2000, 'Notes cannot be more than 2000 characters']
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // How the operator confirmed the requester is the data subject
+  verification: {
+    method: {
+      type: String,
+      enum: DATA_SUBJECT_VERIFICATION_METHODS
+    },
+    verifiedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    verifiedAt: Date,
+    notes: String
+  },
+  fulfillment: {
+    fulfilledBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    fulfilledAt: Date,
+    // Responses the operator confirmed belong to the subject
+    responseIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'FormResponse'
+    }],
+    erased: Number
+  },
+  rejection: {
+    rejectedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    rejectedAt: Date,
+    reason: String
+  },
+  history: {
+    type: [requestEventSchema],
+    default: []
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Virtual to flag open requests past their deadline
+dataSubjectRequestSchema.virtual('isOverdue').get(function() {
+  return ['received', 'verified'].includes(this.status) && !!this.dueAt && this.dueAt.getTime() < Date.now();
+});
+
+// Indexes for listing requests by deadline
+dataSubjectRequestSchema.index({ workspaceId: 1, status: 1, dueAt: 1 });
+dataSubjectRequestSchema.index({ ownerId: 1, status: 1, dueAt: 1 });
+
+const DataSubjectRequest = mongoose.model<IDataSubjectRequest>('DataSubjectRequest', dataSubjectRequestSchema);
+
+export default DataSubjectRequest;
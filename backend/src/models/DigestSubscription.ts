@@ -0,0 +1,109 @@
+import mongoose, { Schema } from 'mongoose';
+import { DigestChannel, DigestFormat, DigestFrequency, DigestScope, IDigestSubscription } from '../types';
+
+export const DIGEST_SCOPES: DigestScope[] = ['form', 'workspace'];
+export const DIGEST_FREQUENCIES: DigestFrequency[] = ['daily', 'weekly', 'monthly'];
+export const DIGEST_FORMATS: DigestFormat[] = ['html', 'pdf'];
+export const DIGEST_CHANNELS: DigestChannel[] = ['email', 'webhook'];
+
+// Digest subscription schema: a user's scheduled analytics digest for a form or workspace
+const digestSubscriptionSchema = new Schema<IDigestSubscription>({
+  scope: {
+    type: String,
+    enum: DIGEST_SCOPES,
+    required: true
+  },
+  formId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Form'
+  },
+  workspaceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace'
+  },
+  // Subscriber; the digest stops if they lose access to the form or workspace
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  frequency: {
+    type: String,
+    enum: DIGEST_FREQUENCIES,
+    required: true
+  },
+  // IANA timezone the send time and reporting periods are in
+  timezone: {
+    type: String,
+    default: 'UTC'
+  },
+  sendHour: {
+    type: Number,
+    min: 0,
+    max: 23,
+    default: 8
+  },
+  // Weekly digests: 0 is Sunday
+  dayOfWeek: {
+    type: Number,
+    min: 0,
+    max: 6,
+    default: 1
+  },
+  // Monthly digests; days after the 28th do not occur every month
+  dayOfMonth: {
+    type: Number,
+    min: 1,
+    max: 28,
+    default: 1
+  },
+  format: {
+    type: String,
+    enum: DIGEST_FORMATS,
+    default: 'html'
+  },
+  channel: {
+    type: String,
+    enum: DIGEST_CHANNELS,
+    default: 'email'
+  },
+  recipients: {
+    type: [{ type: String, lowercase: true, trim: true }],
+    default: []
+  },
+  webhookUrl: String,
+  webhookSecret: {
+    type: String,
+    select: false
+  },
+  active: {
+    type: Boolean,
+    default: true
+  },
+  nextRunAt: {
+    type: Date,
+    required: true
+  },
+  lastSentAt: Date,
+  // End of the last period sent
+  lastPeriodEnd: Date,
+  lastStatus: {
+    type: String,
+    enum: ['sent', 'failed']
+  },
+  lastError: String,
+  // Stored PDF of the last email digest, removed when the next one is stored
+  lastPdfKey: String
+}, {
+  timestamps: true
+});
+
+// Indexes for finding due digests and listing a user's digests
+digestSubscriptionSchema.index({ active: 1, nextRunAt: 1 });
+digestSubscriptionSchema.index({ userId: 1, createdAt: -1 });
+digestSubscriptionSchema.index({ formId: 1 });
+digestSubscriptionSchema.index({ workspaceId: 1 });
+
+const DigestSubscription = mongoose.model<IDigestSubscription>('DigestSubscription', digestSubscriptionSchema);
+
+export default DigestSubscription;
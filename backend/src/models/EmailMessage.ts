@@ -0,0 +1,127 @@
+import mongoose, { Schema, Model, Query } from 'mongoose';
+import { IEmailMessage, IMailAttachment, EmailMessageKind, EmailMessageStatus, MailTransportName } from '../types';
+
+// Attachment schema: files are read from disk or file storage when the message is sent
+const attachmentSchema = new Schema<IMailAttachment>({
+  filename: {
+    type: String,
+    required: true
+  },
+  path: String,
+  storageKey: String,
+  contentType: String,
+  size: Number
+}, { _id: false });
+
+// Email message schema: one document per outgoing email, tracking its delivery
+const emailMessageSchema = new Schema<IEmailMessage>({
+  kind: {
+    type: String,
+    enum: ['owner_notification', 'autoresponder', 'integration', 'digest', 'export_ready'] as EmailMessageKind[],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['queued', 'sent', 'failed'] as EmailMessageStatus[],
+    default: 'queued'
+  },
+  from: {
+    type: String,
+    required: true
+  },
+  to: {
+    type: [String],
+    required: true,
+    validate: {
+      validator: (recipients: string[]) => recipients.length > 0,
+      message: 'At least one recipient is required'
+    }
+  },
+  replyTo: String,
+  subject: {
+    type: String,
+    required: true,
+    maxlength: [998, 'Subject cannot be more than 998 characters']
+  },
+  html: String,
+  text: String,
+  attachments: [attachmentSchema],
+  // Source of the message
+  formId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Form'
+  },
+  responseId: {
+    type: Schema.Types.ObjectId,
+    ref: 'FormResponse'
+  },
+  integrationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Integration'
+  },
+  eventId: String,
+  // Prevents the same notification being queued twice when an event is retried
+  dedupeKey: String,
+  // Delivery tracking
+  transport: {
+    type: String,
+    enum: ['smtp', 'file', 'memory'] as MailTransportName[]
+  },
+  providerMessageId: String,
+  providerResponse: String,
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  lastError: String,
+  sentAt: Date,
+  failedAt: Date
+}, {
+  timestamps: true
+});
+
+// Indexes for delivery logs
+emailMessageSchema.index({ formId: 1, createdAt: -1 });
+emailMessageSchema.index({ responseId: 1 });
+emailMessageSchema.index({ status: 1, createdAt: -1 });
+emailMessageSchema.index({ dedupeKey: 1 }, { unique: true, sparse: true });
+
+// Instance method to record a successful delivery
+emailMessageSchema.methods.markSent = function(transport: MailTransportName, providerMessageId: string, providerResponse?: string) {
+  this.status = 'sent';
+  this.transport = transport;
+  this.providerMessageId = providerMessageId;
+  this.providerResponse = providerResponse;
+  this.sentAt = new Date();
+  this.lastError = undefined;
+  return this.save();
+};
+
+// Instance method to record a failed delivery attempt
+emailMessageSchema.methods.recordFailure = function(transport: MailTransportName, error: string, final: boolean) {
+  this.transport = transport;
+  this.lastError = error;
+  if (final) {
+    this.status = 'failed';
+    this.failedAt = new Date();
+  }
+  return this.save();
+};
+
+// Static method to list the messages sent for a form
+emailMessageSchema.statics.findByForm = function(formId: string, options: { status?: EmailMessageStatus; responseId?: string } = {}) {
+  const query: any = { formId };
+  if (options.status) query.status = options.status;
+  if (options.responseId) query.responseId = options.responseId;
+
+  return this.find(query).select('-html -text').sort({ createdAt: -1 });
+};
+
+// Interface for the EmailMessage model
+interface IEmailMessageModel extends Model<IEmailMessage> {
+  findByForm(formId: string, options?: { status?: EmailMessageStatus; responseId?: string }): Query<IEmailMessage[], IEmailMessage>;
+}
+
+const EmailMessage = mongoose.model<IEmailMessage, IEmailMessageModel>('EmailMessage', emailMessageSchema);
+
+export default EmailMessage;
@@ -1,6 +1,7 @@
-import mongoose, { Schema, Model } from 'mongoose';
+import mongoose, { Schema, Model, Types } from 'mongoose';
 import mongoosePaginate from 'mongoose-paginate-v2';
 import { v4 as uuidv4 } from 'uuid';
+import FormActivity from './FormActivity';
 import {
   IForm,
   IFormField,
@@ -34,6 +35,8 @@ import {
   IMediaField,
   IDeviceStats
 } from '../types';
+import CalculatorService from '../services/CalculatorService';
+import FormAccessService from '../services/FormAccessService';
 
 // Form field schema
 const formFieldSchema = new Schema<IFormField>({
@@ -67,6 +70,16 @@ const formFieldSchema = new Schema<IFormField>({
     type: Boolean,
     default: false
   },
+  // Answers are encrypted at rest and only shown to users who may view responses
+  sensitive: {
+    type: Boolean,
+    default: false
+  },
+  // Answers identify the respondent and are scrubbed when responses are anonymized
+  personal: {
+    type: Boolean,
+    default: false
+  },
   options: [{
     type: String,
     trim: true,
@@ -236,7 +249,7 @@ const formFieldSchema = new Schema<IFormField>({
     fileUpload: {
       maxFileSize: {
         type: Number,
-        default: 10 // MB
+        default: 10485760 // Bytes (10MB)
       },
       allowedTypes: [String],
       maxFiles: {
@@ -411,6 +424,15 @@ const formSchema = new Schema<IForm>({
     ref: 'Workspace',
     index: true
   },
+  // Short lock held while a submission counts and saves against the response limit
+  responseLimitLockedBy: {
+    type: String,
+    select: false
+  },
+  responseLimitLockedUntil: {
+    type: Date,
+    select: false
+  },
   // Advanced form settings
   settings: {
     // Multi-step form settings
@@ -452,7 +474,26 @@ const formSchema = new Schema<IForm>({
         },
         recipients: [String],
         subject: String,
-        template: String
+        template: String,
+        includeAttachments: {
+          type: Boolean,
+          default: false
+        }
+      },
+      // Confirmation email sent to the respondent
+      autoresponder: {
+        enabled: {
+          type: Boolean,
+          default: false
+        },
+        emailFieldId: String, // Defaults to the first email field
+        subject: String,
+        template: String,
+        replyTo: String,
+        includeAttachments: {
+          type: Boolean,
+          default: false
+        }
       },
       webhook: {
         enabled: {
@@ -483,7 +524,11 @@ const formSchema = new Schema<IForm>({
         type: Boolean,
         default: false
       },
-      password: String
+      // bcrypt hash, never returned by default
+      password: {
+        type: String,
+        select: false
+      }
     },
     // Response limits
     responseLimit: {
@@ -503,6 +548,11 @@ const formSchema = new Schema<IForm>({
       endDate: Date,
       timezone: String
     },
+    // Message shown when the form is outside its schedule or full
+    closedMessage: {
+      type: String,
+      maxlength: [1000, 'Closed message cannot exceed 1000 characters']
+    },
     // GDPR compliance
     gdpr: {
       enabled: {
@@ -515,6 +565,53 @@ const formSchema = new Schema<IForm>({
         type: Number,
         default: 0 // 0 means keep forever
       }
+    },
+    spamProtection: {
+      enabled: {
+        type: Boolean,
+        default: true
+      },
+      honeypot: {
+        type: Boolean,
+        default: true
+      },
+      minFillSeconds: {
+        type: Number,
+        default: 3,
+        min: [0, 'Minimum fill time cannot be negative'],
+        max: [600, 'Minimum fill time cannot be more than 600 seconds']
+      },
+      duplicateWindowMinutes: {
+        type: Number,
+        default: 60, // 0 disables duplicate detection
+        min: [0, 'Duplicate window cannot be negative']
+      },
+      maxLinks: {
+        type: Number,
+        default: 3,
+        min: [0, 'Maximum links cannot be negative']
+      },
+      blockedKeywords: {
+        type: [String],
+        default: []
+      },
+      proofOfWork: {
+        enabled: {
+          type: Boolean,
+          default: false
+        },
+        difficulty: {
+          type: Number,
+          default: 16, // leading zero bits of the solution hash
+          min: [8, 'Proof of work difficulty must be at least 8'],
+          max: [24, 'Proof of work difficulty cannot be more than 24']
+        }
+      },
+      threshold: {
+        type: Number,
+        default: 5,
+        min: [1, 'Spam threshold must be at least 1']
+      }
     }
   },
   // Thank you page settings
@@ -619,9 +716,25 @@ formSchema.pre('save', function(next) {
   next();
 });
 
+// Hash form password before saving
+formSchema.pre('save', async function(next) {
+  const password = this.settings?.passwordProtection?.password;
+  if (!password || !this.isModified('settings.passwordProtection.password')) {
+    return next();
+  }
+
+  try {
+    this.settings.passwordProtection.password = await FormAccessService.hashPassword(password);
+    next();
+  } catch (error) {
+    next(error as Error);
+  }
+});
+
 // Instance method to increment views
-formSchema.methods.incrementViews = function(): Promise<IForm> {
+formSchema.methods.incrementViews = async function(): Promise<IForm> {
   this.analytics.views += 1;
+  await FormActivity.record(this._id, 'views');
   return this.save({ validateBeforeSave: false });
 };
 
@@ -640,13 +753,26 @@ formSchema.methods.getPublicData = function(): Partial<IForm> {
     fields: this.fields,
     customization: this.customization,
     publicUrl: this.publicUrl,
-    settings: this.settings,
+    settings: this.getPublicSettings(),
     thankYouPage: this.thankYouPage,
     payment: this.payment,
     languages: this.languages
   };
 };
 
+// Instance method to get settings safe to expose to respondents
+formSchema.methods.getPublicSettings = function(): Partial<IFormSettings> {
+  const settings = this.settings?.toObject ? this.settings.toObject() : { ...this.settings };
+  
+  return {
+    ...settings,
+    passwordProtection: { enabled: !!settings.passwordProtection?.enabled },
+    notifications: undefined,
+    // Respondents get a challenge instead; keywords and thresholds would help bots evade them
+    spamProtection: undefined
+  };
+};
+
 // Instance method to evaluate conditional logic
 formSchema.methods.evaluateConditionalLogic = function(fieldId: string, responses: Record<string, any>): boolean {
   const field = this.fields.find((f: IFormField) => f.id === fieldId);
@@ -690,35 +816,10 @@ formSchema.methods.calculateFieldValue = function(fieldId: string, responses: Re
     return null;
   }
   
-  let formula = field.calculation.formula || '';
-  
-  // Replace field IDs with actual values
-  field.calculation.dependencies.forEach((depFieldId: string) => {
-    const value = responses[depFieldId] || 0;
-    formula = formula.replace(new RegExp(`{{${depFieldId}}}`, 'g'), value.toString());
-  });
+  // Evaluated with the formula parser so dependent calculations resolve in order
+  const result = CalculatorService.computeCalculations(this.fields, responses)[fieldId];
   
-  try {
-    // Basic formula evaluation (implement proper parser for production)
-    const result = eval(formula);
-    
-    // Format based on display type
-    switch (field.calculation.displayType) {
-      case 'currency':
-        return new Intl.NumberFormat('en-US', {
-          style: 'currency',
-          currency: 'USD'
-        }).format(result);
-      case 'percentage':
-        return `${(result * 100).toFixed(2)}%`;
-      case 'decimal':
-        return result.toFixed(2);
-      default:
-        return Math.round(result).toString();
-    }
-  } catch (error) {
-    return 'Error in calculation';
-  }
+  return result ? String(result.formatted) : 'Error in calculation';
 };
 
 // Static method to find by public URL
@@ -735,6 +836,36 @@ formSchema.statics.findUserForms = function(userId: string, options: any = {}) {
     .limit(options.limit || 0);
 };
 
+// Static method to reset a form's submission count to its number of stored responses,
+// counted like the response hook does: valid and not quarantined as spam
+formSchema.statics.syncFormAnalytics = async function(formId: string | Types.ObjectId) {
+  const submissions = await mongoose.model('FormResponse').countDocuments({ formId, isValid: true, status: { $ne: 'spam' } });
+  return this.findByIdAndUpdate(formId, { $set: { 'analytics.submissions': submissions } }, { new: true });
+};
+
+// Static method to reset every form's submission count to its number of stored responses
+formSchema.statics.recalculateAnalytics = async function() {
+  const counts = await mongoose.model('FormResponse').aggregate([
+    { $match: { isValid: true, status: { $ne: 'spam' } } },
+    { $group: { _id: '$formId', submissions: { $sum: 1 } } }
+  ]);
+  const submissionsByForm = new Map<string, number>(counts.map((count: any) => [count._id.toString(), count.submissions]));
+
+  let formsChecked = 0;
+  let formsUpdated = 0;
+  const cursor = this.find().select('analytics.submissions').lean().cursor({ batchSize: 100 });
+  for await (const form of cursor) {
+    formsChecked++;
+    const submissions = submissionsByForm.get(form._id.toString()) || 0;
+    if ((form.analytics?.submissions || 0) !== submissions) {
+      await this.updateOne({ _id: form._id }, { $set: { 'analytics.submissions': submissions } });
+      formsUpdated++;
+    }
+  }
+
+  return { formsChecked, formsUpdated };
+};
+
 // Indexes for performance
 formSchema.index({ userId: 1, createdAt: -1 });
 formSchema.index({ publicUrl: 1 });
@@ -751,6 +882,8 @@ formSchema.plugin(mongoosePaginate);
 interface IFormModel extends Model<IForm> {
   findByPublicUrl(publicUrl: string): Promise<IForm | null>;
   findUserForms(userId: string, options?: any): Promise<IForm[]>;
+  syncFormAnalytics(formId: string | Types.ObjectId): Promise<IForm | null>;
+  recalculateAnalytics(): Promise<{ formsChecked: number; formsUpdated: number }>;
 }
 
 const Form = mongoose.model<IForm, IFormModel>('Form', formSchema);
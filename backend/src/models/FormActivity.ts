@@ -0,0 +1,48 @@
+import mongoose, { Schema, Model, Types } from 'mongoose';
+import { IFormActivity } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Form activity schema: a form's views and starts counted per hour, so analytics can be
+// reported for any period; the totals on the form only count since it was created
+const formActivitySchema = new Schema<IFormActivity>({
+  formId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Form',
+    required: true
+  },
+  hour: {
+    type: Date,
+    required: true
+  },
+  views: {
+    type: Number,
+    default: 0
+  },
+  starts: {
+    type: Number,
+    default: 0
+  }
+});
+
+// Indexes for counting and period sums
+formActivitySchema.index({ formId: 1, hour: 1 }, { unique: true });
+formActivitySchema.index({ hour: 1 }, {
+  // Kept for 400 days, enough to compare a month with the one before it a year on
+  expireAfterSeconds: 400 * 24 * 60 * 60
+});
+
+// Static method to count a view or start in the current hour
+formActivitySchema.statics.record = function(formId: string | Types.ObjectId, metric: 'views' | 'starts', at: Date = new Date()) {
+  const hour = new Date(Math.floor(at.getTime() / HOUR_MS) * HOUR_MS);
+  return this.updateOne({ formId, hour }, { $inc: { [metric]: 1 } }, { upsert: true });
+};
+
+// Interface for the FormActivity model
+interface IFormActivityModel extends Model<IFormActivity> {
+  record(formId: string | Types.ObjectId, metric: 'views' | 'starts', at?: Date): Promise<unknown>;
+}
+
+const FormActivity = mongoose.model<IFormActivity, IFormActivityModel>('FormActivity', formActivitySchema);
+
+export default FormActivity;
@@ -1,5 +1,69 @@
 import mongoose, { Schema, Model } from 'mongoose';
-import { IFormResponse, IResponseMetadata, IValidationError } from '../types';
+import { IForm, IFormResponse, IResponseNote, IResponseSpamCheck, ISpamSignal, IValidationError, ResponseWorkflowStatus } from '../types';
+import ConditionalLogicService from '../services/ConditionalLogicService';
+import CalculatorService from '../services/CalculatorService';
+import FieldEncryptionService from '../services/FieldEncryptionService';
+
+// Answers left out of full-text search: fields without answers, and secrets
+const UNSEARCHABLE_FIELD_TYPES = ['password', 'divider', 'heading', 'paragraph', 'image', 'video', 'audio'];
+const MAX_SEARCH_TEXT_LENGTH = 10000;
+
+export const RESPONSE_WORKFLOW_STATUSES: ResponseWorkflowStatus[] = ['new', 'in_review', 'done', 'spam'];
+
+// Internal note schema: a comment left by a team member while triaging a response
+const responseNoteSchema = new Schema<IResponseNote>({
+  authorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  body: {
+    type: String,
+    required: [true, 'Note cannot be empty'],
+    trim: true,
+    maxlength: [5000, 'Note cannot be more than 5000 characters']
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Spam check schema: how a public submission scored against the form's spam protection
+const spamSignalSchema = new Schema<ISpamSignal>({
+  code: {
+    type: String,
+    required: true
+  },
+  weight: {
+    type: Number,
+    required: true
+  },
+  detail: String
+}, { _id: false });
+
+const spamCheckSchema = new Schema<IResponseSpamCheck>({
+  score: {
+    type: Number,
+    default: 0
+  },
+  signals: {
+    type: [spamSignalSchema],
+    default: []
+  },
+  quarantined: {
+    type: Boolean,
+    default: false
+  },
+  checkedAt: {
+    type: Date,
+    default: Date.now
+  },
+  // Hash of the answers, for duplicate detection
+  payloadHash: String,
+  // ID of the form token the submission used, so a token works once
+  tokenId: String,
+  // When a team member moved the response out of spam
+  releasedAt: Date
+}, { _id: false });
 
 const formResponseSchema = new Schema<IFormResponse>({
   formId: {
@@ -44,7 +108,71 @@ const formResponseSchema = new Schema<IFormResponse>({
   validationErrors: [{
     fieldId: String,
     message: String
-  }]
+  }],
+  // Fields hidden or skipped by conditional logic at submission time
+  hiddenFields: [String],
+  // Hashed cookie/device keys used to enforce single submission
+  submitterKeys: {
+    type: [String],
+    select: false
+  },
+  // Server-computed calculation results: fieldId -> { value, formatted }
+  calculatedValues: {
+    type: Schema.Types.Mixed,
+    default: () => ({})
+  },
+  // Number of edits made after submission; each one is stored as a ResponseRevision
+  revision: {
+    type: Number,
+    default: 0
+  },
+  lastEditedAt: Date,
+  lastEditedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  // Inbox workflow
+  status: {
+    type: String,
+    enum: RESPONSE_WORKFLOW_STATUSES,
+    default: 'new'
+  },
+  statusChangedAt: Date,
+  tags: {
+    type: [{
+      type: String,
+      trim: true,
+      lowercase: true,
+      maxlength: [50, 'Tag cannot be more than 50 characters']
+    }],
+    default: [],
+    validate: {
+      validator: (tags: string[]) => tags.length <= 20,
+      message: 'A response cannot have more than 20 tags'
+    }
+  },
+  notes: {
+    type: [responseNoteSchema],
+    default: []
+  },
+  lastNoteAt: Date,
+  assignedTo: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  // Text of the answers, kept for the full-text index
+  searchText: {
+    type: String,
+    select: false
+  },
+  spam: spamCheckSchema,
+  // Bytes of uploaded files, counted against the workspace storage limit
+  uploadSize: {
+    type: Number,
+    default: 0
+  },
+  // Set once the retention job has scrubbed the respondent's personal data
+  anonymizedAt: Date
 }, {
   timestamps: true,
   toJSON: { virtuals: true },
@@ -59,7 +187,86 @@ formResponseSchema.virtual('form', {
   justOne: true
 });
 
+// Instance method to drop answers to fields the respondent never reached
+formResponseSchema.methods.applyConditionalLogic = function(form: IForm): Set<string> {
+  const { inactiveFields } = ConditionalLogicService.resolveSubmissionFields(form.fields, this.responses || {});
+  const responses = { ...this.responses };
+
+  inactiveFields.forEach((_reason, fieldId) => {
+    delete responses[fieldId];
+  });
+
+  this.responses = responses;
+  this.hiddenFields = Array.from(inactiveFields.keys());
+
+  return new Set<string>(this.hiddenFields);
+};
+
+// Instance method to recompute calculated fields, discarding client-supplied values
+// Results computed from sensitive answers are kept only as encrypted answers, not in calculatedValues
+formResponseSchema.methods.applyCalculations = function(form: IForm): void {
+  const hiddenFields = new Set<string>(this.hiddenFields || []);
+  const sensitiveFieldIds = FieldEncryptionService.getSensitiveFieldIds(form);
+  const responses = { ...this.responses };
+
+  form.fields.forEach((field: any) => {
+    if (field.calculation?.enabled) {
+      delete responses[field.id];
+    }
+  });
+
+  const results = CalculatorService.computeCalculations(form.fields, responses);
+  const calculatedValues: Record<string, any> = {};
+
+  Object.entries(results).forEach(([fieldId, result]) => {
+    if (hiddenFields.has(fieldId)) return;
+
+    responses[fieldId] = result.value;
+    if (!sensitiveFieldIds.has(fieldId)) calculatedValues[fieldId] = result;
+  });
+
+  this.responses = responses;
+  this.calculatedValues = calculatedValues;
+};
+
+// Instance method to collect the text of the answers for full-text search
+// Sensitive answers are left out, so their plaintext is never stored
+formResponseSchema.methods.applySearchText = function(form: Pick<IForm, 'fields'>): string {
+  const fieldTypes = new Map(form.fields.map((field: any) => [field.id, field.type]));
+  const sensitiveFieldIds = FieldEncryptionService.getSensitiveFieldIds(form);
+  const parts: string[] = [];
+
+  const collect = (value: any): void => {
+    if (value === undefined || value === null || FieldEncryptionService.isEncrypted(value)) return;
+    if (typeof value === 'string') {
+      if (value.trim()) parts.push(value.trim());
+    } else if (typeof value === 'number' || typeof value === 'boolean') {
+      parts.push(String(value));
+    } else if (Array.isArray(value)) {
+      value.forEach(collect);
+    } else if (typeof value === 'object') {
+      // Uploads are found by name, not by their storage details
+      if (value.originalName) {
+        parts.push(String(value.originalName));
+      } else {
+        Object.values(value).forEach(collect);
+      }
+    }
+  };
+
+  Object.entries(this.responses || {}).forEach(([fieldId, value]) => {
+    if (UNSEARCHABLE_FIELD_TYPES.includes(fieldTypes.get(fieldId) || '') || sensitiveFieldIds.has(fieldId)) return;
+    collect(value);
+  });
+
+  this.searchText = parts.join(' ').slice(0, MAX_SEARCH_TEXT_LENGTH);
+  return this.searchText;
+};
+
 // Instance method to validate response against form fields
+// Calculations and conditional logic are applied first, so hidden or skipped
+// fields are neither required nor stored and calculated fields always hold
+// server-computed values
 formResponseSchema.methods.validateAgainstForm = async function(): Promise<IValidationError[]> {
   const Form = mongoose.model('Form');
   const form = await Form.findById(this.formId);
@@ -69,10 +276,23 @@ formResponseSchema.methods.validateAgainstForm = async function(): Promise<IVali
   }
 
   const errors: IValidationError[] = [];
+
+  // Logic may branch on calculated totals, and totals must not include
+  // answers from branches the respondent never saw, so calculate on both sides
+  this.applyCalculations(form);
+  const hiddenFields: Set<string> = this.applyConditionalLogic(form);
+  if (hiddenFields.size > 0) {
+    this.applyCalculations(form);
+  }
+
   const responses = this.responses;
 
   // Check required fields
   for (const field of form.fields) {
+    if (hiddenFields.has(field.id)) {
+      continue;
+    }
+
     if (field.required && (!responses[field.id] || responses[field.id] === '')) {
       errors.push({
         fieldId: field.id,
@@ -157,10 +377,41 @@ formResponseSchema.methods.validateAgainstForm = async function(): Promise<IVali
 
   this.validationErrors = errors;
   this.isValid = errors.length === 0;
+  this.applySearchText(form);
   
   return errors;
 };
 
+// Instance method to shape a response for the API
+formResponseSchema.methods.getFormattedData = function() {
+  return {
+    _id: this._id,
+    formId: this.formId?._id || this.formId,
+    responses: this.responses,
+    calculatedValues: this.calculatedValues || {},
+    hiddenFields: this.hiddenFields || [],
+    submittedAt: this.submittedAt,
+    metadata: this.metadata,
+    isValid: this.isValid,
+    revision: this.revision || 0,
+    lastEditedAt: this.lastEditedAt,
+    lastEditedBy: this.lastEditedBy,
+    status: this.status || 'new',
+    statusChangedAt: this.statusChangedAt,
+    tags: this.tags || [],
+    notes: this.notes || [],
+    assignedTo: this.assignedTo,
+    spam: this.spam ? {
+      score: this.spam.score,
+      signals: this.spam.signals,
+      quarantined: this.spam.quarantined,
+      releasedAt: this.spam.releasedAt
+    } : undefined,
+    createdAt: this.createdAt,
+    updatedAt: this.updatedAt
+  };
+};
+
 // Static method to get analytics for a form
 formResponseSchema.statics.getAnalytics = async function(formId: string, dateRange?: { start: Date; end: Date }) {
   try {
@@ -287,10 +538,21 @@ formResponseSchema.statics.exportToCSV = async function(formId: string, options:
   };
 };
 
+// Middleware to encrypt answers to sensitive fields before they are stored
+formResponseSchema.pre('save', async function() {
+  if (!this.isModified('responses')) return;
+
+  const Form = mongoose.model('Form');
+  const form = await Form.findById(this.formId).select('fields userId workspaceId');
+  if (!form) return;
+
+  this.responses = await FieldEncryptionService.encryptAnswers(form, this.responses, this._id);
+});
+
 // Middleware to increment form submissions count
 formResponseSchema.post('save', async function(doc, next) {
-  // Only increment for new, valid responses
-  if (doc.isNew && doc.isValid) {
+  // Only increment for new, valid responses; quarantined spam is counted if it is released
+  if (doc.isNew && doc.isValid && doc.status !== 'spam') {
     try {
       const Form = mongoose.model('Form');
       const result = await Form.findByIdAndUpdate(
@@ -316,8 +578,18 @@ formResponseSchema.post('save', async function(doc, next) {
 // Indexes for performance
 formResponseSchema.index({ formId: 1, submittedAt: -1 });
 formResponseSchema.index({ submittedAt: -1 });
+formResponseSchema.index({ formId: 1, submitterKeys: 1 });
 formResponseSchema.index({ isValid: 1 });
 formResponseSchema.index({ formId: 1, isValid: 1 });
+formResponseSchema.index({ formId: 1, status: 1, submittedAt: -1 });
+formResponseSchema.index({ formId: 1, tags: 1 });
+formResponseSchema.index({ formId: 1, assignedTo: 1, submittedAt: -1 });
+formResponseSchema.index({ formId: 1, 'spam.payloadHash': 1, submittedAt: -1 }, { sparse: true });
+formResponseSchema.index({ formId: 1, 'spam.tokenId': 1 }, { sparse: true });
+// Full-text search over answers; no stemming, since forms are answered in many languages
+formResponseSchema.index({ formId: 1, searchText: 'text' }, { default_language: 'none', name: 'formId_1_searchText_text' });
+// Field filters query responses.<fieldId> paths that differ per form
+formResponseSchema.index({ 'responses.$**': 1 });
 
 // Interface for the FormResponse model
 interface IFormResponseModel extends Model<IFormResponse> {
@@ -0,0 +1,82 @@
+import mongoose, { Schema } from 'mongoose';
+import { GDPRAuditAction, IGDPRAuditEntry } from '../types';
+
+export const GDPR_AUDIT_ACTIONS: GDPRAuditAction[] = [
+  'consent_recorded', 'consent_revoked', 'access_request', 'erasure_request',
+  'portability_request', 'retention_run', 'subject_request_received', 'subject_request_verified',
+  'subject_request_rejected'
+];
+
+// GDPR audit entry schema: one GDPR activity in an append-only log. Each entry holds the
+// hash of the one before it, so a changed or removed entry breaks the chain. Entries are
+// evidence for regulators and are not subject to response retention or erasure requests.
+const gdprAuditEntrySchema = new Schema<IGDPRAuditEntry>({
+  // Position in the chain, starting at 1
+  sequence: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  action: {
+    type: String,
+    enum: GDPR_AUDIT_ACTIONS,
+    required: true
+  },
+  // User ID of the data subject
+  subjectId: String,
+  // SHA-256 of the subject's lowercased email, so entries can be found by email without storing it
+  subjectEmailHash: String,
+  formId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Form'
+  },
+  // User who acted on the subject's behalf, if any
+  actorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  requestId: String,
+  details: {
+    type: Schema.Types.Mixed,
+    default: () => ({})
+  },
+  recordedAt: {
+    type: Date,
+    required: true
+  },
+  previousHash: {
+    type: String,
+    required: true
+  },
+  hash: {
+    type: String,
+    required: true
+  }
+}, {
+  versionKey: false
+});
+
+// The unique sequence makes concurrent appends to the chain retry instead of forking it
+gdprAuditEntrySchema.index({ sequence: 1 }, { unique: true });
+gdprAuditEntrySchema.index({ subjectId: 1, recordedAt: -1 });
+gdprAuditEntrySchema.index({ subjectEmailHash: 1, recordedAt: -1 });
+gdprAuditEntrySchema.index({ formId: 1, recordedAt: -1 });
+gdprAuditEntrySchema.index({ action: 1, recordedAt: -1 });
+
+// Entries are append-only
+const rejectChange = function(): never {
+  throw new Error('GDPR audit entries cannot be changed or removed');
+};
+
+gdprAuditEntrySchema.pre('save', function(next) {
+  if (!this.isNew) return next(new Error('GDPR audit entries cannot be changed or removed'));
+  next();
+});
+gdprAuditEntrySchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  rejectChange
+);
+
+const GDPRAuditEntry = mongoose.model<IGDPRAuditEntry>('GDPRAuditEntry', gdprAuditEntrySchema);
+
+export default GDPRAuditEntry;
@@ -15,8 +15,22 @@ import {
   IGoogleSheetsSettings,
   ISlackSettings,
   IEmailSettings,
-  IStripeSettings
+  IStripeSettings,
+  IIntegrationExecutionContext,
+  IIntegrationRateLimitStatus,
+  IntegrationRateLimitWindow
 } from '../types';
+import IntegrationExecution from './IntegrationExecution';
+import WebhookDeliveryService from '../services/WebhookDeliveryService';
+import ChatNotificationService from '../services/ChatNotificationService';
+import FormNotificationService from '../services/FormNotificationService';
+
+// Sliding windows checked against the integration's rate limits, narrowest first
+const RATE_LIMIT_WINDOWS: { window: IntegrationRateLimitWindow; limitKey: keyof IIntegrationRateLimit; durationMs: number }[] = [
+  { window: 'minute', limitKey: 'maxExecutionsPerMinute', durationMs: 60 * 1000 },
+  { window: 'hour', limitKey: 'maxExecutionsPerHour', durationMs: 60 * 60 * 1000 },
+  { window: 'day', limitKey: 'maxExecutionsPerDay', durationMs: 24 * 60 * 60 * 1000 }
+];
 
 // Integration credentials schema
 const credentialsSchema = new Schema<IIntegrationCredentials>({
@@ -125,6 +139,39 @@ const settingsSchema = new Schema<IIntegrationSettings>({
     }
   },
   
+  // Discord settings
+  discord: {
+    messageFormat: {
+      type: String,
+      enum: ['simple', 'detailed', 'custom'],
+      default: 'simple'
+    },
+    customTemplate: String,
+    mentionUsers: [String],
+    includeAttachments: {
+      type: Boolean,
+      default: false
+    },
+    username: String,
+    avatarUrl: String,
+    color: String // hex, e.g. #5865F2
+  },
+  
+  // Microsoft Teams settings
+  teams: {
+    messageFormat: {
+      type: String,
+      enum: ['simple', 'detailed', 'custom'],
+      default: 'simple'
+    },
+    customTemplate: String,
+    mentionUsers: [String],
+    includeAttachments: {
+      type: Boolean,
+      default: false
+    }
+  },
+  
   // Email settings
   email: {
     recipients: [String],
@@ -179,7 +226,13 @@ const analyticsSchema = new Schema<IIntegrationAnalytics>({
   uptime: {
     type: Number,
     default: 100 // percentage
-  }
+  },
+  throttledExecutions: {
+    type: Number,
+    default: 0
+  },
+  lastThrottledAt: Date,
+  lastThrottleReason: String
 }, { _id: false });
 
 // Trigger conditions schema
@@ -192,6 +245,11 @@ const triggerConditionsSchema = new Schema<ITriggerConditions>({
     },
     value: Schema.Types.Mixed
   }],
+  // Saved view the event's response must be in
+  viewId: {
+    type: Schema.Types.ObjectId,
+    ref: 'SavedView'
+  },
   minResponseTime: Number, // milliseconds
   maxResponseTime: Number,
   requiredFields: [String]
@@ -290,6 +348,8 @@ const integrationSchema = new Schema<IIntegration>({
   },
   pausedReason: String,
   pausedAt: Date,
+  // Set while deliveries are held back by the rate limit
+  throttledUntil: Date,
   
   // Analytics and monitoring
   analytics: {
@@ -339,6 +399,7 @@ integrationSchema.virtual('successRate').get(function(this: IIntegration): strin
 integrationSchema.virtual('status').get(function(this: IIntegration): string {
   if (!this.isActive) return 'inactive';
   if (this.isPaused) return 'paused';
+  if (this.throttledUntil && this.throttledUntil > new Date()) return 'throttled';
   
   const lastExecution = this.analytics.lastExecutionAt;
   if (!lastExecution) return 'never_executed';
@@ -399,7 +460,7 @@ integrationSchema.statics.findByWorkspace = function(workspaceId: string, option
 };
 
 // Instance method to execute integration
-integrationSchema.methods.execute = async function(data: any, eventType: TriggerEvent) {
+integrationSchema.methods.execute = async function(data: any, eventType: TriggerEvent, context?: IIntegrationExecutionContext) {
   const startTime = Date.now();
   
   try {
@@ -407,16 +468,23 @@ integrationSchema.methods.execute = async function(data: any, eventType: Trigger
     const shouldExecute = this.triggers.some((trigger: IIntegrationTrigger) => 
       trigger.event === eventType && 
       trigger.isActive && 
-      this.evaluateConditions(trigger.conditions, data)
+      this.evaluateConditions(trigger.conditions, data, context)
     );
     
     if (!shouldExecute) {
       return { success: true, skipped: true, reason: 'Conditions not met' };
     }
     
-    // Check rate limits
-    if (await this.isRateLimited()) {
-      throw new Error('Rate limit exceeded');
+    // Hold the event back instead of failing when a rate limit window is full
+    const rateLimitStatus: IIntegrationRateLimitStatus = await this.checkRateLimit();
+    if (rateLimitStatus.limited) {
+      await this.recordThrottle(rateLimitStatus);
+      return {
+        success: false,
+        throttled: true,
+        retryAt: rateLimitStatus.retryAt,
+        reason: this.pausedReason
+      };
     }
     
     let result;
@@ -424,19 +492,23 @@ integrationSchema.methods.execute = async function(data: any, eventType: Trigger
     // Execute based on integration type
     switch (this.type) {
       case 'webhook':
-        result = await this.executeWebhook(data);
+      case 'zapier':
+      case 'make':
+        result = await this.executeWebhook(data, context);
         break;
       case 'google_sheets':
         result = await this.executeGoogleSheets(data);
         break;
       case 'slack':
-        result = await this.executeSlack(data);
+      case 'discord':
+      case 'teams':
+        result = await this.executeChat(data, context);
         break;
       case 'stripe':
         result = await this.executeStripe(data);
         break;
       case 'email':
-        result = await this.executeEmail(data);
+        result = await this.executeEmail(data, context);
         break;
       default:
         throw new Error(`Integration type ${this.type} not implemented`);
@@ -444,20 +516,69 @@ integrationSchema.methods.execute = async function(data: any, eventType: Trigger
     
     // Update analytics
     const responseTime = Date.now() - startTime;
+    if (!this.recordsOwnExecutions()) {
+      await this.recordExecution(data, eventType, context, responseTime);
+    }
     await this.updateAnalytics(true, responseTime);
     
     return { success: true, result };
     
   } catch (error: any) {
     const responseTime = Date.now() - startTime;
+    if (!this.recordsOwnExecutions()) {
+      await this.recordExecution(data, eventType, context, responseTime, error.message);
+    }
     await this.updateAnalytics(false, responseTime, error.message);
     throw error;
   }
 };
 
+// Instance method to check whether delivery stores its own execution records (HTTP-based integrations do)
+integrationSchema.methods.recordsOwnExecutions = function(): boolean {
+  return WebhookDeliveryService.isWebhookType(this.type) || ChatNotificationService.isChatType(this.type);
+};
+
+// Instance method to store an execution of an integration that does not record its own attempts
+integrationSchema.methods.recordExecution = async function(
+  data: any,
+  eventType: TriggerEvent,
+  context: IIntegrationExecutionContext | undefined,
+  latencyMs: number,
+  error?: string
+) {
+  try {
+    await IntegrationExecution.create({
+      integrationId: this._id,
+      formId: data.formId,
+      deliveryId: context?.deliveryId || data.eventId || crypto.randomUUID(),
+      eventId: data.eventId,
+      eventType,
+      attempt: context?.attempt || 1,
+      trigger: context?.trigger || 'event',
+      status: error ? 'failed' : 'succeeded',
+      latencyMs,
+      error,
+      event: context?.storedEvent || data
+    });
+  } catch (recordError) {
+    console.error(`Error recording execution for integration ${this._id}:`, recordError);
+  }
+};
+
 // Instance method to evaluate conditions
-integrationSchema.methods.evaluateConditions = function(conditions: ITriggerConditions, data: any): boolean {
-  if (!conditions || !conditions.fieldConditions) return true;
+integrationSchema.methods.evaluateConditions = function(
+  conditions: ITriggerConditions,
+  data: any,
+  context?: IIntegrationExecutionContext
+): boolean {
+  if (!conditions) return true;
+
+  // View membership is checked when the event is dispatched
+  if (conditions.viewId && !context?.matchedViewIds?.includes(conditions.viewId.toString())) {
+    return false;
+  }
+
+  if (!conditions.fieldConditions) return true;
   
   return conditions.fieldConditions.every((condition: IFieldCondition) => {
     const fieldValue = data.responses[condition.fieldId];
@@ -485,15 +606,65 @@ integrationSchema.methods.evaluateConditions = function(conditions: ITriggerCond
   });
 };
 
+// Instance method to check recent executions against the per-minute, per-hour and per-day limits
+integrationSchema.methods.checkRateLimit = async function(): Promise<IIntegrationRateLimitStatus> {
+  const now = Date.now();
+
+  for (const { window, limitKey, durationMs } of RATE_LIMIT_WINDOWS) {
+    const limit = this.rateLimit?.[limitKey];
+    // Missing or non-positive limits mean the window is unlimited
+    if (!limit || limit <= 0) continue;
+
+    const since = new Date(now - durationMs);
+    const count = await IntegrationExecution.countSince(this._id, since);
+    if (count < limit) continue;
+
+    // The window frees up once enough of its oldest executions slide out of it
+    const oldest = await IntegrationExecution.findNthSince(this._id, since, count - limit);
+    const retryAt = new Date((oldest?.createdAt.getTime() ?? now) + durationMs);
+
+    return { limited: true, window, limit, count, retryAt };
+  }
+
+  return { limited: false };
+};
+
 // Instance method to check rate limits
 integrationSchema.methods.isRateLimited = async function(): Promise<boolean> {
-  // Implement rate limiting logic
-  // This would check recent executions against the rate limits
-  return false; // Placeholder
+  const status: IIntegrationRateLimitStatus = await this.checkRateLimit();
+  return status.limited;
+};
+
+// Instance method to record that deliveries are being held back by a rate limit
+integrationSchema.methods.recordThrottle = async function(status: IIntegrationRateLimitStatus): Promise<IIntegration> {
+  const now = new Date();
+  const reason = `Rate limit of ${status.limit} executions per ${status.window} reached; deliveries resume at ${status.retryAt!.toISOString()}`;
+
+  this.throttledUntil = status.retryAt;
+  this.analytics.throttledExecutions = (this.analytics.throttledExecutions || 0) + 1;
+  this.analytics.lastThrottledAt = now;
+  this.analytics.lastThrottleReason = reason;
+
+  // A manual pause keeps its own reason
+  if (!this.isPaused) {
+    this.pausedReason = reason;
+    this.pausedAt = now;
+  }
+
+  return this.save();
 };
 
 // Instance method to update analytics
 integrationSchema.methods.updateAnalytics = async function(success: boolean, responseTime: number, error?: string): Promise<IIntegration> {
+  // Executing again means any throttle has lifted
+  if (this.throttledUntil) {
+    this.throttledUntil = undefined;
+    if (!this.isPaused) {
+      this.pausedReason = undefined;
+      this.pausedAt = undefined;
+    }
+  }
+  
   this.analytics.totalExecutions += 1;
   this.analytics.lastExecutionAt = new Date();
   
@@ -517,31 +688,67 @@ integrationSchema.methods.updateAnalytics = async function(success: boolean, res
   return this.save();
 };
 
-// Placeholder methods for integration execution (to be implemented)
-integrationSchema.methods.executeWebhook = async function(data: any) {
-  // Implement webhook execution
-  return { message: 'Webhook executed successfully' };
+// Instance method to deliver an event to the webhook URL; throws so the queue retries failures
+integrationSchema.methods.executeWebhook = async function(data: any, context?: IIntegrationExecutionContext) {
+  const execution = await WebhookDeliveryService.deliver(this as IIntegration, data, context || {
+    deliveryId: data.eventId || crypto.randomUUID(),
+    attempt: 1
+  });
+
+  if (execution.status === 'failed') {
+    throw new Error(execution.error || 'Webhook delivery failed');
+  }
+
+  return {
+    deliveryId: execution.deliveryId,
+    statusCode: execution.response?.status,
+    latencyMs: execution.latencyMs
+  };
+};
+
+// Instance method to post an event to a Slack, Discord or Teams incoming webhook
+integrationSchema.methods.executeChat = async function(data: any, context?: IIntegrationExecutionContext) {
+  const execution = await ChatNotificationService.deliver(this as IIntegration, data, context || {
+    deliveryId: data.eventId || crypto.randomUUID(),
+    attempt: 1
+  });
+
+  if (execution.status === 'failed') {
+    throw new Error(execution.error || `${this.type} delivery failed`);
+  }
+
+  return {
+    deliveryId: execution.deliveryId,
+    statusCode: execution.response?.status,
+    latencyMs: execution.latencyMs
+  };
 };
 
+// Instance method to queue the email configured on an email integration
+integrationSchema.methods.executeEmail = async function(data: any, context?: IIntegrationExecutionContext) {
+  const emailMessage = await FormNotificationService.queueForIntegration(this as IIntegration, data, context || {
+    deliveryId: data.eventId || crypto.randomUUID(),
+    attempt: 1
+  });
+
+  return {
+    emailMessageId: emailMessage._id,
+    status: emailMessage.status
+  };
+};
+
+// Placeholder methods for integration execution (to be implemented)
+
 integrationSchema.methods.executeGoogleSheets = async function(data: any) {
   // Implement Google Sheets integration
   return { message: 'Data added to Google Sheets' };
 };
 
-integrationSchema.methods.executeSlack = async function(data: any) {
-  // Implement Slack integration
-  return { message: 'Slack notification sent' };
-};
-
 integrationSchema.methods.executeStripe = async function(data: any) {
   // Implement Stripe payment processing
   return { message: 'Payment processed' };
 };
 
-integrationSchema.methods.executeEmail = async function(data: any) {
-  // Implement email notification
-  return { message: 'Email sent successfully' };
-};
 
 // Interface for the Integration model
 interface IIntegrationModel extends Model<IIntegration> {
@@ -0,0 +1,110 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IIntegrationExecution, IntegrationExecutionTrigger } from '../types';
+
+const retentionDays = parseInt(process.env.INTEGRATION_LOG_RETENTION_DAYS || '30', 10);
+
+// Integration execution schema: one document per delivery attempt
+const integrationExecutionSchema = new Schema<IIntegrationExecution>({
+  integrationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Integration',
+    required: true
+  },
+  formId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Form'
+  },
+  // Shared by every attempt of the same delivery
+  deliveryId: {
+    type: String,
+    required: true
+  },
+  eventId: String,
+  eventType: {
+    type: String,
+    required: true
+  },
+  attempt: {
+    type: Number,
+    default: 1
+  },
+  trigger: {
+    type: String,
+    enum: ['event', 'redelivery', 'test'] as IntegrationExecutionTrigger[],
+    default: 'event'
+  },
+  redeliveryOf: String,
+  status: {
+    type: String,
+    enum: ['succeeded', 'failed'],
+    required: true
+  },
+  request: {
+    method: String,
+    url: String,
+    headers: Schema.Types.Mixed,
+    body: String
+  },
+  response: {
+    status: Number,
+    headers: Schema.Types.Mixed,
+    body: String
+  },
+  latencyMs: {
+    type: Number,
+    default: 0
+  },
+  error: String,
+  // Original event, kept so the delivery can be replayed
+  event: {
+    type: Schema.Types.Mixed,
+    required: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Indexes for logs and sliding-window counts
+integrationExecutionSchema.index({ integrationId: 1, createdAt: -1 });
+integrationExecutionSchema.index({ integrationId: 1, deliveryId: 1, attempt: -1 });
+integrationExecutionSchema.index({ createdAt: 1 }, { expireAfterSeconds: retentionDays * 24 * 60 * 60 });
+
+// Static method to get the latest attempt of a delivery
+integrationExecutionSchema.statics.findLatestAttempt = function(integrationId: string, deliveryId: string) {
+  return this.findOne({ integrationId, deliveryId }).sort({ attempt: -1, createdAt: -1 });
+};
+
+// Static method to count the executions that count against rate limits since a point in time
+integrationExecutionSchema.statics.countSince = function(integrationId: string, since: Date) {
+  return this.countDocuments({
+    integrationId,
+    trigger: { $ne: 'test' },
+    createdAt: { $gte: since }
+  });
+};
+
+// Static method to get the nth oldest rate-limited execution since a point in time
+integrationExecutionSchema.statics.findNthSince = function(integrationId: string, since: Date, n: number) {
+  return this.findOne({
+    integrationId,
+    trigger: { $ne: 'test' },
+    createdAt: { $gte: since }
+  })
+    .select('createdAt')
+    .sort({ createdAt: 1 })
+    .skip(n);
+};
+
+// Interface for the IntegrationExecution model
+interface IIntegrationExecutionModel extends Model<IIntegrationExecution> {
+  findLatestAttempt(integrationId: string, deliveryId: string): Promise<IIntegrationExecution | null>;
+  countSince(integrationId: string, since: Date): Promise<number>;
+  findNthSince(integrationId: string, since: Date, n: number): Promise<IIntegrationExecution | null>;
+}
+
+const IntegrationExecution = mongoose.model<IIntegrationExecution, IIntegrationExecutionModel>(
+  'IntegrationExecution',
+  integrationExecutionSchema
+);
+
+export default IntegrationExecution;
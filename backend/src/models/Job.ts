@@ -0,0 +1,134 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IJob, IJobBackoff, IJobAttemptError, JobStatus } from '../types';
+
+const MAX_ERROR_HISTORY = 20;
+
+// Retry backoff schema
+const backoffSchema = new Schema<IJobBackoff>({
+  strategy: {
+    type: String,
+    enum: ['fixed', 'exponential'],
+    default: 'exponential'
+  },
+  delayMs: {
+    type: Number,
+    default: 30000 // 30 seconds
+  },
+  maxDelayMs: {
+    type: Number,
+    default: 6 * 60 * 60 * 1000 // 6 hours
+  }
+}, { _id: false });
+
+// Failed attempt schema
+const attemptErrorSchema = new Schema<IJobAttemptError>({
+  attempt: Number,
+  message: String,
+  failedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+// Background job schema
+const jobSchema = new Schema<IJob>({
+  type: {
+    type: String,
+    required: [true, 'Job type is required'],
+    trim: true
+  },
+  payload: {
+    type: Schema.Types.Mixed,
+    default: () => ({})
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'processing', 'completed', 'dead_letter', 'cancelled'] as JobStatus[],
+    default: 'pending'
+  },
+  priority: {
+    type: Number,
+    default: 0
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  maxAttempts: {
+    type: Number,
+    default: 5,
+    min: 1
+  },
+  backoff: {
+    type: backoffSchema,
+    default: () => ({})
+  },
+  runAt: {
+    type: Date,
+    default: Date.now
+  },
+  // Lease held by the worker processing the job; expired leases are reclaimed
+  lockedBy: String,
+  lockedUntil: Date,
+  // Prevents the same logical job from being queued twice
+  dedupeKey: String,
+  result: Schema.Types.Mixed,
+  lastError: String,
+  errorHistory: {
+    type: [attemptErrorSchema],
+    default: []
+  },
+  startedAt: Date,
+  completedAt: Date,
+  deadLetteredAt: Date
+}, {
+  timestamps: true
+});
+
+// Indexes for claiming and inspecting jobs
+jobSchema.index({ status: 1, runAt: 1, priority: -1 });
+jobSchema.index({ status: 1, lockedUntil: 1 });
+jobSchema.index({ type: 1, status: 1, createdAt: -1 });
+jobSchema.index({ dedupeKey: 1 }, { unique: true, sparse: true });
+jobSchema.index({ completedAt: 1 }, {
+  // Completed jobs are kept for a week for inspection
+  expireAfterSeconds: 7 * 24 * 60 * 60,
+  partialFilterExpression: { status: 'completed' }
+});
+
+// Instance method to compute the delay before the next attempt
+jobSchema.methods.getRetryDelay = function(): number {
+  const { strategy, delayMs, maxDelayMs } = this.backoff;
+  const base = strategy === 'fixed' ? delayMs : delayMs * Math.pow(2, Math.max(0, this.attempts - 1));
+  // Up to 10% jitter so retries from a burst of failures spread out
+  const jitter = Math.random() * base * 0.1;
+
+  return Math.min(base + jitter, maxDelayMs || Number.MAX_SAFE_INTEGER);
+};
+
+// Instance method to record a failed attempt
+jobSchema.methods.recordFailure = function(message: string): void {
+  this.lastError = message;
+  this.errorHistory.push({ attempt: this.attempts, message, failedAt: new Date() });
+
+  if (this.errorHistory.length > MAX_ERROR_HISTORY) {
+    this.errorHistory = this.errorHistory.slice(-MAX_ERROR_HISTORY);
+  }
+};
+
+// Static method to find dead-lettered jobs
+jobSchema.statics.findDeadLettered = function(type?: string, limit: number = 50) {
+  const query: any = { status: 'dead_letter' };
+  if (type) query.type = type;
+
+  return this.find(query).sort({ deadLetteredAt: -1 }).limit(limit);
+};
+
+// Interface for the Job model
+interface IJobModel extends Model<IJob> {
+  findDeadLettered(type?: string, limit?: number): Promise<IJob[]>;
+}
+
+const Job = mongoose.model<IJob, IJobModel>('Job', jobSchema);
+
+export default Job;
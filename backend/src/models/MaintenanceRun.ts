@@ -0,0 +1,91 @@
+import mongoose, { Schema } from 'mongoose';
+import {
+  IMaintenanceLogEntry,
+  IMaintenanceProgress,
+  IMaintenanceRun,
+  MaintenanceOperation,
+  MaintenanceRunStatus
+} from '../types';
+
+export const MAINTENANCE_OPERATIONS: MaintenanceOperation[] = [
+  'cleanup_expired_sessions', 'cleanup_orphaned_uploads', 'optimize_database', 'clear_cache', 'generate_reports'
+];
+export const MAINTENANCE_RUN_STATUSES: MaintenanceRunStatus[] = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+
+// Log line schema
+const maintenanceLogEntrySchema = new Schema<IMaintenanceLogEntry>({
+  at: {
+    type: Date,
+    default: Date.now
+  },
+  level: {
+    type: String,
+    enum: ['info', 'warn', 'error'],
+    default: 'info'
+  },
+  message: {
+    type: String,
+    required: true
+  }
+}, { _id: false });
+
+const maintenanceProgressSchema = new Schema<IMaintenanceProgress>({
+  processed: { type: Number, default: 0 },
+  total: { type: Number, default: 0 },
+  percent: { type: Number, default: 0 }
+}, { _id: false });
+
+// Maintenance run schema: one admin maintenance operation run as a background job,
+// with its progress, log and outcome
+const maintenanceRunSchema = new Schema<IMaintenanceRun>({
+  operation: {
+    type: String,
+    enum: MAINTENANCE_OPERATIONS,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: MAINTENANCE_RUN_STATUSES,
+    default: 'queued'
+  },
+  // Set while queued or running, and unset once finished
+  active: Boolean,
+  jobId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Job'
+  },
+  requestedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  progress: {
+    type: maintenanceProgressSchema,
+    default: () => ({})
+  },
+  logs: {
+    type: [maintenanceLogEntrySchema],
+    default: []
+  },
+  result: Schema.Types.Mixed,
+  error: String,
+  cancelRequestedAt: Date,
+  cancelledBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  startedAt: Date,
+  completedAt: Date,
+  durationMs: Number
+}, {
+  timestamps: true
+});
+
+// Only one queued or running copy of each operation
+maintenanceRunSchema.index({ operation: 1 }, { unique: true, partialFilterExpression: { active: true } });
+maintenanceRunSchema.index({ createdAt: -1 });
+maintenanceRunSchema.index({ operation: 1, status: 1, createdAt: -1 });
+
+const MaintenanceRun = mongoose.model<IMaintenanceRun>('MaintenanceRun', maintenanceRunSchema);
+
+export default MaintenanceRun;
@@ -1,5 +1,6 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import { IPartialSubmission } from '../types';
+import FieldEncryptionService from '../services/FieldEncryptionService';
 
 export interface IPartialSubmissionDocument extends Omit<IPartialSubmission, '_id'>, Document {
   timeRemaining: number;
@@ -260,6 +261,18 @@ PartialSubmissionSchema.pre('save', function(this: IPartialSubmissionDocument, n
   next();
 });
 
+// Encrypt answers to sensitive fields, as for submitted responses; saved progress is
+// decrypted only for the respondent resuming it
+PartialSubmissionSchema.pre('save', async function(this: IPartialSubmissionDocument) {
+  if (!this.isModified('responses')) return;
+
+  const Form = mongoose.model('Form');
+  const form = await Form.findById(this.formId).select('fields userId workspaceId');
+  if (!form) return;
+
+  this.responses = await FieldEncryptionService.encryptAnswers(form, this.responses, this._id as mongoose.Types.ObjectId);
+});
+
 // Pre-remove middleware (for cleanup logging)
 PartialSubmissionSchema.pre('deleteOne', { document: true, query: false }, function(this: IPartialSubmissionDocument, next) {
   console.log(`Cleaning up partial submission ${this._id} for form ${this.formId}`);
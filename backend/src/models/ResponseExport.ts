@@ -0,0 +1,81 @@
+import mongoose, { Schema } from 'mongoose';
+import { IResponseExport, IResponseExportProgress, ResponseExportFormat, ResponseExportStatus } from '../types';
+
+export const RESPONSE_EXPORT_FORMATS: ResponseExportFormat[] = ['excel', 'pdf', 'csv'];
+export const RESPONSE_EXPORT_STATUSES: ResponseExportStatus[] = ['queued', 'running', 'completed', 'failed', 'expired'];
+
+const responseExportProgressSchema = new Schema<IResponseExportProgress>({
+  processed: { type: Number, default: 0 },
+  total: { type: Number, default: 0 },
+  percent: { type: Number, default: 0 }
+}, { _id: false });
+
+// Response export schema: one export of a form's responses, generated as a background job
+// and kept in file storage until it expires
+const responseExportSchema = new Schema<IResponseExport>({
+  formId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Form',
+    required: true
+  },
+  requestedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  format: {
+    type: String,
+    enum: RESPONSE_EXPORT_FORMATS,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: RESPONSE_EXPORT_STATUSES,
+    default: 'queued'
+  },
+  params: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  options: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  jobId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Job'
+  },
+  progress: {
+    type: responseExportProgressSchema,
+    default: () => ({})
+  },
+  filename: String,
+  mimeType: String,
+  storageKey: String,
+  size: Number,
+  recordCount: Number,
+  error: String,
+  startedAt: Date,
+  completedAt: Date,
+  expiresAt: Date,
+  downloadCount: {
+    type: Number,
+    default: 0
+  },
+  lastDownloadedAt: Date
+}, {
+  timestamps: true
+});
+
+// Indexes for history lists and expiry sweeps
+responseExportSchema.index({ formId: 1, createdAt: -1 });
+responseExportSchema.index({ requestedBy: 1, createdAt: -1 });
+responseExportSchema.index({ status: 1, expiresAt: 1 });
+responseExportSchema.index({ createdAt: 1 }, {
+  // History is kept for 90 days; files are removed when they expire
+  expireAfterSeconds: 90 * 24 * 60 * 60
+});
+
+const ResponseExport = mongoose.model<IResponseExport>('ResponseExport', responseExportSchema);
+
+export default ResponseExport;
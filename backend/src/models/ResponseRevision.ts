@@ -0,0 +1,79 @@
+import mongoose, { Schema, Model, Query } from 'mongoose';
+import { IResponseFieldChange, IResponseRevision, ResponseEditMode } from '../types';
+
+// Field change schema: before/after are omitted when the field had no answer
+const fieldChangeSchema = new Schema<IResponseFieldChange>({
+  fieldId: {
+    type: String,
+    required: true
+  },
+  label: {
+    type: String,
+    required: true
+  },
+  before: Schema.Types.Mixed,
+  after: Schema.Types.Mixed,
+  // Set for calculated fields that changed because their inputs did
+  calculated: Boolean
+}, { _id: false });
+
+// Response revision schema: one document per edit of a submitted response
+const responseRevisionSchema = new Schema<IResponseRevision>({
+  responseId: {
+    type: Schema.Types.ObjectId,
+    ref: 'FormResponse',
+    required: true
+  },
+  formId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Form',
+    required: true
+  },
+  // Matches FormResponse.revision after the edit
+  revision: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  editedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  mode: {
+    type: String,
+    enum: ['replace', 'merge'] as ResponseEditMode[],
+    required: true
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot be more than 500 characters']
+  },
+  changes: {
+    type: [fieldChangeSchema],
+    default: []
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for history lookups
+responseRevisionSchema.index({ responseId: 1, revision: -1 }, { unique: true });
+responseRevisionSchema.index({ formId: 1, createdAt: -1 });
+
+// Static method to list the revisions of a response, newest first
+responseRevisionSchema.statics.findByResponse = function(responseId: string) {
+  return this.find({ responseId })
+    .sort({ revision: -1 })
+    .populate('editedBy', 'firstName lastName email');
+};
+
+// Interface for the ResponseRevision model
+interface IResponseRevisionModel extends Model<IResponseRevision> {
+  findByResponse(responseId: string): Query<IResponseRevision[], IResponseRevision>;
+}
+
+const ResponseRevision = mongoose.model<IResponseRevision, IResponseRevisionModel>('ResponseRevision', responseRevisionSchema);
+
+export default ResponseRevision;
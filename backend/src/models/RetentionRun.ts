@@ -0,0 +1,93 @@
+import mongoose, { Schema } from 'mongoose';
+import { IRetentionFormResult, IRetentionRun, IRetentionRunTotals, RetentionRunStatus, RetentionRunTrigger } from '../types';
+
+// Per-form result schema: only forms where the run changed something are listed
+const retentionFormResultSchema = new Schema<IRetentionFormResult>({
+  formId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Form',
+    required: true
+  },
+  workspaceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace'
+  },
+  title: String,
+  deleted: {
+    type: Number,
+    default: 0
+  },
+  anonymized: {
+    type: Number,
+    default: 0
+  },
+  // Responses edited while the run worked on them; they are picked up by the next run
+  skipped: {
+    type: Number,
+    default: 0
+  },
+  filesRemoved: {
+    type: Number,
+    default: 0
+  }
+}, { _id: false });
+
+const retentionRunTotalsSchema = new Schema<IRetentionRunTotals>({
+  forms: { type: Number, default: 0 },
+  deleted: { type: Number, default: 0 },
+  anonymized: { type: Number, default: 0 },
+  skipped: { type: Number, default: 0 },
+  filesRemoved: { type: Number, default: 0 }
+}, { _id: false });
+
+// Retention run schema: the record of one pass of the data retention job, kept as
+// evidence that retention settings are enforced
+const retentionRunSchema = new Schema<IRetentionRun>({
+  trigger: {
+    type: String,
+    enum: ['scheduled', 'manual'] as RetentionRunTrigger[],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['running', 'completed', 'failed'] as RetentionRunStatus[],
+    default: 'running'
+  },
+  jobId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Job'
+  },
+  requestedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now
+  },
+  completedAt: Date,
+  // Forms with a retention setting, whether or not anything was due
+  formsChecked: {
+    type: Number,
+    default: 0
+  },
+  forms: {
+    type: [retentionFormResultSchema],
+    default: []
+  },
+  totals: {
+    type: retentionRunTotalsSchema,
+    default: () => ({})
+  },
+  error: String
+}, {
+  timestamps: true
+});
+
+// Indexes for listing runs, overall and per workspace
+retentionRunSchema.index({ startedAt: -1 });
+retentionRunSchema.index({ 'forms.workspaceId': 1, startedAt: -1 });
+
+const RetentionRun = mongoose.model<IRetentionRun>('RetentionRun', retentionRunSchema);
+
+export default RetentionRun;
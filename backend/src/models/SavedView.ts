@@ -0,0 +1,113 @@
+import mongoose, { Schema, Model, Query, Types } from 'mongoose';
+import { RESPONSE_WORKFLOW_STATUSES } from './FormResponse';
+import { ISavedView, ISavedViewCriteria, SavedViewVisibility } from '../types';
+
+// Response criteria schema: the same parameters the responses list accepts
+const criteriaSchema = new Schema<ISavedViewCriteria>({
+  status: [{
+    type: String,
+    enum: RESPONSE_WORKFLOW_STATUSES
+  }],
+  tags: [String],
+  // 'me' resolves to whoever uses the view; integrations use its creator
+  assignedTo: String,
+  hasNotes: Boolean,
+  // Field filter expression, checked against the form by ResponseFilterService
+  filter: Schema.Types.Mixed,
+  search: {
+    type: String,
+    maxlength: [200, 'Search cannot be more than 200 characters']
+  },
+  datePreset: String,
+  startDate: Date,
+  endDate: Date
+}, { _id: false });
+
+// Saved view schema: a named filter, column set and sort for a form's responses
+const savedViewSchema = new Schema<ISavedView>({
+  formId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Form',
+    required: true
+  },
+  workspaceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace'
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: [true, 'View name is required'],
+    trim: true,
+    maxlength: [100, 'View name cannot be more than 100 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot be more than 500 characters']
+  },
+  visibility: {
+    type: String,
+    enum: ['private', 'workspace'] as SavedViewVisibility[],
+    default: 'private'
+  },
+  criteria: {
+    type: criteriaSchema,
+    default: () => ({})
+  },
+  // Field IDs and response columns (submittedAt, status, tags, assignedTo, notes), in display order
+  columns: {
+    type: [String],
+    default: []
+  },
+  sortBy: {
+    type: String,
+    default: 'submittedAt'
+  },
+  order: {
+    type: String,
+    enum: ['asc', 'desc'],
+    default: 'desc'
+  },
+  pageSize: {
+    type: Number,
+    default: 20,
+    min: [1, 'Page size must be at least 1'],
+    max: [100, 'Page size cannot be more than 100']
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for listing a form's views
+savedViewSchema.index({ formId: 1, createdBy: 1 });
+savedViewSchema.index({ formId: 1, visibility: 1 });
+
+// Static method to list the views of a form a user can see: their own and shared ones
+savedViewSchema.statics.findVisible = function(formId: string | Types.ObjectId, userId: string | Types.ObjectId) {
+  return this.find({
+    formId,
+    $or: [{ createdBy: userId }, { visibility: 'workspace' }]
+  })
+    .sort({ name: 1 })
+    .populate('createdBy', 'firstName lastName email');
+};
+
+// Instance method to check whether a user can see the view
+savedViewSchema.methods.isVisibleTo = function(userId: string | Types.ObjectId): boolean {
+  const createdBy = this.createdBy?._id || this.createdBy;
+  return this.visibility === 'workspace' || createdBy.toString() === userId.toString();
+};
+
+// Interface for the SavedView model
+interface ISavedViewModel extends Model<ISavedView> {
+  findVisible(formId: string | Types.ObjectId, userId: string | Types.ObjectId): Query<ISavedView[], ISavedView>;
+}
+
+const SavedView = mongoose.model<ISavedView, ISavedViewModel>('SavedView', savedViewSchema);
+
+export default SavedView;
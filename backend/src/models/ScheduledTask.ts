@@ -0,0 +1,43 @@
+import mongoose, { Schema } from 'mongoose';
+import { IScheduledTask, ScheduledTaskRunStatus } from '../types';
+
+export const SCHEDULED_TASK_RUN_STATUSES: ScheduledTaskRunStatus[] = ['running', 'completed', 'failed', 'skipped'];
+
+// Scheduled task schema: the settings and state of one recurring task, shared by all server instances
+const scheduledTaskSchema = new Schema<IScheduledTask>({
+  name: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  intervalMinutes: {
+    type: Number,
+    required: true,
+    min: [1, 'Interval must be at least 1 minute']
+  },
+  paused: {
+    type: Boolean,
+    default: false
+  },
+  pausedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  pausedAt: Date,
+  // Lease taken by the instance running the task, renewed while it runs
+  lockedBy: String,
+  lockedUntil: Date,
+  lastRunAt: Date,
+  lastStatus: {
+    type: String,
+    enum: SCHEDULED_TASK_RUN_STATUSES
+  },
+  lastError: String,
+  lastDurationMs: Number
+}, {
+  timestamps: true
+});
+
+const ScheduledTask = mongoose.model<IScheduledTask>('ScheduledTask', scheduledTaskSchema);
+
+export default ScheduledTask;
@@ -0,0 +1,52 @@
+import mongoose, { Schema } from 'mongoose';
+import { IScheduledTaskRun, ScheduledTaskRunTrigger } from '../types';
+import { SCHEDULED_TASK_RUN_STATUSES } from './ScheduledTask';
+
+const TRIGGERS: ScheduledTaskRunTrigger[] = ['scheduled', 'manual'];
+
+// Scheduled task run schema: one run of a recurring task, or a run skipped because another was in progress
+const scheduledTaskRunSchema = new Schema<IScheduledTaskRun>({
+  task: {
+    type: String,
+    required: true
+  },
+  trigger: {
+    type: String,
+    enum: TRIGGERS,
+    default: 'scheduled'
+  },
+  status: {
+    type: String,
+    enum: SCHEDULED_TASK_RUN_STATUSES,
+    default: 'running'
+  },
+  jobId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Job'
+  },
+  requestedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now
+  },
+  completedAt: Date,
+  durationMs: Number,
+  result: Schema.Types.Mixed,
+  error: String
+}, {
+  timestamps: true
+});
+
+// Indexes for run history
+scheduledTaskRunSchema.index({ task: 1, startedAt: -1 });
+scheduledTaskRunSchema.index({ startedAt: 1 }, {
+  // Run history is kept for 30 days
+  expireAfterSeconds: 30 * 24 * 60 * 60
+});
+
+const ScheduledTaskRun = mongoose.model<IScheduledTaskRun>('ScheduledTaskRun', scheduledTaskRunSchema);
+
+export default ScheduledTaskRun;
@@ -130,7 +130,7 @@ const formFieldSchema = new Schema<IFormField>({
       defaultCountry: String
     },
     fileUpload: {
-      maxFileSize: { type: Number, default: 10 },
+      maxFileSize: { type: Number, default: 10485760 }, // Bytes
       allowedTypes: [String],
       maxFiles: { type: Number, default: 1 }
     },
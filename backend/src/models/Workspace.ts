@@ -516,8 +516,12 @@ workspaceSchema.methods.updateAnalytics = async function(): Promise<IWorkspace>
     formId: { $in: formIds }
   });
   
-  // Calculate storage used (approximate)
-  const storageUsed = Math.round(totalResponses * 0.1); // Rough estimate: 0.1MB per response
+  // Calculate storage used by uploaded files, in MB
+  const [storage] = await FormResponse.aggregate([
+    { $match: { formId: { $in: formIds } } },
+    { $group: { _id: null, bytes: { $sum: '$uploadSize' } } }
+  ]);
+  const storageUsed = (storage?.bytes || 0) / (1024 * 1024);
   
   this.analytics = {
     totalForms: forms.length,
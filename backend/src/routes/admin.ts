@@ -3,8 +3,13 @@ import { protect, AuthenticatedRequest } from '../middleware/auth';
 import { requireAdmin, requirePermission, requireSuperuser } from '../middleware/adminAuth';
 import { apiRateLimit } from '../middleware/rateLimiting';
 import { withValidation } from '../middleware/validation';
-import { query } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import AdminDashboardService from '../services/AdminDashboardService';
+import DataRetentionService from '../services/DataRetentionService';
+import MaintenanceService, { MaintenanceError } from '../services/MaintenanceService';
+import SchedulerService, { ScheduledTaskNotFoundError, SchedulerError } from '../services/SchedulerService';
+import { MAINTENANCE_OPERATIONS, MAINTENANCE_RUN_STATUSES } from '../models/MaintenanceRun';
+import { MaintenanceOperation, MaintenanceRunStatus } from '../types';
 
 const router = express.Router();
 
@@ -18,6 +23,45 @@ const validateTimeRange = [
     .withMessage('Time range must be 7d, 30d, 90d, or 1y'),
 ];
 
+const validateMaintenance = [
+  body('operation')
+    .isIn(MAINTENANCE_OPERATIONS)
+    .withMessage('Invalid maintenance operation'),
+];
+
+const validateJobQuery = [
+  query('operation')
+    .optional()
+    .isIn(MAINTENANCE_OPERATIONS)
+    .withMessage('Invalid maintenance operation'),
+
+  query('status')
+    .optional()
+    .isIn(MAINTENANCE_RUN_STATUSES)
+    .withMessage('Invalid job status'),
+];
+
+const validateJobId = [
+  param('runId')
+    .isMongoId()
+    .withMessage('Invalid job ID'),
+];
+
+const validateTaskName = [
+  param('name')
+    .matches(/^[a-z0-9_.]+$/)
+    .withMessage('Invalid task name'),
+];
+
+const validateTaskUpdate = [
+  ...validateTaskName,
+
+  body('intervalMinutes')
+    .isInt({ min: 1, max: 43200 })
+    .withMessage('Interval must be between 1 and 43200 minutes')
+    .toInt(),
+];
+
 /**
  * @route   GET /api/admin/overview
  * @desc    Get platform overview metrics
@@ -200,44 +244,398 @@ router.get('/stats/summary', protect, requirePermission('canViewMetrics'), apiRa
 
 /**
  * @route   POST /api/admin/maintenance
- * @desc    Trigger maintenance operations
+ * @desc    Queue a maintenance operation as a background job
  * @access  Admin only
  */
-router.post('/maintenance', protect, requirePermission('canPerformMaintenance'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.post('/maintenance', protect, requirePermission('canPerformMaintenance'), withValidation(validateMaintenance), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const { operation } = req.body;
-
-    switch (operation) {
-      case 'cleanup_expired_sessions':
-        // Implement session cleanup
-        break;
-      case 'optimize_database':
-        // Implement database optimization
-        break;
-      case 'clear_cache':
-        // Implement cache clearing
-        break;
-      case 'generate_reports':
-        // Implement report generation
-        break;
-      default:
-        res.status(400).json({
-          success: false,
-          message: 'Invalid maintenance operation'
-        });
-        return;
+    const run = await MaintenanceService.start(req.body.operation as MaintenanceOperation, req.user!._id);
+
+    res.status(202).json({
+      success: true,
+      message: `Maintenance operation '${run.operation}' queued`,
+      data: run
+    });
+  } catch (error: any) {
+    if (error instanceof MaintenanceError) {
+      res.status(409).json({
+        success: false,
+        message: error.message
+      });
+      return;
     }
+    console.error('Admin maintenance error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error queueing maintenance operation'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/admin/jobs
+ * @desc    List maintenance jobs with their status, progress and duration
+ * @access  Admin only
+ */
+router.get('/jobs', protect, requirePermission('canViewLogs'), apiRateLimit, withValidation(validateJobQuery), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { operation, status, page = '1', limit = '20' } = req.query;
+    const { runs, total } = await MaintenanceService.list({
+      operation: operation as MaintenanceOperation | undefined,
+      status: status as MaintenanceRunStatus | undefined,
+      page: parseInt(page as string, 10),
+      limit: parseInt(limit as string, 10)
+    });
 
     res.status(200).json({
       success: true,
-      message: `Maintenance operation '${operation}' completed successfully`,
-      timestamp: new Date()
+      data: {
+        jobs: runs,
+        total
+      }
     });
   } catch (error: any) {
-    console.error('Admin maintenance error:', error);
+    console.error('Admin jobs error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching maintenance jobs'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/admin/jobs/:runId
+ * @desc    Get a maintenance job with its log
+ * @access  Admin only
+ */
+router.get('/jobs/:runId', protect, requirePermission('canViewLogs'), apiRateLimit, withValidation(validateJobId), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const run = await MaintenanceService.findById(req.params.runId);
+    if (!run) {
+      res.status(404).json({
+        success: false,
+        message: 'Maintenance job not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: run
+    });
+  } catch (error: any) {
+    console.error('Admin job error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching maintenance job'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/admin/jobs/:runId/cancel
+ * @desc    Cancel a queued maintenance job, or stop a running one after its current batch
+ * @access  Admin only
+ */
+router.post('/jobs/:runId/cancel', protect, requirePermission('canPerformMaintenance'), withValidation(validateJobId), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const run = await MaintenanceService.findById(req.params.runId);
+    if (!run) {
+      res.status(404).json({
+        success: false,
+        message: 'Maintenance job not found'
+      });
+      return;
+    }
+
+    const updated = await MaintenanceService.cancel(run, req.user!._id);
+
+    res.status(200).json({
+      success: true,
+      message: updated.status === 'cancelled' ? 'Maintenance job cancelled' : 'Maintenance job will stop after its current batch',
+      data: updated
+    });
+  } catch (error: any) {
+    if (error instanceof MaintenanceError) {
+      res.status(409).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+    console.error('Admin job cancel error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error cancelling maintenance job'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/admin/retention/runs
+ * @desc    List data retention runs with their counts
+ * @access  Admin only
+ */
+router.get('/retention/runs', protect, requirePermission('canViewLogs'), apiRateLimit, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { page = '1', limit = '20' } = req.query;
+    const { runs, total } = await DataRetentionService.listRuns({
+      page: parseInt(page as string, 10),
+      limit: parseInt(limit as string, 10)
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        runs,
+        total
+      }
+    });
+  } catch (error: any) {
+    console.error('Admin retention runs error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching retention runs'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/admin/retention/run
+ * @desc    Queue a data retention run outside the schedule
+ * @access  Admin only
+ */
+router.post('/retention/run', protect, requirePermission('canPerformMaintenance'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const job = await DataRetentionService.runNow(req.user!._id);
+
+    res.status(202).json({
+      success: true,
+      message: 'Data retention run queued',
+      data: {
+        jobId: job._id
+      }
+    });
+  } catch (error: any) {
+    console.error('Admin retention run error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error queueing retention run'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/admin/scheduler/tasks
+ * @desc    List scheduled tasks with their interval, state and next and last runs
+ * @access  Admin only
+ */
+router.get('/scheduler/tasks', protect, requirePermission('canViewLogs'), apiRateLimit, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const tasks = await SchedulerService.list();
+
+    res.status(200).json({
+      success: true,
+      data: tasks
+    });
+  } catch (error: any) {
+    console.error('Admin scheduler tasks error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching scheduled tasks'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/admin/scheduler/tasks/:name/runs
+ * @desc    List a scheduled task's runs, newest first
+ * @access  Admin only
+ */
+router.get('/scheduler/tasks/:name/runs', protect, requirePermission('canViewLogs'), apiRateLimit, withValidation(validateTaskName), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { page = '1', limit = '20' } = req.query;
+    const { runs, total } = await SchedulerService.getHistory(req.params.name, {
+      page: parseInt(page as string, 10),
+      limit: parseInt(limit as string, 10)
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        runs,
+        total
+      }
+    });
+  } catch (error: any) {
+    if (error instanceof ScheduledTaskNotFoundError) {
+      res.status(404).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+    if (error instanceof SchedulerError) {
+      res.status(409).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+    console.error('Admin scheduler runs error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching scheduled task runs'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/admin/scheduler/tasks/:name
+ * @desc    Change how often a scheduled task runs
+ * @access  Admin only
+ */
+router.put('/scheduler/tasks/:name', protect, requirePermission('canManageSystem'), withValidation(validateTaskUpdate), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const task = await SchedulerService.setInterval(req.params.name, req.body.intervalMinutes);
+
+    res.status(200).json({
+      success: true,
+      message: `Scheduled task '${task.name}' now runs every ${task.intervalMinutes} minute(s)`,
+      data: task
+    });
+  } catch (error: any) {
+    if (error instanceof ScheduledTaskNotFoundError) {
+      res.status(404).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+    if (error instanceof SchedulerError) {
+      res.status(409).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+    console.error('Admin scheduler update error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating scheduled task'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/admin/scheduler/tasks/:name/pause
+ * @desc    Pause a scheduled task's scheduled runs
+ * @access  Admin only
+ */
+router.post('/scheduler/tasks/:name/pause', protect, requirePermission('canManageSystem'), withValidation(validateTaskName), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const task = await SchedulerService.pause(req.params.name, req.user!._id);
+
+    res.status(200).json({
+      success: true,
+      message: `Scheduled task '${task.name}' paused`,
+      data: task
+    });
+  } catch (error: any) {
+    if (error instanceof ScheduledTaskNotFoundError) {
+      res.status(404).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+    if (error instanceof SchedulerError) {
+      res.status(409).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+    console.error('Admin scheduler pause error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error pausing scheduled task'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/admin/scheduler/tasks/:name/resume
+ * @desc    Resume a paused scheduled task
+ * @access  Admin only
+ */
+router.post('/scheduler/tasks/:name/resume', protect, requirePermission('canManageSystem'), withValidation(validateTaskName), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const task = await SchedulerService.resume(req.params.name);
+
+    res.status(200).json({
+      success: true,
+      message: `Scheduled task '${task.name}' resumed`,
+      data: task
+    });
+  } catch (error: any) {
+    if (error instanceof ScheduledTaskNotFoundError) {
+      res.status(404).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+    if (error instanceof SchedulerError) {
+      res.status(409).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+    console.error('Admin scheduler resume error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error resuming scheduled task'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/admin/scheduler/tasks/:name/run
+ * @desc    Queue a run of a scheduled task outside its schedule
+ * @access  Admin only
+ */
+router.post('/scheduler/tasks/:name/run', protect, requirePermission('canPerformMaintenance'), withValidation(validateTaskName), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const job = await SchedulerService.trigger(req.params.name, req.user!._id);
+
+    res.status(202).json({
+      success: true,
+      message: `Scheduled task '${req.params.name}' queued`,
+      data: {
+        jobId: job._id
+      }
+    });
+  } catch (error: any) {
+    if (error instanceof ScheduledTaskNotFoundError) {
+      res.status(404).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+    if (error instanceof SchedulerError) {
+      res.status(409).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+    console.error('Admin scheduler run error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error performing maintenance operation'
+      message: 'Error queueing scheduled task'
     });
   }
 });
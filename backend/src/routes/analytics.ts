@@ -2,6 +2,7 @@ import express, { Response } from 'express';
 import { protect, AuthenticatedRequest } from '../middleware/auth';
 import Form from '../models/Form';
 import FormResponse from '../models/FormResponse';
+import FieldEncryptionService from '../services/FieldEncryptionService';
 import mongoose from 'mongoose';
 
 const router = express.Router();
@@ -188,6 +189,11 @@ router.get('/export', protect, async (req: AuthenticatedRequest, res: Response):
       .populate('formId', 'title')
       .sort({ submittedAt: -1 });
 
+    // Only the user's own forms are exported, so sensitive answers are included decrypted
+    for (const response of analyticsData) {
+      response.responses = await FieldEncryptionService.decryptAnswers(response.responses || {}, response._id);
+    }
+
     if (format === 'csv') {
       const csvData = formatAnalyticsAsCSV(analyticsData);
       res.setHeader('Content-Type', 'text/csv');
@@ -4,6 +4,7 @@ import { withValidation } from '../middleware/validation';
 import { body } from 'express-validator';
 import Form from '../models/Form';
 import CalculatorService from '../services/CalculatorService';
+import FormulaEvaluator from '../services/FormulaEvaluator';
 
 const router = express.Router();
 
@@ -68,12 +69,13 @@ router.post('/process', withValidation(validateCalculation), async (req: express
 
 /**
  * @route   POST /api/calculator/validate
- * @desc    Validate calculation configuration for a form
+ * @desc    Validate calculation configuration for a form, or a single draft formula
+ *          when `formula` is provided. Errors include the character position.
  * @access  Private
  */
 router.post('/validate', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const { formId } = req.body;
+    const { formId, formula } = req.body;
 
     const form = await Form.findOne({ _id: formId, userId: req.user!._id });
     if (!form) {
@@ -84,6 +86,16 @@ router.post('/validate', protect, async (req: AuthenticatedRequest, res: Respons
       return;
     }
 
+    if (typeof formula === 'string') {
+      const fieldIds = new Set(form.fields.map(field => field.id));
+
+      res.status(200).json({
+        success: true,
+        data: FormulaEvaluator.validate(formula, fieldIds)
+      });
+      return;
+    }
+
     const validation = CalculatorService.validateCalculations(form.fields);
 
     res.status(200).json({
@@ -2,8 +2,10 @@ import express, { Response } from 'express';
 import { protect, AuthenticatedRequest } from '../middleware/auth';
 import { withValidation } from '../middleware/validation';
 import { query, param } from 'express-validator';
-import Form from '../models/Form';
 import ChartVisualizationService, { IChartMetric, ITimeGrouping, IWidgetType } from '../services/ChartVisualizationService';
+import FieldEncryptionService from '../services/FieldEncryptionService';
+import ResponseAccessService from '../services/ResponseAccessService';
+import SavedViewService from '../services/SavedViewService';
 
 const router = express.Router();
 
@@ -55,8 +57,7 @@ router.get('/time-series/:formId', protect, withValidation(validateChartRequest)
       endDate
     } = req.query;
 
-    // Verify form ownership
-    const form = await Form.findOne({ _id: formId, userId: req.user!._id });
+    const form = await ResponseAccessService.findForm(formId, req.user!._id);
     if (!form) {
       res.status(404).json({
         success: false,
@@ -101,8 +102,7 @@ router.get('/device-distribution/:formId', protect, async (req: AuthenticatedReq
     const { formId } = req.params;
     const { startDate, endDate } = req.query;
 
-    // Verify form ownership
-    const form = await Form.findOne({ _id: formId, userId: req.user!._id });
+    const form = await ResponseAccessService.findForm(formId, req.user!._id);
     if (!form) {
       res.status(404).json({
         success: false,
@@ -172,8 +172,7 @@ router.get('/conversion-funnel/:formId', protect, async (req: AuthenticatedReque
     const { formId } = req.params;
     const { startDate, endDate } = req.query;
 
-    // Verify form ownership
-    const form = await Form.findOne({ _id: formId, userId: req.user!._id });
+    const form = await ResponseAccessService.findForm(formId, req.user!._id);
     if (!form) {
       res.status(404).json({
         success: false,
@@ -204,16 +203,15 @@ router.get('/conversion-funnel/:formId', protect, async (req: AuthenticatedReque
 
 /**
  * @route   GET /api/charts/activity-heatmap/:formId
- * @desc    Generate activity heatmap chart
+ * @desc    Generate activity heatmap chart, optionally for the responses in a saved view (`viewId`)
  * @access  Private
  */
 router.get('/activity-heatmap/:formId', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { formId } = req.params;
-    const { startDate, endDate } = req.query;
+    const { startDate, endDate, viewId } = req.query;
 
-    // Verify form ownership
-    const form = await Form.findOne({ _id: formId, userId: req.user!._id });
+    const form = await ResponseAccessService.findForm(formId, req.user!._id);
     if (!form) {
       res.status(404).json({
         success: false,
@@ -227,7 +225,20 @@ router.get('/activity-heatmap/:formId', protect, async (req: AuthenticatedReques
       end: endDate ? new Date(endDate as string) : new Date()
     };
 
-    const chartData = await ChartVisualizationService.generateActivityHeatmapChart(formId, dateRange);
+    let query: Record<string, any> | undefined;
+    if (viewId) {
+      const { filter, error } = await SavedViewService.resolveQuery(form, { viewId: String(viewId) }, req.user!._id);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: error
+        });
+        return;
+      }
+      query = filter;
+    }
+
+    const chartData = await ChartVisualizationService.generateActivityHeatmapChart(formId, dateRange, query);
 
     res.status(200).json({
       success: true,
@@ -242,6 +253,62 @@ router.get('/activity-heatmap/:formId', protect, async (req: AuthenticatedReques
   }
 });
 
+/**
+ * @route   GET /api/charts/field-breakdown/:formId
+ * @desc    Generate a bar chart of the answers to a field (`fieldId`), optionally for the
+ *          responses in a saved view (`viewId`)
+ * @access  Private
+ */
+router.get('/field-breakdown/:formId', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { fieldId, viewId } = req.query;
+
+    const form = await ResponseAccessService.findForm(req.params.formId, req.user!._id);
+    if (!form) {
+      res.status(404).json({
+        success: false,
+        message: 'Form not found or access denied'
+      });
+      return;
+    }
+
+    const field = form.fields.find(item => item.id === fieldId);
+    if (!field || /[.$]/.test(field.id) || FieldEncryptionService.getSensitiveFieldIds(form).has(field.id) || ['password', 'file', 'signature', 'payment', 'matrix', 'address'].includes(field.type)) {
+      res.status(400).json({
+        success: false,
+        message: 'Choose a field whose answers can be charted'
+      });
+      return;
+    }
+
+    const { filter, error } = await SavedViewService.resolveQuery(
+      form,
+      { viewId: viewId ? String(viewId) : undefined },
+      req.user!._id
+    );
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error
+      });
+      return;
+    }
+
+    const chartData = await ChartVisualizationService.generateFieldBreakdownChart(form, field, filter!);
+
+    res.status(200).json({
+      success: true,
+      data: chartData
+    });
+  } catch (error: any) {
+    console.error('Generate field breakdown chart error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error generating field breakdown chart'
+    });
+  }
+});
+
 /**
  * @route   GET /api/charts/dashboard-widget
  * @desc    Generate dashboard widget data
@@ -320,8 +387,7 @@ router.get('/form/:formId/complete-analytics', protect, async (req: Authenticate
     const { formId } = req.params;
     const { startDate, endDate } = req.query;
 
-    // Verify form ownership
-    const form = await Form.findOne({ _id: formId, userId: req.user!._id });
+    const form = await ResponseAccessService.findForm(formId, req.user!._id);
     if (!form) {
       res.status(404).json({
         success: false,
@@ -382,8 +448,8 @@ router.get('/export/:formId', protect, async (req: AuthenticatedRequest, res: Re
     const { formId } = req.params;
     const { format = 'json', chartType = 'time-series' } = req.query;
 
-    // Verify form ownership
-    const form = await Form.findOne({ _id: formId, userId: req.user!._id });
+    // Workspace members need permission to export data
+    const form = await ResponseAccessService.findForm(formId, req.user!._id, 'exportData');
     if (!form) {
       res.status(404).json({
         success: false,
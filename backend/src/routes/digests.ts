@@ -0,0 +1,378 @@
+import express, { Response } from 'express';
+import { body, param, query } from 'express-validator';
+import { protect, AuthenticatedRequest } from '../middleware/auth';
+import { withValidation } from '../middleware/validation';
+import { DIGEST_CHANNELS, DIGEST_FORMATS, DIGEST_FREQUENCIES, DIGEST_SCOPES } from '../models/DigestSubscription';
+import DigestService, { DigestError, DigestTargetNotFoundError } from '../services/DigestService';
+import { IDigestSubscriptionInput } from '../types';
+
+const router = express.Router();
+
+// Validation middleware
+const validateSubscriptionId = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid digest ID'),
+];
+
+const validateSettings = [
+  body('frequency')
+    .optional()
+    .isIn(DIGEST_FREQUENCIES)
+    .withMessage(`Frequency must be one of: ${DIGEST_FREQUENCIES.join(', ')}`),
+
+  body('timezone')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Timezone must be an IANA timezone name'),
+
+  body('sendHour')
+    .optional()
+    .isInt({ min: 0, max: 23 })
+    .withMessage('Send hour must be between 0 and 23')
+    .toInt(),
+
+  body('dayOfWeek')
+    .optional()
+    .isInt({ min: 0, max: 6 })
+    .withMessage('Day of week must be between 0 (Sunday) and 6 (Saturday)')
+    .toInt(),
+
+  body('dayOfMonth')
+    .optional()
+    .isInt({ min: 1, max: 28 })
+    .withMessage('Day of month must be between 1 and 28')
+    .toInt(),
+
+  body('format')
+    .optional()
+    .isIn(DIGEST_FORMATS)
+    .withMessage(`Format must be one of: ${DIGEST_FORMATS.join(', ')}`),
+
+  body('channel')
+    .optional()
+    .isIn(DIGEST_CHANNELS)
+    .withMessage(`Channel must be one of: ${DIGEST_CHANNELS.join(', ')}`),
+
+  body('recipients')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('Recipients must be an array of at most 20 email addresses'),
+
+  body('recipients.*')
+    .isEmail()
+    .withMessage('Recipients must be valid email addresses')
+    .normalizeEmail(),
+
+  body('webhookUrl')
+    .optional()
+    .isURL({ protocols: ['http', 'https'], require_protocol: true })
+    .withMessage('Webhook URL must be an http(s) URL'),
+
+  body('active')
+    .optional()
+    .isBoolean()
+    .withMessage('Active must be a boolean')
+    .toBoolean(),
+];
+
+const validateCreate = [
+  body('scope')
+    .isIn(DIGEST_SCOPES)
+    .withMessage(`Scope must be one of: ${DIGEST_SCOPES.join(', ')}`),
+
+  body('formId')
+    .if(body('scope').equals('form'))
+    .isMongoId()
+    .withMessage('Form digests need a valid formId'),
+
+  body('workspaceId')
+    .if(body('scope').equals('workspace'))
+    .isMongoId()
+    .withMessage('Workspace digests need a valid workspaceId'),
+
+  ...validateSettings,
+];
+
+const validateList = [
+  query('formId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid form ID'),
+
+  query('workspaceId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid workspace ID'),
+];
+
+const validatePreview = [
+  ...validateSubscriptionId,
+
+  query('format')
+    .optional()
+    .isIn(['html', 'pdf', 'json'])
+    .withMessage('Format must be one of: html, pdf, json'),
+];
+
+const SETTINGS_FIELDS = [
+  'frequency', 'timezone', 'sendHour', 'dayOfWeek', 'dayOfMonth', 'format', 'channel', 'recipients', 'webhookUrl', 'active'
+] as const;
+
+const pickSettings = (input: Record<string, any>): IDigestSubscriptionInput => {
+  const settings: Record<string, any> = {};
+  SETTINGS_FIELDS.forEach(field => {
+    if (input[field] !== undefined) settings[field] = input[field];
+  });
+  return settings;
+};
+
+/**
+ * @route   GET /api/digests
+ * @desc    List the user's analytics digests
+ * @access  Private
+ */
+router.get('/', protect, withValidation(validateList), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const subscriptions = await DigestService.list(req.user!._id, {
+      formId: req.query.formId as string | undefined,
+      workspaceId: req.query.workspaceId as string | undefined
+    });
+
+    res.status(200).json({
+      success: true,
+      data: subscriptions
+    });
+  } catch (error: any) {
+    console.error('List digests error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching digests'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/digests
+ * @desc    Subscribe to a daily, weekly or monthly analytics digest for a form or workspace
+ * @access  Private
+ */
+router.post('/', protect, withValidation(validateCreate), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const subscription = await DigestService.create(
+      { scope: req.body.scope, formId: req.body.formId, workspaceId: req.body.workspaceId, ...pickSettings(req.body) },
+      req.user!._id
+    );
+
+    res.status(201).json({
+      success: true,
+      message: subscription.channel === 'webhook'
+        ? 'Digest created. Save the webhook secret to verify deliveries.'
+        : 'Digest created successfully',
+      data: subscription
+    });
+  } catch (error: any) {
+    if (error instanceof DigestTargetNotFoundError) {
+      res.status(404).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+    if (error instanceof DigestError) {
+      res.status(400).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+    console.error('Create digest error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error creating digest'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/digests/:id
+ * @desc    Get an analytics digest
+ * @access  Private
+ */
+router.get('/:id', protect, withValidation(validateSubscriptionId), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const subscription = await DigestService.findForUser(req.params.id, req.user!._id);
+    if (!subscription) {
+      res.status(404).json({
+        success: false,
+        message: 'Digest not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: subscription
+    });
+  } catch (error: any) {
+    console.error('Get digest error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching digest'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/digests/:id
+ * @desc    Change an analytics digest's schedule or delivery
+ * @access  Private
+ */
+router.put('/:id', protect, withValidation([...validateSubscriptionId, ...validateSettings]), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const subscription = await DigestService.findForUser(req.params.id, req.user!._id);
+    if (!subscription) {
+      res.status(404).json({
+        success: false,
+        message: 'Digest not found'
+      });
+      return;
+    }
+
+    const updated = await DigestService.update(subscription, pickSettings(req.body));
+
+    res.status(200).json({
+      success: true,
+      message: 'Digest updated successfully',
+      data: updated
+    });
+  } catch (error: any) {
+    if (error instanceof DigestError) {
+      res.status(400).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+    console.error('Update digest error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating digest'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/digests/:id
+ * @desc    Unsubscribe from an analytics digest
+ * @access  Private
+ */
+router.delete('/:id', protect, withValidation(validateSubscriptionId), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const subscription = await DigestService.findForUser(req.params.id, req.user!._id);
+    if (!subscription) {
+      res.status(404).json({
+        success: false,
+        message: 'Digest not found'
+      });
+      return;
+    }
+
+    await DigestService.remove(subscription);
+
+    res.status(200).json({
+      success: true,
+      message: 'Digest deleted successfully'
+    });
+  } catch (error: any) {
+    console.error('Delete digest error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting digest'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/digests/:id/preview
+ * @desc    Render the digest for the last complete period as HTML, PDF or JSON
+ * @access  Private
+ */
+router.get('/:id/preview', protect, withValidation(validatePreview), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const subscription = await DigestService.findForUser(req.params.id, req.user!._id);
+    if (!subscription) {
+      res.status(404).json({
+        success: false,
+        message: 'Digest not found'
+      });
+      return;
+    }
+
+    const report = await DigestService.buildReport(subscription, DigestService.getPeriod(subscription, new Date()));
+
+    switch (req.query.format) {
+      case 'json':
+        res.status(200).json({
+          success: true,
+          data: report
+        });
+        return;
+      case 'pdf':
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', 'inline; filename="digest-preview.pdf"');
+        res.status(200).send(await DigestService.renderPdf(report));
+        return;
+      default:
+        res.status(200).type('html').send(DigestService.renderHtml(report));
+    }
+  } catch (error: any) {
+    if (error instanceof DigestTargetNotFoundError) {
+      res.status(404).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+    console.error('Preview digest error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error rendering digest'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/digests/:id/send
+ * @desc    Send the digest for the last complete period now
+ * @access  Private
+ */
+router.post('/:id/send', protect, withValidation(validateSubscriptionId), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const subscription = await DigestService.findForUser(req.params.id, req.user!._id);
+    if (!subscription) {
+      res.status(404).json({
+        success: false,
+        message: 'Digest not found'
+      });
+      return;
+    }
+
+    const job = await DigestService.sendNow(subscription);
+
+    res.status(202).json({
+      success: true,
+      message: 'Digest queued for sending',
+      data: { jobId: job._id }
+    });
+  } catch (error: any) {
+    console.error('Send digest error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error queuing digest'
+    });
+  }
+});
+
+export default router;
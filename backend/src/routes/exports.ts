@@ -3,8 +3,10 @@ import { protect, AuthenticatedRequest } from '../middleware/auth';
 import { withValidation } from '../middleware/validation';
 import { body, query, param } from 'express-validator';
 import { exportRateLimit } from '../middleware/rateLimiting';
-import ExportService from '../services/ExportService';
-import Form from '../models/Form';
+import ExportService, { ExportError, MAX_EXPORT_RECORDS } from '../services/ExportService';
+import FileStorageService from '../services/FileStorageService';
+import ResponseAccessService from '../services/ResponseAccessService';
+import { IResponseExportOptions, ResponseExportFormat } from '../types';
 
 const router = express.Router();
 
@@ -27,8 +29,8 @@ const validateExportRequest = [
   
   query('limit')
     .optional()
-    .isInt({ min: 1, max: 50000 })
-    .withMessage('Limit must be between 1 and 50000'),
+    .isInt({ min: 1, max: MAX_EXPORT_RECORDS.csv })
+    .withMessage(`Limit must be between 1 and ${MAX_EXPORT_RECORDS.csv}`),
   
   query('includeMetadata')
     .optional()
@@ -44,6 +46,21 @@ const validateExportRequest = [
     .optional()
     .isBoolean()
     .withMessage('includeAnalysis must be boolean'),
+
+  query('filter')
+    .optional()
+    .isJSON()
+    .withMessage('filter must be a JSON filter expression'),
+
+  query('search')
+    .optional()
+    .isLength({ max: 200 })
+    .withMessage('search cannot be more than 200 characters'),
+
+  query('viewId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid saved view ID'),
 ];
 
 const validateBulkExportRequest = [
@@ -71,19 +88,57 @@ const validateBulkExportRequest = [
     .optional()
     .isArray()
     .withMessage('filters must be an array'),
+
+  body('options.filter')
+    .optional()
+    .isObject()
+    .withMessage('filter must be a filter expression'),
+
+  body('options.limit')
+    .optional()
+    .isInt({ min: 1, max: MAX_EXPORT_RECORDS.csv })
+    .withMessage(`limit must be between 1 and ${MAX_EXPORT_RECORDS.csv}`)
+    .toInt(),
+];
+
+const validateListExports = [
+  query('formId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid form ID'),
+
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer')
+    .toInt(),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100')
+    .toInt(),
+];
+
+const validateExportId = [
+  param('exportId')
+    .isMongoId()
+    .withMessage('Invalid export ID'),
 ];
 
 /**
- * @route   GET /api/exports/:formId/excel
- * @desc    Export form responses to Excel format
- * @access  Private
+ * Queue a background export of a form's responses and answer 202 with the export to poll
  */
-router.get('/:formId/excel', protect, exportRateLimit, withValidation(validateExportRequest), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+const startExport = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  format: ResponseExportFormat,
+  params: Record<string, any>,
+  options: IResponseExportOptions
+): Promise<void> => {
   try {
-    const { formId } = req.params;
-    
-    // Verify form ownership
-    const form = await Form.findOne({ _id: formId, userId: req.user!._id });
+    // Workspace members need permission to export data
+    const form = await ResponseAccessService.findForm(req.params.formId, req.user!._id, 'exportData');
     if (!form) {
       res.status(404).json({
         success: false,
@@ -92,218 +147,198 @@ router.get('/:formId/excel', protect, exportRateLimit, withValidation(validateEx
       return;
     }
 
-    // Parse query parameters
-    const options = {
-      format: 'excel' as const,
-      dateFrom: req.query.dateFrom as string,
-      dateTo: req.query.dateTo as string,
-      selectedFields: req.query.selectedFields ? String(req.query.selectedFields).split(',') : undefined,
-      includeMetadata: req.query.includeMetadata === 'true',
-      includeSummary: req.query.includeSummary === 'true',
-      includeAnalysis: req.query.includeAnalysis === 'true',
-      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined
-    };
-
-    const result = await ExportService.exportToExcel(formId, options);
+    const responseExport = await ExportService.queueExport(form, format, params, options, req.user!._id);
 
-    if (result.success && result.data) {
-      res.setHeader('Content-Type', result.data.mimeType);
-      res.setHeader('Content-Disposition', `attachment; filename="${result.data.filename}"`);
-      res.setHeader('Content-Length', result.data.size);
-      res.setHeader('X-Export-Records', result.data.recordCount);
-      res.setHeader('X-Export-Date', result.data.exportedAt.toISOString());
-      
-      res.send(result.data.buffer);
-    } else {
+    res.setHeader('Location', `/api/exports/jobs/${responseExport._id}`);
+    res.status(202).json({
+      success: true,
+      message: 'Export queued. You will get an email with a download link when it is ready.',
+      data: responseExport
+    });
+  } catch (error: any) {
+    if (error instanceof ExportError) {
       res.status(400).json({
         success: false,
-        message: result.error || 'Export failed'
+        message: error.message
       });
+      return;
     }
-  } catch (error: any) {
-    console.error('Excel export error:', error);
+    console.error(`${format.toUpperCase()} export error:`, error);
     res.status(500).json({
       success: false,
-      message: 'Error exporting to Excel'
+      message: 'Error queuing export'
     });
   }
+};
+
+/**
+ * Read export options from query string parameters
+ */
+const getQueryOptions = (params: Record<string, any>): IResponseExportOptions => ({
+  selectedFields: params.selectedFields ? String(params.selectedFields).split(',') : undefined,
+  includeMetadata: params.includeMetadata === 'true',
+  includeSummary: params.includeSummary === 'true',
+  includeAnalysis: params.includeAnalysis === 'true',
+  limit: params.limit ? parseInt(params.limit as string) : undefined
 });
 
 /**
- * @route   GET /api/exports/:formId/pdf
- * @desc    Export form responses to PDF format
+ * @route   GET /api/exports/jobs
+ * @desc    List your exports, newest first
  * @access  Private
  */
-router.get('/:formId/pdf', protect, exportRateLimit, withValidation(validateExportRequest), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.get('/jobs', protect, withValidation(validateListExports), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const { formId } = req.params;
-    
-    // Verify form ownership
-    const form = await Form.findOne({ _id: formId, userId: req.user!._id });
-    if (!form) {
-      res.status(404).json({
-        success: false,
-        message: 'Form not found or access denied'
-      });
-      return;
-    }
-
-    // Parse query parameters
-    const options = {
-      format: 'pdf' as const,
-      dateFrom: req.query.dateFrom as string,
-      dateTo: req.query.dateTo as string,
-      selectedFields: req.query.selectedFields ? String(req.query.selectedFields).split(',') : undefined,
-      includeMetadata: req.query.includeMetadata === 'true',
-      includeSummary: req.query.includeSummary === 'true',
-      includeAnalysis: req.query.includeAnalysis === 'true',
-      limit: req.query.limit ? parseInt(req.query.limit as string) : 50 // Lower default for PDF
-    };
-
-    const result = await ExportService.exportToPDF(formId, options);
+    const { exports, total } = await ExportService.listExports(req.user!._id, {
+      formId: req.query.formId as string | undefined,
+      page: req.query.page as unknown as number,
+      limit: req.query.limit as unknown as number
+    });
 
-    if (result.success && result.data) {
-      res.setHeader('Content-Type', result.data.mimeType);
-      res.setHeader('Content-Disposition', `attachment; filename="${result.data.filename}"`);
-      res.setHeader('Content-Length', result.data.size);
-      res.setHeader('X-Export-Records', result.data.recordCount);
-      res.setHeader('X-Export-Date', result.data.exportedAt.toISOString());
-      
-      res.send(result.data.buffer);
-    } else {
-      res.status(400).json({
-        success: false,
-        message: result.error || 'Export failed'
-      });
-    }
+    res.status(200).json({
+      success: true,
+      data: { exports, total }
+    });
   } catch (error: any) {
-    console.error('PDF export error:', error);
+    console.error('List exports error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error exporting to PDF'
+      message: 'Error fetching exports'
     });
   }
 });
 
 /**
- * @route   GET /api/exports/:formId/csv
- * @desc    Export form responses to CSV format
+ * @route   GET /api/exports/jobs/:exportId
+ * @desc    Get an export's status and progress, with a download link once it is ready
  * @access  Private
  */
-router.get('/:formId/csv', protect, exportRateLimit, withValidation(validateExportRequest), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.get('/jobs/:exportId', protect, withValidation(validateExportId), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const { formId } = req.params;
-    
-    // Verify form ownership
-    const form = await Form.findOne({ _id: formId, userId: req.user!._id });
-    if (!form) {
+    const responseExport = await ExportService.findForUser(req.params.exportId, req.user!._id);
+    if (!responseExport) {
       res.status(404).json({
         success: false,
-        message: 'Form not found or access denied'
+        message: 'Export not found'
       });
       return;
     }
 
-    // Parse query parameters
-    const options = {
-      format: 'csv' as const,
-      dateFrom: req.query.dateFrom as string,
-      dateTo: req.query.dateTo as string,
-      selectedFields: req.query.selectedFields ? String(req.query.selectedFields).split(',') : undefined,
-      includeMetadata: req.query.includeMetadata === 'true',
-      includeSummary: req.query.includeSummary === 'true',
-      includeAnalysis: req.query.includeAnalysis === 'true',
-      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined
-    };
-
-    const result = await ExportService.exportToCSV(formId, options);
-
-    if (result.success && result.data) {
-      res.setHeader('Content-Type', result.data.mimeType);
-      res.setHeader('Content-Disposition', `attachment; filename="${result.data.filename}"`);
-      res.setHeader('Content-Length', result.data.size);
-      res.setHeader('X-Export-Records', result.data.recordCount);
-      res.setHeader('X-Export-Date', result.data.exportedAt.toISOString());
-      
-      res.send(result.data.buffer);
-    } else {
-      res.status(400).json({
-        success: false,
-        message: result.error || 'Export failed'
-      });
-    }
+    res.status(200).json({
+      success: true,
+      data: {
+        ...responseExport.toObject(),
+        download: ExportService.getDownloadLink(responseExport)
+      }
+    });
   } catch (error: any) {
-    console.error('CSV export error:', error);
+    console.error('Get export error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error exporting to CSV'
+      message: 'Error fetching export'
     });
   }
 });
 
 /**
- * @route   POST /api/exports/:formId/bulk
- * @desc    Bulk export with advanced options
+ * @route   GET /api/exports/jobs/:exportId/download
+ * @desc    Download a finished export
  * @access  Private
  */
-router.post('/:formId/bulk', protect, withValidation(validateBulkExportRequest), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.get('/jobs/:exportId/download', protect, withValidation(validateExportId), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const { formId } = req.params;
-    const { format, options = {} } = req.body;
-    
-    // Verify form ownership
-    const form = await Form.findOne({ _id: formId, userId: req.user!._id });
-    if (!form) {
+    const responseExport = await ExportService.findForUser(req.params.exportId, req.user!._id);
+    if (!responseExport) {
       res.status(404).json({
         success: false,
-        message: 'Form not found or access denied'
+        message: 'Export not found'
       });
       return;
     }
 
-    let result;
-    
-    switch (format) {
-      case 'excel':
-        result = await ExportService.exportToExcel(formId, { format, ...options });
-        break;
-      case 'pdf':
-        result = await ExportService.exportToPDF(formId, { format, ...options });
-        break;
-      case 'csv':
-        result = await ExportService.exportToCSV(formId, { format, ...options });
-        break;
-      default:
-        res.status(400).json({
-          success: false,
-          message: 'Invalid export format'
-        });
-        return;
+    if (responseExport.status === 'expired') {
+      res.status(410).json({
+        success: false,
+        message: 'This export has expired; export the responses again'
+      });
+      return;
     }
 
-    if (result.success && result.data) {
-      res.setHeader('Content-Type', result.data.mimeType);
-      res.setHeader('Content-Disposition', `attachment; filename="${result.data.filename}"`);
-      res.setHeader('Content-Length', result.data.size);
-      res.setHeader('X-Export-Records', result.data.recordCount);
-      res.setHeader('X-Export-Date', result.data.exportedAt.toISOString());
-      
-      res.send(result.data.buffer);
-    } else {
-      res.status(400).json({
+    if (responseExport.status !== 'completed' || !responseExport.storageKey) {
+      res.status(409).json({
         success: false,
-        message: result.error || 'Export failed'
+        message: `The export is ${responseExport.status}`
+      });
+      return;
+    }
+
+    await ExportService.recordDownload(responseExport);
+    const sent = await FileStorageService.sendFile(res, {
+      storageKey: responseExport.storageKey,
+      filename: responseExport.filename!,
+      originalName: responseExport.filename!,
+      mimetype: responseExport.mimeType!
+    });
+
+    if (!sent) {
+      res.status(404).json({
+        success: false,
+        message: 'File not found'
       });
     }
   } catch (error: any) {
-    console.error('Bulk export error:', error);
+    console.error('Download export error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error performing bulk export'
+      message: 'Error downloading export'
     });
   }
 });
 
+/**
+ * @route   GET /api/exports/:formId/excel
+ * @desc    Queue an export of form responses to Excel format
+ * @access  Private
+ */
+router.get('/:formId/excel', protect, exportRateLimit, withValidation(validateExportRequest), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  await startExport(req, res, 'excel', req.query, getQueryOptions(req.query));
+});
+
+/**
+ * @route   GET /api/exports/:formId/pdf
+ * @desc    Queue an export of form responses to PDF format
+ * @access  Private
+ */
+router.get('/:formId/pdf', protect, exportRateLimit, withValidation(validateExportRequest), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  await startExport(req, res, 'pdf', req.query, getQueryOptions(req.query));
+});
+
+/**
+ * @route   GET /api/exports/:formId/csv
+ * @desc    Queue an export of form responses to CSV format
+ * @access  Private
+ */
+router.get('/:formId/csv', protect, exportRateLimit, withValidation(validateExportRequest), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  await startExport(req, res, 'csv', req.query, getQueryOptions(req.query));
+});
+
+/**
+ * @route   POST /api/exports/:formId/bulk
+ * @desc    Queue an export with advanced options
+ * @access  Private
+ */
+router.post('/:formId/bulk', protect, exportRateLimit, withValidation(validateBulkExportRequest), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { format, options = {} } = req.body;
+
+  await startExport(req, res, format, options, {
+    selectedFields: options.selectedFields,
+    includeMetadata: !!options.includeMetadata,
+    includeSummary: !!options.includeSummary,
+    includeAnalysis: !!options.includeAnalysis,
+    limit: options.limit
+  });
+});
+
 /**
  * @route   GET /api/exports/:formId/stats
  * @desc    Get export statistics and capabilities
@@ -313,8 +348,8 @@ router.get('/:formId/stats', protect, async (req: AuthenticatedRequest, res: Res
   try {
     const { formId } = req.params;
     
-    // Verify form ownership
-    const form = await Form.findOne({ _id: formId, userId: req.user!._id });
+    // Workspace members need permission to export data
+    const form = await ResponseAccessService.findForm(formId, req.user!._id, 'exportData');
     if (!form) {
       res.status(404).json({
         success: false,
@@ -348,8 +383,8 @@ router.get('/:formId/preview', protect, async (req: AuthenticatedRequest, res: R
     const { formId } = req.params;
     const { format = 'csv' } = req.query;
     
-    // Verify form ownership
-    const form = await Form.findOne({ _id: formId, userId: req.user!._id });
+    // Workspace members need permission to export data
+    const form = await ResponseAccessService.findForm(formId, req.user!._id, 'exportData');
     if (!form) {
       res.status(404).json({
         success: false,
@@ -358,12 +393,25 @@ router.get('/:formId/preview', protect, async (req: AuthenticatedRequest, res: R
       return;
     }
 
+    const { query, sort, selectedFields, error } = await ExportService.resolveQuery(form, req.query, req.user!._id);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error
+      });
+      return;
+    }
+
     // Get preview with limited records
     const options = {
+      query,
+      sort,
+      selectedFields,
       limit: 10,
       includeMetadata: true,
       includeSummary: false,
-      includeAnalysis: false
+      includeAnalysis: false,
+      viewerId: req.user!._id
     };
 
     let result;
@@ -419,7 +467,7 @@ router.get('/formats', async (req: express.Request, res: Response): Promise<void
         name: 'Microsoft Excel',
         extension: 'xlsx',
         mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-        maxRecords: 10000,
+        maxRecords: MAX_EXPORT_RECORDS.excel,
         features: {
           multipleSheets: true,
           formatting: true,
@@ -434,7 +482,7 @@ router.get('/formats', async (req: express.Request, res: Response): Promise<void
         name: 'Portable Document Format',
         extension: 'pdf',
         mimeType: 'application/pdf',
-        maxRecords: 1000,
+        maxRecords: MAX_EXPORT_RECORDS.pdf,
         features: {
           multipleSheets: false,
           formatting: true,
@@ -449,7 +497,7 @@ router.get('/formats', async (req: express.Request, res: Response): Promise<void
         name: 'Comma Separated Values',
         extension: 'csv',
         mimeType: 'text/csv',
-        maxRecords: 50000,
+        maxRecords: MAX_EXPORT_RECORDS.csv,
         features: {
           multipleSheets: false,
           formatting: false,
@@ -4,10 +4,14 @@ import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import Form from '../models/Form';
 import FormResponse from '../models/FormResponse';
+import EmailMessage from '../models/EmailMessage';
 import { protect, AuthenticatedRequest } from '../middleware/auth';
 import { validateForm, withValidation } from '../middleware/validation';
 import { apiRateLimit, uploadRateLimit } from '../middleware/rateLimiting';
-import { IForm, IFormField } from '../types';
+import FieldEncryptionService from '../services/FieldEncryptionService';
+import FormAccessService from '../services/FormAccessService';
+import ResponseAccessService from '../services/ResponseAccessService';
+import { EmailMessageStatus, IForm, IFormField } from '../types';
 
 const router = express.Router();
 
@@ -92,7 +96,8 @@ router.get('/', protect, apiRateLimit, async (req: AuthenticatedRequest, res: Re
         // Check if form has responses but analytics shows 0 submissions
         const actualSubmissionCount = await FormResponse.countDocuments({
           formId: form._id,
-          isValid: true
+          isValid: true,
+          status: { $ne: 'spam' }
         });
         
         if (actualSubmissionCount !== form.analytics.submissions) {
@@ -138,11 +143,8 @@ router.get('/', protect, apiRateLimit, async (req: AuthenticatedRequest, res: Re
  */
 router.get('/:id', protect, apiRateLimit, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const form = await Form.findOne({
-      _id: req.params.id,
-      userId: req.user!._id,
-      isActive: true
-    }).populate('responseCount');
+    // Workspace members who can view responses may read the form too
+    const form = await ResponseAccessService.findForm(req.params.id, req.user!._id);
 
     if (!form) {
       res.status(404).json({
@@ -152,6 +154,8 @@ router.get('/:id', protect, apiRateLimit, async (req: AuthenticatedRequest, res:
       return;
     }
 
+    await (form as any).populate('responseCount');
+
     res.status(200).json({
       success: true,
       data: form
@@ -171,9 +175,103 @@ interface CreateFormBody {
   description?: string;
   fields: IFormField[];
   customization?: any;
+  settings?: Record<string, any>;
   isPublic?: boolean;
 }
 
+/**
+ * @route   GET /api/forms/:id/availability
+ * @desc    Check whether a form is currently accepting responses
+ * @access  Private
+ */
+router.get('/:id/availability', protect, apiRateLimit, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const form = await Form.findOne({
+      _id: req.params.id,
+      userId: req.user!._id,
+      isActive: true
+    });
+
+    if (!form) {
+      res.status(404).json({
+        success: false,
+        message: 'Form not found'
+      });
+      return;
+    }
+
+    const availability = await FormAccessService.checkAvailability(form);
+    const responseCount = await FormResponse.countDocuments({ formId: form._id, isValid: true });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...availability,
+        responseCount
+      }
+    });
+  } catch (error: any) {
+    console.error('Get form availability error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error checking form availability'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/forms/:id/emails
+ * @desc    Get notification and autoresponder emails sent for a form, with their delivery status
+ * @access  Private
+ */
+router.get('/:id/emails', protect, apiRateLimit, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { page = '1', limit = '20', status, responseId } = req.query as Record<string, string>;
+
+    const form = await Form.findOne({
+      _id: req.params.id,
+      userId: req.user!._id
+    }).select('_id');
+
+    if (!form) {
+      res.status(404).json({
+        success: false,
+        message: 'Form not found'
+      });
+      return;
+    }
+
+    const pageNumber = Math.max(1, parseInt(page) || 1);
+    const pageSize = Math.min(100, Math.max(1, parseInt(limit) || 20));
+    const query = EmailMessage.findByForm(form._id.toString(), {
+      status: status as EmailMessageStatus | undefined,
+      responseId
+    });
+
+    const [emails, total] = await Promise.all([
+      query.clone().skip((pageNumber - 1) * pageSize).limit(pageSize),
+      query.clone().countDocuments()
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: emails,
+      pagination: {
+        page: pageNumber,
+        pages: Math.ceil(total / pageSize),
+        total,
+        limit: pageSize
+      }
+    });
+  } catch (error: any) {
+    console.error('Get form emails error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching form emails'
+    });
+  }
+});
+
 /**
  * @route   POST /api/forms
  * @desc    Create new form
@@ -181,7 +279,18 @@ interface CreateFormBody {
  */
 router.post('/', protect, apiRateLimit, withValidation(validateForm), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const { title, description, fields, customization, isPublic = true }: CreateFormBody = req.body;
+    const { title, description, fields, customization, settings, isPublic = true }: CreateFormBody = req.body;
+
+    let preparedSettings;
+    try {
+      preparedSettings = settings ? await FormAccessService.prepareSettings({}, settings) : undefined;
+    } catch (settingsError: any) {
+      res.status(400).json({
+        success: false,
+        message: settingsError.message
+      });
+      return;
+    }
 
     // Add user ID to form data
     const formData = {
@@ -193,11 +302,15 @@ router.post('/', protect, apiRateLimit, withValidation(validateForm), async (req
         order: index
       })),
       customization: customization || {},
+      ...(preparedSettings && { settings: preparedSettings }),
       isPublic,
       userId: req.user!._id
     };
 
     const form = await Form.create(formData);
+    if (form.settings?.passwordProtection) {
+      form.settings.passwordProtection.password = undefined;
+    }
 
     res.status(201).json({
       success: true,
@@ -220,13 +333,13 @@ router.post('/', protect, apiRateLimit, withValidation(validateForm), async (req
  */
 router.put('/:id', protect, withValidation(validateForm), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const { title, description, fields, customization, isPublic }: CreateFormBody = req.body;
+    const { title, description, fields, customization, settings, isPublic }: CreateFormBody = req.body;
 
     const form = await Form.findOne({
       _id: req.params.id,
       userId: req.user!._id,
       isActive: true
-    });
+    }).select('+settings.passwordProtection.password');
 
     if (!form) {
       res.status(404).json({
@@ -236,6 +349,19 @@ router.put('/:id', protect, withValidation(validateForm), async (req: Authentica
       return;
     }
 
+    let preparedSettings;
+    try {
+      preparedSettings = settings
+        ? await FormAccessService.prepareSettings((form.toObject() as any).settings, settings)
+        : undefined;
+    } catch (settingsError: any) {
+      res.status(400).json({
+        success: false,
+        message: settingsError.message
+      });
+      return;
+    }
+
     // Update form fields
     const updateData = {
       title,
@@ -246,6 +372,7 @@ router.put('/:id', protect, withValidation(validateForm), async (req: Authentica
         order: index
       })),
       customization: { ...form.customization, ...customization },
+      ...(preparedSettings && { settings: preparedSettings }),
       isPublic
     };
 
@@ -255,6 +382,12 @@ router.put('/:id', protect, withValidation(validateForm), async (req: Authentica
       { new: true, runValidators: true }
     );
 
+    // Answers stored before a field was marked sensitive are encrypted in the background
+    const sensitiveBefore = FieldEncryptionService.getSensitiveFieldIds(form);
+    if (updatedForm && Array.from(FieldEncryptionService.getSensitiveFieldIds(updatedForm)).some(fieldId => !sensitiveBefore.has(fieldId))) {
+      await FieldEncryptionService.scheduleReencryption(FieldEncryptionService.getScope(updatedForm));
+    }
+
     res.status(200).json({
       success: true,
       message: 'Form updated successfully',
@@ -439,7 +572,10 @@ router.get('/:id/analytics', protect, async (req: AuthenticatedRequest, res: Res
       totalSubmissions: form.analytics.submissions,
       conversionRate: (form as any).conversionRate,
       responseAnalytics,
-      recentResponses: recentResponses.map((response: any) => response.getFormattedData())
+      recentResponses: await Promise.all(recentResponses.map(async (response: any) => ({
+        ...response.getFormattedData(),
+        responses: await FieldEncryptionService.decryptAnswers(response.responses || {}, response._id)
+      })))
     };
 
     res.status(200).json({
@@ -477,7 +613,7 @@ router.post('/:id/sync-analytics', protect, async (req: AuthenticatedRequest, re
     }
 
     // Sync analytics
-    const updatedForm = await (Form as any).syncFormAnalytics(form._id);
+    const updatedForm = (await Form.syncFormAnalytics(form._id))!;
 
     res.status(200).json({
       success: true,
@@ -512,11 +648,12 @@ router.post('/sync-all-analytics', protect, async (req: AuthenticatedRequest, re
       return;
     }
 
-    await (Form as any).recalculateAnalytics();
+    const result = await Form.recalculateAnalytics();
 
     res.status(200).json({
       success: true,
-      message: 'All form analytics synced successfully'
+      message: 'All form analytics synced successfully',
+      data: result
     });
   } catch (error: any) {
     console.error('Sync all analytics error:', error);
@@ -1,9 +1,26 @@
 import express, { Response } from 'express';
 import { protect, AuthenticatedRequest } from '../middleware/auth';
+import { requirePermission } from '../middleware/adminAuth';
 import { withValidation } from '../middleware/validation';
 import { body, query, param } from 'express-validator';
 import { gdprRateLimit } from '../middleware/rateLimiting';
 import GDPRComplianceService from '../services/GDPRComplianceService';
+import DataRetentionService from '../services/DataRetentionService';
+import GDPRAuditService from '../services/GDPRAuditService';
+import DataSubjectRequestService, { DataSubjectRequestError } from '../services/DataSubjectRequestService';
+import ConsentLedgerService, { ConsentLedgerError, ConsentRecordNotFoundError } from '../services/ConsentLedgerService';
+import { GDPR_AUDIT_ACTIONS } from '../models/GDPRAuditEntry';
+import { GDPR_CONSENT_TYPES } from '../models/ConsentRecord';
+import { DATA_SUBJECT_REQUEST_TYPES, DATA_SUBJECT_VERIFICATION_METHODS } from '../models/DataSubjectRequest';
+import {
+  ConsentRecordStatus,
+  DataSubjectRequestStatus,
+  GDPRAuditAction,
+  IConsentFilters,
+  IDataSubjectRequest,
+  IGDPRAuditFilters,
+  IGDPRConsentType
+} from '../types';
 import Form from '../models/Form';
 import crypto from 'crypto';
 
@@ -12,7 +29,7 @@ const router = express.Router();
 // Validation middleware
 const validateConsentRecord = [
   body('consentType')
-    .isIn(['data_processing', 'marketing', 'analytics', 'cookies', 'third_party_sharing'])
+    .isIn(GDPR_CONSENT_TYPES)
     .withMessage('Invalid consent type'),
   
   body('purpose')
@@ -32,6 +49,16 @@ const validateConsentRecord = [
   body('consentMethod')
     .isIn(['checkbox', 'button_click', 'form_submission', 'email_confirmation'])
     .withMessage('Invalid consent method'),
+
+  body('consentData.formId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid form ID'),
+
+  body('consentData.responseId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid response ID'),
 ];
 
 const validateAccessRequest = [
@@ -95,6 +122,189 @@ const validatePortabilityRequest = [
     .withMessage('Invalid verification method'),
 ];
 
+const validateAuditQuery = [
+  query('subject')
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Subject must be a user ID or email'),
+
+  query('formId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid form ID'),
+
+  query('action')
+    .optional()
+    .isIn(GDPR_AUDIT_ACTIONS)
+    .withMessage('Invalid audit action'),
+
+  query('startDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Start date must be a valid date'),
+
+  query('endDate')
+    .optional()
+    .isISO8601()
+    .withMessage('End date must be a valid date'),
+
+  query('format')
+    .optional()
+    .isIn(['json', 'csv'])
+    .withMessage('Format must be json or csv'),
+];
+
+const validateConsentQuery = [
+  query('consentType')
+    .optional()
+    .isIn(GDPR_CONSENT_TYPES)
+    .withMessage('Invalid consent type'),
+
+  query('version')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Version must be a positive integer'),
+
+  query('status')
+    .optional()
+    .isIn(['active', 'revoked', 'refused'])
+    .withMessage('Status must be active, revoked or refused'),
+
+  query('startDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Start date must be a valid date'),
+
+  query('endDate')
+    .optional()
+    .isISO8601()
+    .withMessage('End date must be a valid date'),
+
+  query('format')
+    .optional()
+    .isIn(['json', 'csv'])
+    .withMessage('Format must be json or csv'),
+];
+
+const validateSubjectRequest = [
+  body('workspaceId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid workspace ID'),
+
+  body('type')
+    .isIn(DATA_SUBJECT_REQUEST_TYPES)
+    .withMessage('Request type must be access, erasure or portability'),
+
+  body('emails')
+    .optional()
+    .isArray({ max: 10 })
+    .withMessage('Emails must be an array of up to 10 addresses'),
+
+  body('emails.*')
+    .isEmail()
+    .withMessage('Invalid email format'),
+
+  body('phones')
+    .optional()
+    .isArray({ max: 10 })
+    .withMessage('Phones must be an array of up to 10 numbers'),
+
+  body('phones.*')
+    .isString()
+    .isLength({ max: 30 })
+    .withMessage('Invalid phone number'),
+
+  body('receivedAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Received date must be a valid date'),
+
+  body('notes')
+    .optional()
+    .isLength({ max: 2000 })
+    .withMessage('Notes cannot exceed 2000 characters'),
+];
+
+const validateSubjectRequestVerification = [
+  body('method')
+    .isIn(DATA_SUBJECT_VERIFICATION_METHODS)
+    .withMessage('Invalid verification method'),
+
+  body('notes')
+    .optional()
+    .isLength({ max: 2000 })
+    .withMessage('Notes cannot exceed 2000 characters'),
+];
+
+const validateSubjectRequestRejection = [
+  body('reason')
+    .trim()
+    .notEmpty()
+    .withMessage('A reason is required')
+    .isLength({ max: 2000 })
+    .withMessage('Reason cannot exceed 2000 characters'),
+];
+
+const validateSubjectRequestFulfillment = [
+  body('responseIds')
+    .isArray()
+    .withMessage('Response IDs must be an array'),
+
+  body('responseIds.*')
+    .isMongoId()
+    .withMessage('Invalid response ID'),
+];
+
+/**
+ * Find a data subject request the user may handle, answering 404 when there is none
+ */
+const findSubjectRequest = async (req: AuthenticatedRequest, res: Response): Promise<IDataSubjectRequest | null> => {
+  const request = await DataSubjectRequestService.findForUser(req.params.requestId, req.user!._id);
+
+  if (!request) {
+    res.status(404).json({
+      success: false,
+      message: 'Data subject request not found'
+    });
+  }
+
+  return request;
+};
+
+/**
+ * Read audit log filters from the query string
+ */
+const getAuditFilters = (req: express.Request): IGDPRAuditFilters => {
+  const { subject, formId, action, startDate, endDate } = req.query;
+
+  return {
+    subject: subject ? String(subject).trim() : undefined,
+    formId: formId ? String(formId) : undefined,
+    action: action ? String(action) as GDPRAuditAction : undefined,
+    startDate: startDate ? new Date(String(startDate)) : undefined,
+    endDate: endDate ? new Date(String(endDate)) : undefined
+  };
+};
+
+/**
+ * Read consent ledger filters from the query string
+ */
+const getConsentFilters = (req: express.Request): IConsentFilters => {
+  const { consentType, version, status, startDate, endDate } = req.query;
+
+  return {
+    formId: req.params.formId,
+    consentType: consentType ? String(consentType) as IGDPRConsentType : undefined,
+    version: version ? parseInt(String(version), 10) : undefined,
+    status: status ? String(status) as ConsentRecordStatus : undefined,
+    startDate: startDate ? new Date(String(startDate)) : undefined,
+    endDate: endDate ? new Date(String(endDate)) : undefined
+  };
+};
+
 /**
  * @route   POST /api/gdpr/consent/record
  * @desc    Record user consent for data processing
@@ -128,6 +338,13 @@ router.post('/consent/record', withValidation(validateConsentRecord), async (req
       }
     });
   } catch (error: any) {
+    if (error instanceof ConsentLedgerError) {
+      res.status(400).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
     console.error('Record consent error:', error);
     res.status(500).json({
       success: false,
@@ -174,6 +391,13 @@ router.post('/consent/revoke', async (req: express.Request, res: Response): Prom
       }
     });
   } catch (error: any) {
+    if (error instanceof ConsentRecordNotFoundError || error instanceof ConsentLedgerError) {
+      res.status(error instanceof ConsentRecordNotFoundError ? 404 : 409).json({
+        success: false,
+        message: error instanceof ConsentRecordNotFoundError ? 'Consent record not found' : error.message
+      });
+      return;
+    }
     console.error('Revoke consent error:', error);
     res.status(500).json({
       success: false,
@@ -434,6 +658,9 @@ router.put('/form/:formId/settings', protect, async (req: AuthenticatedRequest,
 
     await form.save();
 
+    // Number the new consent wording, so consent given from now on is recorded against it
+    const consentVersion = await ConsentLedgerService.getCurrentVersion(form);
+
     // Validate compliance after update
     const validation = await GDPRComplianceService.validateFormCompliance(formId);
 
@@ -441,6 +668,7 @@ router.put('/form/:formId/settings', protect, async (req: AuthenticatedRequest,
       success: true,
       data: {
         gdprSettings: form.settings.gdpr,
+        consentVersion: consentVersion?.version ?? null,
         complianceValidation: validation
       }
     });
@@ -453,6 +681,461 @@ router.put('/form/:formId/settings', protect, async (req: AuthenticatedRequest,
   }
 });
 
+/**
+ * @route   GET /api/gdpr/form/:formId/retention
+ * @desc    Preview which responses the next retention run would delete or anonymize
+ * @access  Private
+ */
+router.get('/form/:formId/retention', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { formId } = req.params;
+
+    // Verify form ownership
+    const form = await Form.findOne({ _id: formId, userId: req.user!._id }).select('title userId workspaceId fields settings.gdpr');
+    if (!form) {
+      res.status(404).json({
+        success: false,
+        message: 'Form not found or access denied'
+      });
+      return;
+    }
+
+    const [preview] = await DataRetentionService.preview([form]);
+
+    res.status(200).json({
+      success: true,
+      data: preview || null
+    });
+  } catch (error: any) {
+    console.error('Retention preview error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error previewing data retention'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/gdpr/form/:formId/consents
+ * @desc    Query a form's consent ledger by consent type, consent wording version and status
+ * @access  Private
+ */
+router.get('/form/:formId/consents', protect, withValidation(validateConsentQuery), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { formId } = req.params;
+    const { page = '1', limit = '50' } = req.query;
+
+    // Verify form ownership
+    const form = await Form.findOne({ _id: formId, userId: req.user!._id }).select('_id');
+    if (!form) {
+      res.status(404).json({
+        success: false,
+        message: 'Form not found or access denied'
+      });
+      return;
+    }
+
+    const { records, total } = await ConsentLedgerService.list(
+      getConsentFilters(req),
+      parseInt(page as string, 10) || 1,
+      parseInt(limit as string, 10) || 50
+    );
+
+    res.status(200).json({
+      success: true,
+      data: {
+        records,
+        total
+      }
+    });
+  } catch (error: any) {
+    console.error('Consent ledger error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching consent records'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/gdpr/form/:formId/consents/export
+ * @desc    Export a form's consent ledger as JSON or CSV, with respondents' email answers
+ * @access  Private
+ */
+router.get('/form/:formId/consents/export', protect, withValidation(validateConsentQuery), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { formId } = req.params;
+
+    // Verify form ownership
+    const form = await Form.findOne({ _id: formId, userId: req.user!._id }).select('title fields');
+    if (!form) {
+      res.status(404).json({
+        success: false,
+        message: 'Form not found or access denied'
+      });
+      return;
+    }
+
+    const format = req.query.format === 'csv' ? 'csv' : 'json';
+    const { content, mimeType, filename } = await ConsentLedgerService.export(form, getConsentFilters(req), format);
+
+    res.setHeader('Content-Type', mimeType);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.status(200).send(content);
+  } catch (error: any) {
+    console.error('Consent ledger export error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error exporting consent records'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/gdpr/form/:formId/consent-versions
+ * @desc    List the versions of a form's consent text and privacy policy link
+ * @access  Private
+ */
+router.get('/form/:formId/consent-versions', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { formId } = req.params;
+
+    // Verify form ownership
+    const form = await Form.findOne({ _id: formId, userId: req.user!._id }).select('workspaceId settings.gdpr');
+    if (!form) {
+      res.status(404).json({
+        success: false,
+        message: 'Form not found or access denied'
+      });
+      return;
+    }
+
+    // Number the current wording if it changed since it was last shown
+    await ConsentLedgerService.getCurrentVersion(form);
+
+    res.status(200).json({
+      success: true,
+      data: await ConsentLedgerService.listVersions(formId)
+    });
+  } catch (error: any) {
+    console.error('Consent versions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching consent versions'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/gdpr/subject-requests
+ * @desc    List data subject requests of a workspace (or your own forms), soonest due first
+ * @access  Private
+ */
+router.get('/subject-requests', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { workspaceId, status, overdue, page = '1', limit = '20' } = req.query;
+
+    if (!(await DataSubjectRequestService.canManage(workspaceId as string | undefined, req.user!._id))) {
+      res.status(403).json({
+        success: false,
+        message: 'Only workspace owners and admins can handle data subject requests'
+      });
+      return;
+    }
+
+    const { requests, total } = await DataSubjectRequestService.list(req.user!._id, {
+      workspaceId: workspaceId as string | undefined,
+      status: status as DataSubjectRequestStatus | undefined,
+      overdue: overdue === 'true',
+      page: parseInt(page as string, 10),
+      limit: parseInt(limit as string, 10)
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        requests,
+        total
+      }
+    });
+  } catch (error: any) {
+    console.error('List subject requests error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching data subject requests'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/gdpr/subject-requests
+ * @desc    Log a data subject request from a respondent identified by email or phone number
+ * @access  Private
+ */
+router.post('/subject-requests', protect, withValidation(validateSubjectRequest), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { workspaceId, type, emails, phones, notes, receivedAt } = req.body;
+
+    if (!(await DataSubjectRequestService.canManage(workspaceId, req.user!._id))) {
+      res.status(403).json({
+        success: false,
+        message: 'Only workspace owners and admins can handle data subject requests'
+      });
+      return;
+    }
+
+    const request = await DataSubjectRequestService.create({
+      workspaceId,
+      type,
+      emails,
+      phones,
+      notes,
+      receivedAt: receivedAt ? new Date(receivedAt) : undefined
+    }, req.user!._id);
+
+    res.status(201).json({
+      success: true,
+      message: 'Data subject request received',
+      data: request
+    });
+  } catch (error: any) {
+    if (error instanceof DataSubjectRequestError) {
+      res.status(400).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Create subject request error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error creating data subject request'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/gdpr/subject-requests/:requestId
+ * @desc    Get a data subject request with its history
+ * @access  Private
+ */
+router.get('/subject-requests/:requestId', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const request = await findSubjectRequest(req, res);
+    if (!request) return;
+
+    res.status(200).json({
+      success: true,
+      data: request
+    });
+  } catch (error: any) {
+    console.error('Get subject request error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching data subject request'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/gdpr/subject-requests/:requestId/matches
+ * @desc    Preview the responses matching the request's emails and phone numbers
+ * @access  Private
+ */
+router.get('/subject-requests/:requestId/matches', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const request = await findSubjectRequest(req, res);
+    if (!request) return;
+
+    res.status(200).json({
+      success: true,
+      data: await DataSubjectRequestService.findMatches(request)
+    });
+  } catch (error: any) {
+    console.error('Subject request matches error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error finding matching responses'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/gdpr/subject-requests/:requestId/verify
+ * @desc    Record how the requester's identity was verified
+ * @access  Private
+ */
+router.post('/subject-requests/:requestId/verify', protect, withValidation(validateSubjectRequestVerification), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const request = await findSubjectRequest(req, res);
+    if (!request) return;
+
+    const { method, notes } = req.body;
+
+    res.status(200).json({
+      success: true,
+      message: 'Requester identity verified',
+      data: await DataSubjectRequestService.verify(request, { method, notes }, req.user!._id)
+    });
+  } catch (error: any) {
+    if (error instanceof DataSubjectRequestError) {
+      res.status(409).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Verify subject request error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error verifying data subject request'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/gdpr/subject-requests/:requestId/reject
+ * @desc    Close a data subject request without acting on it
+ * @access  Private
+ */
+router.post('/subject-requests/:requestId/reject', protect, withValidation(validateSubjectRequestRejection), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const request = await findSubjectRequest(req, res);
+    if (!request) return;
+
+    res.status(200).json({
+      success: true,
+      message: 'Data subject request rejected',
+      data: await DataSubjectRequestService.reject(request, req.body.reason, req.user!._id)
+    });
+  } catch (error: any) {
+    if (error instanceof DataSubjectRequestError) {
+      res.status(409).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Reject subject request error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error rejecting data subject request'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/gdpr/subject-requests/:requestId/fulfill
+ * @desc    Export or erase the confirmed responses of a verified request
+ * @access  Private
+ */
+router.post('/subject-requests/:requestId/fulfill', protect, withValidation(validateSubjectRequestFulfillment), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const request = await findSubjectRequest(req, res);
+    if (!request) return;
+
+    const { request: fulfilled, exported } = await DataSubjectRequestService.fulfill(request, req.body.responseIds, req.user!._id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Data subject request fulfilled',
+      data: {
+        request: fulfilled,
+        exported
+      }
+    });
+  } catch (error: any) {
+    if (error instanceof DataSubjectRequestError) {
+      res.status(409).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Fulfill subject request error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fulfilling data subject request'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/gdpr/audit
+ * @desc    List GDPR audit log entries, filtered by subject (user ID or email), form, action and date
+ * @access  Admin only
+ */
+router.get('/audit', protect, requirePermission('canViewLogs'), withValidation(validateAuditQuery), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { page = '1', limit = '50' } = req.query;
+    const { entries, total } = await GDPRAuditService.list(
+      getAuditFilters(req),
+      parseInt(page as string, 10) || 1,
+      parseInt(limit as string, 10) || 50
+    );
+
+    res.status(200).json({
+      success: true,
+      data: {
+        entries,
+        total
+      }
+    });
+  } catch (error: any) {
+    console.error('GDPR audit log error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching GDPR audit log'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/gdpr/audit/export
+ * @desc    Export GDPR audit log entries with their hashes as JSON or CSV
+ * @access  Admin only
+ */
+router.get('/audit/export', protect, requirePermission('canExportData'), withValidation(validateAuditQuery), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const format = req.query.format === 'csv' ? 'csv' : 'json';
+    const { content, mimeType, filename } = await GDPRAuditService.export(getAuditFilters(req), format);
+
+    res.setHeader('Content-Type', mimeType);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.status(200).send(content);
+  } catch (error: any) {
+    console.error('GDPR audit export error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error exporting GDPR audit log'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/gdpr/audit/verify
+ * @desc    Check the GDPR audit log hash chain for changed or removed entries
+ * @access  Admin only
+ */
+router.get('/audit/verify', protect, requirePermission('canViewLogs'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    res.status(200).json({
+      success: true,
+      data: await GDPRAuditService.verify()
+    });
+  } catch (error: any) {
+    console.error('GDPR audit verification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error verifying GDPR audit log'
+    });
+  }
+});
+
 /**
  * @route   GET /api/gdpr/requirements
  * @desc    Get GDPR compliance requirements and guidelines
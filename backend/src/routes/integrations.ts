@@ -1,13 +1,21 @@
 import express, { Response } from 'express';
+import mongoose from 'mongoose';
 import { protect, AuthenticatedRequest } from '../middleware/auth';
 import { withValidation } from '../middleware/validation';
 import { body } from 'express-validator';
 import { apiRateLimit, webhookRateLimit } from '../middleware/rateLimiting';
 import Integration from '../models/Integration';
+import IntegrationExecution from '../models/IntegrationExecution';
+import WebhookDeliveryService from '../services/WebhookDeliveryService';
+import ChatNotificationService from '../services/ChatNotificationService';
+import IntegrationEventService from '../services/IntegrationEventService';
 import Form from '../models/Form';
 import FormResponse from '../models/FormResponse';
+import SavedView from '../models/SavedView';
 import crypto from 'crypto';
 import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { IIntegrationEvent, IIntegrationRateLimitStatus, TriggerEvent } from '../types';
 
 const router = express.Router();
 
@@ -94,6 +102,115 @@ const validateGoogleSheets = [
     .withMessage('Google Sheets credentials are required'),
 ];
 
+/**
+ * Map the webhook config sent by the client onto the integration's credentials and settings
+ */
+function applyWebhookConfig(integration: any, config: any = {}): void {
+  integration.credentials = integration.credentials || {};
+  integration.settings = integration.settings || {};
+  const webhook = integration.settings.webhook || {};
+
+  if (config.url !== undefined) integration.credentials.webhookUrl = config.url;
+  if (config.secret) integration.credentials.webhookSecret = config.secret;
+  if (config.retryAttempts !== undefined) webhook.retryAttempts = config.retryAttempts;
+  if (config.retryDelay !== undefined) webhook.retryDelay = config.retryDelay;
+  if (config.timeout !== undefined) webhook.timeout = config.timeout;
+  if (config.includeMetadata !== undefined) webhook.includeMetadata = config.includeMetadata;
+  if (config.headers !== undefined) webhook.customHeaders = config.headers;
+
+  integration.settings.webhook = webhook;
+
+  // Every webhook is signed; keep the existing secret unless a new one is supplied
+  if (!integration.credentials.webhookSecret) {
+    integration.credentials.webhookSecret = crypto.randomBytes(32).toString('hex');
+  }
+}
+
+/**
+ * Map the chat config sent by the client onto the incoming webhook URL and message settings
+ */
+function applyChatConfig(integration: any, config: any = {}): void {
+  const keys = ['messageFormat', 'customTemplate', 'mentionUsers', 'includeAttachments', 'username', 'avatarUrl', 'color'];
+  integration.credentials = integration.credentials || {};
+  integration.settings = integration.settings || {};
+  const chat = integration.settings[integration.type] || {};
+
+  const url = config.webhookUrl ?? config.url;
+  if (url !== undefined) integration.credentials.webhookUrl = url;
+  keys.forEach(key => {
+    if (config[key] !== undefined) chat[key] = config[key];
+  });
+
+  integration.settings[integration.type] = chat;
+}
+
+/**
+ * Map the email config sent by the client onto the integration's email settings
+ */
+function applyEmailConfig(integration: any, config: any = {}): void {
+  const keys = ['recipients', 'subject', 'template', 'includeAttachments'];
+  integration.settings = integration.settings || {};
+  const email = integration.settings.email || {};
+
+  keys.forEach(key => {
+    if (config[key] !== undefined) email[key] = config[key];
+  });
+
+  integration.settings.email = email;
+}
+
+/**
+ * Apply per-integration rate limits; 0 disables a window
+ * @returns Validation error, or null when the limits were applied
+ */
+function applyRateLimit(integration: any, rateLimit: Record<string, any> = {}): string | null {
+  const keys = ['maxExecutionsPerMinute', 'maxExecutionsPerHour', 'maxExecutionsPerDay'];
+
+  for (const key of keys) {
+    const value = rateLimit[key];
+    if (value === undefined) continue;
+
+    if (!Number.isInteger(value) || value < 0) {
+      return `${key} must be a non-negative integer`;
+    }
+    integration.rateLimit = integration.rateLimit || {};
+    integration.rateLimit[key] = value;
+  }
+
+  return null;
+}
+
+/**
+ * Normalize trigger input, accepting event names or full trigger objects
+ */
+function normalizeTriggers(triggers: any[] | undefined): any[] {
+  if (!Array.isArray(triggers) || triggers.length === 0) {
+    return [{ event: 'form_submitted', isActive: true }];
+  }
+
+  return triggers.map(trigger => typeof trigger === 'string'
+    ? { event: trigger as TriggerEvent, isActive: true }
+    : trigger);
+}
+
+/**
+ * Check that saved views used as trigger conditions belong to the integration's form
+ */
+async function checkTriggerViews(triggers: any[], formId?: string): Promise<string | null> {
+  const viewIds = triggers
+    .map(trigger => trigger?.conditions?.viewId)
+    .filter(viewId => viewId !== undefined && viewId !== null && viewId !== '');
+
+  if (viewIds.length === 0) return null;
+  if (!formId) return 'Only form integrations can trigger on saved views';
+  if (viewIds.some(viewId => !mongoose.Types.ObjectId.isValid(viewId))) {
+    return 'Invalid saved view in trigger conditions';
+  }
+
+  const count = await SavedView.countDocuments({ _id: { $in: viewIds }, formId });
+  return count === new Set(viewIds.map(String)).size ? null : 'Trigger conditions can only use saved views of this form';
+}
+
 // Query interfaces
 interface IntegrationQuery {
   page?: string;
@@ -221,6 +338,25 @@ router.post('/', protect, withValidation(validateIntegration), async (req: Authe
       return;
     }
 
+    // Integrations belong to the form's workspace
+    if (!form.workspaceId) {
+      res.status(400).json({
+        success: false,
+        message: 'Move the form into a workspace before adding integrations'
+      });
+      return;
+    }
+
+    const triggers = normalizeTriggers(req.body.triggers);
+    const triggerError = await checkTriggerViews(triggers, formId);
+    if (triggerError) {
+      res.status(400).json({
+        success: false,
+        message: triggerError
+      });
+      return;
+    }
+
     // Check user's subscription limits
     const userIntegrationsCount = await Integration.countDocuments({
       userId: req.user!._id,
@@ -236,28 +372,38 @@ router.post('/', protect, withValidation(validateIntegration), async (req: Authe
       return;
     }
 
-    // Generate webhook secret for webhook integrations
-    let finalConfig = config;
-    if (type === 'webhook') {
-      finalConfig = {
-        ...config,
-        secret: crypto.randomBytes(32).toString('hex')
-      };
-    }
-
     // Create integration
-    const integration = await Integration.create({
+    const integration: any = new Integration({
       name,
       type,
       formId,
+      workspaceId: form.workspaceId,
       userId: req.user!._id,
-      config: finalConfig,
-      isActive,
-      lastTriggered: null,
-      errorCount: 0,
-      successCount: 0
+      credentials: req.body.credentials || {},
+      settings: req.body.settings || {},
+      triggers,
+      isActive
     });
 
+    if (WebhookDeliveryService.isWebhookType(type)) {
+      applyWebhookConfig(integration, config);
+    } else if (ChatNotificationService.isChatType(type)) {
+      applyChatConfig(integration, config);
+    } else if (type === 'email') {
+      applyEmailConfig(integration, config);
+    }
+
+    const rateLimitError = applyRateLimit(integration, req.body.rateLimit);
+    if (rateLimitError) {
+      res.status(400).json({
+        success: false,
+        message: rateLimitError
+      });
+      return;
+    }
+
+    await integration.save();
+
     await integration.populate('formId', 'title description');
 
     res.status(201).json({
@@ -313,7 +459,7 @@ router.get('/:id', protect, async (req: AuthenticatedRequest, res: Response): Pr
  */
 router.put('/:id', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const { name, config, isActive } = req.body;
+    const { name, config, triggers, rateLimit, isActive } = req.body;
 
     const integration = await Integration.findOne({
       _id: req.params.id,
@@ -328,17 +474,38 @@ router.put('/:id', protect, async (req: AuthenticatedRequest, res: Response): Pr
       return;
     }
 
+    if (triggers !== undefined) {
+      const triggerError = await checkTriggerViews(normalizeTriggers(triggers), integration.formId?.toString());
+      if (triggerError) {
+        res.status(400).json({
+          success: false,
+          message: triggerError
+        });
+        return;
+      }
+    }
+
     // Update fields
     if (name !== undefined) integration.name = name;
-    if (config !== undefined) {
-      // Preserve webhook secret if not provided in update
-      if (integration.type === 'webhook' && !config.secret) {
-        config.secret = (integration as any).config.secret;
-      }
-      (integration as any).config = config;
+    if (config !== undefined && WebhookDeliveryService.isWebhookType(integration.type)) {
+      applyWebhookConfig(integration, config);
+    } else if (config !== undefined && ChatNotificationService.isChatType(integration.type)) {
+      applyChatConfig(integration, config);
+    } else if (config !== undefined && integration.type === 'email') {
+      applyEmailConfig(integration, config);
     }
+    if (triggers !== undefined) integration.triggers = normalizeTriggers(triggers);
     if (isActive !== undefined) integration.isActive = isActive;
 
+    const rateLimitError = applyRateLimit(integration, rateLimit);
+    if (rateLimitError) {
+      res.status(400).json({
+        success: false,
+        message: rateLimitError
+      });
+      return;
+    }
+
     integration.updatedAt = new Date();
     await integration.save();
 
@@ -415,10 +582,14 @@ router.post('/:id/test', protect, async (req: AuthenticatedRequest, res: Respons
     // Test based on integration type
     switch (integration.type) {
       case 'webhook':
+      case 'zapier':
+      case 'make':
         testResult = await testWebhookIntegration(integration);
         break;
       case 'slack':
-        testResult = await testSlackIntegration(integration);
+      case 'discord':
+      case 'teams':
+        testResult = await testChatIntegration(integration);
         break;
       case 'google_sheets':
         testResult = await testGoogleSheetsIntegration(integration);
@@ -451,12 +622,12 @@ router.post('/:id/test', protect, async (req: AuthenticatedRequest, res: Respons
 
 /**
  * @route   GET /api/integrations/:id/logs
- * @desc    Get integration execution logs
+ * @desc    Get integration delivery attempts
  * @access  Private
  */
 router.get('/:id/logs', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const { page = '1', limit = '20' } = req.query;
+    const { page = '1', limit = '20', status, deliveryId } = req.query as Record<string, string>;
 
     const integration = await Integration.findOne({
       _id: req.params.id,
@@ -471,20 +642,30 @@ router.get('/:id/logs', protect, async (req: AuthenticatedRequest, res: Response
       return;
     }
 
-    // Get logs with pagination
-    const logs = (integration as any).logs || [];
-    const startIndex = (parseInt(page) - 1) * parseInt(limit);
-    const endIndex = startIndex + parseInt(limit);
-    const paginatedLogs = logs.slice(startIndex, endIndex);
+    const query: any = { integrationId: integration._id };
+    if (status) query.status = status;
+    if (deliveryId) query.deliveryId = deliveryId;
+
+    const pageNumber = Math.max(1, parseInt(page) || 1);
+    const pageSize = Math.min(100, Math.max(1, parseInt(limit) || 20));
+
+    const [logs, total] = await Promise.all([
+      IntegrationExecution.find(query)
+        .select('-event')
+        .sort({ createdAt: -1 })
+        .skip((pageNumber - 1) * pageSize)
+        .limit(pageSize),
+      IntegrationExecution.countDocuments(query)
+    ]);
 
     res.status(200).json({
       success: true,
-      data: paginatedLogs,
+      data: logs,
       pagination: {
-        page: parseInt(page),
-        pages: Math.ceil(logs.length / parseInt(limit)),
-        total: logs.length,
-        limit: parseInt(limit)
+        page: pageNumber,
+        pages: Math.ceil(total / pageSize),
+        total,
+        limit: pageSize
       }
     });
   } catch (error: any) {
@@ -496,122 +677,164 @@ router.get('/:id/logs', protect, async (req: AuthenticatedRequest, res: Response
   }
 });
 
-// Helper functions for testing integrations
-
 /**
- * Test webhook integration
+ * @route   POST /api/integrations/:id/logs/:deliveryId/redeliver
+ * @desc    Replay a webhook delivery
+ * @access  Private
  */
-async function testWebhookIntegration(integration: any): Promise<any> {
+router.post('/:id/logs/:deliveryId/redeliver', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const config = integration.config as any;
-    
-    const testPayload = {
-      test: true,
-      integrationId: integration._id,
-      timestamp: new Date().toISOString(),
-      form: {
-        id: integration.formId._id,
-        title: integration.formId.title
-      },
-      sampleData: {
-        field1: 'Test value 1',
-        field2: 'Test value 2'
-      }
-    };
-
-    const response = await axios({
-      method: config.method || 'POST',
-      url: config.url,
-      data: testPayload,
-      headers: {
-        'Content-Type': 'application/json',
-        'User-Agent': 'Youform-Integration/1.0',
-        ...config.headers
-      },
-      timeout: 10000
+    const integration = await Integration.findOne({
+      _id: req.params.id,
+      userId: req.user!._id
     });
 
-    return {
-      success: true,
-      message: `Webhook test successful. Status: ${response.status}`,
-      statusCode: response.status,
-      responseData: response.data
-    };
-  } catch (error: any) {
-    return {
-      success: false,
-      message: `Webhook test failed: ${error.message}`,
-      error: error.response?.data || error.message
-    };
-  }
-}
-
-/**
- * Test Slack integration
- */
-async function testSlackIntegration(integration: any): Promise<any> {
-  try {
-    const config = integration.config as any;
-    
-    const testMessage = {
-      text: `🧪 Integration Test from Youform`,
-      attachments: [
-        {
-          color: 'good',
-          fields: [
-            {
-              title: 'Form',
-              value: integration.formId.title,
-              short: true
-            },
-            {
-              title: 'Integration',
-              value: integration.name,
-              short: true
-            },
-            {
-              title: 'Status',
-              value: 'Test successful! ✅',
-              short: false
-            }
-          ],
-          footer: 'Youform Integration',
-          ts: Math.floor(Date.now() / 1000)
-        }
-      ]
-    };
+    if (!integration) {
+      res.status(404).json({
+        success: false,
+        message: 'Integration not found'
+      });
+      return;
+    }
 
-    if (config.channel) {
-      testMessage.attachments[0].fields.unshift({
-        title: 'Channel',
-        value: config.channel,
-        short: true
+    const isChat = ChatNotificationService.isChatType(integration.type);
+    if (!WebhookDeliveryService.isWebhookType(integration.type) && !isChat) {
+      res.status(400).json({
+        success: false,
+        message: 'Redelivery is only supported for webhook and chat integrations'
       });
+      return;
     }
 
-    if (config.username) {
-      (testMessage as any).username = config.username;
+    const original = await IntegrationExecution.findLatestAttempt(integration._id.toString(), req.params.deliveryId);
+
+    if (!original) {
+      res.status(404).json({
+        success: false,
+        message: 'Delivery not found'
+      });
+      return;
     }
 
-    const response = await axios.post(config.webhookUrl, testMessage, {
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      timeout: 10000
-    });
+    const rateLimitStatus: IIntegrationRateLimitStatus = await (integration as any).checkRateLimit();
+    if (rateLimitStatus.limited) {
+      res.status(429).json({
+        success: false,
+        code: 'INTEGRATION_RATE_LIMITED',
+        message: `Rate limit of ${rateLimitStatus.limit} executions per ${rateLimitStatus.window} reached`,
+        data: { retryAt: rateLimitStatus.retryAt }
+      });
+      return;
+    }
 
-    return {
-      success: true,
-      message: 'Slack test message sent successfully',
-      statusCode: response.status
+    const { event: delivered, storedEvent } = await IntegrationEventService.revealForIntegration(integration, original.event);
+    const context = {
+      deliveryId: uuidv4(),
+      attempt: 1,
+      trigger: 'redelivery' as const,
+      redeliveryOf: original.deliveryId,
+      storedEvent
     };
+    const execution = isChat
+      ? await ChatNotificationService.deliver(integration, delivered, context)
+      : await WebhookDeliveryService.deliver(integration, delivered, context);
+
+    const { event, ...log } = execution.toObject();
+
+    res.status(200).json({
+      success: execution.status === 'succeeded',
+      message: execution.status === 'succeeded'
+        ? 'Delivery replayed successfully'
+        : `Redelivery failed: ${execution.error}`,
+      data: log
+    });
   } catch (error: any) {
-    return {
+    console.error('Redeliver integration error:', error);
+    res.status(500).json({
       success: false,
-      message: `Slack test failed: ${error.message}`,
-      error: error.response?.data || error.message
-    };
+      message: 'Error redelivering webhook'
+    });
   }
+});
+
+// Helper functions for testing integrations
+
+/**
+ * Build a sample submission event for testing an integration
+ */
+function buildTestEvent(integration: any): IIntegrationEvent {
+  const form = integration.formId || {};
+  const formId = (form._id || form).toString();
+  const fields: any[] = (form.fields || [])
+    .filter((field: any) => !['password', 'divider', 'heading', 'paragraph', 'image', 'video', 'audio'].includes(field.type));
+  const responses: Record<string, any> = fields.length > 0
+    ? Object.fromEntries(fields.map((field: any) => [field.id, `Sample ${field.label || field.id}`]))
+    : { field1: 'Test value 1', field2: 'Test value 2' };
+
+  return {
+    eventId: uuidv4(),
+    eventType: 'form_submitted',
+    formId,
+    occurredAt: new Date(),
+    form: {
+      id: formId,
+      title: form.title || 'Test Form'
+    },
+    responses,
+    metadata: { test: true }
+  };
+}
+
+/**
+ * Summarize a test delivery for the test endpoint
+ */
+function getTestResult(label: string, execution: any): any {
+  return execution.status === 'succeeded'
+    ? {
+        success: true,
+        message: `${label} test successful. Status: ${execution.response?.status}`,
+        statusCode: execution.response?.status,
+        deliveryId: execution.deliveryId,
+        latencyMs: execution.latencyMs
+      }
+    : {
+        success: false,
+        message: `${label} test failed: ${execution.error}`,
+        statusCode: execution.response?.status,
+        deliveryId: execution.deliveryId,
+        error: execution.response?.body || execution.error
+      };
+}
+
+/**
+ * Test webhook integration
+ */
+async function testWebhookIntegration(integration: any): Promise<any> {
+  const execution = await WebhookDeliveryService.deliver(integration, buildTestEvent(integration), {
+    deliveryId: uuidv4(),
+    attempt: 1,
+    trigger: 'test'
+  });
+
+  return getTestResult('Webhook', execution);
+}
+
+/**
+ * Test Slack, Discord or Teams integration
+ */
+async function testChatIntegration(integration: any): Promise<any> {
+  const labels: Record<string, string> = { slack: 'Slack', discord: 'Discord', teams: 'Teams' };
+  const event = buildTestEvent(integration);
+
+  // Render against the populated form without loading it again
+  const payload = ChatNotificationService.buildPayload(integration, event, integration.formId?.fields || []);
+  const execution = await WebhookDeliveryService.deliver(integration, event, {
+    deliveryId: uuidv4(),
+    attempt: 1,
+    trigger: 'test'
+  }, payload);
+
+  return getTestResult(labels[integration.type], execution);
 }
 
 /**
@@ -4,6 +4,11 @@ import { withValidation } from '../middleware/validation';
 import { body, query, param } from 'express-validator';
 import PartialSubmissionService from '../services/PartialSubmissionService';
 import Form from '../models/Form';
+import PartialSubmission from '../models/PartialSubmission';
+import FieldEncryptionService from '../services/FieldEncryptionService';
+import FormAccessService from '../services/FormAccessService';
+import IntegrationEventService from '../services/IntegrationEventService';
+import ConsentLedgerService, { ConsentLedgerError, ConsentRequiredError, ConsentVersionChangedError } from '../services/ConsentLedgerService';
 
 const router = express.Router();
 
@@ -38,6 +43,16 @@ const validateCompleteSubmission = [
   body('responses')
     .isObject()
     .withMessage('Responses must be an object'),
+
+  body('consent')
+    .optional()
+    .isObject()
+    .withMessage('Consent must be an object'),
+
+  body('protection')
+    .optional()
+    .isObject()
+    .withMessage('Protection must be an object'),
 ];
 
 const validateSessionId = [
@@ -68,6 +83,12 @@ router.post('/:formId/save', withValidation(validateSavePartialSubmission), asyn
       return;
     }
 
+    const access = await FormAccessService.checkSubmissionAccess(form, req);
+    if (!access.allowed) {
+      res.status(FormAccessService.getStatusCode(access.code)).json(FormAccessService.getDeniedResponse(form, access));
+      return;
+    }
+
     if (!form.settings?.autoSave?.enabled) {
       res.status(400).json({
         success: false,
@@ -176,14 +197,36 @@ router.get('/:formId/retrieve/:sessionId', withValidation(validateSessionId), as
 router.post('/:formId/complete', withValidation(validateCompleteSubmission), async (req: express.Request, res: Response): Promise<void> => {
   try {
     const { formId } = req.params;
-    const { sessionId, responses, metadata = {} } = req.body;
+    const { sessionId, responses, metadata = {}, consent, protection } = req.body;
 
-    // Verify form exists
+    // Only forms open to the public take submissions
     const form = await Form.findById(formId);
-    if (!form) {
+    if (!form || !form.isPublic || !form.isActive) {
       res.status(404).json({
         success: false,
-        message: 'Form not found'
+        message: 'Form not found or not publicly accessible'
+      });
+      return;
+    }
+
+    // Enforce schedule, response limit, password and single-submission settings
+    const access = await FormAccessService.checkSubmissionAccess(form, req);
+    if (!access.allowed) {
+      res.status(FormAccessService.getStatusCode(access.code)).json(FormAccessService.getDeniedResponse(form, access));
+      return;
+    }
+
+    // Consent must be given against the form's current wording
+    let consentVersion;
+    try {
+      consentVersion = await ConsentLedgerService.checkSubmission(form, consent);
+    } catch (error) {
+      if (!(error instanceof ConsentLedgerError)) throw error;
+      res.status(error instanceof ConsentVersionChangedError ? 409 : 400).json({
+        success: false,
+        ...(error instanceof ConsentVersionChangedError && { code: 'CONSENT_VERSION_CHANGED' }),
+        ...(error instanceof ConsentRequiredError && { code: 'CONSENT_REQUIRED' }),
+        message: error.message
       });
       return;
     }
@@ -193,14 +236,18 @@ router.post('/:formId/complete', withValidation(validateCompleteSubmission), asy
       ...metadata,
       ipAddress: req.ip || req.connection.remoteAddress,
       userAgent: req.headers['user-agent'],
-      referrer: req.headers.referer
+      referrer: req.headers.referer,
+      submitterKeys: form.settings?.allowMultipleSubmissions === false
+        ? FormAccessService.markSubmitted(form, req, res)
+        : undefined
     };
 
     const result = await PartialSubmissionService.completePartialSubmission(
-      formId,
+      form,
       sessionId,
       responses,
-      enrichedMetadata
+      enrichedMetadata,
+      { protection, consent, consentVersion }
     );
 
     if (result.success) {
@@ -213,10 +260,13 @@ router.post('/:formId/complete', withValidation(validateCompleteSubmission), asy
           completedAt: new Date()
         }
       });
+    } else if (result.denied) {
+      res.status(FormAccessService.getStatusCode(result.denied.code)).json(FormAccessService.getDeniedResponse(form, result.denied));
     } else {
-      res.status(400).json({
+      res.status(result.notFound ? 404 : 400).json({
         success: false,
-        message: result.error || 'Failed to complete submission'
+        message: result.error || 'Failed to complete submission',
+        ...(result.validationErrors && { errors: result.validationErrors })
       });
     }
   } catch (error: any) {
@@ -247,9 +297,20 @@ router.delete('/:formId/delete/:sessionId', withValidation(validateSessionId), a
       return;
     }
 
+    // Looked up directly so discarding does not count as retrieving the progress
+    const partial = await PartialSubmission.findByFormAndSession(formId, sessionId);
     const result = await PartialSubmissionService.deletePartialSubmission(formId, sessionId);
 
     if (result.success) {
+      // A respondent discarding their progress is an abandonment
+      if (partial) {
+        await IntegrationEventService.emit('form_abandoned', form, {
+          sessionId,
+          responses: FieldEncryptionService.redactAnswers(partial.responses || {}, form),
+          metadata: { discarded: true, lastSavedAt: partial.lastSavedAt }
+        });
+      }
+
       res.status(200).json({
         success: true,
         message: 'Partial submission deleted successfully'
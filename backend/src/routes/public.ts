@@ -1,57 +1,57 @@
 import express, { Request, Response } from 'express';
 import multer from 'multer';
-import path from 'path';
+import os from 'os';
+import { Types } from 'mongoose';
 import { v4 as uuidv4 } from 'uuid';
 import Form from '../models/Form';
 import FormResponse from '../models/FormResponse';
-import { submissionRateLimit, uploadRateLimit } from '../middleware/rateLimiting';
+import FormAccessService from '../services/FormAccessService';
+import FileStorageService from '../services/FileStorageService';
+import FileUploadService from '../services/FileUploadService';
+import ResponseSubmissionService from '../services/ResponseSubmissionService';
+import SpamProtectionService from '../services/SpamProtectionService';
+import ConsentLedgerService, { ConsentLedgerError, ConsentRequiredError, ConsentVersionChangedError } from '../services/ConsentLedgerService';
+import { ISpamProof, ISubmissionConsent } from '../types';
+import { submissionRateLimit, uploadRateLimit, formUnlockRateLimit } from '../middleware/rateLimiting';
 
 const router = express.Router();
 
-// Configure multer for form file uploads
+// Configure multer for form file uploads. Files wait in a temporary directory
+// until their contents are checked against the owning field's rules
 const fileStorage = multer.diskStorage({
   destination: function (req, file, cb) {
-    cb(null, process.env.UPLOAD_DIR || '../uploads');
+    cb(null, os.tmpdir());
   },
   filename: function (req, file, cb) {
-    const uniqueSuffix = uuidv4();
-    cb(null, `form-file-${uniqueSuffix}${path.extname(file.originalname)}`);
+    cb(null, `form-file-${uuidv4()}`);
   }
 });
 
 const fileUpload = multer({
   storage: fileStorage,
   limits: {
-    fileSize: parseInt(process.env.MAX_FILE_SIZE || '5242880'), // 5MB
-  },
-  fileFilter: function (req, file, cb) {
-    // Allow all file types for form uploads, but still have some restrictions
-    const allowedTypes = /\.(jpg|jpeg|png|gif|pdf|doc|docx|txt|csv|xlsx|xls)$/i;
-    const extname = allowedTypes.test(path.extname(file.originalname));
-
-    if (extname || process.env.NODE_ENV === 'development') {
-      return cb(null, true);
-    } else {
-      cb(new Error('File type not allowed. Allowed types: images, PDF, Word documents, text files, spreadsheets'));
-    }
+    // Upper bound for every field; fields set their own lower limits
+    fileSize: parseInt(process.env.MAX_FILE_SIZE || '10485760'), // 10MB
+    files: parseInt(process.env.MAX_FILES_PER_SUBMISSION || '20')
   }
 });
 
+// Get the files multer stored for a submission
+const getUploadedFiles = (req: Request): Express.Multer.File[] => {
+  return Array.isArray(req.files) ? req.files : [];
+};
 
-
-// File info interface
-interface FileInfo {
-  originalName: string;
-  filename: string;
-  mimetype: string;
-  size: number;
-  url: string;
-}
+// Remove the temporary files multer stored for a submission
+const removeUploadedFiles = (req: Request): void => {
+  FileUploadService.removeTempFiles(getUploadedFiles(req).map(file => file.path));
+};
 
 // Submit form interface
 interface SubmitFormBody {
   responses: Record<string, any>;
   metadata?: Record<string, any>;
+  protection?: ISpamProof;
+  consent?: ISubmissionConsent;
 }
 
 /**
@@ -71,13 +71,27 @@ router.get('/forms/:publicUrl', async (req: Request, res: Response): Promise<voi
       return;
     }
 
+    const access = await FormAccessService.checkViewAccess(form, req);
+    if (!access.allowed) {
+      res.status(FormAccessService.getStatusCode(access.code)).json(FormAccessService.getDeniedResponse(form, access));
+      return;
+    }
+
     // Increment view count
     await (form as any).incrementViews();
 
-    // Return only public data
+    // The consent version is sent back with the submission, so consent is recorded
+    // against the wording the respondent was shown
+    const consentVersion = await ConsentLedgerService.getCurrentVersion(form);
+
+    // Return only public data, with the spam protection challenge for the submission
     res.status(200).json({
       success: true,
-      data: (form as any).getPublicData()
+      data: {
+        ...(form as any).getPublicData(),
+        protection: SpamProtectionService.issueChallenge(form),
+        consentVersion: consentVersion?.version ?? null
+      }
     });
   } catch (error: any) {
     console.error('Get public form error:', error);
@@ -94,8 +108,10 @@ router.get('/forms/:publicUrl', async (req: Request, res: Response): Promise<voi
  * @access  Public
  */
 router.post('/forms/:publicUrl/submit', submissionRateLimit, uploadRateLimit, fileUpload.any(), async (req: Request, res: Response): Promise<void> => {
+  const responseId = new Types.ObjectId();
+
   try {
-    let { responses, metadata }: SubmitFormBody = req.body;
+    let { responses, metadata, protection, consent }: SubmitFormBody = req.body;
 
     // Parse responses if it's a string (from FormData)
     if (typeof responses === 'string') {
@@ -119,6 +135,28 @@ router.post('/forms/:publicUrl/submit', submissionRateLimit, uploadRateLimit, fi
       }
     }
 
+    // Parse spam protection proof if it's a string
+    if (typeof protection === 'string') {
+      try {
+        protection = JSON.parse(protection);
+      } catch (error) {
+        protection = {};
+      }
+    }
+
+    // Parse consent choices if they're a string
+    if (typeof consent === 'string') {
+      try {
+        consent = JSON.parse(consent);
+      } catch (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid consent format'
+        });
+        return;
+      }
+    }
+
     // Find the form
     const form = await (Form as any).findByPublicUrl(req.params.publicUrl);
 
@@ -130,37 +168,69 @@ router.post('/forms/:publicUrl/submit', submissionRateLimit, uploadRateLimit, fi
       return;
     }
 
-    // Handle file uploads
-    if (req.files && Array.isArray(req.files) && req.files.length > 0) {
-      req.files.forEach((file: Express.Multer.File) => {
-        const fieldName = file.fieldname;
-        const fileInfo: FileInfo = {
-          originalName: file.originalname,
-          filename: file.filename,
-          mimetype: file.mimetype,
-          size: file.size,
-          url: `/uploads/${file.filename}`
-        };
-        responses[fieldName] = fileInfo;
+    // Enforce schedule, response limit, password and single-submission settings
+    const access = await FormAccessService.checkSubmissionAccess(form, req);
+    if (!access.allowed) {
+      res.status(FormAccessService.getStatusCode(access.code)).json(FormAccessService.getDeniedResponse(form, access));
+      return;
+    }
+
+    // Consent must be given against the form's current wording
+    let consentVersion;
+    try {
+      consentVersion = await ConsentLedgerService.checkSubmission(form, consent);
+    } catch (error) {
+      if (!(error instanceof ConsentLedgerError)) throw error;
+      res.status(error instanceof ConsentVersionChangedError ? 409 : 400).json({
+        success: false,
+        ...(error instanceof ConsentVersionChangedError && { code: 'CONSENT_VERSION_CHANGED' }),
+        ...(error instanceof ConsentRequiredError && { code: 'CONSENT_REQUIRED' }),
+        message: error.message
+      });
+      return;
+    }
+
+    // Check uploads against their field's size, type and count rules
+    const uploads = await FileUploadService.checkUploads(form, getUploadedFiles(req), responseId);
+    if (uploads.errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: 'File upload validation failed',
+        errors: uploads.errors
       });
+      return;
     }
 
-    // Create form response
-    const formResponse = new FormResponse({
-      formId: form._id,
-      responses,
+    if (!(await FileUploadService.hasStorageFor(form, uploads.totalBytes))) {
+      res.status(413).json({
+        success: false,
+        code: 'STORAGE_LIMIT_REACHED',
+        message: 'This form cannot accept more files right now'
+      });
+      return;
+    }
+
+    // Validate, score and save the response; answers to fields hidden or skipped
+    // by conditional logic are dropped and calculated fields are recomputed
+    const { response: formResponse, denied } = await ResponseSubmissionService.submit(form, {
+      responseId,
+      responses: responses || {},
+      uploads,
       ipAddress: req.ip || (req.connection as any)?.remoteAddress,
       userAgent: req.get('User-Agent'),
       metadata: {
         referrer: req.get('Referer'),
         ...metadata
-      }
+      },
+      protection,
+      submitterKeys: form.settings?.allowMultipleSubmissions === false
+        ? FormAccessService.markSubmitted(form, req, res)
+        : undefined,
+      consent,
+      consentVersion
     });
 
-    // Validate response against form fields
-    const isValid = await (formResponse as any).validateAgainstForm();
-
-    if (!isValid) {
+    if (!formResponse.isValid) {
       res.status(400).json({
         success: false,
         message: 'Form validation failed',
@@ -169,15 +239,18 @@ router.post('/forms/:publicUrl/submit', submissionRateLimit, uploadRateLimit, fi
       return;
     }
 
-    // Save the response
-    await formResponse.save();
+    if (denied) {
+      res.status(FormAccessService.getStatusCode(denied.code)).json(FormAccessService.getDeniedResponse(form, denied));
+      return;
+    }
 
     res.status(201).json({
       success: true,
       message: 'Response submitted successfully',
       data: {
         id: formResponse._id,
-        submittedAt: (formResponse as any).submittedAt
+        submittedAt: (formResponse as any).submittedAt,
+        calculatedValues: formResponse.calculatedValues
       }
     });
   } catch (error: any) {
@@ -186,6 +259,59 @@ router.post('/forms/:publicUrl/submit', submissionRateLimit, uploadRateLimit, fi
       success: false,
       message: 'Error submitting form response'
     });
+  } finally {
+    removeUploadedFiles(req);
+  }
+});
+
+/**
+ * @route   POST /api/public/forms/:publicUrl/unlock
+ * @desc    Exchange a form password for an unlock token
+ * @access  Public
+ */
+router.post('/forms/:publicUrl/unlock', formUnlockRateLimit, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { password }: { password?: string } = req.body;
+
+    const form = await (Form as any).findByPublicUrl(req.params.publicUrl);
+
+    if (!form) {
+      res.status(404).json({
+        success: false,
+        message: 'Form not found or not publicly accessible'
+      });
+      return;
+    }
+
+    if (!form.settings?.passwordProtection?.enabled) {
+      res.status(400).json({
+        success: false,
+        message: 'This form is not password protected'
+      });
+      return;
+    }
+
+    const unlock = await FormAccessService.unlock(form, typeof password === 'string' ? password : '');
+
+    if (!unlock) {
+      res.status(401).json({
+        success: false,
+        code: 'INVALID_PASSWORD',
+        message: 'The password is incorrect'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: unlock
+    });
+  } catch (error: any) {
+    console.error('Unlock form error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error unlocking form'
+    });
   }
 });
 
@@ -206,6 +332,12 @@ router.get('/forms/:publicUrl/preview', async (req: Request, res: Response): Pro
       return;
     }
 
+    const access = await FormAccessService.checkViewAccess(form, req);
+    if (!access.allowed) {
+      res.status(FormAccessService.getStatusCode(access.code)).json(FormAccessService.getDeniedResponse(form, access));
+      return;
+    }
+
     // Return public data without incrementing views
     res.status(200).json({
       success: true,
@@ -237,13 +369,24 @@ router.get('/forms/:publicUrl/embed', async (req: Request, res: Response): Promi
       return;
     }
 
+    const access = await FormAccessService.checkViewAccess(form, req);
+    if (!access.allowed) {
+      res.status(FormAccessService.getStatusCode(access.code)).json(FormAccessService.getDeniedResponse(form, access));
+      return;
+    }
+
     // Increment view count for embed
     await (form as any).incrementViews();
+    const consentVersion = await ConsentLedgerService.getCurrentVersion(form);
 
     res.status(200).json({
       success: true,
       data: {
-        form: (form as any).getPublicData(),
+        form: {
+          ...(form as any).getPublicData(),
+          protection: SpamProtectionService.issueChallenge(form),
+          consentVersion: consentVersion?.version ?? null
+        },
         embedCode: form.embedCode,
         embedUrl: `${process.env.FRONTEND_URL}/embed/${form.publicUrl}`
       }
@@ -277,6 +420,12 @@ router.post('/forms/:publicUrl/validate', async (req: Request, res: Response): P
       return;
     }
 
+    const access = await FormAccessService.checkViewAccess(form, req);
+    if (!access.allowed) {
+      res.status(FormAccessService.getStatusCode(access.code)).json(FormAccessService.getDeniedResponse(form, access));
+      return;
+    }
+
     // Create temporary response for validation
     const tempResponse = new FormResponse({
       formId: form._id,
@@ -284,13 +433,14 @@ router.post('/forms/:publicUrl/validate', async (req: Request, res: Response): P
     });
 
     // Validate without saving
-    const isValid = await (tempResponse as any).validateAgainstForm();
+    await tempResponse.validateAgainstForm();
 
     res.status(200).json({
       success: true,
       data: {
-        isValid,
-        errors: (tempResponse as any).validationErrors
+        isValid: tempResponse.isValid,
+        errors: (tempResponse as any).validationErrors,
+        hiddenFields: tempResponse.hiddenFields
       }
     });
   } catch (error: any) {
@@ -302,4 +452,43 @@ router.post('/forms/:publicUrl/validate', async (req: Request, res: Response): P
   }
 });
 
+/**
+ * @route   GET /api/public/files/:token
+ * @desc    Download an uploaded file through a signed link
+ * @access  Public (signed link)
+ */
+router.get('/files/:token', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const download = FileStorageService.verifyDownloadToken(req.params.token);
+
+    if (!download) {
+      res.status(403).json({
+        success: false,
+        message: 'This download link is invalid or has expired'
+      });
+      return;
+    }
+
+    const sent = await FileStorageService.sendFile(res, {
+      storageKey: download.key,
+      filename: download.key,
+      originalName: download.name,
+      mimetype: download.type
+    });
+
+    if (!sent) {
+      res.status(404).json({
+        success: false,
+        message: 'File not found'
+      });
+    }
+  } catch (error: any) {
+    console.error('Download signed file error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error downloading file'
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
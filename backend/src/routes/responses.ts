@@ -1,44 +1,149 @@
 import express, { Response } from 'express';
 import mongoose from 'mongoose';
-// @ts-ignore - json2csv doesn't have TypeScript definitions
-import { Parser } from 'json2csv';
 import Form from '../models/Form';
 import FormResponse from '../models/FormResponse';
+import ResponseRevision from '../models/ResponseRevision';
 import { protect, AuthenticatedRequest } from '../middleware/auth';
-import { IForm, IFormField } from '../types';
+import { exportRateLimit } from '../middleware/rateLimiting';
+import ExportService, { ExportError } from '../services/ExportService';
+import FieldEncryptionService from '../services/FieldEncryptionService';
+import FileStorageService from '../services/FileStorageService';
+import FileUploadService from '../services/FileUploadService';
+import IntegrationEventService from '../services/IntegrationEventService';
+import ResponseAccessService from '../services/ResponseAccessService';
+import ResponseRevisionService from '../services/ResponseRevisionService';
+import ResponseWorkflowService from '../services/ResponseWorkflowService';
+import SavedViewService, { ISavedViewInput, IViewQueryParams } from '../services/SavedViewService';
+import SavedView from '../models/SavedView';
+import { IResponseWorkflowUpdate, ResponseEditMode } from '../types';
 
 const router = express.Router();
 
 // Query interfaces
-interface ResponsesQuery {
+interface ResponsesQuery extends IViewQueryParams {
   page?: string;
   limit?: string;
-  startDate?: string;
-  endDate?: string;
-  search?: string;
 }
 
-interface ExportQuery {
-  startDate?: string;
-  endDate?: string;
-  format?: 'csv' | 'json';
+interface EditResponseBody {
+  responses?: Record<string, any>;
+  reason?: string;
+  revision?: number;
 }
 
+/**
+ * Shape a response for the API with its sensitive answers decrypted; only used once
+ * the user is known to be allowed to view the form's responses
+ */
+const formatResponse = async (response: any): Promise<Record<string, any>> => {
+  const data = response.getFormattedData();
+  data.responses = await FieldEncryptionService.decryptAnswers(data.responses || {}, response._id);
+  return data;
+};
+
+/**
+ * Apply an edit to a response; PUT replaces every answer, PATCH only the ones sent
+ */
+const editResponse = (mode: ResponseEditMode) => async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { responses, reason, revision }: EditResponseBody = req.body;
+
+    if (!responses || typeof responses !== 'object' || Array.isArray(responses)) {
+      res.status(400).json({
+        success: false,
+        message: 'Responses must be an object'
+      });
+      return;
+    }
+
+    if (revision !== undefined && (!Number.isInteger(revision) || revision < 0)) {
+      res.status(400).json({
+        success: false,
+        message: 'Revision must be a non-negative integer'
+      });
+      return;
+    }
+
+    // Workspace members need permission to edit the form to change its answers
+    const access = await ResponseAccessService.findResponse(req.params.responseId, req.user!._id, 'editForms');
+
+    if (!access) {
+      res.status(404).json({
+        success: false,
+        message: 'Response not found'
+      });
+      return;
+    }
+
+    const { response, form } = access;
+
+    const result = await ResponseRevisionService.editResponse(response, form, responses, {
+      mode,
+      editedBy: req.user!._id,
+      reason: typeof reason === 'string' ? reason.trim() || undefined : undefined,
+      expectedRevision: revision
+    });
+
+    if (result.status === 'invalid') {
+      res.status(400).json({
+        success: false,
+        message: 'Form validation failed',
+        errors: result.errors
+      });
+      return;
+    }
+
+    if (result.status === 'conflict') {
+      res.status(409).json({
+        success: false,
+        message: 'This response was edited by someone else. Reload it and try again.',
+        code: 'RESPONSE_EDIT_CONFLICT'
+      });
+      return;
+    }
+
+    if (result.status === 'unchanged') {
+      res.status(200).json({
+        success: true,
+        message: 'No changes to save',
+        data: await formatResponse(result.response)
+      });
+      return;
+    }
+
+    await IntegrationEventService.emitForResponse('response_updated', form, result.response!);
+
+    res.status(200).json({
+      success: true,
+      message: 'Response updated successfully',
+      data: {
+        ...(await formatResponse(result.response)),
+        changes: await FieldEncryptionService.decryptChanges(result.revision!.changes, result.response!._id)
+      }
+    });
+  } catch (error: any) {
+    console.error('Edit response error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating response'
+    });
+  }
+};
+
 /**
  * @route   GET /api/responses/forms/:formId
- * @desc    Get responses for a specific form
+ * @desc    Get responses for a specific form, filtered by workflow fields, a field filter
+ *          expression (`filter`, JSON), full-text `search` and a date range, optionally
+ *          starting from a saved view (`viewId`)
  * @access  Private
  */
 router.get('/forms/:formId', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const { page = '1', limit = '20', startDate, endDate, search }: ResponsesQuery = req.query;
+    const { page = '1', limit, ...filters }: ResponsesQuery = req.query;
+    const pageNumber = Math.max(parseInt(page) || 1, 1);
 
-    // Verify form ownership
-    const form = await Form.findOne({
-      _id: req.params.formId,
-      userId: req.user!._id,
-      isActive: true
-    });
+    // Verify access to the form
+    const form = await ResponseAccessService.findForm(req.params.formId, req.user!._id);
 
     if (!form) {
       res.status(404).json({
@@ -48,39 +153,41 @@ router.get('/forms/:formId', protect, async (req: AuthenticatedRequest, res: Res
       return;
     }
 
-    // Build query options
-    const options: any = {
-      limit: parseInt(limit),
-      skip: (parseInt(page) - 1) * parseInt(limit),
-      sort: { submittedAt: -1 }
-    };
+    const { filter, sort, view, error } = await SavedViewService.resolveQuery(form, filters, req.user!._id);
 
-    if (startDate) {
-      options.startDate = startDate;
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error
+      });
+      return;
     }
 
-    if (endDate) {
-      options.endDate = endDate;
-    }
+    const pageSize = Math.min(Math.max(parseInt(limit || '') || view?.pageSize || 20, 1), 100);
 
-    // Get responses
-    const responses = await (FormResponse as any).getFormResponses(form._id, options);
-    const totalResponses = await FormResponse.countDocuments({ 
-      formId: form._id, 
-      isValid: true 
-    });
+    const [responses, totalResponses, statusCounts] = await Promise.all([
+      FormResponse.find(filter!)
+        .sort(sort!)
+        .skip((pageNumber - 1) * pageSize)
+        .limit(pageSize)
+        .populate(ResponseWorkflowService.getPopulate()),
+      FormResponse.countDocuments(filter!),
+      ResponseWorkflowService.countByStatus(filter!)
+    ]);
 
     // Format responses
-    const formattedResponses = responses.map((response: any) => response.getFormattedData());
+    const formattedResponses = await Promise.all(responses.map(formatResponse));
 
     res.status(200).json({
       success: true,
       data: formattedResponses,
+      statusCounts,
+      view: view || null,
       pagination: {
-        page: parseInt(page),
-        pages: Math.ceil(totalResponses / parseInt(limit)),
+        page: pageNumber,
+        pages: Math.ceil(totalResponses / pageSize),
         total: totalResponses,
-        limit: parseInt(limit)
+        limit: pageSize
       }
     });
   } catch (error: any) {
@@ -93,20 +200,45 @@ router.get('/forms/:formId', protect, async (req: AuthenticatedRequest, res: Res
 });
 
 /**
- * @route   GET /api/responses/forms/:formId/export
- * @desc    Export form responses to CSV
+ * @route   GET /api/responses/forms/:formId/assignees
+ * @desc    Get the members responses of a form can be assigned to
  * @access  Private
  */
-router.get('/forms/:formId/export', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.get('/forms/:formId/assignees', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const { startDate, endDate, format = 'csv' }: ExportQuery = req.query;
+    const form = await ResponseAccessService.findForm(req.params.formId, req.user!._id);
+
+    if (!form) {
+      res.status(404).json({
+        success: false,
+        message: 'Form not found'
+      });
+      return;
+    }
 
-    // Verify form ownership
-    const form = await Form.findOne({
-      _id: req.params.formId,
-      userId: req.user!._id,
-      isActive: true
-    }).lean() as unknown as IForm;
+    const assignees = await ResponseAccessService.getAssignees(form);
+
+    res.status(200).json({
+      success: true,
+      data: assignees
+    });
+  } catch (error: any) {
+    console.error('Get response assignees error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching assignees'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/responses/forms/:formId/views
+ * @desc    Get the saved views of a form: the user's own and those shared with the workspace
+ * @access  Private
+ */
+router.get('/forms/:formId/views', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const form = await ResponseAccessService.findForm(req.params.formId, req.user!._id);
 
     if (!form) {
       res.status(404).json({
@@ -116,91 +248,211 @@ router.get('/forms/:formId/export', protect, async (req: AuthenticatedRequest, r
       return;
     }
 
-    // Build query options
-    const options: any = {};
-    if (startDate) options.startDate = startDate;
-    if (endDate) options.endDate = endDate;
+    const views = await SavedView.findVisible(form._id, req.user!._id);
+
+    res.status(200).json({
+      success: true,
+      data: views
+    });
+  } catch (error: any) {
+    console.error('Get saved views error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching saved views'
+    });
+  }
+});
 
-    // Get all responses
-    const responses = await (FormResponse as any).getFormResponses(form._id, options);
+/**
+ * @route   POST /api/responses/forms/:formId/views
+ * @desc    Save a named view of a form's responses: criteria, columns, sort and page size
+ * @access  Private
+ */
+router.post('/forms/:formId/views', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const form = await ResponseAccessService.findForm(req.params.formId, req.user!._id);
 
-    if (responses.length === 0) {
+    if (!form) {
       res.status(404).json({
         success: false,
-        message: 'No responses found for the specified criteria'
+        message: 'Form not found'
       });
       return;
     }
 
-    // Prepare data for export
-    const exportData = responses.map((response: any) => {
-      const flatData: Record<string, any> = {
-        'Response ID': response._id,
-        'Submitted At': response.submittedAt,
-        'IP Address': response.ipAddress || 'N/A',
-        'Valid': response.isValid ? 'Yes' : 'No'
-      };
+    const { values, error } = SavedViewService.validate(form, req.body as ISavedViewInput, req.user!._id);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error
+      });
+      return;
+    }
 
-      // Add form field responses
-      form.fields.forEach((field: IFormField) => {
-        const value = response.responses[field.id];
-        let formattedValue = 'N/A';
+    const view = await SavedView.create({
+      ...values,
+      formId: form._id,
+      workspaceId: form.workspaceId,
+      createdBy: req.user!._id
+    });
 
-        if (value !== undefined && value !== null) {
-          if (field.type === 'file' && typeof value === 'object' && value.filename) {
-            // For file fields, export the file name and URL
-            formattedValue = `${value.originalName || value.filename} (${process.env.FRONTEND_URL || 'http://localhost:3005'}${value.url})`;
-          } else if (Array.isArray(value)) {
-            formattedValue = value.join(', ');
-          } else if (typeof value === 'object') {
-            formattedValue = JSON.stringify(value);
-          } else {
-            formattedValue = String(value);
-          }
-        }
+    res.status(201).json({
+      success: true,
+      message: 'View saved successfully',
+      data: view
+    });
+  } catch (error: any) {
+    console.error('Create saved view error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error saving view'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/responses/views/:viewId
+ * @desc    Update a saved view; only its creator or the form owner may do so
+ * @access  Private
+ */
+router.put('/views/:viewId', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const found = await SavedViewService.findForUser(req.params.viewId, req.user!._id);
 
-        flatData[field.label] = formattedValue;
+    if (!found) {
+      res.status(404).json({
+        success: false,
+        message: 'Saved view not found'
       });
+      return;
+    }
 
-      return flatData;
+    const { view, form } = found;
+    if (!SavedViewService.canManage(view, form, req.user!._id)) {
+      res.status(403).json({
+        success: false,
+        message: 'Only the creator of a view or the form owner can change it'
+      });
+      return;
+    }
+
+    const { values, error } = SavedViewService.validate(form, req.body as ISavedViewInput, req.user!._id, view);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: error
+      });
+      return;
+    }
+
+    view.set(values!);
+    await view.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'View updated successfully',
+      data: view
+    });
+  } catch (error: any) {
+    console.error('Update saved view error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating view'
     });
+  }
+});
 
-    if (format === 'json') {
-      res.setHeader('Content-Type', 'application/json');
-      res.setHeader('Content-Disposition', `attachment; filename="${form.title}-responses.json"`);
-      res.status(200).json({
-        success: true,
-        form: {
-          id: form._id,
-          title: form.title,
-          exportedAt: new Date()
-        },
-        responses: exportData
+/**
+ * @route   DELETE /api/responses/views/:viewId
+ * @desc    Delete a saved view that no integration trigger uses
+ * @access  Private
+ */
+router.delete('/views/:viewId', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const found = await SavedViewService.findForUser(req.params.viewId, req.user!._id);
+
+    if (!found) {
+      res.status(404).json({
+        success: false,
+        message: 'Saved view not found'
       });
       return;
     }
 
-    // Default to CSV export
-    try {
-      const fields = Object.keys(exportData[0]);
-      const parser = new Parser({ fields });
-      const csv = parser.parse(exportData);
+    const { view, form } = found;
+    if (!SavedViewService.canManage(view, form, req.user!._id)) {
+      res.status(403).json({
+        success: false,
+        message: 'Only the creator of a view or the form owner can delete it'
+      });
+      return;
+    }
 
-      res.setHeader('Content-Type', 'text/csv');
-      res.setHeader('Content-Disposition', `attachment; filename="${form.title}-responses.csv"`);
-      res.status(200).send(csv);
-    } catch (csvError) {
-      console.error('CSV generation error:', csvError);
-      res.status(500).json({
+    const integrations = await SavedViewService.findIntegrationsUsing(view._id);
+    if (integrations.length > 0) {
+      res.status(409).json({
         success: false,
-        message: 'Error generating CSV export'
+        message: 'This view is used by integration triggers',
+        code: 'SAVED_VIEW_IN_USE',
+        data: integrations
       });
+      return;
     }
+
+    await view.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      message: 'View deleted successfully'
+    });
   } catch (error: any) {
+    console.error('Delete saved view error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting view'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/responses/forms/:formId/export
+ * @desc    Queue a CSV export of form responses (same filters as the list)
+ * @access  Private
+ */
+router.get('/forms/:formId/export', protect, exportRateLimit, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    // Workspace members need permission to export data
+    const form = await ResponseAccessService.findForm(req.params.formId, req.user!._id, 'exportData');
+
+    if (!form) {
+      res.status(404).json({
+        success: false,
+        message: 'Form not found'
+      });
+      return;
+    }
+
+    // Exports run in the background, so large forms are never loaded into memory at once
+    const responseExport = await ExportService.queueExport(form, 'csv', req.query, {}, req.user!._id);
+
+    res.setHeader('Location', `/api/exports/jobs/${responseExport._id}`);
+    res.status(202).json({
+      success: true,
+      message: 'Export queued. You will get an email with a download link when it is ready.',
+      data: responseExport
+    });
+  } catch (error: any) {
+    if (error instanceof ExportError) {
+      res.status(400).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
     console.error('Export responses error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error exporting form responses'
+      message: 'Error queuing export'
     });
   }
 });
@@ -212,14 +464,11 @@ router.get('/forms/:formId/export', protect, async (req: AuthenticatedRequest, r
  */
 router.get('/:responseId', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const response = await FormResponse.findById(req.params.responseId)
-      .populate({
-        path: 'formId',
-        match: { userId: req.user!._id },
-        select: 'title fields userId'
-      });
+    const access = await ResponseAccessService.findResponse(req.params.responseId, req.user!._id);
+    const response = access && await FormResponse.findById(access.response._id)
+      .populate(ResponseWorkflowService.getPopulate());
 
-    if (!response || !response.formId) {
+    if (!access || !response) {
       res.status(404).json({
         success: false,
         message: 'Response not found'
@@ -230,10 +479,10 @@ router.get('/:responseId', protect, async (req: AuthenticatedRequest, res: Respo
     res.status(200).json({
       success: true,
       data: {
-        ...(response as any).getFormattedData(),
+        ...(await formatResponse(response)),
         form: {
-          title: (response.formId as any).title,
-          fields: (response.formId as any).fields
+          title: access.form.title,
+          fields: access.form.fields
         }
       }
     });
@@ -246,6 +495,263 @@ router.get('/:responseId', protect, async (req: AuthenticatedRequest, res: Respo
   }
 });
 
+/**
+ * @route   PUT /api/responses/:responseId
+ * @desc    Replace the answers of a response
+ * @access  Private
+ */
+router.put('/:responseId', protect, editResponse('replace'));
+
+/**
+ * @route   PATCH /api/responses/:responseId
+ * @desc    Update some answers of a response
+ * @access  Private
+ */
+router.patch('/:responseId', protect, editResponse('merge'));
+
+/**
+ * @route   GET /api/responses/:responseId/history
+ * @desc    Get the edit history of a response
+ * @access  Private
+ */
+router.get('/:responseId/history', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const access = await ResponseAccessService.findResponse(req.params.responseId, req.user!._id);
+
+    if (!access) {
+      res.status(404).json({
+        success: false,
+        message: 'Response not found'
+      });
+      return;
+    }
+
+    const { response } = access;
+    const revisions = await Promise.all((await ResponseRevision.findByResponse(req.params.responseId)).map(async revision => ({
+      ...revision.toObject(),
+      changes: await FieldEncryptionService.decryptChanges(revision.changes, response._id)
+    })));
+
+    res.status(200).json({
+      success: true,
+      data: {
+        responseId: response._id,
+        revision: response.revision || 0,
+        submittedAt: response.submittedAt,
+        revisions
+      }
+    });
+  } catch (error: any) {
+    console.error('Get response history error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching response history'
+    });
+  }
+});
+
+/**
+ * @route   PATCH /api/responses/:responseId/workflow
+ * @desc    Change the status, tags or assignee of a response; moving quarantined spam out of spam releases it to integrations
+ * @access  Private
+ */
+router.patch('/:responseId/workflow', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { status, tags, assignedTo }: IResponseWorkflowUpdate = req.body;
+    const access = await ResponseAccessService.findResponse(req.params.responseId, req.user!._id);
+
+    if (!access) {
+      res.status(404).json({
+        success: false,
+        message: 'Response not found'
+      });
+      return;
+    }
+
+    const result = await ResponseWorkflowService.updateWorkflow(access.response, access.form, { status, tags, assignedTo });
+
+    if (result.error) {
+      res.status(400).json({
+        success: false,
+        message: result.error
+      });
+      return;
+    }
+
+    if (result.conflict) {
+      res.status(409).json({
+        success: false,
+        message: 'This response was moved into or out of spam by someone else. Reload it and try again.',
+        code: 'RESPONSE_STATUS_CONFLICT'
+      });
+      return;
+    }
+
+    // Integrations and notifications skipped spam; they see a released response as a new submission
+    if (result.released) {
+      await IntegrationEventService.emitForResponse('form_submitted', access.form, result.response!);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Response updated successfully',
+      data: await formatResponse(result.response)
+    });
+  } catch (error: any) {
+    console.error('Update response workflow error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating response'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/responses/:responseId/notes
+ * @desc    Add an internal note to a response
+ * @access  Private
+ */
+router.post('/:responseId/notes', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const access = await ResponseAccessService.findResponse(req.params.responseId, req.user!._id);
+
+    if (!access) {
+      res.status(404).json({
+        success: false,
+        message: 'Response not found'
+      });
+      return;
+    }
+
+    const result = await ResponseWorkflowService.addNote(access.response._id, req.user!._id, req.body.body);
+
+    if (result.error) {
+      res.status(400).json({
+        success: false,
+        message: result.error
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Note added successfully',
+      data: await formatResponse(result.response)
+    });
+  } catch (error: any) {
+    console.error('Add response note error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error adding note'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/responses/:responseId/notes/:noteId
+ * @desc    Delete an internal note; allowed for its author and the form owner
+ * @access  Private
+ */
+router.delete('/:responseId/notes/:noteId', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const access = await ResponseAccessService.findResponse(req.params.responseId, req.user!._id);
+
+    if (!access) {
+      res.status(404).json({
+        success: false,
+        message: 'Response not found'
+      });
+      return;
+    }
+
+    const result = await ResponseWorkflowService.removeNote(access.response, access.form, req.params.noteId, req.user!._id);
+
+    if (result.error) {
+      res.status(result.error === 'FORBIDDEN' ? 403 : 404).json({
+        success: false,
+        message: result.error === 'FORBIDDEN' ? 'You can only delete your own notes' : 'Note not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Note deleted successfully',
+      data: await formatResponse(result.response)
+    });
+  } catch (error: any) {
+    console.error('Delete response note error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting note'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/responses/:responseId/files/:fileId
+ * @desc    Download a file uploaded with a response
+ * @access  Private
+ */
+router.get('/:responseId/files/:fileId', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const found = await ResponseAccessService.findResponse(req.params.responseId, req.user!._id);
+    const file = found && FileStorageService.findFile(found.response, req.params.fileId);
+
+    if (!file || !(await FileStorageService.sendFile(res, file))) {
+      res.status(404).json({
+        success: false,
+        message: 'File not found'
+      });
+    }
+  } catch (error: any) {
+    console.error('Download response file error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error downloading file'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/responses/:responseId/files/:fileId/link
+ * @desc    Create a short-lived link that downloads a file without signing in
+ * @access  Private
+ */
+router.post('/:responseId/files/:fileId/link', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const found = await ResponseAccessService.findResponse(req.params.responseId, req.user!._id);
+    const file = found && FileStorageService.findFile(found.response, req.params.fileId);
+
+    if (!file) {
+      res.status(404).json({
+        success: false,
+        message: 'File not found'
+      });
+      return;
+    }
+
+    if (!file.storageKey) {
+      res.status(409).json({
+        success: false,
+        message: 'This file has not been moved to private storage yet; run the file storage migration'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: FileStorageService.createSignedUrl(file)
+    });
+  } catch (error: any) {
+    console.error('Create file link error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error creating file link'
+    });
+  }
+});
+
 /**
  * @route   DELETE /api/responses/:responseId
  * @desc    Delete a response
@@ -257,7 +763,7 @@ router.delete('/:responseId', protect, async (req: AuthenticatedRequest, res: Re
       .populate({
         path: 'formId',
         match: { userId: req.user!._id },
-        select: 'userId'
+        select: 'userId workspaceId title'
       });
 
     if (!response || !response.formId) {
@@ -269,12 +775,18 @@ router.delete('/:responseId', protect, async (req: AuthenticatedRequest, res: Re
     }
 
     await FormResponse.findByIdAndDelete(req.params.responseId);
+    await ResponseRevision.deleteMany({ responseId: response._id });
+    await FileUploadService.removeResponseFiles(response.formId as any, response);
+
+    // Decrement submissions count; invalid responses and quarantined spam were never counted
+    if (response.isValid && response.status !== 'spam') {
+      await Form.findByIdAndUpdate(
+        (response.formId as any)._id,
+        { $inc: { 'analytics.submissions': -1 } }
+      );
+    }
 
-    // Decrement submissions count
-    await Form.findByIdAndUpdate(
-      (response.formId as any)._id,
-      { $inc: { 'analytics.submissions': -1 } }
-    );
+    await IntegrationEventService.emitForResponse('response_deleted', response.formId as any, response);
 
     res.status(200).json({
       success: true,
@@ -296,12 +808,8 @@ router.delete('/:responseId', protect, async (req: AuthenticatedRequest, res: Re
  */
 router.get('/forms/:formId/analytics', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    // Verify form ownership
-    const form = await Form.findOne({
-      _id: req.params.formId,
-      userId: req.user!._id,
-      isActive: true
-    });
+    // Verify access to the form
+    const form = await ResponseAccessService.findForm(req.params.formId, req.user!._id);
 
     if (!form) {
       res.status(404).json({
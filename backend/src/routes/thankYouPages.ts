@@ -6,6 +6,7 @@ import Form from '../models/Form';
 import FormResponse from '../models/FormResponse';
 import CustomThankYouPageService from '../services/CustomThankYouPageService';
 import ConfettiAnimationService from '../services/ConfettiAnimationService';
+import FieldEncryptionService from '../services/FieldEncryptionService';
 
 const router = express.Router();
 
@@ -262,7 +263,8 @@ router.get('/render/:formId/:responseId', async (req: express.Request, res: Resp
       return;
     }
 
-    // Process dynamic content
+    // Process dynamic content; the page is public, so sensitive answers are never shown on it
+    formResponse.responses = FieldEncryptionService.redactAnswers(formResponse.responses);
     const processedConfig = CustomThankYouPageService.processThankYouPageContent(
       thankYouPage,
       formResponse,
@@ -5,6 +5,8 @@ import { body } from 'express-validator';
 import Workspace from '../models/Workspace';
 import User from '../models/User';
 import Form from '../models/Form';
+import FieldEncryptionService from '../services/FieldEncryptionService';
+import DataRetentionService from '../services/DataRetentionService';
 import { IWorkspace, IWorkspaceMember } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -64,6 +66,19 @@ const validateMemberUpdate = [
     .withMessage('Permissions must be an object'),
 ];
 
+// Retention settings validation (days, 0 turns a setting off)
+const validateRetention = [
+  body('deleteResponsesAfter')
+    .optional()
+    .isInt({ min: 0, max: 3650 })
+    .withMessage('deleteResponsesAfter must be a number of days between 0 and 3650'),
+
+  body('anonymizeAfter')
+    .optional()
+    .isInt({ min: 0, max: 3650 })
+    .withMessage('anonymizeAfter must be a number of days between 0 and 3650'),
+];
+
 // Query interfaces
 interface WorkspaceQuery {
   page?: string;
@@ -73,6 +88,21 @@ interface WorkspaceQuery {
   sortOrder?: 'asc' | 'desc';
 }
 
+/**
+ * Find a workspace the user owns or administers
+ */
+const findManagedWorkspace = async (workspaceId: string, userId: string): Promise<{ workspace: IWorkspace | null; allowed: boolean }> => {
+  const workspace = await Workspace.findById(workspaceId);
+  if (!workspace) return { workspace: null, allowed: false };
+
+  const isOwner = workspace.ownerId.toString() === userId;
+  const isAdmin = workspace.members.some((member: any) =>
+    member.userId.toString() === userId && member.role === 'admin' && member.status === 'active'
+  );
+
+  return { workspace, allowed: isOwner || isAdmin };
+};
+
 /**
  * @route   GET /api/workspaces
  * @desc    Get user's workspaces (owned and member)
@@ -725,4 +755,95 @@ router.get('/:id/forms', protect, async (req: AuthenticatedRequest, res: Respons
   }
 });
 
+/**
+ * @route   GET /api/workspaces/:id/encryption
+ * @desc    Get the workspace's field encryption keys, sensitive fields and latest re-encryption
+ * @access  Private
+ */
+router.get('/:id/encryption', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { workspace, allowed } = await findManagedWorkspace(req.params.id, req.user!._id.toString());
+
+    if (!workspace) {
+      res.status(404).json({
+        success: false,
+        message: 'Workspace not found'
+      });
+      return;
+    }
+
+    if (!allowed) {
+      res.status(403).json({
+        success: false,
+        message: 'Only workspace owners and admins can manage encryption keys'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: await FieldEncryptionService.getStatus(FieldEncryptionService.getScope({ workspaceId: workspace._id, userId: workspace.ownerId }))
+    });
+  } catch (error: any) {
+    console.error('Get workspace encryption error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching workspace encryption'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/workspaces/:id/encryption/rotate
+ * @desc    Replace the workspace's data key and re-encrypt its sensitive answers in the background
+ * @access  Private
+ */
+router.post('/:id/encryption/rotate', protect, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { workspace, allowed } = await findManagedWorkspace(req.params.id, req.user!._id.toString());
+
+    if (!workspace) {
+      res.status(404).json({
+        success: false,
+        message: 'Workspace not found'
+      });
+      return;
+    }
+
+    if (!allowed) {
+      res.status(403).json({
+        success: false,
+        message: 'Only workspace owners and admins can manage encryption keys'
+      });
+      return;
+    }
+
+    if (!FieldEncryptionService.isConfigured()) {
+      res.status(400).json({
+        success: false,
+        message: 'Field encryption is not configured on this server'
+      });
+      return;
+    }
+
+    const scope = FieldEncryptionService.getScope({ workspaceId: workspace._id, userId: workspace.ownerId });
+    const { key, job } = await FieldEncryptionService.rotateKeys(scope, req.user!._id);
+
+    res.status(202).json({
+      success: true,
+      message: 'Encryption key rotated; stored answers are being re-encrypted',
+      data: {
+        keyVersion: key.version,
+        jobId: job._id
+      }
+    });
+  } catch (error: any) {
+    console.error('Rotate workspace encryption key error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error rotating encryption key'
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -1,4 +1,4 @@
-import express, { Application, Request, Response, NextFunction } from 'express';
+import express, { Application, Request, Response } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
@@ -6,12 +6,22 @@ import morgan from 'morgan';
 import dotenv from 'dotenv';
 import path from 'path';
 import { generalRateLimit } from './middleware/rateLimiting';
+import { blockRespondentFiles } from './middleware/uploads';
 
 // Load environment variables
 dotenv.config();
 
 import connectDB from './config/database';
 import TemplateService from './services/TemplateService';
+import JobQueueService from './services/JobQueueService';
+import IntegrationEventService from './services/IntegrationEventService';
+import MailService from './services/MailService';
+import FieldEncryptionService from './services/FieldEncryptionService';
+import DataRetentionService from './services/DataRetentionService';
+import MaintenanceService from './services/MaintenanceService';
+import SchedulerService from './services/SchedulerService';
+import DigestService from './services/DigestService';
+import ExportService from './services/ExportService';
 import authRoutes from './routes/auth';
 import formRoutes from './routes/forms';
 import publicRoutes from './routes/public';
@@ -41,6 +51,7 @@ import gdprRoutes from './routes/gdpr';
 import apiKeyRoutes from './routes/apiKeys';
 import adminRoutes from './routes/admin';
 import formBuilderRoutes from './routes/formBuilder';
+import digestRoutes from './routes/digests';
 import errorHandler from './middleware/errorHandler';
 import { EnvironmentConfig } from './types';
 
@@ -59,6 +70,24 @@ setTimeout(async () => {
   }
 }, 2000);
 
+// Start the background job worker
+IntegrationEventService.registerHandlers();
+MailService.registerHandlers();
+FieldEncryptionService.registerHandlers();
+DataRetentionService.registerHandlers();
+MaintenanceService.registerHandlers();
+SchedulerService.registerHandlers();
+DigestService.registerHandlers();
+ExportService.registerHandlers();
+if (process.env.JOB_WORKER_ENABLED !== 'false') {
+  JobQueueService.start();
+}
+
+// Queue the recurring platform tasks
+if (process.env.SCHEDULER_ENABLED !== 'false') {
+  SchedulerService.start().catch(error => console.error('Scheduler error:', error));
+}
+
 // Security middleware
 app.use(helmet({
   crossOriginEmbedderPolicy: false,
@@ -100,8 +129,8 @@ const corsOptions: cors.CorsOptions = {
     }
   },
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Form-Unlock-Token', 'X-Device-Fingerprint'],
 };
 
 app.use(cors(corsOptions));
@@ -118,9 +147,10 @@ if (process.env.NODE_ENV === 'development') {
   app.use(morgan('dev'));
 }
 
-// Serve uploaded files
+// Serve public assets such as logos and QR codes. Respondent files left over
+// from before private file storage are only served through the responses API
 const uploadDir: string = process.env.UPLOAD_DIR || path.join(__dirname, '../uploads');
-app.use('/uploads', express.static(uploadDir));
+app.use('/uploads', blockRespondentFiles, express.static(uploadDir));
 
 // Health check endpoint
 app.get('/health', (req: Request, res: Response) => {
@@ -162,6 +192,7 @@ app.use('/api/gdpr', gdprRoutes);
 app.use('/api/api-keys', apiKeyRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/form-builder', formBuilderRoutes);
+app.use('/api/digests', digestRoutes);
 
 // 404 handler
 app.use('*', (req: Request, res: Response) => {
@@ -176,13 +207,15 @@ app.use('*', (req: Request, res: Response) => {
 app.use(errorHandler);
 
 // Graceful shutdown
-process.on('SIGTERM', () => {
+process.on('SIGTERM', async () => {
   console.log('SIGTERM received. Shutting down gracefully...');
+  await JobQueueService.stop();
   process.exit(0);
 });
 
-process.on('SIGINT', () => {
+process.on('SIGINT', async () => {
   console.log('SIGINT received. Shutting down gracefully...');
+  await JobQueueService.stop();
   process.exit(0);
 });
 
@@ -1,6 +1,7 @@
 import { Types } from 'mongoose';
 import { IForm, IFormResponse } from '../types';
 import Form from '../models/Form';
+import FormActivity from '../models/FormActivity';
 import FormResponse from '../models/FormResponse';
 import User from '../models/User';
 
@@ -26,6 +27,7 @@ export class AdvancedAnalyticsService {
       }
 
       await form.save();
+      await FormActivity.record(form._id, 'views');
       await this.recordEvent('form_view', formId, sessionData);
     } catch (error) {
       console.error('Error tracking form view:', error);
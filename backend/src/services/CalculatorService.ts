@@ -1,4 +1,5 @@
-import { IFormField, ICalculation } from '../types';
+import { IFormField, ICalculation, ICalculatedValue, IFormulaError } from '../types';
+import FormulaEvaluator from './FormulaEvaluator';
 
 /**
  * Calculator Service
@@ -14,10 +15,32 @@ export class CalculatorService {
    */
   static processCalculations(fields: IFormField[], responses: Record<string, any>): Record<string, any> {
     const calculatedValues: Record<string, any> = {};
+
+    Object.entries(this.computeCalculations(fields, responses)).forEach(([fieldId, result]) => {
+      calculatedValues[fieldId] = result.formatted;
+    });
+
+    return calculatedValues;
+  }
+
+  /**
+   * Compute calculations for all form fields, keeping raw and formatted results
+   * Values already present in responses for calculated fields are ignored
+   * @param fields - Array of form fields
+   * @param responses - Current user responses
+   * @returns Raw numeric value and display value for each calculated field
+   */
+  static computeCalculations(fields: IFormField[], responses: Record<string, any>): Record<string, ICalculatedValue> {
+    const calculatedValues: Record<string, ICalculatedValue> = {};
     const calculationContext: Record<string, number> = {};
+    const calculatedFields = fields.filter(f => f.calculation?.enabled);
+    const workingResponses: Record<string, any> = { ...responses };
+    calculatedFields.forEach(field => delete workingResponses[field.id]);
 
     // First, extract all numeric values for calculations
     fields.forEach(field => {
+      if (field.calculation?.enabled) return;
+
       const value = responses[field.id];
       if (value !== undefined && value !== null && value !== '') {
         const numericValue = this.parseNumericValue(value, field.type);
@@ -31,15 +54,19 @@ export class CalculatorService {
     const processedFields = new Set<string>();
     let maxIterations = fields.length * 2; // Prevent infinite loops
     
-    while (processedFields.size < fields.filter(f => f.calculation?.enabled).length && maxIterations > 0) {
-      fields.forEach(field => {
-        if (field.calculation?.enabled && !processedFields.has(field.id)) {
+    while (processedFields.size < calculatedFields.length && maxIterations > 0) {
+      calculatedFields.forEach(field => {
+        if (!processedFields.has(field.id)) {
           const canCalculate = this.canCalculateField(field, calculationContext, processedFields);
           
           if (canCalculate) {
-            const calculatedValue = this.calculateFieldValue(field, calculationContext, responses);
+            const calculatedValue = this.calculateFieldValue(field, calculationContext, workingResponses);
             if (calculatedValue !== null) {
-              calculatedValues[field.id] = this.formatCalculatedValue(calculatedValue, field.calculation!);
+              workingResponses[field.id] = calculatedValue;
+              calculatedValues[field.id] = {
+                value: calculatedValue,
+                formatted: this.formatCalculatedValue(calculatedValue, field.calculation!)
+              };
               calculationContext[field.id] = calculatedValue;
               processedFields.add(field.id);
             }
@@ -68,30 +95,12 @@ export class CalculatorService {
     if (!calculation?.enabled || !calculation.formula) return null;
 
     try {
-      // Replace field references in formula with actual values
-      let processedFormula = calculation.formula;
-      
-      // Handle field references like {{fieldId}}
-      const fieldReferences = processedFormula.match(/\{\{([^}]+)\}\}/g);
-      if (fieldReferences) {
-        fieldReferences.forEach(reference => {
-          const fieldId = reference.replace(/\{\{|\}\}/g, '').trim();
-          const value = calculationContext[fieldId];
-          if (value !== undefined) {
-            processedFormula = processedFormula.replace(reference, value.toString());
-          } else {
-            processedFormula = processedFormula.replace(reference, '0');
-          }
-        });
-      }
+      // Fields resolve to the raw answer so text and date functions see the original value
+      const result = FormulaEvaluator.evaluate(calculation.formula, fieldId =>
+        responses[fieldId] !== undefined ? responses[fieldId] : calculationContext[fieldId]
+      );
 
-      // Process built-in functions
-      processedFormula = this.processCalculationFunctions(processedFormula, calculationContext);
-
-      // Evaluate the mathematical expression safely
-      const result = this.evaluateExpression(processedFormula);
-      
-      return result;
+      return FormulaEvaluator.toNumber(result);
     } catch (error) {
       console.error(`Calculation error for field ${field.id}:`, error);
       return null;
@@ -159,126 +168,17 @@ export class CalculatorService {
   }
 
   /**
-   * Process calculation functions in formula
-   * @param formula - Formula string
-   * @param context - Calculation context
-   * @returns Processed formula
-   */
-  static processCalculationFunctions(formula: string, context: Record<string, number>): string {
-    let processedFormula = formula;
-
-    // Function: SUM(field1, field2, ...)
-    processedFormula = processedFormula.replace(
-      /SUM\(([^)]+)\)/gi,
-      (match, fieldList) => {
-        const fieldIds = fieldList.split(',').map((id: string) => id.trim());
-        const sum = fieldIds.reduce((total: number, fieldId: string) => {
-          const value = context[fieldId] || 0;
-          return total + value;
-        }, 0);
-        return sum.toString();
-      }
-    );
-
-    // Function: AVG(field1, field2, ...)
-    processedFormula = processedFormula.replace(
-      /AVG\(([^)]+)\)/gi,
-      (match, fieldList) => {
-        const fieldIds = fieldList.split(',').map((id: string) => id.trim());
-        const values = fieldIds.map((fieldId: string) => context[fieldId] || 0);
-        const avg = values.length > 0 ? values.reduce((a: number, b: number) => a + b, 0) / values.length : 0;
-        return avg.toString();
-      }
-    );
-
-    // Function: MIN(field1, field2, ...)
-    processedFormula = processedFormula.replace(
-      /MIN\(([^)]+)\)/gi,
-      (match, fieldList) => {
-        const fieldIds = fieldList.split(',').map((id: string) => id.trim());
-        const values = fieldIds.map((fieldId: string) => context[fieldId] || 0);
-        const min = values.length > 0 ? Math.min(...values) : 0;
-        return min.toString();
-      }
-    );
-
-    // Function: MAX(field1, field2, ...)
-    processedFormula = processedFormula.replace(
-      /MAX\(([^)]+)\)/gi,
-      (match, fieldList) => {
-        const fieldIds = fieldList.split(',').map((id: string) => id.trim());
-        const values = fieldIds.map((fieldId: string) => context[fieldId] || 0);
-        const max = values.length > 0 ? Math.max(...values) : 0;
-        return max.toString();
-      }
-    );
-
-    // Function: COUNT(field1, field2, ...)
-    processedFormula = processedFormula.replace(
-      /COUNT\(([^)]+)\)/gi,
-      (match, fieldList) => {
-        const fieldIds = fieldList.split(',').map((id: string) => id.trim());
-        const count = fieldIds.filter((fieldId: string) => context[fieldId] !== undefined).length;
-        return count.toString();
-      }
-    );
-
-    // Function: IF(condition, trueValue, falseValue)
-    processedFormula = processedFormula.replace(
-      /IF\(([^,]+),([^,]+),([^)]+)\)/gi,
-      (match, condition, trueValue, falseValue) => {
-        try {
-          const conditionResult = this.evaluateExpression(condition.trim());
-          return conditionResult ? trueValue.trim() : falseValue.trim();
-        } catch {
-          return falseValue.trim();
-        }
-      }
-    );
-
-    // Mathematical functions
-    processedFormula = processedFormula.replace(/SQRT\(([^)]+)\)/gi, (match, value) => {
-      const num = parseFloat(value);
-      return isNaN(num) ? '0' : Math.sqrt(num).toString();
-    });
-
-    processedFormula = processedFormula.replace(/ABS\(([^)]+)\)/gi, (match, value) => {
-      const num = parseFloat(value);
-      return isNaN(num) ? '0' : Math.abs(num).toString();
-    });
-
-    processedFormula = processedFormula.replace(/ROUND\(([^,]+),([^)]+)\)/gi, (match, value, decimals) => {
-      const num = parseFloat(value);
-      const dec = parseInt(decimals) || 0;
-      return isNaN(num) ? '0' : num.toFixed(dec);
-    });
-
-    return processedFormula;
-  }
-
-  /**
-   * Safely evaluate mathematical expression
-   * @param expression - Mathematical expression string
-   * @returns Calculated result
+   * Evaluate a standalone expression that contains no field references
+   * @param expression - Expression string
+   * @returns Calculated result, or 0 if the expression is invalid
    */
   static evaluateExpression(expression: string): number {
-    // Remove any non-mathematical characters for security
-    const sanitized = expression.replace(/[^0-9+\-*/().\s]/g, '');
-    
-    // Basic validation
-    if (!sanitized || sanitized.trim() === '') {
+    if (!expression || expression.trim() === '') {
       return 0;
     }
 
     try {
-      // Use Function constructor for safer evaluation than eval
-      const result = new Function(`return ${sanitized}`)();
-      
-      if (typeof result === 'number' && !isNaN(result) && isFinite(result)) {
-        return result;
-      }
-      
-      return 0;
+      return FormulaEvaluator.toNumber(FormulaEvaluator.evaluate(expression, () => null));
     } catch (error) {
       console.error('Expression evaluation error:', error);
       return 0;
@@ -333,23 +233,11 @@ export class CalculatorService {
       calculation.dependencies.forEach(dep => dependencies.add(dep));
     }
 
-    // Extract dependencies from formula
-    const fieldReferences = calculation.formula.match(/\{\{([^}]+)\}\}/g);
-    if (fieldReferences) {
-      fieldReferences.forEach(reference => {
-        const fieldId = reference.replace(/\{\{|\}\}/g, '').trim();
-        dependencies.add(fieldId);
-      });
-    }
-
-    // Extract from function calls
-    const functionMatches = calculation.formula.match(/(SUM|AVG|MIN|MAX|COUNT)\(([^)]+)\)/gi);
-    if (functionMatches) {
-      functionMatches.forEach(match => {
-        const fieldList = match.replace(/(SUM|AVG|MIN|MAX|COUNT)\(|\)/gi, '');
-        const fieldIds = fieldList.split(',').map(id => id.trim());
-        fieldIds.forEach(fieldId => dependencies.add(fieldId));
-      });
+    // Extract dependencies from formula, including arguments of nested function calls
+    try {
+      FormulaEvaluator.getFieldReferences(calculation.formula).forEach(fieldId => dependencies.add(fieldId));
+    } catch {
+      // Syntax errors are reported by validateCalculations
     }
 
     return Array.from(dependencies);
@@ -364,9 +252,11 @@ export class CalculatorService {
     isValid: boolean;
     errors: string[];
     warnings: string[];
+    formulaErrors: Array<IFormulaError & { fieldId: string }>;
   } {
     const errors: string[] = [];
     const warnings: string[] = [];
+    const formulaErrors: Array<IFormulaError & { fieldId: string }> = [];
     const fieldIds = new Set(fields.map(f => f.id));
 
     fields.forEach(field => {
@@ -395,18 +285,12 @@ export class CalculatorService {
         errors.push(`Field ${field.id}: Calculation cannot reference itself`);
       }
 
-      // Validate formula syntax
-      try {
-        // Test formula with dummy values
-        const testContext: Record<string, number> = {};
-        dependencies.forEach(depId => {
-          testContext[depId] = 1;
-        });
-        
-        this.calculateFieldValue(field, testContext, {});
-      } catch (error) {
-        warnings.push(`Field ${field.id}: Formula may have syntax issues - ${error}`);
-      }
+      // Validate formula syntax and field references
+      const formulaValidation = FormulaEvaluator.validate(calculation.formula, fieldIds);
+      formulaValidation.errors.forEach(error => {
+        formulaErrors.push({ fieldId: field.id, ...error });
+        errors.push(`Field ${field.id}: ${error.message} at position ${error.position + 1}`);
+      });
 
       // Check display type
       if (!['currency', 'percentage', 'number', 'decimal'].includes(calculation.displayType)) {
@@ -423,7 +307,8 @@ export class CalculatorService {
     return {
       isValid: errors.length === 0,
       errors,
-      warnings
+      warnings,
+      formulaErrors
     };
   }
 
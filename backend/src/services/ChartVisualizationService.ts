@@ -1,5 +1,5 @@
 import { Types } from 'mongoose';
-import { IForm, IFormResponse } from '../types';
+import { IForm, IFormField, IFormResponse } from '../types';
 import Form from '../models/Form';
 import FormResponse from '../models/FormResponse';
 
@@ -300,17 +300,19 @@ export class ChartVisualizationService {
    * Generate heatmap chart for form activity by time
    * @param formId - Form identifier
    * @param dateRange - Date range for data
+   * @param query - Responses to include, e.g. a saved view's; defaults to all of the form's
    * @returns Heatmap chart configuration and data
    */
   static async generateActivityHeatmapChart(
     formId: string,
-    dateRange: IDateRange
+    dateRange: IDateRange,
+    query?: Record<string, any>
   ): Promise<IChartData> {
     try {
-      const responses = await FormResponse.find({
-        formId: new Types.ObjectId(formId),
-        submittedAt: { $gte: dateRange.start, $lte: dateRange.end }
-      }).select('submittedAt');
+      const inRange = { submittedAt: { $gte: dateRange.start, $lte: dateRange.end } };
+      const responses = await FormResponse.find(
+        query ? { $and: [query, inRange] } : { formId: new Types.ObjectId(formId), ...inRange }
+      ).select('submittedAt');
 
       // Create 24x7 grid (hours x days of week)
       const heatmapData = this.createActivityHeatmapData(responses);
@@ -384,6 +386,84 @@ export class ChartVisualizationService {
     }
   }
 
+  /**
+   * Generate bar chart of the answers given to a field
+   * @param form - Form the field belongs to
+   * @param field - Field to break down
+   * @param query - Responses to include, e.g. a saved view's
+   * @param limit - Number of most common answers to show
+   * @returns Bar chart configuration and data
+   */
+  static async generateFieldBreakdownChart(
+    form: Pick<IForm, '_id' | 'title'>,
+    field: IFormField,
+    query: Record<string, any>,
+    limit: number = 20
+  ): Promise<IChartData> {
+    try {
+      const results = await FormResponse.aggregate([
+        { $match: query },
+        { $project: { value: `$responses.${field.id}` } },
+        // Each checkbox choice counts separately
+        { $unwind: '$value' },
+        { $match: { value: { $nin: [null, ''] } } },
+        { $group: { _id: '$value', count: { $sum: 1 } } },
+        { $sort: { count: -1, _id: 1 } },
+        { $limit: limit }
+      ]);
+
+      if (results.length === 0) {
+        return this.createEmptyChart('bar', field.label, 'No answers yet');
+      }
+
+      return {
+        type: 'bar',
+        title: field.label,
+        data: {
+          labels: results.map(result => this.truncateText(String(result._id), 30)),
+          datasets: [{
+            label: 'Responses',
+            data: results.map(result => result.count),
+            backgroundColor: 'rgba(54, 162, 235, 0.8)',
+            borderColor: 'rgba(54, 162, 235, 1)',
+            borderWidth: 1
+          }]
+        },
+        options: {
+          responsive: true,
+          indexAxis: 'y',
+          plugins: {
+            title: {
+              display: true,
+              text: `${field.label}: most common answers`
+            },
+            legend: {
+              display: false
+            }
+          },
+          scales: {
+            x: {
+              beginAtZero: true,
+              title: {
+                display: true,
+                text: 'Responses'
+              }
+            }
+          }
+        },
+        metadata: {
+          formId: form._id,
+          fieldId: field.id,
+          distinctAnswers: results.length,
+          totalAnswers: results.reduce((sum, result) => sum + result.count, 0)
+        }
+      };
+    } catch (error) {
+      console.error('Error generating field breakdown chart:', error);
+      throw error;
+    }
+  }
+
   /**
    * Generate dashboard widget data
    * @param userId - User identifier
@@ -0,0 +1,327 @@
+import Form from '../models/Form';
+import WebhookDeliveryService from './WebhookDeliveryService';
+import NotificationTemplateService from './NotificationTemplateService';
+import {
+  IFormField,
+  IIntegration,
+  IIntegrationEvent,
+  IIntegrationExecution,
+  IIntegrationExecutionContext,
+  IntegrationType,
+  IDiscordSettings,
+  INotificationAnswer,
+  TriggerEvent
+} from '../types';
+
+const CHAT_TYPES: IntegrationType[] = ['slack', 'discord', 'teams'];
+
+// Platform limits for a single message
+const LIMITS = {
+  slack: { text: 3000, fieldLabel: 150, fieldValue: 2000, header: 150, fields: 45 },
+  discord: { title: 256, description: 4096, fieldName: 256, fieldValue: 1024, fields: 25, content: 2000 },
+  teams: { text: 4000, fieldValue: 1000, fields: 50 }
+};
+
+const EVENT_TITLES: Record<TriggerEvent, string> = {
+  form_submitted: 'New response',
+  form_viewed: 'Form viewed',
+  form_started: 'Form started',
+  form_completed: 'Form completed',
+  form_abandoned: 'Form abandoned',
+  response_updated: 'Response updated',
+  response_deleted: 'Response deleted'
+};
+
+export interface IChatMessage {
+  title: string;
+  text?: string;
+  answers: INotificationAnswer[];
+  responseUrl?: string;
+  occurredAt: Date;
+  mentions: string[];
+}
+
+/**
+ * Chat Notification Service
+ * Builds Slack Block Kit, Discord embed and Teams Adaptive Card messages for
+ * incoming webhooks and delivers them through the webhook delivery pipeline
+ */
+export class ChatNotificationService {
+
+  /**
+   * Check whether an integration type posts to a chat incoming webhook
+   * @param type - Integration type
+   * @returns Whether deliveries go through this service
+   */
+  static isChatType(type: IntegrationType): boolean {
+    return CHAT_TYPES.includes(type);
+  }
+
+  /**
+   * Render an event as a chat message and deliver it to the integration's incoming webhook
+   * @param integration - Slack, Discord or Teams integration
+   * @param event - Event to deliver
+   * @param context - Delivery identifier and attempt number
+   * @returns Stored execution record
+   */
+  static async deliver(
+    integration: IIntegration,
+    event: IIntegrationEvent,
+    context: IIntegrationExecutionContext
+  ): Promise<IIntegrationExecution> {
+    const form = await Form.findById(event.formId).select('fields').lean();
+    const payload = this.buildPayload(integration, event, (form?.fields || []) as IFormField[]);
+
+    return WebhookDeliveryService.deliver(integration, event, context, payload);
+  }
+
+  /**
+   * Build the platform-specific request body for an event
+   * @param integration - Slack, Discord or Teams integration
+   * @param event - Event to render
+   * @param fields - Form fields, used for labels and ordering
+   * @returns Incoming webhook payload
+   */
+  static buildPayload(integration: IIntegration, event: IIntegrationEvent, fields: IFormField[] = []): Record<string, any> {
+    const settings = this.getSettings(integration);
+    // Slack mrkdwn treats &, < and > in answers as markup
+    const escapeValue = integration.type === 'slack' ? (value: string) => this.escapeSlack(value) : undefined;
+    const message = this.buildMessage(event, fields, settings, escapeValue);
+
+    switch (integration.type) {
+      case 'slack':
+        return this.buildSlackMessage(message);
+      case 'discord':
+        return this.buildDiscordMessage(message, settings);
+      case 'teams':
+        return this.buildTeamsMessage(message);
+      default:
+        throw new Error(`Integration type ${integration.type} is not a chat integration`);
+    }
+  }
+
+  /**
+   * Collect the platform-independent parts of a message
+   * @param event - Event to render
+   * @param fields - Form fields
+   * @param settings - Message format settings
+   * @param escapeValue - Escapes answers and labels for the target platform's markup
+   * @returns Message title, text and answers
+   */
+  static buildMessage(
+    event: IIntegrationEvent,
+    fields: IFormField[],
+    settings: Partial<IDiscordSettings> = {},
+    escapeValue: (value: string) => string = value => value
+  ): IChatMessage {
+    const messageFormat = settings.messageFormat || 'simple';
+    const answers = messageFormat === 'detailed'
+      ? NotificationTemplateService.getAnswers(event, fields, !!settings.includeAttachments)
+        .map(answer => ({ label: escapeValue(answer.label), value: escapeValue(answer.value) }))
+      : [];
+
+    let text: string | undefined;
+    if (messageFormat === 'custom' && settings.customTemplate) {
+      text = NotificationTemplateService.renderTemplate(settings.customTemplate, event, fields, !!settings.includeAttachments, escapeValue);
+    } else if (messageFormat === 'simple') {
+      const answerCount = Object.keys(event.responses || {}).length;
+      text = `${answerCount} answer${answerCount === 1 ? '' : 's'} received`;
+    }
+
+    return {
+      title: `${EVENT_TITLES[event.eventType] || event.eventType}: ${event.form.title}`,
+      text,
+      answers,
+      responseUrl: NotificationTemplateService.getResponseUrl(event),
+      occurredAt: new Date(event.occurredAt),
+      mentions: settings.mentionUsers || []
+    };
+  }
+
+  /**
+   * Shorten text to a maximum length without splitting multi-byte characters
+   * @param value - Text to shorten
+   * @param maxLength - Maximum length in UTF-16 code units, as counted by the chat APIs
+   * @returns Text that fits, ending in an ellipsis when shortened
+   */
+  static truncate(value: string, maxLength: number): string {
+    if (value.length <= maxLength) return value;
+
+    let truncated = '';
+    for (const character of Array.from(value)) {
+      if (truncated.length + character.length > maxLength - 1) break;
+      truncated += character;
+    }
+
+    return `${truncated}…`;
+  }
+
+  // Platform builders
+
+  private static buildSlackMessage(message: IChatMessage): Record<string, any> {
+    const limits = LIMITS.slack;
+    const mentions = message.mentions.map(userId => `<@${userId}>`).join(' ');
+    const blocks: any[] = [{
+      type: 'header',
+      text: { type: 'plain_text', text: this.truncateSlack(message.title, limits.header), emoji: true }
+    }];
+
+    const text = [mentions, message.text].filter(Boolean).join('\n');
+    if (text) {
+      blocks.push({ type: 'section', text: { type: 'mrkdwn', text: this.truncateSlack(text, limits.text) } });
+    }
+
+    // Sections hold at most 10 fields each
+    const answers = message.answers.slice(0, limits.fields);
+    for (let i = 0; i < answers.length; i += 10) {
+      blocks.push({
+        type: 'section',
+        fields: answers.slice(i, i + 10).map(answer => ({
+          type: 'mrkdwn',
+          text: this.truncateSlack(`*${this.truncateSlack(answer.label, limits.fieldLabel)}*\n${answer.value}`, limits.fieldValue)
+        }))
+      });
+    }
+
+    if (message.responseUrl) {
+      blocks.push({
+        type: 'actions',
+        elements: [{
+          type: 'button',
+          text: { type: 'plain_text', text: 'View response' },
+          url: message.responseUrl
+        }]
+      });
+    }
+
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `Youform • <!date^${Math.floor(message.occurredAt.getTime() / 1000)}^{date_short_pretty} at {time}|${message.occurredAt.toISOString()}>` }]
+    });
+
+    return {
+      // Fallback for notifications and clients without Block Kit
+      text: this.truncateSlack(this.escapeSlack(message.title), limits.text),
+      blocks
+    };
+  }
+
+  private static buildDiscordMessage(message: IChatMessage, settings: Partial<IDiscordSettings>): Record<string, any> {
+    const limits = LIMITS.discord;
+    const embed: Record<string, any> = {
+      title: this.truncate(message.title, limits.title),
+      url: message.responseUrl,
+      color: this.parseColor(settings.color),
+      timestamp: message.occurredAt.toISOString(),
+      footer: { text: 'Youform' }
+    };
+
+    if (message.text) {
+      embed.description = this.truncate(message.text, limits.description);
+    }
+    if (message.answers.length > 0) {
+      embed.fields = message.answers.slice(0, limits.fields).map(answer => ({
+        name: this.truncate(answer.label, limits.fieldName),
+        value: this.truncate(answer.value, limits.fieldValue),
+        inline: false
+      }));
+    }
+
+    return {
+      ...(settings.username && { username: settings.username }),
+      ...(settings.avatarUrl && { avatar_url: settings.avatarUrl }),
+      ...(message.mentions.length > 0 && {
+        content: this.truncate(message.mentions.map(userId => `<@${userId}>`).join(' '), limits.content)
+      }),
+      embeds: [embed],
+      // Only ping the configured users, never @everyone or roles typed into answers
+      allowed_mentions: { parse: [], users: message.mentions }
+    };
+  }
+
+  private static buildTeamsMessage(message: IChatMessage): Record<string, any> {
+    const limits = LIMITS.teams;
+    const body: any[] = [{
+      type: 'TextBlock',
+      text: message.title,
+      weight: 'Bolder',
+      size: 'Medium',
+      wrap: true
+    }];
+
+    const mentionText = message.mentions.map(user => `<at>${user}</at>`).join(' ');
+    const text = [mentionText, message.text].filter(Boolean).join('\n\n');
+    if (text) {
+      body.push({ type: 'TextBlock', text: this.truncate(text, limits.text), wrap: true });
+    }
+    if (message.answers.length > 0) {
+      body.push({
+        type: 'FactSet',
+        facts: message.answers.slice(0, limits.fields).map(answer => ({
+          title: answer.label,
+          value: this.truncate(answer.value, limits.fieldValue)
+        }))
+      });
+    }
+    body.push({
+      type: 'TextBlock',
+      text: `Youform • ${message.occurredAt.toISOString()}`,
+      isSubtle: true,
+      size: 'Small',
+      wrap: true
+    });
+
+    const content: Record<string, any> = {
+      $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+      type: 'AdaptiveCard',
+      version: '1.4',
+      body,
+      ...(message.responseUrl && {
+        actions: [{ type: 'Action.OpenUrl', title: 'View response', url: message.responseUrl }]
+      })
+    };
+
+    if (message.mentions.length > 0) {
+      content.msteams = {
+        entities: message.mentions.map(user => ({
+          type: 'mention',
+          text: `<at>${user}</at>`,
+          mentioned: { id: user, name: user }
+        }))
+      };
+    }
+
+    return {
+      type: 'message',
+      attachments: [{
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        contentUrl: null,
+        content
+      }]
+    };
+  }
+
+  // Helper methods
+
+  private static getSettings(integration: IIntegration): Partial<IDiscordSettings> {
+    const settings: any = (integration.settings as any)?.[integration.type] || {};
+    return typeof settings.toObject === 'function' ? settings.toObject() : settings;
+  }
+
+  // Truncate escaped Slack text without leaving half an entity such as "&am"
+  private static truncateSlack(value: string, maxLength: number): string {
+    const truncated = this.truncate(value, maxLength);
+    return truncated === value ? value : truncated.replace(/&[a-z]*…$/, '…');
+  }
+
+  private static escapeSlack(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  private static parseColor(color?: string): number {
+    const parsed = parseInt((color || '').replace('#', ''), 16);
+    return Number.isNaN(parsed) ? 0x5865F2 : parsed;
+  }
+}
+
+export default ChatNotificationService;
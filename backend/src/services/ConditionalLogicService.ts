@@ -322,6 +322,86 @@ export class ConditionalLogicService {
     return []; // No more fields
   }
 
+  /**
+   * Resolve which fields a respondent actually reached when submitting.
+   * Answers to bypassed fields are discarded between passes, so a stale value
+   * left behind in an abandoned branch cannot keep a dependent branch open.
+   * @param fields - Form fields in display order
+   * @param responses - Submitted responses
+   * @returns Reached field IDs and the reason each bypassed field was not reached
+   */
+  static resolveSubmissionFields(fields: IFormField[], responses: Record<string, any>): {
+    activeFields: Set<string>;
+    inactiveFields: Map<string, 'hidden' | 'skipped'>;
+  } {
+    let effectiveResponses: Record<string, any> = { ...responses };
+    let activeFields = new Set<string>();
+    let inactiveFields = new Map<string, 'hidden' | 'skipped'>();
+
+    // Removing answers can change the outcome of other conditions, so repeat
+    // until the set of bypassed fields settles (bounded to avoid oscillation)
+    for (let pass = 0; pass <= fields.length; pass++) {
+      const walk = this.walkFormFlow(fields, effectiveResponses);
+      const settled = walk.inactiveFields.size === inactiveFields.size &&
+        Array.from(walk.inactiveFields.keys()).every(fieldId => inactiveFields.has(fieldId));
+
+      activeFields = walk.activeFields;
+      inactiveFields = walk.inactiveFields;
+
+      if (settled) break;
+
+      effectiveResponses = { ...responses };
+      inactiveFields.forEach((_reason, fieldId) => {
+        delete effectiveResponses[fieldId];
+      });
+    }
+
+    return { activeFields, inactiveFields };
+  }
+
+  /**
+   * Walk the form in display order applying show and skip logic once
+   * @param fields - Form fields in display order
+   * @param responses - Responses to evaluate against
+   * @returns Reached and bypassed field IDs
+   */
+  private static walkFormFlow(fields: IFormField[], responses: Record<string, any>): {
+    activeFields: Set<string>;
+    inactiveFields: Map<string, 'hidden' | 'skipped'>;
+  } {
+    const activeFields = new Set<string>();
+    const inactiveFields = new Map<string, 'hidden' | 'skipped'>();
+
+    let currentIndex = 0;
+    while (currentIndex < fields.length) {
+      const field = fields[currentIndex];
+
+      if (!this.evaluateFieldVisibility(field, responses, fields)) {
+        inactiveFields.set(field.id, 'hidden');
+        currentIndex++;
+        continue;
+      }
+
+      activeFields.add(field.id);
+
+      // Only forward jumps are honoured; a backward target would loop forever
+      const skipTarget = this.evaluateSkipLogic(field, responses, fields);
+      const targetIndex = skipTarget ? fields.findIndex(f => f.id === skipTarget) : -1;
+
+      if (targetIndex > currentIndex) {
+        for (let i = currentIndex + 1; i < targetIndex; i++) {
+          inactiveFields.set(fields[i].id, 'skipped');
+        }
+        currentIndex = targetIndex;
+        continue;
+      }
+
+      currentIndex++;
+    }
+
+    return { activeFields, inactiveFields };
+  }
+
   /**
    * Validate conditional logic configuration
    * @param fields - Form fields to validate
@@ -0,0 +1,424 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+// @ts-ignore - json2csv doesn't have TypeScript definitions
+import { Parser } from 'json2csv';
+import ConsentRecord, { GDPR_CONSENT_TYPES } from '../models/ConsentRecord';
+import ConsentVersion from '../models/ConsentVersion';
+import FormResponse from '../models/FormResponse';
+import FieldEncryptionService from './FieldEncryptionService';
+import GDPRAuditService from './GDPRAuditService';
+import {
+  ConsentRecordStatus,
+  IConsentFilters,
+  IConsentRecord,
+  IConsentVersion,
+  IForm,
+  IGDPRConsentData,
+  IGDPRConsentType,
+  IGDPRRevocationData,
+  ISubmissionConsent
+} from '../types';
+
+const MAX_VERSION_ATTEMPTS = 5;
+
+type ObjectIdLike = string | Types.ObjectId;
+type ConsentForm = Pick<IForm, '_id' | 'workspaceId' | 'settings'>;
+type ExportForm = Pick<IForm, '_id' | 'title' | 'fields'>;
+
+/**
+ * Thrown when consent cannot be recorded or revoked as asked
+ */
+export class ConsentLedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConsentLedgerError';
+  }
+}
+
+/**
+ * Thrown when a submission's consent was given against wording that has since changed
+ */
+export class ConsentVersionChangedError extends ConsentLedgerError {
+  constructor(shown: number, current: number) {
+    super(`The consent wording has changed since the form was loaded (version ${shown}, now ${current})`);
+    this.name = 'ConsentVersionChangedError';
+  }
+}
+
+/**
+ * Thrown when a submission to a form that collects GDPR consent comes without consent to data processing
+ */
+export class ConsentRequiredError extends ConsentLedgerError {
+  constructor() {
+    super('Consent to data processing is required to submit this form');
+    this.name = 'ConsentRequiredError';
+  }
+}
+
+/**
+ * Thrown when a consent ID is not in the ledger
+ */
+export class ConsentRecordNotFoundError extends Error {
+  constructor(consentId: string) {
+    super(`Consent record not found: ${consentId}`);
+    this.name = 'ConsentRecordNotFoundError';
+  }
+}
+
+/**
+ * Consent Ledger Service
+ * Keeps a durable record of every consent decision: the consent type, the exact consent text and
+ * privacy policy link shown (as a numbered version per form), the response it came with, the
+ * respondent's IP address and user agent, and any later revocation.
+ */
+export class ConsentLedgerService {
+
+  /**
+   * Get the version of a form's current consent wording, numbering a new one if the wording changed
+   * @param form - Form with its GDPR settings
+   * @returns Current version, or null if the form does not collect GDPR consent
+   */
+  static async getCurrentVersion(form: ConsentForm): Promise<IConsentVersion | null> {
+    const gdpr = form.settings?.gdpr;
+    if (!gdpr?.enabled) return null;
+
+    const consentText = gdpr.consentText || '';
+    const privacyPolicyUrl = gdpr.privacyPolicyUrl || '';
+    const contentHash = crypto.createHash('sha256').update(JSON.stringify([consentText, privacyPolicyUrl])).digest('hex');
+
+    for (let attempt = 1; attempt <= MAX_VERSION_ATTEMPTS; attempt++) {
+      const latest = await ConsentVersion.findOne({ formId: form._id }).sort({ version: -1 });
+      if (latest?.contentHash === contentHash) return latest;
+
+      try {
+        return await ConsentVersion.create({
+          formId: form._id,
+          version: (latest?.version || 0) + 1,
+          consentText,
+          privacyPolicyUrl,
+          contentHash
+        });
+      } catch (error: any) {
+        // Another request numbered this version first; check whether it is the same wording
+        if (error?.code !== 11000 || attempt === MAX_VERSION_ATTEMPTS) throw error;
+      }
+    }
+
+    throw new Error('Could not number the consent version');
+  }
+
+  /**
+   * Check the consent sent with a submission against the form's current wording
+   * @param form - Form being submitted
+   * @param consent - Version shown to the respondent and their choices
+   * @returns Current version, or null if the form does not collect GDPR consent
+   */
+  static async checkSubmission(form: ConsentForm, consent?: ISubmissionConsent): Promise<IConsentVersion | null> {
+    const version = await this.getCurrentVersion(form);
+    if (!version) return version;
+
+    if (!consent) throw new ConsentRequiredError();
+    if (!consent.choices || typeof consent.choices !== 'object') {
+      throw new ConsentLedgerError('Consent choices must be an object of consent types');
+    }
+
+    const unknown = Object.keys(consent.choices).filter(type => !GDPR_CONSENT_TYPES.includes(type as IGDPRConsentType));
+    if (unknown.length > 0) {
+      throw new ConsentLedgerError(`Unknown consent types: ${unknown.join(', ')}`);
+    }
+
+    if (consent.version !== undefined && Number(consent.version) !== version.version) {
+      throw new ConsentVersionChangedError(Number(consent.version), version.version);
+    }
+
+    if (consent.choices.data_processing !== true) throw new ConsentRequiredError();
+
+    return version;
+  }
+
+  /**
+   * Record the consent choices made with a submission
+   * @param form - Submitted form
+   * @param responseId - Saved response
+   * @param version - Version returned by checkSubmission
+   * @param consent - Respondent's choices
+   * @param request - IP address and user agent of the submission
+   * @returns Created records
+   */
+  static async recordForResponse(
+    form: ConsentForm,
+    responseId: ObjectIdLike,
+    version: IConsentVersion | null,
+    consent: ISubmissionConsent | undefined,
+    request: { ipAddress?: string; userAgent?: string }
+  ): Promise<IConsentRecord[]> {
+    if (!version || !consent) return [];
+
+    const records: IConsentRecord[] = [];
+    for (const [consentType, given] of Object.entries(consent.choices)) {
+      records.push(await this.record({
+        consentId: crypto.randomUUID(),
+        consentType: consentType as IGDPRConsentType,
+        formId: form._id,
+        workspaceId: form.workspaceId,
+        responseId,
+        version,
+        data: {
+          purpose: 'form_submission',
+          legalBasis: 'consent',
+          consentGiven: given === true,
+          consentMethod: 'checkbox',
+          explicitConsent: true,
+          source: 'form_submission',
+          ...request
+        }
+      }));
+    }
+
+    return records;
+  }
+
+  /**
+   * Add a consent decision to the ledger and the GDPR audit log
+   * @param entry - Consent ID, type, subject, form, response, wording version and consent details
+   * @returns Created record
+   */
+  static async record(entry: {
+    consentId: string;
+    consentType: IGDPRConsentType;
+    data: IGDPRConsentData;
+    userId?: string;
+    formId?: ObjectIdLike;
+    workspaceId?: ObjectIdLike;
+    responseId?: ObjectIdLike;
+    version?: IConsentVersion | null;
+  }): Promise<IConsentRecord> {
+    const { data, version } = entry;
+
+    const record = await ConsentRecord.create({
+      consentId: entry.consentId,
+      userId: entry.userId,
+      formId: entry.formId,
+      workspaceId: entry.workspaceId,
+      responseId: entry.responseId,
+      consentVersionId: version?._id,
+      version: version?.version,
+      // The form's versioned wording wins over text sent by the client
+      consentText: version ? version.consentText : data.consentText,
+      privacyPolicyUrl: version?.privacyPolicyUrl,
+      consentType: entry.consentType,
+      purpose: data.purpose,
+      legalBasis: data.legalBasis,
+      consentGiven: data.consentGiven,
+      consentMethod: data.consentMethod,
+      explicitConsent: data.explicitConsent || false,
+      granularConsent: data.granularConsent || {},
+      parentalConsent: data.parentalConsent || false,
+      dataCategories: data.dataCategories || [],
+      retentionPeriod: data.retentionPeriod || 365,
+      source: data.source || 'form_submission',
+      ipAddress: data.ipAddress,
+      userAgent: data.userAgent
+    });
+
+    await GDPRAuditService.record({
+      action: 'consent_recorded',
+      subjectId: entry.userId,
+      formId: entry.formId,
+      requestId: record.consentId,
+      details: {
+        consentType: record.consentType,
+        purpose: record.purpose,
+        legalBasis: record.legalBasis,
+        consentGiven: record.consentGiven,
+        consentMethod: record.consentMethod,
+        source: record.source,
+        responseId: record.responseId?.toString(),
+        version: record.version
+      }
+    });
+
+    return record;
+  }
+
+  /**
+   * Mark a consent as revoked
+   * @param consentId - Consent ID returned when it was recorded
+   * @param revocationData - Who revoked it, how, and from where
+   * @returns Updated record; a consent already revoked keeps its first revocation
+   */
+  static async revoke(consentId: string, revocationData: IGDPRRevocationData): Promise<IConsentRecord> {
+    const record = await ConsentRecord.findOne({ consentId });
+    if (!record) throw new ConsentRecordNotFoundError(consentId);
+    if (record.revokedAt) return record;
+    if (!record.consentGiven) {
+      throw new ConsentLedgerError('Consent was refused, so there is nothing to revoke');
+    }
+
+    record.revokedAt = new Date();
+    record.revocation = {
+      method: revocationData.revocationMethod,
+      userId: revocationData.userId,
+      ipAddress: revocationData.ipAddress,
+      userAgent: revocationData.userAgent
+    };
+    await record.save();
+
+    await GDPRAuditService.record({
+      action: 'consent_revoked',
+      subjectId: revocationData.userId || record.userId,
+      formId: record.formId,
+      requestId: consentId,
+      details: {
+        consentType: record.consentType,
+        revocationMethod: revocationData.revocationMethod,
+        responseId: record.responseId?.toString(),
+        version: record.version
+      }
+    });
+
+    return record;
+  }
+
+  /**
+   * List a form's consent wording versions, newest first
+   * @param formId - Form ID
+   * @returns Versions
+   */
+  static async listVersions(formId: ObjectIdLike): Promise<IConsentVersion[]> {
+    return ConsentVersion.find({ formId }).sort({ version: -1 }).lean() as Promise<IConsentVersion[]>;
+  }
+
+  /**
+   * List consent records, newest first
+   * @param filters - Form, consent type, wording version, status and date range
+   * @param page - Page number
+   * @param limit - Records per page
+   * @returns Records and total count
+   */
+  static async list(filters: IConsentFilters, page: number = 1, limit: number = 50): Promise<{ records: IConsentRecord[]; total: number }> {
+    const query = this.buildQuery(filters);
+    const pageSize = Math.min(200, Math.max(1, limit));
+
+    const [records, total] = await Promise.all([
+      ConsentRecord.find(query).sort({ consentedAt: -1 }).skip((Math.max(1, page) - 1) * pageSize).limit(pageSize).lean(),
+      ConsentRecord.countDocuments(query)
+    ]);
+
+    return { records: records as IConsentRecord[], total };
+  }
+
+  /**
+   * Export a form's consent records, oldest first, with the respondent's email where the form asks for one
+   * @param form - Form with its fields
+   * @param filters - Consent type, wording version, status and date range
+   * @param format - 'json' or 'csv'
+   * @returns File content, MIME type and name
+   */
+  static async export(
+    form: ExportForm,
+    filters: IConsentFilters,
+    format: 'json' | 'csv'
+  ): Promise<{ content: string; mimeType: string; filename: string }> {
+    const records = await ConsentRecord.find(this.buildQuery({ ...filters, formId: form._id.toString() })).sort({ consentedAt: 1 }).lean();
+    const emails = await this.getRespondentEmails(form, records.map(record => record.responseId).filter(Boolean) as Types.ObjectId[]);
+    const filename = `consent-ledger-${form._id}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    const rows = records.map(record => ({
+      consentId: record.consentId,
+      consentType: record.consentType,
+      status: this.getStatus(record),
+      consentGiven: record.consentGiven,
+      version: record.version,
+      consentText: record.consentText,
+      privacyPolicyUrl: record.privacyPolicyUrl,
+      responseId: record.responseId?.toString(),
+      respondentEmail: record.responseId ? emails.get(record.responseId.toString()) : undefined,
+      userId: record.userId,
+      consentMethod: record.consentMethod,
+      source: record.source,
+      ipAddress: record.ipAddress,
+      userAgent: record.userAgent,
+      consentedAt: record.consentedAt,
+      revokedAt: record.revokedAt,
+      revocationMethod: record.revocation?.method
+    }));
+
+    if (format === 'csv') {
+      const parser = new Parser({ fields: Object.keys(rows[0] || { consentId: '' }) });
+      return {
+        content: parser.parse(rows.map(row => ({
+          ...row,
+          consentedAt: row.consentedAt?.toISOString(),
+          revokedAt: row.revokedAt?.toISOString()
+        }))),
+        mimeType: 'text/csv',
+        filename
+      };
+    }
+
+    return {
+      content: JSON.stringify({
+        exportedAt: new Date(),
+        formId: form._id,
+        formTitle: form.title,
+        filters,
+        records: rows
+      }, null, 2),
+      mimeType: 'application/json',
+      filename
+    };
+  }
+
+  // Helper methods
+
+  private static getStatus(record: Pick<IConsentRecord, 'consentGiven' | 'revokedAt'>): ConsentRecordStatus {
+    if (!record.consentGiven) return 'refused';
+    return record.revokedAt ? 'revoked' : 'active';
+  }
+
+  private static buildQuery(filters: IConsentFilters): Record<string, any> {
+    const query: Record<string, any> = {};
+
+    if (filters.formId) query.formId = new Types.ObjectId(filters.formId);
+    if (filters.consentType) query.consentType = filters.consentType;
+    if (filters.version !== undefined) query.version = filters.version;
+    if (filters.status === 'active') {
+      query.consentGiven = true;
+      query.revokedAt = null;
+    } else if (filters.status === 'revoked') {
+      query.revokedAt = { $ne: null };
+    } else if (filters.status === 'refused') {
+      query.consentGiven = false;
+    }
+    if (filters.startDate || filters.endDate) {
+      query.consentedAt = {};
+      if (filters.startDate) query.consentedAt.$gte = filters.startDate;
+      if (filters.endDate) query.consentedAt.$lte = filters.endDate;
+    }
+
+    return query;
+  }
+
+  /**
+   * Read each response's first email answer, decrypting it if the field is sensitive
+   */
+  private static async getRespondentEmails(form: ExportForm, responseIds: Types.ObjectId[]): Promise<Map<string, string>> {
+    const emails = new Map<string, string>();
+    const emailFields = form.fields.filter(field => field.type === 'email');
+    if (emailFields.length === 0 || responseIds.length === 0) return emails;
+
+    const projection = emailFields.map(field => `responses.${field.id}`).join(' ');
+    const responses = await FormResponse.find({ _id: { $in: responseIds } }).select(projection).lean();
+
+    for (const response of responses) {
+      const answers = await FieldEncryptionService.decryptAnswers(response.responses || {}, response._id);
+      const email = emailFields.map(field => answers[field.id]).find(value => typeof value === 'string' && value.trim());
+      if (email) emails.set(response._id.toString(), email.trim());
+    }
+
+    return emails;
+  }
+}
+
+export default ConsentLedgerService;
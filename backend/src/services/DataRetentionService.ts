@@ -0,0 +1,434 @@
+import { Types } from 'mongoose';
+import Form from '../models/Form';
+import FormResponse from '../models/FormResponse';
+import ResponseRevision from '../models/ResponseRevision';
+import RetentionRun from '../models/RetentionRun';
+import Workspace from '../models/Workspace';
+import FileStorageService from './FileStorageService';
+import FileUploadService from './FileUploadService';
+import GDPRAuditService from './GDPRAuditService';
+import JobQueueService from './JobQueueService';
+import SchedulerService from './SchedulerService';
+import {
+  IForm,
+  IFormField,
+  IFormResponse,
+  IJob,
+  IJobHandlerResult,
+  IRetentionFormPreview,
+  IRetentionFormResult,
+  IRetentionPolicy,
+  IRetentionRun,
+  IWorkspace,
+  RetentionRunTrigger
+} from '../types';
+
+export const RETENTION_SWEEP_JOB = 'retention.sweep';
+
+// Field types whose answers identify the respondent; other fields are scrubbed when flagged personal or sensitive
+const PERSONAL_FIELD_TYPES = ['email', 'phone', 'name', 'address', 'signature', 'file'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BATCH_SIZE = 100;
+
+type RetentionWorkspace = Pick<IWorkspace, '_id' | 'settings'>;
+type RetentionForm = Pick<IForm, '_id' | 'title' | 'userId' | 'workspaceId' | 'fields' | 'settings'>;
+type ObjectIdLike = string | Types.ObjectId;
+
+/**
+ * Data Retention Service
+ * Enforces response retention settings: responses older than the form's GDPR retention period or
+ * the workspace's deleteResponsesAfter are deleted, and responses older than the workspace's
+ * anonymizeAfter lose their IP address, user agent and personal answers. Runs as a scheduled task
+ * and records every run.
+ */
+export class DataRetentionService {
+  /**
+   * Register the queue handler for runs asked for by admins, and the scheduled task for the others
+   */
+  static registerHandlers(): void {
+    JobQueueService.registerHandler(RETENTION_SWEEP_JOB, job => this.sweep(job));
+
+    SchedulerService.registerTask({
+      name: 'retention.sweep',
+      description: 'Delete and anonymize responses past their retention period',
+      defaultIntervalMinutes: 24 * 60,
+      run: () => this.applyRetention({ trigger: 'scheduled' })
+    });
+  }
+
+  /**
+   * Queue a run outside the schedule
+   * @param userId - User who asked for the run
+   * @returns Queued job
+   */
+  static async runNow(userId: ObjectIdLike): Promise<IJob> {
+    return JobQueueService.enqueue(RETENTION_SWEEP_JOB, { trigger: 'manual', requestedBy: userId.toString() }, { maxAttempts: 3 });
+  }
+
+  /**
+   * Work out which retention settings apply to a form
+   * A form's GDPR retention period applies when GDPR is enabled on the form; with a workspace
+   * deletion period as well, the shorter one wins. Anonymization only applies before deletion.
+   * @param form - Form
+   * @param workspace - Workspace the form belongs to
+   * @returns Retention periods in days, 0 meaning never
+   */
+  static getPolicy(form: Pick<IForm, 'settings'>, workspace?: Pick<IWorkspace, 'settings'> | null): IRetentionPolicy {
+    const formDays = form.settings?.gdpr?.enabled ? Math.max(0, form.settings.gdpr.dataRetentionDays || 0) : 0;
+    const workspaceDays = Math.max(0, workspace?.settings?.dataRetention?.deleteResponsesAfter || 0);
+    const anonymizeDays = Math.max(0, workspace?.settings?.dataRetention?.anonymizeAfter || 0);
+
+    let deleteAfterDays = 0;
+    let deleteSource: IRetentionPolicy['deleteSource'];
+    if (formDays > 0 && (workspaceDays === 0 || formDays <= workspaceDays)) {
+      deleteAfterDays = formDays;
+      deleteSource = 'form';
+    } else if (workspaceDays > 0) {
+      deleteAfterDays = workspaceDays;
+      deleteSource = 'workspace';
+    }
+
+    return {
+      deleteAfterDays,
+      anonymizeAfterDays: deleteAfterDays > 0 && anonymizeDays >= deleteAfterDays ? 0 : anonymizeDays,
+      deleteSource
+    };
+  }
+
+  /**
+   * Get the IDs of fields whose answers identify the respondent
+   * @param form - Form
+   * @returns Field IDs
+   */
+  static getPersonalFieldIds(form: Pick<IForm, 'fields'>): Set<string> {
+    return new Set(form.fields.filter(field => this.isPersonalField(field)).map(field => field.id));
+  }
+
+  /**
+   * Check whether a field's answers identify the respondent
+   * @param field - Form field
+   * @returns Whether answers are scrubbed on anonymization
+   */
+  static isPersonalField(field: Pick<IFormField, 'type' | 'personal' | 'sensitive'>): boolean {
+    return PERSONAL_FIELD_TYPES.includes(field.type) || !!field.personal || !!field.sensitive;
+  }
+
+  /**
+   * Count the responses the next run would delete or anonymize, without changing anything
+   * @param forms - Forms to check
+   * @returns One entry per form with a retention setting
+   */
+  static async preview(forms: RetentionForm[]): Promise<IRetentionFormPreview[]> {
+    const workspaces = await this.loadWorkspaces(forms);
+    const now = Date.now();
+    const previews: IRetentionFormPreview[] = [];
+
+    for (const form of forms) {
+      const policy = this.getPolicy(form, form.workspaceId ? workspaces.get(form.workspaceId.toString()) : null);
+      if (policy.deleteAfterDays === 0 && policy.anonymizeAfterDays === 0) continue;
+
+      const deleteBefore = policy.deleteAfterDays > 0 ? new Date(now - policy.deleteAfterDays * DAY_MS) : undefined;
+      const anonymizeBefore = policy.anonymizeAfterDays > 0 ? new Date(now - policy.anonymizeAfterDays * DAY_MS) : undefined;
+
+      const [toDelete, toAnonymize] = await Promise.all([
+        deleteBefore ? FormResponse.countDocuments({ formId: form._id, submittedAt: { $lt: deleteBefore } }) : 0,
+        anonymizeBefore ? FormResponse.countDocuments(this.getAnonymizeQuery(form._id, anonymizeBefore, deleteBefore)) : 0
+      ]);
+
+      previews.push({
+        formId: form._id,
+        workspaceId: form.workspaceId,
+        title: form.title,
+        policy,
+        deleteBefore,
+        anonymizeBefore,
+        toDelete,
+        toAnonymize
+      });
+    }
+
+    return previews;
+  }
+
+  /**
+   * List past runs, newest first
+   * @param options - Workspace to limit the runs and their forms to, and paging
+   * @returns Runs and total count
+   */
+  static async listRuns(options: { workspaceId?: ObjectIdLike; page?: number; limit?: number } = {}): Promise<{ runs: IRetentionRun[]; total: number }> {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(100, Math.max(1, options.limit || 20));
+    const query = options.workspaceId ? { 'forms.workspaceId': new Types.ObjectId(options.workspaceId.toString()) } : {};
+
+    const [runs, total] = await Promise.all([
+      RetentionRun.find(query).sort({ startedAt: -1 }).skip((page - 1) * limit).limit(limit).lean(),
+      RetentionRun.countDocuments(query)
+    ]);
+
+    if (options.workspaceId) {
+      // Other workspaces' forms are left out, and the totals describe what is left
+      const workspaceId = options.workspaceId.toString();
+      runs.forEach(run => {
+        run.forms = run.forms.filter(form => form.workspaceId?.toString() === workspaceId);
+        run.totals = this.getTotals(run.forms);
+      });
+    }
+
+    return { runs: runs as IRetentionRun[], total };
+  }
+
+  /**
+   * Delete responses of a form with their edit history and files, releasing their storage
+   * @param form - Form the responses belong to
+   * @param responses - Responses, with their answers and upload size
+   * @returns Number of responses and files removed
+   */
+  static async removeResponses(
+    form: Pick<IForm, '_id' | 'userId' | 'workspaceId'>,
+    responses: Array<Pick<IFormResponse, '_id' | 'responses' | 'uploadSize'>>
+  ): Promise<{ deleted: number; filesRemoved: number }> {
+    if (responses.length === 0) return { deleted: 0, filesRemoved: 0 };
+    const ids = responses.map(response => response._id);
+
+    // Only valid responses outside spam quarantine are in the form's submission count
+    const submissions = await FormResponse.countDocuments({ _id: { $in: ids }, isValid: true, status: { $ne: 'spam' } });
+    const { deletedCount } = await FormResponse.deleteMany({ _id: { $in: ids } });
+    await ResponseRevision.deleteMany({ responseId: { $in: ids } });
+
+    const files = responses.flatMap(response => FileStorageService.listFiles(response));
+    await Promise.all(files.map(file => FileStorageService.removeFile(file)));
+    await FileUploadService.recordStorage(form as IForm, -responses.reduce((sum, response) => sum + (response.uploadSize || 0), 0));
+    await Form.updateOne({ _id: form._id }, { $inc: { 'analytics.submissions': -submissions } });
+
+    return { deleted: deletedCount, filesRemoved: files.length };
+  }
+
+  // Job handlers
+
+  private static async sweep(job: IJob): Promise<IJobHandlerResult> {
+    const { trigger = 'manual', requestedBy } = job.payload as { trigger?: RetentionRunTrigger; requestedBy?: string };
+
+    return { result: await this.applyRetention({ trigger, requestedBy, jobId: job._id }) };
+  }
+
+  // Helper methods
+
+  /**
+   * Apply every form's retention settings and record the run
+   */
+  private static async applyRetention(options: {
+    trigger: RetentionRunTrigger;
+    requestedBy?: string;
+    jobId?: Types.ObjectId;
+  }): Promise<Record<string, any>> {
+    const run = await RetentionRun.create({ ...options, startedAt: new Date() });
+
+    try {
+      const forms = await this.findFormsWithRetention();
+      run.formsChecked = forms.length;
+      const workspaces = await this.loadWorkspaces(forms);
+      const now = Date.now();
+
+      for (const form of forms) {
+        const policy = this.getPolicy(form, form.workspaceId ? workspaces.get(form.workspaceId.toString()) : null);
+        const result: IRetentionFormResult = {
+          formId: form._id,
+          workspaceId: form.workspaceId,
+          title: form.title,
+          deleted: 0,
+          anonymized: 0,
+          skipped: 0,
+          filesRemoved: 0
+        };
+
+        const deleteBefore = policy.deleteAfterDays > 0 ? new Date(now - policy.deleteAfterDays * DAY_MS) : undefined;
+        if (deleteBefore) {
+          await this.deleteResponses(form, deleteBefore, result);
+        }
+        if (policy.anonymizeAfterDays > 0) {
+          await this.anonymizeResponses(form, new Date(now - policy.anonymizeAfterDays * DAY_MS), deleteBefore, result);
+        }
+
+        if (result.deleted + result.anonymized + result.skipped > 0) {
+          run.forms.push(result);
+        }
+      }
+
+      run.status = 'completed';
+      run.completedAt = new Date();
+      run.totals = this.getTotals(run.forms);
+      await run.save();
+    } catch (error: any) {
+      run.status = 'failed';
+      run.completedAt = new Date();
+      run.error = error?.message || String(error);
+      run.totals = this.getTotals(run.forms);
+      await run.save();
+      await this.recordAudit(run);
+      throw error;
+    }
+
+    await this.recordAudit(run);
+
+    return { runId: run._id, formsChecked: run.formsChecked, ...this.getTotals(run.forms) };
+  }
+
+  /**
+   * Delete responses submitted before the cutoff, with their edit history and files
+   */
+  private static async deleteResponses(form: RetentionForm, before: Date, result: IRetentionFormResult): Promise<void> {
+    const cursor = FormResponse.find({ formId: form._id, submittedAt: { $lt: before } })
+      .select('responses uploadSize')
+      .cursor({ batchSize: BATCH_SIZE });
+    let batch: IFormResponse[] = [];
+
+    const flush = async (): Promise<void> => {
+      if (batch.length === 0) return;
+
+      const { deleted, filesRemoved } = await this.removeResponses(form, batch);
+      result.deleted += deleted;
+      result.filesRemoved += filesRemoved;
+      batch = [];
+    };
+
+    for await (const response of cursor) {
+      batch.push(response);
+      if (batch.length >= BATCH_SIZE) await flush();
+    }
+    await flush();
+  }
+
+  /**
+   * Scrub the IP address, user agent and personal answers of responses submitted before the cutoff
+   * Responses edited meanwhile are skipped and picked up by the next run.
+   */
+  private static async anonymizeResponses(form: RetentionForm, before: Date, deleteBefore: Date | undefined, result: IRetentionFormResult): Promise<void> {
+    const personalFieldIds = this.getPersonalFieldIds(form);
+    const cursor = FormResponse.find(this.getAnonymizeQuery(form._id, before, deleteBefore))
+      .select('responses revision uploadSize')
+      .cursor({ batchSize: BATCH_SIZE });
+
+    for await (const response of cursor) {
+      const responses = { ...(response.responses || {}) };
+      const files = Array.from(personalFieldIds).flatMap(fieldId => {
+        const files = FileStorageService.listFiles({ responses: { [fieldId]: responses[fieldId] } });
+        delete responses[fieldId];
+        return files;
+      });
+      const removedBytes = files.reduce((sum, file) => sum + (file.size || 0), 0);
+
+      response.responses = responses;
+      response.applySearchText(form);
+      const currentRevision = response.revision || 0;
+      const update = await FormResponse.updateOne(
+        { _id: response._id, revision: currentRevision > 0 ? currentRevision : { $in: [null, 0] } },
+        {
+          $set: {
+            responses,
+            searchText: response.searchText,
+            uploadSize: Math.max(0, (response.uploadSize || 0) - removedBytes),
+            anonymizedAt: new Date()
+          },
+          $unset: { ipAddress: 1, userAgent: 1, submitterKeys: 1, 'metadata.referrer': 1 }
+        }
+      );
+
+      if (update.modifiedCount === 0) {
+        result.skipped++;
+        continue;
+      }
+
+      if (personalFieldIds.size > 0) {
+        await ResponseRevision.updateMany(
+          { responseId: response._id },
+          { $unset: { 'changes.$[change].before': 1, 'changes.$[change].after': 1 } },
+          { arrayFilters: [{ 'change.fieldId': { $in: Array.from(personalFieldIds) } }] }
+        );
+      }
+
+      await Promise.all(files.map(file => FileStorageService.removeFile(file)));
+      await FileUploadService.recordStorage(form as IForm, -removedBytes);
+
+      result.anonymized++;
+      result.filesRemoved += files.length;
+    }
+  }
+
+  /**
+   * Add the run to the GDPR audit log: one entry for the run, and one per form it changed
+   */
+  private static async recordAudit(run: IRetentionRun): Promise<void> {
+    await GDPRAuditService.record({
+      action: 'retention_run',
+      actorId: run.requestedBy,
+      requestId: run._id.toString(),
+      details: {
+        trigger: run.trigger,
+        status: run.status,
+        formsChecked: run.formsChecked,
+        totals: run.totals,
+        error: run.error
+      }
+    });
+
+    for (const form of run.forms) {
+      await GDPRAuditService.record({
+        action: 'retention_run',
+        formId: form.formId,
+        actorId: run.requestedBy,
+        requestId: run._id.toString(),
+        details: {
+          deleted: form.deleted,
+          anonymized: form.anonymized,
+          skipped: form.skipped,
+          filesRemoved: form.filesRemoved
+        }
+      });
+    }
+  }
+
+  private static getAnonymizeQuery(formId: Types.ObjectId, before: Date, deleteBefore?: Date): Record<string, any> {
+    return {
+      formId,
+      submittedAt: deleteBefore ? { $lt: before, $gte: deleteBefore } : { $lt: before },
+      anonymizedAt: { $exists: false }
+    };
+  }
+
+  private static async findFormsWithRetention(): Promise<RetentionForm[]> {
+    const workspaces = await Workspace.find({
+      $or: [
+        { 'settings.dataRetention.deleteResponsesAfter': { $gt: 0 } },
+        { 'settings.dataRetention.anonymizeAfter': { $gt: 0 } }
+      ]
+    }).select('_id').lean();
+
+    // Soft-deleted forms are included: their responses are still stored
+    return Form.find({
+      $or: [
+        { 'settings.gdpr.enabled': true, 'settings.gdpr.dataRetentionDays': { $gt: 0 } },
+        { workspaceId: { $in: workspaces.map(workspace => workspace._id) } }
+      ]
+    }).select('title userId workspaceId fields settings.gdpr');
+  }
+
+  private static async loadWorkspaces(forms: RetentionForm[]): Promise<Map<string, RetentionWorkspace>> {
+    const ids = Array.from(new Set(forms.filter(form => form.workspaceId).map(form => form.workspaceId!.toString())));
+    if (ids.length === 0) return new Map();
+
+    const workspaces = await Workspace.find({ _id: { $in: ids } }).select('settings.dataRetention').lean();
+    return new Map(workspaces.map(workspace => [workspace._id.toString(), workspace as RetentionWorkspace]));
+  }
+
+  private static getTotals(forms: IRetentionFormResult[]): IRetentionRun['totals'] {
+    return forms.reduce((totals, form) => ({
+      forms: totals.forms + 1,
+      deleted: totals.deleted + form.deleted,
+      anonymized: totals.anonymized + form.anonymized,
+      skipped: totals.skipped + form.skipped,
+      filesRemoved: totals.filesRemoved + form.filesRemoved
+    }), { forms: 0, deleted: 0, anonymized: 0, skipped: 0, filesRemoved: 0 });
+  }
+}
+
+export default DataRetentionService;
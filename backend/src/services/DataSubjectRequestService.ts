@@ -0,0 +1,392 @@
+import { Types } from 'mongoose';
+import DataSubjectRequest from '../models/DataSubjectRequest';
+import Form from '../models/Form';
+import FormResponse from '../models/FormResponse';
+import Workspace from '../models/Workspace';
+import DataRetentionService from './DataRetentionService';
+import FieldEncryptionService from './FieldEncryptionService';
+import FileStorageService from './FileStorageService';
+import GDPRAuditService from './GDPRAuditService';
+import {
+  DataSubjectRequestStatus,
+  DataSubjectRequestType,
+  DataSubjectVerificationMethod,
+  IDataSubjectExportEntry,
+  IDataSubjectMatch,
+  IDataSubjectRequest,
+  IForm,
+  IFormField
+} from '../types';
+
+const MIN_PHONE_DIGITS = 7;
+const OPEN_STATUSES: DataSubjectRequestStatus[] = ['received', 'verified'];
+const BATCH_SIZE = 100;
+
+type ObjectIdLike = string | Types.ObjectId;
+type SearchForm = Pick<IForm, '_id' | 'title' | 'userId' | 'workspaceId' | 'fields'>;
+
+/**
+ * Thrown when a data subject request cannot be moved on as asked
+ */
+export class DataSubjectRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DataSubjectRequestError';
+  }
+}
+
+/**
+ * Data Subject Request Service
+ * Handles access, erasure and portability requests from respondents without an account: their
+ * responses are found across a workspace's forms by the email addresses and phone numbers they
+ * typed into email and phone fields. Requests go from received to verified (once the operator has
+ * checked the requester's identity) to fulfilled, and must be answered by their due date.
+ */
+export class DataSubjectRequestService {
+
+  /**
+   * Check whether a user may handle data subject requests for a workspace
+   * @param workspaceId - Workspace, or undefined for the user's own forms outside a workspace
+   * @param userId - User ID
+   * @returns Whether the user owns or administers the workspace
+   */
+  static async canManage(workspaceId: ObjectIdLike | undefined | null, userId: ObjectIdLike): Promise<boolean> {
+    if (!workspaceId) return true;
+
+    const access = await Workspace.checkUserAccess(workspaceId.toString(), userId.toString());
+    return !!access && ['owner', 'admin'].includes(access.role);
+  }
+
+  /**
+   * Log a new request
+   * @param data - Workspace, request type, the subject's emails and phone numbers, and notes
+   * @param userId - Operator logging the request
+   * @returns Created request, due DSR_DEADLINE_DAYS (default 30) after it was received
+   */
+  static async create(
+    data: { workspaceId?: string; type: DataSubjectRequestType; emails?: string[]; phones?: string[]; notes?: string; receivedAt?: Date },
+    userId: ObjectIdLike
+  ): Promise<IDataSubjectRequest> {
+    const emails = Array.from(new Set((data.emails || []).map(email => email.trim().toLowerCase()).filter(Boolean)));
+    const phones = Array.from(new Set((data.phones || []).map(phone => this.normalizePhone(phone))));
+
+    if (phones.some(phone => phone.length < MIN_PHONE_DIGITS)) {
+      throw new DataSubjectRequestError(`Phone numbers need at least ${MIN_PHONE_DIGITS} digits`);
+    }
+    if (emails.length === 0 && phones.length === 0) {
+      throw new DataSubjectRequestError('An email address or phone number is required to find the subject');
+    }
+
+    const receivedAt = data.receivedAt || new Date();
+    const request = await DataSubjectRequest.create({
+      workspaceId: data.workspaceId,
+      ownerId: data.workspaceId ? undefined : userId,
+      type: data.type,
+      identifiers: { emails, phones },
+      receivedAt,
+      dueAt: new Date(receivedAt.getTime() + this.getDeadlineDays() * 24 * 60 * 60 * 1000),
+      notes: data.notes,
+      createdBy: userId,
+      history: [{ status: 'received', at: new Date(), by: userId }]
+    });
+
+    await GDPRAuditService.record({
+      action: 'subject_request_received',
+      subjectEmail: emails[0],
+      actorId: userId,
+      requestId: request._id.toString(),
+      details: { type: request.type, workspaceId: data.workspaceId, dueAt: request.dueAt }
+    });
+
+    return request;
+  }
+
+  /**
+   * Find a request the user may handle
+   * @param requestId - Request ID
+   * @param userId - User ID
+   * @returns Request, or null when it does not exist or the user lacks access
+   */
+  static async findForUser(requestId: string, userId: ObjectIdLike): Promise<IDataSubjectRequest | null> {
+    if (!Types.ObjectId.isValid(requestId)) return null;
+
+    const request = await DataSubjectRequest.findById(requestId);
+    if (!request) return null;
+
+    if (request.workspaceId) {
+      return (await this.canManage(request.workspaceId, userId)) ? request : null;
+    }
+    return request.ownerId?.toString() === userId.toString() ? request : null;
+  }
+
+  /**
+   * List requests, soonest due first
+   * @param userId - User ID
+   * @param options - Workspace (the user's own forms when omitted), status, overdue only, paging
+   * @returns Requests and total count
+   */
+  static async list(
+    userId: ObjectIdLike,
+    options: { workspaceId?: string; status?: DataSubjectRequestStatus; overdue?: boolean; page?: number; limit?: number } = {}
+  ): Promise<{ requests: IDataSubjectRequest[]; total: number }> {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(100, Math.max(1, options.limit || 20));
+    const query: Record<string, any> = options.workspaceId
+      ? { workspaceId: options.workspaceId }
+      : { ownerId: userId, workspaceId: { $exists: false } };
+
+    if (options.status) query.status = options.status;
+    if (options.overdue) {
+      query.status = options.status && OPEN_STATUSES.includes(options.status) ? options.status : { $in: OPEN_STATUSES };
+      query.dueAt = { $lt: new Date() };
+    }
+
+    const [requests, total] = await Promise.all([
+      DataSubjectRequest.find(query).sort({ dueAt: 1 }).skip((page - 1) * limit).limit(limit),
+      DataSubjectRequest.countDocuments(query)
+    ]);
+
+    return { requests, total };
+  }
+
+  /**
+   * Find the responses that match the request's emails and phone numbers, for the operator to confirm
+   * @param request - Request
+   * @returns Matching responses, newest first
+   */
+  static async findMatches(request: IDataSubjectRequest): Promise<IDataSubjectMatch[]> {
+    const forms: SearchForm[] = await Form.find(
+      request.workspaceId ? { workspaceId: request.workspaceId } : { userId: request.ownerId, workspaceId: null }
+    ).select('title userId workspaceId fields');
+    const matches: IDataSubjectMatch[] = [];
+
+    for (const form of forms) {
+      const matched = new Map<string, IDataSubjectMatch>();
+      const addMatch = (response: { _id: Types.ObjectId; submittedAt: Date }, field: IFormField): void => {
+        const key = response._id.toString();
+        if (!matched.has(key)) {
+          matched.set(key, { responseId: response._id, formId: form._id, formTitle: form.title, submittedAt: response.submittedAt, matchedFields: [] });
+        }
+        matched.get(key)!.matchedFields.push({ fieldId: field.id, label: field.label, type: field.type });
+      };
+
+      const sensitiveFieldIds = FieldEncryptionService.getSensitiveFieldIds(form);
+      for (const field of form.fields) {
+        const patterns = this.getPatterns(request, field);
+        if (patterns.length === 0) continue;
+
+        const path = `responses.${field.id}`;
+        if (sensitiveFieldIds.has(field.id)) {
+          // Encrypted answers cannot be queried, so check each one
+          const cursor = FormResponse.find({ formId: form._id, [path]: { $exists: true } })
+            .select(`submittedAt ${path}`)
+            .cursor({ batchSize: BATCH_SIZE });
+          for await (const response of cursor) {
+            const answers = await FieldEncryptionService.decryptAnswers({ [field.id]: response.responses?.[field.id] }, response._id);
+            const value = answers[field.id];
+            if (typeof value === 'string' && patterns.some(pattern => pattern.test(value))) addMatch(response, field);
+          }
+        } else {
+          const responses = await FormResponse.find({ formId: form._id, [path]: { $in: patterns } }).select('submittedAt');
+          responses.forEach(response => addMatch(response, field));
+        }
+      }
+
+      matches.push(...matched.values());
+    }
+
+    return matches.sort((a, b) => new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime());
+  }
+
+  /**
+   * Record that the requester's identity was checked
+   * @param request - Request
+   * @param verification - How the identity was checked, and notes
+   * @param userId - Operator
+   * @returns Updated request
+   */
+  static async verify(
+    request: IDataSubjectRequest,
+    verification: { method: DataSubjectVerificationMethod; notes?: string },
+    userId: ObjectIdLike
+  ): Promise<IDataSubjectRequest> {
+    if (request.status !== 'received') {
+      throw new DataSubjectRequestError(`A ${request.status} request cannot be verified`);
+    }
+
+    request.status = 'verified';
+    request.verification = {
+      method: verification.method,
+      notes: verification.notes,
+      verifiedBy: new Types.ObjectId(userId.toString()),
+      verifiedAt: new Date()
+    };
+    request.history.push({ status: 'verified', at: new Date(), by: new Types.ObjectId(userId.toString()), note: verification.notes });
+    await request.save();
+
+    await GDPRAuditService.record({
+      action: 'subject_request_verified',
+      subjectEmail: request.identifiers.emails[0],
+      actorId: userId,
+      requestId: request._id.toString(),
+      details: { type: request.type, method: verification.method }
+    });
+
+    return request;
+  }
+
+  /**
+   * Close a request without acting on it
+   * @param request - Request
+   * @param reason - Why it was rejected, e.g. the identity could not be verified
+   * @param userId - Operator
+   * @returns Updated request
+   */
+  static async reject(request: IDataSubjectRequest, reason: string, userId: ObjectIdLike): Promise<IDataSubjectRequest> {
+    if (!OPEN_STATUSES.includes(request.status)) {
+      throw new DataSubjectRequestError(`A ${request.status} request cannot be rejected`);
+    }
+
+    request.status = 'rejected';
+    request.rejection = { reason, rejectedBy: new Types.ObjectId(userId.toString()), rejectedAt: new Date() };
+    request.history.push({ status: 'rejected', at: new Date(), by: new Types.ObjectId(userId.toString()), note: reason });
+    await request.save();
+
+    await GDPRAuditService.record({
+      action: 'subject_request_rejected',
+      subjectEmail: request.identifiers.emails[0],
+      actorId: userId,
+      requestId: request._id.toString(),
+      details: { type: request.type, reason }
+    });
+
+    return request;
+  }
+
+  /**
+   * Fulfil a verified request for the responses the operator confirmed: access and portability
+   * requests return the answers, erasure requests delete the responses with their history and files
+   * @param request - Request
+   * @param responseIds - Confirmed responses; each must still match the request
+   * @param userId - Operator
+   * @returns Updated request, and the subject's answers for access and portability requests
+   */
+  static async fulfill(
+    request: IDataSubjectRequest,
+    responseIds: string[],
+    userId: ObjectIdLike
+  ): Promise<{ request: IDataSubjectRequest; exported?: IDataSubjectExportEntry[] }> {
+    if (request.status !== 'verified') {
+      throw new DataSubjectRequestError('The requester\'s identity must be verified first');
+    }
+
+    const matches = new Map((await this.findMatches(request)).map(match => [match.responseId.toString(), match]));
+    const unknown = responseIds.filter(id => !matches.has(id));
+    if (unknown.length > 0) {
+      throw new DataSubjectRequestError(`Responses ${unknown.join(', ')} do not match this request`);
+    }
+
+    const confirmed = Array.from(new Set(responseIds));
+    const forms = await Form.find({ _id: { $in: Array.from(new Set(confirmed.map(id => matches.get(id)!.formId.toString()))) } })
+      .select('title userId workspaceId fields');
+    const responses = await FormResponse.find({ _id: { $in: confirmed } }).select('formId responses submittedAt uploadSize');
+
+    let exported: IDataSubjectExportEntry[] | undefined;
+    let erased = 0;
+
+    if (request.type === 'erasure') {
+      for (const form of forms) {
+        const { deleted } = await DataRetentionService.removeResponses(
+          form,
+          responses.filter(response => response.formId.toString() === form._id.toString())
+        );
+        erased += deleted;
+      }
+    } else {
+      const formsById = new Map(forms.map(form => [form._id.toString(), form]));
+      exported = [];
+      for (const response of responses) {
+        const form = formsById.get(response.formId.toString());
+        if (!form) continue;
+        exported.push({
+          responseId: response._id,
+          formId: form._id,
+          formTitle: form.title,
+          submittedAt: response.submittedAt,
+          answers: this.labelAnswers(form, await FieldEncryptionService.decryptAnswers(response.responses || {}, response._id))
+        });
+      }
+    }
+
+    request.status = 'fulfilled';
+    request.fulfillment = {
+      fulfilledBy: new Types.ObjectId(userId.toString()),
+      fulfilledAt: new Date(),
+      responseIds: responses.map(response => response._id),
+      erased
+    };
+    request.history.push({ status: 'fulfilled', at: new Date(), by: new Types.ObjectId(userId.toString()) });
+    await request.save();
+
+    await GDPRAuditService.record({
+      action: `${request.type}_request`,
+      subjectEmail: request.identifiers.emails[0],
+      actorId: userId,
+      requestId: request._id.toString(),
+      details: {
+        responses: responses.length,
+        forms: forms.map(form => form._id.toString()),
+        erased,
+        verificationMethod: request.verification?.method,
+        dueAt: request.dueAt,
+        overdue: request.dueAt.getTime() < Date.now()
+      }
+    });
+
+    return { request, exported };
+  }
+
+  // Helper methods
+
+  /**
+   * Patterns matching the request's identifiers in answers to a field: emails in email fields,
+   * phone numbers in phone fields, ignoring case, spacing and punctuation
+   */
+  private static getPatterns(request: IDataSubjectRequest, field: Pick<IFormField, 'type'>): RegExp[] {
+    if (field.type === 'email') {
+      return request.identifiers.emails.map(email => new RegExp(`^\\s*${this.escapeRegex(email)}\\s*$`, 'i'));
+    }
+    if (field.type === 'phone') {
+      // The answer must end with the digits, so numbers given with or without a country code both match
+      return request.identifiers.phones.map(phone => new RegExp(`${phone.split('').join('\\D*')}\\D*$`));
+    }
+    return [];
+  }
+
+  private static labelAnswers(form: Pick<IForm, 'fields'>, responses: Record<string, any>): Record<string, any> {
+    const labels = new Map(form.fields.map(field => [field.id, field.label]));
+    const answers: Record<string, any> = {};
+
+    Object.entries(responses).forEach(([fieldId, value]) => {
+      const files = FileStorageService.listFiles({ responses: { [fieldId]: value } });
+      answers[labels.get(fieldId) || fieldId] = files.length > 0 ? files.map(file => file.originalName) : value;
+    });
+
+    return answers;
+  }
+
+  private static normalizePhone(phone: string): string {
+    return String(phone).replace(/\D/g, '');
+  }
+
+  private static escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  private static getDeadlineDays(): number {
+    const days = parseInt(process.env.DSR_DEADLINE_DAYS || '30', 10);
+    return Number.isFinite(days) && days > 0 ? days : 30;
+  }
+}
+
+export default DataSubjectRequestService;
@@ -0,0 +1,725 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import PDFDocument from 'pdfkit';
+import DigestSubscription from '../models/DigestSubscription';
+import Form from '../models/Form';
+import FormActivity from '../models/FormActivity';
+import FormResponse from '../models/FormResponse';
+import User from '../models/User';
+import Workspace from '../models/Workspace';
+import ChartVisualizationService from './ChartVisualizationService';
+import DateRangeFilterService, { IDateRange } from './DateRangeFilterService';
+import FieldEncryptionService from './FieldEncryptionService';
+import FileStorageService from './FileStorageService';
+import JobQueueService from './JobQueueService';
+import MailService from './MailService';
+import ResponseAccessService from './ResponseAccessService';
+import SchedulerService from './SchedulerService';
+import WebhookDeliveryService from './WebhookDeliveryService';
+import {
+  DigestMetric,
+  IDigestFormSummary,
+  IDigestMetricChange,
+  IDigestReport,
+  IDigestSubscription,
+  IDigestSubscriptionInput,
+  IDigestTopAnswers,
+  IForm,
+  IJob,
+  IJobHandlerResult,
+  IMailAttachment
+} from '../types';
+
+export const DIGEST_SEND_JOB = 'digest.send';
+export const DIGEST_WEBHOOK_EVENT = 'analytics.digest';
+
+// Field types whose answers are summarised as top answers
+const TOP_ANSWER_FIELD_TYPES = ['dropdown', 'radio', 'checkbox', 'rating', 'scale'];
+const MAX_TOP_ANSWER_FIELDS = 5;
+const TOP_ANSWERS_PER_FIELD = 3;
+const MAX_WORKSPACE_FORMS = 10;
+const MAX_DUE_PER_DISPATCH = 500;
+const METRICS: DigestMetric[] = ['views', 'starts', 'completions', 'conversionRate', 'completionRate'];
+const METRIC_LABELS: Record<DigestMetric, string> = {
+  views: 'Views',
+  starts: 'Starts',
+  completions: 'Completions',
+  conversionRate: 'Conversion rate',
+  completionRate: 'Completion rate'
+};
+
+type ObjectIdLike = string | Types.ObjectId;
+type DigestSchedule = Pick<IDigestSubscription, 'frequency' | 'timezone' | 'sendHour' | 'dayOfWeek' | 'dayOfMonth'>;
+type ActivityCounts = { views: number; starts: number; completions: number };
+
+/**
+ * Thrown when a digest subscription's settings are invalid
+ */
+export class DigestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DigestError';
+  }
+}
+
+/**
+ * Thrown when the form or workspace of a digest does not exist or the subscriber cannot see it
+ */
+export class DigestTargetNotFoundError extends DigestError {
+  constructor(scope: IDigestSubscription['scope']) {
+    super(`${scope === 'form' ? 'Form' : 'Workspace'} not found or access denied`);
+    this.name = 'DigestTargetNotFoundError';
+  }
+}
+
+/**
+ * Digest Service
+ * Sends scheduled analytics digests for a form or a workspace: views, starts, completions and
+ * conversion for the last day, week or month compared with the period before, with the most
+ * common answers to choice fields. Send times and periods follow the subscriber's timezone.
+ * Digests are rendered as HTML, optionally with a PDF copy, and emailed or posted to a webhook.
+ */
+export class DigestService {
+  /**
+   * Register the queue handler that sends digests, and the scheduled task that queues them
+   */
+  static registerHandlers(): void {
+    JobQueueService.registerHandler(DIGEST_SEND_JOB, job => this.send(job));
+
+    SchedulerService.registerTask({
+      name: 'digests.dispatch',
+      description: 'Queue the analytics digests that are due',
+      defaultIntervalMinutes: 15,
+      run: () => this.dispatchDue()
+    });
+  }
+
+  /**
+   * Subscribe a user to a digest
+   * @param input - Scope, form or workspace, schedule and delivery settings
+   * @param userId - Subscriber
+   * @returns Created subscription, including its webhook secret
+   */
+  static async create(input: IDigestSubscriptionInput, userId: ObjectIdLike): Promise<IDigestSubscription> {
+    const subscription = new DigestSubscription({
+      scope: input.scope,
+      formId: input.scope === 'form' ? input.formId : undefined,
+      workspaceId: input.scope === 'workspace' ? input.workspaceId : undefined,
+      userId
+    });
+
+    if (!(await this.hasAccess(subscription))) {
+      throw new DigestTargetNotFoundError(subscription.scope);
+    }
+
+    return this.applySettings(subscription, { frequency: 'weekly', ...input });
+  }
+
+  /**
+   * List a user's digest subscriptions
+   * @param userId - Subscriber
+   * @param filters - Form or workspace to list digests of
+   * @returns Subscriptions, newest first
+   */
+  static async list(userId: ObjectIdLike, filters: { formId?: string; workspaceId?: string } = {}): Promise<IDigestSubscription[]> {
+    const query: Record<string, any> = { userId };
+    if (filters.formId) query.formId = filters.formId;
+    if (filters.workspaceId) query.workspaceId = filters.workspaceId;
+
+    return DigestSubscription.find(query).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Find one of a user's digest subscriptions
+   * @param subscriptionId - Subscription ID
+   * @param userId - Subscriber
+   * @returns Subscription with its webhook secret, or null
+   */
+  static async findForUser(subscriptionId: string, userId: ObjectIdLike): Promise<IDigestSubscription | null> {
+    if (!Types.ObjectId.isValid(subscriptionId)) return null;
+
+    return DigestSubscription.findOne({ _id: subscriptionId, userId }).select('+webhookSecret');
+  }
+
+  /**
+   * Change a subscription's schedule or delivery; the next send time is worked out again
+   * @param subscription - Subscription
+   * @param input - Settings to change; scope and target cannot change
+   * @returns Updated subscription
+   */
+  static async update(subscription: IDigestSubscription, input: IDigestSubscriptionInput): Promise<IDigestSubscription> {
+    const { scope, formId, workspaceId, ...settings } = input;
+    return this.applySettings(subscription, settings);
+  }
+
+  /**
+   * Delete a subscription and its stored PDF
+   * @param subscription - Subscription
+   */
+  static async remove(subscription: IDigestSubscription): Promise<void> {
+    await this.removePdf(subscription.lastPdfKey);
+    await DigestSubscription.deleteOne({ _id: subscription._id });
+  }
+
+  /**
+   * Queue a subscription's digest for the last complete period, outside its schedule
+   * @param subscription - Subscription
+   * @returns Queued job
+   */
+  static async sendNow(subscription: IDigestSubscription): Promise<IJob> {
+    return JobQueueService.enqueue(
+      DIGEST_SEND_JOB,
+      { subscriptionId: subscription._id.toString(), scheduledFor: new Date().toISOString(), manual: true },
+      { maxAttempts: 3 }
+    );
+  }
+
+  /**
+   * Queue the digests whose send time has passed and move them on to their next send time
+   * Digests missed while no server was running are sent once, for their latest period.
+   * @param now - Current time
+   * @returns Number of digests queued
+   */
+  static async dispatchDue(now: Date = new Date()): Promise<{ queued: number }> {
+    const due = await DigestSubscription.find({ active: true, nextRunAt: { $lte: now } })
+      .sort({ nextRunAt: 1 })
+      .limit(MAX_DUE_PER_DISPATCH);
+
+    let queued = 0;
+    for (const subscription of due) {
+      const scheduledFor = subscription.nextRunAt;
+      await JobQueueService.enqueue(
+        DIGEST_SEND_JOB,
+        { subscriptionId: subscription._id.toString(), scheduledFor: scheduledFor.toISOString() },
+        { dedupeKey: `${DIGEST_SEND_JOB}:${subscription._id}:${scheduledFor.getTime()}`, maxAttempts: 3 }
+      );
+      await DigestSubscription.updateOne(
+        { _id: subscription._id, nextRunAt: scheduledFor },
+        { $set: { nextRunAt: this.getNextRunAt(subscription, now) } }
+      );
+      queued++;
+    }
+
+    return { queued };
+  }
+
+  /**
+   * Work out when a digest is next sent
+   * @param schedule - Frequency, timezone, hour and day
+   * @param after - Time the send must follow
+   * @returns Next send time
+   */
+  static getNextRunAt(schedule: DigestSchedule, after: Date = new Date()): Date {
+    const local = this.getLocalParts(after, schedule.timezone);
+
+    // Calendar days in the subscriber's timezone; a month holds every weekly and monthly send day
+    for (let offset = 0; offset <= 62; offset++) {
+      const day = new Date(Date.UTC(local.year, local.month - 1, local.day + offset));
+      if (schedule.frequency === 'weekly' && day.getUTCDay() !== schedule.dayOfWeek) continue;
+      if (schedule.frequency === 'monthly' && day.getUTCDate() !== schedule.dayOfMonth) continue;
+
+      const runAt = this.toZonedTime(day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), schedule.sendHour, schedule.timezone);
+      if (runAt > after) return runAt;
+    }
+
+    throw new DigestError('No send time found for the schedule');
+  }
+
+  /**
+   * Work out the period a digest sent at a given time covers: the day or seven days before the
+   * send day, or the calendar month before, in the subscriber's timezone
+   * @param schedule - Frequency and timezone
+   * @param sendAt - Time the digest is sent
+   * @returns Period, with an exclusive end
+   */
+  static getPeriod(schedule: Pick<DigestSchedule, 'frequency' | 'timezone'>, sendAt: Date): IDateRange {
+    const { year, month, day } = this.getLocalParts(sendAt, schedule.timezone);
+
+    switch (schedule.frequency) {
+      case 'monthly':
+        return {
+          start: this.toZonedTime(year, month - 1, 1, 0, schedule.timezone),
+          end: this.toZonedTime(year, month, 1, 0, schedule.timezone)
+        };
+      case 'weekly':
+        return {
+          start: this.toZonedTime(year, month, day - 7, 0, schedule.timezone),
+          end: this.toZonedTime(year, month, day, 0, schedule.timezone)
+        };
+      default:
+        return {
+          start: this.toZonedTime(year, month, day - 1, 0, schedule.timezone),
+          end: this.toZonedTime(year, month, day, 0, schedule.timezone)
+        };
+    }
+  }
+
+  /**
+   * Compute a digest for a period, compared with the period of the same length before it
+   * @param subscription - Subscription
+   * @param period - Period to report on
+   * @returns Digest report
+   */
+  static async buildReport(subscription: IDigestSubscription, period: IDateRange): Promise<IDigestReport> {
+    const previousPeriod = DateRangeFilterService.getComparisonDateRange(period);
+
+    let title: string;
+    let forms: IForm[];
+    if (subscription.scope === 'form') {
+      const form = await Form.findById(subscription.formId);
+      if (!form) throw new DigestTargetNotFoundError('form');
+      title = form.title;
+      forms = [form];
+    } else {
+      const workspace = await Workspace.findById(subscription.workspaceId).select('name');
+      if (!workspace) throw new DigestTargetNotFoundError('workspace');
+      title = workspace.name;
+      forms = await Form.find({ workspaceId: subscription.workspaceId, isActive: true }).select('title');
+    }
+
+    const formIds = forms.map(form => form._id);
+    const [current, previous] = await Promise.all([
+      this.countActivity(formIds, period),
+      this.countActivity(formIds, previousPeriod)
+    ]);
+
+    const summaries: IDigestFormSummary[] = forms.map(form => ({
+      formId: form._id,
+      title: form.title,
+      metrics: this.compare(current.get(form._id.toString()), previous.get(form._id.toString()))
+    }));
+
+    return {
+      scope: subscription.scope,
+      title,
+      frequency: subscription.frequency,
+      timezone: subscription.timezone,
+      period,
+      previousPeriod,
+      metrics: this.compare(this.sumCounts(current), this.sumCounts(previous)),
+      forms: subscription.scope === 'workspace'
+        ? summaries
+          .sort((a, b) => b.metrics.completions.current - a.metrics.completions.current || b.metrics.views.current - a.metrics.views.current)
+          .slice(0, MAX_WORKSPACE_FORMS)
+        : [],
+      topAnswers: subscription.scope === 'form' ? await this.getTopAnswers(forms[0], period) : [],
+      generatedAt: new Date()
+    };
+  }
+
+  /**
+   * Render a digest as an HTML email body
+   * @param report - Digest report
+   * @returns HTML document
+   */
+  static renderHtml(report: IDigestReport): string {
+    const cell = 'padding:6px 12px;border-bottom:1px solid #eee;';
+    const metricRows = METRICS.map(metric => `<tr>
+      <td style="${cell}">${METRIC_LABELS[metric]}</td>
+      <td style="${cell}text-align:right;"><strong>${this.formatValue(metric, report.metrics[metric].current)}</strong></td>
+      <td style="${cell}text-align:right;color:#666;">${this.formatValue(metric, report.metrics[metric].previous)}</td>
+      <td style="${cell}text-align:right;">${this.formatChange(report.metrics[metric].change)}</td>
+    </tr>`).join('');
+
+    const formRows = report.forms.map(form => `<tr>
+      <td style="${cell}">${this.escapeHtml(form.title)}</td>
+      <td style="${cell}text-align:right;">${form.metrics.views.current}</td>
+      <td style="${cell}text-align:right;">${form.metrics.completions.current} (${this.formatChange(form.metrics.completions.change)})</td>
+      <td style="${cell}text-align:right;">${this.formatValue('conversionRate', form.metrics.conversionRate.current)}</td>
+    </tr>`).join('');
+
+    const topAnswers = report.topAnswers.map(field => `<h3 style="font-size:15px;margin:16px 0 4px;">${this.escapeHtml(field.label)}</h3>
+      <ol style="margin:0;padding-left:20px;">${field.answers
+        .map(answer => `<li>${this.escapeHtml(answer.answer)} <span style="color:#666;">(${answer.count})</span></li>`)
+        .join('')}</ol>`).join('');
+
+    return `<!DOCTYPE html>
+<html>
+<body style="font-family:Arial,sans-serif;color:#222;max-width:640px;margin:0 auto;padding:24px;">
+  <h1 style="font-size:22px;margin:0 0 4px;">${this.escapeHtml(report.title)}</h1>
+  <p style="color:#666;margin:0 0 16px;">${this.getHeading(report)}</p>
+  <table style="border-collapse:collapse;width:100%;">
+    <tr><th style="${cell}text-align:left;">Metric</th><th style="${cell}text-align:right;">This period</th><th style="${cell}text-align:right;">Previous</th><th style="${cell}text-align:right;">Change</th></tr>
+    ${metricRows}
+  </table>
+  ${formRows ? `<h2 style="font-size:18px;margin:24px 0 8px;">Forms</h2>
+  <table style="border-collapse:collapse;width:100%;">
+    <tr><th style="${cell}text-align:left;">Form</th><th style="${cell}text-align:right;">Views</th><th style="${cell}text-align:right;">Completions</th><th style="${cell}text-align:right;">Conversion</th></tr>
+    ${formRows}
+  </table>` : ''}
+  ${topAnswers ? `<h2 style="font-size:18px;margin:24px 0 8px;">Top answers</h2>${topAnswers}` : ''}
+</body>
+</html>`;
+  }
+
+  /**
+   * Render a digest as plain text
+   * @param report - Digest report
+   * @returns Text body
+   */
+  static renderText(report: IDigestReport): string {
+    const lines = [report.title, this.getHeading(report), ''];
+
+    for (const metric of METRICS) {
+      const { current, previous, change } = report.metrics[metric];
+      lines.push(`${METRIC_LABELS[metric]}: ${this.formatValue(metric, current)} (previous ${this.formatValue(metric, previous)}, ${this.formatChange(change)})`);
+    }
+    if (report.forms.length > 0) {
+      lines.push('', 'Forms:');
+      report.forms.forEach(form => lines.push(`- ${form.title}: ${form.metrics.views.current} views, ${form.metrics.completions.current} completions`));
+    }
+    for (const field of report.topAnswers) {
+      lines.push('', `${field.label}:`);
+      field.answers.forEach(answer => lines.push(`- ${answer.answer} (${answer.count})`));
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Render a digest as a PDF document
+   * @param report - Digest report
+   * @returns PDF file
+   */
+  static renderPdf(report: IDigestReport): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      try {
+        const doc = new PDFDocument({ margin: 50 });
+        const chunks: Buffer[] = [];
+
+        doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+
+        doc.fontSize(20).text(report.title);
+        doc.fontSize(10).fillColor('gray').text(this.getHeading(report));
+        doc.moveDown();
+
+        doc.fillColor('black');
+        for (const metric of METRICS) {
+          const { current, previous, change } = report.metrics[metric];
+          doc.fontSize(12).text(`${METRIC_LABELS[metric]}: ${this.formatValue(metric, current)}`, { continued: true })
+            .fontSize(10).fillColor('gray').text(`   previous ${this.formatValue(metric, previous)}, ${this.formatChange(change)}`)
+            .fillColor('black');
+        }
+
+        if (report.forms.length > 0) {
+          doc.moveDown().fontSize(14).text('Forms');
+          report.forms.forEach(form => doc.fontSize(10).text(
+            `${form.title}: ${form.metrics.views.current} views, ${form.metrics.completions.current} completions, ` +
+            `${this.formatValue('conversionRate', form.metrics.conversionRate.current)} conversion`
+          ));
+        }
+
+        if (report.topAnswers.length > 0) {
+          doc.moveDown().fontSize(14).text('Top answers');
+          for (const field of report.topAnswers) {
+            doc.moveDown(0.5).fontSize(11).text(field.label);
+            field.answers.forEach((answer, index) => doc.fontSize(10).text(`${index + 1}. ${answer.answer} (${answer.count})`, { indent: 12 }));
+          }
+        }
+
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  // Job handlers
+
+  private static async send(job: IJob): Promise<IJobHandlerResult> {
+    const { subscriptionId, scheduledFor, manual } = job.payload as { subscriptionId: string; scheduledFor: string; manual?: boolean };
+    const subscription = await DigestSubscription.findById(subscriptionId).select('+webhookSecret');
+    if (!subscription || (!subscription.active && !manual)) {
+      return { result: { subscriptionId, skipped: true } };
+    }
+
+    if (!(await this.hasAccess(subscription))) {
+      // The subscriber left the workspace or the form was deleted
+      subscription.active = false;
+      subscription.lastStatus = 'failed';
+      subscription.lastError = `${subscription.scope === 'form' ? 'Form' : 'Workspace'} not found or access denied`;
+      await subscription.save();
+      return { result: { subscriptionId, skipped: true, deactivated: true } };
+    }
+
+    const period = this.getPeriod(subscription, new Date(scheduledFor));
+    try {
+      const report = await this.buildReport(subscription, period);
+      const result = await this.deliver(subscription, report, job, !!manual);
+
+      subscription.lastSentAt = new Date();
+      subscription.lastPeriodEnd = period.end;
+      subscription.lastStatus = 'sent';
+      subscription.lastError = undefined;
+      await subscription.save();
+
+      return { result: { subscriptionId, periodStart: period.start, periodEnd: period.end, ...result } };
+    } catch (error: any) {
+      await DigestSubscription.updateOne(
+        { _id: subscription._id },
+        { $set: { lastStatus: 'failed', lastError: error?.message || String(error) } }
+      );
+      throw error;
+    }
+  }
+
+  // Helper methods
+
+  private static async deliver(
+    subscription: IDigestSubscription,
+    report: IDigestReport,
+    job: IJob,
+    manual: boolean
+  ): Promise<Record<string, any>> {
+    const html = this.renderHtml(report);
+    const pdf = subscription.format === 'pdf' ? await this.renderPdf(report) : undefined;
+    const day = report.period.start.toISOString().slice(0, 10);
+
+    if (subscription.channel === 'webhook') {
+      const attempt = await WebhookDeliveryService.sendPayload(
+        subscription.webhookUrl!,
+        {
+          event: DIGEST_WEBHOOK_EVENT,
+          subscriptionId: subscription._id.toString(),
+          report,
+          html,
+          ...(pdf && { pdf: pdf.toString('base64') })
+        },
+        { event: DIGEST_WEBHOOK_EVENT, deliveryId: job._id.toString(), secret: subscription.webhookSecret }
+      );
+      if (attempt.status === 'failed') throw new Error(attempt.error);
+
+      return { channel: 'webhook', status: attempt.response?.status };
+    }
+
+    const attachments: IMailAttachment[] = [];
+    if (pdf) {
+      const storageKey = `digests/${subscription._id}/${day}.pdf`;
+      await FileStorageService.getBackend().put(storageKey, pdf, 'application/pdf');
+      attachments.push({ filename: `digest-${day}.pdf`, storageKey, contentType: 'application/pdf', size: pdf.length });
+
+      if (subscription.lastPdfKey !== storageKey) await this.removePdf(subscription.lastPdfKey);
+      subscription.lastPdfKey = storageKey;
+    }
+
+    const message = await MailService.queue(
+      {
+        to: subscription.recipients,
+        subject: `${report.title}: ${subscription.frequency} analytics digest (${this.formatPeriod(report)})`,
+        html,
+        text: this.renderText(report),
+        attachments
+      },
+      {
+        kind: 'digest',
+        formId: subscription.formId,
+        // Scheduled sends of a period are emailed once; manual sends always go out
+        dedupeKey: manual ? undefined : `digest:${subscription._id}:${report.period.end.getTime()}`
+      }
+    );
+
+    return { channel: 'email', emailMessageId: message._id };
+  }
+
+  private static async applySettings(subscription: IDigestSubscription, input: IDigestSubscriptionInput): Promise<IDigestSubscription> {
+    const fields = ['frequency', 'timezone', 'sendHour', 'dayOfWeek', 'dayOfMonth', 'format', 'channel', 'recipients', 'webhookUrl', 'active'] as const;
+    for (const field of fields) {
+      if (input[field] !== undefined) (subscription as any)[field] = input[field];
+    }
+    if (input.webhookSecret) subscription.webhookSecret = input.webhookSecret;
+
+    if (!this.isValidTimezone(subscription.timezone)) {
+      throw new DigestError(`Unknown timezone: ${subscription.timezone}`);
+    }
+
+    if (subscription.channel === 'webhook') {
+      if (!subscription.webhookUrl || !/^https?:\/\//i.test(subscription.webhookUrl)) {
+        throw new DigestError('Webhook digests need an http(s) webhookUrl');
+      }
+      if (!subscription.webhookSecret) subscription.webhookSecret = crypto.randomBytes(32).toString('hex');
+    } else if (subscription.recipients.length === 0) {
+      // Email digests go to the subscriber unless other recipients are given
+      const user = await User.findById(subscription.userId).select('email');
+      if (!user) throw new DigestError('Email digests need at least one recipient');
+      subscription.recipients = [user.email];
+    }
+
+    subscription.nextRunAt = this.getNextRunAt(subscription);
+    return subscription.save();
+  }
+
+  private static async hasAccess(subscription: Pick<IDigestSubscription, 'scope' | 'formId' | 'workspaceId' | 'userId'>): Promise<boolean> {
+    if (subscription.scope === 'form') {
+      return !!subscription.formId && !!(await ResponseAccessService.findForm(subscription.formId.toString(), subscription.userId));
+    }
+
+    if (!subscription.workspaceId || !Types.ObjectId.isValid(subscription.workspaceId.toString())) return false;
+    const access = await Workspace.checkUserAccess(subscription.workspaceId.toString(), subscription.userId.toString());
+    return !!access?.permissions?.viewResponses;
+  }
+
+  private static async countActivity(formIds: Types.ObjectId[], range: IDateRange): Promise<Map<string, ActivityCounts>> {
+    const [activity, responses] = await Promise.all([
+      FormActivity.aggregate([
+        { $match: { formId: { $in: formIds }, hour: { $gte: range.start, $lt: range.end } } },
+        { $group: { _id: '$formId', views: { $sum: '$views' }, starts: { $sum: '$starts' } } }
+      ]),
+      FormResponse.aggregate([
+        { $match: { formId: { $in: formIds }, submittedAt: { $gte: range.start, $lt: range.end }, status: { $ne: 'spam' } } },
+        { $group: { _id: '$formId', completions: { $sum: 1 } } }
+      ])
+    ]);
+
+    const counts = new Map<string, ActivityCounts>();
+    const get = (formId: Types.ObjectId): ActivityCounts => {
+      const key = formId.toString();
+      if (!counts.has(key)) counts.set(key, { views: 0, starts: 0, completions: 0 });
+      return counts.get(key)!;
+    };
+    activity.forEach(row => Object.assign(get(row._id), { views: row.views, starts: row.starts }));
+    responses.forEach(row => { get(row._id).completions = row.completions; });
+
+    return counts;
+  }
+
+  private static sumCounts(counts: Map<string, ActivityCounts>): ActivityCounts {
+    return Array.from(counts.values()).reduce(
+      (total, row) => ({ views: total.views + row.views, starts: total.starts + row.starts, completions: total.completions + row.completions }),
+      { views: 0, starts: 0, completions: 0 }
+    );
+  }
+
+  private static compare(
+    current: ActivityCounts = { views: 0, starts: 0, completions: 0 },
+    previous: ActivityCounts = { views: 0, starts: 0, completions: 0 }
+  ): Record<DigestMetric, IDigestMetricChange> {
+    const withRates = (counts: ActivityCounts): Record<DigestMetric, number> => ({
+      ...counts,
+      conversionRate: counts.views > 0 ? this.round((counts.completions / counts.views) * 100) : 0,
+      completionRate: counts.starts > 0 ? this.round((counts.completions / counts.starts) * 100) : 0
+    });
+    const now = withRates(current);
+    const before = withRates(previous);
+
+    return METRICS.reduce((metrics, metric) => {
+      metrics[metric] = {
+        current: now[metric],
+        previous: before[metric],
+        change: before[metric] > 0 ? this.round(((now[metric] - before[metric]) / before[metric]) * 100) : null
+      };
+      return metrics;
+    }, {} as Record<DigestMetric, IDigestMetricChange>);
+  }
+
+  private static async getTopAnswers(form: IForm, period: IDateRange): Promise<IDigestTopAnswers[]> {
+    // Encrypted answers cannot be grouped, and field IDs are used as paths in the query
+    const sensitiveFieldIds = FieldEncryptionService.getSensitiveFieldIds(form);
+    const fields = form.fields
+      .filter(field => TOP_ANSWER_FIELD_TYPES.includes(field.type) && !sensitiveFieldIds.has(field.id) && !/[.$]/.test(field.id))
+      .slice(0, MAX_TOP_ANSWER_FIELDS);
+    const query = { formId: form._id, submittedAt: { $gte: period.start, $lt: period.end }, status: { $ne: 'spam' } };
+
+    const topAnswers: IDigestTopAnswers[] = [];
+    for (const field of fields) {
+      const chart = await ChartVisualizationService.generateFieldBreakdownChart(form, field, query, TOP_ANSWERS_PER_FIELD);
+      const counts = chart.data.datasets[0]?.data || [];
+      if (counts.length === 0) continue;
+
+      topAnswers.push({
+        fieldId: field.id,
+        label: field.label,
+        answers: chart.data.labels.map((answer, index) => ({ answer, count: counts[index] }))
+      });
+    }
+
+    return topAnswers;
+  }
+
+  private static async removePdf(storageKey?: string): Promise<void> {
+    if (!storageKey) return;
+    await FileStorageService.removeFile({ storageKey, filename: storageKey.split('/').pop()! });
+  }
+
+  private static getHeading(report: IDigestReport): string {
+    const frequency = report.frequency.charAt(0).toUpperCase() + report.frequency.slice(1);
+    return `${frequency} digest for ${this.formatPeriod(report)} (${report.timezone})`;
+  }
+
+  private static formatPeriod(report: IDigestReport): string {
+    const format = (date: Date) => date.toLocaleDateString('en-US', { timeZone: report.timezone, year: 'numeric', month: 'short', day: 'numeric' });
+    // The period's end is exclusive
+    const first = format(report.period.start);
+    const last = format(new Date(report.period.end.getTime() - 1));
+
+    return first === last ? first : `${first} - ${last}`;
+  }
+
+  private static formatValue(metric: DigestMetric, value: number): string {
+    return metric === 'conversionRate' || metric === 'completionRate' ? `${value}%` : String(value);
+  }
+
+  private static formatChange(change: number | null): string {
+    if (change === null) return 'n/a';
+    return `${change > 0 ? '+' : ''}${change}%`;
+  }
+
+  private static escapeHtml(value: string): string {
+    return String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+
+  private static isValidTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private static getLocalParts(date: Date, timezone: string): { year: number; month: number; day: number; hour: number; minute: number; second: number } {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(date);
+
+    const value = (type: string) => parseInt(parts.find(part => part.type === type)?.value || '0', 10);
+    return { year: value('year'), month: value('month'), day: value('day'), hour: value('hour'), minute: value('minute'), second: value('second') };
+  }
+
+  /**
+   * Convert a wall-clock time in a timezone to an absolute time; days and months may overflow
+   */
+  private static toZonedTime(year: number, month: number, day: number, hour: number, timezone: string): Date {
+    const wallClock = Date.UTC(year, month - 1, day, hour);
+    const offsetAt = (time: number) => {
+      const local = this.getLocalParts(new Date(time), timezone);
+      return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second) - time;
+    };
+
+    // Offset at the guess, corrected once for a daylight saving change between the guess and the result
+    const guess = wallClock - offsetAt(wallClock);
+    const result = new Date(wallClock - offsetAt(guess));
+
+    // An hour skipped when clocks go forward resolves to the hour after the change
+    return this.getLocalParts(result, timezone).hour === new Date(wallClock).getUTCHours() ? result : new Date(guess);
+  }
+}
+
+export default DigestService;
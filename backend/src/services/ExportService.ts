@@ -1,17 +1,256 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { once } from 'events';
+import { Writable } from 'stream';
+import { finished } from 'stream/promises';
 import { Types } from 'mongoose';
-import { IForm, IFormResponse } from '../types';
+import ExcelJS from 'exceljs';
+import PDFDocument from 'pdfkit';
+import {
+  IForm,
+  IFormResponse,
+  IJob,
+  IJobHandlerResult,
+  IResponseExport,
+  IResponseExportOptions,
+  ResponseExportFormat
+} from '../types';
 import Form from '../models/Form';
 import FormResponse from '../models/FormResponse';
-import * as XLSX from 'xlsx';
-import PDFDocument from 'pdfkit';
-import { Readable } from 'stream';
+import ResponseExport from '../models/ResponseExport';
+import User from '../models/User';
+import FieldEncryptionService from './FieldEncryptionService';
+import FileStorageService from './FileStorageService';
+import JobQueueService from './JobQueueService';
+import MailService from './MailService';
+import ResponseAccessService from './ResponseAccessService';
+import SavedViewService, { IViewQueryParams, SAVED_VIEW_COLUMNS } from './SavedViewService';
+import SchedulerService from './SchedulerService';
+
+export const EXPORT_JOB = 'exports.generate';
+
+// Largest export per format; a PDF has a page per response
+export const MAX_EXPORT_RECORDS: Record<ResponseExportFormat, number> = {
+  excel: 1000000,
+  pdf: 1000,
+  csv: 1000000
+};
+
+const FILE_TYPES: Record<ResponseExportFormat, { extension: string; mimeType: string }> = {
+  excel: { extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  pdf: { extension: 'pdf', mimeType: 'application/pdf' },
+  csv: { extension: 'csv', mimeType: 'text/csv' }
+};
+
+// Parameters that pick the exported responses, as accepted by the responses list
+const QUERY_PARAMS = [
+  'viewId', 'filter', 'search', 'startDate', 'endDate', 'datePreset', 'status', 'tags', 'assignedTo', 'hasNotes', 'sortBy', 'order'
+];
+const CURSOR_BATCH_SIZE = 500;
+const PROGRESS_INTERVAL = 1000;
+const RECENT_EXPORTS = 10;
+const MAX_EXPIRED_PER_SWEEP = 500;
+
+type ObjectIdLike = string | Types.ObjectId;
+type RecordHandler = (processed: number, total: number) => Promise<void>;
+
+// Running totals for the summary and field analysis sheets, so responses need not be kept
+interface IExportTotals {
+  count: number;
+  firstSubmittedAt?: Date;
+  lastSubmittedAt?: Date;
+  answered: Record<string, number>;
+  answerCounts: Record<string, Record<string, number>>;
+}
+
+/**
+ * Thrown when an export cannot be queued or run as asked
+ */
+export class ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportError';
+  }
+}
 
 /**
  * Export Service
  * Handles exporting form responses to various formats (Excel, PDF, CSV)
+ * Responses are streamed from a cursor into the file writer. Full exports run as background
+ * jobs that report their progress, store the file until EXPORT_TTL_HOURS have passed and
+ * email the requester a download link.
  */
 export class ExportService {
 
+  /**
+   * Register the queue handler that generates exports, and the scheduled task that removes expired files
+   */
+  static registerHandlers(): void {
+    JobQueueService.registerHandler(EXPORT_JOB, job => this.generate(job));
+
+    SchedulerService.registerTask({
+      name: 'exports.cleanup',
+      description: 'Delete response export files past their expiry',
+      defaultIntervalMinutes: 60,
+      run: () => this.removeExpired()
+    });
+  }
+
+  /**
+   * Queue an export of a form's responses
+   * @param form - Form to export
+   * @param format - File format
+   * @param params - Filter, search, date range and saved view parameters, as for the responses list
+   * @param options - Columns, extra sheets and record limit
+   * @param userId - User the export is for
+   * @returns Queued export
+   */
+  static async queueExport(
+    form: IForm,
+    format: ResponseExportFormat,
+    params: Record<string, any>,
+    options: IResponseExportOptions,
+    userId: ObjectIdLike
+  ): Promise<IResponseExport> {
+    const storedParams = this.pickQueryParams(params);
+    const { error } = await this.resolveQuery(form, storedParams, userId);
+    if (error) throw new ExportError(error);
+
+    const responseExport = await ResponseExport.create({
+      formId: form._id,
+      requestedBy: userId,
+      format,
+      params: storedParams,
+      options
+    });
+
+    const job = await JobQueueService.enqueue(EXPORT_JOB, { exportId: responseExport._id.toString() }, { maxAttempts: 2 });
+    responseExport.jobId = job._id;
+    return responseExport.save();
+  }
+
+  /**
+   * Build the response query for an export from the same parameters as the responses list,
+   * so an export contains what the filtered list or saved view (`viewId`) shows.
+   * dateFrom/dateTo and the older `filters` list are still accepted.
+   * @param form - Form to export
+   * @param params - Request parameters
+   * @param userId - User the export is for
+   * @returns Query, sort and the view's columns, or an error message
+   */
+  static async resolveQuery(
+    form: IForm,
+    params: Record<string, any>,
+    userId: ObjectIdLike
+  ): Promise<{ query?: Record<string, any>; sort?: Record<string, 1 | -1>; selectedFields?: string[]; error?: string }> {
+    const { filter: query, sort, view, error } = await SavedViewService.resolveQuery(form, {
+      ...params,
+      filter: this.getFilter(params),
+      startDate: params.startDate || params.dateFrom,
+      endDate: params.endDate || params.dateTo
+    } as IViewQueryParams, userId);
+    if (error) return { error };
+
+    // A view's columns pick the exported fields unless the request chooses its own
+    let selectedFields: string[] | undefined;
+    if (view && view.columns.length > 0 && !params.selectedFields) {
+      selectedFields = view.columns.filter(column => !SAVED_VIEW_COLUMNS.includes(column));
+      if (view.columns.some(column => SAVED_VIEW_COLUMNS.includes(column))) {
+        selectedFields.push('metadata');
+      }
+    }
+
+    return { query, sort, selectedFields };
+  }
+
+  /**
+   * List a user's exports, newest first
+   * @param userId - User the exports are for
+   * @param options - Form filter and paging
+   * @returns Exports and total count
+   */
+  static async listExports(
+    userId: ObjectIdLike,
+    options: { formId?: string; page?: number; limit?: number } = {}
+  ): Promise<{ exports: IResponseExport[]; total: number }> {
+    const query: Record<string, any> = { requestedBy: userId };
+    if (options.formId) query.formId = options.formId;
+
+    const limit = Math.min(100, Math.max(1, options.limit || 20));
+    const page = Math.max(1, options.page || 1);
+
+    const [exports, total] = await Promise.all([
+      ResponseExport.find(query).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+      ResponseExport.countDocuments(query)
+    ]);
+
+    return { exports, total };
+  }
+
+  /**
+   * Find an export; only the user it was made for may see it, as it may hold decrypted answers
+   * @param exportId - Export ID
+   * @param userId - User the export is for
+   * @returns Export, or null
+   */
+  static async findForUser(exportId: string, userId: ObjectIdLike): Promise<IResponseExport | null> {
+    if (!Types.ObjectId.isValid(exportId)) return null;
+
+    return ResponseExport.findOne({ _id: exportId, requestedBy: userId });
+  }
+
+  /**
+   * Create a link that downloads a finished export without signing in, valid until the export expires
+   * @param responseExport - Completed export
+   * @returns Absolute URL and its expiry, or null when there is no file to download
+   */
+  static getDownloadLink(responseExport: IResponseExport): { url: string; expiresAt: Date } | null {
+    if (responseExport.status !== 'completed' || !responseExport.storageKey || !responseExport.expiresAt) return null;
+
+    const ttlSeconds = Math.floor((responseExport.expiresAt.getTime() - Date.now()) / 1000);
+    if (ttlSeconds <= 0) return null;
+
+    return FileStorageService.createSignedUrl({
+      storageKey: responseExport.storageKey,
+      originalName: responseExport.filename!,
+      mimetype: responseExport.mimeType!
+    }, ttlSeconds);
+  }
+
+  /**
+   * Count a download of an export
+   * @param responseExport - Downloaded export
+   */
+  static async recordDownload(responseExport: IResponseExport): Promise<void> {
+    await ResponseExport.updateOne(
+      { _id: responseExport._id },
+      { $inc: { downloadCount: 1 }, $set: { lastDownloadedAt: new Date() } }
+    );
+  }
+
+  /**
+   * Delete the files of exports past their expiry; the exports stay in the history
+   * @param now - Current time
+   * @returns Number of exports expired
+   */
+  static async removeExpired(now: Date = new Date()): Promise<{ expired: number }> {
+    const expired = await ResponseExport.find({ status: 'completed', expiresAt: { $lte: now } })
+      .limit(MAX_EXPIRED_PER_SWEEP);
+
+    for (const responseExport of expired) {
+      if (responseExport.storageKey) {
+        await FileStorageService.removeFile({ storageKey: responseExport.storageKey, filename: responseExport.filename || '' });
+      }
+      await ResponseExport.updateOne(
+        { _id: responseExport._id, status: 'completed' },
+        { $set: { status: 'expired' }, $unset: { storageKey: 1 } }
+      );
+    }
+
+    return { expired: expired.length };
+  }
+
   /**
    * Export form responses to Excel format
    * @param formId - Form identifier
@@ -23,74 +262,7 @@ export class ExportService {
     options: IExportOptions = {}
   ): Promise<IExportResult> {
     try {
-      const form = await Form.findById(formId);
-      if (!form) {
-        throw new Error('Form not found');
-      }
-
-      // Build query with filters
-      const query = this.buildResponseQuery(formId, options);
-      
-      // Get responses with pagination if needed
-      const responses = await FormResponse.find(query)
-        .sort({ submittedAt: -1 })
-        .limit(options.limit || 10000); // Reasonable limit
-
-      if (responses.length === 0) {
-        return {
-          success: false,
-          error: 'No responses found for export'
-        };
-      }
-
-      // Prepare data for Excel
-      const excelData = this.prepareExcelData(form, responses, options);
-      
-      // Create workbook
-      const workbook = XLSX.utils.book_new();
-      
-      // Add main responses sheet
-      const responsesSheet = XLSX.utils.json_to_sheet(excelData.responses);
-      XLSX.utils.book_append_sheet(workbook, responsesSheet, 'Responses');
-      
-      // Add summary sheet if requested
-      if (options.includeSummary) {
-        const summaryData = this.generateSummaryData(form, responses);
-        const summarySheet = XLSX.utils.json_to_sheet(summaryData);
-        XLSX.utils.book_append_sheet(workbook, summarySheet, 'Summary');
-      }
-      
-      // Add field analysis sheet if requested
-      if (options.includeAnalysis) {
-        const analysisData = this.generateFieldAnalysis(form, responses);
-        const analysisSheet = XLSX.utils.json_to_sheet(analysisData);
-        XLSX.utils.book_append_sheet(workbook, analysisSheet, 'Field Analysis');
-      }
-      
-      // Generate Excel buffer
-      const excelBuffer = XLSX.write(workbook, {
-        type: 'buffer',
-        bookType: 'xlsx',
-        compression: true
-      });
-
-      return {
-        success: true,
-        data: {
-          buffer: excelBuffer,
-          filename: this.generateFileName(form.title, 'xlsx', options),
-          mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-          size: excelBuffer.length,
-          recordCount: responses.length,
-          exportedAt: new Date(),
-          metadata: {
-            formTitle: form.title,
-            totalResponses: responses.length,
-            exportFormat: 'excel',
-            exportOptions: options
-          }
-        }
-      };
+      return await this.exportToBuffer(formId, 'excel', options);
     } catch (error) {
       console.error('Excel export error:', error);
       return {
@@ -111,46 +283,7 @@ export class ExportService {
     options: IExportOptions = {}
   ): Promise<IExportResult> {
     try {
-      const form = await Form.findById(formId);
-      if (!form) {
-        throw new Error('Form not found');
-      }
-
-      // Build query with filters
-      const query = this.buildResponseQuery(formId, options);
-      
-      // Get responses
-      const responses = await FormResponse.find(query)
-        .sort({ submittedAt: -1 })
-        .limit(options.limit || 1000); // Lower limit for PDF due to size
-
-      if (responses.length === 0) {
-        return {
-          success: false,
-          error: 'No responses found for export'
-        };
-      }
-
-      // Generate PDF
-      const pdfBuffer = await this.generatePDF(form, responses, options);
-
-      return {
-        success: true,
-        data: {
-          buffer: pdfBuffer,
-          filename: this.generateFileName(form.title, 'pdf', options),
-          mimeType: 'application/pdf',
-          size: pdfBuffer.length,
-          recordCount: responses.length,
-          exportedAt: new Date(),
-          metadata: {
-            formTitle: form.title,
-            totalResponses: responses.length,
-            exportFormat: 'pdf',
-            exportOptions: options
-          }
-        }
-      };
+      return await this.exportToBuffer(formId, 'pdf', options);
     } catch (error) {
       console.error('PDF export error:', error);
       return {
@@ -171,50 +304,7 @@ export class ExportService {
     options: IExportOptions = {}
   ): Promise<IExportResult> {
     try {
-      const form = await Form.findById(formId);
-      if (!form) {
-        throw new Error('Form not found');
-      }
-
-      // Build query with filters
-      const query = this.buildResponseQuery(formId, options);
-      
-      // Get responses
-      const responses = await FormResponse.find(query)
-        .sort({ submittedAt: -1 })
-        .limit(options.limit || 50000); // Higher limit for CSV
-
-      if (responses.length === 0) {
-        return {
-          success: false,
-          error: 'No responses found for export'
-        };
-      }
-
-      // Prepare data for CSV
-      const csvData = this.prepareCSVData(form, responses, options);
-      
-      // Generate CSV content
-      const csvContent = this.generateCSV(csvData);
-      const csvBuffer = Buffer.from(csvContent, 'utf8');
-
-      return {
-        success: true,
-        data: {
-          buffer: csvBuffer,
-          filename: this.generateFileName(form.title, 'csv', options),
-          mimeType: 'text/csv',
-          size: csvBuffer.length,
-          recordCount: responses.length,
-          exportedAt: new Date(),
-          metadata: {
-            formTitle: form.title,
-            totalResponses: responses.length,
-            exportFormat: 'csv',
-            exportOptions: options
-          }
-        }
-      };
+      return await this.exportToBuffer(formId, 'csv', options);
     } catch (error) {
       console.error('CSV export error:', error);
       return {
@@ -237,11 +327,10 @@ export class ExportService {
       }
 
       const totalResponses = await FormResponse.countDocuments({ formId: new Types.ObjectId(formId) });
-      
+
       // Calculate estimated file sizes
       const estimatedSizes = this.calculateEstimatedSizes(form, totalResponses);
-      
-      // Get recent export history (this would come from an export log collection)
+
       const recentExports = await this.getRecentExports(formId);
 
       return {
@@ -251,11 +340,7 @@ export class ExportService {
         estimatedSizes,
         supportedFormats: ['excel', 'pdf', 'csv'],
         recentExports,
-        maxRecordsPerExport: {
-          excel: 10000,
-          pdf: 1000,
-          csv: 50000
-        },
+        maxRecordsPerExport: MAX_EXPORT_RECORDS,
         features: {
           includeMetadata: true,
           includeSummary: true,
@@ -271,7 +356,335 @@ export class ExportService {
     }
   }
 
+  // Job handlers
+
+  private static async generate(job: IJob): Promise<IJobHandlerResult> {
+    const responseExport = await ResponseExport.findOne({ _id: job.payload.exportId, status: { $in: ['queued', 'running'] } });
+    if (!responseExport) return { result: { exportId: job.payload.exportId, skipped: true } };
+
+    const form = await Form.findById(responseExport.formId);
+    const { format } = responseExport;
+    const tempPath = path.join(os.tmpdir(), `export-${responseExport._id}.${FILE_TYPES[format].extension}`);
+
+    try {
+      if (!form) throw new ExportError('Form not found');
+
+      // A saved view may have changed or been deleted since the export was queued
+      const { query, sort, selectedFields, error } = await this.resolveQuery(form, responseExport.params, responseExport.requestedBy);
+      if (error) throw new ExportError(error);
+
+      responseExport.status = 'running';
+      responseExport.startedAt = new Date();
+      responseExport.error = undefined;
+      await responseExport.save();
+
+      const options: IExportOptions = {
+        ...responseExport.options,
+        selectedFields: responseExport.options.selectedFields || selectedFields,
+        format,
+        query,
+        sort,
+        viewerId: responseExport.requestedBy
+      };
+      const filename = this.generateFileName(form.title, FILE_TYPES[format].extension, options);
+      const storageKey = `exports/${form._id}/${responseExport._id}/${filename}`;
+
+      let recordCount: number;
+      let size: number;
+      try {
+        recordCount = await this.writeExport(form, format, options, fs.createWriteStream(tempPath), async (processed, total) => {
+          if (processed % PROGRESS_INTERVAL !== 0 && processed !== total) return;
+          await ResponseExport.updateOne({ _id: responseExport._id }, { $set: { progress: this.getProgress(processed, total) } });
+        });
+        size = (await fs.promises.stat(tempPath)).size;
+        await FileStorageService.getBackend().putFile(storageKey, tempPath, FILE_TYPES[format].mimeType);
+      } finally {
+        await fs.promises.rm(tempPath, { force: true });
+      }
+
+      const completed = await ResponseExport.findByIdAndUpdate(responseExport._id, {
+        $set: {
+          status: 'completed',
+          filename,
+          mimeType: FILE_TYPES[format].mimeType,
+          storageKey,
+          size,
+          recordCount,
+          progress: this.getProgress(recordCount, recordCount),
+          completedAt: new Date(),
+          expiresAt: new Date(Date.now() + this.getTtlHours() * 60 * 60 * 1000)
+        }
+      }, { new: true });
+      await this.notify(completed!, form);
+
+      return { result: { exportId: responseExport._id, recordCount, size } };
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      // Exports that cannot succeed are not retried
+      const final = error instanceof ExportError || job.attempts >= job.maxAttempts;
+
+      await ResponseExport.updateOne(
+        { _id: responseExport._id },
+        { $set: final ? { status: 'failed', error: message, completedAt: new Date() } : { error: message } }
+      );
+      if (final) await this.notify(responseExport, form, message);
+
+      if (error instanceof ExportError) return { result: { exportId: responseExport._id, failed: true, error: message } };
+      throw error;
+    }
+  }
+
   // Helper methods
+
+  /**
+   * Keep only the parameters that select responses, as strings, so they can be stored and resolved again
+   */
+  private static pickQueryParams(params: Record<string, any>): Record<string, string> {
+    const picked: Record<string, string> = {};
+    const filter = this.getFilter(params);
+    if (filter !== undefined && filter !== '') {
+      picked.filter = typeof filter === 'string' ? filter : JSON.stringify(filter);
+    }
+
+    const startDate = params.startDate || params.dateFrom;
+    const endDate = params.endDate || params.dateTo;
+    if (startDate) picked.startDate = String(startDate);
+    if (endDate) picked.endDate = String(endDate);
+
+    QUERY_PARAMS.forEach(key => {
+      if (picked[key] === undefined && params[key] !== undefined && params[key] !== '') picked[key] = String(params[key]);
+    });
+
+    return picked;
+  }
+
+  /**
+   * Get the filter expression of export parameters, converting the older `filters` list
+   */
+  private static getFilter(params: Record<string, any>): any {
+    if (params.filter !== undefined || !Array.isArray(params.filters) || params.filters.length === 0) {
+      return params.filter;
+    }
+
+    return {
+      logic: 'and',
+      conditions: params.filters.map((item: IExportFilter) => ({
+        fieldId: item.field,
+        operator: item.operator === 'not_empty' ? 'is_not_empty' : item.operator,
+        value: item.value
+      }))
+    };
+  }
+
+  private static async exportToBuffer(formId: string, format: ResponseExportFormat, options: IExportOptions): Promise<IExportResult> {
+    const form = await Form.findById(formId);
+    if (!form) {
+      throw new Error('Form not found');
+    }
+
+    const query = options.query || this.buildResponseQuery(formId, options);
+    if (!(await FormResponse.exists(query))) {
+      return {
+        success: false,
+        error: 'No responses found for export'
+      };
+    }
+
+    const chunks: Buffer[] = [];
+    const output = new Writable({
+      write(chunk, _encoding, callback) {
+        chunks.push(Buffer.from(chunk));
+        callback();
+      }
+    });
+    const recordCount = await this.writeExport(form, format, { ...options, query }, output);
+    const buffer = Buffer.concat(chunks);
+
+    return {
+      success: true,
+      data: {
+        buffer,
+        filename: this.generateFileName(form.title, FILE_TYPES[format].extension, options),
+        mimeType: FILE_TYPES[format].mimeType,
+        size: buffer.length,
+        recordCount,
+        exportedAt: new Date(),
+        metadata: {
+          formTitle: form.title,
+          totalResponses: recordCount,
+          exportFormat: format,
+          exportOptions: this.describeOptions(options)
+        }
+      }
+    };
+  }
+
+  /**
+   * Stream the matching responses into a file of the given format
+   * @returns Number of responses written
+   */
+  private static async writeExport(
+    form: IForm,
+    format: ResponseExportFormat,
+    options: IExportOptions,
+    output: Writable,
+    onRecord: RecordHandler = async () => {}
+  ): Promise<number> {
+    const done = finished(output);
+    const query = options.query || this.buildResponseQuery(form._id.toString(), options);
+    const limit = Math.min(options.limit || MAX_EXPORT_RECORDS[format], MAX_EXPORT_RECORDS[format]);
+
+    try {
+      const total = Math.min(await FormResponse.countDocuments(query), limit);
+      const responses = this.streamResponses(form, query, options.sort || { submittedAt: -1 }, limit, options);
+
+      let count: number;
+      switch (format) {
+        case 'excel':
+          count = await this.writeExcel(form, responses, options, output, total, onRecord);
+          break;
+        case 'pdf':
+          count = await this.writePDF(form, responses, options, output, total, onRecord);
+          break;
+        default:
+          count = await this.writeCSV(form, responses, options, output, total, onRecord);
+      }
+
+      await done;
+      return count;
+    } catch (error) {
+      output.destroy();
+      done.catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Read responses one batch at a time, decrypting sensitive answers if the export is for a user
+   * who may view the form's responses, and redacting them otherwise
+   */
+  private static async *streamResponses(
+    form: IForm,
+    query: Record<string, any>,
+    sort: Record<string, 1 | -1>,
+    limit: number,
+    options: IExportOptions
+  ): AsyncGenerator<IFormResponse> {
+    const allowed = !!options.viewerId && await ResponseAccessService.canAccess(form, options.viewerId);
+    const cursor = FormResponse.find(query).sort(sort).limit(limit).batchSize(CURSOR_BATCH_SIZE).cursor();
+
+    for await (const response of cursor) {
+      response.responses = await FieldEncryptionService.revealAnswers(form, response.responses || {}, response._id, allowed);
+      yield response;
+    }
+  }
+
+  private static async writeCSV(
+    form: IForm,
+    responses: AsyncIterable<IFormResponse>,
+    options: IExportOptions,
+    output: Writable,
+    total: number,
+    onRecord: RecordHandler
+  ): Promise<number> {
+    const write = async (content: string): Promise<void> => {
+      if (!output.write(content)) await once(output, 'drain');
+    };
+
+    let count = 0;
+    await write(this.toCSVLine(this.getExportHeaders(form, options)));
+    for await (const response of responses) {
+      await write(`\n${this.toCSVLine(this.buildRow(form, response, options))}`);
+      await onRecord(++count, total);
+    }
+    output.end();
+
+    return count;
+  }
+
+  private static async writeExcel(
+    form: IForm,
+    responses: AsyncIterable<IFormResponse>,
+    options: IExportOptions,
+    output: Writable,
+    total: number,
+    onRecord: RecordHandler
+  ): Promise<number> {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: false, useSharedStrings: false });
+    const totals: IExportTotals = { count: 0, answered: {}, answerCounts: {} };
+
+    // Add main responses sheet
+    const responsesSheet = workbook.addWorksheet('Responses');
+    responsesSheet.addRow(this.getExportHeaders(form, options)).commit();
+    for await (const response of responses) {
+      responsesSheet.addRow(this.buildRow(form, response, options)).commit();
+      this.addToTotals(form, response, totals);
+      await onRecord(totals.count, total);
+    }
+    responsesSheet.commit();
+
+    // Add summary sheet if requested
+    if (options.includeSummary) {
+      this.addObjectSheet(workbook, 'Summary', this.generateSummaryData(form, totals));
+    }
+
+    // Add field analysis sheet if requested
+    if (options.includeAnalysis) {
+      this.addObjectSheet(workbook, 'Field Analysis', this.generateFieldAnalysis(form, totals));
+    }
+
+    await workbook.commit();
+    return totals.count;
+  }
+
+  private static async writePDF(
+    form: IForm,
+    responses: AsyncIterable<IFormResponse>,
+    options: IExportOptions,
+    output: Writable,
+    total: number,
+    onRecord: RecordHandler
+  ): Promise<number> {
+    const doc = new PDFDocument({ margin: 50 });
+    doc.pipe(output);
+
+    // Add title
+    doc.fontSize(20).text(form.title, { align: 'center' });
+    doc.moveDown();
+
+    // Add summary
+    doc.fontSize(12).text(`Export Date: ${new Date().toLocaleString()}`);
+    doc.text(`Total Responses: ${total}`);
+    doc.moveDown();
+
+    // Add responses, a page each
+    let count = 0;
+    for await (const response of responses) {
+      if (count > 0) doc.addPage();
+
+      doc.fontSize(14).text(`Response #${count + 1}`, { underline: true });
+      doc.fontSize(10).text(`Submitted: ${response.submittedAt?.toLocaleString()}`);
+      doc.moveDown();
+
+      form.fields.forEach(field => {
+        if (!options.selectedFields || options.selectedFields.includes(field.id)) {
+          const value = response.responses[field.id];
+          if (value !== undefined && value !== null && value !== '') {
+            doc.fontSize(10)
+               .fillColor('black')
+               .text(`${field.label}:`, { continued: false })
+               .text(`${this.formatCellValue(value, field.type)}`, { indent: 20 });
+          }
+        }
+      });
+
+      await onRecord(++count, total);
+    }
+
+    doc.end();
+    return count;
+  }
+
   private static buildResponseQuery(formId: string, options: IExportOptions): any {
     const query: any = { formId: new Types.ObjectId(formId) };
 
@@ -310,128 +723,55 @@ export class ExportService {
     return query;
   }
 
-  private static prepareExcelData(form: IForm, responses: IFormResponse[], options: IExportOptions): any {
-    const headers = this.getExportHeaders(form, options);
-    const data: any[] = [];
-
-    responses.forEach(response => {
-      const row: any = {};
-      
-      // Add metadata columns
-      if (!options.selectedFields || options.selectedFields.includes('metadata')) {
-        row['Submission ID'] = response._id?.toString();
-        row['Submitted At'] = response.submittedAt?.toISOString();
-        if (options.includeMetadata) {
-          row['IP Address'] = response.ipAddress;
-          row['User Agent'] = response.userAgent;
-          row['Referrer'] = response.metadata?.referrer;
-        }
-      }
-
-      // Add response data
-      form.fields.forEach(field => {
-        if (!options.selectedFields || options.selectedFields.includes(field.id)) {
-          const value = response.responses[field.id];
-          row[field.label] = this.formatCellValue(value, field.type);
-        }
-      });
-
-      data.push(row);
-    });
-
-    return { responses: data };
+  private static describeOptions(options: IExportOptions): Omit<IExportOptions, 'query' | 'sort' | 'viewerId'> {
+    // Prebuilt queries hold regular expressions that do not serialize
+    const { query, sort, viewerId, ...described } = options;
+    return described;
   }
 
-  private static prepareCSVData(form: IForm, responses: IFormResponse[], options: IExportOptions): any[] {
-    const headers = this.getExportHeaders(form, options);
-    const data: any[] = [headers];
+  private static buildRow(form: IForm, response: IFormResponse, options: IExportOptions): string[] {
+    const row: string[] = [];
 
-    responses.forEach(response => {
-      const row: any[] = [];
-      
-      // Add metadata columns
-      if (!options.selectedFields || options.selectedFields.includes('metadata')) {
-        row.push(response._id?.toString());
-        row.push(response.submittedAt?.toISOString());
-        if (options.includeMetadata) {
-          row.push(response.ipAddress || '');
-          row.push(response.userAgent || '');
-          row.push(response.metadata?.referrer || '');
-        }
+    // Add metadata columns
+    if (!options.selectedFields || options.selectedFields.includes('metadata')) {
+      row.push(response._id?.toString() || '');
+      row.push(response.submittedAt?.toISOString() || '');
+      if (options.includeMetadata) {
+        row.push(response.ipAddress || '');
+        row.push(response.userAgent || '');
+        row.push(response.metadata?.referrer || '');
       }
+    }
 
-      // Add response data
-      form.fields.forEach(field => {
-        if (!options.selectedFields || options.selectedFields.includes(field.id)) {
-          const value = response.responses[field.id];
-          row.push(this.formatCellValue(value, field.type));
-        }
-      });
-
-      data.push(row);
+    // Add response data
+    form.fields.forEach(field => {
+      if (!options.selectedFields || options.selectedFields.includes(field.id)) {
+        const value = response.responses[field.id];
+        row.push(this.formatCellValue(value, field.type));
+      }
     });
 
-    return data;
+    return row;
   }
 
-  private static async generatePDF(form: IForm, responses: IFormResponse[], options: IExportOptions): Promise<Buffer> {
-    return new Promise((resolve, reject) => {
-      try {
-        const doc = new PDFDocument({ margin: 50 });
-        const chunks: Buffer[] = [];
-        
-        doc.on('data', (chunk: Buffer) => chunks.push(chunk));
-        doc.on('end', () => resolve(Buffer.concat(chunks)));
-        doc.on('error', reject);
-
-        // Add title
-        doc.fontSize(20).text(form.title, { align: 'center' });
-        doc.moveDown();
-        
-        // Add summary
-        doc.fontSize(12).text(`Export Date: ${new Date().toLocaleString()}`);
-        doc.text(`Total Responses: ${responses.length}`);
-        doc.moveDown();
-
-        // Add responses
-        responses.slice(0, options.limit || 50).forEach((response, index) => {
-          if (index > 0) doc.addPage();
-          
-          doc.fontSize(14).text(`Response #${index + 1}`, { underline: true });
-          doc.fontSize(10).text(`Submitted: ${response.submittedAt?.toLocaleString()}`);
-          doc.moveDown();
-
-          form.fields.forEach(field => {
-            if (!options.selectedFields || options.selectedFields.includes(field.id)) {
-              const value = response.responses[field.id];
-              if (value !== undefined && value !== null && value !== '') {
-                doc.fontSize(10)
-                   .fillColor('black')
-                   .text(`${field.label}:`, { continued: false })
-                   .text(`${this.formatCellValue(value, field.type)}`, { indent: 20 });
-              }
-            }
-          });
-        });
-
-        doc.end();
-      } catch (error) {
-        reject(error);
+  private static toCSVLine(row: any[]): string {
+    return row.map((cell: any) => {
+      const cellStr = String(cell || '');
+      // Escape quotes and wrap in quotes if contains comma, quote, or newline
+      if (cellStr.includes(',') || cellStr.includes('"') || cellStr.includes('\n')) {
+        return `"${cellStr.replace(/"/g, '""')}"`;
       }
-    });
+      return cellStr;
+    }).join(',');
   }
 
-  private static generateCSV(data: any[]): string {
-    return data.map(row => 
-      row.map((cell: any) => {
-        const cellStr = String(cell || '');
-        // Escape quotes and wrap in quotes if contains comma, quote, or newline
-        if (cellStr.includes(',') || cellStr.includes('"') || cellStr.includes('\n')) {
-          return `"${cellStr.replace(/"/g, '""')}"`;
-        }
-        return cellStr;
-      }).join(',')
-    ).join('\n');
+  private static addObjectSheet(workbook: ExcelJS.stream.xlsx.WorkbookWriter, name: string, rows: Record<string, any>[]): void {
+    const headers = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+    const sheet = workbook.addWorksheet(name);
+
+    sheet.addRow(headers).commit();
+    rows.forEach(row => sheet.addRow(headers.map(header => row[header] ?? '')).commit());
+    sheet.commit();
   }
 
   private static getExportHeaders(form: IForm, options: IExportOptions): string[] {
@@ -457,15 +797,15 @@ export class ExportService {
 
   private static formatCellValue(value: any, fieldType: string): string {
     if (value === null || value === undefined) return '';
-    
+
     if (Array.isArray(value)) {
       return value.join(', ');
     }
-    
+
     if (typeof value === 'object') {
       return JSON.stringify(value);
     }
-    
+
     return String(value);
   }
 
@@ -473,60 +813,70 @@ export class ExportService {
     const safeTitle = formTitle.replace(/[^a-zA-Z0-9\s]/g, '').replace(/\s+/g, '_');
     const timestamp = new Date().toISOString().split('T')[0];
     const dateRange = options.dateFrom || options.dateTo ? `_${options.dateFrom || 'start'}_to_${options.dateTo || 'end'}` : '';
-    
+
     return `${safeTitle}_export_${timestamp}${dateRange}.${extension}`;
   }
 
-  private static generateSummaryData(form: IForm, responses: IFormResponse[]): any[] {
+  private static addToTotals(form: IForm, response: IFormResponse, totals: IExportTotals): void {
+    totals.count++;
+    if (response.submittedAt) {
+      if (!totals.firstSubmittedAt || response.submittedAt < totals.firstSubmittedAt) totals.firstSubmittedAt = response.submittedAt;
+      if (!totals.lastSubmittedAt || response.submittedAt > totals.lastSubmittedAt) totals.lastSubmittedAt = response.submittedAt;
+    }
+
+    form.fields.forEach(field => {
+      const value = response.responses[field.id];
+      if (value === null || value === undefined || value === '') return;
+
+      totals.answered[field.id] = (totals.answered[field.id] || 0) + 1;
+      if (field.type === 'dropdown' || field.type === 'radio') {
+        const counts = totals.answerCounts[field.id] || (totals.answerCounts[field.id] = {});
+        counts[String(value)] = (counts[String(value)] || 0) + 1;
+      }
+    });
+  }
+
+  private static generateSummaryData(form: IForm, totals: IExportTotals): any[] {
     const summary = [
       { Metric: 'Form Title', Value: form.title },
-      { Metric: 'Total Responses', Value: responses.length },
+      { Metric: 'Total Responses', Value: totals.count },
       { Metric: 'Export Date', Value: new Date().toISOString() },
-      { Metric: 'Date Range', Value: `${responses[responses.length - 1]?.submittedAt?.toISOString()} to ${responses[0]?.submittedAt?.toISOString()}` }
+      { Metric: 'Date Range', Value: `${totals.firstSubmittedAt?.toISOString()} to ${totals.lastSubmittedAt?.toISOString()}` }
     ];
 
     // Add field-specific summaries
     form.fields.forEach(field => {
-      const values = responses.map(r => r.responses[field.id]).filter(v => v !== null && v !== undefined && v !== '');
-      const responseRate = ((values.length / responses.length) * 100).toFixed(1);
-      
+      const answered = totals.answered[field.id] || 0;
+      const responseRate = totals.count > 0 ? ((answered / totals.count) * 100).toFixed(1) : '0.0';
+
       summary.push({
         Metric: `${field.label} - Response Rate`,
-        Value: `${responseRate}% (${values.length}/${responses.length})`
+        Value: `${responseRate}% (${answered}/${totals.count})`
       });
     });
 
     return summary;
   }
 
-  private static generateFieldAnalysis(form: IForm, responses: IFormResponse[]): any[] {
+  private static generateFieldAnalysis(form: IForm, totals: IExportTotals): any[] {
     const analysis: any[] = [];
 
     form.fields.forEach(field => {
-      const values = responses.map(r => r.responses[field.id]).filter(v => v !== null && v !== undefined && v !== '');
-      
+      const answered = totals.answered[field.id] || 0;
+
       const fieldAnalysis: any = {
         'Field Name': field.label,
         'Field Type': field.type,
-        'Total Responses': values.length,
-        'Response Rate': `${((values.length / responses.length) * 100).toFixed(1)}%`,
-        'Completion Rate': `${values.length}/${responses.length}`
+        'Total Responses': answered,
+        'Response Rate': `${totals.count > 0 ? ((answered / totals.count) * 100).toFixed(1) : '0.0'}%`,
+        'Completion Rate': `${answered}/${totals.count}`
       };
 
       // Add type-specific analysis
-      if (field.type === 'dropdown' || field.type === 'radio') {
-        const valueCounts: Record<string, number> = {};
-        values.forEach(value => {
-          const strValue = String(value);
-          valueCounts[strValue] = (valueCounts[strValue] || 0) + 1;
-        });
-        
-        const mostCommon = Object.entries(valueCounts)
-          .sort(([,a], [,b]) => b - a)[0];
-        
-        if (mostCommon) {
-          fieldAnalysis['Most Common Answer'] = `${mostCommon[0]} (${mostCommon[1]} times)`;
-        }
+      const mostCommon = Object.entries(totals.answerCounts[field.id] || {})
+        .sort(([,a], [,b]) => b - a)[0];
+      if (mostCommon) {
+        fieldAnalysis['Most Common Answer'] = `${mostCommon[0]} (${mostCommon[1]} times)`;
       }
 
       analysis.push(fieldAnalysis);
@@ -561,9 +911,68 @@ export class ExportService {
   }
 
   private static async getRecentExports(formId: string): Promise<IExportHistory[]> {
-    // This would typically query an export history collection
-    // For now, return empty array
-    return [];
+    const exports = await ResponseExport.find({ formId }).sort({ createdAt: -1 }).limit(RECENT_EXPORTS);
+
+    return exports.map(responseExport => ({
+      id: responseExport._id.toString(),
+      format: responseExport.format,
+      status: responseExport.status,
+      recordCount: responseExport.recordCount || 0,
+      fileSize: responseExport.size || 0,
+      exportedAt: responseExport.completedAt || responseExport.createdAt,
+      exportedBy: responseExport.requestedBy.toString(),
+      downloadCount: responseExport.downloadCount,
+      expiresAt: responseExport.expiresAt
+    }));
+  }
+
+  private static getProgress(processed: number, total: number): IResponseExport['progress'] {
+    return { processed, total, percent: total > 0 ? Math.min(100, Math.round((processed / total) * 100)) : 100 };
+  }
+
+  private static getTtlHours(): number {
+    const hours = parseFloat(process.env.EXPORT_TTL_HOURS || '24');
+    return Number.isFinite(hours) && hours > 0 ? hours : 24;
+  }
+
+  /**
+   * Email the requester that their export is ready, with its download link, or that it failed
+   */
+  private static async notify(responseExport: IResponseExport, form: IForm | null, error?: string): Promise<void> {
+    const user = await User.findById(responseExport.requestedBy).select('email');
+    if (!user) return;
+
+    const title = form?.title || 'your form';
+    const format = responseExport.format.toUpperCase();
+    const link = error ? null : this.getDownloadLink(responseExport);
+
+    const message = link
+      ? {
+        subject: `Your export of "${title}" is ready`,
+        text: `Your ${format} export of "${title}" (${responseExport.recordCount} responses) is ready.\n\n` +
+          `Download it until ${link.expiresAt.toUTCString()}:\n${link.url}`,
+        html: `<p>Your ${format} export of "${this.escapeHtml(title)}" (${responseExport.recordCount} responses) is ready.</p>` +
+          `<p><a href="${this.escapeHtml(link.url)}">Download it</a> until ${link.expiresAt.toUTCString()}.</p>`
+      }
+      : {
+        subject: `Your export of "${title}" failed`,
+        text: `Your ${format} export of "${title}" could not be generated: ${error}`,
+        html: `<p>Your ${format} export of "${this.escapeHtml(title)}" could not be generated: ${this.escapeHtml(error || 'unknown error')}</p>`
+      };
+
+    await MailService.queue(
+      { to: [user.email], ...message },
+      { kind: 'export_ready', formId: responseExport.formId, dedupeKey: `export:${responseExport._id}:${link ? 'ready' : 'failed'}` }
+    );
+  }
+
+  private static escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
   }
 }
 
@@ -578,6 +987,11 @@ export interface IExportOptions {
   includeAnalysis?: boolean;
   limit?: number;
   filters?: IExportFilter[];
+  // Prebuilt response filter and sort, e.g. from ResponseFilterService; replace dateFrom/dateTo and filters
+  query?: Record<string, any>;
+  sort?: Record<string, 1 | -1>;
+  // User the export is for; sensitive answers are redacted unless they may view the form's responses
+  viewerId?: string | Types.ObjectId;
 }
 
 export interface IExportFilter {
@@ -621,11 +1035,13 @@ export interface IExportStats {
 export interface IExportHistory {
   id: string;
   format: string;
+  status: string;
   recordCount: number;
   fileSize: number;
   exportedAt: Date;
   exportedBy?: string;
   downloadCount: number;
+  expiresAt?: Date;
 }
 
-export default ExportService;
\ No newline at end of file
+export default ExportService;
@@ -0,0 +1,629 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import DataKey from '../models/DataKey';
+import Form from '../models/Form';
+import FormResponse from '../models/FormResponse';
+import Job from '../models/Job';
+import ResponseRevision from '../models/ResponseRevision';
+import FormulaEvaluator from './FormulaEvaluator';
+import JobQueueService from './JobQueueService';
+import ResponseAccessService from './ResponseAccessService';
+import {
+  IDataKey,
+  IEncryptedAnswer,
+  IFieldEncryptionStatus,
+  IForm,
+  IFormField,
+  IJob,
+  IJobHandlerResult,
+  IResponseFieldChange
+} from '../types';
+
+export const FIELD_REENCRYPT_JOB = 'field_encryption.reencrypt';
+
+// Shown instead of a sensitive answer to anyone who may not read it
+export const REDACTED_ANSWER = '[redacted]';
+
+// Field types whose answers are not encrypted: files are kept in private storage and found by
+// their metadata, layout fields have no answers
+const UNENCRYPTABLE_FIELD_TYPES = ['file', 'divider', 'heading', 'paragraph', 'image', 'video', 'audio'];
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const BATCH_SIZE = 100;
+
+type FormKeyOwner = Pick<IForm, 'userId' | 'workspaceId'>;
+type ObjectIdLike = string | Types.ObjectId;
+
+interface IMasterKey {
+  id: string;
+  key: Buffer;
+}
+
+interface IUnwrappedKey {
+  id: string;
+  material: Buffer;
+}
+
+/**
+ * Thrown when sensitive answers cannot be encrypted or decrypted
+ */
+export class FieldEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FieldEncryptionError';
+  }
+}
+
+/**
+ * Field Encryption Service
+ * Encrypts answers to sensitive fields at rest with envelope encryption: answers are encrypted
+ * with a per-workspace data key, and data keys are stored wrapped by the master key from
+ * FIELD_ENCRYPTION_MASTER_KEY. Answers are decrypted only for users who may view responses.
+ */
+export class FieldEncryptionService {
+  private static keyCache: Map<string, Buffer> = new Map();
+
+  /**
+   * Register the queue handler that re-encrypts a scope's answers after a key rotation
+   */
+  static registerHandlers(): void {
+    JobQueueService.registerHandler(FIELD_REENCRYPT_JOB, job => this.reencrypt(job));
+  }
+
+  /**
+   * Check whether a master key is configured
+   * @returns Whether sensitive fields can be used
+   */
+  static isConfigured(): boolean {
+    return !!process.env.FIELD_ENCRYPTION_MASTER_KEY;
+  }
+
+  /**
+   * Get the key scope of a form: its workspace, or its owner for forms outside a workspace
+   * @param form - Form
+   * @returns Scope name
+   */
+  static getScope(form: FormKeyOwner): string {
+    return form.workspaceId ? `workspace:${form.workspaceId}` : `user:${form.userId}`;
+  }
+
+  /**
+   * Check whether a field is marked sensitive and holds answers that can be encrypted
+   * @param field - Form field
+   * @returns Whether the field is sensitive and holds answers that can be encrypted
+   */
+  static isSensitiveField(field: IFormField): boolean {
+    return !!field.sensitive && !UNENCRYPTABLE_FIELD_TYPES.includes(field.type);
+  }
+
+  /**
+   * List the IDs of a form's sensitive fields
+   * A calculated field is sensitive when any of its inputs is, since a result such as a yearly salary reveals them.
+   * @param form - Form
+   * @returns Field IDs
+   */
+  static getSensitiveFieldIds(form: Pick<IForm, 'fields'>): Set<string> {
+    const fields = form.fields || [];
+    const fieldIds = new Set(fields.filter(field => this.isSensitiveField(field)).map(field => field.id));
+    const calculatedFields = fields.filter(field => field.calculation?.enabled && !fieldIds.has(field.id));
+
+    // Calculations can build on each other, so repeat until no more become sensitive
+    let added = true;
+    while (added) {
+      added = false;
+      calculatedFields.forEach(field => {
+        if (!fieldIds.has(field.id) && this.getCalculationInputs(field).some(fieldId => fieldIds.has(fieldId))) {
+          fieldIds.add(field.id);
+          added = true;
+        }
+      });
+    }
+
+    return fieldIds;
+  }
+
+  /**
+   * Check whether a stored answer is encrypted
+   * @param value - Stored answer
+   * @returns Whether the answer is an encrypted envelope
+   */
+  static isEncrypted(value: any): value is IEncryptedAnswer {
+    return !!value && typeof value === 'object' && value.__encrypted === 'v1' && typeof value.keyId === 'string';
+  }
+
+  /**
+   * Encrypt the plaintext answers to a form's sensitive fields
+   * @param form - Form the answers belong to
+   * @param responses - Answers by field ID
+   * @param responseId - ID of the response, bound to each encrypted answer
+   * @returns Answers with sensitive ones encrypted; the same object when there was nothing to encrypt
+   */
+  static async encryptAnswers(
+    form: Pick<IForm, 'fields' | 'userId' | 'workspaceId'>,
+    responses: Record<string, any>,
+    responseId: ObjectIdLike
+  ): Promise<Record<string, any>> {
+    const fieldIds = Array.from(this.getSensitiveFieldIds(form))
+      .filter(fieldId => !this.isEmpty(responses?.[fieldId]) && !this.isEncrypted(responses[fieldId]));
+    if (fieldIds.length === 0) return responses;
+
+    const key = await this.getActiveKey(this.getScope(form));
+    const encrypted = { ...responses };
+    fieldIds.forEach(fieldId => {
+      encrypted[fieldId] = this.encryptValue(key, responses[fieldId], this.getContext(responseId, fieldId));
+    });
+
+    return encrypted;
+  }
+
+  /**
+   * Decrypt every encrypted answer
+   * Answers that cannot be decrypted are logged and redacted, so one bad value does not hide a whole response.
+   * @param responses - Stored answers by field ID
+   * @param responseId - ID of the response the answers belong to
+   * @returns Answers in plaintext
+   */
+  static async decryptAnswers(responses: Record<string, any>, responseId: ObjectIdLike): Promise<Record<string, any>> {
+    const entries = Object.entries(responses || {});
+    if (!entries.some(([, value]) => this.isEncrypted(value))) return responses;
+
+    const decrypted: Record<string, any> = {};
+    for (const [fieldId, value] of entries) {
+      decrypted[fieldId] = this.isEncrypted(value)
+        ? await this.tryDecrypt(value, responseId, fieldId)
+        : value;
+    }
+    return decrypted;
+  }
+
+  /**
+   * Replace encrypted answers, and plaintext answers to sensitive fields, with REDACTED_ANSWER
+   * @param responses - Stored answers by field ID
+   * @param form - Form the answers belong to, to also redact answers stored before a field became sensitive
+   * @returns Answers without sensitive values
+   */
+  static redactAnswers(responses: Record<string, any>, form?: Pick<IForm, 'fields'>): Record<string, any> {
+    const sensitiveFieldIds = form ? this.getSensitiveFieldIds(form) : new Set<string>();
+    const redacted: Record<string, any> = {};
+
+    Object.entries(responses || {}).forEach(([fieldId, value]) => {
+      const isSensitive = this.isEncrypted(value) || (sensitiveFieldIds.has(fieldId) && !this.isEmpty(value));
+      redacted[fieldId] = isSensitive ? REDACTED_ANSWER : value;
+    });
+
+    return redacted;
+  }
+
+  /**
+   * Decrypt answers for a reader who may see them, and redact them otherwise
+   * @param form - Form the answers belong to
+   * @param responses - Stored answers by field ID
+   * @param responseId - ID of the response the answers belong to
+   * @param allowed - Whether the reader may view the form's responses
+   * @returns Answers to hand to the reader
+   */
+  static async revealAnswers(
+    form: Pick<IForm, 'fields'>,
+    responses: Record<string, any>,
+    responseId: ObjectIdLike | undefined,
+    allowed: boolean
+  ): Promise<Record<string, any>> {
+    if (!allowed) return this.redactAnswers(responses, form);
+    return responseId ? this.decryptAnswers(responses, responseId) : responses;
+  }
+
+  /**
+   * Decrypt answers if a user may view the form's responses, and redact them otherwise
+   * @param form - Form the answers belong to
+   * @param responses - Stored answers by field ID
+   * @param responseId - ID of the response the answers belong to
+   * @param userId - Reader
+   * @returns Answers to hand to the reader
+   */
+  static async revealForUser(
+    form: Pick<IForm, 'fields' | 'userId' | 'workspaceId'>,
+    responses: Record<string, any>,
+    responseId: ObjectIdLike,
+    userId: ObjectIdLike
+  ): Promise<Record<string, any>> {
+    return this.revealAnswers(form, responses, responseId, await ResponseAccessService.canAccess(form, userId));
+  }
+
+  /**
+   * Encrypt the before and after values of a revision's changes to sensitive fields
+   * @param form - Form the response belongs to
+   * @param changes - Field changes
+   * @param responseId - ID of the edited response
+   * @returns Changes with sensitive values encrypted
+   */
+  static async encryptChanges(
+    form: Pick<IForm, 'fields' | 'userId' | 'workspaceId'>,
+    changes: IResponseFieldChange[],
+    responseId: ObjectIdLike
+  ): Promise<IResponseFieldChange[]> {
+    const sensitiveFieldIds = this.getSensitiveFieldIds(form);
+    if (!changes.some(change => sensitiveFieldIds.has(change.fieldId))) return changes;
+
+    const key = await this.getActiveKey(this.getScope(form));
+    return changes.map(change => {
+      if (!sensitiveFieldIds.has(change.fieldId)) return change;
+
+      const context = this.getContext(responseId, change.fieldId);
+      const encrypted = { ...change };
+      (['before', 'after'] as const).forEach(side => {
+        if (!this.isEmpty(change[side]) && !this.isEncrypted(change[side])) {
+          encrypted[side] = this.encryptValue(key, change[side], context);
+        }
+      });
+      return encrypted;
+    });
+  }
+
+  /**
+   * Decrypt the before and after values of a revision's changes
+   * @param changes - Stored field changes
+   * @param responseId - ID of the edited response
+   * @returns Changes in plaintext
+   */
+  static async decryptChanges(changes: IResponseFieldChange[], responseId: ObjectIdLike): Promise<IResponseFieldChange[]> {
+    return Promise.all((changes || []).map(async change => {
+      const plain: IResponseFieldChange = { ...((change as any).toObject?.() || change) };
+      if (this.isEncrypted(plain.before)) plain.before = await this.tryDecrypt(plain.before, responseId, plain.fieldId);
+      if (this.isEncrypted(plain.after)) plain.after = await this.tryDecrypt(plain.after, responseId, plain.fieldId);
+      return plain;
+    }));
+  }
+
+  /**
+   * Retire a scope's active data key, create a new one and queue re-encryption of the scope's answers
+   * @param scope - Key scope
+   * @param userId - User rotating the keys
+   * @returns New active key and the re-encryption job
+   */
+  static async rotateKeys(scope: string, userId?: ObjectIdLike): Promise<{ key: IDataKey; job: IJob }> {
+    this.getMasterKeys();
+
+    await DataKey.updateMany({ scope, status: 'active' }, { $set: { status: 'retired', retiredAt: new Date() } });
+    const key = await this.createKey(scope, userId);
+    const job = await this.scheduleReencryption(scope, `${FIELD_REENCRYPT_JOB}:${scope}:v${key.version}`);
+
+    return { key, job };
+  }
+
+  /**
+   * Queue re-encryption of a scope's answers: answers under retired keys move to the active key,
+   * plaintext answers to sensitive fields are encrypted and data keys are rewrapped under the
+   * current master key
+   * @param scope - Key scope
+   * @param dedupeKey - Key that stops the same re-encryption being queued twice
+   * @returns Queued job
+   */
+  static async scheduleReencryption(scope: string, dedupeKey?: string): Promise<IJob> {
+    return JobQueueService.enqueue(FIELD_REENCRYPT_JOB, { scope }, { dedupeKey, maxAttempts: 3 });
+  }
+
+  /**
+   * Describe a scope's keys, sensitive fields and latest re-encryption
+   * @param scope - Key scope
+   * @returns Encryption status
+   */
+  static async getStatus(scope: string): Promise<IFieldEncryptionStatus> {
+    const currentMasterKeyId = this.isConfigured() ? this.getMasterKeys()[0].id : null;
+    const [keys, forms, job] = await Promise.all([
+      DataKey.find({ scope }).sort({ version: -1 }),
+      Form.find({ ...this.getScopeQuery(scope), isActive: true, 'fields.sensitive': true }).select('title fields'),
+      Job.findOne({ type: FIELD_REENCRYPT_JOB, 'payload.scope': scope }).sort({ createdAt: -1 })
+    ]);
+    const activeKey = keys.find(key => key.status === 'active');
+
+    return {
+      scope,
+      masterKeyConfigured: !!currentMasterKeyId,
+      activeKey: activeKey ? { version: activeKey.version, createdAt: activeKey.createdAt } : null,
+      keys: keys.map(key => ({
+        version: key.version,
+        status: key.status,
+        createdAt: key.createdAt,
+        retiredAt: key.retiredAt,
+        wrappedWithCurrentMasterKey: key.masterKeyId === currentMasterKeyId
+      })),
+      sensitiveFields: forms.flatMap(form => {
+        const sensitiveFieldIds = this.getSensitiveFieldIds(form);
+        return form.fields
+          .filter(field => sensitiveFieldIds.has(field.id))
+          .map(field => ({ formId: form._id, formTitle: form.title, fieldId: field.id, label: field.label }));
+      }),
+      reencryption: job ? {
+        status: job.status,
+        result: job.result,
+        lastError: job.lastError,
+        createdAt: job.createdAt,
+        completedAt: job.completedAt
+      } : null
+    };
+  }
+
+  /**
+   * Forget unwrapped data keys held in memory
+   */
+  static clearCache(): void {
+    this.keyCache.clear();
+  }
+
+  // Job handlers
+
+  /**
+   * Bring a scope's stored answers and revisions in line with its active key and sensitive fields
+   * Responses edited while the job runs are skipped; their edit already used the active key.
+   */
+  private static async reencrypt(job: IJob): Promise<IJobHandlerResult> {
+    const { scope } = job.payload as { scope: string };
+    const rewrapped = await this.rewrapKeys(scope);
+    const key = await this.getActiveKey(scope);
+    const counts = { rewrapped, responses: 0, revisions: 0, skipped: 0, unreadable: 0 };
+
+    const forms = await Form.find(this.getScopeQuery(scope)).select('fields userId workspaceId');
+    for (const form of forms) {
+      const sensitiveFieldIds = this.getSensitiveFieldIds(form);
+      const responses = FormResponse.find({ formId: form._id }).select('responses revision calculatedValues').cursor({ batchSize: BATCH_SIZE });
+
+      for await (const response of responses) {
+        const updated = await this.reencryptAnswers(sensitiveFieldIds, response.responses || {}, response._id, key, counts);
+        // Calculated results of newly sensitive inputs only stay as encrypted answers
+        const calculatedValues = { ...(response.calculatedValues || {}) };
+        const calculated = Object.keys(calculatedValues).filter(fieldId => sensitiveFieldIds.has(fieldId));
+        if (!updated && calculated.length === 0) continue;
+
+        calculated.forEach(fieldId => delete calculatedValues[fieldId]);
+        response.responses = updated || response.responses;
+        response.applySearchText(form);
+        const currentRevision = response.revision || 0;
+        const result = await FormResponse.updateOne(
+          { _id: response._id, revision: currentRevision > 0 ? currentRevision : { $in: [null, 0] } },
+          { $set: { responses: response.responses, calculatedValues, searchText: response.searchText } }
+        );
+        if (result.modifiedCount > 0) counts.responses++;
+        else counts.skipped++;
+      }
+
+      const revisions = ResponseRevision.find({ formId: form._id }).cursor({ batchSize: BATCH_SIZE });
+      for await (const revision of revisions) {
+        let changed = false;
+        const changes = [];
+        for (const change of revision.changes) {
+          // Checked against the whole form: a calculated field is sensitive through its inputs
+          const values = await this.reencryptAnswers(
+            sensitiveFieldIds,
+            { before: change.before, after: change.after },
+            revision.responseId,
+            key,
+            counts,
+            change.fieldId
+          );
+          changed = changed || !!values;
+          changes.push(values ? { ...(change as any).toObject(), ...values } : change);
+        }
+
+        if (!changed) continue;
+        await ResponseRevision.updateOne({ _id: revision._id }, { $set: { changes } });
+        counts.revisions++;
+      }
+    }
+
+    return { result: { keyVersion: key.version, ...counts } };
+  }
+
+  // Helper methods
+
+  /**
+   * Re-encrypt answers under retired keys with the active key, and encrypt plaintext sensitive answers
+   * @param sensitiveFieldIds - Sensitive fields of the form the answers belong to
+   * @param contextFieldId - Field the values belong to, for revision changes keyed by before/after
+   * @returns Updated answers, or null when nothing changed
+   */
+  private static async reencryptAnswers(
+    sensitiveFieldIds: Set<string>,
+    responses: Record<string, any>,
+    responseId: ObjectIdLike,
+    key: IUnwrappedKey & { version: number },
+    counts: { unreadable: number },
+    contextFieldId?: string
+  ): Promise<Record<string, any> | null> {
+    const updated = { ...responses };
+    let changed = false;
+
+    for (const [name, value] of Object.entries(responses)) {
+      const fieldId = contextFieldId || name;
+      const context = this.getContext(responseId, fieldId);
+
+      if (this.isEncrypted(value)) {
+        if (value.keyId === key.id) continue;
+        try {
+          updated[name] = this.encryptValue(key, await this.decryptValue(value, context), context);
+          changed = true;
+        } catch (error) {
+          console.error(`Re-encrypt answer ${fieldId} of response ${responseId} error:`, error);
+          counts.unreadable++;
+        }
+      } else if (sensitiveFieldIds.has(fieldId) && !this.isEmpty(value)) {
+        updated[name] = this.encryptValue(key, value, context);
+        changed = true;
+      }
+    }
+
+    return changed ? updated : null;
+  }
+
+  private static getCalculationInputs(field: IFormField): string[] {
+    const inputs = [...(field.calculation?.dependencies || [])];
+    try {
+      if (field.calculation?.formula) inputs.push(...FormulaEvaluator.getFieldReferences(field.calculation.formula));
+    } catch {
+      // A formula that does not parse produces no value
+    }
+    return inputs;
+  }
+
+  private static async tryDecrypt(value: IEncryptedAnswer, responseId: ObjectIdLike, fieldId: string): Promise<any> {
+    try {
+      return await this.decryptValue(value, this.getContext(responseId, fieldId));
+    } catch (error) {
+      console.error(`Decrypt answer ${fieldId} of response ${responseId} error:`, error);
+      return REDACTED_ANSWER;
+    }
+  }
+
+  private static encryptValue(key: IUnwrappedKey, value: any, context: string): IEncryptedAnswer {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, key.material, iv);
+    cipher.setAAD(Buffer.from(context));
+    const data = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+
+    return {
+      __encrypted: 'v1',
+      keyId: key.id,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+  }
+
+  private static async decryptValue(value: IEncryptedAnswer, context: string): Promise<any> {
+    const material = await this.getKeyMaterial(value.keyId);
+    const decipher = crypto.createDecipheriv(ALGORITHM, material, Buffer.from(value.iv, 'base64'));
+    decipher.setAAD(Buffer.from(context));
+    decipher.setAuthTag(Buffer.from(value.tag, 'base64'));
+    const plain = Buffer.concat([decipher.update(Buffer.from(value.data, 'base64')), decipher.final()]);
+
+    return JSON.parse(plain.toString('utf8'));
+  }
+
+  // Encrypted answers are bound to their response and field, so they cannot be copied elsewhere
+  private static getContext(responseId: ObjectIdLike, fieldId: string): string {
+    return `${responseId}:${fieldId}`;
+  }
+
+  private static isEmpty(value: any): boolean {
+    return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+  }
+
+  private static getScopeQuery(scope: string): Record<string, any> {
+    const [type, id] = scope.split(':');
+    return type === 'workspace' ? { workspaceId: id } : { userId: id, workspaceId: null };
+  }
+
+  /**
+   * Get the active data key of a scope, creating the first one on first use
+   */
+  private static async getActiveKey(scope: string): Promise<IUnwrappedKey & { version: number }> {
+    const key = (await DataKey.findOne({ scope, status: 'active' }).select('+wrappedKey')) || (await this.createKey(scope));
+    return { id: key._id.toString(), version: key.version, material: await this.getKeyMaterial(key._id.toString(), key) };
+  }
+
+  private static async createKey(scope: string, userId?: ObjectIdLike): Promise<IDataKey> {
+    const [masterKey] = this.getMasterKeys();
+    const latest = await DataKey.findOne({ scope }).sort({ version: -1 }).select('version');
+    const version = (latest?.version || 0) + 1;
+    const material = crypto.randomBytes(KEY_LENGTH);
+
+    try {
+      const key = await DataKey.create({
+        scope,
+        version,
+        status: 'active',
+        wrappedKey: this.wrapKey(material, masterKey, scope, version),
+        masterKeyId: masterKey.id,
+        createdBy: userId
+      });
+      this.keyCache.set(key._id.toString(), material);
+      return key;
+    } catch (error: any) {
+      // Another request created the key first
+      if (error?.code === 11000) {
+        const existing = await DataKey.findOne({ scope, status: 'active' }).select('+wrappedKey');
+        if (existing) return existing;
+      }
+      throw error;
+    }
+  }
+
+  private static async getKeyMaterial(keyId: string, key?: IDataKey | null): Promise<Buffer> {
+    const cached = this.keyCache.get(keyId);
+    if (cached) return cached;
+
+    const dataKey = key?.wrappedKey ? key : await DataKey.findById(keyId).select('+wrappedKey');
+    if (!dataKey) {
+      throw new FieldEncryptionError(`Data key not found: ${keyId}`);
+    }
+
+    const material = this.unwrapKey(dataKey);
+    this.keyCache.set(keyId, material);
+    return material;
+  }
+
+  /**
+   * Rewrap a scope's data keys that are still wrapped by a previous master key
+   * @returns Number of keys rewrapped
+   */
+  private static async rewrapKeys(scope: string): Promise<number> {
+    const [masterKey] = this.getMasterKeys();
+    const keys = await DataKey.find({ scope, masterKeyId: { $ne: masterKey.id } }).select('+wrappedKey');
+
+    for (const key of keys) {
+      const material = this.unwrapKey(key);
+      await DataKey.updateOne(
+        { _id: key._id },
+        { $set: { wrappedKey: this.wrapKey(material, masterKey, key.scope, key.version), masterKeyId: masterKey.id } }
+      );
+    }
+
+    return keys.length;
+  }
+
+  private static wrapKey(material: Buffer, masterKey: IMasterKey, scope: string, version: number): string {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, masterKey.key, iv);
+    cipher.setAAD(Buffer.from(`${scope}:${version}`));
+    const wrapped = Buffer.concat([cipher.update(material), cipher.final()]);
+
+    return Buffer.concat([iv, cipher.getAuthTag(), wrapped]).toString('base64');
+  }
+
+  private static unwrapKey(key: Pick<IDataKey, 'wrappedKey' | 'masterKeyId' | 'scope' | 'version'>): Buffer {
+    const masterKey = this.getMasterKeys().find(candidate => candidate.id === key.masterKeyId);
+    if (!masterKey) {
+      throw new FieldEncryptionError(`Master key ${key.masterKeyId} is not configured; add it to FIELD_ENCRYPTION_PREVIOUS_MASTER_KEYS`);
+    }
+
+    const wrapped = Buffer.from(key.wrappedKey, 'base64');
+    const decipher = crypto.createDecipheriv(ALGORITHM, masterKey.key, wrapped.subarray(0, IV_LENGTH));
+    decipher.setAAD(Buffer.from(`${key.scope}:${key.version}`));
+    decipher.setAuthTag(wrapped.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+
+    return Buffer.concat([decipher.update(wrapped.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+  }
+
+  /**
+   * Read the master keys from the environment: FIELD_ENCRYPTION_MASTER_KEY first, then the
+   * comma-separated FIELD_ENCRYPTION_PREVIOUS_MASTER_KEYS still needed to unwrap older data keys
+   */
+  private static getMasterKeys(): IMasterKey[] {
+    const current = process.env.FIELD_ENCRYPTION_MASTER_KEY;
+    if (!current) {
+      throw new FieldEncryptionError('FIELD_ENCRYPTION_MASTER_KEY is required to store sensitive fields');
+    }
+
+    const previous = (process.env.FIELD_ENCRYPTION_PREVIOUS_MASTER_KEYS || '').split(',').map(value => value.trim()).filter(Boolean);
+    return [current, ...previous].map(encoded => {
+      const key = Buffer.from(encoded, 'base64');
+      if (key.length !== KEY_LENGTH) {
+        throw new FieldEncryptionError('Field encryption master keys must be 32 bytes, base64 encoded');
+      }
+      return { id: crypto.createHash('sha256').update(key).digest('hex').slice(0, 16), key };
+    });
+  }
+}
+
+export default FieldEncryptionService;
@@ -0,0 +1,278 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client
+} from '@aws-sdk/client-s3';
+import { FileStorageBackendName, IFileStorageBackend, IStoredObject } from '../types';
+
+/**
+ * Thrown when a stored file does not exist
+ */
+export class StoredFileNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Stored file not found: ${key}`);
+    this.name = 'StoredFileNotFoundError';
+  }
+}
+
+/**
+ * Local disk backend
+ * Keeps files under FILE_STORAGE_DIR, outside the publicly served uploads directory
+ */
+export class LocalFileStorage implements IFileStorageBackend {
+  name: FileStorageBackendName = 'local';
+  private root: string;
+
+  constructor(root?: string) {
+    this.root = path.resolve(root || process.env.FILE_STORAGE_DIR || path.join(process.cwd(), 'storage'));
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, body);
+  }
+
+  async putFile(key: string, sourcePath: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.copyFile(sourcePath, filePath);
+  }
+
+  async getStream(key: string): Promise<NodeJS.ReadableStream> {
+    if (!(await this.exists(key))) {
+      throw new StoredFileNotFoundError(key);
+    }
+
+    return fs.createReadStream(this.resolve(key));
+  }
+
+  async remove(key: string): Promise<void> {
+    try {
+      await fs.promises.unlink(this.resolve(key));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      return (await fs.promises.stat(this.resolve(key))).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  async *list(prefix: string): AsyncIterable<IStoredObject> {
+    yield* this.walk(path.resolve(this.root, prefix));
+  }
+
+  private async *walk(dir: string): AsyncIterable<IStoredObject> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return;
+      throw error;
+    }
+
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        yield* this.walk(entryPath);
+      } else if (entry.isFile()) {
+        const stats = await fs.promises.stat(entryPath);
+        yield {
+          key: path.relative(this.root, entryPath).split(path.sep).join('/'),
+          size: stats.size,
+          lastModified: stats.mtime
+        };
+      }
+    }
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+/**
+ * S3-compatible backend
+ * Stores files in S3_BUCKET through S3_ENDPOINT (AWS when unset), signing with
+ * S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY. Custom endpoints such as MinIO use path-style URLs.
+ */
+export class S3FileStorage implements IFileStorageBackend {
+  name: FileStorageBackendName = 's3';
+  private client: S3Client;
+  private bucket: string;
+
+  constructor(options: {
+    bucket?: string;
+    region?: string;
+    endpoint?: string;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    forcePathStyle?: boolean;
+  } = {}) {
+    const endpoint = options.endpoint ?? process.env.S3_ENDPOINT;
+    const accessKeyId = options.accessKeyId ?? process.env.S3_ACCESS_KEY_ID;
+    const secretAccessKey = options.secretAccessKey ?? process.env.S3_SECRET_ACCESS_KEY;
+
+    this.bucket = options.bucket ?? process.env.S3_BUCKET ?? '';
+    if (!this.bucket) {
+      throw new Error('S3_BUCKET is required for the s3 file storage backend');
+    }
+
+    this.client = new S3Client({
+      region: options.region ?? process.env.S3_REGION ?? 'us-east-1',
+      ...(endpoint && { endpoint }),
+      forcePathStyle: options.forcePathStyle ?? (process.env.S3_FORCE_PATH_STYLE ? process.env.S3_FORCE_PATH_STYLE === 'true' : !!endpoint),
+      ...(accessKeyId && secretAccessKey && { credentials: { accessKeyId, secretAccessKey } }),
+      // Not every S3-compatible server understands the SDK's default checksums
+      requestChecksumCalculation: 'WHEN_REQUIRED',
+      responseChecksumValidation: 'WHEN_REQUIRED'
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType?: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentLength: body.length,
+      ContentType: contentType
+    }));
+  }
+
+  async putFile(key: string, filePath: string, contentType?: string): Promise<void> {
+    const { size } = await fs.promises.stat(filePath);
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: fs.createReadStream(filePath),
+      ContentLength: size,
+      ContentType: contentType
+    }));
+  }
+
+  async getStream(key: string): Promise<NodeJS.ReadableStream> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      return result.Body as Readable;
+    } catch (error) {
+      if (this.isNotFound(error)) throw new StoredFileNotFoundError(key);
+      throw error;
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return true;
+    } catch (error) {
+      if (this.isNotFound(error)) return false;
+      throw error;
+    }
+  }
+
+  async *list(prefix: string): AsyncIterable<IStoredObject> {
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken
+      }));
+
+      for (const object of page.Contents || []) {
+        if (!object.Key) continue;
+        yield { key: object.Key, size: object.Size || 0, lastModified: object.LastModified || new Date(0) };
+      }
+
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+  }
+
+  private isNotFound(error: any): boolean {
+    return error?.name === 'NoSuchKey' || error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404;
+  }
+}
+
+/**
+ * In-memory backend
+ * Keeps files in `files` so tests can assert on them
+ */
+export class MemoryFileStorage implements IFileStorageBackend {
+  name: FileStorageBackendName = 'memory';
+  files: Map<string, { body: Buffer; contentType?: string }> = new Map();
+  storedAt: Map<string, Date> = new Map();
+
+  async put(key: string, body: Buffer, contentType?: string): Promise<void> {
+    this.files.set(key, { body: Buffer.from(body), contentType });
+    this.storedAt.set(key, new Date());
+  }
+
+  async putFile(key: string, filePath: string, contentType?: string): Promise<void> {
+    await this.put(key, await fs.promises.readFile(filePath), contentType);
+  }
+
+  async getStream(key: string): Promise<NodeJS.ReadableStream> {
+    const file = this.files.get(key);
+    if (!file) throw new StoredFileNotFoundError(key);
+
+    return Readable.from([file.body]);
+  }
+
+  async remove(key: string): Promise<void> {
+    this.files.delete(key);
+    this.storedAt.delete(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.files.has(key);
+  }
+
+  async *list(prefix: string): AsyncIterable<IStoredObject> {
+    for (const [key, file] of Array.from(this.files.entries())) {
+      if (!key.startsWith(prefix)) continue;
+      yield { key, size: file.body.length, lastModified: this.storedAt.get(key) || new Date() };
+    }
+  }
+
+  clear(): void {
+    this.files.clear();
+    this.storedAt.clear();
+  }
+}
+
+/**
+ * Create a storage backend by name
+ * @param name - Backend name
+ * @returns File storage backend
+ */
+export function createFileStorageBackend(name: FileStorageBackendName): IFileStorageBackend {
+  switch (name) {
+    case 'local':
+      return new LocalFileStorage();
+    case 's3':
+      return new S3FileStorage();
+    case 'memory':
+      return new MemoryFileStorage();
+    default:
+      throw new Error(`Unknown file storage backend: ${name}`);
+  }
+}
@@ -0,0 +1,224 @@
+import fs from 'fs';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import { createFileStorageBackend, StoredFileNotFoundError } from './FileStorageBackends';
+import { FileStorageBackendName, IFileDownloadToken, IFileStorageBackend, IFormResponse, IStoredObject, IUploadedFile } from '../types';
+
+const DOWNLOAD_TOKEN_PURPOSE = 'file_download';
+
+type ObjectIdLike = string | Types.ObjectId;
+
+/**
+ * File Storage Service
+ * Keeps respondent uploads in a private storage backend and serves them
+ * through authenticated routes or short-lived signed links
+ */
+export class FileStorageService {
+  private static backend: IFileStorageBackend | null = null;
+
+  /**
+   * Get the active backend, created from FILE_STORAGE_BACKEND on first use
+   * Defaults to in-memory under test and local disk otherwise
+   * @returns File storage backend
+   */
+  static getBackend(): IFileStorageBackend {
+    if (!this.backend) {
+      const configured = process.env.FILE_STORAGE_BACKEND as FileStorageBackendName | undefined;
+      const fallback: FileStorageBackendName = process.env.NODE_ENV === 'test' ? 'memory' : 'local';
+
+      this.backend = createFileStorageBackend(configured || fallback);
+    }
+
+    return this.backend;
+  }
+
+  /**
+   * Replace the backend, e.g. with an in-memory backend in tests
+   * @param backend - Backend to use, or null to recreate it from the environment
+   */
+  static setBackend(backend: IFileStorageBackend | null): void {
+    this.backend = backend;
+  }
+
+  /**
+   * Build the storage key for a response's file
+   * @param formId - Form ID
+   * @param responseId - Response ID
+   * @param filename - Stored file name
+   * @returns Storage key
+   */
+  static buildKey(formId: ObjectIdLike, responseId: ObjectIdLike, filename: string): string {
+    return `forms/${formId}/responses/${responseId}/${filename}`;
+  }
+
+  /**
+   * Get the directory files were served from publicly before private storage
+   * @returns Uploads directory
+   */
+  static getLegacyUploadDir(): string {
+    return process.env.UPLOAD_DIR || '../uploads';
+  }
+
+  /**
+   * Find a file answer on a response
+   * Files stored before private storage have no ID and are found by file name.
+   * @param response - Response holding the file
+   * @param fileId - File ID
+   * @returns File answer, or null when the response has no such file
+   */
+  static findFile(response: Pick<IFormResponse, 'responses'>, fileId: string): IUploadedFile | null {
+    return this.listFiles(response).find(file =>
+      file.id ? file.id === fileId : file.filename === fileId
+    ) || null;
+  }
+
+  /**
+   * List the file answers on a response
+   * @param response - Response holding the files
+   * @returns File answers
+   */
+  static listFiles(response: Pick<IFormResponse, 'responses'>): IUploadedFile[] {
+    return Object.values(response.responses || {})
+      .flatMap(value => Array.isArray(value) ? value : [value])
+      .filter(value => value && typeof value === 'object' && typeof value.filename === 'string' && typeof value.originalName === 'string');
+  }
+
+  /**
+   * Open a stored file for reading
+   * @param file - File answer
+   * @returns Readable stream of the file contents
+   */
+  static async openFile(file: Pick<IUploadedFile, 'storageKey' | 'filename'>): Promise<NodeJS.ReadableStream> {
+    if (file.storageKey) {
+      return this.getBackend().getStream(file.storageKey);
+    }
+
+    const legacyPath = path.join(this.getLegacyUploadDir(), path.basename(file.filename));
+    if (!fs.existsSync(legacyPath)) {
+      throw new StoredFileNotFoundError(file.filename);
+    }
+    return fs.createReadStream(legacyPath);
+  }
+
+  /**
+   * Read a stored file into memory
+   * @param file - File answer
+   * @returns File contents
+   */
+  static async readFile(file: Pick<IUploadedFile, 'storageKey' | 'filename'>): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of await this.openFile(file)) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Delete a stored file, logging failures
+   * @param file - File answer
+   */
+  static async removeFile(file: Pick<IUploadedFile, 'storageKey' | 'filename'>): Promise<void> {
+    try {
+      if (file.storageKey) {
+        await this.getBackend().remove(file.storageKey);
+      } else {
+        await fs.promises.unlink(path.join(this.getLegacyUploadDir(), path.basename(file.filename)));
+      }
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') console.error('Remove stored file error:', error);
+    }
+  }
+
+  /**
+   * List the files kept in private storage
+   * @param prefix - Key prefix, e.g. 'forms/' for all response files
+   * @returns Stored objects with their size and last change
+   */
+  static listStored(prefix: string): AsyncIterable<IStoredObject> {
+    return this.getBackend().list(prefix);
+  }
+
+  /**
+   * Parse a response file's storage key
+   * @param key - Storage key built by buildKey
+   * @returns Form and response IDs, or null for keys of another shape
+   */
+  static parseKey(key: string): { formId: string; responseId: string; filename: string } | null {
+    const match = /^forms\/([a-f0-9]{24})\/responses\/([a-f0-9]{24})\/([^/]+)$/.exec(key);
+    return match ? { formId: match[1], responseId: match[2], filename: match[3] } : null;
+  }
+
+  /**
+   * Create a link that downloads a file without signing in
+   * @param file - File answer
+   * @param ttlSeconds - How long the link works (defaults to FILE_URL_TTL_MINUTES)
+   * @returns Absolute URL and its expiry
+   */
+  static createSignedUrl(
+    file: Pick<IUploadedFile, 'storageKey' | 'originalName' | 'mimetype'>,
+    ttlSeconds: number = parseInt(process.env.FILE_URL_TTL_MINUTES || '15', 10) * 60
+  ): { url: string; expiresAt: Date } {
+    const payload: IFileDownloadToken & { purpose: string } = {
+      purpose: DOWNLOAD_TOKEN_PURPOSE,
+      key: file.storageKey,
+      name: file.originalName,
+      type: file.mimetype
+    };
+    const token = jwt.sign(payload, process.env.JWT_SECRET!, { expiresIn: ttlSeconds });
+
+    return {
+      url: `${process.env.BACKEND_URL || 'http://localhost:3001'}/api/public/files/${token}`,
+      expiresAt: new Date(Date.now() + ttlSeconds * 1000)
+    };
+  }
+
+  /**
+   * Check a signed download link's token
+   * @param token - Token from the link
+   * @returns File the link is for, or null when the token is invalid or expired
+   */
+  static verifyDownloadToken(token: string): IFileDownloadToken | null {
+    try {
+      const decoded: any = jwt.verify(token, process.env.JWT_SECRET!);
+      if (decoded.purpose !== DOWNLOAD_TOKEN_PURPOSE || typeof decoded.key !== 'string') return null;
+
+      return { key: decoded.key, name: decoded.name, type: decoded.type };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Stream a stored file as a download
+   * @param res - Response to write to
+   * @param file - File answer
+   * @returns False when the file no longer exists, so the caller can answer 404
+   */
+  static async sendFile(res: Response, file: Pick<IUploadedFile, 'storageKey' | 'filename' | 'originalName' | 'mimetype'>): Promise<boolean> {
+    let stream: NodeJS.ReadableStream;
+    try {
+      stream = await this.openFile(file);
+    } catch (error) {
+      if (error instanceof StoredFileNotFoundError) return false;
+      throw error;
+    }
+
+    const name = file.originalName || file.filename;
+    res.setHeader('Content-Type', file.mimetype || 'application/octet-stream');
+    // Always a download, so an uploaded page or image cannot run in the app's origin
+    res.setHeader('Content-Disposition', `attachment; filename="${name.replace(/["\\\r\n]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(name)}`);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Cache-Control', 'private, no-store');
+
+    stream.on('error', (error) => {
+      console.error('Stream stored file error:', error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+    return true;
+  }
+}
+
+export default FileStorageService;
@@ -0,0 +1,356 @@
+import fs from 'fs';
+import path from 'path';
+import { Types } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import User from '../models/User';
+import Workspace from '../models/Workspace';
+import FileStorageService from './FileStorageService';
+import { IDetectedFileType, IFileUpload, IFileUploadCheck, IForm, IFormField, IFormResponse, IUploadedFile, IValidationError } from '../types';
+
+const BYTES_PER_MB = 1024 * 1024;
+const HEADER_BYTES = 4096;
+
+// Forms saved before sizes were stored in bytes hold megabytes
+const LEGACY_MB_SIZE_LIMIT = 1024;
+
+export const DEFAULT_FILE_UPLOAD_RULES: IFileUpload = {
+  maxFileSize: 10 * BYTES_PER_MB,
+  allowedTypes: ['image/*', '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.txt', '.csv'],
+  maxFiles: 1
+};
+
+interface IFileSignature {
+  // Every part must match; offsets are from the start of the file
+  parts: Array<{ offset: number; bytes: string | number[] }>;
+  // Extension -> MIME type; the first entry is used when the file's own extension does not fit
+  types: Record<string, string>;
+  // Containers shared by many formats are only accepted under one of their own extensions
+  requireExtension?: boolean;
+}
+
+const FILE_SIGNATURES: IFileSignature[] = [
+  { parts: [{ offset: 0, bytes: [0xff, 0xd8, 0xff] }], types: { '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg' } },
+  { parts: [{ offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] }], types: { '.png': 'image/png' } },
+  { parts: [{ offset: 0, bytes: 'GIF8' }], types: { '.gif': 'image/gif' } },
+  { parts: [{ offset: 0, bytes: 'RIFF' }, { offset: 8, bytes: 'WEBP' }], types: { '.webp': 'image/webp' } },
+  { parts: [{ offset: 0, bytes: 'RIFF' }, { offset: 8, bytes: 'WAVE' }], types: { '.wav': 'audio/wav' } },
+  { parts: [{ offset: 0, bytes: '%PDF-' }], types: { '.pdf': 'application/pdf' } },
+  { parts: [{ offset: 0, bytes: 'ID3' }], types: { '.mp3': 'audio/mpeg' } },
+  { parts: [{ offset: 0, bytes: [0xff, 0xfb] }], types: { '.mp3': 'audio/mpeg' } },
+  {
+    parts: [{ offset: 4, bytes: 'ftyp' }],
+    types: { '.mp4': 'video/mp4', '.m4v': 'video/mp4', '.m4a': 'audio/mp4', '.mov': 'video/quicktime' }
+  },
+  { parts: [{ offset: 0, bytes: [0x1a, 0x45, 0xdf, 0xa3] }], types: { '.webm': 'video/webm', '.mkv': 'video/x-matroska' } },
+  {
+    parts: [{ offset: 0, bytes: [0x50, 0x4b, 0x03, 0x04] }],
+    types: {
+      '.zip': 'application/zip',
+      '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+    }
+  },
+  {
+    parts: [{ offset: 0, bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] }],
+    types: { '.doc': 'application/msword', '.xls': 'application/vnd.ms-excel', '.ppt': 'application/vnd.ms-powerpoint' },
+    requireExtension: true
+  }
+];
+
+// Files without magic bytes are accepted as plain text when they decode as UTF-8
+const TEXT_SIGNATURE: IFileSignature = {
+  parts: [],
+  types: { '.txt': 'text/plain', '.csv': 'text/csv', '.md': 'text/markdown' }
+};
+
+/**
+ * File Upload Service
+ * Checks uploads to public forms against the owning field's rules, detects
+ * file types from their contents, moves accepted files into private storage
+ * and tracks storage used against plan limits
+ */
+export class FileUploadService {
+
+  /**
+   * Get a file field's upload rules, with defaults for fields saved without them
+   * @param field - File upload field
+   * @returns Complete rules, with the size in bytes
+   */
+  static getRules(field: Pick<IFormField, 'properties'>): IFileUpload {
+    const rules: any = field.properties?.fileUpload || {};
+    const maxFileSize = rules.maxFileSize > 0 ? rules.maxFileSize : DEFAULT_FILE_UPLOAD_RULES.maxFileSize;
+
+    return {
+      maxFileSize: maxFileSize <= LEGACY_MB_SIZE_LIMIT ? maxFileSize * BYTES_PER_MB : maxFileSize,
+      allowedTypes: rules.allowedTypes?.length ? [...rules.allowedTypes] : DEFAULT_FILE_UPLOAD_RULES.allowedTypes,
+      maxFiles: rules.maxFiles > 0 ? rules.maxFiles : DEFAULT_FILE_UPLOAD_RULES.maxFiles
+    };
+  }
+
+  /**
+   * Check the files uploaded with a submission and build the answers for them
+   * Accepted files are named after the extension of their detected type and
+   * stay in temporary storage until `storeUploads` is called.
+   * @param form - Form being submitted
+   * @param files - Files stored by multer
+   * @param responseId - ID the response will be saved under
+   * @returns Errors, answers by field ID, the total size of the files and the files to store
+   */
+  static async checkUploads(form: IForm, files: Express.Multer.File[], responseId: Types.ObjectId): Promise<IFileUploadCheck> {
+    const fileFields = new Map((form.fields || []).filter(field => field.type === 'file').map(field => [field.id, field]));
+    const accepted = new Map<string, Array<{ file: Express.Multer.File; type: IDetectedFileType }>>();
+    const errors: IValidationError[] = [];
+
+    for (const file of files) {
+      const field = fileFields.get(file.fieldname);
+      if (!field) {
+        errors.push({ fieldId: file.fieldname, message: `Files cannot be uploaded to "${file.fieldname}"` });
+        continue;
+      }
+
+      const rules = this.getRules(field);
+      if (file.size > rules.maxFileSize) {
+        errors.push({
+          fieldId: field.id,
+          message: `${file.originalname} is larger than the ${this.formatSize(rules.maxFileSize)} limit for ${field.label}`
+        });
+        continue;
+      }
+
+      const type = this.detectType(await this.readHeader(file.path), file.originalname);
+      if (!type || !this.isTypeAllowed(type, rules.allowedTypes)) {
+        errors.push({ fieldId: field.id, message: `${file.originalname} is not an allowed file type for ${field.label}` });
+        continue;
+      }
+
+      accepted.set(field.id, [...(accepted.get(field.id) || []), { file, type }]);
+    }
+
+    accepted.forEach((uploads, fieldId) => {
+      const field = fileFields.get(fieldId)!;
+      const { maxFiles } = this.getRules(field);
+      if (uploads.length > maxFiles) {
+        errors.push({ fieldId, message: `${field.label} accepts at most ${maxFiles} file${maxFiles === 1 ? '' : 's'}` });
+      }
+    });
+
+    if (errors.length > 0) {
+      return { errors, answers: {}, totalBytes: 0, pending: [] };
+    }
+
+    const answers: IFileUploadCheck['answers'] = {};
+    const pending: IFileUploadCheck['pending'] = [];
+
+    accepted.forEach((uploads, fieldId) => {
+      const described = uploads.map(({ file, type }) => this.describe(form, responseId, file, type));
+      pending.push(...described.map((file, index) => ({ path: uploads[index].file.path, file })));
+      answers[fieldId] = this.getRules(fileFields.get(fieldId)!).maxFiles > 1 ? described : described[0];
+    });
+
+    return { errors, answers, totalBytes: pending.reduce((sum, { file }) => sum + file.size, 0), pending };
+  }
+
+  /**
+   * Move checked uploads from temporary storage into the storage backend
+   * If a file fails, the ones already stored are removed again.
+   * @param check - Result of `checkUploads`
+   */
+  static async storeUploads(check: IFileUploadCheck): Promise<void> {
+    const backend = FileStorageService.getBackend();
+    const stored: IUploadedFile[] = [];
+
+    try {
+      for (const { path: tempPath, file } of check.pending) {
+        await backend.put(file.storageKey, await fs.promises.readFile(tempPath), file.mimetype);
+        stored.push(file);
+      }
+    } catch (error) {
+      await Promise.all(stored.map(file => FileStorageService.removeFile(file)));
+      throw error;
+    }
+  }
+
+  /**
+   * Remove stored uploads of a submission that could not be saved
+   * @param check - Result of `checkUploads`
+   */
+  static async removeStoredUploads(check: IFileUploadCheck): Promise<void> {
+    await Promise.all(check.pending.map(({ file }) => FileStorageService.removeFile(file)));
+  }
+
+  /**
+   * Replace a submission's file answers with the files the server accepted
+   * Values sent for file fields in the request body are dropped, so an answer
+   * cannot point at a file the respondent did not upload.
+   * @param form - Form being submitted
+   * @param responses - Submitted answers
+   * @param answers - Answers built from the accepted uploads
+   * @returns Answers with server-built file answers
+   */
+  static applyAnswers(form: IForm, responses: Record<string, any>, answers: IFileUploadCheck['answers']): Record<string, any> {
+    const result = { ...responses };
+
+    (form.fields || []).forEach(field => {
+      if (field.type === 'file') delete result[field.id];
+    });
+
+    return { ...result, ...answers };
+  }
+
+  /**
+   * Detect a file's type from its first bytes
+   * @param header - Start of the file
+   * @param originalName - Name the file was uploaded with, to pick between formats sharing a container
+   * @returns Detected MIME type and extension, or null when the contents are not recognised
+   */
+  static detectType(header: Buffer, originalName: string): IDetectedFileType | null {
+    const extension = path.extname(originalName).toLowerCase();
+    const signature = FILE_SIGNATURES.find(candidate => candidate.parts.every(part => this.matchesPart(header, part)))
+      || (this.isText(header) ? TEXT_SIGNATURE : null);
+
+    if (!signature) return null;
+    if (signature.types[extension]) {
+      return { mimetype: signature.types[extension], extension };
+    }
+    if (signature.requireExtension) return null;
+
+    const [fallbackExtension, mimetype] = Object.entries(signature.types)[0];
+    return { mimetype, extension: fallbackExtension };
+  }
+
+  /**
+   * Check a detected type against a field's allowed types
+   * Entries may be extensions (".pdf" or "pdf"), MIME types ("application/pdf") or wildcards ("image/*").
+   * @param type - Detected file type
+   * @param allowedTypes - Field's allowed types
+   * @returns Whether the type is allowed
+   */
+  static isTypeAllowed(type: IDetectedFileType, allowedTypes: string[]): boolean {
+    return allowedTypes.some(entry => {
+      const allowed = entry.trim().toLowerCase();
+      if (allowed.endsWith('/*')) return type.mimetype.startsWith(allowed.slice(0, -1));
+      if (allowed.includes('/')) return type.mimetype === allowed;
+      return type.extension === (allowed.startsWith('.') ? allowed : `.${allowed}`);
+    });
+  }
+
+  /**
+   * Check whether the form's workspace, or its owner without one, has room for more files
+   * @param form - Form being submitted
+   * @param bytes - Size of the new files
+   * @returns Whether the files fit within the plan's storage limit
+   */
+  static async hasStorageFor(form: IForm, bytes: number): Promise<boolean> {
+    if (bytes <= 0) return true;
+
+    const usage = await this.getStorageUsage(form);
+    if (!usage || usage.limit <= 0) return true;
+
+    return usage.used + bytes / BYTES_PER_MB <= usage.limit;
+  }
+
+  /**
+   * Add stored files to the storage used by the form's workspace or owner
+   * @param form - Form the files were uploaded to
+   * @param bytes - Size of the files
+   */
+  static async recordStorage(form: IForm, bytes: number): Promise<void> {
+    if (bytes === 0) return;
+
+    const megabytes = bytes / BYTES_PER_MB;
+    if (form.workspaceId) {
+      await Workspace.updateOne({ _id: form.workspaceId }, { $inc: { 'analytics.storageUsed': megabytes } });
+    } else {
+      await User.updateOne({ _id: form.userId }, { $inc: { 'usage.storageUsed': megabytes } });
+    }
+  }
+
+  /**
+   * Delete a response's files and release the storage they used
+   * @param form - Form the response belongs to
+   * @param response - Response being deleted
+   */
+  static async removeResponseFiles(form: IForm, response: Pick<IFormResponse, 'responses' | 'uploadSize'>): Promise<void> {
+    await Promise.all(FileStorageService.listFiles(response).map(file => FileStorageService.removeFile(file)));
+    await this.recordStorage(form, -(response.uploadSize || 0));
+  }
+
+  /**
+   * Delete temporary upload files, logging failures
+   * @param paths - Paths of the files
+   */
+  static removeTempFiles(paths: string[]): void {
+    paths.forEach(filePath => {
+      fs.unlink(filePath, (error) => {
+        if (error && error.code !== 'ENOENT') console.error('Remove temporary upload error:', error);
+      });
+    });
+  }
+
+  // Helper methods
+
+  private static async getStorageUsage(form: IForm): Promise<{ used: number; limit: number } | null> {
+    if (form.workspaceId) {
+      const workspace = await Workspace.findById(form.workspaceId).select('analytics.storageUsed billing.limits.maxFileStorage').lean();
+      if (!workspace) return null;
+      return { used: workspace.analytics?.storageUsed || 0, limit: workspace.billing?.limits?.maxFileStorage ?? 0 };
+    }
+
+    const owner = await User.findById(form.userId as Types.ObjectId).select('usage.storageUsed subscription.features.maxFileStorage').lean();
+    if (!owner) return null;
+    return { used: (owner as any).usage?.storageUsed || 0, limit: (owner as any).subscription?.features?.maxFileStorage ?? 0 };
+  }
+
+  private static describe(form: IForm, responseId: Types.ObjectId, file: Express.Multer.File, type: IDetectedFileType): IUploadedFile {
+    const id = uuidv4();
+    const filename = `${id}${type.extension}`;
+
+    return {
+      id,
+      originalName: file.originalname,
+      filename,
+      mimetype: type.mimetype,
+      size: file.size,
+      storageKey: FileStorageService.buildKey(form._id, responseId, filename),
+      url: `/api/responses/${responseId}/files/${id}`
+    };
+  }
+
+  private static async readHeader(filePath: string): Promise<Buffer> {
+    const handle = await fs.promises.open(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(HEADER_BYTES);
+      const { bytesRead } = await handle.read(buffer, 0, HEADER_BYTES, 0);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private static matchesPart(header: Buffer, part: IFileSignature['parts'][number]): boolean {
+    const bytes = typeof part.bytes === 'string' ? Buffer.from(part.bytes, 'latin1') : Buffer.from(part.bytes);
+    if (header.length < part.offset + bytes.length) return false;
+    return header.subarray(part.offset, part.offset + bytes.length).equals(bytes);
+  }
+
+  private static isText(header: Buffer): boolean {
+    if (header.length === 0 || header.includes(0)) return false;
+
+    try {
+      // A multi-byte character cut off at the end of the header is not an error
+      new TextDecoder('utf-8', { fatal: true }).decode(header, { stream: true });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private static formatSize(bytes: number): string {
+    return bytes >= BYTES_PER_MB
+      ? `${Math.round((bytes / BYTES_PER_MB) * 10) / 10}MB`
+      : `${Math.round(bytes / 1024)}KB`;
+  }
+}
+
+export default FileUploadService;
@@ -0,0 +1,487 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { Request, Response } from 'express';
+import { IForm, IFormAccessResult, FormAccessCode } from '../types';
+import Form from '../models/Form';
+import FormResponse from '../models/FormResponse';
+
+const UNLOCK_TOKEN_PURPOSE = 'form_unlock';
+const SUBMISSION_COOKIE_PREFIX = 'fm_sub_';
+const SUBMISSION_COOKIE_MAX_AGE = 365 * 24 * 60 * 60 * 1000; // 1 year
+const RESPONSE_LIMIT_LOCK_LEASE_MS = 10 * 1000;
+const RESPONSE_LIMIT_LOCK_WAIT_MS = 10 * 1000;
+const RESPONSE_LIMIT_LOCK_RETRY_MS = 50;
+
+const DEFAULT_CLOSED_MESSAGES: Record<FormAccessCode, string> = {
+  FORM_NOT_OPEN: 'This form is not accepting responses yet.',
+  FORM_CLOSED: 'This form is no longer accepting responses.',
+  RESPONSE_LIMIT_REACHED: 'This form has reached its response limit.',
+  PASSWORD_REQUIRED: 'This form is password protected.',
+  INVALID_PASSWORD: 'The password is incorrect.',
+  ALREADY_SUBMITTED: 'You have already submitted this form.'
+};
+
+export class ResponseLimitBusyError extends Error {
+  constructor() {
+    super('Timed out waiting for other submissions to this form');
+    this.name = 'ResponseLimitBusyError';
+  }
+}
+
+/**
+ * Form Access Service
+ * Enforces schedule, response limit, password protection and
+ * single-submission settings for public form routes
+ */
+export class FormAccessService {
+
+  /**
+   * Check whether a respondent may view a form
+   * @param form - Form being viewed
+   * @param req - Incoming request
+   * @returns First failing check, or an allowed result
+   */
+  static async checkViewAccess(form: IForm, req: Request): Promise<IFormAccessResult> {
+    const availability = await this.checkAvailability(form);
+    if (!availability.allowed) return availability;
+
+    return this.checkPassword(form, req);
+  }
+
+  /**
+   * Check whether a respondent may submit a response to a form
+   * @param form - Form being submitted
+   * @param req - Incoming request
+   * @returns First failing check, or an allowed result
+   */
+  static async checkSubmissionAccess(form: IForm, req: Request): Promise<IFormAccessResult> {
+    const viewAccess = await this.checkViewAccess(form, req);
+    if (!viewAccess.allowed) return viewAccess;
+
+    return this.checkDuplicateSubmission(form, req);
+  }
+
+  /**
+   * Check whether a form currently accepts responses
+   * @param form - Form to check
+   * @param now - Reference time (defaults to current time)
+   * @returns Access result with a machine-readable code when closed
+   */
+  static async checkAvailability(form: IForm, now: Date = new Date()): Promise<IFormAccessResult> {
+    const { schedule } = form.settings || ({} as IForm['settings']);
+
+    if (schedule?.enabled) {
+      if (schedule.startDate && now < new Date(schedule.startDate)) {
+        return this.deny(form, 'FORM_NOT_OPEN', { opensAt: new Date(schedule.startDate) });
+      }
+
+      if (schedule.endDate && now > new Date(schedule.endDate)) {
+        return this.deny(form, 'FORM_CLOSED', { closedAt: new Date(schedule.endDate) });
+      }
+    }
+
+    return this.checkResponseLimit(form);
+  }
+
+  /**
+   * Check whether a form is below its response limit
+   * Concurrent submissions can all pass this check; saveWithinResponseLimit settles which are saved
+   * @param form - Form to check
+   * @returns Access result
+   */
+  static async checkResponseLimit(form: IForm): Promise<IFormAccessResult> {
+    const responseLimit = form.settings?.responseLimit;
+    if (!responseLimit?.enabled || !responseLimit.maxResponses) {
+      return { allowed: true };
+    }
+
+    // Quarantined spam does not use up the limit
+    const responseCount = await FormResponse.countDocuments({ formId: form._id, isValid: true, status: { $ne: 'spam' } });
+    return responseCount >= responseLimit.maxResponses
+      ? this.deny(form, 'RESPONSE_LIMIT_REACHED')
+      : { allowed: true };
+  }
+
+  /**
+   * Save a response only if the form is still below its response limit
+   * Submissions to a form with a limit take turns holding a short lock on the form while
+   * they count and save, so submissions racing for the last places cannot overshoot it.
+   * @param form - Form being submitted
+   * @param save - Saves the response
+   * @returns Access result; the response was saved when allowed
+   */
+  static async saveWithinResponseLimit(form: IForm, save: () => Promise<unknown>): Promise<IFormAccessResult> {
+    const responseLimit = form.settings?.responseLimit;
+    if (!responseLimit?.enabled || !responseLimit.maxResponses) {
+      await save();
+      return { allowed: true };
+    }
+
+    const lockId = crypto.randomBytes(16).toString('hex');
+    await this.lockResponseLimit(form, lockId);
+    try {
+      const limit = await this.checkResponseLimit(form);
+      if (limit.allowed) await save();
+      return limit;
+    } finally {
+      await Form.updateOne(
+        { _id: form._id, responseLimitLockedBy: lockId },
+        { $unset: { responseLimitLockedBy: 1, responseLimitLockedUntil: 1 } },
+        { timestamps: false }
+      );
+    }
+  }
+
+  /**
+   * Check whether the request carries a valid unlock token for a password-protected form
+   * @param form - Form to check
+   * @param req - Incoming request
+   * @returns Access result
+   */
+  static async checkPassword(form: IForm, req: Request): Promise<IFormAccessResult> {
+    if (!form.settings?.passwordProtection?.enabled) {
+      return { allowed: true };
+    }
+
+    const token = this.getUnlockToken(req);
+    if (!token) {
+      return this.deny(form, 'PASSWORD_REQUIRED');
+    }
+
+    const passwordHash = await this.getPasswordHash(form);
+    return this.verifyUnlockToken(form, token, passwordHash)
+      ? { allowed: true }
+      : this.deny(form, 'PASSWORD_REQUIRED');
+  }
+
+  /**
+   * Check whether this respondent has already submitted a single-submission form
+   * @param form - Form to check
+   * @param req - Incoming request
+   * @returns Access result
+   */
+  static async checkDuplicateSubmission(form: IForm, req: Request): Promise<IFormAccessResult> {
+    if (form.settings?.allowMultipleSubmissions !== false) {
+      return { allowed: true };
+    }
+
+    const submitterKeys = this.getSubmitterKeys(form, req);
+    if (submitterKeys.length === 0) {
+      return { allowed: true };
+    }
+
+    const existing = await FormResponse.exists({
+      formId: form._id,
+      submitterKeys: { $in: submitterKeys }
+    });
+
+    return existing ? this.deny(form, 'ALREADY_SUBMITTED') : { allowed: true };
+  }
+
+  /**
+   * Verify a form password and issue a short-lived unlock token
+   * @param form - Password-protected form
+   * @param password - Password entered by the respondent
+   * @returns Unlock token and expiry, or null if the password is wrong
+   */
+  static async unlock(form: IForm, password: string): Promise<{ unlockToken: string; expiresAt: Date } | null> {
+    const passwordHash = await this.getPasswordHash(form);
+    if (!passwordHash || !password || !(await bcrypt.compare(password, passwordHash))) {
+      return null;
+    }
+
+    const ttlMinutes = parseInt(process.env.FORM_UNLOCK_TOKEN_TTL_MINUTES || '30', 10);
+    const unlockToken = jwt.sign(
+      {
+        formId: form._id.toString(),
+        purpose: UNLOCK_TOKEN_PURPOSE,
+        // Changing the password invalidates tokens issued for the old one
+        pwd: this.passwordFingerprint(passwordHash)
+      },
+      process.env.JWT_SECRET!,
+      { expiresIn: `${ttlMinutes}m` }
+    );
+
+    return {
+      unlockToken,
+      expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000)
+    };
+  }
+
+  /**
+   * Derive the keys used to recognise a returning respondent:
+   * the submission cookie set by a previous submission and the device fingerprint
+   * @param form - Form being submitted
+   * @param req - Incoming request
+   * @returns Hashed submitter keys
+   */
+  static getSubmitterKeys(form: IForm, req: Request): string[] {
+    const keys: string[] = [];
+
+    const cookieValue = this.parseCookies(req)[`${SUBMISSION_COOKIE_PREFIX}${form._id}`];
+    if (cookieValue) {
+      keys.push(this.hashKey(`cookie:${cookieValue}`));
+    }
+
+    const fingerprint = req.get('X-Device-Fingerprint') || req.body?.fingerprint;
+    if (typeof fingerprint === 'string' && fingerprint.trim()) {
+      keys.push(this.hashKey(`fingerprint:${form._id}:${fingerprint.trim()}`));
+    }
+
+    return keys;
+  }
+
+  /**
+   * Set the submission cookie and return the keys to store on the new response
+   * @param form - Form that was submitted
+   * @param req - Incoming request
+   * @param res - Outgoing response
+   * @returns Hashed submitter keys for the response
+   */
+  static markSubmitted(form: IForm, req: Request, res: Response): string[] {
+    const cookieName = `${SUBMISSION_COOKIE_PREFIX}${form._id}`;
+    let cookieValue = this.parseCookies(req)[cookieName];
+
+    if (!cookieValue) {
+      cookieValue = crypto.randomBytes(16).toString('hex');
+      res.cookie(cookieName, cookieValue, {
+        httpOnly: true,
+        maxAge: SUBMISSION_COOKIE_MAX_AGE,
+        // Forms are embedded on third-party sites, so the cookie must be sent cross-site
+        sameSite: process.env.NODE_ENV === 'production' ? 'none' : 'lax',
+        secure: process.env.NODE_ENV === 'production'
+      });
+      req.headers.cookie = [req.headers.cookie, `${cookieName}=${cookieValue}`].filter(Boolean).join('; ');
+    }
+
+    return this.getSubmitterKeys(form, req);
+  }
+
+  /**
+   * Hash a form password for storage, leaving existing hashes untouched
+   * @param password - Plain-text or already hashed password
+   * @returns bcrypt hash
+   */
+  static async hashPassword(password: string): Promise<string> {
+    if (this.isPasswordHash(password)) {
+      return password;
+    }
+
+    const salt = await bcrypt.genSalt(12);
+    return bcrypt.hash(password, salt);
+  }
+
+  /**
+   * Check whether a value is already a bcrypt hash
+   */
+  static isPasswordHash(value: string): boolean {
+    return /^\$2[aby]\$\d{2}\$[./A-Za-z0-9]{53}$/.test(value);
+  }
+
+  /**
+   * Merge settings sent by the form builder onto the stored settings
+   * Schedule dates without an explicit offset are interpreted in the schedule timezone,
+   * and a blank password keeps the stored one
+   * @param current - Stored settings (with password hash selected)
+   * @param updates - Settings from the request body
+   * @returns Settings ready to persist
+   */
+  static async prepareSettings(current: Record<string, any> = {}, updates: Record<string, any> = {}): Promise<Record<string, any>> {
+    const settings: Record<string, any> = { ...current };
+
+    Object.entries(updates).forEach(([key, value]) => {
+      const isNested = value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+      settings[key] = isNested ? { ...(current[key] || {}), ...value } : value;
+    });
+
+    const passwordProtection = settings.passwordProtection;
+    if (passwordProtection) {
+      const newPassword = updates.passwordProtection?.password;
+      passwordProtection.password = typeof newPassword === 'string' && newPassword.trim()
+        ? await this.hashPassword(newPassword)
+        : current.passwordProtection?.password;
+
+      if (passwordProtection.enabled && !passwordProtection.password) {
+        throw new Error('A password is required when password protection is enabled');
+      }
+    }
+
+    const schedule = settings.schedule;
+    if (schedule) {
+      ['startDate', 'endDate'].forEach(key => {
+        if (typeof updates.schedule?.[key] === 'string') {
+          schedule[key] = this.resolveScheduleDate(updates.schedule[key], schedule.timezone);
+        }
+      });
+
+      if (schedule.startDate && schedule.endDate && schedule.startDate > schedule.endDate) {
+        throw new Error('Schedule end date must be after the start date');
+      }
+    }
+
+    return settings;
+  }
+
+  /**
+   * Interpret a schedule date in the form's timezone
+   * @param value - ISO date string, with or without offset
+   * @param timezone - IANA timezone of the schedule
+   * @returns Absolute date, or undefined for blank values
+   */
+  static resolveScheduleDate(value: string, timezone?: string): Date | undefined {
+    if (!value || !value.trim()) return undefined;
+
+    const hasOffset = /(Z|[+-]\d{2}:?\d{2})$/i.test(value.trim());
+    const parsed = new Date(hasOffset || !timezone ? value : `${value}Z`);
+
+    if (isNaN(parsed.getTime())) {
+      throw new Error(`Invalid schedule date: ${value}`);
+    }
+
+    if (hasOffset || !timezone) {
+      return parsed;
+    }
+
+    // Parsed as if UTC; shift by the zone's offset at that wall-clock time
+    return new Date(parsed.getTime() - this.getTimezoneOffset(parsed, timezone));
+  }
+
+  /**
+   * Public payload describing why a form is unavailable
+   * @param form - Form that was denied
+   * @param result - Denied access result
+   * @returns Response body for the client
+   */
+  static getDeniedResponse(form: IForm, result: IFormAccessResult): Record<string, any> {
+    return {
+      success: false,
+      code: result.code,
+      message: result.message,
+      data: {
+        _id: form._id,
+        title: form.title,
+        description: form.description,
+        customization: form.customization,
+        publicUrl: form.publicUrl,
+        opensAt: result.opensAt,
+        closedAt: result.closedAt
+      }
+    };
+  }
+
+  /**
+   * HTTP status matching a denial code
+   */
+  static getStatusCode(code?: FormAccessCode): number {
+    return code === 'PASSWORD_REQUIRED' || code === 'INVALID_PASSWORD' ? 401 : 403;
+  }
+
+  // Helper methods
+
+  private static deny(
+    form: IForm,
+    code: FormAccessCode,
+    extra: Pick<IFormAccessResult, 'opensAt' | 'closedAt'> = {}
+  ): IFormAccessResult {
+    const isClosure = code === 'FORM_NOT_OPEN' || code === 'FORM_CLOSED' || code === 'RESPONSE_LIMIT_REACHED';
+
+    return {
+      allowed: false,
+      code,
+      message: (isClosure && form.settings?.closedMessage) || DEFAULT_CLOSED_MESSAGES[code],
+      ...extra
+    };
+  }
+
+  private static async lockResponseLimit(form: IForm, lockId: string): Promise<void> {
+    const waitUntil = Date.now() + RESPONSE_LIMIT_LOCK_WAIT_MS;
+
+    for (;;) {
+      const now = new Date();
+      const locked = await Form.findOneAndUpdate(
+        { _id: form._id, $or: [{ responseLimitLockedUntil: null }, { responseLimitLockedUntil: { $lte: now } }] },
+        { $set: { responseLimitLockedBy: lockId, responseLimitLockedUntil: new Date(now.getTime() + RESPONSE_LIMIT_LOCK_LEASE_MS) } },
+        { projection: { _id: 1 }, timestamps: false }
+      );
+      if (locked) return;
+
+      if (Date.now() >= waitUntil) throw new ResponseLimitBusyError();
+      await new Promise(resolve => setTimeout(resolve, RESPONSE_LIMIT_LOCK_RETRY_MS));
+    }
+  }
+
+  private static async getPasswordHash(form: IForm): Promise<string | undefined> {
+    const stored = form.settings?.passwordProtection?.password;
+    if (stored) return stored;
+
+    // The hash is excluded from normal queries
+    const withPassword: any = await Form.findById(form._id).select('+settings.passwordProtection.password').lean();
+    return withPassword?.settings?.passwordProtection?.password;
+  }
+
+  private static verifyUnlockToken(form: IForm, token: string, passwordHash?: string): boolean {
+    if (!passwordHash) return false;
+
+    try {
+      const decoded: any = jwt.verify(token, process.env.JWT_SECRET!);
+      return decoded.purpose === UNLOCK_TOKEN_PURPOSE &&
+        decoded.formId === form._id.toString() &&
+        decoded.pwd === this.passwordFingerprint(passwordHash);
+    } catch {
+      return false;
+    }
+  }
+
+  private static getUnlockToken(req: Request): string | undefined {
+    const token = req.get('X-Form-Unlock-Token') || req.body?.unlockToken || req.query.unlockToken;
+    return typeof token === 'string' && token ? token : undefined;
+  }
+
+  private static passwordFingerprint(passwordHash: string): string {
+    return crypto.createHash('sha256').update(passwordHash).digest('hex').slice(0, 16);
+  }
+
+  private static hashKey(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+
+  private static parseCookies(req: Request): Record<string, string> {
+    const cookies: Record<string, string> = {};
+
+    (req.headers.cookie || '').split(';').forEach(pair => {
+      const index = pair.indexOf('=');
+      if (index === -1) return;
+
+      const name = pair.slice(0, index).trim();
+      const value = pair.slice(index + 1).trim();
+      try {
+        cookies[name] = decodeURIComponent(value);
+      } catch {
+        cookies[name] = value;
+      }
+    });
+
+    return cookies;
+  }
+
+  private static getTimezoneOffset(date: Date, timezone: string): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(date);
+
+    const value = (type: string) => parseInt(parts.find(part => part.type === type)?.value || '0', 10);
+    const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+
+    return asUtc - date.getTime();
+  }
+}
+
+export default FormAccessService;
@@ -0,0 +1,284 @@
+import path from 'path';
+import Form from '../models/Form';
+import FieldEncryptionService from './FieldEncryptionService';
+import FileStorageService from './FileStorageService';
+import MailService from './MailService';
+import NotificationTemplateService from './NotificationTemplateService';
+import {
+  IEmailMessage,
+  IEmailSettings,
+  IFormField,
+  IIntegration,
+  IIntegrationEvent,
+  IIntegrationExecutionContext,
+  IMailAttachment,
+  INotificationAnswer
+} from '../types';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const DEFAULT_OWNER_SUBJECT = 'New response to {{form.title}}';
+const DEFAULT_AUTORESPONDER_SUBJECT = 'Thanks for your response to {{form.title}}';
+const DEFAULT_AUTORESPONDER_INTRO = 'Thanks for filling out {{form.title}}. Here is a copy of your answers.';
+
+interface IRenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+  attachments: IMailAttachment[];
+}
+
+/**
+ * Form Notification Service
+ * Builds owner notification emails and respondent autoresponders from form submissions
+ */
+export class FormNotificationService {
+
+  /**
+   * Queue the owner notification and autoresponder configured for a submission
+   * Safe to call again for the same event: each email is only queued once
+   * @param event - form_submitted event
+   * @returns Queued emails
+   */
+  static async queueForSubmission(event: IIntegrationEvent): Promise<IEmailMessage[]> {
+    const form: any = await Form.findById(event.formId)
+      .select('title fields settings.notifications userId')
+      .populate('userId', 'email preferences.emailNotifications');
+
+    if (!form) return [];
+
+    const fields: IFormField[] = form.fields || [];
+    // Emails never carry sensitive answers, but a sensitive email field can still address the autoresponder
+    const decrypted = {
+      ...event,
+      responses: event.responseId ? await FieldEncryptionService.decryptAnswers(event.responses || {}, event.responseId) : event.responses
+    };
+    const redacted = { ...event, responses: FieldEncryptionService.redactAnswers(event.responses || {}, form) };
+    const notifications = form.settings?.notifications || {};
+    const source = {
+      formId: event.formId,
+      responseId: event.responseId,
+      eventId: event.eventId
+    };
+    const queued: IEmailMessage[] = [];
+
+    if (notifications.email?.enabled) {
+      const recipients = this.getOwnerRecipients(notifications.email.recipients, form.userId);
+
+      if (recipients.length > 0) {
+        const email = this.renderEmail(redacted, fields, {
+          subject: notifications.email.subject || DEFAULT_OWNER_SUBJECT,
+          template: notifications.email.template,
+          includeAttachments: !!notifications.email.includeAttachments,
+          includeResponseLink: true
+        });
+
+        queued.push(await MailService.queue({
+          to: recipients,
+          replyTo: this.getRespondentEmail(decrypted, fields, notifications.autoresponder?.emailFieldId),
+          ...email
+        }, { ...source, kind: 'owner_notification', dedupeKey: `${event.eventId}:owner_notification` }));
+      }
+    }
+
+    const autoresponder = notifications.autoresponder;
+    const respondentEmail = autoresponder?.enabled
+      ? this.getRespondentEmail(decrypted, fields, autoresponder.emailFieldId)
+      : undefined;
+
+    if (autoresponder && respondentEmail) {
+      const email = this.renderEmail(redacted, fields, {
+        subject: autoresponder.subject || DEFAULT_AUTORESPONDER_SUBJECT,
+        template: autoresponder.template,
+        intro: DEFAULT_AUTORESPONDER_INTRO,
+        includeAttachments: !!autoresponder.includeAttachments,
+        includeResponseLink: false
+      });
+
+      queued.push(await MailService.queue({
+        to: [respondentEmail],
+        replyTo: autoresponder.replyTo || form.userId?.email,
+        ...email
+      }, { ...source, kind: 'autoresponder', dedupeKey: `${event.eventId}:autoresponder` }));
+    }
+
+    return queued;
+  }
+
+  /**
+   * Queue the email sent by an email integration
+   * @param integration - Email integration
+   * @param event - Event that triggered the integration
+   * @param context - Delivery identifier, used so a retried delivery queues the email once
+   * @returns Queued email
+   */
+  static async queueForIntegration(
+    integration: IIntegration,
+    event: IIntegrationEvent,
+    context: IIntegrationExecutionContext
+  ): Promise<IEmailMessage> {
+    const settings: Partial<IEmailSettings> = integration.settings?.email || {};
+    const recipients = (settings.recipients || []).filter(recipient => EMAIL_PATTERN.test(recipient));
+
+    if (recipients.length === 0) {
+      throw new Error('Email integration has no valid recipients');
+    }
+
+    const form: any = await Form.findById(event.formId).select('fields');
+    const fields: IFormField[] = form?.fields || [];
+    const email = this.renderEmail(event, fields, {
+      subject: settings.subject || DEFAULT_OWNER_SUBJECT,
+      template: settings.template,
+      includeAttachments: !!settings.includeAttachments,
+      includeResponseLink: true
+    });
+
+    return MailService.queue({ to: recipients, ...email }, {
+      kind: 'integration',
+      formId: event.formId,
+      responseId: event.responseId,
+      integrationId: integration._id,
+      eventId: event.eventId,
+      dedupeKey: `${integration._id}:${context.deliveryId}`
+    });
+  }
+
+  /**
+   * Render an email for an event
+   * Without a template the email lists every answer; templates use {{field}} placeholders
+   * @param event - Event to render
+   * @param fields - Form fields
+   * @param options - Subject, optional template and what to include
+   * @returns Subject, HTML and text bodies and attachments
+   */
+  static renderEmail(
+    event: IIntegrationEvent,
+    fields: IFormField[],
+    options: {
+      subject: string;
+      template?: string;
+      intro?: string;
+      includeAttachments: boolean;
+      includeResponseLink: boolean;
+    }
+  ): IRenderedEmail {
+    const render = (template: string, escape?: (value: string) => string) =>
+      NotificationTemplateService.renderTemplate(template, event, fields, false, escape);
+
+    // Header values must stay on one line
+    const subject = render(options.subject).replace(/[\r\n]+/g, ' ').trim();
+    const htmlParts: string[] = [];
+    const textParts: string[] = [];
+
+    if (options.template) {
+      htmlParts.push(this.toHtmlParagraphs(render(options.template, value => this.escapeHtml(value))));
+      textParts.push(render(options.template));
+    } else {
+      const answers = NotificationTemplateService.getAnswers(event, fields);
+      if (options.intro) {
+        htmlParts.push(this.toHtmlParagraphs(render(options.intro, value => this.escapeHtml(value))));
+        textParts.push(render(options.intro));
+      }
+      htmlParts.push(this.renderAnswersHtml(answers));
+      textParts.push(answers.map(answer => `${answer.label}: ${answer.value}`).join('\n'));
+    }
+
+    if (options.includeResponseLink) {
+      const url = NotificationTemplateService.getResponseUrl(event);
+      htmlParts.push(`<p><a href="${this.escapeHtml(url)}">View response</a></p>`);
+      textParts.push(`View response: ${url}`);
+    }
+
+    return {
+      subject,
+      html: `<!DOCTYPE html><html><body style="font-family: Arial, sans-serif; color: #111827;">${htmlParts.join('')}</body></html>`,
+      text: textParts.join('\n\n'),
+      attachments: options.includeAttachments ? this.getAttachments(event) : []
+    };
+  }
+
+  /**
+   * Find the respondent's email address in their answers
+   * @param event - Submission event
+   * @param fields - Form fields
+   * @param emailFieldId - Field holding the address; defaults to the first answered email field
+   * @returns Valid email address, if any
+   */
+  static getRespondentEmail(event: IIntegrationEvent, fields: IFormField[], emailFieldId?: string): string | undefined {
+    const candidates = emailFieldId
+      ? [emailFieldId]
+      : fields.filter(field => field.type === 'email').map(field => field.id);
+
+    for (const fieldId of candidates) {
+      const value = event.responses?.[fieldId];
+      if (typeof value === 'string' && EMAIL_PATTERN.test(value.trim())) {
+        return value.trim();
+      }
+    }
+
+    return undefined;
+  }
+
+  // Helper methods
+
+  private static getOwnerRecipients(recipients: string[] = [], owner: any): string[] {
+    const configured = recipients.filter(recipient => EMAIL_PATTERN.test(recipient));
+    if (configured.length > 0) return configured;
+
+    // Without explicit recipients the owner is notified, unless they opted out
+    const ownerOptedIn = owner?.preferences?.emailNotifications?.formSubmissions !== false;
+    return owner?.email && ownerOptedIn ? [owner.email] : [];
+  }
+
+  private static getAttachments(event: IIntegrationEvent): IMailAttachment[] {
+    const maxTotalBytes = parseInt(process.env.MAIL_MAX_ATTACHMENT_BYTES || '10485760', 10);
+    const attachments: IMailAttachment[] = [];
+    let totalBytes = 0;
+
+    const files = FileStorageService.listFiles({ responses: event.responses || {} });
+
+    // Files that would exceed the size budget are left out; their names are still in the answers
+    files.forEach(file => {
+      if (totalBytes + (file.size || 0) > maxTotalBytes) return;
+      totalBytes += file.size || 0;
+      attachments.push({
+        filename: file.originalName,
+        // Files from before private storage are still read from the uploads directory
+        ...(file.storageKey
+          ? { storageKey: file.storageKey }
+          : { path: path.resolve(FileStorageService.getLegacyUploadDir(), path.basename(file.filename)) }),
+        contentType: file.mimetype,
+        size: file.size
+      });
+    });
+
+    return attachments;
+  }
+
+  private static renderAnswersHtml(answers: INotificationAnswer[]): string {
+    const rows = answers.map(answer =>
+      `<tr><td style="padding: 6px 12px 6px 0; font-weight: bold; vertical-align: top;">${this.escapeHtml(answer.label)}</td>` +
+      `<td style="padding: 6px 0; white-space: pre-wrap;">${this.escapeHtml(answer.value)}</td></tr>`
+    );
+
+    return `<table style="border-collapse: collapse;">${rows.join('')}</table>`;
+  }
+
+  private static toHtmlParagraphs(text: string): string {
+    return text
+      .split(/\n{2,}/)
+      .map(paragraph => `<p>${paragraph.replace(/\n/g, '<br>')}</p>`)
+      .join('');
+  }
+
+  private static escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
+
+export default FormNotificationService;
@@ -0,0 +1,942 @@
+import { IFormulaError, IFormulaValidation } from '../types';
+
+/**
+ * Formula Evaluator
+ * Tokenizes, parses and evaluates calculation formulas without executing code.
+ *
+ * Supported syntax:
+ * - Numbers (`12`, `1.5`, `.5`, `1e3`), strings (`"text"` or `'text'`), `TRUE`, `FALSE`, `NULL`
+ * - Field references as `{{fieldId}}` or bare identifiers (`price`)
+ * - Arithmetic `+ - * / % ^`, string concatenation `&`
+ * - Comparison `= == != <> < <= > >=`, boolean `&& || !`
+ * - Function calls, which may be nested: `ROUND(SUM(a, b) * 1.2, 2)`
+ */
+
+export type FormulaValue = number | string | boolean | Date | null | FormulaValue[];
+
+export type FieldResolver = (fieldId: string) => any;
+
+type TokenType = 'number' | 'string' | 'identifier' | 'field' | 'operator' | 'lparen' | 'rparen' | 'comma' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+  length: number;
+}
+
+export type FormulaNode =
+  | { kind: 'literal'; value: FormulaValue; position: number; length: number }
+  | { kind: 'field'; fieldId: string; position: number; length: number }
+  | { kind: 'unary'; operator: string; operand: FormulaNode; position: number; length: number }
+  | { kind: 'binary'; operator: string; left: FormulaNode; right: FormulaNode; position: number; length: number }
+  | { kind: 'call'; name: string; args: FormulaNode[]; position: number; length: number };
+
+interface FormulaFunction {
+  minArgs: number;
+  maxArgs: number;
+  // Lazy functions receive unevaluated arguments so branches are only computed when taken
+  lazy?: boolean;
+  evaluate: (args: any[], node: FormulaNode, evaluateNode: (node: FormulaNode) => FormulaValue) => FormulaValue;
+}
+
+const MAX_FORMULA_LENGTH = 5000;
+const MAX_NESTING_DEPTH = 100;
+
+const OPERATORS = ['<=', '>=', '!=', '<>', '==', '&&', '||', '+', '-', '*', '/', '%', '^', '<', '>', '=', '!', '&'];
+
+const COMPARISON_OPERATORS = ['=', '==', '!=', '<>', '<', '<=', '>', '>='];
+
+const MS_PER_UNIT: Record<string, number> = {
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+  weeks: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Error raised while parsing or evaluating a formula.
+ * `position` is the zero-based character offset of the offending token.
+ */
+export class FormulaError extends Error {
+  position: number;
+  length: number;
+
+  constructor(message: string, position: number, length: number = 1) {
+    super(message);
+    this.name = 'FormulaError';
+    this.position = position;
+    this.length = length;
+  }
+
+  toJSON(): IFormulaError {
+    return {
+      message: this.message,
+      position: this.position,
+      length: this.length
+    };
+  }
+}
+
+export class FormulaEvaluator {
+
+  private static functions: Record<string, FormulaFunction> = {
+    // Aggregates flatten list arguments (e.g. checkbox answers) and ignore blanks
+    SUM: {
+      minArgs: 1, maxArgs: Infinity,
+      evaluate: (args, node) => FormulaEvaluator.numbers(args, node).reduce((total, value) => total + value, 0)
+    },
+    AVG: {
+      minArgs: 1, maxArgs: Infinity,
+      evaluate: (args, node) => {
+        const values = FormulaEvaluator.numbers(args, node);
+        return values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : 0;
+      }
+    },
+    MIN: {
+      minArgs: 1, maxArgs: Infinity,
+      evaluate: (args, node) => {
+        const values = FormulaEvaluator.numbers(args, node);
+        return values.length > 0 ? Math.min(...values) : 0;
+      }
+    },
+    MAX: {
+      minArgs: 1, maxArgs: Infinity,
+      evaluate: (args, node) => {
+        const values = FormulaEvaluator.numbers(args, node);
+        return values.length > 0 ? Math.max(...values) : 0;
+      }
+    },
+    COUNT: {
+      minArgs: 1, maxArgs: Infinity,
+      evaluate: (args) => FormulaEvaluator.flatten(args).filter(value => !FormulaEvaluator.isBlank(value)).length
+    },
+    ROUND: {
+      minArgs: 1, maxArgs: 2,
+      evaluate: (args, node) => {
+        const value = FormulaEvaluator.toNumber(args[0], node);
+        const decimals = args.length > 1 ? Math.trunc(FormulaEvaluator.toNumber(args[1], node)) : 0;
+        const factor = Math.pow(10, decimals);
+        // Round half away from zero, nudging values like 1.005 that binary floats store just below the midpoint
+        return Math.sign(value) * Math.round(Math.abs(value) * factor * (1 + Number.EPSILON)) / factor;
+      }
+    },
+    FLOOR: { minArgs: 1, maxArgs: 1, evaluate: (args, node) => Math.floor(FormulaEvaluator.toNumber(args[0], node)) },
+    CEIL: { minArgs: 1, maxArgs: 1, evaluate: (args, node) => Math.ceil(FormulaEvaluator.toNumber(args[0], node)) },
+    ABS: { minArgs: 1, maxArgs: 1, evaluate: (args, node) => Math.abs(FormulaEvaluator.toNumber(args[0], node)) },
+    SQRT: {
+      minArgs: 1, maxArgs: 1,
+      evaluate: (args, node) => {
+        const value = FormulaEvaluator.toNumber(args[0], node);
+        if (value < 0) {
+          throw new FormulaError('SQRT of a negative number', node.position, node.length);
+        }
+        return Math.sqrt(value);
+      }
+    },
+    POW: {
+      minArgs: 2, maxArgs: 2,
+      evaluate: (args, node) => Math.pow(FormulaEvaluator.toNumber(args[0], node), FormulaEvaluator.toNumber(args[1], node))
+    },
+    MOD: {
+      minArgs: 2, maxArgs: 2,
+      evaluate: (args, node) => {
+        const divisor = FormulaEvaluator.toNumber(args[1], node);
+        if (divisor === 0) {
+          throw new FormulaError('Division by zero', node.position, node.length);
+        }
+        return FormulaEvaluator.toNumber(args[0], node) % divisor;
+      }
+    },
+
+    // Logical
+    IF: {
+      minArgs: 2, maxArgs: 3, lazy: true,
+      evaluate: (args: FormulaNode[], node, evaluateNode) => {
+        if (FormulaEvaluator.toBoolean(evaluateNode(args[0]))) {
+          return evaluateNode(args[1]);
+        }
+        return args.length > 2 ? evaluateNode(args[2]) : false;
+      }
+    },
+    AND: { minArgs: 1, maxArgs: Infinity, evaluate: (args) => args.every(value => FormulaEvaluator.toBoolean(value)) },
+    OR: { minArgs: 1, maxArgs: Infinity, evaluate: (args) => args.some(value => FormulaEvaluator.toBoolean(value)) },
+    NOT: { minArgs: 1, maxArgs: 1, evaluate: (args) => !FormulaEvaluator.toBoolean(args[0]) },
+    ISBLANK: { minArgs: 1, maxArgs: 1, evaluate: (args) => FormulaEvaluator.isBlank(args[0]) },
+
+    // Text
+    CONCAT: { minArgs: 1, maxArgs: Infinity, evaluate: (args) => args.map(value => FormulaEvaluator.toText(value)).join('') },
+    LEN: { minArgs: 1, maxArgs: 1, evaluate: (args) => FormulaEvaluator.toText(args[0]).length },
+    UPPER: { minArgs: 1, maxArgs: 1, evaluate: (args) => FormulaEvaluator.toText(args[0]).toUpperCase() },
+    LOWER: { minArgs: 1, maxArgs: 1, evaluate: (args) => FormulaEvaluator.toText(args[0]).toLowerCase() },
+    TRIM: { minArgs: 1, maxArgs: 1, evaluate: (args) => FormulaEvaluator.toText(args[0]).trim() },
+    LEFT: {
+      minArgs: 1, maxArgs: 2,
+      evaluate: (args, node) => {
+        const count = args.length > 1 ? Math.max(0, Math.trunc(FormulaEvaluator.toNumber(args[1], node))) : 1;
+        return FormulaEvaluator.toText(args[0]).slice(0, count);
+      }
+    },
+    RIGHT: {
+      minArgs: 1, maxArgs: 2,
+      evaluate: (args, node) => {
+        const count = args.length > 1 ? Math.max(0, Math.trunc(FormulaEvaluator.toNumber(args[1], node))) : 1;
+        const text = FormulaEvaluator.toText(args[0]);
+        return count === 0 ? '' : text.slice(-count);
+      }
+    },
+    CONTAINS: {
+      minArgs: 2, maxArgs: 2,
+      evaluate: (args) => FormulaEvaluator.toText(args[0]).toLowerCase().includes(FormulaEvaluator.toText(args[1]).toLowerCase())
+    },
+    VALUE: { minArgs: 1, maxArgs: 1, evaluate: (args, node) => FormulaEvaluator.toNumber(args[0], node) },
+
+    // Dates
+    TODAY: {
+      minArgs: 0, maxArgs: 0,
+      evaluate: () => {
+        const now = new Date();
+        return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+      }
+    },
+    NOW: { minArgs: 0, maxArgs: 0, evaluate: () => new Date() },
+    DATE: {
+      minArgs: 3, maxArgs: 3,
+      evaluate: (args, node) => new Date(Date.UTC(
+        FormulaEvaluator.toNumber(args[0], node),
+        FormulaEvaluator.toNumber(args[1], node) - 1,
+        FormulaEvaluator.toNumber(args[2], node)
+      ))
+    },
+    YEAR: { minArgs: 1, maxArgs: 1, evaluate: (args, node) => FormulaEvaluator.toDate(args[0], node).getUTCFullYear() },
+    MONTH: { minArgs: 1, maxArgs: 1, evaluate: (args, node) => FormulaEvaluator.toDate(args[0], node).getUTCMonth() + 1 },
+    DAY: { minArgs: 1, maxArgs: 1, evaluate: (args, node) => FormulaEvaluator.toDate(args[0], node).getUTCDate() },
+    ADDDAYS: {
+      minArgs: 2, maxArgs: 2,
+      evaluate: (args, node) => new Date(
+        FormulaEvaluator.toDate(args[0], node).getTime() + FormulaEvaluator.toNumber(args[1], node) * MS_PER_UNIT.days
+      )
+    },
+    DATEDIFF: {
+      minArgs: 2, maxArgs: 3,
+      evaluate: (args, node) => {
+        const end = FormulaEvaluator.toDate(args[0], node);
+        const start = FormulaEvaluator.toDate(args[1], node);
+        const unit = args.length > 2 ? FormulaEvaluator.toText(args[2]).toLowerCase() : 'days';
+
+        if (unit === 'months' || unit === 'years') {
+          const months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + (end.getUTCMonth() - start.getUTCMonth()) -
+            (end.getUTCDate() < start.getUTCDate() ? 1 : 0);
+          return unit === 'years' ? Math.trunc(months / 12) : months;
+        }
+
+        if (!MS_PER_UNIT[unit]) {
+          throw new FormulaError(`Unknown DATEDIFF unit "${unit}"`, node.position, node.length);
+        }
+
+        return Math.trunc((end.getTime() - start.getTime()) / MS_PER_UNIT[unit]);
+      }
+    }
+  };
+
+  private static aliases: Record<string, string> = {
+    AVERAGE: 'AVG',
+    CEILING: 'CEIL',
+    POWER: 'POW'
+  };
+
+  /**
+   * Names of all supported functions
+   * @returns Sorted function names including aliases
+   */
+  static getSupportedFunctions(): string[] {
+    return [...Object.keys(this.functions), ...Object.keys(this.aliases)].sort();
+  }
+
+  /**
+   * Parse a formula into an AST
+   * @param formula - Formula source
+   * @returns Root node of the parsed expression
+   * @throws FormulaError with the position of the first syntax error
+   */
+  static parse(formula: string): FormulaNode {
+    if (formula.length > MAX_FORMULA_LENGTH) {
+      throw new FormulaError(`Formula cannot be longer than ${MAX_FORMULA_LENGTH} characters`, MAX_FORMULA_LENGTH);
+    }
+
+    const tokens = this.tokenize(formula);
+    if (tokens[0].type === 'eof') {
+      throw new FormulaError('Formula is empty', 0);
+    }
+
+    const parser = new Parser(tokens);
+    const node = parser.parseExpression();
+    parser.expectEnd();
+
+    return node;
+  }
+
+  /**
+   * Evaluate a formula or a previously parsed AST
+   * @param formula - Formula source or parsed AST
+   * @param resolveField - Returns the current value of a referenced field
+   * @returns Evaluated value
+   * @throws FormulaError on syntax or runtime errors
+   */
+  static evaluate(formula: string | FormulaNode, resolveField: FieldResolver): FormulaValue {
+    const ast = typeof formula === 'string' ? this.parse(formula) : formula;
+    return this.evaluateNode(ast, resolveField);
+  }
+
+  /**
+   * Validate a formula's syntax, functions and field references
+   * @param formula - Formula source
+   * @param knownFieldIds - Field IDs that may be referenced (skip the check when omitted)
+   * @returns Validation result with positioned errors
+   */
+  static validate(formula: string, knownFieldIds?: Set<string>): IFormulaValidation {
+    try {
+      const ast = this.parse(formula);
+      const fieldReferences = this.getFieldReferences(ast);
+      const errors: IFormulaError[] = [];
+
+      if (knownFieldIds) {
+        this.walk(ast, node => {
+          if (node.kind === 'field' && !knownFieldIds.has(node.fieldId)) {
+            errors.push(new FormulaError(`Unknown field "${node.fieldId}"`, node.position, node.length).toJSON());
+          }
+        });
+      }
+
+      return { isValid: errors.length === 0, errors, fieldReferences };
+    } catch (error) {
+      if (error instanceof FormulaError) {
+        return { isValid: false, errors: [error.toJSON()], fieldReferences: [] };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Collect the field IDs referenced by a formula
+   * @param formula - Formula source or parsed AST
+   * @returns Unique referenced field IDs in order of appearance
+   */
+  static getFieldReferences(formula: string | FormulaNode): string[] {
+    const ast = typeof formula === 'string' ? this.parse(formula) : formula;
+    const references = new Set<string>();
+
+    this.walk(ast, node => {
+      if (node.kind === 'field') {
+        references.add(node.fieldId);
+      }
+    });
+
+    return Array.from(references);
+  }
+
+  /**
+   * Coerce a value to a number
+   * Lists count their items, blanks are zero and formatted strings such as "$1,200" are accepted
+   * @param value - Value to coerce
+   * @param node - Node used for error positions
+   * @returns Numeric value
+   */
+  static toNumber(value: any, node?: FormulaNode): number {
+    if (typeof value === 'number') {
+      if (!isFinite(value)) {
+        throw new FormulaError('Result is not a finite number', node?.position ?? 0, node?.length ?? 1);
+      }
+      return value;
+    }
+
+    if (value === null || value === undefined || value === '') return 0;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (Array.isArray(value)) return value.length;
+
+    if (typeof value === 'string') {
+      const trimmed = value.trim();
+      const direct = Number(trimmed);
+      if (trimmed !== '' && !isNaN(direct)) return direct;
+
+      const cleaned = trimmed.replace(/[\s,$€£¥%]/g, '');
+      const parsed = Number(cleaned);
+      if (cleaned !== '' && !isNaN(parsed)) return parsed;
+    }
+
+    throw new FormulaError(
+      `Cannot use ${this.describe(value)} as a number`,
+      node?.position ?? 0,
+      node?.length ?? 1
+    );
+  }
+
+  /**
+   * Coerce a value to a boolean
+   * @param value - Value to coerce
+   * @returns Boolean value
+   */
+  static toBoolean(value: any): boolean {
+    if (Array.isArray(value)) return value.length > 0;
+    if (typeof value === 'string') {
+      const normalized = value.trim().toLowerCase();
+      return normalized !== '' && normalized !== 'false' && normalized !== '0';
+    }
+    return Boolean(value);
+  }
+
+  /**
+   * Coerce a value to text
+   * @param value - Value to coerce
+   * @returns Text value
+   */
+  static toText(value: any): string {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+    if (value instanceof Date) return value.toISOString().slice(0, 10);
+    if (Array.isArray(value)) return value.map(item => this.toText(item)).join(', ');
+    return String(value);
+  }
+
+  /**
+   * Coerce a value to a date
+   * @param value - Value to coerce
+   * @param node - Node used for error positions
+   * @returns Date value
+   */
+  static toDate(value: any, node?: FormulaNode): Date {
+    if (value instanceof Date && !isNaN(value.getTime())) return value;
+
+    if (typeof value === 'string' && value.trim() !== '') {
+      const parsed = new Date(value.trim());
+      if (!isNaN(parsed.getTime())) return parsed;
+    }
+
+    throw new FormulaError(
+      `Cannot use ${this.describe(value)} as a date`,
+      node?.position ?? 0,
+      node?.length ?? 1
+    );
+  }
+
+  // Tokenizer
+
+  private static tokenize(formula: string): Token[] {
+    const tokens: Token[] = [];
+    let index = 0;
+
+    while (index < formula.length) {
+      const char = formula[index];
+
+      if (/\s/.test(char)) {
+        index++;
+        continue;
+      }
+
+      // Field reference: {{fieldId}}
+      if (formula.startsWith('{{', index)) {
+        const end = formula.indexOf('}}', index + 2);
+        if (end === -1) {
+          throw new FormulaError('Unterminated field reference, expected "}}"', index, 2);
+        }
+        const fieldId = formula.slice(index + 2, end).trim();
+        if (!fieldId) {
+          throw new FormulaError('Empty field reference', index, end + 2 - index);
+        }
+        tokens.push({ type: 'field', value: fieldId, position: index, length: end + 2 - index });
+        index = end + 2;
+        continue;
+      }
+
+      const numberMatch = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(formula.slice(index));
+      if (numberMatch) {
+        tokens.push({ type: 'number', value: numberMatch[0], position: index, length: numberMatch[0].length });
+        index += numberMatch[0].length;
+        continue;
+      }
+
+      if (char === '"' || char === "'") {
+        let value = '';
+        let cursor = index + 1;
+        let closed = false;
+
+        while (cursor < formula.length) {
+          const current = formula[cursor];
+          if (current === '\\' && cursor + 1 < formula.length) {
+            value += formula[cursor + 1];
+            cursor += 2;
+            continue;
+          }
+          if (current === char) {
+            closed = true;
+            break;
+          }
+          value += current;
+          cursor++;
+        }
+
+        if (!closed) {
+          throw new FormulaError('Unterminated string literal', index, formula.length - index);
+        }
+
+        tokens.push({ type: 'string', value, position: index, length: cursor + 1 - index });
+        index = cursor + 1;
+        continue;
+      }
+
+      const identifierMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(formula.slice(index));
+      if (identifierMatch) {
+        tokens.push({ type: 'identifier', value: identifierMatch[0], position: index, length: identifierMatch[0].length });
+        index += identifierMatch[0].length;
+        continue;
+      }
+
+      if (char === '(' || char === ')' || char === ',') {
+        tokens.push({
+          type: char === '(' ? 'lparen' : char === ')' ? 'rparen' : 'comma',
+          value: char,
+          position: index,
+          length: 1
+        });
+        index++;
+        continue;
+      }
+
+      const operator = OPERATORS.find(op => formula.startsWith(op, index));
+      if (operator) {
+        tokens.push({ type: 'operator', value: operator, position: index, length: operator.length });
+        index += operator.length;
+        continue;
+      }
+
+      throw new FormulaError(`Unexpected character "${char}"`, index);
+    }
+
+    tokens.push({ type: 'eof', value: '', position: formula.length, length: 0 });
+    return tokens;
+  }
+
+  // Evaluation
+
+  private static evaluateNode(node: FormulaNode, resolveField: FieldResolver): FormulaValue {
+    const evaluateChild = (child: FormulaNode) => this.evaluateNode(child, resolveField);
+
+    switch (node.kind) {
+      case 'literal':
+        return node.value;
+
+      case 'field': {
+        const value = resolveField(node.fieldId);
+        return value === undefined ? null : value;
+      }
+
+      case 'unary': {
+        const operand = evaluateChild(node.operand);
+        if (node.operator === '!') return !this.toBoolean(operand);
+        const value = this.toNumber(operand, node.operand);
+        return node.operator === '-' ? -value : value;
+      }
+
+      case 'binary':
+        return this.evaluateBinary(node, evaluateChild);
+
+      case 'call': {
+        const fn = this.functions[node.name];
+        const args = fn.lazy ? node.args : node.args.map(evaluateChild);
+        return fn.evaluate(args, node, evaluateChild);
+      }
+    }
+  }
+
+  private static evaluateBinary(
+    node: Extract<FormulaNode, { kind: 'binary' }>,
+    evaluateChild: (node: FormulaNode) => FormulaValue
+  ): FormulaValue {
+    const { operator } = node;
+
+    // Short-circuit boolean operators
+    if (operator === '&&') {
+      return this.toBoolean(evaluateChild(node.left)) && this.toBoolean(evaluateChild(node.right));
+    }
+    if (operator === '||') {
+      return this.toBoolean(evaluateChild(node.left)) || this.toBoolean(evaluateChild(node.right));
+    }
+
+    const left = evaluateChild(node.left);
+    const right = evaluateChild(node.right);
+
+    if (operator === '&') {
+      return this.toText(left) + this.toText(right);
+    }
+
+    if (COMPARISON_OPERATORS.includes(operator)) {
+      const comparison = this.compare(left, right, node);
+      switch (operator) {
+        case '=':
+        case '==':
+          return comparison === 0;
+        case '!=':
+        case '<>':
+          return comparison !== 0;
+        case '<':
+          return comparison < 0;
+        case '<=':
+          return comparison <= 0;
+        case '>':
+          return comparison > 0;
+        default:
+          return comparison >= 0;
+      }
+    }
+
+    const a = this.toNumber(left, node.left);
+    const b = this.toNumber(right, node.right);
+
+    switch (operator) {
+      case '+':
+        return a + b;
+      case '-':
+        return a - b;
+      case '*':
+        return a * b;
+      case '/':
+      case '%':
+        if (b === 0) {
+          throw new FormulaError('Division by zero', node.right.position, node.right.length);
+        }
+        return operator === '/' ? a / b : a % b;
+      default: {
+        const result = Math.pow(a, b);
+        if (!isFinite(result)) {
+          throw new FormulaError('Result is not a finite number', node.position, node.length);
+        }
+        return result;
+      }
+    }
+  }
+
+  /**
+   * Compare two values; text compares case-insensitively, dates by time
+   */
+  private static compare(left: FormulaValue, right: FormulaValue, node: FormulaNode): number {
+    if (left instanceof Date || right instanceof Date) {
+      const a = this.toDate(left, node).getTime();
+      const b = this.toDate(right, node).getTime();
+      return a === b ? 0 : a < b ? -1 : 1;
+    }
+
+    const leftIsText = typeof left === 'string' && !this.isNumeric(left);
+    const rightIsText = typeof right === 'string' && !this.isNumeric(right);
+
+    if (leftIsText || rightIsText || Array.isArray(left) || Array.isArray(right)) {
+      const a = this.toText(left).trim().toLowerCase();
+      const b = this.toText(right).trim().toLowerCase();
+      return a === b ? 0 : a < b ? -1 : 1;
+    }
+
+    const a = this.toNumber(left, node);
+    const b = this.toNumber(right, node);
+    return a === b ? 0 : a < b ? -1 : 1;
+  }
+
+  // Helpers
+
+  private static walk(node: FormulaNode, visit: (node: FormulaNode) => void): void {
+    visit(node);
+    if (node.kind === 'unary') {
+      this.walk(node.operand, visit);
+    } else if (node.kind === 'binary') {
+      this.walk(node.left, visit);
+      this.walk(node.right, visit);
+    } else if (node.kind === 'call') {
+      node.args.forEach(arg => this.walk(arg, visit));
+    }
+  }
+
+  private static flatten(values: any[]): any[] {
+    return values.reduce((flat: any[], value) => flat.concat(Array.isArray(value) ? this.flatten(value) : [value]), []);
+  }
+
+  private static numbers(values: any[], node: FormulaNode): number[] {
+    return this.flatten(values)
+      .filter(value => !this.isBlank(value))
+      .map(value => this.toNumber(value, node));
+  }
+
+  private static isBlank(value: any): boolean {
+    return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+  }
+
+  private static isNumeric(value: string): boolean {
+    return value.trim() !== '' && !isNaN(Number(value.trim()));
+  }
+
+  private static describe(value: any): string {
+    if (value instanceof Date) return 'a date';
+    if (typeof value === 'string') return `"${value.length > 20 ? value.slice(0, 20) + '…' : value}"`;
+    if (typeof value === 'number') return String(value);
+    return typeof value;
+  }
+
+  /**
+   * Resolve a function name, including aliases
+   * @param name - Function name as written
+   * @returns Canonical upper-case name, or null if unknown
+   */
+  static resolveFunctionName(name: string): string | null {
+    const upper = name.toUpperCase();
+    if (this.functions[upper]) return upper;
+    return this.aliases[upper] || null;
+  }
+
+  /**
+   * Arity limits for a canonical function name
+   */
+  static getFunctionArity(name: string): { minArgs: number; maxArgs: number } {
+    const { minArgs, maxArgs } = this.functions[name];
+    return { minArgs, maxArgs };
+  }
+}
+
+/**
+ * Recursive-descent parser, lowest to highest precedence:
+ * `||`, `&&`, comparison, `+ - &`, `* / %`, unary `- + !`, `^` (right-associative), primary
+ */
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parseExpression(): FormulaNode {
+    this.depth++;
+    if (this.depth > MAX_NESTING_DEPTH) {
+      const token = this.peek();
+      throw new FormulaError(`Formula is nested more than ${MAX_NESTING_DEPTH} levels deep`, token.position, token.length);
+    }
+
+    const node = this.parseOr();
+    this.depth--;
+    return node;
+  }
+
+  expectEnd(): void {
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw new FormulaError(
+        token.type === 'rparen' ? 'Unmatched ")"' : `Unexpected ${this.describe(token)}`,
+        token.position,
+        token.length
+      );
+    }
+  }
+
+  private parseOr(): FormulaNode {
+    return this.parseLeftAssociative(['||'], () => this.parseAnd());
+  }
+
+  private parseAnd(): FormulaNode {
+    return this.parseLeftAssociative(['&&'], () => this.parseComparison());
+  }
+
+  private parseComparison(): FormulaNode {
+    return this.parseLeftAssociative(COMPARISON_OPERATORS, () => this.parseAdditive());
+  }
+
+  private parseAdditive(): FormulaNode {
+    return this.parseLeftAssociative(['+', '-', '&'], () => this.parseMultiplicative());
+  }
+
+  private parseMultiplicative(): FormulaNode {
+    return this.parseLeftAssociative(['*', '/', '%'], () => this.parseUnary());
+  }
+
+  private parseUnary(): FormulaNode {
+    const token = this.peek();
+    if (token.type === 'operator' && ['-', '+', '!'].includes(token.value)) {
+      this.index++;
+      const operand = this.parseUnary();
+      return {
+        kind: 'unary',
+        operator: token.value,
+        operand,
+        position: token.position,
+        length: operand.position + operand.length - token.position
+      };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): FormulaNode {
+    const base = this.parsePrimary();
+    const token = this.peek();
+
+    if (token.type === 'operator' && token.value === '^') {
+      this.index++;
+      const exponent = this.parseUnary();
+      return {
+        kind: 'binary',
+        operator: '^',
+        left: base,
+        right: exponent,
+        position: base.position,
+        length: exponent.position + exponent.length - base.position
+      };
+    }
+
+    return base;
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value), position: token.position, length: token.length };
+
+      case 'string':
+        return { kind: 'literal', value: token.value, position: token.position, length: token.length };
+
+      case 'field':
+        return { kind: 'field', fieldId: token.value, position: token.position, length: token.length };
+
+      case 'identifier': {
+        if (this.peek().type === 'lparen') {
+          return this.parseCall(token);
+        }
+
+        const keyword = token.value.toUpperCase();
+        if (keyword === 'TRUE' || keyword === 'FALSE') {
+          return { kind: 'literal', value: keyword === 'TRUE', position: token.position, length: token.length };
+        }
+        if (keyword === 'NULL') {
+          return { kind: 'literal', value: null, position: token.position, length: token.length };
+        }
+
+        // Bare identifiers are field references, e.g. SUM(price, tax)
+        return { kind: 'field', fieldId: token.value, position: token.position, length: token.length };
+      }
+
+      case 'lparen': {
+        const inner = this.parseExpression();
+        const closing = this.peek();
+        if (closing.type !== 'rparen') {
+          throw new FormulaError('Expected ")" to close "("', closing.position, closing.length || 1);
+        }
+        this.index++;
+        return inner;
+      }
+
+      default:
+        throw new FormulaError(
+          token.type === 'eof' ? 'Unexpected end of formula' : `Unexpected ${this.describe(token)}`,
+          token.position,
+          token.length || 1
+        );
+    }
+  }
+
+  private parseCall(nameToken: Token): FormulaNode {
+    const name = FormulaEvaluator.resolveFunctionName(nameToken.value);
+    if (!name) {
+      throw new FormulaError(`Unknown function "${nameToken.value}"`, nameToken.position, nameToken.length);
+    }
+
+    this.index++; // consume '('
+    const args: FormulaNode[] = [];
+
+    if (this.peek().type !== 'rparen') {
+      for (;;) {
+        args.push(this.parseExpression());
+        const separator = this.peek();
+        if (separator.type === 'comma') {
+          this.index++;
+          continue;
+        }
+        if (separator.type !== 'rparen') {
+          throw new FormulaError(
+            `Expected "," or ")" in call to ${name}`,
+            separator.position,
+            separator.length || 1
+          );
+        }
+        break;
+      }
+    }
+
+    const closing = this.next();
+    const { minArgs, maxArgs } = FormulaEvaluator.getFunctionArity(name);
+
+    if (args.length < minArgs || args.length > maxArgs) {
+      const expected = minArgs === maxArgs
+        ? `${minArgs}`
+        : maxArgs === Infinity ? `at least ${minArgs}` : `${minArgs} to ${maxArgs}`;
+      throw new FormulaError(
+        `${name} expects ${expected} argument${expected === '1' ? '' : 's'} but got ${args.length}`,
+        nameToken.position,
+        closing.position + 1 - nameToken.position
+      );
+    }
+
+    return {
+      kind: 'call',
+      name,
+      args,
+      position: nameToken.position,
+      length: closing.position + 1 - nameToken.position
+    };
+  }
+
+  private parseLeftAssociative(operators: string[], parseOperand: () => FormulaNode): FormulaNode {
+    let left = parseOperand();
+
+    for (;;) {
+      const token = this.peek();
+      if (token.type !== 'operator' || !operators.includes(token.value)) {
+        return left;
+      }
+
+      this.index++;
+      const right = parseOperand();
+      left = {
+        kind: 'binary',
+        operator: token.value,
+        left,
+        right,
+        position: left.position,
+        length: right.position + right.length - left.position
+      };
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'eof') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private describe(token: Token): string {
+    switch (token.type) {
+      case 'eof':
+        return 'end of formula';
+      case 'number':
+        return `number ${token.value}`;
+      case 'string':
+        return 'string';
+      case 'field':
+        return `field reference {{${token.value}}}`;
+      case 'identifier':
+        return `"${token.value}"`;
+      default:
+        return `"${token.value}"`;
+    }
+  }
+}
+
+export default FormulaEvaluator;
@@ -0,0 +1,220 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+// @ts-ignore - json2csv doesn't have TypeScript definitions
+import { Parser } from 'json2csv';
+import GDPRAuditEntry from '../models/GDPRAuditEntry';
+import {
+  IGDPRAuditEntry,
+  IGDPRAuditFilters,
+  IGDPRAuditRecord,
+  IGDPRAuditVerification
+} from '../types';
+
+// previousHash of the first entry in the chain
+export const GDPR_AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+const MAX_APPEND_ATTEMPTS = 5;
+const VERIFY_BATCH_SIZE = 500;
+
+type AuditEntryContent = Pick<IGDPRAuditEntry,
+  'sequence' | 'action' | 'subjectId' | 'subjectEmailHash' | 'formId' | 'actorId' | 'requestId' | 'details' | 'recordedAt' | 'previousHash'>;
+
+/**
+ * GDPR Audit Service
+ * Keeps the append-only, hash-chained log of GDPR activity: consent, access, erasure and
+ * portability requests and retention runs. Each entry's hash covers its content and the previous
+ * entry's hash, so verifying the chain shows whether any entry was changed or removed.
+ */
+export class GDPRAuditService {
+  /**
+   * Append an entry to the audit log
+   * @param record - What happened and to whom
+   * @returns Stored entry
+   */
+  static async record(record: IGDPRAuditRecord): Promise<IGDPRAuditEntry> {
+    for (let attempt = 1; attempt <= MAX_APPEND_ATTEMPTS; attempt++) {
+      const last = await GDPRAuditEntry.findOne().sort({ sequence: -1 }).select('sequence hash').lean();
+      const content: AuditEntryContent = {
+        sequence: (last?.sequence || 0) + 1,
+        action: record.action,
+        subjectId: record.subjectId,
+        subjectEmailHash: record.subjectEmail ? this.hashEmail(record.subjectEmail) : undefined,
+        formId: record.formId ? new Types.ObjectId(record.formId.toString()) : undefined,
+        actorId: record.actorId ? new Types.ObjectId(record.actorId.toString()) : undefined,
+        requestId: record.requestId,
+        // Stored as plain JSON so the hash can be recomputed from what is read back
+        details: JSON.parse(JSON.stringify(record.details || {})),
+        recordedAt: new Date(),
+        previousHash: last?.hash || GDPR_AUDIT_GENESIS_HASH
+      };
+
+      try {
+        return await GDPRAuditEntry.create({ ...content, hash: this.computeHash(content) });
+      } catch (error: any) {
+        // Another entry took this sequence number; chain onto it instead
+        if (error?.code !== 11000 || attempt === MAX_APPEND_ATTEMPTS) throw error;
+      }
+    }
+
+    throw new Error('Could not append to the GDPR audit log');
+  }
+
+  /**
+   * List audit entries, newest first
+   * @param filters - Subject (user ID or email), form, action and date range
+   * @param page - Page number
+   * @param limit - Entries per page
+   * @returns Entries and total count
+   */
+  static async list(filters: IGDPRAuditFilters, page: number = 1, limit: number = 50): Promise<{ entries: IGDPRAuditEntry[]; total: number }> {
+    const query = this.buildQuery(filters);
+    const pageSize = Math.min(200, Math.max(1, limit));
+
+    const [entries, total] = await Promise.all([
+      GDPRAuditEntry.find(query).sort({ sequence: -1 }).skip((Math.max(1, page) - 1) * pageSize).limit(pageSize).lean(),
+      GDPRAuditEntry.countDocuments(query)
+    ]);
+
+    return { entries: entries as IGDPRAuditEntry[], total };
+  }
+
+  /**
+   * Export audit entries, oldest first, with their hashes so the chain can be checked independently
+   * @param filters - Subject, form, action and date range
+   * @param format - 'json' or 'csv'
+   * @returns File content, MIME type and name
+   */
+  static async export(filters: IGDPRAuditFilters, format: 'json' | 'csv'): Promise<{ content: string; mimeType: string; filename: string }> {
+    const entries = await GDPRAuditEntry.find(this.buildQuery(filters)).sort({ sequence: 1 }).lean();
+    const verification = await this.verify();
+    const filename = `gdpr-audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    if (format === 'csv') {
+      const parser = new Parser({
+        fields: ['sequence', 'recordedAt', 'action', 'subjectId', 'subjectEmailHash', 'formId', 'actorId', 'requestId', 'details', 'previousHash', 'hash']
+      });
+      const rows = entries.map(entry => ({
+        ...entry,
+        recordedAt: entry.recordedAt.toISOString(),
+        details: JSON.stringify(entry.details || {})
+      }));
+
+      return { content: parser.parse(rows), mimeType: 'text/csv', filename };
+    }
+
+    return {
+      content: JSON.stringify({
+        exportedAt: new Date(),
+        filters,
+        hashAlgorithm: 'sha256',
+        chainVerification: verification,
+        entries: entries.map(({ _id, ...entry }) => entry)
+      }, null, 2),
+      mimeType: 'application/json',
+      filename
+    };
+  }
+
+  /**
+   * Recompute the hash chain and report the first entry that does not match
+   * @returns Verification result
+   */
+  static async verify(): Promise<IGDPRAuditVerification> {
+    let previousHash = GDPR_AUDIT_GENESIS_HASH;
+    let expectedSequence = 1;
+    let checked = 0;
+
+    const cursor = GDPRAuditEntry.find().sort({ sequence: 1 }).lean().cursor({ batchSize: VERIFY_BATCH_SIZE });
+    for await (const entry of cursor) {
+      const failure = entry.sequence !== expectedSequence
+        ? `entry ${expectedSequence} is missing`
+        : entry.previousHash !== previousHash
+          ? 'previous hash does not match the entry before it'
+          : entry.hash !== this.computeHash(entry)
+            ? 'hash does not match the entry content'
+            : null;
+
+      if (failure) {
+        return { valid: false, checked, lastSequence: expectedSequence - 1, brokenAt: entry.sequence, reason: failure };
+      }
+
+      previousHash = entry.hash;
+      expectedSequence++;
+      checked++;
+    }
+
+    return { valid: true, checked, lastSequence: expectedSequence - 1 };
+  }
+
+  /**
+   * Hash an email the way subjects are stored
+   * @param email - Email address
+   * @returns Hex SHA-256 of the lowercased, trimmed address
+   */
+  static hashEmail(email: string): string {
+    return crypto.createHash('sha256').update(email.trim().toLowerCase()).digest('hex');
+  }
+
+  /**
+   * Compute an entry's hash from its content and the previous entry's hash
+   * @param entry - Entry content
+   * @returns Hex SHA-256
+   */
+  static computeHash(entry: AuditEntryContent): string {
+    const content = {
+      sequence: entry.sequence,
+      action: entry.action,
+      subjectId: entry.subjectId ?? null,
+      subjectEmailHash: entry.subjectEmailHash ?? null,
+      formId: entry.formId ? entry.formId.toString() : null,
+      actorId: entry.actorId ? entry.actorId.toString() : null,
+      requestId: entry.requestId ?? null,
+      details: entry.details || {},
+      recordedAt: new Date(entry.recordedAt).toISOString(),
+      previousHash: entry.previousHash
+    };
+
+    return crypto.createHash('sha256').update(this.canonicalize(content)).digest('hex');
+  }
+
+  // Helper methods
+
+  private static buildQuery(filters: IGDPRAuditFilters): Record<string, any> {
+    const query: Record<string, any> = {};
+
+    if (filters.subject) {
+      if (filters.subject.includes('@')) {
+        query.subjectEmailHash = this.hashEmail(filters.subject);
+      } else {
+        query.subjectId = filters.subject;
+      }
+    }
+    if (filters.formId) query.formId = new Types.ObjectId(filters.formId);
+    if (filters.action) query.action = filters.action;
+    if (filters.startDate || filters.endDate) {
+      query.recordedAt = {};
+      if (filters.startDate) query.recordedAt.$gte = filters.startDate;
+      if (filters.endDate) query.recordedAt.$lte = filters.endDate;
+    }
+
+    return query;
+  }
+
+  /**
+   * JSON with object keys sorted, so the same content always hashes the same
+   */
+  private static canonicalize(value: any): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.canonicalize(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      return `{${Object.keys(value).sort()
+        .filter(key => value[key] !== undefined)
+        .map(key => `${JSON.stringify(key)}:${this.canonicalize(value[key])}`)
+        .join(',')}}`;
+    }
+    return JSON.stringify(value ?? null);
+  }
+}
+
+export default GDPRAuditService;
@@ -1,8 +1,12 @@
 import { Types } from 'mongoose';
-import { IForm, IFormResponse, IUser } from '../types';
+import { GDPRAuditAction, IForm, IFormResponse, IGDPRAuditRecord, IUser } from '../types';
 import Form from '../models/Form';
+import FormActivity from '../models/FormActivity';
 import FormResponse from '../models/FormResponse';
 import User from '../models/User';
+import FieldEncryptionService from './FieldEncryptionService';
+import GDPRAuditService from './GDPRAuditService';
+import ConsentLedgerService, { ConsentLedgerError } from './ConsentLedgerService';
 import crypto from 'crypto';
 
 /**
@@ -12,10 +16,11 @@ import crypto from 'crypto';
 export class GDPRComplianceService {
 
   /**
-   * Record user consent for data processing
+   * Record user consent for data processing in the consent ledger
    * @param userId - User identifier
    * @param consentType - Type of consent
-   * @param consentData - Consent details
+   * @param consentData - Consent details; with a formId, the form's current consent wording is snapshotted,
+   *   and a responseId must belong to that form
    * @returns Consent record
    */
   static async recordConsent(
@@ -24,34 +29,59 @@ export class GDPRComplianceService {
     consentData: IGDPRConsentData
   ): Promise<IGDPRConsentRecord> {
     try {
-      const consentRecord: IGDPRConsentRecord = {
-        id: crypto.randomUUID(),
+      const form = consentData.formId
+        ? await Form.findById(consentData.formId).select('workspaceId settings.gdpr')
+        : null;
+      if (consentData.formId && !form) {
+        throw new ConsentLedgerError('Form not found');
+      }
+      // Consent can only be attached to a response of the same form
+      if (consentData.responseId) {
+        const responseExists = form
+          && Types.ObjectId.isValid(consentData.responseId)
+          && await FormResponse.exists({ _id: consentData.responseId, formId: form._id });
+        if (!responseExists) {
+          throw new ConsentLedgerError('Response not found for this form');
+        }
+      }
+
+      const record = await ConsentLedgerService.record({
+        consentId: crypto.randomUUID(),
+        userId,
+        consentType,
+        data: consentData,
+        formId: form?._id,
+        workspaceId: form?.workspaceId,
+        responseId: consentData.responseId,
+        version: form ? await ConsentLedgerService.getCurrentVersion(form) : null
+      });
+
+      return {
+        id: record.consentId,
         userId,
         consentType,
-        purpose: consentData.purpose,
-        legalBasis: consentData.legalBasis,
-        consentGiven: consentData.consentGiven,
-        consentTimestamp: new Date(),
-        ipAddress: consentData.ipAddress,
-        userAgent: consentData.userAgent,
-        consentMethod: consentData.consentMethod,
+        purpose: record.purpose,
+        legalBasis: record.legalBasis,
+        consentGiven: record.consentGiven,
+        consentTimestamp: record.consentedAt,
+        ipAddress: record.ipAddress,
+        userAgent: record.userAgent,
+        consentMethod: record.consentMethod,
         optInDetails: {
-          explicitConsent: consentData.explicitConsent || false,
-          consentText: consentData.consentText,
-          granularConsent: consentData.granularConsent || {},
-          parentalConsent: consentData.parentalConsent || false
+          explicitConsent: record.explicitConsent,
+          consentText: record.consentText,
+          granularConsent: record.granularConsent,
+          parentalConsent: record.parentalConsent
         },
-        dataCategories: consentData.dataCategories || [],
-        retentionPeriod: consentData.retentionPeriod || 365,
-        isActive: consentData.consentGiven,
+        dataCategories: record.dataCategories,
+        retentionPeriod: record.retentionPeriod,
+        isActive: record.consentGiven,
         revokedAt: null,
-        source: consentData.source || 'form_submission'
+        source: record.source,
+        formId: record.formId?.toString(),
+        responseId: record.responseId?.toString(),
+        version: record.version
       };
-
-      // Store consent record (in a real application, this would be stored in a dedicated consent collection)
-      console.log('GDPR Consent recorded:', consentRecord);
-
-      return consentRecord;
     } catch (error) {
       console.error('Error recording consent:', error);
       throw error;
@@ -59,25 +89,26 @@ export class GDPRComplianceService {
   }
 
   /**
-   * Revoke user consent
+   * Revoke user consent in the consent ledger
    * @param consentId - Consent record identifier
    * @param revocationData - Revocation details
-   * @returns Updated consent record
+   * @returns Revocation record
    */
   static async revokeConsent(
     consentId: string,
     revocationData: IGDPRRevocationData
   ): Promise<IGDPRConsentRecord> {
     try {
-      // In a real application, this would update the consent record in the database
-      const updatedConsent: IGDPRConsentRecord = {
+      const record = await ConsentLedgerService.revoke(consentId, revocationData);
+
+      return {
         id: consentId,
         userId: revocationData.userId,
-        consentType: 'data_processing',
+        consentType: record.consentType,
         purpose: 'revoked',
         legalBasis: 'consent',
         consentGiven: false,
-        consentTimestamp: new Date(),
+        consentTimestamp: record.consentedAt,
         ipAddress: revocationData.ipAddress,
         userAgent: revocationData.userAgent,
         consentMethod: this.mapRevocationMethodToConsentMethod(revocationData.revocationMethod),
@@ -90,13 +121,12 @@ export class GDPRComplianceService {
         dataCategories: [],
         retentionPeriod: 0,
         isActive: false,
-        revokedAt: new Date(),
-        source: 'consent_revocation'
+        revokedAt: record.revokedAt || null,
+        source: 'consent_revocation',
+        formId: record.formId?.toString(),
+        responseId: record.responseId?.toString(),
+        version: record.version
       };
-
-      console.log('GDPR Consent revoked:', updatedConsent);
-
-      return updatedConsent;
     } catch (error) {
       console.error('Error revoking consent:', error);
       throw error;
@@ -144,10 +174,14 @@ export class GDPRComplianceService {
       };
 
       // Log the access request
-      await this.logGDPRActivity(user._id.toString(), 'access_request', {
+      await this.logGDPRActivity('access_request', {
+        subjectId: user._id.toString(),
+        subjectEmail: user.email,
         requestId: accessResponse.requestId,
-        dataCategories: Object.keys(personalData),
-        requestedAt: new Date()
+        details: {
+          verificationMethod: requestData.verificationMethod,
+          dataCategories: Object.keys(personalData)
+        }
       });
 
       return accessResponse;
@@ -166,7 +200,8 @@ export class GDPRComplianceService {
     requestData: IGDPRErasureRequest
   ): Promise<IGDPRErasureResponse> {
     try {
-      const { email, userId, requestId, erasureScope } = requestData;
+      const { email, userId, erasureScope } = requestData;
+      const requestId = requestData.requestId || crypto.randomUUID();
 
       // Find user
       let user: any;
@@ -205,15 +240,19 @@ export class GDPRComplianceService {
       }
 
       // Log the erasure request
-      await this.logGDPRActivity(userIdStr, 'erasure_request', {
-        requestId: requestId || crypto.randomUUID(),
-        erasureScope,
-        erasureResults,
-        requestedAt: new Date()
+      await this.logGDPRActivity('erasure_request', {
+        subjectId: userIdStr,
+        subjectEmail: user.email,
+        requestId,
+        details: {
+          verificationMethod: requestData.verificationMethod,
+          erasureScope,
+          erasureResults
+        }
       });
 
       const erasureResponse: IGDPRErasureResponse = {
-        requestId: requestId || crypto.randomUUID(),
+        requestId,
         userId: userIdStr,
         email: user.email,
         requestDate: new Date(),
@@ -275,11 +314,15 @@ export class GDPRComplianceService {
       };
 
       // Log the portability request
-      await this.logGDPRActivity(user._id.toString(), 'portability_request', {
+      await this.logGDPRActivity('portability_request', {
+        subjectId: user._id.toString(),
+        subjectEmail: user.email,
         requestId: portabilityResponse.requestId,
-        exportFormat,
-        dataCategories: Object.keys(portableData),
-        requestedAt: new Date()
+        details: {
+          verificationMethod: requestData.verificationMethod,
+          exportFormat: portabilityResponse.exportFormat,
+          dataCategories: Object.keys(portableData)
+        }
       });
 
       return portabilityResponse;
@@ -439,12 +482,13 @@ export class GDPRComplianceService {
         createdAt: form.createdAt,
         responses: form.analytics.submissions
       })),
-      submissions: responses.map(response => ({
+      // The user owns these forms, so sensitive answers are included decrypted
+      submissions: await Promise.all(responses.map(async response => ({
         id: response._id,
         formId: response.formId,
         submittedAt: response.submittedAt,
-        responses: response.responses
-      }))
+        responses: await FieldEncryptionService.decryptAnswers(response.responses || {}, response._id)
+      })))
     };
   }
 
@@ -453,7 +497,7 @@ export class GDPRComplianceService {
     const forms = await Form.find({ userId });
     const userSubmissions = await FormResponse.find({
       'metadata.userId': userId
-    });
+    }).populate('formId', 'title fields userId workspaceId');
 
     return {
       forms: forms.map(form => ({
@@ -462,10 +506,16 @@ export class GDPRComplianceService {
         fields: form.fields,
         customization: form.customization
       })),
-      submissions: userSubmissions.map(response => ({
-        formTitle: response.formId,
-        submittedAt: response.submittedAt,
-        responses: response.responses
+      // Sensitive answers are decrypted only if the user may view the form's responses
+      submissions: await Promise.all(userSubmissions.map(async response => {
+        const form: any = response.formId;
+        return {
+          formTitle: form?.title,
+          submittedAt: response.submittedAt,
+          responses: form
+            ? await FieldEncryptionService.revealForUser(form, response.responses || {}, response._id, userId)
+            : FieldEncryptionService.redactAnswers(response.responses || {})
+        };
       }))
     };
   }
@@ -558,6 +608,8 @@ export class GDPRComplianceService {
           }
         }
       );
+      const formIds = await Form.find({ userId }).distinct('_id');
+      await FormActivity.deleteMany({ formId: { $in: formIds } });
 
       return {
         dataCategory: 'analytics_data',
@@ -609,14 +661,8 @@ export class GDPRComplianceService {
     return `<data>\n${xml}\n</data>`;
   }
 
-  private static async logGDPRActivity(userId: string, activity: string, details: any): Promise<void> {
-    // In a real application, this would log to a dedicated GDPR audit log
-    console.log('GDPR Activity:', {
-      userId,
-      activity,
-      details,
-      timestamp: new Date()
-    });
+  private static async logGDPRActivity(action: GDPRAuditAction, record: Omit<IGDPRAuditRecord, 'action'>): Promise<void> {
+    await GDPRAuditService.record({ action, ...record });
   }
 
   private static determineProcessingPurpose(form: any): string[] {
@@ -780,10 +826,14 @@ export interface IGDPRConsentData {
   dataCategories?: string[];
   retentionPeriod?: number;
   source?: string;
+  // Form whose consent wording was shown, and the response it was given with
+  formId?: string;
+  responseId?: string;
 }
 
 export interface IGDPRConsentRecord extends IGDPRConsentData {
   id: string;
+  version?: number;
   userId: string;
   consentType: IGDPRConsentType;
   consentTimestamp: Date;
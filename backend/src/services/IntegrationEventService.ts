@@ -0,0 +1,258 @@
+import { v4 as uuidv4 } from 'uuid';
+import Form from '../models/Form';
+import Integration from '../models/Integration';
+import PartialSubmission from '../models/PartialSubmission';
+import JobQueueService from './JobQueueService';
+import FieldEncryptionService from './FieldEncryptionService';
+import FormNotificationService from './FormNotificationService';
+import ResponseAccessService from './ResponseAccessService';
+import SavedViewService from './SavedViewService';
+import { IForm, IFormResponse, IIntegration, IIntegrationEvent, IJob, IJobHandlerResult, TriggerEvent } from '../types';
+
+export const INTEGRATION_DISPATCH_JOB = 'integration.dispatch';
+export const INTEGRATION_DELIVER_JOB = 'integration.deliver';
+export const ABANDONMENT_CHECK_JOB = 'integration.check_abandoned';
+
+interface IEventDetails {
+  responseId?: string;
+  sessionId?: string;
+  responses?: Record<string, any>;
+  calculatedValues?: IIntegrationEvent['calculatedValues'];
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Integration Event Service
+ * Records form events in the job queue and fans them out to matching integrations
+ */
+export class IntegrationEventService {
+
+  /**
+   * Register the queue handlers used for integration events
+   */
+  static registerHandlers(): void {
+    JobQueueService.registerHandler(INTEGRATION_DISPATCH_JOB, job => this.dispatch(job));
+    JobQueueService.registerHandler(INTEGRATION_DELIVER_JOB, job => this.deliver(job));
+    JobQueueService.registerHandler(ABANDONMENT_CHECK_JOB, job => this.checkAbandoned(job));
+  }
+
+  /**
+   * Record an event for background delivery to integrations
+   * Failures are logged rather than thrown so the request that caused the event still succeeds
+   * @param eventType - Event that happened
+   * @param form - Form the event belongs to
+   * @param details - Response data for the event
+   * @returns Queued dispatch job, or null if it could not be recorded
+   */
+  static async emit(eventType: TriggerEvent, form: Pick<IForm, '_id' | 'title'>, details: IEventDetails = {}): Promise<IJob | null> {
+    const event: IIntegrationEvent = {
+      eventId: uuidv4(),
+      eventType,
+      formId: form._id.toString(),
+      occurredAt: new Date(),
+      form: {
+        id: form._id.toString(),
+        title: form.title
+      },
+      responseId: details.responseId,
+      sessionId: details.sessionId,
+      responses: details.responses || {},
+      calculatedValues: details.calculatedValues,
+      metadata: details.metadata
+    };
+
+    try {
+      return await JobQueueService.enqueue(INTEGRATION_DISPATCH_JOB, event, {
+        dedupeKey: `event:${event.eventId}`,
+        priority: 1
+      });
+    } catch (error) {
+      console.error(`Error recording ${eventType} event for form ${event.formId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Record an event about a stored form response
+   * @param eventType - Event that happened
+   * @param form - Form the response belongs to
+   * @param response - Form response
+   * @returns Queued dispatch job, or null if it could not be recorded
+   */
+  static async emitForResponse(eventType: TriggerEvent, form: Pick<IForm, '_id' | 'title'>, response: IFormResponse): Promise<IJob | null> {
+    return this.emit(eventType, form, {
+      responseId: response._id.toString(),
+      responses: response.responses,
+      calculatedValues: response.calculatedValues,
+      metadata: {
+        submittedAt: response.submittedAt,
+        ...((response.metadata as any)?.toObject?.() || response.metadata)
+      }
+    });
+  }
+
+  /**
+   * Prepare an event for delivery to an integration
+   * Events are queued with sensitive answers encrypted. They are decrypted only if the integration's
+   * owner may view the form's responses, and redacted otherwise; email integrations always get them
+   * redacted, since the mail outbox keeps message bodies.
+   * @param integration - Integration to deliver to
+   * @param event - Event as queued
+   * @returns Event to deliver, and the event to keep on the execution record when the two differ
+   */
+  static async revealForIntegration(
+    integration: IIntegration,
+    event: IIntegrationEvent
+  ): Promise<{ event: IIntegrationEvent; storedEvent?: IIntegrationEvent }> {
+    const form = await Form.findById(event.formId).select('fields userId workspaceId');
+    if (!form) {
+      return { event: { ...event, responses: FieldEncryptionService.redactAnswers(event.responses) } };
+    }
+
+    const allowed = integration.type !== 'email' && await ResponseAccessService.canAccess(form, integration.userId);
+    const responses = await FieldEncryptionService.revealAnswers(form, event.responses, event.responseId, allowed);
+    const decrypted = allowed && responses !== event.responses;
+
+    return { event: { ...event, responses }, storedEvent: decrypted ? event : undefined };
+  }
+
+  /**
+   * Schedule a check that reports a started session as abandoned once it goes quiet
+   * @param formId - Form identifier
+   * @param sessionId - Partial submission session
+   */
+  static async scheduleAbandonmentCheck(formId: string, sessionId: string): Promise<void> {
+    try {
+      await JobQueueService.enqueue(ABANDONMENT_CHECK_JOB, { formId, sessionId }, {
+        delayMs: this.getAbandonmentWindow(),
+        dedupeKey: `abandon:${formId}:${sessionId}`
+      });
+    } catch (error) {
+      console.error(`Error scheduling abandonment check for session ${sessionId}:`, error);
+    }
+  }
+
+  // Job handlers
+
+  /**
+   * Fan an event out to email notifications and one delivery job per matching integration
+   */
+  private static async dispatch(job: IJob): Promise<IJobHandlerResult> {
+    const event = job.payload as IIntegrationEvent;
+
+    // Owner notifications and autoresponders are queued once per event, even when dispatch is retried
+    if (event.eventType === 'form_submitted') {
+      await FormNotificationService.queueForSubmission(event);
+    }
+
+    const integrations = await Integration.findActiveForForm(event.formId, event.eventType);
+    const matchedViewIds = await this.findMatchingViews(event, integrations);
+
+    for (const integration of integrations) {
+      const webhookSettings: any = integration.settings?.webhook || {};
+
+      await JobQueueService.enqueue(INTEGRATION_DELIVER_JOB, {
+        integrationId: integration._id.toString(),
+        deliveryId: uuidv4(),
+        matchedViewIds,
+        event
+      }, {
+        // Retrying a dispatch must not deliver twice to integrations already queued
+        dedupeKey: `delivery:${event.eventId}:${integration._id}`,
+        maxAttempts: (webhookSettings.retryAttempts ?? 3) + 1,
+        backoff: { strategy: 'exponential', delayMs: webhookSettings.retryDelay ?? 1000 }
+      });
+    }
+
+    return { result: { integrations: integrations.length } };
+  }
+
+  /**
+   * Deliver an event to a single integration; failures are retried by the queue
+   * and throttled deliveries are rescheduled without using up an attempt
+   */
+  private static async deliver(job: IJob): Promise<IJobHandlerResult> {
+    const { integrationId, deliveryId, matchedViewIds, event } = job.payload as {
+      integrationId: string;
+      deliveryId: string;
+      matchedViewIds?: string[];
+      event: IIntegrationEvent;
+    };
+    const integration = await Integration.findById(integrationId);
+
+    if (!integration || !integration.isActive) {
+      return { result: { skipped: true, reason: 'Integration no longer active' } };
+    }
+
+    const { event: delivered, storedEvent } = await this.revealForIntegration(integration, event);
+
+    const result = await (integration as any).execute(delivered, event.eventType, {
+      deliveryId,
+      attempt: job.attempts,
+      matchedViewIds,
+      storedEvent
+    });
+
+    // Over the rate limit: keep the event queued until the window frees up
+    if (result.throttled) {
+      return { rescheduleAt: result.retryAt, result: { throttled: true, reason: result.reason } };
+    }
+
+    return { result };
+  }
+
+  /**
+   * Emit form_abandoned for sessions that stopped saving without completing
+   */
+  private static async checkAbandoned(job: IJob): Promise<IJobHandlerResult> {
+    const { formId, sessionId } = job.payload;
+    const partial: any = await PartialSubmission.findOne({ formId, sessionId }).populate('formId', 'title fields');
+
+    // Completed submissions remove their partial; discarded ones were reported on delete
+    if (!partial || partial.isComplete || !partial.formId) {
+      return { result: { abandoned: false } };
+    }
+
+    const quietUntil = new Date(partial.lastSavedAt.getTime() + this.getAbandonmentWindow());
+    if (quietUntil > new Date()) {
+      return { rescheduleAt: quietUntil };
+    }
+
+    await this.emit('form_abandoned', partial.formId, {
+      sessionId,
+      // Unlike response events, a session has no response ID to decrypt its answers with
+      responses: FieldEncryptionService.redactAnswers(partial.responses, partial.formId),
+      metadata: {
+        lastSavedAt: partial.lastSavedAt,
+        progress: partial.progress?.percentage
+      }
+    });
+
+    return { result: { abandoned: true } };
+  }
+
+  /**
+   * Find the saved views used by the integrations' triggers that the event's response is in,
+   * once per dispatch so every delivery sees the response as it was when the event happened
+   */
+  private static async findMatchingViews(event: IIntegrationEvent, integrations: IIntegration[]): Promise<string[]> {
+    if (!event.responseId) return [];
+
+    const viewIds = new Set<string>();
+    integrations.forEach(integration => {
+      integration.triggers.forEach(trigger => {
+        if (trigger.event === event.eventType && trigger.isActive && trigger.conditions?.viewId) {
+          viewIds.add(trigger.conditions.viewId.toString());
+        }
+      });
+    });
+
+    return SavedViewService.findMatchingViews(event.formId, Array.from(viewIds), event.responseId);
+  }
+
+  private static getAbandonmentWindow(): number {
+    return parseInt(process.env.FORM_ABANDONMENT_MINUTES || '30', 10) * 60 * 1000;
+  }
+}
+
+export default IntegrationEventService;
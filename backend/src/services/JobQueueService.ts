@@ -0,0 +1,277 @@
+import os from 'os';
+import { Types } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import Job from '../models/Job';
+import { IJob, IJobEnqueueOptions, IJobHandlerResult } from '../types';
+
+export type JobHandler = (job: IJob) => Promise<IJobHandlerResult | void>;
+
+/**
+ * Job Queue Service
+ * Mongo-backed background job queue with retries, exponential backoff,
+ * dead-lettering and lease-based recovery of jobs interrupted by a restart
+ */
+export class JobQueueService {
+  private static handlers: Map<string, JobHandler> = new Map();
+  private static workerId: string = `${os.hostname()}:${process.pid}:${uuidv4().slice(0, 8)}`;
+  private static pollTimer: NodeJS.Timeout | null = null;
+  private static running = false;
+  private static activeJob: Promise<void> | null = null;
+
+  /**
+   * Register the handler for a job type
+   * @param type - Job type
+   * @param handler - Function processing jobs of this type; throwing schedules a retry
+   */
+  static registerHandler(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Add a job to the queue
+   * @param type - Job type
+   * @param payload - Job data
+   * @param options - Scheduling and retry options
+   * @returns Queued job (the existing job when the dedupe key was already used)
+   */
+  static async enqueue(type: string, payload: Record<string, any>, options: IJobEnqueueOptions = {}): Promise<IJob> {
+    const runAt = options.runAt || new Date(Date.now() + (options.delayMs || 0));
+    const job = {
+      type,
+      payload,
+      runAt,
+      priority: options.priority ?? 0,
+      maxAttempts: options.maxAttempts ?? 5,
+      backoff: {
+        strategy: options.backoff?.strategy || 'exponential',
+        delayMs: options.backoff?.delayMs ?? 30000,
+        maxDelayMs: options.backoff?.maxDelayMs ?? 6 * 60 * 60 * 1000
+      }
+    };
+
+    if (!options.dedupeKey) {
+      return Job.create(job);
+    }
+
+    const queued = await Job.findOneAndUpdate(
+      { dedupeKey: options.dedupeKey },
+      { $setOnInsert: { ...job, dedupeKey: options.dedupeKey, status: 'pending', attempts: 0 } },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+
+    return queued!;
+  }
+
+  /**
+   * Start polling for jobs in this process
+   * @param options - Poll interval and lease duration
+   */
+  static start(options: { pollIntervalMs?: number; leaseMs?: number } = {}): void {
+    if (this.running) return;
+
+    const pollIntervalMs = options.pollIntervalMs ?? parseInt(process.env.JOB_QUEUE_POLL_INTERVAL_MS || '2000', 10);
+    const leaseMs = options.leaseMs ?? parseInt(process.env.JOB_QUEUE_LEASE_MS || '300000', 10);
+
+    this.running = true;
+    console.log(`⚙️  Job worker ${this.workerId} started`);
+
+    const poll = async (): Promise<void> => {
+      if (!this.running) return;
+
+      try {
+        // Drain all due jobs before sleeping
+        while (this.running && await this.processNext(leaseMs)) {
+          // keep going
+        }
+      } catch (error) {
+        console.error('Job worker poll error:', error);
+      }
+
+      if (this.running) {
+        this.pollTimer = setTimeout(poll, pollIntervalMs);
+      }
+    };
+
+    this.pollTimer = setTimeout(poll, 0);
+  }
+
+  /**
+   * Stop polling and wait for the job in progress to finish
+   */
+  static async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    if (this.activeJob) {
+      await this.activeJob;
+    }
+  }
+
+  /**
+   * Claim and process the next due job
+   * @param leaseMs - How long the claim is held before another worker may take over
+   * @returns Whether a job was processed
+   */
+  static async processNext(leaseMs: number = 300000): Promise<boolean> {
+    const job = await this.claimNext(leaseMs);
+    if (!job) return false;
+
+    this.activeJob = this.runJob(job, leaseMs);
+    try {
+      await this.activeJob;
+    } finally {
+      this.activeJob = null;
+    }
+
+    return true;
+  }
+
+  /**
+   * Move a dead-lettered or cancelled job back into the queue
+   * @param jobId - Job identifier
+   * @returns Requeued job, or null if it was not dead-lettered or cancelled
+   */
+  static async requeue(jobId: string | Types.ObjectId): Promise<IJob | null> {
+    return Job.findOneAndUpdate(
+      { _id: jobId, status: { $in: ['dead_letter', 'cancelled'] } },
+      {
+        $set: { status: 'pending', attempts: 0, runAt: new Date() },
+        $unset: { lockedBy: 1, lockedUntil: 1, deadLetteredAt: 1, completedAt: 1 }
+      },
+      { new: true }
+    );
+  }
+
+  /**
+   * Cancel a job that has not started yet
+   * @param jobId - Job identifier
+   * @returns Cancelled job, or null if it was not pending
+   */
+  static async cancel(jobId: string | Types.ObjectId): Promise<IJob | null> {
+    return Job.findOneAndUpdate(
+      { _id: jobId, status: 'pending' },
+      { $set: { status: 'cancelled', completedAt: new Date() } },
+      { new: true }
+    );
+  }
+
+  // Helper methods
+
+  private static async claimNext(leaseMs: number): Promise<IJob | null> {
+    const now = new Date();
+
+    return Job.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'pending', runAt: { $lte: now } },
+          // Jobs whose worker died mid-run
+          { status: 'processing', lockedUntil: { $lt: now } }
+        ]
+      },
+      {
+        $set: {
+          status: 'processing',
+          lockedBy: this.workerId,
+          lockedUntil: new Date(now.getTime() + leaseMs),
+          startedAt: now
+        },
+        $inc: { attempts: 1 }
+      },
+      { sort: { priority: -1, runAt: 1 }, new: true }
+    );
+  }
+
+  private static async runJob(job: IJob, leaseMs: number): Promise<void> {
+    const handler = this.handlers.get(job.type);
+
+    if (!handler) {
+      await this.deadLetter(job, `No handler registered for job type "${job.type}"`);
+      return;
+    }
+
+    // Keep the lease alive while long-running handlers work
+    const heartbeat = setInterval(() => {
+      Job.updateOne(
+        { _id: job._id, lockedBy: this.workerId },
+        { $set: { lockedUntil: new Date(Date.now() + leaseMs) } }
+      ).catch(error => console.error(`Job ${job._id} heartbeat error:`, error));
+    }, Math.max(1000, Math.floor(leaseMs / 3)));
+
+    try {
+      const outcome = (await handler(job)) || {};
+
+      if (outcome.rescheduleAt) {
+        await Job.updateOne(
+          { _id: job._id, lockedBy: this.workerId },
+          {
+            $set: { status: 'pending', runAt: outcome.rescheduleAt, result: outcome.result },
+            $inc: { attempts: -1 },
+            $unset: { lockedBy: 1, lockedUntil: 1 }
+          }
+        );
+        return;
+      }
+
+      await Job.updateOne(
+        { _id: job._id, lockedBy: this.workerId },
+        {
+          $set: { status: 'completed', completedAt: new Date(), result: outcome.result },
+          $unset: { lockedBy: 1, lockedUntil: 1 }
+        }
+      );
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      console.error(`Job ${job._id} (${job.type}) attempt ${job.attempts} failed:`, message);
+
+      if (job.attempts >= job.maxAttempts) {
+        await this.deadLetter(job, message);
+      } else {
+        await this.scheduleRetry(job, message);
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private static async scheduleRetry(job: IJob, message: string): Promise<void> {
+    (job as any).recordFailure(message);
+    const delay = (job as any).getRetryDelay();
+
+    await Job.updateOne(
+      { _id: job._id, lockedBy: this.workerId },
+      {
+        $set: {
+          status: 'pending',
+          runAt: new Date(Date.now() + delay),
+          lastError: job.lastError,
+          errorHistory: job.errorHistory
+        },
+        $unset: { lockedBy: 1, lockedUntil: 1 }
+      }
+    );
+  }
+
+  private static async deadLetter(job: IJob, message: string): Promise<void> {
+    (job as any).recordFailure(message);
+    console.error(`Job ${job._id} (${job.type}) moved to dead letter after ${job.attempts} attempt(s)`);
+
+    await Job.updateOne(
+      { _id: job._id, lockedBy: this.workerId },
+      {
+        $set: {
+          status: 'dead_letter',
+          deadLetteredAt: new Date(),
+          lastError: job.lastError,
+          errorHistory: job.errorHistory
+        },
+        $unset: { lockedBy: 1, lockedUntil: 1 }
+      }
+    );
+  }
+}
+
+export default JobQueueService;
@@ -0,0 +1,178 @@
+import fs from 'fs';
+import { Types } from 'mongoose';
+import EmailMessage from '../models/EmailMessage';
+import JobQueueService from './JobQueueService';
+import FileStorageService from './FileStorageService';
+import { StoredFileNotFoundError } from './FileStorageBackends';
+import { createMailTransport } from './MailTransports';
+import {
+  EmailMessageKind,
+  IEmailMessage,
+  IJob,
+  IJobHandlerResult,
+  IMailAttachment,
+  IMailMessage,
+  IMailTransport,
+  MailTransportName
+} from '../types';
+
+export const MAIL_SEND_JOB = 'mail.send';
+
+interface IEmailMessageSource {
+  kind: EmailMessageKind;
+  formId?: string | Types.ObjectId;
+  responseId?: string | Types.ObjectId;
+  integrationId?: string | Types.ObjectId;
+  eventId?: string;
+  dedupeKey?: string;
+}
+
+/**
+ * Mail Service
+ * Records outgoing emails and sends them in the background through the configured transport
+ */
+export class MailService {
+  private static transport: IMailTransport | null = null;
+
+  /**
+   * Register the queue handler that sends emails
+   */
+  static registerHandlers(): void {
+    JobQueueService.registerHandler(MAIL_SEND_JOB, job => this.processJob(job));
+  }
+
+  /**
+   * Get the active transport, created from MAIL_TRANSPORT on first use
+   * Defaults to SMTP when SMTP_HOST is set, in-memory under test and .eml files otherwise
+   * @returns Mail transport
+   */
+  static getTransport(): IMailTransport {
+    if (!this.transport) {
+      const configured = process.env.MAIL_TRANSPORT as MailTransportName | undefined;
+      const fallback: MailTransportName = process.env.NODE_ENV === 'test'
+        ? 'memory'
+        : process.env.SMTP_HOST ? 'smtp' : 'file';
+
+      this.transport = createMailTransport(configured || fallback);
+    }
+
+    return this.transport;
+  }
+
+  /**
+   * Replace the transport, e.g. with an in-memory transport in tests
+   * @param transport - Transport to use, or null to recreate it from the environment
+   */
+  static setTransport(transport: IMailTransport | null): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Get the sender address used when a message does not set one
+   * @returns From address
+   */
+  static getDefaultFrom(): string {
+    return process.env.MAIL_FROM || 'Youform <no-reply@youform.com>';
+  }
+
+  /**
+   * Record an email and queue it for delivery
+   * @param message - Email content; `from` defaults to MAIL_FROM
+   * @param source - What the email is about, and an optional key that prevents queueing it twice
+   * @returns Stored message (the existing one when the dedupe key was already used)
+   */
+  static async queue(message: Omit<IMailMessage, 'from'> & { from?: string }, source: IEmailMessageSource): Promise<IEmailMessage> {
+    const document = {
+      ...source,
+      ...message,
+      from: message.from || this.getDefaultFrom(),
+      attachments: message.attachments || []
+    };
+
+    const emailMessage = source.dedupeKey
+      ? await EmailMessage.findOneAndUpdate(
+          { dedupeKey: source.dedupeKey },
+          { $setOnInsert: { ...document, status: 'queued', attempts: 0 } },
+          { upsert: true, new: true, setDefaultsOnInsert: true, runValidators: true }
+        )
+      : await EmailMessage.create(document);
+
+    if (emailMessage!.status === 'queued') {
+      await JobQueueService.enqueue(MAIL_SEND_JOB, { emailMessageId: emailMessage!._id.toString() }, {
+        dedupeKey: `mail:${emailMessage!._id}`,
+        maxAttempts: parseInt(process.env.MAIL_MAX_ATTEMPTS || '5', 10),
+        backoff: { strategy: 'exponential', delayMs: 60000 }
+      });
+    }
+
+    return emailMessage!;
+  }
+
+  /**
+   * Send a stored email through the transport and record the outcome
+   * @param emailMessage - Stored message
+   * @param finalAttempt - Whether a failure should mark the message as failed
+   * @returns Updated message; throws when sending failed
+   */
+  static async sendMessage(emailMessage: IEmailMessage, finalAttempt: boolean = true): Promise<IEmailMessage> {
+    const transport = this.getTransport();
+    emailMessage.attempts += 1;
+
+    try {
+      const result = await transport.send({
+        from: emailMessage.from,
+        to: emailMessage.to,
+        replyTo: emailMessage.replyTo,
+        subject: emailMessage.subject,
+        html: emailMessage.html,
+        text: emailMessage.text,
+        attachments: await this.getAvailableAttachments(emailMessage)
+      });
+
+      return await (emailMessage as any).markSent(transport.name, result.messageId, result.response);
+    } catch (error: any) {
+      await (emailMessage as any).recordFailure(transport.name, error.message || String(error), finalAttempt);
+      throw error;
+    }
+  }
+
+  // Job handlers
+
+  /**
+   * Send a queued email; failures are retried by the queue
+   */
+  private static async processJob(job: IJob): Promise<IJobHandlerResult> {
+    const emailMessage = await EmailMessage.findById(job.payload.emailMessageId);
+
+    if (!emailMessage || emailMessage.status !== 'queued') {
+      return { result: { skipped: true } };
+    }
+
+    const sent = await this.sendMessage(emailMessage, job.attempts >= job.maxAttempts);
+    return { result: { providerMessageId: sent.providerMessageId } };
+  }
+
+  // Helper methods
+
+  private static async getAvailableAttachments(emailMessage: IEmailMessage): Promise<IMailAttachment[]> {
+    const attachments: IMailAttachment[] = [];
+
+    // Files removed since the message was queued are skipped rather than failing every retry
+    for (const attachment of emailMessage.attachments || []) {
+      if (attachment.storageKey) {
+        try {
+          const content = await FileStorageService.readFile({ storageKey: attachment.storageKey, filename: attachment.filename });
+          attachments.push({ filename: attachment.filename, content, contentType: attachment.contentType });
+        } catch (error) {
+          if (!(error instanceof StoredFileNotFoundError)) throw error;
+        }
+      } else if (!attachment.path || fs.existsSync(attachment.path)) {
+        attachments.push({ filename: attachment.filename, path: attachment.path, contentType: attachment.contentType });
+      }
+    }
+
+    return attachments;
+  }
+}
+
+export default MailService;
@@ -0,0 +1,121 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import { v4 as uuidv4 } from 'uuid';
+import { IMailMessage, IMailSendResult, IMailTransport, MailTransportName } from '../types';
+
+/**
+ * Convert a message to nodemailer's format
+ */
+function toNodemailerMessage(message: IMailMessage) {
+  return {
+    from: message.from,
+    to: message.to,
+    replyTo: message.replyTo,
+    subject: message.subject,
+    html: message.html,
+    text: message.text,
+    attachments: (message.attachments || []).map(attachment => ({
+      filename: attachment.filename,
+      ...(attachment.content ? { content: attachment.content } : { path: attachment.path }),
+      contentType: attachment.contentType
+    }))
+  };
+}
+
+/**
+ * SMTP transport
+ * Sends through the server configured with SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER and SMTP_PASS
+ */
+export class SmtpMailTransport implements IMailTransport {
+  name: MailTransportName = 'smtp';
+  private transporter: Transporter;
+
+  constructor(options: { host?: string; port?: number; secure?: boolean; user?: string; pass?: string } = {}) {
+    const host = options.host ?? process.env.SMTP_HOST;
+    const port = options.port ?? parseInt(process.env.SMTP_PORT || '587', 10);
+    const user = options.user ?? process.env.SMTP_USER;
+    const pass = options.pass ?? process.env.SMTP_PASS;
+
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure: options.secure ?? (process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465),
+      ...(user && { auth: { user, pass } })
+    });
+  }
+
+  async send(message: IMailMessage): Promise<IMailSendResult> {
+    const info = await this.transporter.sendMail(toNodemailerMessage(message));
+    return { messageId: info.messageId, response: info.response };
+  }
+}
+
+/**
+ * File transport
+ * Writes each message as an .eml file to MAIL_FILE_DIR, for development and manual inspection
+ */
+export class FileMailTransport implements IMailTransport {
+  name: MailTransportName = 'file';
+  private transporter: Transporter;
+  private directory: string;
+
+  constructor(directory?: string) {
+    this.directory = directory || process.env.MAIL_FILE_DIR || path.join(process.cwd(), 'mail');
+    this.transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+  }
+
+  async send(message: IMailMessage): Promise<IMailSendResult> {
+    const info = await this.transporter.sendMail(toNodemailerMessage(message));
+    const filePath = path.join(this.directory, `${Date.now()}-${uuidv4()}.eml`);
+
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(filePath, info.message as Buffer);
+
+    return { messageId: info.messageId, response: `Written to ${filePath}` };
+  }
+}
+
+/**
+ * In-memory transport
+ * Keeps sent messages in `messages` so tests can assert on them
+ */
+export class MemoryMailTransport implements IMailTransport {
+  name: MailTransportName = 'memory';
+  messages: (IMailMessage & { messageId: string })[] = [];
+  // Set to make the next sends fail, for testing retries
+  failWith: string | null = null;
+
+  async send(message: IMailMessage): Promise<IMailSendResult> {
+    if (this.failWith) {
+      throw new Error(this.failWith);
+    }
+
+    const messageId = `<${uuidv4()}@memory>`;
+    this.messages.push({ ...message, messageId });
+    return { messageId, response: 'Stored in memory' };
+  }
+
+  clear(): void {
+    this.messages = [];
+    this.failWith = null;
+  }
+}
+
+/**
+ * Create a transport by name
+ * @param name - Transport name
+ * @returns Mail transport
+ */
+export function createMailTransport(name: MailTransportName): IMailTransport {
+  switch (name) {
+    case 'smtp':
+      return new SmtpMailTransport();
+    case 'file':
+      return new FileMailTransport();
+    case 'memory':
+      return new MemoryMailTransport();
+    default:
+      throw new Error(`Unknown mail transport: ${name}`);
+  }
+}
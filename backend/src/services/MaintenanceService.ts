@@ -0,0 +1,458 @@
+import mongoose, { Types } from 'mongoose';
+import Form from '../models/Form';
+import FormResponse from '../models/FormResponse';
+import Job from '../models/Job';
+import MaintenanceRun from '../models/MaintenanceRun';
+import PartialSubmission from '../models/PartialSubmission';
+import User from '../models/User';
+import Workspace from '../models/Workspace';
+import FieldEncryptionService from './FieldEncryptionService';
+import FileStorageService from './FileStorageService';
+import JobQueueService from './JobQueueService';
+import {
+  IJob,
+  IJobHandlerResult,
+  IMaintenanceContext,
+  IMaintenanceLogEntry,
+  IMaintenanceRun,
+  IStoredObject,
+  MaintenanceOperation,
+  MaintenanceRunStatus
+} from '../types';
+
+export const MAINTENANCE_JOB = 'admin.maintenance';
+
+const MAX_LOG_ENTRIES = 200;
+const BATCH_SIZE = 100;
+const HOUR_MS = 60 * 60 * 1000;
+const STALE_UNQUEUED_RUN_MS = 60 * 1000;
+const BYTES_PER_MB = 1024 * 1024;
+
+type ObjectIdLike = string | Types.ObjectId;
+type MaintenanceTask = (context: IMaintenanceContext) => Promise<Record<string, any>>;
+
+/**
+ * Thrown when a maintenance run cannot be started or cancelled as asked
+ */
+export class MaintenanceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MaintenanceError';
+  }
+}
+
+/**
+ * Thrown inside a run once an admin has asked for it to be cancelled
+ */
+class MaintenanceCancelledError extends Error {
+  constructor() {
+    super('Cancelled');
+    this.name = 'MaintenanceCancelledError';
+  }
+}
+
+/**
+ * Maintenance Service
+ * Runs admin maintenance operations as background jobs: removing expired partial submissions and
+ * uploads no response refers to, checking indexes, clearing caches and rolling up usage statistics.
+ * Each run is recorded with its progress, log and duration, only one copy of an operation can be
+ * queued or running at a time, and admins can cancel a run between batches.
+ */
+export class MaintenanceService {
+  private static tasks: Record<MaintenanceOperation, MaintenanceTask> = {
+    cleanup_expired_sessions: context => MaintenanceService.cleanupExpiredSessions(context),
+    cleanup_orphaned_uploads: context => MaintenanceService.cleanupOrphanedUploads(context),
+    optimize_database: context => MaintenanceService.optimizeDatabase(context),
+    clear_cache: context => MaintenanceService.clearCache(context),
+    generate_reports: context => MaintenanceService.generateReports(context)
+  };
+
+  /**
+   * Register the queue handler that runs maintenance operations
+   */
+  static registerHandlers(): void {
+    JobQueueService.registerHandler(MAINTENANCE_JOB, job => this.run(job));
+  }
+
+  /**
+   * Queue a maintenance operation
+   * @param operation - Operation to run
+   * @param userId - Admin who asked for it
+   * @returns Queued run
+   */
+  static async start(operation: MaintenanceOperation, userId: ObjectIdLike): Promise<IMaintenanceRun> {
+    await this.releaseStale(operation);
+
+    let run: IMaintenanceRun;
+    try {
+      run = await MaintenanceRun.create({ operation, active: true, requestedBy: userId });
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        throw new MaintenanceError(`A ${operation} run is already queued or running`);
+      }
+      throw error;
+    }
+
+    const job = await JobQueueService.enqueue(MAINTENANCE_JOB, { runId: run._id.toString() }, { maxAttempts: 1 });
+    run.jobId = job._id;
+    await run.save();
+
+    return run;
+  }
+
+  /**
+   * List maintenance runs, newest first
+   * @param options - Operation and status filters and paging
+   * @returns Runs without their logs, and total count
+   */
+  static async list(
+    options: { operation?: MaintenanceOperation; status?: MaintenanceRunStatus; page?: number; limit?: number } = {}
+  ): Promise<{ runs: IMaintenanceRun[]; total: number }> {
+    const query: Record<string, any> = {};
+    if (options.operation) query.operation = options.operation;
+    if (options.status) query.status = options.status;
+
+    const limit = Math.min(100, Math.max(1, options.limit || 20));
+    const page = Math.max(1, options.page || 1);
+
+    const [runs, total] = await Promise.all([
+      MaintenanceRun.find(query).select('-logs').sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit).lean(),
+      MaintenanceRun.countDocuments(query)
+    ]);
+
+    return { runs: runs as IMaintenanceRun[], total };
+  }
+
+  /**
+   * Get a maintenance run with its log
+   * @param runId - Run ID
+   * @returns Run, or null if not found
+   */
+  static async findById(runId: ObjectIdLike): Promise<IMaintenanceRun | null> {
+    return MaintenanceRun.findById(runId);
+  }
+
+  /**
+   * Cancel a run: a queued run is taken out of the queue, a running one stops after its current batch
+   * @param run - Run to cancel
+   * @param userId - Admin cancelling it
+   * @returns Updated run
+   */
+  static async cancel(run: IMaintenanceRun, userId: ObjectIdLike): Promise<IMaintenanceRun> {
+    if (!run.active) {
+      throw new MaintenanceError(`The run has already ${run.status === 'cancelled' ? 'been cancelled' : 'finished'}`);
+    }
+
+    const cancelledJob = run.status === 'queued' && run.jobId ? await JobQueueService.cancel(run.jobId) : null;
+    if (cancelledJob) {
+      await this.finish(run, 'cancelled', { cancelledBy: userId, cancelRequestedAt: new Date() }, 'Cancelled before it started');
+    } else {
+      // The worker has picked it up; it stops at its next check
+      await MaintenanceRun.updateOne(
+        { _id: run._id, active: true },
+        { $set: { cancelRequestedAt: new Date(), cancelledBy: userId } }
+      );
+    }
+
+    return (await MaintenanceRun.findById(run._id))!;
+  }
+
+  // Job handlers
+
+  private static async run(job: IJob): Promise<IJobHandlerResult> {
+    const run = await MaintenanceRun.findOne({ _id: job.payload.runId, active: true });
+    if (!run) return { result: { runId: job.payload.runId, skipped: true } };
+
+    const context = this.createContext(run._id);
+    if (run.status === 'running') {
+      await context.log('Restarted after the worker running it stopped', 'warn');
+    } else {
+      run.status = 'running';
+      run.startedAt = new Date();
+      await run.save();
+    }
+
+    try {
+      await context.checkCancelled();
+      const result = await this.tasks[run.operation](context);
+      await this.finish(run, 'completed', { result }, 'Completed');
+
+      return { result: { runId: run._id, ...result } };
+    } catch (error: any) {
+      if (error instanceof MaintenanceCancelledError) {
+        await this.finish(run, 'cancelled', {}, 'Cancelled');
+        return { result: { runId: run._id, cancelled: true } };
+      }
+
+      const message = error?.message || String(error);
+      await this.finish(run, 'failed', { error: message }, `Failed: ${message}`, 'error');
+      throw error;
+    }
+  }
+
+  // Operations
+
+  /**
+   * Delete partial submissions past their expiry or not saved for 30 days, as the scheduled cleanup does
+   */
+  private static async cleanupExpiredSessions(context: IMaintenanceContext): Promise<Record<string, any>> {
+    await context.checkCancelled();
+    const { deletedCount: deleted = 0 } = await PartialSubmission.cleanupExpired();
+    await context.progress(deleted, deleted);
+
+    await context.log(`Deleted ${deleted} partial submission(s)`);
+    return { deleted };
+  }
+
+  /**
+   * Delete stored response files that no response refers to, e.g. files of deleted responses or replaced answers
+   * Files newer than ORPHANED_UPLOAD_GRACE_HOURS are kept, as their response may still be being saved.
+   */
+  private static async cleanupOrphanedUploads(context: IMaintenanceContext): Promise<Record<string, any>> {
+    const cutoff = Date.now() - this.getUploadGraceHours() * HOUR_MS;
+    const totals = { scanned: 0, removed: 0, bytesRemoved: 0, skippedRecent: 0 };
+    let batch: IStoredObject[] = [];
+
+    const flush = async (): Promise<void> => {
+      if (batch.length === 0) return;
+      await context.checkCancelled();
+
+      const responseIds = Array.from(new Set(batch.map(object => FileStorageService.parseKey(object.key)!.responseId)));
+      const responses = await FormResponse.find({ _id: { $in: responseIds } }).select('responses').lean();
+      const referenced = new Set(responses.flatMap(response => FileStorageService.listFiles(response).map(file => file.storageKey)));
+
+      for (const object of batch) {
+        if (referenced.has(object.key)) continue;
+
+        await FileStorageService.removeFile({ storageKey: object.key, filename: FileStorageService.parseKey(object.key)!.filename });
+        totals.removed++;
+        totals.bytesRemoved += object.size;
+      }
+
+      // The number of stored files is not known up front
+      await context.progress(totals.scanned, 0);
+      batch = [];
+    };
+
+    for await (const object of FileStorageService.listStored('forms/')) {
+      totals.scanned++;
+      // Keys of another shape are not response files and are left alone
+      if (!FileStorageService.parseKey(object.key)) continue;
+      if (object.lastModified.getTime() > cutoff) {
+        totals.skippedRecent++;
+        continue;
+      }
+
+      batch.push(object);
+      if (batch.length >= BATCH_SIZE) await flush();
+    }
+    await flush();
+
+    await context.log(`Removed ${totals.removed} orphaned file(s) (${totals.bytesRemoved} bytes) of ${totals.scanned} scanned`);
+    return totals;
+  }
+
+  /**
+   * Compare each model's indexes with its schema, creating missing ones and reporting unexpected ones
+   * Unexpected indexes are not dropped, as they may have been added on purpose.
+   */
+  private static async optimizeDatabase(context: IMaintenanceContext): Promise<Record<string, any>> {
+    const modelNames = mongoose.modelNames();
+    const collections: Array<{ collection: string; documents: number; created: number; unexpected: string[] }> = [];
+
+    for (const [index, name] of modelNames.entries()) {
+      await context.checkCancelled();
+      const model = mongoose.model(name);
+      const collection = model.collection.collectionName;
+      const { toCreate, toDrop } = await model.diffIndexes();
+
+      if (toCreate.length > 0) {
+        await model.createIndexes();
+        await context.log(`Created ${toCreate.length} missing index(es) on ${collection}`);
+      }
+      if (toDrop.length > 0) {
+        await context.log(`${collection} has indexes not in its schema: ${toDrop.join(', ')}`, 'warn');
+      }
+
+      collections.push({
+        collection,
+        documents: await model.estimatedDocumentCount(),
+        created: toCreate.length,
+        unexpected: toDrop
+      });
+      await context.progress(index + 1, modelNames.length);
+    }
+
+    return {
+      collectionsChecked: collections.length,
+      indexesCreated: collections.reduce((sum, collection) => sum + collection.created, 0),
+      collections
+    };
+  }
+
+  /**
+   * Clear in-process caches of the server running the job
+   */
+  private static async clearCache(context: IMaintenanceContext): Promise<Record<string, any>> {
+    FieldEncryptionService.clearCache();
+    await context.log('Cleared the field encryption key cache');
+    await context.progress(1, 1);
+
+    return { cleared: ['field_encryption_keys'] };
+  }
+
+  /**
+   * Recount each form's submissions and each workspace's and user's forms, responses and storage,
+   * correcting counters that drifted from the stored data
+   */
+  private static async generateReports(context: IMaintenanceContext): Promise<Record<string, any>> {
+    const perForm = await FormResponse.aggregate([
+      {
+        $group: {
+          _id: '$formId',
+          responses: { $sum: 1 },
+          // Counted like the response hook does: valid and not quarantined as spam
+          submissions: { $sum: { $cond: [{ $and: [{ $eq: ['$isValid', true] }, { $ne: ['$status', 'spam'] }] }, 1, 0] } },
+          uploadBytes: { $sum: { $ifNull: ['$uploadSize', 0] } }
+        }
+      }
+    ]);
+    const formStats = new Map<string, { responses: number; submissions: number; uploadBytes: number }>(
+      perForm.map(stats => [stats._id.toString(), { responses: stats.responses, submissions: stats.submissions, uploadBytes: stats.uploadBytes }])
+    );
+
+    const workspaces = new Map<string, { forms: number; responses: number; uploadBytes: number }>();
+    const owners = new Map<string, { forms: number; responses: number; uploadBytes: number }>();
+    const total = await Form.countDocuments();
+    let processed = 0;
+    let formsCorrected = 0;
+
+    const cursor = Form.find().select('userId workspaceId analytics.submissions').lean().cursor({ batchSize: BATCH_SIZE });
+    for await (const form of cursor) {
+      const stats = formStats.get(form._id.toString()) || { responses: 0, submissions: 0, uploadBytes: 0 };
+      if ((form.analytics?.submissions || 0) !== stats.submissions) {
+        await Form.updateOne({ _id: form._id }, { $set: { 'analytics.submissions': stats.submissions } });
+        formsCorrected++;
+      }
+
+      // Storage is counted against the workspace, or the owner for forms outside a workspace
+      const totals = form.workspaceId ? workspaces : owners;
+      const key = (form.workspaceId || form.userId).toString();
+      const rollup = totals.get(key) || { forms: 0, responses: 0, uploadBytes: 0 };
+      rollup.forms++;
+      rollup.responses += stats.responses;
+      rollup.uploadBytes += stats.uploadBytes;
+      totals.set(key, rollup);
+
+      if (++processed % BATCH_SIZE === 0) {
+        await context.checkCancelled();
+        await context.progress(processed, total);
+      }
+    }
+    await context.progress(processed, total);
+    await context.checkCancelled();
+
+    for (const [workspaceId, rollup] of Array.from(workspaces.entries())) {
+      await Workspace.updateOne({ _id: workspaceId }, {
+        $set: {
+          'analytics.totalForms': rollup.forms,
+          'analytics.totalResponses': rollup.responses,
+          'analytics.storageUsed': rollup.uploadBytes / BYTES_PER_MB
+        }
+      });
+    }
+    await Workspace.updateMany(
+      { _id: { $nin: Array.from(workspaces.keys()) } },
+      { $set: { 'analytics.totalForms': 0, 'analytics.totalResponses': 0, 'analytics.storageUsed': 0 } }
+    );
+
+    for (const [userId, rollup] of Array.from(owners.entries())) {
+      await User.updateOne({ _id: userId }, { $set: { 'usage.storageUsed': rollup.uploadBytes / BYTES_PER_MB } });
+    }
+    await User.updateMany(
+      { _id: { $nin: Array.from(owners.keys()) }, 'usage.storageUsed': { $gt: 0 } },
+      { $set: { 'usage.storageUsed': 0 } }
+    );
+
+    const responses = Array.from(formStats.values()).reduce((sum, stats) => sum + stats.responses, 0);
+    const uploadBytes = Array.from(formStats.values()).reduce((sum, stats) => sum + stats.uploadBytes, 0);
+    await context.log(`Rolled up ${processed} form(s) and ${responses} response(s); corrected ${formsCorrected} submission count(s)`);
+
+    return {
+      forms: processed,
+      responses,
+      storageUsedMB: uploadBytes / BYTES_PER_MB,
+      workspaces: workspaces.size,
+      formsCorrected
+    };
+  }
+
+  // Helper methods
+
+  private static createContext(runId: Types.ObjectId): IMaintenanceContext {
+    return {
+      log: async (message, level = 'info') => {
+        await MaintenanceRun.updateOne({ _id: runId }, { $push: { logs: this.getLogPush(message, level) } });
+      },
+      progress: async (processed, total) => {
+        const percent = total > 0 ? Math.min(100, Math.round((processed / total) * 100)) : 0;
+        await MaintenanceRun.updateOne({ _id: runId }, { $set: { progress: { processed, total, percent } } });
+      },
+      checkCancelled: async () => {
+        if (await MaintenanceRun.exists({ _id: runId, cancelRequestedAt: { $ne: null } })) {
+          throw new MaintenanceCancelledError();
+        }
+      }
+    };
+  }
+
+  private static async finish(
+    run: IMaintenanceRun,
+    status: MaintenanceRunStatus,
+    update: Record<string, any>,
+    message: string,
+    level: IMaintenanceLogEntry['level'] = 'info'
+  ): Promise<void> {
+    const completedAt = new Date();
+
+    await MaintenanceRun.updateOne(
+      { _id: run._id },
+      {
+        $set: {
+          ...update,
+          status,
+          completedAt,
+          durationMs: run.startedAt ? completedAt.getTime() - run.startedAt.getTime() : 0
+        },
+        $unset: { active: 1 },
+        $push: { logs: this.getLogPush(message, level) }
+      }
+    );
+  }
+
+  private static getLogPush(message: string, level: IMaintenanceLogEntry['level']): Record<string, any> {
+    return { $each: [{ at: new Date(), level, message }], $slice: -MAX_LOG_ENTRIES };
+  }
+
+  /**
+   * Close an active run whose job can no longer run it, so it does not block the operation forever
+   */
+  private static async releaseStale(operation: MaintenanceOperation): Promise<void> {
+    const run = await MaintenanceRun.findOne({ operation, active: true });
+    if (!run) return;
+    // A run without a job yet may still be being queued
+    if (!run.jobId && Date.now() - run.createdAt.getTime() < STALE_UNQUEUED_RUN_MS) return;
+
+    const job = run.jobId ? await Job.findById(run.jobId).select('status lastError') : null;
+    if (job && !['dead_letter', 'cancelled', 'completed'].includes(job.status)) return;
+
+    await this.finish(run, 'failed', { error: job?.lastError || 'The job running it was lost' }, 'Closed: the job running it had stopped', 'error');
+  }
+
+  private static getUploadGraceHours(): number {
+    const hours = parseFloat(process.env.ORPHANED_UPLOAD_GRACE_HOURS || '24');
+    return Number.isFinite(hours) && hours >= 0 ? hours : 24;
+  }
+}
+
+export default MaintenanceService;
@@ -0,0 +1,155 @@
+import FileStorageService from './FileStorageService';
+import { IFormField, IIntegrationEvent, INotificationAnswer, IUploadedFile } from '../types';
+
+// Field types that never carry an answer worth sending in a notification
+const SKIPPED_FIELD_TYPES = ['password', 'divider', 'heading', 'paragraph', 'image', 'video', 'audio'];
+
+/**
+ * Notification Template Service
+ * Renders form answers into notification text with {{field}} placeholders,
+ * shared by chat messages and emails
+ */
+export class NotificationTemplateService {
+
+  /**
+   * Replace {{field}} placeholders with answers
+   * Placeholders match a field id or label (case-insensitive), a calculated field id,
+   * or one of form.title, form.id, responseId, responseUrl, event and submittedAt
+   * @param template - Template text
+   * @param event - Event to render
+   * @param fields - Form fields
+   * @param includeAttachments - Whether file answers include their download link
+   * @param escapeValue - Escapes substituted values for the target format's markup
+   * @returns Rendered text; unknown placeholders render as empty strings
+   */
+  static renderTemplate(
+    template: string,
+    event: IIntegrationEvent,
+    fields: IFormField[] = [],
+    includeAttachments: boolean = false,
+    escapeValue: (value: string) => string = value => value
+  ): string {
+    const builtIns: Record<string, string | undefined> = {
+      'form.title': event.form.title,
+      'form.id': event.form.id,
+      responseId: event.responseId,
+      responseUrl: this.getResponseUrl(event),
+      event: event.eventType,
+      submittedAt: new Date(event.occurredAt).toISOString()
+    };
+
+    return template.replace(/\{\{\s*([^{}]+?)\s*\}\}/g, (_, key: string) =>
+      escapeValue(this.resolvePlaceholder(key, builtIns, event, fields, includeAttachments)));
+  }
+
+  /**
+   * List the answers of an event in form order, labelled with their field labels
+   * @param event - Event to render
+   * @param fields - Form fields
+   * @param includeAttachments - Whether file answers include their download link
+   * @returns Labelled display values, excluding passwords and layout fields
+   */
+  static getAnswers(event: IIntegrationEvent, fields: IFormField[] = [], includeAttachments: boolean = false): INotificationAnswer[] {
+    const responses = event.responses || {};
+    const knownIds = new Set(fields.map(field => field.id));
+    const orderedFields = [...fields].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+
+    const answers: INotificationAnswer[] = orderedFields
+      .filter(field => !SKIPPED_FIELD_TYPES.includes(field.type) && responses[field.id] !== undefined)
+      .map(field => ({ label: field.label || field.id, value: this.formatValue(responses[field.id], includeAttachments) }));
+
+    // Answers for fields no longer on the form are still shown under their id
+    Object.keys(responses)
+      .filter(fieldId => !knownIds.has(fieldId))
+      .forEach(fieldId => answers.push({ label: fieldId, value: this.formatValue(responses[fieldId], includeAttachments) }));
+
+    Object.entries(event.calculatedValues || {}).forEach(([fieldId, calculated]) => {
+      if (responses[fieldId] !== undefined) return;
+      const field = fields.find(candidate => candidate.id === fieldId);
+      answers.push({ label: field?.label || fieldId, value: String(calculated.formatted) });
+    });
+
+    return answers;
+  }
+
+  /**
+   * Convert an answer to display text
+   * @param value - Stored answer
+   * @param includeAttachments - Whether file answers include their download link
+   * @returns Display text
+   */
+  static formatValue(value: any, includeAttachments: boolean = false): string {
+    if (value === null || value === undefined || value === '') return '—';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (Array.isArray(value)) return value.map(item => this.formatValue(item, includeAttachments)).join(', ');
+    if (value instanceof Date) return value.toISOString();
+
+    if (typeof value === 'object') {
+      // Uploaded files
+      if (value.originalName && value.url) {
+        return includeAttachments
+          ? `${value.originalName} (${this.getFileUrl(value)})`
+          : value.originalName;
+      }
+      return JSON.stringify(value);
+    }
+
+    return String(value);
+  }
+
+  /**
+   * Get the dashboard link for the response behind an event
+   * @param event - Event
+   * @returns Link to the response, or to the form's responses when there is no response
+   */
+  static getResponseUrl(event: IIntegrationEvent): string {
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    const url = `${frontendUrl}/forms/${event.formId}/responses`;
+
+    return event.responseId ? `${url}?responseId=${event.responseId}` : url;
+  }
+
+  /**
+   * Get a link to an uploaded file that works from a notification
+   * Files in private storage get a signed link valid for FILE_NOTIFICATION_URL_TTL_HOURS.
+   * @param file - Stored file answer
+   * @returns Absolute URL
+   */
+  static getFileUrl(file: Pick<IUploadedFile, 'url' | 'storageKey' | 'originalName' | 'mimetype'>): string {
+    if (file.storageKey) {
+      const ttlHours = parseInt(process.env.FILE_NOTIFICATION_URL_TTL_HOURS || '72', 10);
+      return FileStorageService.createSignedUrl(file, ttlHours * 60 * 60).url;
+    }
+
+    if (/^https?:\/\//.test(file.url)) return file.url;
+    return `${process.env.BACKEND_URL || 'http://localhost:3001'}${file.url}`;
+  }
+
+  // Helper methods
+
+  private static resolvePlaceholder(
+    key: string,
+    builtIns: Record<string, string | undefined>,
+    event: IIntegrationEvent,
+    fields: IFormField[],
+    includeAttachments: boolean
+  ): string {
+    if (key in builtIns) return builtIns[key] || '';
+
+    const field = fields.find(candidate => candidate.id === key)
+      || fields.find(candidate => candidate.label?.toLowerCase() === key.toLowerCase());
+    const fieldId = field?.id || key;
+
+    if (field && SKIPPED_FIELD_TYPES.includes(field.type)) return '';
+    if (event.responses?.[fieldId] !== undefined) {
+      return this.formatValue(event.responses[fieldId], includeAttachments);
+    }
+    if (event.calculatedValues?.[fieldId]) {
+      return String(event.calculatedValues[fieldId].formatted);
+    }
+
+    return '';
+  }
+}
+
+export default NotificationTemplateService;
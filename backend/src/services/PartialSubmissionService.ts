@@ -1,8 +1,11 @@
 import { Types } from 'mongoose';
-import { IForm, IFormField, IFormResponse } from '../types';
+import { IForm, IFormAccessResult, IFormField, IResponseSubmission, IValidationError } from '../types';
 import Form from '../models/Form';
-import FormResponse from '../models/FormResponse';
+import FormActivity from '../models/FormActivity';
 import PartialSubmission from '../models/PartialSubmission';
+import FieldEncryptionService from './FieldEncryptionService';
+import IntegrationEventService from './IntegrationEventService';
+import ResponseSubmissionService from './ResponseSubmissionService';
 
 /**
  * Partial Submission Service
@@ -82,6 +85,14 @@ export class PartialSubmissionService {
         });
         savedSubmission.updateProgress(form.fields);
         await savedSubmission.save();
+        await this.updateFormAnalytics(formId, 'save');
+
+        await IntegrationEventService.emit('form_started', form, {
+          sessionId,
+          responses: FieldEncryptionService.redactAnswers(responses, form),
+          metadata: { referrer: metadata.referrer, language: metadata.language }
+        });
+        await IntegrationEventService.scheduleAbandonmentCheck(formId, sessionId);
       }
 
       // Track analytics
@@ -141,7 +152,7 @@ export class PartialSubmissionService {
         success: true,
         submissionId: partialSubmission._id.toString(),
         sessionId: partialSubmission.sessionId,
-        responses: partialSubmission.responses,
+        responses: await FieldEncryptionService.decryptAnswers(partialSubmission.responses, partialSubmission._id),
         progress: partialSubmission.progress,
         lastSavedAt: partialSubmission.lastSavedAt,
         expiresAt: partialSubmission.expiresAt,
@@ -159,38 +170,48 @@ export class PartialSubmissionService {
 
   /**
    * Complete partial submission and convert to final submission
-   * @param formId - Form identifier
+   * The answers go through the same checks as the public submit route.
+   * @param form - Form being completed
    * @param sessionId - User session identifier
    * @param finalResponses - Complete response data
+   * @param metadata - Request details for the final submission
+   * @param checks - Spam protection proof and consent sent with the final answers
    * @returns Final submission result
    */
   static async completePartialSubmission(
-    formId: string,
+    form: IForm,
     sessionId: string,
     finalResponses: Record<string, any>,
-    metadata: IPartialSubmissionMetadata = {}
+    metadata: IPartialSubmissionMetadata = {},
+    checks: Pick<IResponseSubmission, 'protection' | 'consent' | 'consentVersion'> = {}
   ): Promise<ICompletionResult> {
+    const formId = form._id.toString();
+
     try {
       const partialSubmission = await this.findPartialSubmission(formId, sessionId);
 
       if (!partialSubmission) {
-        // If no partial submission exists, create a regular submission
-        return await this.createDirectSubmission(formId, finalResponses, metadata);
+        return {
+          success: false,
+          wasPartialSubmission: false,
+          notFound: true,
+          error: 'Partial submission not found'
+        };
       }
 
-      // Merge partial data with final responses
+      // Merge partial data with final responses; the response encrypts sensitive answers again under its own ID
       const mergedResponses = {
-        ...partialSubmission.responses,
+        ...(await FieldEncryptionService.decryptAnswers(partialSubmission.responses, partialSubmission._id)),
         ...finalResponses
       };
 
       // Create final form response
-      const finalSubmission = new FormResponse({
-        formId: new Types.ObjectId(formId),
+      const { response: finalSubmission, denied } = await ResponseSubmissionService.submit(form, {
+        ...checks,
         responses: mergedResponses,
-        submittedAt: new Date(),
         ipAddress: metadata.ipAddress,
         userAgent: metadata.userAgent,
+        submitterKeys: metadata.submitterKeys,
         metadata: {
           referrer: metadata.referrer,
           screenResolution: metadata.screenResolution,
@@ -200,12 +221,26 @@ export class PartialSubmissionService {
           wasPartialSubmission: true,
           totalTimeSpent: (metadata.timeSpent || 0) + (partialSubmission.metadata.timeSpent || 0),
           saveCount: partialSubmission.metadata.saveCount || 0
-        },
-        isValid: true,
-        validationErrors: []
+        }
       });
 
-      await finalSubmission.save();
+      if (!finalSubmission.isValid) {
+        return {
+          success: false,
+          wasPartialSubmission: true,
+          error: 'Form validation failed',
+          validationErrors: finalSubmission.validationErrors
+        };
+      }
+
+      if (denied) {
+        return {
+          success: false,
+          wasPartialSubmission: true,
+          error: denied.message,
+          denied
+        };
+      }
 
       // Update form analytics
       await this.updateFormAnalytics(formId, 'completion');
@@ -389,45 +424,15 @@ export class PartialSubmissionService {
     return expirationDate;
   }
 
-  private static async createDirectSubmission(
-    formId: string,
-    responses: Record<string, any>,
-    metadata: IPartialSubmissionMetadata
-  ): Promise<ICompletionResult> {
-    const finalSubmission = new FormResponse({
-      formId: new Types.ObjectId(formId),
-      responses,
-      submittedAt: new Date(),
-      ipAddress: metadata.ipAddress,
-      userAgent: metadata.userAgent,
-      metadata: {
-        referrer: metadata.referrer,
-        screenResolution: metadata.screenResolution,
-        timezone: metadata.timezone,
-        language: metadata.language,
-        wasPartialSubmission: false,
-        totalTimeSpent: metadata.timeSpent || 0
-      },
-      isValid: true,
-      validationErrors: []
-    });
-
-    await finalSubmission.save();
-    await this.updateFormAnalytics(formId, 'completion');
-
-    return {
-      success: true,
-      submissionId: finalSubmission._id.toString(),
-      wasPartialSubmission: false
-    };
-  }
-
   private static async updateFormAnalytics(formId: string, action: 'save' | 'completion'): Promise<void> {
     const updateQuery = action === 'completion' 
-      ? { $inc: { 'analytics.submissions': 1, 'analytics.completions': 1 } }
+      ? { $inc: { 'analytics.completions': 1 } }
       : { $inc: { 'analytics.starts': 1 } };
 
     await Form.findByIdAndUpdate(formId, updateQuery);
+    if (action === 'save') {
+      await FormActivity.record(formId, 'starts');
+    }
   }
 
   private static async trackPartialSubmissionAnalytics(
@@ -464,6 +469,7 @@ export interface IPartialSubmissionMetadata {
   saveCount?: number;
   fieldCount?: number;
   timeSpent?: number;
+  submitterKeys?: string[];
 }
 
 export interface IProgressInfo {
@@ -497,6 +503,11 @@ export interface ICompletionResult {
     totalTimeSpent: number;
   };
   error?: string;
+  // Set when there is no saved progress for the session
+  notFound?: boolean;
+  validationErrors?: IValidationError[];
+  // Set when the form stopped accepting responses
+  denied?: IFormAccessResult;
 }
 
 export interface IPartialSubmissionStats {
@@ -0,0 +1,114 @@
+import { Types } from 'mongoose';
+import Form from '../models/Form';
+import FormResponse from '../models/FormResponse';
+import User from '../models/User';
+import Workspace from '../models/Workspace';
+import { IForm, IFormResponse, IWorkspaceMember, IWorkspacePermissions } from '../types';
+
+type UserId = string | Types.ObjectId;
+
+/**
+ * Response Access Service
+ * Decides who may read and triage a form's responses: the form owner, and
+ * members of the form's workspace holding the required permission
+ */
+export class ResponseAccessService {
+
+  /**
+   * Find an active form the user may work with
+   * @param formId - Form ID
+   * @param userId - User ID
+   * @param permission - Workspace permission members need
+   * @returns Form, or null when it does not exist or the user lacks access
+   */
+  static async findForm(
+    formId: string,
+    userId: UserId,
+    permission: keyof IWorkspacePermissions = 'viewResponses'
+  ): Promise<IForm | null> {
+    if (!Types.ObjectId.isValid(formId)) return null;
+
+    const form = await Form.findOne({ _id: formId, isActive: true });
+    if (!form || !(await this.canAccess(form, userId, permission))) return null;
+
+    return form;
+  }
+
+  /**
+   * Find a response together with its form, if the user may work with it
+   * @param responseId - Response ID
+   * @param userId - User ID
+   * @param permission - Workspace permission members need
+   * @returns Response and form, or null when either is missing or the user lacks access
+   */
+  static async findResponse(
+    responseId: string,
+    userId: UserId,
+    permission: keyof IWorkspacePermissions = 'viewResponses'
+  ): Promise<{ response: IFormResponse; form: IForm } | null> {
+    if (!Types.ObjectId.isValid(responseId)) return null;
+
+    const response = await FormResponse.findById(responseId);
+    if (!response) return null;
+
+    const form = await this.findForm(response.formId.toString(), userId, permission);
+    return form ? { response, form } : null;
+  }
+
+  /**
+   * Check whether a user may work with a form's responses
+   * @param form - Form
+   * @param userId - User ID
+   * @param permission - Workspace permission members need
+   * @returns Whether access is allowed
+   */
+  static async canAccess(
+    form: Pick<IForm, 'userId' | 'workspaceId'>,
+    userId: UserId,
+    permission: keyof IWorkspacePermissions = 'viewResponses'
+  ): Promise<boolean> {
+    if (form.userId.toString() === userId.toString()) return true;
+    if (!form.workspaceId) return false;
+
+    const access = await Workspace.checkUserAccess(form.workspaceId.toString(), userId.toString());
+    return !!access?.permissions?.[permission];
+  }
+
+  /**
+   * List the users responses of a form can be assigned to
+   * @param form - Form
+   * @returns Form owner and active workspace members who can view responses
+   */
+  static async getAssignees(form: Pick<IForm, 'userId' | 'workspaceId'>): Promise<any[]> {
+    const userIds = [form.userId.toString()];
+
+    if (form.workspaceId) {
+      const workspace = await Workspace.findById(form.workspaceId).select('ownerId members');
+      if (workspace) {
+        userIds.push(workspace.ownerId.toString());
+        workspace.members
+          .filter((member: IWorkspaceMember) => member.status === 'active' && member.permissions?.viewResponses)
+          .forEach((member: IWorkspaceMember) => userIds.push(member.userId.toString()));
+      }
+    }
+
+    return User.find({ _id: { $in: Array.from(new Set(userIds)) }, isActive: true })
+      .select('firstName lastName email')
+      .sort({ firstName: 1, email: 1 });
+  }
+
+  /**
+   * Check whether a response of a form can be assigned to a user
+   * @param form - Form
+   * @param userId - Prospective assignee
+   * @returns Whether the user is one of the form's assignees
+   */
+  static async isAssignable(form: Pick<IForm, 'userId' | 'workspaceId'>, userId: string): Promise<boolean> {
+    if (!Types.ObjectId.isValid(userId)) return false;
+
+    const assignees = await this.getAssignees(form);
+    return assignees.some(assignee => assignee._id.toString() === userId);
+  }
+}
+
+export default ResponseAccessService;
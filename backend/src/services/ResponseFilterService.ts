@@ -0,0 +1,381 @@
+import { Types } from 'mongoose';
+import DateRangeFilterService, { IDateRangePreset } from './DateRangeFilterService';
+import FieldEncryptionService from './FieldEncryptionService';
+import ResponseWorkflowService, { IResponseListQuery } from './ResponseWorkflowService';
+import {
+  IForm,
+  IFormField,
+  IResponseFilterCondition,
+  IResponseFilterGroup,
+  ResponseFilterOperator
+} from '../types';
+
+const OPERATORS: ResponseFilterOperator[] = [
+  'equals', 'not_equals', 'contains', 'not_contains', 'greater_than', 'less_than',
+  'is_empty', 'is_not_empty', 'between', 'in', 'regex'
+];
+
+const MAX_CONDITIONS = 20;
+const MAX_DEPTH = 3;
+const MAX_IN_VALUES = 100;
+const MAX_PATTERN_LENGTH = 200;
+const MAX_SEARCH_LENGTH = 200;
+
+// Fields without answers, and answers that must never be filtered on
+const UNFILTERABLE_FIELD_TYPES = ['password', 'divider', 'heading', 'paragraph', 'image', 'video', 'audio'];
+const NUMERIC_FIELD_TYPES = ['number', 'rating', 'scale'];
+const DATE_FIELD_TYPES = ['date', 'calendar'];
+const STRUCTURED_FIELD_TYPES = ['address', 'matrix', 'signature', 'payment'];
+
+type FieldKind = 'text' | 'number' | 'date' | 'file' | 'structured';
+
+export interface IResponseQueryParams extends IResponseListQuery {
+  filter?: string | IResponseFilterGroup;
+  // Expression the filter narrows down further, e.g. a saved view's
+  baseFilter?: IResponseFilterGroup;
+  search?: string;
+  startDate?: string;
+  endDate?: string;
+  datePreset?: string;
+}
+
+class FilterError extends Error {}
+
+/**
+ * Response Filter Service
+ * Turns field-aware filter expressions, full-text search and date ranges into response queries
+ */
+export class ResponseFilterService {
+
+  /**
+   * Build the query for a form's responses from list or export parameters
+   * @param form - Form the responses belong to
+   * @param params - Workflow filters, filter expression, search text and date range
+   * @param userId - Current user, for assignedTo=me
+   * @returns MongoDB filter, or an error message for invalid parameters
+   */
+  static buildResponseQuery(
+    form: Pick<IForm, '_id' | 'fields'>,
+    params: IResponseQueryParams,
+    userId: string | Types.ObjectId
+  ): { filter?: Record<string, any>; error?: string } {
+    const { filter, error } = ResponseWorkflowService.buildFilter(form._id, params, userId);
+    if (error) return { error };
+
+    try {
+      const expressions = [params.baseFilter, params.filter]
+        .map(item => this.parseExpression(item))
+        .filter((item): item is IResponseFilterGroup => item !== null);
+      if (expressions.length > 0) {
+        filter!.$and = expressions.map(expression => this.buildGroup(expression, form.fields, 1));
+      }
+
+      const dateFilter = this.buildDateFilter(params);
+      if (dateFilter) {
+        Object.assign(filter!, dateFilter);
+      }
+
+      if (params.search !== undefined && String(params.search).trim()) {
+        const search = String(params.search).trim();
+        if (search.length > MAX_SEARCH_LENGTH) {
+          throw new FilterError(`Search cannot be more than ${MAX_SEARCH_LENGTH} characters`);
+        }
+        filter!.$text = { $search: search };
+      }
+    } catch (filterError) {
+      if (filterError instanceof FilterError) return { error: filterError.message };
+      throw filterError;
+    }
+
+    return { filter };
+  }
+
+  /**
+   * Build the query for a single condition, based on the type of the field it targets
+   * @param condition - Condition to apply
+   * @param fields - Form fields
+   * @returns MongoDB filter; throws for unknown fields, operators or values
+   */
+  static buildCondition(condition: IResponseFilterCondition, fields: IFormField[]): Record<string, any> {
+    if (!condition || typeof condition.fieldId !== 'string') {
+      throw new FilterError('Each condition needs a fieldId');
+    }
+
+    const field = fields.find(item => item.id === condition.fieldId);
+    if (!field || /[.$]/.test(field.id)) {
+      throw new FilterError(`Unknown field: ${condition.fieldId}`);
+    }
+    // Sensitive answers are stored encrypted, so the database cannot match them
+    if (UNFILTERABLE_FIELD_TYPES.includes(field.type) || FieldEncryptionService.getSensitiveFieldIds({ fields }).has(field.id)) {
+      throw new FilterError(`${field.label} cannot be filtered`);
+    }
+    if (!OPERATORS.includes(condition.operator)) {
+      throw new FilterError(`Invalid operator: ${condition.operator}`);
+    }
+
+    const path = `responses.${field.id}`;
+    const { operator, value } = condition;
+
+    if (operator === 'is_empty') {
+      return { $or: [{ [path]: null }, { [path]: '' }, { [path]: { $size: 0 } }] };
+    }
+    if (operator === 'is_not_empty') {
+      return { [path]: { $nin: [null, '', []] } };
+    }
+
+    const kind = this.getFieldKind(field);
+
+    if (kind === 'structured') {
+      throw new FilterError(`${field.label} only supports is_empty and is_not_empty`);
+    }
+
+    // Files are matched on their original name
+    if (kind === 'file') {
+      return this.buildTextCondition(`${path}.originalName`, operator, value, field);
+    }
+
+    if (kind === 'date' && !['contains', 'not_contains', 'regex'].includes(operator)) {
+      return this.buildDateCondition(path, operator, value, field);
+    }
+
+    if (kind === 'number' || ['greater_than', 'less_than', 'between'].includes(operator)) {
+      return this.buildNumberCondition(path, operator, value, field);
+    }
+
+    return this.buildTextCondition(path, operator, value, field);
+  }
+
+  // Helper methods
+
+  private static parseExpression(filter?: string | IResponseFilterGroup): IResponseFilterGroup | null {
+    if (filter === undefined || filter === null || filter === '') return null;
+
+    let expression: any = filter;
+    if (typeof filter === 'string') {
+      try {
+        expression = JSON.parse(filter);
+      } catch {
+        throw new FilterError('Filter must be valid JSON');
+      }
+    }
+
+    // A bare list of conditions is combined with "and"
+    if (Array.isArray(expression)) {
+      expression = { logic: 'and', conditions: expression };
+    }
+
+    if (!expression || typeof expression !== 'object' || !Array.isArray(expression.conditions)) {
+      throw new FilterError('Filter must have a list of conditions');
+    }
+    if (this.countConditions(expression) > MAX_CONDITIONS) {
+      throw new FilterError(`A filter cannot have more than ${MAX_CONDITIONS} conditions`);
+    }
+
+    return expression.conditions.length > 0 ? expression : null;
+  }
+
+  private static buildGroup(group: IResponseFilterGroup, fields: IFormField[], depth: number): Record<string, any> {
+    if (depth > MAX_DEPTH) {
+      throw new FilterError(`Filter groups cannot be nested more than ${MAX_DEPTH} levels deep`);
+    }
+    if (group.logic !== undefined && group.logic !== 'and' && group.logic !== 'or') {
+      throw new FilterError(`Invalid logic: ${group.logic}`);
+    }
+    if (!Array.isArray(group.conditions) || group.conditions.length === 0) {
+      throw new FilterError('Filter groups need at least one condition');
+    }
+
+    const clauses = group.conditions.map(item =>
+      item && Array.isArray((item as IResponseFilterGroup).conditions)
+        ? this.buildGroup(item as IResponseFilterGroup, fields, depth + 1)
+        : this.buildCondition(item as IResponseFilterCondition, fields)
+    );
+
+    return clauses.length === 1 ? clauses[0] : { [group.logic === 'or' ? '$or' : '$and']: clauses };
+  }
+
+  private static buildTextCondition(path: string, operator: ResponseFilterOperator, value: any, field: IFormField): Record<string, any> {
+    switch (operator) {
+      case 'equals':
+        return { [path]: this.exactPattern(this.requireText(value, field)) };
+      case 'not_equals':
+        return { [path]: { $not: this.exactPattern(this.requireText(value, field)) } };
+      case 'contains':
+        return { [path]: new RegExp(this.escapeRegex(this.requireText(value, field)), 'i') };
+      case 'not_contains':
+        return { [path]: { $not: new RegExp(this.escapeRegex(this.requireText(value, field)), 'i') } };
+      case 'in':
+        return { [path]: { $in: this.requireList(value, field).map(item => this.exactPattern(this.requireText(item, field))) } };
+      case 'regex':
+        return { [path]: this.requirePattern(value, field) };
+      default:
+        throw new FilterError(`${field.label} does not support ${operator}`);
+    }
+  }
+
+  private static buildNumberCondition(path: string, operator: ResponseFilterOperator, value: any, field: IFormField): Record<string, any> {
+    // Answers arrive as strings from multipart submissions, so compare them as numbers
+    const answer = { $convert: { input: `$${path}`, to: 'double', onError: null, onNull: null } };
+    const hasAnswer = { $ne: [answer, null] };
+
+    switch (operator) {
+      case 'equals':
+        return { $expr: { $eq: [answer, this.requireNumber(value, field)] } };
+      case 'not_equals':
+        return { $expr: { $ne: [answer, this.requireNumber(value, field)] } };
+      case 'greater_than':
+        return { $expr: { $and: [hasAnswer, { $gt: [answer, this.requireNumber(value, field)] }] } };
+      case 'less_than':
+        return { $expr: { $and: [hasAnswer, { $lt: [answer, this.requireNumber(value, field)] }] } };
+      case 'between': {
+        const [min, max] = this.requireRange(value, field, item => this.requireNumber(item, field));
+        const bounds: Record<string, any>[] = [hasAnswer];
+        if (min !== null) bounds.push({ $gte: [answer, min] });
+        if (max !== null) bounds.push({ $lte: [answer, max] });
+        return { $expr: { $and: bounds } };
+      }
+      case 'in':
+        return { $expr: { $in: [answer, this.requireList(value, field).map(item => this.requireNumber(item, field))] } };
+      default:
+        throw new FilterError(`${field.label} does not support ${operator}`);
+    }
+  }
+
+  private static buildDateCondition(path: string, operator: ResponseFilterOperator, value: any, field: IFormField): Record<string, any> {
+    // Dates are stored as YYYY-MM-DD strings, optionally followed by a time
+    const day = (item: any) => ({ $gte: this.requireDay(item, field), $lt: this.nextDay(this.requireDay(item, field)) });
+
+    switch (operator) {
+      case 'equals':
+        return { [path]: day(value) };
+      case 'not_equals':
+        return { [path]: { $not: day(value) } };
+      case 'greater_than':
+        return { [path]: { $gte: this.nextDay(this.requireDay(value, field)) } };
+      case 'less_than':
+        return { [path]: { $lt: this.requireDay(value, field) } };
+      case 'between': {
+        const [start, end] = this.requireRange(value, field, item => this.requireDay(item, field));
+        const range: Record<string, string> = {};
+        if (start !== null) range.$gte = start;
+        if (end !== null) range.$lt = this.nextDay(end);
+        return { [path]: range };
+      }
+      case 'in':
+        return { $or: this.requireList(value, field).map(item => ({ [path]: day(item) })) };
+      default:
+        throw new FilterError(`${field.label} does not support ${operator}`);
+    }
+  }
+
+  private static buildDateFilter(params: IResponseQueryParams): Record<string, any> | null {
+    const { startDate, endDate, datePreset } = params;
+    if (!startDate && !endDate && !datePreset) return null;
+
+    if (datePreset) {
+      const presets = DateRangeFilterService.getAvailablePresets().map(preset => preset.id as string);
+      if (!presets.includes(datePreset)) {
+        throw new FilterError(`Invalid date preset: ${datePreset}`);
+      }
+      const range = DateRangeFilterService.parseDateRange(undefined, undefined, datePreset as IDateRangePreset);
+      return DateRangeFilterService.generateMongoDateFilter(range, 'submittedAt');
+    }
+
+    const start = startDate ? new Date(startDate) : new Date(0);
+    const end = endDate ? new Date(endDate) : new Date();
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      throw new FilterError('Invalid date range');
+    }
+    if (start >= end) {
+      throw new FilterError('Start date must be before end date');
+    }
+
+    const range = DateRangeFilterService.parseDateRange(start, end);
+    return DateRangeFilterService.generateMongoDateFilter(range, 'submittedAt');
+  }
+
+  private static getFieldKind(field: IFormField): FieldKind {
+    if (field.calculation?.enabled || NUMERIC_FIELD_TYPES.includes(field.type)) return 'number';
+    if (DATE_FIELD_TYPES.includes(field.type)) return 'date';
+    if (field.type === 'file') return 'file';
+    if (STRUCTURED_FIELD_TYPES.includes(field.type)) return 'structured';
+    return 'text';
+  }
+
+  private static countConditions(group: any): number {
+    return (group.conditions || []).reduce((count: number, item: any) =>
+      count + (item && Array.isArray(item.conditions) ? this.countConditions(item) : 1), 0);
+  }
+
+  private static requireText(value: any, field: IFormField): string {
+    if (!['string', 'number', 'boolean'].includes(typeof value) || String(value).trim() === '') {
+      throw new FilterError(`${field.label} needs a value to compare with`);
+    }
+    return String(value).trim();
+  }
+
+  private static requireNumber(value: any, field: IFormField): number {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof number !== 'number' || !isFinite(number)) {
+      throw new FilterError(`${field.label} needs a number to compare with`);
+    }
+    return number;
+  }
+
+  private static requireDay(value: any, field: IFormField): string {
+    const date = typeof value === 'string' || value instanceof Date ? new Date(value) : null;
+    if (!date || isNaN(date.getTime())) {
+      throw new FilterError(`${field.label} needs a date to compare with`);
+    }
+    return date.toISOString().slice(0, 10);
+  }
+
+  private static requireList(value: any, field: IFormField): any[] {
+    if (!Array.isArray(value) || value.length === 0 || value.length > MAX_IN_VALUES) {
+      throw new FilterError(`${field.label} needs a list of 1 to ${MAX_IN_VALUES} values`);
+    }
+    return value;
+  }
+
+  private static requireRange<T>(value: any, field: IFormField, parse: (item: any) => T): [T | null, T | null] {
+    if (!Array.isArray(value) || value.length !== 2 || (this.isBlank(value[0]) && this.isBlank(value[1]))) {
+      throw new FilterError(`${field.label} needs a [from, to] range`);
+    }
+    return [
+      this.isBlank(value[0]) ? null : parse(value[0]),
+      this.isBlank(value[1]) ? null : parse(value[1])
+    ];
+  }
+
+  private static requirePattern(value: any, field: IFormField): RegExp {
+    if (typeof value !== 'string' || !value || value.length > MAX_PATTERN_LENGTH) {
+      throw new FilterError(`${field.label} needs a pattern of at most ${MAX_PATTERN_LENGTH} characters`);
+    }
+    try {
+      return new RegExp(value, 'i');
+    } catch {
+      throw new FilterError(`${field.label} has an invalid pattern`);
+    }
+  }
+
+  private static exactPattern(value: string): RegExp {
+    // Same matching as conditional logic: trimmed and case-insensitive
+    return new RegExp(`^\\s*${this.escapeRegex(value)}\\s*$`, 'i');
+  }
+
+  private static escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  private static nextDay(day: string): string {
+    const date = new Date(`${day}T00:00:00.000Z`);
+    date.setUTCDate(date.getUTCDate() + 1);
+    return date.toISOString().slice(0, 10);
+  }
+
+  private static isBlank(value: any): boolean {
+    return value === undefined || value === null || value === '';
+  }
+}
+
+export default ResponseFilterService;
@@ -0,0 +1,224 @@
+import { Types } from 'mongoose';
+import FormResponse from '../models/FormResponse';
+import ResponseRevision from '../models/ResponseRevision';
+import FieldEncryptionService from './FieldEncryptionService';
+import FileStorageService from './FileStorageService';
+import FileUploadService from './FileUploadService';
+import {
+  IForm,
+  IFormField,
+  IFormResponse,
+  IResponseEditResult,
+  IResponseFieldChange,
+  IUploadedFile,
+  IValidationError,
+  ResponseEditMode
+} from '../types';
+
+interface IResponseEditOptions {
+  mode: ResponseEditMode;
+  editedBy: string | Types.ObjectId;
+  reason?: string;
+  expectedRevision?: number;
+}
+
+/**
+ * Response Revision Service
+ * Applies staff edits to submitted responses and records each edit as a revision
+ */
+export class ResponseRevisionService {
+
+  /**
+   * Edit a submitted response
+   * The edited answers are validated like a new submission; nothing is saved when they are invalid
+   * @param response - Response to edit
+   * @param form - Form the response belongs to
+   * @param answers - New answers: the full set for 'replace', changed fields (null clears) for 'merge'
+   * @param options - Edit mode, editor, optional reason and the revision the editor started from
+   * @returns Edit outcome with the updated response and stored revision
+   */
+  static async editResponse(
+    response: IFormResponse,
+    form: IForm,
+    answers: Record<string, any>,
+    options: IResponseEditOptions
+  ): Promise<IResponseEditResult> {
+    const currentRevision = response.revision || 0;
+
+    if (options.expectedRevision !== undefined && options.expectedRevision !== currentRevision) {
+      return { status: 'conflict', response };
+    }
+
+    // Edits are validated and compared in plaintext; sensitive answers are encrypted again when stored
+    const before = { ...(await FieldEncryptionService.decryptAnswers(response.responses || {}, response._id)) };
+    const answerErrors = this.checkAnswers(form.fields, before, answers);
+    if (answerErrors.length > 0) {
+      return { status: 'invalid', errors: answerErrors };
+    }
+
+    response.responses = this.applyAnswers(before, answers, options.mode);
+    const errors: IValidationError[] = await response.validateAgainstForm();
+    if (errors.length > 0) {
+      return { status: 'invalid', errors };
+    }
+
+    const changes = this.diff(before, response.responses, form.fields);
+    if (changes.length === 0) {
+      return { status: 'unchanged', response };
+    }
+
+    // Files whose answers were removed, or dropped by conditional logic, are deleted once the edit is saved
+    const removedFiles = this.getRemovedFiles(before, response.responses);
+    const removedBytes = removedFiles.reduce((sum, file) => sum + (file.size || 0), 0);
+
+    // Only apply the edit if nobody else saved one since this response was loaded
+    const updated = await FormResponse.findOneAndUpdate(
+      { _id: response._id, revision: currentRevision > 0 ? currentRevision : { $in: [null, 0] } },
+      {
+        $set: {
+          responses: await FieldEncryptionService.encryptAnswers(form, response.responses, response._id),
+          calculatedValues: response.calculatedValues,
+          hiddenFields: response.hiddenFields,
+          searchText: response.searchText,
+          validationErrors: [],
+          isValid: true,
+          uploadSize: Math.max(0, (response.uploadSize || 0) - removedBytes),
+          lastEditedAt: new Date(),
+          lastEditedBy: options.editedBy
+        },
+        $inc: { revision: 1 }
+      },
+      { new: true }
+    );
+
+    if (!updated) {
+      return { status: 'conflict' };
+    }
+
+    await Promise.all(removedFiles.map(file => FileStorageService.removeFile(file)));
+    await FileUploadService.recordStorage(form, -removedBytes);
+
+    const revision = await ResponseRevision.create({
+      responseId: updated._id,
+      formId: updated.formId,
+      revision: updated.revision,
+      editedBy: options.editedBy,
+      mode: options.mode,
+      reason: options.reason,
+      changes: await FieldEncryptionService.encryptChanges(form, changes, updated._id)
+    });
+
+    return { status: 'updated', response: updated, revision };
+  }
+
+  /**
+   * Compare two sets of answers field by field
+   * @param before - Answers before the edit
+   * @param after - Answers after the edit
+   * @param fields - Form fields, used for labels and ordering
+   * @returns One change per added, removed or modified answer
+   */
+  static diff(before: Record<string, any>, after: Record<string, any>, fields: IFormField[]): IResponseFieldChange[] {
+    const fieldsById = new Map(fields.map(field => [field.id, field]));
+    const fieldIds = [
+      ...fields.map(field => field.id),
+      // Answers to fields since removed from the form come last
+      ...Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).filter(fieldId => !fieldsById.has(fieldId))
+    ];
+
+    const changes: IResponseFieldChange[] = [];
+
+    fieldIds.forEach(fieldId => {
+      const previous = before[fieldId];
+      const next = after[fieldId];
+      if (this.isEqual(previous, next)) return;
+
+      const field = fieldsById.get(fieldId);
+      const change: IResponseFieldChange = { fieldId, label: field?.label || fieldId };
+      if (previous !== undefined) change.before = previous;
+      if (next !== undefined) change.after = next;
+      if (field?.calculation?.enabled) change.calculated = true;
+      changes.push(change);
+    });
+
+    return changes;
+  }
+
+  /**
+   * Build the answers an edit results in
+   * @param current - Current answers
+   * @param answers - Submitted answers
+   * @param mode - 'replace' uses the submitted answers as-is; 'merge' updates the current ones
+   * @returns New answers
+   */
+  static applyAnswers(current: Record<string, any>, answers: Record<string, any>, mode: ResponseEditMode): Record<string, any> {
+    const base = mode === 'merge' ? { ...current } : {};
+
+    Object.entries(answers).forEach(([fieldId, value]) => {
+      if (value === null || value === undefined) {
+        delete base[fieldId];
+      } else {
+        base[fieldId] = value;
+      }
+    });
+
+    return base;
+  }
+
+  /**
+   * Find the files an edit takes off a response
+   * @param before - Answers before the edit
+   * @param after - Answers after the edit
+   * @returns File answers no longer on the response
+   */
+  static getRemovedFiles(before: Record<string, any>, after: Record<string, any>): IUploadedFile[] {
+    const fileKey = (file: IUploadedFile) => file.storageKey || file.filename;
+    const kept = new Set(FileStorageService.listFiles({ responses: after }).map(fileKey));
+
+    return FileStorageService.listFiles({ responses: before }).filter(file => !kept.has(fileKey(file)));
+  }
+
+  // Helper methods
+
+  private static checkAnswers(fields: IFormField[], current: Record<string, any>, answers: Record<string, any>): IValidationError[] {
+    const fieldsById = new Map(fields.map(field => [field.id, field]));
+    const errors: IValidationError[] = [];
+
+    Object.entries(answers).forEach(([fieldId, value]) => {
+      const field = fieldsById.get(fieldId);
+
+      if (!field) {
+        // Answers kept from fields removed from the form may still be cleared
+        if (value !== null || !(fieldId in current)) {
+          errors.push({ fieldId, message: 'Field does not exist on this form' });
+        }
+        return;
+      }
+
+      // Uploads cannot be replaced through an edit, only kept or removed
+      if (field.type === 'file' && value !== null && !this.isEqual(value, current[fieldId])) {
+        errors.push({ fieldId, message: `${field.label} can only be kept or removed` });
+      }
+    });
+
+    return errors;
+  }
+
+  private static isEqual(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (a === undefined || b === undefined || a === null || b === null) return false;
+    if (typeof a !== 'object' || typeof b !== 'object') return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+    if (a instanceof Date || b instanceof Date) {
+      return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+    }
+
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    if (keysA.length !== keysB.length) return false;
+
+    return keysA.every(key => this.isEqual(a[key], b[key]));
+  }
+}
+
+export default ResponseRevisionService;
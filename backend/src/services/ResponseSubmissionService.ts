@@ -0,0 +1,97 @@
+import FormResponse from '../models/FormResponse';
+import ConsentLedgerService from './ConsentLedgerService';
+import FileUploadService from './FileUploadService';
+import FormAccessService from './FormAccessService';
+import IntegrationEventService from './IntegrationEventService';
+import SpamProtectionService from './SpamProtectionService';
+import { IForm, IFormResponse, IResponseSubmission, IResponseSubmissionResult } from '../types';
+
+/**
+ * Response Submission Service
+ * Checks respondents' answers the same way whichever way they are submitted: answers to
+ * fields hidden or skipped by conditional logic are dropped, required fields are checked and
+ * calculated fields are recomputed on the server. Accepted answers then go through the same
+ * spam scoring, upload storage and response limit before they are saved.
+ */
+export class ResponseSubmissionService {
+  /**
+   * Build a response from submitted answers and validate it against the form, without saving it
+   * File answers come only from the checked uploads, never from the submitted answers.
+   * @param form - Form being submitted
+   * @param submission - Submitted answers, uploads and request details
+   * @returns Unsaved response; check isValid and validationErrors
+   */
+  static async build(form: IForm, submission: IResponseSubmission): Promise<IFormResponse> {
+    const response = new FormResponse({
+      ...(submission.responseId && { _id: submission.responseId }),
+      formId: form._id,
+      responses: FileUploadService.applyAnswers(form, submission.responses || {}, submission.uploads?.answers || {}),
+      ipAddress: submission.ipAddress,
+      userAgent: submission.userAgent,
+      metadata: submission.metadata || {},
+      uploadSize: submission.uploads?.totalBytes || 0
+    });
+
+    await response.validateAgainstForm();
+
+    return response;
+  }
+
+  /**
+   * Validate, score and save a respondent's submission
+   * Access, consent and upload rules are checked by the caller before submitting.
+   * @param form - Form being submitted
+   * @param submission - Submitted answers, uploads and request details
+   * @returns The response, saved unless it is invalid or the form stopped accepting responses
+   */
+  static async submit(form: IForm, submission: IResponseSubmission): Promise<IResponseSubmissionResult> {
+    const response = await this.build(form, submission);
+    if (!response.isValid) return { response };
+
+    // Score the submission; suspected spam is kept for review instead of being dropped
+    const spam = await SpamProtectionService.evaluate(form, submission.protection || {}, response.responses);
+    if (spam) {
+      response.spam = spam;
+      if (spam.quarantined) {
+        response.status = 'spam';
+        response.statusChangedAt = spam.checkedAt;
+      }
+    }
+    response.submitterKeys = submission.submitterKeys;
+
+    // Move accepted files into private storage, then save the response. Quarantined spam
+    // does not use up the response limit, so only other responses wait for a place
+    const uploads = submission.uploads;
+    const store = async () => {
+      if (uploads) await FileUploadService.storeUploads(uploads);
+      await response.save();
+    };
+    try {
+      if (spam?.quarantined) {
+        await store();
+      } else {
+        const limit = await FormAccessService.saveWithinResponseLimit(form, store);
+        if (!limit.allowed) return { response, denied: limit };
+      }
+    } catch (error) {
+      if (uploads) await FileUploadService.removeStoredUploads(uploads);
+      throw error;
+    }
+
+    if (uploads) await FileUploadService.recordStorage(form, uploads.totalBytes);
+    await ConsentLedgerService.recordForResponse(form, response._id, submission.consentVersion || null, submission.consent, {
+      ipAddress: response.ipAddress,
+      userAgent: response.userAgent
+    });
+
+    // Hand the submission to integrations in the background; quarantined spam
+    // is handed over if a team member releases it
+    if (!spam?.quarantined) {
+      await IntegrationEventService.emitForResponse('form_submitted', form, response);
+    }
+
+    return { response };
+  }
+}
+
+export default ResponseSubmissionService;
@@ -0,0 +1,305 @@
+import mongoose, { Types } from 'mongoose';
+import Form from '../models/Form';
+import FormResponse, { RESPONSE_WORKFLOW_STATUSES } from '../models/FormResponse';
+import ResponseAccessService from './ResponseAccessService';
+import { IForm, IFormResponse, IResponseWorkflowUpdate, ResponseWorkflowStatus } from '../types';
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+
+const SORT_FIELDS: Record<string, string> = {
+  submittedAt: 'submittedAt',
+  status: 'status',
+  statusChangedAt: 'statusChangedAt',
+  assignedTo: 'assignedTo',
+  tags: 'tags',
+  lastNoteAt: 'lastNoteAt',
+  updatedAt: 'updatedAt'
+};
+
+export interface IResponseListQuery {
+  status?: string;
+  tags?: string;
+  assignedTo?: string;
+  hasNotes?: string;
+  sortBy?: string;
+  order?: string;
+}
+
+/**
+ * Response Workflow Service
+ * Inbox triage for responses: statuses, tags, assignees and internal notes
+ */
+export class ResponseWorkflowService {
+
+  /**
+   * Build the MongoDB filter for a response list's workflow fields
+   * Spam is hidden unless a status filter asks for it
+   * @param formId - Form ID
+   * @param query - List query parameters
+   * @param userId - Current user, for assignedTo=me
+   * @returns Filter, or an error message for invalid parameters
+   */
+  static buildFilter(
+    formId: string | Types.ObjectId,
+    query: IResponseListQuery,
+    userId: string | Types.ObjectId
+  ): { filter?: Record<string, any>; error?: string } {
+    const filter: Record<string, any> = {
+      formId: new mongoose.Types.ObjectId(formId.toString()),
+      isValid: true
+    };
+
+    if (query.status) {
+      const statuses = this.splitList(query.status);
+      const invalid = statuses.find(status => !RESPONSE_WORKFLOW_STATUSES.includes(status as ResponseWorkflowStatus));
+      if (invalid) {
+        return { error: `Invalid status: ${invalid}` };
+      }
+      // Responses stored before statuses existed count as new
+      filter.status = statuses.includes('new') ? { $in: [...statuses, null] } : { $in: statuses };
+    } else {
+      filter.status = { $ne: 'spam' };
+    }
+
+    if (query.tags) {
+      filter.tags = { $all: this.normalizeTags(this.splitList(query.tags)) };
+    }
+
+    if (query.assignedTo === 'unassigned') {
+      filter.assignedTo = null;
+    } else if (query.assignedTo) {
+      const assignee = query.assignedTo === 'me' ? userId.toString() : query.assignedTo;
+      if (!Types.ObjectId.isValid(assignee)) {
+        return { error: 'Invalid assignee' };
+      }
+      filter.assignedTo = new mongoose.Types.ObjectId(assignee);
+    }
+
+    if (query.hasNotes === 'true') {
+      filter['notes.0'] = { $exists: true };
+    } else if (query.hasNotes === 'false') {
+      filter['notes.0'] = { $exists: false };
+    }
+
+    return { filter };
+  }
+
+  /**
+   * Build the sort for a response list
+   * @param sortBy - Field to sort on; defaults to submittedAt
+   * @param order - 'asc' or 'desc' (default)
+   * @returns Sort specification, or null for an unknown field
+   */
+  static buildSort(sortBy: string = 'submittedAt', order: string = 'desc'): Record<string, 1 | -1> | null {
+    const field = SORT_FIELDS[sortBy];
+    if (!field) return null;
+
+    const direction = order === 'asc' ? 1 : -1;
+    // Newest first among equal values keeps pages stable
+    return field === 'submittedAt'
+      ? { submittedAt: direction, _id: direction }
+      : { [field]: direction, submittedAt: -1, _id: -1 };
+  }
+
+  /**
+   * Count responses per status for the inbox tabs
+   * @param filter - List filter; its status condition is ignored
+   * @returns Count for every status
+   */
+  static async countByStatus(filter: Record<string, any>): Promise<Record<ResponseWorkflowStatus, number>> {
+    const { status, ...rest } = filter;
+    const results = await FormResponse.aggregate([
+      { $match: rest },
+      { $group: { _id: { $ifNull: ['$status', 'new'] }, count: { $sum: 1 } } }
+    ]);
+
+    const counts = Object.fromEntries(RESPONSE_WORKFLOW_STATUSES.map(value => [value, 0])) as Record<ResponseWorkflowStatus, number>;
+    results.forEach(result => {
+      counts[result._id as ResponseWorkflowStatus] = result.count;
+    });
+
+    return counts;
+  }
+
+  /**
+   * Change the status, tags or assignee of a response
+   * @param response - Response to update
+   * @param form - Form the response belongs to
+   * @param update - Fields to change; assignedTo null unassigns
+   * @returns Updated response and whether it was released from spam quarantine, or an error message for invalid values;
+   * conflict is set when the response was moved into or out of spam by someone else meanwhile
+   */
+  static async updateWorkflow(
+    response: IFormResponse,
+    form: IForm,
+    update: IResponseWorkflowUpdate
+  ): Promise<{ response?: IFormResponse | null; released?: boolean; conflict?: boolean; error?: string }> {
+    const filter: Record<string, any> = { _id: response._id };
+    const $set: Record<string, any> = {};
+    const $unset: Record<string, ''> = {};
+    let released = false;
+    let submissionsChange = 0;
+
+    if (update.status !== undefined) {
+      if (!RESPONSE_WORKFLOW_STATUSES.includes(update.status)) {
+        return { error: `Invalid status: ${update.status}` };
+      }
+      if (update.status !== (response.status || 'new')) {
+        $set.status = update.status;
+        $set.statusChangedAt = new Date();
+
+        // Moving a response into or out of spam only applies if nobody else moved it meanwhile:
+        // spam is left out of the form's submission count and released spam is handed to integrations
+        const wasSpam = response.status === 'spam';
+        if (wasSpam !== (update.status === 'spam')) {
+          filter.status = wasSpam ? 'spam' : { $ne: 'spam' };
+          if (response.isValid) submissionsChange = wasSpam ? 1 : -1;
+        }
+
+        // A quarantined submission moved out of spam is let through once
+        if (wasSpam && response.spam?.quarantined && !response.spam.releasedAt) {
+          filter['spam.releasedAt'] = null;
+          $set['spam.releasedAt'] = $set.statusChangedAt;
+          released = true;
+        }
+      }
+    }
+
+    if (update.tags !== undefined) {
+      if (!Array.isArray(update.tags) || update.tags.some(tag => typeof tag !== 'string')) {
+        return { error: 'Tags must be a list of strings' };
+      }
+      const tags = this.normalizeTags(update.tags);
+      if (tags.length > MAX_TAGS) {
+        return { error: `A response cannot have more than ${MAX_TAGS} tags` };
+      }
+      if (tags.some(tag => tag.length > MAX_TAG_LENGTH)) {
+        return { error: `Tags cannot be more than ${MAX_TAG_LENGTH} characters` };
+      }
+      $set.tags = tags;
+    }
+
+    if (update.assignedTo === null) {
+      $unset.assignedTo = '';
+    } else if (update.assignedTo !== undefined) {
+      if (typeof update.assignedTo !== 'string' || !(await ResponseAccessService.isAssignable(form, update.assignedTo))) {
+        return { error: 'Responses can only be assigned to members who can view them' };
+      }
+      $set.assignedTo = update.assignedTo;
+    }
+
+    const changes: Record<string, any> = {};
+    if (Object.keys($set).length > 0) changes.$set = $set;
+    if (Object.keys($unset).length > 0) changes.$unset = $unset;
+
+    const updated = await FormResponse.findOneAndUpdate(filter, changes, { new: true, runValidators: true })
+      .populate(this.getPopulate());
+
+    // Only the request that actually moved the response out of spam releases it
+    if (!updated && filter.status) {
+      return { conflict: true };
+    }
+
+    if (submissionsChange !== 0) {
+      await Form.updateOne({ _id: form._id }, { $inc: { 'analytics.submissions': submissionsChange } });
+    }
+
+    return { response: updated, released };
+  }
+
+  /**
+   * Add an internal note to a response
+   * @param responseId - Response ID
+   * @param authorId - Note author
+   * @param body - Note text
+   * @returns Updated response, or an error message for an empty or oversized note
+   */
+  static async addNote(
+    responseId: string | Types.ObjectId,
+    authorId: string | Types.ObjectId,
+    body: unknown
+  ): Promise<{ response?: IFormResponse | null; error?: string }> {
+    const text = typeof body === 'string' ? body.trim() : '';
+    if (!text) {
+      return { error: 'Note cannot be empty' };
+    }
+    if (text.length > 5000) {
+      return { error: 'Note cannot be more than 5000 characters' };
+    }
+
+    const now = new Date();
+    const updated = await FormResponse.findByIdAndUpdate(
+      responseId,
+      {
+        $push: { notes: { authorId, body: text, createdAt: now } },
+        $set: { lastNoteAt: now }
+      },
+      { new: true }
+    ).populate(this.getPopulate());
+
+    return { response: updated };
+  }
+
+  /**
+   * Remove an internal note; only its author or the form owner may do so
+   * @param response - Response holding the note
+   * @param form - Form the response belongs to
+   * @param noteId - Note ID
+   * @param userId - User removing the note
+   * @returns Updated response, or an error code when the note is missing or belongs to someone else
+   */
+  static async removeNote(
+    response: IFormResponse,
+    form: IForm,
+    noteId: string,
+    userId: string | Types.ObjectId
+  ): Promise<{ response?: IFormResponse | null; error?: 'NOT_FOUND' | 'FORBIDDEN' }> {
+    const note = (response.notes || []).find(item => item._id.toString() === noteId);
+    if (!note) {
+      return { error: 'NOT_FOUND' };
+    }
+    if (note.authorId.toString() !== userId.toString() && form.userId.toString() !== userId.toString()) {
+      return { error: 'FORBIDDEN' };
+    }
+
+    const remaining = response.notes.filter(item => item._id.toString() !== noteId);
+    const updated = await FormResponse.findByIdAndUpdate(
+      response._id,
+      remaining.length > 0
+        ? { $pull: { notes: { _id: note._id } }, $set: { lastNoteAt: remaining[remaining.length - 1].createdAt } }
+        : { $pull: { notes: { _id: note._id } }, $unset: { lastNoteAt: '' } },
+      { new: true }
+    ).populate(this.getPopulate());
+
+    return { response: updated };
+  }
+
+  /**
+   * Clean up tags: trimmed, lowercase, without blanks or duplicates
+   * @param tags - Raw tags
+   * @returns Normalized tags
+   */
+  static normalizeTags(tags: string[]): string[] {
+    return Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+  }
+
+  /**
+   * Get the populate options for assignees and note authors
+   * @returns Populate options
+   */
+  static getPopulate() {
+    return [
+      { path: 'assignedTo', select: 'firstName lastName email' },
+      { path: 'notes.authorId', select: 'firstName lastName email' }
+    ];
+  }
+
+  // Helper methods
+
+  private static splitList(value: string): string[] {
+    return String(value).split(',').map(item => item.trim()).filter(Boolean);
+  }
+}
+
+export default ResponseWorkflowService;
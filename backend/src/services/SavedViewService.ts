@@ -0,0 +1,316 @@
+import { Types } from 'mongoose';
+import Form from '../models/Form';
+import FormResponse from '../models/FormResponse';
+import Integration from '../models/Integration';
+import SavedView from '../models/SavedView';
+import ResponseAccessService from './ResponseAccessService';
+import ResponseFilterService, { IResponseQueryParams } from './ResponseFilterService';
+import ResponseWorkflowService from './ResponseWorkflowService';
+import { IForm, IIntegration, ISavedView, ISavedViewCriteria, ResponseWorkflowStatus, SavedViewVisibility } from '../types';
+
+type UserId = string | Types.ObjectId;
+
+// Response columns a view can show besides form fields
+export const SAVED_VIEW_COLUMNS = ['submittedAt', 'status', 'tags', 'assignedTo', 'notes'];
+
+export interface ISavedViewInput {
+  name?: string;
+  description?: string;
+  visibility?: SavedViewVisibility;
+  criteria?: Record<string, any>;
+  columns?: string[];
+  sortBy?: string;
+  order?: string;
+  pageSize?: number;
+}
+
+export interface IViewQueryParams extends IResponseQueryParams {
+  viewId?: string;
+}
+
+/**
+ * Saved View Service
+ * Named response filters that lists, exports, charts and integration triggers can share
+ */
+export class SavedViewService {
+
+  /**
+   * Find a saved view together with its form, if the user may use it
+   * @param viewId - View ID
+   * @param userId - User ID
+   * @returns View and form, or null when either is missing or hidden from the user
+   */
+  static async findForUser(viewId: string, userId: UserId): Promise<{ view: ISavedView; form: IForm } | null> {
+    if (!Types.ObjectId.isValid(viewId)) return null;
+
+    const view = await SavedView.findById(viewId);
+    if (!view || !view.isVisibleTo(userId)) return null;
+
+    const form = await ResponseAccessService.findForm(view.formId.toString(), userId);
+    return form ? { view, form } : null;
+  }
+
+  /**
+   * Check whether a user may change or delete a view: its creator or the form owner
+   * @param view - Saved view
+   * @param form - Form the view belongs to
+   * @param userId - User ID
+   * @returns Whether changes are allowed
+   */
+  static canManage(view: ISavedView, form: Pick<IForm, 'userId'>, userId: UserId): boolean {
+    const createdBy = (view.createdBy as any)?._id || view.createdBy;
+    return createdBy.toString() === userId.toString() || form.userId.toString() === userId.toString();
+  }
+
+  /**
+   * Check and normalize the settings of a new or changed view
+   * The criteria are compiled against the form, so a view that saves can always be applied
+   * @param form - Form the view belongs to
+   * @param input - Submitted settings; missing ones keep the current value
+   * @param userId - User saving the view
+   * @param current - View being changed, if any
+   * @returns Values to store, or an error message
+   */
+  static validate(
+    form: IForm,
+    input: ISavedViewInput,
+    userId: UserId,
+    current?: ISavedView
+  ): { values?: Partial<ISavedView>; error?: string } {
+    const values: Record<string, any> = {};
+
+    if (input.name !== undefined || !current) {
+      const name = typeof input.name === 'string' ? input.name.trim() : '';
+      if (!name) return { error: 'View name is required' };
+      if (name.length > 100) return { error: 'View name cannot be more than 100 characters' };
+      values.name = name;
+    }
+
+    if (input.description !== undefined) {
+      if (input.description !== null && typeof input.description !== 'string') {
+        return { error: 'Description must be text' };
+      }
+      values.description = input.description || undefined;
+    }
+
+    if (input.visibility !== undefined) {
+      if (!['private', 'workspace'].includes(input.visibility)) {
+        return { error: `Invalid visibility: ${input.visibility}` };
+      }
+      if (input.visibility === 'workspace' && !form.workspaceId) {
+        return { error: 'Only views of workspace forms can be shared' };
+      }
+      values.visibility = input.visibility;
+    }
+
+    if (input.criteria !== undefined) {
+      const { criteria, error } = this.normalizeCriteria(input.criteria);
+      if (error) return { error };
+
+      const { error: queryError } = ResponseFilterService.buildResponseQuery(form, this.toQueryParams(criteria!), userId);
+      if (queryError) return { error: queryError };
+
+      values.criteria = criteria;
+    }
+
+    if (input.columns !== undefined) {
+      if (!Array.isArray(input.columns) || input.columns.some(column => typeof column !== 'string')) {
+        return { error: 'Columns must be a list of field IDs' };
+      }
+      const fieldIds = form.fields.map(field => field.id);
+      const unknown = input.columns.find(column => !fieldIds.includes(column) && !SAVED_VIEW_COLUMNS.includes(column));
+      if (unknown) return { error: `Unknown column: ${unknown}` };
+      values.columns = Array.from(new Set(input.columns));
+    }
+
+    if (input.sortBy !== undefined || input.order !== undefined) {
+      const sortBy = input.sortBy ?? current?.sortBy;
+      const order = input.order ?? current?.order;
+      if (order !== undefined && !['asc', 'desc'].includes(order)) {
+        return { error: `Invalid order: ${order}` };
+      }
+      if (!ResponseWorkflowService.buildSort(sortBy, order)) {
+        return { error: `Cannot sort by ${sortBy}` };
+      }
+      if (input.sortBy !== undefined) values.sortBy = input.sortBy;
+      if (input.order !== undefined) values.order = input.order;
+    }
+
+    if (input.pageSize !== undefined) {
+      const pageSize = Number(input.pageSize);
+      if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > 100) {
+        return { error: 'Page size must be between 1 and 100' };
+      }
+      values.pageSize = pageSize;
+    }
+
+    return { values };
+  }
+
+  /**
+   * Turn stored criteria into responses list parameters
+   * @param criteria - View criteria
+   * @returns Query parameters for ResponseFilterService
+   */
+  static toQueryParams(criteria: ISavedViewCriteria): IResponseQueryParams {
+    const params: IResponseQueryParams = {};
+
+    if (criteria.status?.length) params.status = criteria.status.join(',');
+    if (criteria.tags?.length) params.tags = criteria.tags.join(',');
+    if (criteria.assignedTo) params.assignedTo = criteria.assignedTo;
+    if (criteria.hasNotes !== undefined && criteria.hasNotes !== null) params.hasNotes = String(criteria.hasNotes);
+    if (criteria.filter) params.baseFilter = criteria.filter;
+    if (criteria.search) params.search = criteria.search;
+    if (criteria.datePreset) params.datePreset = criteria.datePreset;
+    if (criteria.startDate) params.startDate = new Date(criteria.startDate).toISOString();
+    if (criteria.endDate) params.endDate = new Date(criteria.endDate).toISOString();
+
+    return params;
+  }
+
+  /**
+   * Build the query and sort for a form's responses, starting from a saved view when
+   * `viewId` is given; other parameters refine the view, and a `filter` narrows it down
+   * @param form - Form the responses belong to
+   * @param params - Request parameters
+   * @param userId - Current user, for assignedTo=me
+   * @returns Filter, sort and the applied view, or an error message
+   */
+  static async resolveQuery(
+    form: IForm,
+    params: IViewQueryParams,
+    userId: UserId
+  ): Promise<{ filter?: Record<string, any>; sort?: Record<string, 1 | -1>; view?: ISavedView; error?: string }> {
+    const { viewId, ...overrides } = params;
+    let view: ISavedView | null = null;
+    let query: IResponseQueryParams = overrides;
+
+    if (viewId) {
+      view = Types.ObjectId.isValid(viewId) ? await SavedView.findOne({ _id: viewId, formId: form._id }) : null;
+      if (!view || !view.isVisibleTo(userId)) {
+        return { error: 'Saved view not found' };
+      }
+
+      query = {
+        ...this.toQueryParams(view.criteria || {}),
+        sortBy: view.sortBy,
+        order: view.order
+      };
+      Object.entries(overrides).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') (query as any)[key] = value;
+      });
+    }
+
+    const { filter, error } = ResponseFilterService.buildResponseQuery(form, query, userId);
+    if (error) return { error };
+
+    const sort = ResponseWorkflowService.buildSort(query.sortBy, query.order);
+    if (!sort) return { error: `Cannot sort by ${query.sortBy}` };
+
+    return { filter, sort, view: view || undefined };
+  }
+
+  /**
+   * Find which of a form's views contain a response
+   * Views are applied as their creator sees them, so assignedTo=me means the creator
+   * @param formId - Form ID
+   * @param viewIds - Views to check
+   * @param responseId - Response ID
+   * @returns IDs of the views the response is in
+   */
+  static async findMatchingViews(
+    formId: string | Types.ObjectId,
+    viewIds: string[],
+    responseId: string | Types.ObjectId
+  ): Promise<string[]> {
+    if (viewIds.length === 0) return [];
+
+    const [form, views] = await Promise.all([
+      Form.findById(formId).select('fields'),
+      SavedView.find({ _id: { $in: viewIds }, formId })
+    ]);
+    if (!form) return [];
+
+    const matches = await Promise.all(views.map(async view => {
+      const { filter } = ResponseFilterService.buildResponseQuery(form, this.toQueryParams(view.criteria || {}), view.createdBy);
+      // Views whose criteria no longer fit the form (e.g. a field was removed) match nothing
+      if (!filter) return null;
+      return (await FormResponse.exists({ ...filter, _id: responseId })) ? view._id.toString() : null;
+    }));
+
+    return matches.filter((viewId): viewId is string => viewId !== null);
+  }
+
+  /**
+   * List the integrations whose triggers depend on a view
+   * @param viewId - View ID
+   * @returns Integrations using the view
+   */
+  static async findIntegrationsUsing(viewId: string | Types.ObjectId): Promise<IIntegration[]> {
+    return Integration.find({ 'triggers.conditions.viewId': viewId }).select('name type');
+  }
+
+  // Helper methods
+
+  private static normalizeCriteria(input: Record<string, any>): { criteria?: ISavedViewCriteria; error?: string } {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      return { error: 'Criteria must be an object' };
+    }
+
+    const criteria: ISavedViewCriteria = {};
+
+    if (input.status !== undefined) {
+      const statuses = typeof input.status === 'string' ? input.status.split(',') : input.status;
+      if (!Array.isArray(statuses) || statuses.some((status: any) => typeof status !== 'string')) {
+        return { error: 'Status must be a list of statuses' };
+      }
+      criteria.status = statuses.map((status: string) => status.trim()).filter(Boolean) as ResponseWorkflowStatus[];
+    }
+
+    if (input.tags !== undefined) {
+      const tags = typeof input.tags === 'string' ? input.tags.split(',') : input.tags;
+      if (!Array.isArray(tags) || tags.some((tag: any) => typeof tag !== 'string')) {
+        return { error: 'Tags must be a list of strings' };
+      }
+      criteria.tags = ResponseWorkflowService.normalizeTags(tags);
+    }
+
+    if (input.assignedTo !== undefined && input.assignedTo !== null && input.assignedTo !== '') {
+      criteria.assignedTo = String(input.assignedTo);
+    }
+
+    if (input.hasNotes !== undefined && input.hasNotes !== null && input.hasNotes !== '') {
+      criteria.hasNotes = input.hasNotes === true || input.hasNotes === 'true';
+    }
+
+    if (input.filter !== undefined && input.filter !== null && input.filter !== '') {
+      let filter = input.filter;
+      if (typeof filter === 'string') {
+        try {
+          filter = JSON.parse(filter);
+        } catch {
+          return { error: 'Filter must be valid JSON' };
+        }
+      }
+      criteria.filter = Array.isArray(filter) ? { logic: 'and', conditions: filter } : filter;
+    }
+
+    ['search', 'datePreset'].forEach(key => {
+      if (typeof input[key] === 'string' && input[key].trim()) {
+        (criteria as any)[key] = input[key].trim();
+      }
+    });
+
+    for (const key of ['startDate', 'endDate'] as const) {
+      if (input[key]) {
+        const date = new Date(input[key]);
+        if (isNaN(date.getTime())) return { error: `Invalid ${key}` };
+        criteria[key] = date;
+      }
+    }
+
+    return { criteria };
+  }
+}
+
+export default SavedViewService;
@@ -0,0 +1,370 @@
+import { Types } from 'mongoose';
+import Form from '../models/Form';
+import Job from '../models/Job';
+import PartialSubmission from '../models/PartialSubmission';
+import ScheduledTask from '../models/ScheduledTask';
+import ScheduledTaskRun from '../models/ScheduledTaskRun';
+import Workspace from '../models/Workspace';
+import JobQueueService from './JobQueueService';
+import {
+  IJob,
+  IJobHandlerResult,
+  IScheduledTask,
+  IScheduledTaskDefinition,
+  IScheduledTaskRun,
+  IScheduledTaskSummary,
+  ScheduledTaskRunTrigger
+} from '../types';
+
+export const SCHEDULED_TASK_JOB = 'scheduler.task';
+
+const MINUTE_MS = 60 * 1000;
+// How long a run holds its task's lock without renewing it
+const LOCK_LEASE_MS = 10 * MINUTE_MS;
+const MAX_INTERVAL_MINUTES = 30 * 24 * 60;
+
+type ObjectIdLike = string | Types.ObjectId;
+
+/**
+ * Thrown when a scheduled task does not exist or cannot be changed as asked
+ */
+export class SchedulerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SchedulerError';
+  }
+}
+
+/**
+ * Thrown when a scheduled task is not registered
+ */
+export class ScheduledTaskNotFoundError extends SchedulerError {
+  constructor(name: string) {
+    super(`Scheduled task ${name} not found`);
+    this.name = 'ScheduledTaskNotFoundError';
+  }
+}
+
+/**
+ * Scheduler Service
+ * Runs registered platform tasks on recurring intervals through the job queue. Each interval
+ * period is queued once under a dedupe key, so every server instance can schedule the same tasks
+ * without running them twice, and a lease on the task stops a manual run overlapping a scheduled
+ * one. Intervals are stored per task and can be changed, paused or run on demand by admins, and
+ * every run is kept in the task's history.
+ */
+export class SchedulerService {
+  private static tasks = new Map<string, IScheduledTaskDefinition>();
+
+  /**
+   * Register the queue handler that runs scheduled tasks, and the built-in tasks
+   */
+  static registerHandlers(): void {
+    JobQueueService.registerHandler(SCHEDULED_TASK_JOB, job => this.runTask(job));
+
+    this.registerTask({
+      name: 'partial_submissions.cleanup',
+      description: 'Delete partial submissions that have expired or were not saved for 30 days',
+      defaultIntervalMinutes: 6 * 60,
+      run: () => this.cleanupPartialSubmissions()
+    });
+    this.registerTask({
+      name: 'workspaces.update_analytics',
+      description: 'Recount the forms, responses, members and storage of active workspaces',
+      defaultIntervalMinutes: 60,
+      run: () => this.updateWorkspaceAnalytics()
+    });
+    this.registerTask({
+      name: 'forms.sync_analytics',
+      description: 'Reset form submission counts to the number of stored responses',
+      defaultIntervalMinutes: 24 * 60,
+      run: () => Form.recalculateAnalytics()
+    });
+  }
+
+  /**
+   * Add a task to the scheduler; it is scheduled by the next call to start()
+   * @param definition - Task name, description, default interval and what it runs
+   */
+  static registerTask(definition: IScheduledTaskDefinition): void {
+    this.tasks.set(definition.name, definition);
+  }
+
+  /**
+   * Store settings for newly registered tasks and queue the run for each task's current period
+   * Safe to call from every server instance: periods already queued are not queued again.
+   */
+  static async start(): Promise<void> {
+    for (const definition of Array.from(this.tasks.values())) {
+      const task = await ScheduledTask.findOneAndUpdate(
+        { name: definition.name },
+        { $setOnInsert: { name: definition.name, intervalMinutes: definition.defaultIntervalMinutes } },
+        { upsert: true, new: true, setDefaultsOnInsert: true }
+      );
+
+      const intervalMs = task!.intervalMinutes * MINUTE_MS;
+      await this.enqueueScheduled(task!, Math.floor(Date.now() / intervalMs), new Date());
+    }
+  }
+
+  /**
+   * List registered tasks with their settings and state
+   * @returns Task summaries
+   */
+  static async list(): Promise<IScheduledTaskSummary[]> {
+    const tasks = await ScheduledTask.find({ name: { $in: Array.from(this.tasks.keys()) } }).lean();
+    const byName = new Map(tasks.map(task => [task.name, task as IScheduledTask]));
+    const queued = await Job.find({ type: SCHEDULED_TASK_JOB, status: 'pending' }).select('payload runAt').sort({ runAt: 1 }).lean();
+    const nextRunAt = new Map<string, Date>();
+    for (const job of queued) {
+      const task = byName.get(job.payload.task);
+      // Jobs queued for a replaced interval will not run the task
+      const current = job.payload.trigger === 'manual' || job.payload.intervalMinutes === task?.intervalMinutes;
+      if (current && !nextRunAt.has(job.payload.task)) nextRunAt.set(job.payload.task, job.runAt);
+    }
+
+    return Array.from(this.tasks.values()).map(definition => {
+      const task = byName.get(definition.name);
+
+      return {
+        name: definition.name,
+        description: definition.description,
+        intervalMinutes: task?.intervalMinutes ?? definition.defaultIntervalMinutes,
+        paused: !!task?.paused,
+        running: !!task?.lockedUntil && task.lockedUntil.getTime() > Date.now(),
+        nextRunAt: task?.paused ? undefined : nextRunAt.get(definition.name),
+        lastRunAt: task?.lastRunAt,
+        lastStatus: task?.lastStatus,
+        lastError: task?.lastError,
+        lastDurationMs: task?.lastDurationMs
+      };
+    });
+  }
+
+  /**
+   * List a task's runs, newest first
+   * @param name - Task name
+   * @param options - Paging
+   * @returns Runs and total count
+   */
+  static async getHistory(
+    name: string,
+    options: { page?: number; limit?: number } = {}
+  ): Promise<{ runs: IScheduledTaskRun[]; total: number }> {
+    this.getDefinition(name);
+
+    const limit = Math.min(100, Math.max(1, options.limit || 20));
+    const page = Math.max(1, options.page || 1);
+
+    const [runs, total] = await Promise.all([
+      ScheduledTaskRun.find({ task: name }).sort({ startedAt: -1 }).skip((page - 1) * limit).limit(limit).lean(),
+      ScheduledTaskRun.countDocuments({ task: name })
+    ]);
+
+    return { runs: runs as IScheduledTaskRun[], total };
+  }
+
+  /**
+   * Stop scheduled runs of a task; runs can still be triggered manually
+   * @param name - Task name
+   * @param userId - Admin pausing it
+   * @returns Updated task
+   */
+  static async pause(name: string, userId: ObjectIdLike): Promise<IScheduledTask> {
+    const task = await this.getTask(name);
+    if (task.paused) throw new SchedulerError(`Scheduled task ${name} is already paused`);
+
+    task.paused = true;
+    task.pausedBy = new Types.ObjectId(userId.toString());
+    task.pausedAt = new Date();
+    return task.save();
+  }
+
+  /**
+   * Resume scheduled runs of a paused task, from its next period
+   * @param name - Task name
+   * @returns Updated task
+   */
+  static async resume(name: string): Promise<IScheduledTask> {
+    const task = await this.getTask(name);
+    if (!task.paused) throw new SchedulerError(`Scheduled task ${name} is not paused`);
+
+    task.paused = false;
+    task.pausedBy = undefined;
+    task.pausedAt = undefined;
+    return task.save();
+  }
+
+  /**
+   * Change how often a task runs; the new interval applies from its next period
+   * @param name - Task name
+   * @param intervalMinutes - Minutes between runs
+   * @returns Updated task
+   */
+  static async setInterval(name: string, intervalMinutes: number): Promise<IScheduledTask> {
+    if (!Number.isInteger(intervalMinutes) || intervalMinutes < 1 || intervalMinutes > MAX_INTERVAL_MINUTES) {
+      throw new SchedulerError(`Interval must be a whole number of minutes between 1 and ${MAX_INTERVAL_MINUTES}`);
+    }
+
+    const task = await this.getTask(name);
+    if (task.intervalMinutes === intervalMinutes) return task;
+
+    // Jobs queued for the old interval find it changed and skip without queuing another
+    task.intervalMinutes = intervalMinutes;
+    await task.save();
+
+    const intervalMs = intervalMinutes * MINUTE_MS;
+    const period = Math.floor(Date.now() / intervalMs) + 1;
+    await this.enqueueScheduled(task, period, new Date(period * intervalMs));
+
+    return task;
+  }
+
+  /**
+   * Queue a run of a task now, outside its schedule
+   * @param name - Task name
+   * @param userId - Admin who asked for it
+   * @returns Queued job
+   */
+  static async trigger(name: string, userId: ObjectIdLike): Promise<IJob> {
+    const task = await this.getTask(name);
+    if (task.lockedUntil && task.lockedUntil.getTime() > Date.now()) {
+      throw new SchedulerError(`Scheduled task ${name} is already running`);
+    }
+
+    const queued = await Job.findOne({ type: SCHEDULED_TASK_JOB, status: 'pending', 'payload.task': name, 'payload.trigger': 'manual' });
+    if (queued) return queued;
+
+    return JobQueueService.enqueue(
+      SCHEDULED_TASK_JOB,
+      { task: name, trigger: 'manual', requestedBy: userId.toString() },
+      { maxAttempts: 1 }
+    );
+  }
+
+  // Job handlers
+
+  private static async runTask(job: IJob): Promise<IJobHandlerResult> {
+    const { task: name, trigger = 'scheduled', period, intervalMinutes, requestedBy } = job.payload as {
+      task: string;
+      trigger?: ScheduledTaskRunTrigger;
+      period?: number;
+      intervalMinutes?: number;
+      requestedBy?: string;
+    };
+    const definition = this.tasks.get(name);
+    const task = await ScheduledTask.findOne({ name });
+    if (!definition || !task) return { result: { task: name, skipped: 'not_registered' } };
+
+    if (trigger === 'scheduled') {
+      // A job queued before the interval was changed; the new interval has its own jobs
+      if (intervalMinutes !== task.intervalMinutes || typeof period !== 'number') {
+        return { result: { task: name, skipped: 'interval_changed' } };
+      }
+
+      // Queue the next period first, so a failing or paused run does not stop the schedule
+      const intervalMs = task.intervalMinutes * MINUTE_MS;
+      await this.enqueueScheduled(task, period + 1, new Date((period + 1) * intervalMs));
+
+      if (task.paused) return { result: { task: name, skipped: 'paused' } };
+    }
+
+    const run = new ScheduledTaskRun({ task: name, trigger, jobId: job._id, requestedBy, startedAt: new Date() });
+    const locked = await ScheduledTask.findOneAndUpdate(
+      { name, $or: [{ lockedUntil: null }, { lockedUntil: { $lte: new Date() } }] },
+      { $set: { lockedBy: run._id.toString(), lockedUntil: new Date(Date.now() + LOCK_LEASE_MS) } }
+    );
+    if (!locked) {
+      // Another instance is still running the task
+      run.status = 'skipped';
+      run.completedAt = run.startedAt;
+      run.durationMs = 0;
+      await run.save();
+      return { result: { task: name, runId: run._id, skipped: 'already_running' } };
+    }
+    await run.save();
+
+    // Keep the lock while long-running tasks work
+    const heartbeat = setInterval(() => {
+      ScheduledTask.updateOne(
+        { name, lockedBy: run._id.toString() },
+        { $set: { lockedUntil: new Date(Date.now() + LOCK_LEASE_MS) } }
+      ).catch(error => console.error(`Scheduled task ${name} heartbeat error:`, error));
+    }, Math.floor(LOCK_LEASE_MS / 3));
+
+    try {
+      const result = (await definition.run()) || {};
+      await this.finish(run, 'completed', { result });
+
+      return { result: { task: name, runId: run._id, ...result } };
+    } catch (error: any) {
+      await this.finish(run, 'failed', { error: error?.message || String(error) });
+      throw error;
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  // Tasks
+
+  private static async cleanupPartialSubmissions(): Promise<Record<string, any>> {
+    const { deletedCount } = await PartialSubmission.cleanupExpired();
+
+    return { deleted: deletedCount || 0 };
+  }
+
+  private static async updateWorkspaceAnalytics(): Promise<Record<string, any>> {
+    let updated = 0;
+    for await (const workspace of Workspace.find({ isActive: true }).cursor({ batchSize: 100 })) {
+      await (workspace as any).updateAnalytics();
+      updated++;
+    }
+
+    return { workspaces: updated };
+  }
+
+  // Helper methods
+
+  private static getDefinition(name: string): IScheduledTaskDefinition {
+    const definition = this.tasks.get(name);
+    if (!definition) throw new ScheduledTaskNotFoundError(name);
+    return definition;
+  }
+
+  private static async getTask(name: string): Promise<IScheduledTask> {
+    const definition = this.getDefinition(name);
+    const task = await ScheduledTask.findOneAndUpdate(
+      { name },
+      { $setOnInsert: { name, intervalMinutes: definition.defaultIntervalMinutes } },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+    return task!;
+  }
+
+  private static async finish(
+    run: IScheduledTaskRun,
+    status: 'completed' | 'failed',
+    outcome: { result?: Record<string, any>; error?: string }
+  ): Promise<void> {
+    const completedAt = new Date();
+    const durationMs = completedAt.getTime() - run.startedAt.getTime();
+
+    await ScheduledTaskRun.updateOne({ _id: run._id }, { $set: { status, completedAt, durationMs, ...outcome } });
+    const last = { lastRunAt: run.startedAt, lastStatus: status, lastDurationMs: durationMs };
+    await ScheduledTask.updateOne(
+      { name: run.task },
+      status === 'failed' ? { $set: { ...last, lastError: outcome.error } } : { $set: last, $unset: { lastError: 1 } }
+    );
+    await ScheduledTask.updateOne({ name: run.task, lockedBy: run._id.toString() }, { $unset: { lockedBy: 1, lockedUntil: 1 } });
+  }
+
+  private static enqueueScheduled(task: IScheduledTask, period: number, runAt: Date): Promise<IJob> {
+    return JobQueueService.enqueue(
+      SCHEDULED_TASK_JOB,
+      { task: task.name, trigger: 'scheduled', period, intervalMinutes: task.intervalMinutes },
+      { runAt, dedupeKey: `${SCHEDULED_TASK_JOB}:${task.name}:${task.intervalMinutes}:${period}`, maxAttempts: 1 }
+    );
+  }
+}
+
+export default SchedulerService;
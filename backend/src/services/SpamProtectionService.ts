@@ -0,0 +1,349 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import FormResponse from '../models/FormResponse';
+import { IForm, IFormField, IResponseSpamCheck, ISpamChallenge, ISpamProof, ISpamProtectionSettings, ISpamSignal, SpamSignalCode } from '../types';
+
+const SESSION_TOKEN_PURPOSE = 'form_session';
+const HONEYPOT_FIELD_NAMES = ['website_url', 'company_website', 'homepage_link'];
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"']+|\[url[=\]]/gi;
+
+// How much each signal adds to the spam score; the form threshold decides what is quarantined
+export const SPAM_SIGNAL_WEIGHTS: Record<SpamSignalCode, number> = {
+  HONEYPOT_FILLED: 10,
+  TOKEN_MISSING: 3,
+  TOKEN_INVALID: 5,
+  TOKEN_EXPIRED: 2,
+  TOKEN_REUSED: 4,
+  TOO_FAST: 5,
+  DUPLICATE_PAYLOAD: 5,
+  TOO_MANY_LINKS: 3,
+  BLOCKED_KEYWORD: 5,
+  PROOF_OF_WORK_FAILED: 5
+};
+
+export const DEFAULT_SPAM_PROTECTION_SETTINGS: ISpamProtectionSettings = {
+  enabled: true,
+  honeypot: true,
+  minFillSeconds: 3,
+  duplicateWindowMinutes: 60,
+  maxLinks: 3,
+  blockedKeywords: [],
+  proofOfWork: { enabled: false, difficulty: 16 },
+  threshold: 5
+};
+
+interface ISessionToken {
+  formId: string;
+  purpose: string;
+  jti: string;
+  issuedAt: number;
+  pow?: number;
+}
+
+/**
+ * Spam Protection Service
+ * Scores public submissions with a server-issued form token, a honeypot field,
+ * content heuristics and an optional proof-of-work challenge
+ */
+export class SpamProtectionService {
+
+  /**
+   * Get a form's spam protection settings, with defaults for forms saved before they existed
+   * @param form - Form to read
+   * @returns Complete settings
+   */
+  static getSettings(form: Pick<IForm, 'settings'>): ISpamProtectionSettings {
+    const settings: any = form.settings?.spamProtection || {};
+    const plain = settings.toObject ? settings.toObject() : settings;
+
+    return {
+      ...DEFAULT_SPAM_PROTECTION_SETTINGS,
+      ...plain,
+      blockedKeywords: plain.blockedKeywords || [],
+      proofOfWork: { ...DEFAULT_SPAM_PROTECTION_SETTINGS.proofOfWork, ...(plain.proofOfWork || {}) }
+    };
+  }
+
+  /**
+   * Issue the challenge a respondent's browser sends back with its submission
+   * @param form - Form being viewed
+   * @returns Form token, honeypot field name and proof-of-work challenge, or null when protection is off
+   */
+  static issueChallenge(form: IForm): ISpamChallenge | null {
+    const settings = this.getSettings(form);
+    if (!settings.enabled) return null;
+
+    const jti = crypto.randomBytes(16).toString('hex');
+    const ttlHours = parseInt(process.env.FORM_SESSION_TOKEN_TTL_HOURS || '24', 10);
+    const token = jwt.sign(
+      {
+        formId: form._id.toString(),
+        purpose: SESSION_TOKEN_PURPOSE,
+        // Milliseconds, so short minimum fill times can be checked
+        issuedAt: Date.now(),
+        ...(settings.proofOfWork.enabled && { pow: settings.proofOfWork.difficulty })
+      },
+      process.env.JWT_SECRET!,
+      { expiresIn: `${ttlHours}h`, jwtid: jti }
+    );
+
+    return {
+      token,
+      honeypotField: settings.honeypot ? this.getHoneypotField(form) : null,
+      proofOfWork: settings.proofOfWork.enabled
+        ? { challenge: jti, difficulty: settings.proofOfWork.difficulty }
+        : null
+    };
+  }
+
+  /**
+   * Score a public submission
+   * @param form - Form being submitted
+   * @param proof - Token, honeypot value and proof-of-work nonce sent by the browser
+   * @param responses - Submitted answers
+   * @param now - Reference time (defaults to current time)
+   * @returns Spam check to store on the response, or null when protection is off
+   */
+  static async evaluate(
+    form: IForm,
+    proof: ISpamProof,
+    responses: Record<string, any>,
+    now: Date = new Date()
+  ): Promise<IResponseSpamCheck | null> {
+    const settings = this.getSettings(form);
+    if (!settings.enabled) return null;
+
+    const payloadHash = this.hashPayload(responses);
+    const { signals, session } = this.checkProof(form, settings, proof, now);
+    signals.push(...this.checkContent(form.fields || [], settings, responses));
+
+    // Submissions without typed answers (e.g. only uploads) all hash the same
+    const checkDuplicates = settings.duplicateWindowMinutes > 0 && payloadHash !== this.hashPayload({});
+
+    const [tokenReused, duplicate] = await Promise.all([
+      session
+        ? FormResponse.exists({ formId: form._id, 'spam.tokenId': session.jti })
+        : null,
+      checkDuplicates
+        ? FormResponse.exists({
+          formId: form._id,
+          'spam.payloadHash': payloadHash,
+          submittedAt: { $gte: new Date(now.getTime() - settings.duplicateWindowMinutes * 60 * 1000) }
+        })
+        : null
+    ]);
+
+    if (tokenReused) signals.push(this.signal('TOKEN_REUSED'));
+    if (duplicate) {
+      signals.push(this.signal('DUPLICATE_PAYLOAD', `Same answers within ${settings.duplicateWindowMinutes} minutes`));
+    }
+
+    const score = signals.reduce((total, signal) => total + signal.weight, 0);
+
+    return {
+      score,
+      signals,
+      quarantined: score >= settings.threshold,
+      checkedAt: now,
+      payloadHash,
+      tokenId: session?.jti
+    };
+  }
+
+  /**
+   * Check the form token, honeypot and proof of work of a submission
+   * @param form - Form being submitted
+   * @param settings - Spam protection settings
+   * @param proof - Values sent by the browser
+   * @param now - Reference time
+   * @returns Signals raised, and the decoded token when it is valid
+   */
+  static checkProof(
+    form: IForm,
+    settings: ISpamProtectionSettings,
+    proof: ISpamProof,
+    now: Date = new Date()
+  ): { signals: ISpamSignal[]; session?: ISessionToken } {
+    const signals: ISpamSignal[] = [];
+
+    if (settings.honeypot && typeof proof.honeypot === 'string' && proof.honeypot.trim()) {
+      signals.push(this.signal('HONEYPOT_FILLED'));
+    }
+
+    if (!proof.token) {
+      signals.push(this.signal('TOKEN_MISSING'));
+      if (settings.proofOfWork.enabled) signals.push(this.signal('PROOF_OF_WORK_FAILED', 'No challenge was solved'));
+      return { signals };
+    }
+
+    let session: ISessionToken;
+    try {
+      session = jwt.verify(proof.token, process.env.JWT_SECRET!, { clockTimestamp: Math.floor(now.getTime() / 1000) }) as ISessionToken;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        // A respondent who left the tab open too long is still checked on content
+        signals.push(this.signal('TOKEN_EXPIRED'));
+        return { signals };
+      }
+      signals.push(this.signal('TOKEN_INVALID'));
+      return { signals };
+    }
+
+    if (session.purpose !== SESSION_TOKEN_PURPOSE || session.formId !== form._id.toString()) {
+      signals.push(this.signal('TOKEN_INVALID', 'Token was issued for another form'));
+      return { signals };
+    }
+
+    const elapsedSeconds = (now.getTime() - session.issuedAt) / 1000;
+    if (elapsedSeconds < settings.minFillSeconds) {
+      signals.push(this.signal('TOO_FAST', `Submitted after ${elapsedSeconds.toFixed(1)}s`));
+    }
+
+    if (settings.proofOfWork.enabled) {
+      const difficulty = session.pow || settings.proofOfWork.difficulty;
+      if (typeof proof.nonce !== 'string' || !this.verifyProofOfWork(session.jti, proof.nonce, difficulty)) {
+        signals.push(this.signal('PROOF_OF_WORK_FAILED'));
+      }
+    }
+
+    return { signals, session };
+  }
+
+  /**
+   * Check the answers of a submission for links and blocked keywords
+   * @param fields - Form fields
+   * @param settings - Spam protection settings
+   * @param responses - Submitted answers
+   * @returns Signals raised
+   */
+  static checkContent(
+    fields: IFormField[],
+    settings: ISpamProtectionSettings,
+    responses: Record<string, any>
+  ): ISpamSignal[] {
+    const signals: ISpamSignal[] = [];
+    // URL fields are expected to hold a link
+    const urlFieldIds = fields.filter(field => field.type === 'url').map(field => field.id);
+    const text = Object.entries(responses || {})
+      .filter(([fieldId]) => !urlFieldIds.includes(fieldId))
+      .map(([, value]) => this.collectText(value))
+      .join('\n');
+
+    const links = this.countLinks(text);
+    if (links > settings.maxLinks) {
+      signals.push(this.signal('TOO_MANY_LINKS', `${links} links`));
+    }
+
+    const keywords = this.findKeywords(text, settings.blockedKeywords);
+    if (keywords.length > 0) {
+      signals.push(this.signal('BLOCKED_KEYWORD', keywords.join(', ')));
+    }
+
+    return signals;
+  }
+
+  /**
+   * Hash answers so resubmissions of the same payload can be recognized
+   * Keys are sorted, text is trimmed and lowercased and blank answers and uploads are left out,
+   * so trivial variations hash the same
+   * @param responses - Submitted answers
+   * @returns Hex SHA-256 digest
+   */
+  static hashPayload(responses: Record<string, any>): string {
+    const normalize = (value: any): any => {
+      if (typeof value === 'string') return value.trim().toLowerCase() || undefined;
+      if (Array.isArray(value)) return value.map(normalize);
+      if (value && typeof value === 'object' && !(value instanceof Date)) {
+        if (this.isUploadedFile(value)) return undefined;
+        return Object.keys(value).sort().reduce((result: Record<string, any>, key) => {
+          const normalized = normalize(value[key]);
+          if (normalized !== undefined && normalized !== null) result[key] = normalized;
+          return result;
+        }, {});
+      }
+      return value;
+    };
+
+    return crypto.createHash('sha256').update(JSON.stringify(normalize(responses || {}))).digest('hex');
+  }
+
+  /**
+   * Count the links in a piece of text
+   * @param text - Text to scan
+   * @returns Number of URLs and BBCode links
+   */
+  static countLinks(text: string): number {
+    return (text.match(LINK_PATTERN) || []).length;
+  }
+
+  /**
+   * Find the blocked keywords a piece of text contains, ignoring case
+   * @param text - Text to scan
+   * @param keywords - Blocked keywords or phrases
+   * @returns Keywords found
+   */
+  static findKeywords(text: string, keywords: string[]): string[] {
+    const lowerText = text.toLowerCase();
+    return keywords
+      .map(keyword => keyword.trim().toLowerCase())
+      .filter(keyword => keyword && lowerText.includes(keyword));
+  }
+
+  /**
+   * Check a proof-of-work solution: SHA-256 of `challenge:nonce` must start with enough zero bits
+   * @param challenge - Challenge issued with the form token
+   * @param nonce - Solution found by the browser
+   * @param difficulty - Required leading zero bits
+   * @returns Whether the solution is valid
+   */
+  static verifyProofOfWork(challenge: string, nonce: string, difficulty: number): boolean {
+    if (nonce.length > 64) return false;
+
+    const hash = crypto.createHash('sha256').update(`${challenge}:${nonce}`).digest();
+    let zeroBits = 0;
+
+    for (const byte of hash) {
+      if (byte === 0) {
+        zeroBits += 8;
+        continue;
+      }
+      zeroBits += Math.clz32(byte) - 24;
+      break;
+    }
+
+    return zeroBits >= difficulty;
+  }
+
+  /**
+   * Pick the honeypot input name for a form, avoiding its own field IDs
+   * @param form - Form being viewed
+   * @returns Input name
+   */
+  static getHoneypotField(form: Pick<IForm, 'fields'>): string {
+    const fieldIds = (form.fields || []).map(field => field.id);
+    return HONEYPOT_FIELD_NAMES.find(name => !fieldIds.includes(name)) || `hp_${crypto.randomBytes(4).toString('hex')}`;
+  }
+
+  // Helper methods
+
+  private static signal(code: SpamSignalCode, detail?: string): ISpamSignal {
+    return { code, weight: SPAM_SIGNAL_WEIGHTS[code], ...(detail && { detail }) };
+  }
+
+  private static isUploadedFile(value: Record<string, any>): boolean {
+    return typeof value.filename === 'string' && typeof value.mimetype === 'string';
+  }
+
+  private static collectText(value: any): string {
+    if (typeof value === 'string') return value;
+    if (Array.isArray(value)) return value.map(item => this.collectText(item)).join('\n');
+    if (value && typeof value === 'object') {
+      // Uploaded files are described by the server, not the respondent
+      if (this.isUploadedFile(value)) return '';
+      return Object.values(value).map(item => this.collectText(item)).join('\n');
+    }
+    return '';
+  }
+}
+
+export default SpamProtectionService;
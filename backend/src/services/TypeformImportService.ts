@@ -1,4 +1,5 @@
 import { IFormField, IFormCustomization, IFormSettings, FormFieldType } from '../types';
+import { DEFAULT_SPAM_PROTECTION_SETTINGS } from './SpamProtectionService';
 
 /**
  * Typeform Import Service
@@ -214,7 +215,12 @@ export class TypeformImportService {
       passwordProtection: { enabled: false },
       responseLimit: { enabled: false },
       schedule: { enabled: false },
-      gdpr: { enabled: false, dataRetentionDays: 365 }
+      gdpr: { enabled: false, dataRetentionDays: 365 },
+      spamProtection: {
+        ...DEFAULT_SPAM_PROTECTION_SETTINGS,
+        blockedKeywords: [],
+        proofOfWork: { ...DEFAULT_SPAM_PROTECTION_SETTINGS.proofOfWork }
+      }
     };
   }
 
@@ -0,0 +1,283 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import IntegrationExecution from '../models/IntegrationExecution';
+import { REDACTED_ANSWER } from './FieldEncryptionService';
+import {
+  IIntegration,
+  IIntegrationEvent,
+  IIntegrationExecution,
+  IIntegrationExecutionContext,
+  IntegrationType
+} from '../types';
+
+const MAX_STORED_BODY_LENGTH = 10000;
+const SIGNATURE_HEADER = 'X-Youform-Signature';
+const TIMESTAMP_HEADER = 'X-Youform-Timestamp';
+const WEBHOOK_TYPES: IntegrationType[] = ['webhook', 'zapier', 'make'];
+
+export interface IWebhookAttempt {
+  status: 'succeeded' | 'failed';
+  request: NonNullable<IIntegrationExecution['request']>;
+  response?: IIntegrationExecution['response'];
+  latencyMs: number;
+  error?: string;
+}
+
+/**
+ * Webhook Delivery Service
+ * Sends signed webhook requests and records every attempt
+ */
+export class WebhookDeliveryService {
+
+  /**
+   * Deliver an event to a webhook integration and persist the attempt
+   * @param integration - Webhook integration
+   * @param event - Event to deliver
+   * @param context - Delivery identifier and attempt number
+   * @param payload - Body to send instead of the standard event payload
+   * @returns Stored execution record
+   */
+  static async deliver(
+    integration: IIntegration,
+    event: IIntegrationEvent,
+    context: IIntegrationExecutionContext,
+    payload?: Record<string, any>
+  ): Promise<IIntegrationExecution> {
+    const attempt = await this.send(integration, event, context, payload);
+
+    return IntegrationExecution.create({
+      integrationId: integration._id,
+      formId: event.formId,
+      deliveryId: context.deliveryId,
+      eventId: event.eventId,
+      eventType: event.eventType,
+      attempt: context.attempt,
+      trigger: context.trigger || 'event',
+      redeliveryOf: context.redeliveryOf,
+      event: context.storedEvent || event,
+      ...attempt,
+      // The sent body holds the decrypted answers, so it is not kept
+      ...(context.storedEvent && { request: { ...attempt.request, body: REDACTED_ANSWER } })
+    });
+  }
+
+  /**
+   * Perform a single signed HTTP request for an event
+   * Never throws: network errors and non-2xx responses are reported as failed attempts
+   * @param integration - Webhook integration
+   * @param event - Event to deliver
+   * @param context - Delivery identifier and attempt number
+   * @param payload - Body to send instead of the standard event payload
+   * @returns Attempt details
+   */
+  static async send(
+    integration: IIntegration,
+    event: IIntegrationEvent,
+    context: IIntegrationExecutionContext,
+    payload?: Record<string, any>
+  ): Promise<IWebhookAttempt> {
+    const settings = this.getSettings(integration);
+    const url = this.getWebhookUrl(integration);
+    const body = JSON.stringify(payload || this.buildPayload(event, context, settings.includeMetadata));
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    const headers: Record<string, string> = {
+      ...settings.customHeaders,
+      'Content-Type': 'application/json',
+      'User-Agent': 'Youform-Integration/1.0',
+      'X-Youform-Event': event.eventType,
+      'X-Youform-Delivery': context.deliveryId,
+      'X-Youform-Attempt': String(context.attempt),
+      [TIMESTAMP_HEADER]: timestamp
+    };
+
+    const secret = integration.credentials?.webhookSecret;
+    if (secret) {
+      headers[SIGNATURE_HEADER] = `sha256=${this.sign(secret, timestamp, body)}`;
+    }
+
+    const request = { method: 'POST', url: url || '', headers, body };
+
+    if (!url) {
+      return { status: 'failed', request, latencyMs: 0, error: 'Webhook URL is not configured' };
+    }
+
+    return this.post(request, settings.timeout);
+  }
+
+  /**
+   * Send a signed payload that is not an integration event, e.g. a scheduled report
+   * @param url - Endpoint to post to
+   * @param payload - JSON body
+   * @param options - Event name and delivery ID headers, and the secret to sign with
+   * @returns Attempt details; not persisted
+   */
+  static async sendPayload(
+    url: string,
+    payload: Record<string, any>,
+    options: { event: string; deliveryId: string; secret?: string; timeout?: number }
+  ): Promise<IWebhookAttempt> {
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'Youform-Integration/1.0',
+      'X-Youform-Event': options.event,
+      'X-Youform-Delivery': options.deliveryId,
+      [TIMESTAMP_HEADER]: timestamp
+    };
+
+    if (options.secret) {
+      headers[SIGNATURE_HEADER] = `sha256=${this.sign(options.secret, timestamp, body)}`;
+    }
+
+    return this.post({ method: 'POST', url, headers, body }, options.timeout ?? 30000);
+  }
+
+  /**
+   * Compute the signature sent in the X-Youform-Signature header
+   * @param secret - Integration webhook secret
+   * @param timestamp - Unix timestamp sent in X-Youform-Timestamp
+   * @param body - Raw request body
+   * @returns Hex-encoded HMAC-SHA256 of "timestamp.body"
+   */
+  static sign(secret: string, timestamp: string, body: string): string {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+
+  /**
+   * Verify a received webhook signature
+   * @param secret - Integration webhook secret
+   * @param timestamp - Value of X-Youform-Timestamp
+   * @param body - Raw request body
+   * @param signature - Value of X-Youform-Signature
+   * @returns Whether the signature matches
+   */
+  static verifySignature(secret: string, timestamp: string, body: string, signature: string): boolean {
+    const expected = Buffer.from(`sha256=${this.sign(secret, timestamp, body)}`);
+    const received = Buffer.from(signature || '');
+
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  }
+
+  /**
+   * Build the JSON body sent to the webhook
+   * @param event - Event to deliver
+   * @param context - Delivery identifier and attempt number
+   * @param includeMetadata - Whether to include response metadata
+   * @returns Webhook payload
+   */
+  static buildPayload(event: IIntegrationEvent, context: IIntegrationExecutionContext, includeMetadata: boolean = true): Record<string, any> {
+    return {
+      deliveryId: context.deliveryId,
+      eventId: event.eventId,
+      event: event.eventType,
+      occurredAt: event.occurredAt,
+      form: event.form,
+      responseId: event.responseId,
+      sessionId: event.sessionId,
+      responses: event.responses,
+      calculatedValues: event.calculatedValues,
+      ...(includeMetadata && { metadata: event.metadata }),
+      ...(context.redeliveryOf && { redeliveryOf: context.redeliveryOf })
+    };
+  }
+
+  /**
+   * Check whether an integration type is delivered as a webhook
+   * @param type - Integration type
+   * @returns Whether deliveries go through this service
+   */
+  static isWebhookType(type: IntegrationType): boolean {
+    return WEBHOOK_TYPES.includes(type);
+  }
+
+  /**
+   * Get the URL a webhook-style integration posts to
+   * @param integration - Integration
+   * @returns Target URL
+   */
+  static getWebhookUrl(integration: IIntegration): string | undefined {
+    const credentials = integration.credentials || ({} as IIntegration['credentials']);
+
+    switch (integration.type) {
+      case 'zapier':
+        return credentials.zapierWebhookUrl || credentials.webhookUrl;
+      case 'make':
+        return credentials.makeWebhookUrl || credentials.webhookUrl;
+      default:
+        return credentials.webhookUrl;
+    }
+  }
+
+  // Helper methods
+
+  private static async post(request: IWebhookAttempt['request'], timeout: number): Promise<IWebhookAttempt> {
+    const startTime = Date.now();
+    try {
+      const response = await axios.post(request.url, request.body, {
+        headers: request.headers,
+        timeout,
+        // Record every status instead of throwing on non-2xx
+        validateStatus: () => true,
+        transformResponse: data => data,
+        maxRedirects: 0
+      });
+      const latencyMs = Date.now() - startTime;
+      const succeeded = response.status >= 200 && response.status < 300;
+
+      return {
+        status: succeeded ? 'succeeded' : 'failed',
+        request,
+        response: {
+          status: response.status,
+          headers: this.flattenHeaders(response.headers),
+          body: this.truncate(typeof response.data === 'string' ? response.data : JSON.stringify(response.data))
+        },
+        latencyMs,
+        error: succeeded ? undefined : `Webhook responded with HTTP ${response.status}`
+      };
+    } catch (error: any) {
+      return {
+        status: 'failed',
+        request,
+        latencyMs: Date.now() - startTime,
+        error: error.code === 'ECONNABORTED'
+          ? `Webhook timed out after ${timeout}ms`
+          : error.message || 'Webhook request failed'
+      };
+    }
+  }
+
+  private static getSettings(integration: IIntegration) {
+    const webhook: any = integration.settings?.webhook || {};
+    const customHeaders = webhook.customHeaders instanceof Map
+      ? Object.fromEntries(webhook.customHeaders)
+      : { ...(webhook.customHeaders || {}) };
+
+    return {
+      timeout: webhook.timeout ?? 30000,
+      includeMetadata: webhook.includeMetadata ?? true,
+      customHeaders: customHeaders as Record<string, string>
+    };
+  }
+
+  private static flattenHeaders(headers: any): Record<string, string> {
+    const flattened: Record<string, string> = {};
+
+    Object.entries(headers || {}).forEach(([name, value]) => {
+      flattened[name] = Array.isArray(value) ? value.join(', ') : String(value);
+    });
+
+    return flattened;
+  }
+
+  private static truncate(value: string = ''): string {
+    return value.length > MAX_STORED_BODY_LENGTH
+      ? `${value.slice(0, MAX_STORED_BODY_LENGTH)}… [truncated]`
+      : value;
+  }
+}
+
+export default WebhookDeliveryService;
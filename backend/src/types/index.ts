@@ -192,6 +192,8 @@ export interface IForm extends BaseDocument {
   embedCode?: string;
   templateId?: Types.ObjectId;
   workspaceId?: Types.ObjectId;
+  responseLimitLockedBy?: string;
+  responseLimitLockedUntil?: Date;
   settings: IFormSettings;
   thankYouPage: IThankYouPage;
   payment: IPaymentSettings;
@@ -213,6 +215,8 @@ export interface IFormField {
   calculation: ICalculation;
   prefill: IPrefillSettings;
   properties: IFieldProperties;
+  sensitive?: boolean;
+  personal?: boolean;
 }
 
 export type FormFieldType = 
@@ -259,6 +263,23 @@ export interface ICalculation {
   displayType: 'currency' | 'percentage' | 'number' | 'decimal';
 }
 
+export interface ICalculatedValue {
+  value: number;
+  formatted: string | number;
+}
+
+export interface IFormulaError {
+  message: string;
+  position: number;
+  length: number;
+}
+
+export interface IFormulaValidation {
+  isValid: boolean;
+  errors: IFormulaError[];
+  fieldReferences: string[];
+}
+
 export interface IPrefillSettings {
   enabled: boolean;
   urlParameter?: string;
@@ -319,6 +340,49 @@ export interface IFileUpload {
   maxFiles: number;
 }
 
+export interface IUploadedFile {
+  id: string;
+  originalName: string;
+  filename: string;
+  mimetype: string;
+  size: number;
+  storageKey: string;
+  url: string;
+}
+
+export interface IDetectedFileType {
+  mimetype: string;
+  extension: string;
+}
+
+export interface IFileUploadCheck {
+  errors: IValidationError[];
+  answers: Record<string, IUploadedFile | IUploadedFile[]>;
+  totalBytes: number;
+  // Accepted files waiting in temporary storage until the response is saved
+  pending: Array<{ path: string; file: IUploadedFile }>;
+}
+
+// File storage types
+export type FileStorageBackendName = 'local' | 's3' | 'memory';
+
+export interface IFileStorageBackend {
+  name: FileStorageBackendName;
+  put(key: string, body: Buffer, contentType?: string): Promise<void>;
+  // Store a file from local disk without reading it into memory
+  putFile(key: string, filePath: string, contentType?: string): Promise<void>;
+  getStream(key: string): Promise<NodeJS.ReadableStream>;
+  remove(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  list(prefix: string): AsyncIterable<IStoredObject>;
+}
+
+export interface IFileDownloadToken {
+  key: string;
+  name: string;
+  type: string;
+}
+
 export interface IMediaField {
   url?: string;
   caption?: string;
@@ -369,7 +433,23 @@ export interface IFormSettings {
   passwordProtection: IPasswordProtection;
   responseLimit: IResponseLimit;
   schedule: IScheduleSettings;
+  closedMessage?: string;
   gdpr: IGdprSettings;
+  spamProtection: ISpamProtectionSettings;
+}
+
+export interface ISpamProtectionSettings {
+  enabled: boolean;
+  honeypot: boolean;
+  minFillSeconds: number;
+  duplicateWindowMinutes: number;
+  maxLinks: number;
+  blockedKeywords: string[];
+  proofOfWork: {
+    enabled: boolean;
+    difficulty: number;
+  };
+  threshold: number;
 }
 
 export interface INotificationSettings {
@@ -378,7 +458,9 @@ export interface INotificationSettings {
     recipients: string[];
     subject?: string;
     template?: string;
+    includeAttachments?: boolean;
   };
+  autoresponder?: IAutoresponderSettings;
   webhook: {
     enabled: boolean;
     url?: string;
@@ -386,6 +468,15 @@ export interface INotificationSettings {
   };
 }
 
+export interface IAutoresponderSettings {
+  enabled: boolean;
+  emailFieldId?: string;
+  subject?: string;
+  template?: string;
+  replyTo?: string;
+  includeAttachments?: boolean;
+}
+
 export interface IAutoSaveSettings {
   enabled: boolean;
   interval: number;
@@ -538,10 +629,14 @@ export interface IGDPRConsentData {
   dataCategories?: string[];
   retentionPeriod?: number;
   source?: string;
+  // Form whose consent wording was shown, and the response it was given with
+  formId?: string;
+  responseId?: string;
 }
 
 export interface IGDPRConsentRecord extends IGDPRConsentData {
   id: string;
+  version?: number;
   userId: string;
   consentType: IGDPRConsentType;
   consentTimestamp: Date;
@@ -673,6 +768,177 @@ export interface IGDPRValidationResult {
   recommendation: string;
 }
 
+// GDPR audit log types
+export type GDPRAuditAction =
+  | 'consent_recorded' | 'consent_revoked' | 'access_request' | 'erasure_request'
+  | 'portability_request' | 'retention_run' | 'subject_request_received' | 'subject_request_verified'
+  | 'subject_request_rejected';
+
+export interface IGDPRAuditEntry extends BaseDocument {
+  sequence: number;
+  action: GDPRAuditAction;
+  subjectId?: string;
+  subjectEmailHash?: string;
+  formId?: Types.ObjectId;
+  actorId?: Types.ObjectId;
+  requestId?: string;
+  details: Record<string, any>;
+  recordedAt: Date;
+  previousHash: string;
+  hash: string;
+}
+
+export interface IGDPRAuditRecord {
+  action: GDPRAuditAction;
+  subjectId?: string;
+  subjectEmail?: string;
+  formId?: string | Types.ObjectId;
+  actorId?: string | Types.ObjectId;
+  requestId?: string;
+  details?: Record<string, any>;
+}
+
+export interface IGDPRAuditFilters {
+  subject?: string;
+  formId?: string;
+  action?: GDPRAuditAction;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface IGDPRAuditVerification {
+  valid: boolean;
+  checked: number;
+  lastSequence: number;
+  brokenAt?: number;
+  reason?: string;
+}
+
+// Data subject request types
+export type DataSubjectRequestType = 'access' | 'erasure' | 'portability';
+export type DataSubjectRequestStatus = 'received' | 'verified' | 'fulfilled' | 'rejected';
+export type DataSubjectVerificationMethod = 'email' | 'identity_document' | 'account_login';
+
+export interface IDataSubjectIdentifiers {
+  emails: string[];
+  phones: string[];
+}
+
+export interface IDataSubjectRequestEvent {
+  status: DataSubjectRequestStatus;
+  at: Date;
+  by: Types.ObjectId;
+  note?: string;
+}
+
+export interface IDataSubjectRequest extends BaseDocument {
+  workspaceId?: Types.ObjectId;
+  ownerId?: Types.ObjectId;
+  type: DataSubjectRequestType;
+  status: DataSubjectRequestStatus;
+  identifiers: IDataSubjectIdentifiers;
+  receivedAt: Date;
+  dueAt: Date;
+  notes?: string;
+  createdBy: Types.ObjectId;
+  verification?: {
+    method: DataSubjectVerificationMethod;
+    verifiedBy: Types.ObjectId;
+    verifiedAt: Date;
+    notes?: string;
+  };
+  fulfillment?: {
+    fulfilledBy: Types.ObjectId;
+    fulfilledAt: Date;
+    responseIds: Types.ObjectId[];
+    erased: number;
+  };
+  rejection?: {
+    rejectedBy: Types.ObjectId;
+    rejectedAt: Date;
+    reason: string;
+  };
+  history: IDataSubjectRequestEvent[];
+  isOverdue: boolean;
+}
+
+export interface IDataSubjectMatch {
+  responseId: Types.ObjectId;
+  formId: Types.ObjectId;
+  formTitle: string;
+  submittedAt: Date;
+  matchedFields: Array<{ fieldId: string; label: string; type: FormFieldType }>;
+}
+
+export interface IDataSubjectExportEntry {
+  responseId: Types.ObjectId;
+  formId: Types.ObjectId;
+  formTitle: string;
+  submittedAt: Date;
+  answers: Record<string, any>;
+}
+
+// Consent ledger types
+export type ConsentRecordStatus = 'active' | 'revoked' | 'refused';
+
+export interface IConsentVersion extends BaseDocument {
+  formId: Types.ObjectId;
+  version: number;
+  consentText: string;
+  privacyPolicyUrl: string;
+  // SHA-256 of the text and URL, to tell whether the wording changed
+  contentHash: string;
+}
+
+export interface IConsentRecord extends BaseDocument {
+  consentId: string;
+  userId?: string;
+  formId?: Types.ObjectId;
+  workspaceId?: Types.ObjectId;
+  responseId?: Types.ObjectId;
+  consentVersionId?: Types.ObjectId;
+  version?: number;
+  // Snapshot of the wording the respondent was shown
+  consentText?: string;
+  privacyPolicyUrl?: string;
+  consentType: IGDPRConsentType;
+  purpose: string;
+  legalBasis: IGDPRConsentData['legalBasis'];
+  consentGiven: boolean;
+  consentMethod: IGDPRConsentData['consentMethod'];
+  explicitConsent: boolean;
+  granularConsent: Record<string, boolean>;
+  parentalConsent: boolean;
+  dataCategories: string[];
+  retentionPeriod: number;
+  source: string;
+  ipAddress?: string;
+  userAgent?: string;
+  consentedAt: Date;
+  revokedAt?: Date;
+  revocation?: {
+    method: IGDPRRevocationData['revocationMethod'];
+    userId?: string;
+    ipAddress?: string;
+    userAgent?: string;
+  };
+}
+
+export interface ISubmissionConsent {
+  // Version of the consent wording the respondent was shown
+  version?: number;
+  choices: Partial<Record<IGDPRConsentType, boolean>>;
+}
+
+export interface IConsentFilters {
+  formId?: string;
+  consentType?: IGDPRConsentType;
+  version?: number;
+  status?: ConsentRecordStatus;
+  startDate?: Date;
+  endDate?: Date;
+}
+
 // API Key Management interfaces
 export type IAPIKeyType = 'read_only' | 'read_write' | 'admin' | 'webhook' | 'public';
 
@@ -845,6 +1111,22 @@ export interface IScheduleSettings {
   timezone?: string;
 }
 
+export type FormAccessCode =
+  | 'FORM_NOT_OPEN'
+  | 'FORM_CLOSED'
+  | 'RESPONSE_LIMIT_REACHED'
+  | 'PASSWORD_REQUIRED'
+  | 'INVALID_PASSWORD'
+  | 'ALREADY_SUBMITTED';
+
+export interface IFormAccessResult {
+  allowed: boolean;
+  code?: FormAccessCode;
+  message?: string;
+  opensAt?: Date;
+  closedAt?: Date;
+}
+
 export interface IGdprSettings {
   enabled: boolean;
   consentText?: string;
@@ -953,6 +1235,152 @@ export interface IFormResponse extends BaseDocument {
   metadata: IResponseMetadata;
   isValid: boolean;
   validationErrors: IValidationError[];
+  hiddenFields: string[];
+  calculatedValues: Record<string, ICalculatedValue>;
+  submitterKeys?: string[];
+  revision: number;
+  lastEditedAt?: Date;
+  lastEditedBy?: Types.ObjectId;
+  status: ResponseWorkflowStatus;
+  statusChangedAt?: Date;
+  tags: string[];
+  notes: IResponseNote[];
+  lastNoteAt?: Date;
+  assignedTo?: Types.ObjectId;
+  searchText?: string;
+  spam?: IResponseSpamCheck;
+  uploadSize: number;
+  anonymizedAt?: Date;
+  applyConditionalLogic(form: IForm): Set<string>;
+  applyCalculations(form: IForm): void;
+  applySearchText(form: Pick<IForm, 'fields'>): string;
+  validateAgainstForm(): Promise<IValidationError[]>;
+}
+
+// Answers sent by a respondent, through the public form or by completing saved progress
+export interface IResponseSubmission {
+  responseId?: Types.ObjectId;
+  responses: Record<string, any>;
+  // Uploads already checked against their fields' rules
+  uploads?: IFileUploadCheck;
+  ipAddress?: string;
+  userAgent?: string;
+  metadata?: Record<string, any>;
+  // Token, honeypot value and proof-of-work nonce sent by the browser
+  protection?: ISpamProof;
+  // Keys marking the respondent as submitted, on single-submission forms
+  submitterKeys?: string[];
+  // Consent given, already checked against the form's current version
+  consent?: ISubmissionConsent;
+  consentVersion?: IConsentVersion | null;
+}
+
+export interface IResponseSubmissionResult {
+  // Saved unless invalid or denied; check isValid and validationErrors
+  response: IFormResponse;
+  // Set when the form stopped accepting responses before this one was saved
+  denied?: IFormAccessResult;
+}
+
+// Spam protection types
+export type SpamSignalCode =
+  | 'HONEYPOT_FILLED'
+  | 'TOKEN_MISSING'
+  | 'TOKEN_INVALID'
+  | 'TOKEN_EXPIRED'
+  | 'TOKEN_REUSED'
+  | 'TOO_FAST'
+  | 'DUPLICATE_PAYLOAD'
+  | 'TOO_MANY_LINKS'
+  | 'BLOCKED_KEYWORD'
+  | 'PROOF_OF_WORK_FAILED';
+
+export interface ISpamSignal {
+  code: SpamSignalCode;
+  weight: number;
+  detail?: string;
+}
+
+export interface IResponseSpamCheck {
+  score: number;
+  signals: ISpamSignal[];
+  quarantined: boolean;
+  checkedAt: Date;
+  payloadHash?: string;
+  tokenId?: string;
+  releasedAt?: Date;
+}
+
+export interface ISpamChallenge {
+  token: string;
+  honeypotField: string | null;
+  proofOfWork: { challenge: string; difficulty: number } | null;
+}
+
+export interface ISpamProof {
+  token?: string;
+  honeypot?: string;
+  nonce?: string;
+}
+
+// Response inbox workflow types
+export type ResponseWorkflowStatus = 'new' | 'in_review' | 'done' | 'spam';
+
+export interface IResponseNote {
+  _id: Types.ObjectId;
+  authorId: Types.ObjectId;
+  body: string;
+  createdAt: Date;
+}
+
+export interface IResponseWorkflowUpdate {
+  status?: ResponseWorkflowStatus;
+  tags?: string[];
+  assignedTo?: string | null;
+}
+
+// Response filter types
+export type ResponseFilterOperator = ICondition['operator'] | 'between' | 'in' | 'regex';
+
+export interface IResponseFilterCondition {
+  fieldId: string;
+  operator: ResponseFilterOperator;
+  value?: any;
+}
+
+export interface IResponseFilterGroup {
+  logic?: 'and' | 'or';
+  conditions: Array<IResponseFilterCondition | IResponseFilterGroup>;
+}
+
+// Saved response view types
+export type SavedViewVisibility = 'private' | 'workspace';
+
+export interface ISavedViewCriteria {
+  status?: ResponseWorkflowStatus[];
+  tags?: string[];
+  assignedTo?: string;
+  hasNotes?: boolean;
+  filter?: IResponseFilterGroup;
+  search?: string;
+  datePreset?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface ISavedView extends BaseDocument {
+  formId: Types.ObjectId;
+  workspaceId?: Types.ObjectId;
+  createdBy: Types.ObjectId;
+  name: string;
+  description?: string;
+  visibility: SavedViewVisibility;
+  criteria: ISavedViewCriteria;
+  columns: string[];
+  sortBy: string;
+  order: 'asc' | 'desc';
+  pageSize: number;
+  isVisibleTo(userId: string | Types.ObjectId): boolean;
 }
 
 export interface IResponseMetadata {
@@ -967,6 +1395,117 @@ export interface IValidationError {
   message: string;
 }
 
+// Response revision types
+export type ResponseEditMode = 'replace' | 'merge';
+
+export interface IResponseFieldChange {
+  fieldId: string;
+  label: string;
+  before?: any;
+  after?: any;
+  calculated?: boolean;
+}
+
+export interface IResponseRevision extends BaseDocument {
+  responseId: Types.ObjectId;
+  formId: Types.ObjectId;
+  revision: number;
+  editedBy: Types.ObjectId;
+  mode: ResponseEditMode;
+  reason?: string;
+  changes: IResponseFieldChange[];
+}
+
+export interface IResponseEditResult {
+  status: 'updated' | 'unchanged' | 'invalid' | 'conflict';
+  response?: IFormResponse;
+  revision?: IResponseRevision;
+  errors?: IValidationError[];
+}
+
+// Field encryption types
+export type DataKeyStatus = 'active' | 'retired';
+
+export interface IDataKey extends BaseDocument {
+  scope: string;
+  version: number;
+  status: DataKeyStatus;
+  wrappedKey: string;
+  masterKeyId: string;
+  retiredAt?: Date;
+  createdBy?: Types.ObjectId;
+}
+
+export interface IEncryptedAnswer {
+  __encrypted: 'v1';
+  keyId: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export interface IFieldEncryptionStatus {
+  scope: string;
+  masterKeyConfigured: boolean;
+  activeKey: Pick<IDataKey, 'version' | 'createdAt'> | null;
+  keys: Array<Pick<IDataKey, 'version' | 'status' | 'createdAt' | 'retiredAt'> & { wrappedWithCurrentMasterKey: boolean }>;
+  sensitiveFields: Array<{ formId: Types.ObjectId; formTitle: string; fieldId: string; label: string }>;
+  reencryption: Pick<IJob, 'status' | 'result' | 'lastError' | 'createdAt' | 'completedAt'> | null;
+}
+
+// Data retention types
+export type RetentionRunTrigger = 'scheduled' | 'manual';
+export type RetentionRunStatus = 'running' | 'completed' | 'failed';
+export type RetentionPolicySource = 'form' | 'workspace';
+
+export interface IRetentionPolicy {
+  deleteAfterDays: number;
+  anonymizeAfterDays: number;
+  deleteSource?: RetentionPolicySource;
+}
+
+export interface IRetentionFormPreview {
+  formId: Types.ObjectId;
+  workspaceId?: Types.ObjectId;
+  title: string;
+  policy: IRetentionPolicy;
+  deleteBefore?: Date;
+  anonymizeBefore?: Date;
+  toDelete: number;
+  toAnonymize: number;
+}
+
+export interface IRetentionFormResult {
+  formId: Types.ObjectId;
+  workspaceId?: Types.ObjectId;
+  title: string;
+  deleted: number;
+  anonymized: number;
+  skipped: number;
+  filesRemoved: number;
+}
+
+export interface IRetentionRunTotals {
+  forms: number;
+  deleted: number;
+  anonymized: number;
+  skipped: number;
+  filesRemoved: number;
+}
+
+export interface IRetentionRun extends BaseDocument {
+  trigger: RetentionRunTrigger;
+  status: RetentionRunStatus;
+  jobId?: Types.ObjectId;
+  requestedBy?: Types.ObjectId;
+  startedAt: Date;
+  completedAt?: Date;
+  formsChecked: number;
+  forms: IRetentionFormResult[];
+  totals: IRetentionRunTotals;
+  error?: string;
+}
+
 // Template rating interface
 export interface ITemplateRating {
   userId: Types.ObjectId;
@@ -1155,6 +1694,7 @@ export interface IIntegration extends BaseDocument {
   isPaused: boolean;
   pausedReason?: string;
   pausedAt?: Date;
+  throttledUntil?: Date;
   analytics: IIntegrationAnalytics;
   rateLimit: IIntegrationRateLimit;
   encryptionKey: string;
@@ -1195,6 +1735,8 @@ export interface IIntegrationSettings {
   webhook?: IWebhookSettings;
   googleSheets?: IGoogleSheetsSettings;
   slack?: ISlackSettings;
+  discord?: IDiscordSettings;
+  teams?: ITeamsSettings;
   email?: IEmailSettings;
   stripe?: IStripeSettings;
 }
@@ -1221,6 +1763,15 @@ export interface ISlackSettings {
   includeAttachments: boolean;
 }
 
+export interface IDiscordSettings extends ISlackSettings {
+  username?: string;
+  avatarUrl?: string;
+  color?: string;
+}
+
+// Teams cards use the same message options as Slack
+export type ITeamsSettings = ISlackSettings;
+
 export interface IEmailSettings {
   recipients: string[];
   subject?: string;
@@ -1247,6 +1798,8 @@ export type TriggerEvent =
 
 export interface ITriggerConditions {
   fieldConditions: IFieldCondition[];
+  // Only trigger for responses in this saved view
+  viewId?: Types.ObjectId;
   minResponseTime?: number;
   maxResponseTime?: number;
   requiredFields: string[];
@@ -1268,6 +1821,73 @@ export interface IIntegrationAnalytics {
   lastError?: string;
   averageResponseTime: number;
   uptime: number;
+  throttledExecutions: number;
+  lastThrottledAt?: Date;
+  lastThrottleReason?: string;
+}
+
+// Mail types
+export type MailTransportName = 'smtp' | 'file' | 'memory';
+
+export interface IMailAttachment {
+  filename: string;
+  path?: string;
+  storageKey?: string;
+  content?: Buffer;
+  contentType?: string;
+  size?: number;
+}
+
+export interface IMailMessage {
+  from: string;
+  to: string[];
+  replyTo?: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: IMailAttachment[];
+}
+
+export interface IMailSendResult {
+  messageId: string;
+  response?: string;
+}
+
+export interface IMailTransport {
+  name: MailTransportName;
+  send(message: IMailMessage): Promise<IMailSendResult>;
+}
+
+export type EmailMessageKind = 'owner_notification' | 'autoresponder' | 'integration' | 'digest' | 'export_ready';
+export type EmailMessageStatus = 'queued' | 'sent' | 'failed';
+
+export interface IEmailMessage extends BaseDocument {
+  kind: EmailMessageKind;
+  status: EmailMessageStatus;
+  from: string;
+  to: string[];
+  replyTo?: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachments: IMailAttachment[];
+  formId?: Types.ObjectId;
+  responseId?: Types.ObjectId;
+  integrationId?: Types.ObjectId;
+  eventId?: string;
+  dedupeKey?: string;
+  transport?: MailTransportName;
+  providerMessageId?: string;
+  providerResponse?: string;
+  attempts: number;
+  lastError?: string;
+  sentAt?: Date;
+  failedAt?: Date;
+}
+
+export interface INotificationAnswer {
+  label: string;
+  value: string;
 }
 
 export interface IIntegrationRateLimit {
@@ -1276,6 +1896,342 @@ export interface IIntegrationRateLimit {
   maxExecutionsPerDay: number;
 }
 
+export type IntegrationRateLimitWindow = 'minute' | 'hour' | 'day';
+
+export interface IIntegrationRateLimitStatus {
+  limited: boolean;
+  window?: IntegrationRateLimitWindow;
+  limit?: number;
+  count?: number;
+  retryAt?: Date;
+}
+
+export type IntegrationExecutionTrigger = 'event' | 'redelivery' | 'test';
+
+export interface IIntegrationExecutionContext {
+  deliveryId: string;
+  attempt: number;
+  // Saved views the event's response was in when it was dispatched
+  matchedViewIds?: string[];
+  trigger?: IntegrationExecutionTrigger;
+  redeliveryOf?: string;
+  // Kept on the execution record instead of a delivered event holding decrypted sensitive answers
+  storedEvent?: IIntegrationEvent;
+}
+
+export interface IIntegrationExecution extends BaseDocument {
+  integrationId: Types.ObjectId;
+  formId?: Types.ObjectId;
+  deliveryId: string;
+  eventId?: string;
+  eventType: TriggerEvent;
+  attempt: number;
+  trigger: IntegrationExecutionTrigger;
+  redeliveryOf?: string;
+  status: 'succeeded' | 'failed';
+  request?: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body: string;
+  };
+  response?: {
+    status?: number;
+    headers?: Record<string, string>;
+    body?: string;
+  };
+  latencyMs: number;
+  error?: string;
+  event: IIntegrationEvent;
+}
+
+export interface IIntegrationEvent {
+  eventId: string;
+  eventType: TriggerEvent;
+  formId: string;
+  occurredAt: Date;
+  form: {
+    id: string;
+    title: string;
+  };
+  responseId?: string;
+  sessionId?: string;
+  responses: Record<string, any>;
+  calculatedValues?: Record<string, ICalculatedValue>;
+  metadata?: Record<string, any>;
+}
+
+// Job queue types
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'dead_letter' | 'cancelled';
+
+export interface IJobBackoff {
+  strategy: 'fixed' | 'exponential';
+  delayMs: number;
+  maxDelayMs?: number;
+}
+
+export interface IJobAttemptError {
+  attempt: number;
+  message: string;
+  failedAt: Date;
+}
+
+export interface IJob extends BaseDocument {
+  type: string;
+  payload: Record<string, any>;
+  status: JobStatus;
+  priority: number;
+  attempts: number;
+  maxAttempts: number;
+  backoff: IJobBackoff;
+  runAt: Date;
+  lockedBy?: string;
+  lockedUntil?: Date;
+  dedupeKey?: string;
+  result?: any;
+  lastError?: string;
+  errorHistory: IJobAttemptError[];
+  startedAt?: Date;
+  completedAt?: Date;
+  deadLetteredAt?: Date;
+}
+
+export interface IJobEnqueueOptions {
+  runAt?: Date;
+  delayMs?: number;
+  priority?: number;
+  maxAttempts?: number;
+  backoff?: Partial<IJobBackoff>;
+  dedupeKey?: string;
+}
+
+export interface IJobHandlerResult {
+  result?: any;
+  // Put the job back in the queue without counting an attempt
+  rescheduleAt?: Date;
+}
+
+// Maintenance job types
+export type MaintenanceOperation =
+  | 'cleanup_expired_sessions' | 'cleanup_orphaned_uploads' | 'optimize_database' | 'clear_cache' | 'generate_reports';
+export type MaintenanceRunStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface IMaintenanceLogEntry {
+  at: Date;
+  level: 'info' | 'warn' | 'error';
+  message: string;
+}
+
+export interface IMaintenanceProgress {
+  processed: number;
+  total: number;
+  percent: number;
+}
+
+export interface IMaintenanceRun extends BaseDocument {
+  operation: MaintenanceOperation;
+  status: MaintenanceRunStatus;
+  // Set while queued or running; at most one active run per operation
+  active?: boolean;
+  jobId?: Types.ObjectId;
+  requestedBy: Types.ObjectId;
+  progress: IMaintenanceProgress;
+  logs: IMaintenanceLogEntry[];
+  result?: Record<string, any>;
+  error?: string;
+  cancelRequestedAt?: Date;
+  cancelledBy?: Types.ObjectId;
+  startedAt?: Date;
+  completedAt?: Date;
+  durationMs?: number;
+}
+
+export interface IMaintenanceContext {
+  log(message: string, level?: IMaintenanceLogEntry['level']): Promise<void>;
+  progress(processed: number, total: number): Promise<void>;
+  // Throws once an admin has asked for the run to be cancelled
+  checkCancelled(): Promise<void>;
+}
+
+export interface IStoredObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+// Scheduler types
+export type ScheduledTaskRunTrigger = 'scheduled' | 'manual';
+export type ScheduledTaskRunStatus = 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface IScheduledTaskDefinition {
+  name: string;
+  description: string;
+  defaultIntervalMinutes: number;
+  run(): Promise<Record<string, any> | void>;
+}
+
+export interface IScheduledTask extends BaseDocument {
+  name: string;
+  intervalMinutes: number;
+  paused: boolean;
+  pausedBy?: Types.ObjectId;
+  pausedAt?: Date;
+  // Lease held by the run in progress, so only one instance runs the task at a time
+  lockedBy?: string;
+  lockedUntil?: Date;
+  lastRunAt?: Date;
+  lastStatus?: ScheduledTaskRunStatus;
+  lastError?: string;
+  lastDurationMs?: number;
+}
+
+export interface IScheduledTaskRun extends BaseDocument {
+  task: string;
+  trigger: ScheduledTaskRunTrigger;
+  status: ScheduledTaskRunStatus;
+  jobId?: Types.ObjectId;
+  requestedBy?: Types.ObjectId;
+  startedAt: Date;
+  completedAt?: Date;
+  durationMs?: number;
+  result?: Record<string, any>;
+  error?: string;
+}
+
+export interface IScheduledTaskSummary {
+  name: string;
+  description: string;
+  intervalMinutes: number;
+  paused: boolean;
+  running: boolean;
+  nextRunAt?: Date;
+  lastRunAt?: Date;
+  lastStatus?: ScheduledTaskRunStatus;
+  lastError?: string;
+  lastDurationMs?: number;
+}
+
+// Analytics digest types
+export type DigestScope = 'form' | 'workspace';
+export type DigestFrequency = 'daily' | 'weekly' | 'monthly';
+export type DigestFormat = 'html' | 'pdf';
+export type DigestChannel = 'email' | 'webhook';
+export type DigestMetric = 'views' | 'starts' | 'completions' | 'conversionRate' | 'completionRate';
+
+export interface IFormActivity {
+  formId: Types.ObjectId;
+  // Start of the hour the activity happened in
+  hour: Date;
+  views: number;
+  starts: number;
+}
+
+export interface IDigestSubscription extends BaseDocument {
+  scope: DigestScope;
+  formId?: Types.ObjectId;
+  workspaceId?: Types.ObjectId;
+  userId: Types.ObjectId;
+  frequency: DigestFrequency;
+  timezone: string;
+  // Local time the digest is sent at
+  sendHour: number;
+  dayOfWeek: number;
+  dayOfMonth: number;
+  format: DigestFormat;
+  channel: DigestChannel;
+  recipients: string[];
+  webhookUrl?: string;
+  webhookSecret?: string;
+  active: boolean;
+  nextRunAt: Date;
+  lastSentAt?: Date;
+  lastPeriodEnd?: Date;
+  lastStatus?: 'sent' | 'failed';
+  lastError?: string;
+  lastPdfKey?: string;
+}
+
+export type IDigestSubscriptionInput = Partial<Pick<IDigestSubscription,
+  | 'scope' | 'frequency' | 'timezone' | 'sendHour' | 'dayOfWeek' | 'dayOfMonth' | 'format' | 'channel'
+  | 'recipients' | 'webhookUrl' | 'webhookSecret' | 'active'
+>> & { formId?: string; workspaceId?: string };
+
+export interface IDigestMetricChange {
+  current: number;
+  previous: number;
+  // Percentage change, or null when the previous period had none
+  change: number | null;
+}
+
+export interface IDigestTopAnswers {
+  fieldId: string;
+  label: string;
+  answers: Array<{ answer: string; count: number }>;
+}
+
+export interface IDigestFormSummary {
+  formId: Types.ObjectId;
+  title: string;
+  metrics: Record<DigestMetric, IDigestMetricChange>;
+}
+
+export interface IDigestReport {
+  scope: DigestScope;
+  title: string;
+  frequency: DigestFrequency;
+  timezone: string;
+  period: { start: Date; end: Date };
+  previousPeriod: { start: Date; end: Date };
+  metrics: Record<DigestMetric, IDigestMetricChange>;
+  // Workspace digests: the workspace's busiest forms
+  forms: IDigestFormSummary[];
+  // Form digests: the most common answers to choice fields
+  topAnswers: IDigestTopAnswers[];
+  generatedAt: Date;
+}
+
+// Response export types
+export type ResponseExportFormat = 'excel' | 'pdf' | 'csv';
+export type ResponseExportStatus = 'queued' | 'running' | 'completed' | 'failed' | 'expired';
+
+export interface IResponseExportOptions {
+  selectedFields?: string[];
+  includeMetadata?: boolean;
+  includeSummary?: boolean;
+  includeAnalysis?: boolean;
+  limit?: number;
+}
+
+export interface IResponseExportProgress {
+  processed: number;
+  total: number;
+  percent: number;
+}
+
+export interface IResponseExport extends BaseDocument {
+  formId: Types.ObjectId;
+  requestedBy: Types.ObjectId;
+  format: ResponseExportFormat;
+  status: ResponseExportStatus;
+  // Filter, search, date range and view parameters, resolved again when the export runs
+  params: Record<string, string>;
+  options: IResponseExportOptions;
+  jobId?: Types.ObjectId;
+  progress: IResponseExportProgress;
+  filename?: string;
+  mimeType?: string;
+  storageKey?: string;
+  size?: number;
+  recordCount?: number;
+  error?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  // The file is deleted after this
+  expiresAt?: Date;
+  downloadCount: number;
+  lastDownloadedAt?: Date;
+}
+
 // API Request/Response types
 export interface AuthenticatedRequest extends Request {
   user?: IUser;
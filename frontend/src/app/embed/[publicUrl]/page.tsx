@@ -1,6 +1,8 @@
 import { Metadata } from 'next';
 import { notFound } from 'next/navigation';
 import PublicFormRenderer from '@/components/PublicFormRenderer';
+import FormClosedState from '@/components/FormClosedState';
+import FormPasswordGate from '@/components/FormPasswordGate';
 
 interface EmbedFormPageProps {
   params: {
@@ -17,11 +19,17 @@ async function getForm(publicUrl: string) {
       }
     );
 
+    const data = await response.json();
+
+    // Closed, full or password-protected forms still return their public header
+    if (response.status === 401 || response.status === 403) {
+      return { ...data.data, access: { code: data.code, message: data.message } };
+    }
+
     if (!response.ok) {
       return null;
     }
 
-    const data = await response.json();
     return data.data.form;
   } catch (error) {
     console.error('Error fetching embed form:', error);
@@ -92,7 +100,24 @@ export default async function EmbedFormPage({ params }: EmbedFormPageProps) {
           </div>
 
           {/* Embed the form renderer */}
-          <PublicFormRenderer form={form} />
+          {form.access?.code === 'PASSWORD_REQUIRED' ? (
+            <FormPasswordGate
+              publicUrl={params.publicUrl}
+              title={form.title}
+              customization={form.customization}
+            />
+          ) : form.access ? (
+            <FormClosedState
+              title={form.title}
+              message={form.access.message}
+              code={form.access.code}
+              opensAt={form.opensAt}
+              customization={form.customization}
+              compact
+            />
+          ) : (
+            <PublicFormRenderer form={form} />
+          )}
         </div>
       </div>
     </div>
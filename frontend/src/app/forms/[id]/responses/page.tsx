@@ -3,11 +3,60 @@
 import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useAuth } from '@/lib/auth-context';
-import { Form, FormResponse } from '@/types';
+import { Form, FormResponse, ResponseFilterCondition, ResponseFilterOperator, ResponseMember, ResponseStatus, SavedView } from '@/types';
 import axios from 'axios';
 import toast from 'react-hot-toast';
 import Link from 'next/link';
 
+const STATUS_OPTIONS: { value: ResponseStatus; label: string; className: string }[] = [
+  { value: 'new', label: 'New', className: 'bg-blue-100 text-blue-800' },
+  { value: 'in_review', label: 'In review', className: 'bg-yellow-100 text-yellow-800' },
+  { value: 'done', label: 'Done', className: 'bg-green-100 text-green-800' },
+  { value: 'spam', label: 'Spam', className: 'bg-red-100 text-red-800' },
+];
+
+const SORT_OPTIONS = [
+  { value: 'submittedAt', label: 'Submitted' },
+  { value: 'status', label: 'Status' },
+  { value: 'statusChangedAt', label: 'Status changed' },
+  { value: 'assignedTo', label: 'Assignee' },
+  { value: 'tags', label: 'Tags' },
+  { value: 'lastNoteAt', label: 'Latest note' },
+];
+
+const FILTER_OPERATORS: { value: ResponseFilterOperator; label: string }[] = [
+  { value: 'equals', label: 'is' },
+  { value: 'not_equals', label: 'is not' },
+  { value: 'contains', label: 'contains' },
+  { value: 'not_contains', label: 'does not contain' },
+  { value: 'greater_than', label: 'greater than' },
+  { value: 'less_than', label: 'less than' },
+  { value: 'between', label: 'between' },
+  { value: 'in', label: 'is one of' },
+  { value: 'regex', label: 'matches pattern' },
+  { value: 'is_empty', label: 'is empty' },
+  { value: 'is_not_empty', label: 'is not empty' },
+];
+
+const DATE_PRESETS = [
+  { value: 'today', label: 'Today' },
+  { value: 'yesterday', label: 'Yesterday' },
+  { value: 'last_7_days', label: 'Last 7 days' },
+  { value: 'last_30_days', label: 'Last 30 days' },
+  { value: 'last_90_days', label: 'Last 90 days' },
+  { value: 'this_month', label: 'This month' },
+  { value: 'last_month', label: 'Last month' },
+  { value: 'this_year', label: 'This year' },
+];
+
+const emptyCondition = (): ResponseFilterCondition => ({ fieldId: '', operator: 'equals', value: '' });
+
+const memberName = (member?: ResponseMember | null) => {
+  if (!member) return 'Unknown';
+  const name = `${member.firstName || ''} ${member.lastName || ''}`.trim();
+  return name || member.email;
+};
+
 export default function FormResponsesPage() {
   const { user, loading: authLoading } = useAuth();
   const router = useRouter();
@@ -21,6 +70,32 @@ export default function FormResponsesPage() {
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [exporting, setExporting] = useState(false);
+  const [totalResponses, setTotalResponses] = useState(0);
+  const [statusCounts, setStatusCounts] = useState<Record<ResponseStatus, number> | null>(null);
+  const [assignees, setAssignees] = useState<ResponseMember[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ResponseStatus | ''>('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [assigneeFilter, setAssigneeFilter] = useState('');
+  const [notesFilter, setNotesFilter] = useState('');
+  const [sortBy, setSortBy] = useState('submittedAt');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [datePreset, setDatePreset] = useState('');
+  const [conditions, setConditions] = useState<ResponseFilterCondition[]>([]);
+  const [conditionLogic, setConditionLogic] = useState<'and' | 'or'>('and');
+  const [draftCondition, setDraftCondition] = useState<ResponseFilterCondition>(emptyCondition());
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [activeViewId, setActiveViewId] = useState('');
+  const [showSaveView, setShowSaveView] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const [viewShared, setViewShared] = useState(false);
+  const [viewColumns, setViewColumns] = useState<string[]>([]);
+  const [savingView, setSavingView] = useState(false);
+  const [tagInputs, setTagInputs] = useState<Record<string, string>>({});
+  const [notesResponseId, setNotesResponseId] = useState<string | null>(null);
+  const [noteText, setNoteText] = useState('');
+  const [savingNote, setSavingNote] = useState(false);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -30,30 +105,277 @@ export default function FormResponsesPage() {
 
   useEffect(() => {
     if (user && formId) {
-      fetchFormAndResponses();
+      fetchForm();
       fetchAnalytics();
+      fetchAssignees();
+      fetchViews();
     }
-  }, [user, formId, currentPage]);
+  }, [user, formId]);
 
-  const fetchFormAndResponses = async () => {
+  useEffect(() => {
+    if (user && formId) {
+      fetchResponses();
+    }
+  }, [user, formId, currentPage, statusFilter, tagFilter, assigneeFilter, notesFilter, sortBy, sortOrder, search, datePreset, conditions, conditionLogic, activeViewId]);
+
+  const fetchForm = async () => {
     setLoading(true);
     try {
-      // Fetch form details
       const formResponse = await axios.get(`${process.env.NEXT_PUBLIC_API_URL}/api/forms/${formId}`);
       setForm(formResponse.data.data);
+    } catch (error) {
+      console.error('Error fetching data:', error);
+      toast.error('Failed to load form data');
+      router.push('/dashboard');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The list and the export share the same filters; a saved view's criteria apply underneath them
+  const buildFilterParams = () => {
+    const params = new URLSearchParams({ sortBy, order: sortOrder });
+    if (activeViewId) params.set('viewId', activeViewId);
+    if (statusFilter) params.set('status', statusFilter);
+    if (tagFilter.trim()) params.set('tags', tagFilter.trim());
+    if (assigneeFilter) params.set('assignedTo', assigneeFilter);
+    if (notesFilter) params.set('hasNotes', notesFilter);
+    if (search) params.set('search', search);
+    if (datePreset) params.set('datePreset', datePreset);
+    if (conditions.length > 0) {
+      params.set('filter', JSON.stringify({ logic: conditionLogic, conditions }));
+    }
+    return params;
+  };
+
+  const fetchResponses = async () => {
+    try {
+      const params = buildFilterParams();
+      params.set('page', String(currentPage));
+      if (!activeViewId) params.set('limit', '20');
 
-      // Fetch responses
       const responsesResponse = await axios.get(
-        `${process.env.NEXT_PUBLIC_API_URL}/api/responses/forms/${formId}?page=${currentPage}&limit=20`
+        `${process.env.NEXT_PUBLIC_API_URL}/api/responses/forms/${formId}?${params.toString()}`
       );
       setResponses(responsesResponse.data.data);
       setTotalPages(responsesResponse.data.pagination.pages);
+      setTotalResponses(responsesResponse.data.pagination.total);
+      setStatusCounts(responsesResponse.data.statusCounts);
+    } catch (error: any) {
+      console.error('Error fetching responses:', error);
+      toast.error(error.response?.data?.message || 'Failed to load responses');
+    }
+  };
+
+  const fetchViews = async () => {
+    try {
+      const response = await axios.get(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/responses/forms/${formId}/views`
+      );
+      setViews(response.data.data);
     } catch (error) {
-      console.error('Error fetching data:', error);
-      toast.error('Failed to load form data');
-      router.push('/dashboard');
+      console.error('Error fetching saved views:', error);
+    }
+  };
+
+  // Selecting a view starts from its criteria and sort; the filters below narrow it down
+  const selectView = (viewId: string) => {
+    const view = views.find(item => item._id === viewId);
+    setActiveViewId(viewId);
+    setStatusFilter('');
+    setTagFilter('');
+    setAssigneeFilter('');
+    setNotesFilter('');
+    setSearch('');
+    setSearchInput('');
+    setDatePreset('');
+    setConditions([]);
+    setSortBy(view?.sortBy || 'submittedAt');
+    setSortOrder(view?.order || 'desc');
+    setCurrentPage(1);
+  };
+
+  const openSaveView = () => {
+    setViewName('');
+    setViewShared(false);
+    setViewColumns(visibleFields.map(field => field.id));
+    setShowSaveView(true);
+  };
+
+  // A view saved on top of another keeps that view's filter and narrows it down
+  const buildViewFilter = () => {
+    const baseFilter = activeView?.criteria.filter;
+    const filter = conditions.length > 0 ? { logic: conditionLogic, conditions } : undefined;
+    if (baseFilter && filter) return { logic: 'and', conditions: [baseFilter, filter] };
+    return filter || baseFilter;
+  };
+
+  const saveView = async () => {
+    if (!viewName.trim()) return;
+
+    setSavingView(true);
+    try {
+      const response = await axios.post(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/responses/forms/${formId}/views`,
+        {
+          name: viewName,
+          visibility: viewShared ? 'workspace' : 'private',
+          criteria: {
+            ...activeView?.criteria,
+            ...(statusFilter && { status: [statusFilter] }),
+            ...(tagFilter.trim() && { tags: tagFilter.trim() }),
+            ...(assigneeFilter && { assignedTo: assigneeFilter }),
+            ...(notesFilter && { hasNotes: notesFilter }),
+            ...(search && { search }),
+            ...(datePreset && { datePreset }),
+            filter: buildViewFilter(),
+          },
+          columns: viewColumns,
+          sortBy,
+          order: sortOrder,
+        }
+      );
+      setViews(current => [...current, response.data.data].sort((a, b) => a.name.localeCompare(b.name)));
+      setShowSaveView(false);
+      selectView(response.data.data._id);
+      toast.success('View saved');
+    } catch (error: any) {
+      console.error('Error saving view:', error);
+      toast.error(error.response?.data?.message || 'Failed to save view');
     } finally {
-      setLoading(false);
+      setSavingView(false);
+    }
+  };
+
+  const deleteView = async () => {
+    if (!activeViewId || !confirm('Delete this saved view?')) return;
+
+    try {
+      await axios.delete(`${process.env.NEXT_PUBLIC_API_URL}/api/responses/views/${activeViewId}`);
+      setViews(current => current.filter(view => view._id !== activeViewId));
+      selectView('');
+      toast.success('View deleted');
+    } catch (error: any) {
+      console.error('Error deleting view:', error);
+      toast.error(error.response?.data?.message || 'Failed to delete view');
+    }
+  };
+
+  const fetchAssignees = async () => {
+    try {
+      const response = await axios.get(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/responses/forms/${formId}/assignees`
+      );
+      setAssignees(response.data.data);
+    } catch (error) {
+      console.error('Error fetching assignees:', error);
+    }
+  };
+
+  // Filters start again from the first page
+  const applyFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setCurrentPage(1);
+  };
+
+  const addCondition = () => {
+    const { fieldId, operator, value } = draftCondition;
+    if (!fieldId) return;
+
+    let conditionValue: any = value;
+    if (operator === 'is_empty' || operator === 'is_not_empty') {
+      conditionValue = undefined;
+    } else if (operator === 'between' || operator === 'in') {
+      conditionValue = String(value).split(',').map(item => item.trim()).filter(Boolean);
+      if (operator === 'between' && conditionValue.length !== 2) {
+        toast.error('Enter two values separated by a comma');
+        return;
+      }
+    } else if (!String(value).trim()) {
+      toast.error('Enter a value to filter on');
+      return;
+    }
+
+    setConditions(current => [...current, { fieldId, operator, value: conditionValue }]);
+    setDraftCondition(emptyCondition());
+    setCurrentPage(1);
+  };
+
+  const removeCondition = (index: number) => {
+    setConditions(current => current.filter((_, i) => i !== index));
+    setCurrentPage(1);
+  };
+
+  const describeCondition = (condition: ResponseFilterCondition) => {
+    const field = form?.fields.find(item => item.id === condition.fieldId);
+    const operator = FILTER_OPERATORS.find(item => item.value === condition.operator);
+    const value = Array.isArray(condition.value) ? condition.value.join(condition.operator === 'between' ? ' and ' : ', ') : condition.value;
+    return `${field?.label || condition.fieldId} ${operator?.label || condition.operator}${value !== undefined ? ` ${value}` : ''}`;
+  };
+
+  const updateWorkflow = async (
+    responseId: string,
+    changes: { status?: ResponseStatus; tags?: string[]; assignedTo?: string | null }
+  ) => {
+    try {
+      const response = await axios.patch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/responses/${responseId}/workflow`,
+        changes
+      );
+      setResponses(current => current.map(item => item._id === responseId ? response.data.data : item));
+      if (changes.status) {
+        fetchResponses(); // Status counts and filtered lists change with the status
+      }
+    } catch (error: any) {
+      console.error('Error updating response:', error);
+      toast.error(error.response?.data?.message || 'Failed to update response');
+    }
+  };
+
+  const addTag = (response: FormResponse) => {
+    const tag = (tagInputs[response._id] || '').trim().toLowerCase();
+    if (!tag) return;
+
+    setTagInputs(current => ({ ...current, [response._id]: '' }));
+    if (!(response.tags || []).includes(tag)) {
+      updateWorkflow(response._id, { tags: [...(response.tags || []), tag] });
+    }
+  };
+
+  const removeTag = (response: FormResponse, tag: string) => {
+    updateWorkflow(response._id, { tags: (response.tags || []).filter(item => item !== tag) });
+  };
+
+  const addNote = async () => {
+    if (!notesResponseId || !noteText.trim()) return;
+
+    setSavingNote(true);
+    try {
+      const response = await axios.post(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/responses/${notesResponseId}/notes`,
+        { body: noteText }
+      );
+      setResponses(current => current.map(item => item._id === notesResponseId ? response.data.data : item));
+      setNoteText('');
+    } catch (error: any) {
+      console.error('Error adding note:', error);
+      toast.error(error.response?.data?.message || 'Failed to add note');
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  const deleteNote = async (noteId: string) => {
+    if (!notesResponseId || !confirm('Delete this note?')) return;
+
+    try {
+      const response = await axios.delete(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/responses/${notesResponseId}/notes/${noteId}`
+      );
+      setResponses(current => current.map(item => item._id === notesResponseId ? response.data.data : item));
+    } catch (error: any) {
+      console.error('Error deleting note:', error);
+      toast.error(error.response?.data?.message || 'Failed to delete note');
     }
   };
 
@@ -71,27 +393,15 @@ export default function FormResponsesPage() {
   const exportToCSV = async () => {
     setExporting(true);
     try {
+      // Exports run in the background; the download link is emailed when the file is ready
       const response = await axios.get(
-        `${process.env.NEXT_PUBLIC_API_URL}/api/responses/forms/${formId}/export`,
-        {
-          responseType: 'blob',
-        }
+        `${process.env.NEXT_PUBLIC_API_URL}/api/responses/forms/${formId}/export?${buildFilterParams().toString()}`
       );
 
-      // Create download link
-      const url = window.URL.createObjectURL(new Blob([response.data]));
-      const link = document.createElement('a');
-      link.href = url;
-      link.setAttribute('download', `${form?.title || 'form'}-responses.csv`);
-      document.body.appendChild(link);
-      link.click();
-      link.remove();
-      window.URL.revokeObjectURL(url);
-
-      toast.success('Responses exported successfully!');
-    } catch (error) {
+      toast.success(response.data.message || 'Export queued');
+    } catch (error: any) {
       console.error('Error exporting responses:', error);
-      toast.error('Failed to export responses');
+      toast.error(error.response?.data?.message || 'Failed to export responses');
     } finally {
       setExporting(false);
     }
@@ -105,7 +415,7 @@ export default function FormResponsesPage() {
     try {
       await axios.delete(`${process.env.NEXT_PUBLIC_API_URL}/api/responses/${responseId}`);
       toast.success('Response deleted successfully');
-      fetchFormAndResponses(); // Refresh the list
+      fetchResponses(); // Refresh the list
       fetchAnalytics(); // Update analytics
     } catch (error) {
       console.error('Error deleting response:', error);
@@ -113,26 +423,43 @@ export default function FormResponsesPage() {
     }
   };
 
+  // Uploaded files are private; open them through a short-lived signed link
+  const openFile = async (responseId: string, file: any) => {
+    try {
+      const response = await axios.post(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/responses/${responseId}/files/${encodeURIComponent(file.id || file.filename)}/link`
+      );
+      window.open(response.data.data.url, '_blank', 'noopener,noreferrer');
+    } catch (error) {
+      console.error('Error opening file:', error);
+      toast.error('Failed to open file');
+    }
+  };
+
   // Helper function to render response values
-  const renderResponseValue = (fieldId: string, value: any, field: any) => {
+  const renderResponseValue = (responseId: string, value: any, field: any) => {
     if (!value) return '-';
     
     // Handle file uploads
-    if (field?.type === 'file' && typeof value === 'object' && value.filename) {
+    const files = Array.isArray(value) ? value : [value];
+    if (field?.type === 'file' && files.every(file => file && typeof file === 'object' && file.filename)) {
       return (
-        <div className="flex items-center space-x-2">
-          <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
-          </svg>
-          <a 
-            href={`${process.env.NEXT_PUBLIC_API_URL}${value.url}`}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="text-blue-600 hover:text-blue-800 text-sm truncate max-w-32"
-            title={value.originalName}
-          >
-            {value.originalName || value.filename}
-          </a>
+        <div className="flex flex-col space-y-1">
+          {files.map(file => (
+            <div key={file.id || file.filename} className="flex items-center space-x-2">
+              <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
+              </svg>
+              <button
+                type="button"
+                onClick={() => openFile(responseId, file)}
+                className="text-blue-600 hover:text-blue-800 text-sm truncate max-w-32"
+                title={file.originalName}
+              >
+                {file.originalName || file.filename}
+              </button>
+            </div>
+          ))}
         </div>
       );
     }
@@ -158,6 +485,13 @@ export default function FormResponsesPage() {
     return null;
   }
 
+  const notesResponse = responses.find(response => response._id === notesResponseId) || null;
+  const activeView = views.find(view => view._id === activeViewId) || null;
+  const viewFields = (activeView?.columns || [])
+    .map(column => form.fields.find(field => field.id === column))
+    .filter((field): field is Form['fields'][number] => !!field);
+  const visibleFields = viewFields.length > 0 ? viewFields : form.fields.slice(0, 3);
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Navigation */}
@@ -276,9 +610,9 @@ export default function FormResponsesPage() {
             <div>
               <h2 className="text-lg font-medium text-gray-900">Form Responses</h2>
               <p className="text-sm text-gray-600">
-                {responses.length > 0 
-                  ? `Showing ${responses.length} responses`
-                  : 'No responses yet'
+                {totalResponses > 0
+                  ? `Showing ${responses.length} of ${totalResponses} responses`
+                  : 'No responses found'
                 }
               </p>
             </div>
@@ -296,6 +630,228 @@ export default function FormResponsesPage() {
           </div>
         </div>
 
+        {/* Inbox Filters */}
+        <div className="bg-white rounded-lg shadow p-4 mb-6 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={activeViewId}
+              onChange={(e) => selectView(e.target.value)}
+              className="input-field w-auto"
+            >
+              <option value="">All responses</option>
+              {views.map(view => (
+                <option key={view._id} value={view._id}>
+                  {view.name}{view.visibility === 'workspace' ? ' (shared)' : ''}
+                </option>
+              ))}
+            </select>
+            <button onClick={openSaveView} className="btn-secondary">
+              Save as view
+            </button>
+            {activeView && (
+              <button onClick={deleteView} className="text-sm text-red-600 hover:text-red-800">
+                Delete view
+              </button>
+            )}
+          </div>
+          {showSaveView && (
+            <div className="border rounded-lg p-3 space-y-3">
+              <div className="flex flex-wrap items-center gap-3">
+                <input
+                  type="text"
+                  value={viewName}
+                  onChange={(e) => setViewName(e.target.value)}
+                  placeholder="View name, e.g. Qualified leads"
+                  maxLength={100}
+                  className="input-field w-auto flex-1"
+                />
+                {form.workspaceId && (
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input type="checkbox" checked={viewShared} onChange={(e) => setViewShared(e.target.checked)} />
+                    Share with workspace
+                  </label>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-3">
+                {form.fields.map(field => (
+                  <label key={field.id} className="flex items-center gap-1 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={viewColumns.includes(field.id)}
+                      onChange={(e) => setViewColumns(current => e.target.checked
+                        ? [...current, field.id]
+                        : current.filter(column => column !== field.id))}
+                    />
+                    {field.label}
+                  </label>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <button onClick={saveView} disabled={savingView || !viewName.trim()} className="btn-primary">
+                  {savingView ? 'Saving...' : 'Save view'}
+                </button>
+                <button onClick={() => setShowSaveView(false)} className="btn-secondary">
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => applyFilter(setStatusFilter)('')}
+              className={`px-3 py-1 rounded-full text-sm font-medium ${statusFilter === '' ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+            >
+              All open
+            </button>
+            {STATUS_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => applyFilter(setStatusFilter)(option.value)}
+                className={`px-3 py-1 rounded-full text-sm font-medium ${statusFilter === option.value ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+              >
+                {option.label}
+                {statusCounts && <span className="ml-1 opacity-75">({statusCounts[option.value] || 0})</span>}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <input
+              type="text"
+              value={tagFilter}
+              onChange={(e) => applyFilter(setTagFilter)(e.target.value)}
+              placeholder="Tags, comma separated"
+              className="input-field"
+            />
+            <select
+              value={assigneeFilter}
+              onChange={(e) => applyFilter(setAssigneeFilter)(e.target.value)}
+              className="input-field"
+            >
+              <option value="">Any assignee</option>
+              <option value="me">Assigned to me</option>
+              <option value="unassigned">Unassigned</option>
+              {assignees.map(member => (
+                <option key={member._id} value={member._id}>{memberName(member)}</option>
+              ))}
+            </select>
+            <select
+              value={notesFilter}
+              onChange={(e) => applyFilter(setNotesFilter)(e.target.value)}
+              className="input-field"
+            >
+              <option value="">With or without notes</option>
+              <option value="true">Has notes</option>
+              <option value="false">No notes</option>
+            </select>
+            <div className="flex gap-2">
+              <select
+                value={sortBy}
+                onChange={(e) => applyFilter(setSortBy)(e.target.value)}
+                className="input-field"
+              >
+                {SORT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>Sort: {option.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => applyFilter(setSortOrder)(sortOrder === 'asc' ? 'desc' : 'asc')}
+                className="btn-secondary"
+                title={sortOrder === 'asc' ? 'Ascending' : 'Descending'}
+              >
+                {sortOrder === 'asc' ? '↑' : '↓'}
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <form
+              className="md:col-span-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                applyFilter(setSearch)(searchInput.trim());
+              }}
+            >
+              <input
+                type="search"
+                value={searchInput}
+                onChange={(e) => {
+                  setSearchInput(e.target.value);
+                  if (!e.target.value) applyFilter(setSearch)('');
+                }}
+                placeholder="Search answers and press Enter"
+                maxLength={200}
+                className="input-field"
+              />
+            </form>
+            <select
+              value={datePreset}
+              onChange={(e) => applyFilter(setDatePreset)(e.target.value)}
+              className="input-field"
+            >
+              <option value="">Any time</option>
+              {DATE_PRESETS.map(preset => (
+                <option key={preset.value} value={preset.value}>{preset.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={draftCondition.fieldId}
+              onChange={(e) => setDraftCondition(current => ({ ...current, fieldId: e.target.value }))}
+              className="input-field w-auto"
+            >
+              <option value="">Field...</option>
+              {form.fields.map(field => (
+                <option key={field.id} value={field.id}>{field.label}</option>
+              ))}
+            </select>
+            <select
+              value={draftCondition.operator}
+              onChange={(e) => setDraftCondition(current => ({ ...current, operator: e.target.value as ResponseFilterOperator }))}
+              className="input-field w-auto"
+            >
+              {FILTER_OPERATORS.map(operator => (
+                <option key={operator.value} value={operator.value}>{operator.label}</option>
+              ))}
+            </select>
+            {draftCondition.operator !== 'is_empty' && draftCondition.operator !== 'is_not_empty' && (
+              <input
+                type="text"
+                value={draftCondition.value}
+                onChange={(e) => setDraftCondition(current => ({ ...current, value: e.target.value }))}
+                onKeyDown={(e) => e.key === 'Enter' && addCondition()}
+                placeholder={draftCondition.operator === 'between' || draftCondition.operator === 'in' ? 'Values, comma separated' : 'Value'}
+                className="input-field w-auto"
+              />
+            )}
+            <button onClick={addCondition} disabled={!draftCondition.fieldId} className="btn-secondary">
+              Add filter
+            </button>
+          </div>
+          {conditions.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              {conditions.length > 1 && (
+                <select
+                  value={conditionLogic}
+                  onChange={(e) => applyFilter(setConditionLogic)(e.target.value as 'and' | 'or')}
+                  className="input-field w-auto text-sm"
+                >
+                  <option value="and">Match all</option>
+                  <option value="or">Match any</option>
+                </select>
+              )}
+              {conditions.map((condition, index) => (
+                <span key={index} className="inline-flex items-center px-2 py-1 rounded-full text-xs bg-primary-50 text-primary-700">
+                  {describeCondition(condition)}
+                  <button onClick={() => removeCondition(index)} className="ml-1 text-primary-400 hover:text-primary-700">×</button>
+                </span>
+              ))}
+              <button onClick={() => applyFilter(setConditions)([])} className="text-sm text-gray-500 hover:text-gray-700">
+                Clear filters
+              </button>
+            </div>
+          )}
+        </div>
+
         {/* Responses Table */}
         {responses.length === 0 ? (
           <div className="bg-white rounded-lg shadow p-8 text-center">
@@ -323,11 +879,20 @@ export default function FormResponsesPage() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Submitted
                     </th>
-                    {form.fields.slice(0, 3).map((field) => (
+                    {visibleFields.map((field) => (
                       <th key={field.id} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         {field.label}
                       </th>
                     ))}
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Assignee
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Tags
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Actions
                     </th>
@@ -339,11 +904,71 @@ export default function FormResponsesPage() {
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         {new Date(response.submittedAt).toLocaleString()}
                       </td>
-                      {form.fields.slice(0, 3).map((field) => (
+                      {visibleFields.map((field) => (
                         <td key={field.id} className="px-6 py-4 text-sm text-gray-900 max-w-xs">
-                          {renderResponseValue(field.id, response.responses[field.id], field)}
+                          {renderResponseValue(response._id, response.responses[field.id], field)}
                         </td>
                       ))}
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <select
+                          value={response.status || 'new'}
+                          onChange={(e) => updateWorkflow(response._id, { status: e.target.value as ResponseStatus })}
+                          className={`rounded-full border-0 text-xs font-medium px-2 py-1 ${STATUS_OPTIONS.find(option => option.value === (response.status || 'new'))?.className}`}
+                        >
+                          {STATUS_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                        {response.spam?.quarantined && (
+                          <span
+                            className="ml-2 text-xs text-red-700"
+                            title={response.spam.signals.map(signal => signal.detail ? `${signal.code}: ${signal.detail}` : signal.code).join('\n')}
+                          >
+                            Score {response.spam.score}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <select
+                          value={response.assignedTo?._id || ''}
+                          onChange={(e) => updateWorkflow(response._id, { assignedTo: e.target.value || null })}
+                          className="text-sm border-gray-300 rounded-md"
+                        >
+                          <option value="">Unassigned</option>
+                          {assignees.map(member => (
+                            <option key={member._id} value={member._id}>{memberName(member)}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        <div className="flex flex-wrap items-center gap-1 max-w-xs">
+                          {(response.tags || []).map(tag => (
+                            <span key={tag} className="inline-flex items-center px-2 py-0.5 rounded bg-gray-100 text-gray-700 text-xs">
+                              {tag}
+                              <button
+                                onClick={() => removeTag(response, tag)}
+                                className="ml-1 text-gray-400 hover:text-gray-700"
+                                title="Remove tag"
+                              >
+                                ×
+                              </button>
+                            </span>
+                          ))}
+                          <input
+                            type="text"
+                            value={tagInputs[response._id] || ''}
+                            onChange={(e) => setTagInputs(current => ({ ...current, [response._id]: e.target.value }))}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') {
+                                e.preventDefault();
+                                addTag(response);
+                              }
+                            }}
+                            placeholder="+ tag"
+                            className="w-16 text-xs border-0 border-b border-transparent focus:border-gray-300 focus:ring-0 p-0"
+                          />
+                        </div>
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
                         <button
                           onClick={() => {
@@ -353,11 +978,10 @@ export default function FormResponsesPage() {
                               const renderDetailValue = (fieldId: string, value: any, field: any) => {
                                 if (!value) return 'No response';
                                 
+                                // Files are private; they are opened from the responses table
                                 if (field?.type === 'file' && typeof value === 'object' && value.filename) {
                                   return `<div style="margin: 5px 0;">
-                                    <a href="${process.env.NEXT_PUBLIC_API_URL}${value.url}" target="_blank" style="color: #2563eb; text-decoration: underline;">
-                                      📎 ${value.originalName || value.filename}
-                                    </a>
+                                    <span>📎 ${value.originalName || value.filename}</span>
                                     <div style="font-size: 12px; color: #6b7280; margin-top: 2px;">
                                       Size: ${(value.size / 1024).toFixed(1)} KB | Type: ${value.mimetype || 'Unknown'}
                                     </div>
@@ -392,6 +1016,15 @@ export default function FormResponsesPage() {
                         >
                           View
                         </button>
+                        <button
+                          onClick={() => {
+                            setNotesResponseId(response._id);
+                            setNoteText('');
+                          }}
+                          className="text-gray-600 hover:text-gray-900"
+                        >
+                          Notes{response.notes && response.notes.length > 0 ? ` (${response.notes.length})` : ''}
+                        </button>
                         <button
                           onClick={() => deleteResponse(response._id)}
                           className="text-red-600 hover:text-red-900"
@@ -455,6 +1088,65 @@ export default function FormResponsesPage() {
           </div>
         )}
       </main>
+
+      {/* Notes Panel */}
+      {notesResponse && (
+        <div className="fixed inset-0 bg-black bg-opacity-30 flex justify-end z-50" onClick={() => setNotesResponseId(null)}>
+          <div className="bg-white w-full max-w-md h-full shadow-xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between px-6 py-4 border-b">
+              <div>
+                <h3 className="text-lg font-medium text-gray-900">Internal notes</h3>
+                <p className="text-sm text-gray-500">
+                  Response from {new Date(notesResponse.submittedAt).toLocaleString()}
+                </p>
+              </div>
+              <button onClick={() => setNotesResponseId(null)} className="text-gray-400 hover:text-gray-600">
+                ✕
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+              {(notesResponse.notes || []).length === 0 ? (
+                <p className="text-sm text-gray-500">No notes yet. Notes are only visible to your team.</p>
+              ) : (
+                (notesResponse.notes || []).map(note => (
+                  <div key={note._id} className="border border-gray-200 rounded-lg p-3">
+                    <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                      <span className="font-medium text-gray-700">{memberName(note.authorId)}</span>
+                      <span>{new Date(note.createdAt).toLocaleString()}</span>
+                    </div>
+                    <p className="text-sm text-gray-900 whitespace-pre-wrap">{note.body}</p>
+                    {(note.authorId?._id === user._id || form.userId === user._id) && (
+                      <button
+                        onClick={() => deleteNote(note._id)}
+                        className="mt-2 text-xs text-red-600 hover:text-red-800"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+            <div className="border-t px-6 py-4 space-y-2">
+              <textarea
+                value={noteText}
+                onChange={(e) => setNoteText(e.target.value)}
+                rows={3}
+                maxLength={5000}
+                placeholder="Add a note for your team"
+                className="input-field"
+              />
+              <button
+                onClick={addNote}
+                disabled={savingNote || !noteText.trim()}
+                className="btn-primary w-full"
+              >
+                {savingNote ? 'Saving...' : 'Add note'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -3,12 +3,13 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/lib/auth-context';
-import { FormField, Form, FormCustomization } from '@/types';
+import { FormField, Form, FormCustomization, FormSettings, FormAvailability } from '@/types';
 import { v4 as uuidv4 } from 'uuid';
 import axios from 'axios';
 import toast from 'react-hot-toast';
 import FormCustomizationPanel from '@/components/FormCustomizationPanel';
 import FormPreview from '@/components/FormPreview';
+import FormSettingsPanel, { getBrowserTimezone } from '@/components/FormSettingsPanel';
 
 const FIELD_TYPES = [
   { type: 'text', label: 'Single Line Text', icon: '📝' },
@@ -21,6 +22,28 @@ const FIELD_TYPES = [
   { type: 'file', label: 'File Upload', icon: '📎' }
 ] as const;
 
+const DEFAULT_SETTINGS: FormSettings = {
+  allowMultipleSubmissions: true,
+  passwordProtection: { enabled: false },
+  responseLimit: { enabled: false },
+  schedule: { enabled: false },
+  closedMessage: '',
+  notifications: {
+    email: { enabled: false, recipients: [] },
+    autoresponder: { enabled: false }
+  },
+  spamProtection: {
+    enabled: true,
+    honeypot: true,
+    minFillSeconds: 3,
+    duplicateWindowMinutes: 60,
+    maxLinks: 3,
+    blockedKeywords: [],
+    proofOfWork: { enabled: false, difficulty: 16 },
+    threshold: 5
+  }
+};
+
 interface FormBuilderProps {
   formId?: string;
 }
@@ -40,10 +63,14 @@ export default function FormBuilder({ formId }: FormBuilderProps) {
       fontFamily: 'Inter',
       logoUrl: ''
     } as FormCustomization,
+    settings: DEFAULT_SETTINGS,
     isPublic: true
   });
 
-  const [selectedTab, setSelectedTab] = useState<'fields' | 'customize'>('fields');
+  const [selectedTab, setSelectedTab] = useState<'fields' | 'customize' | 'settings'>('fields');
+  const [availability, setAvailability] = useState<FormAvailability | null>(null);
+  const [hasStoredPassword, setHasStoredPassword] = useState(false);
+  const [showClosedPreview, setShowClosedPreview] = useState(false);
   const [selectedField, setSelectedField] = useState<string | null>(null);
   const [draggedField, setDraggedField] = useState<FormField | null>(null);
 
@@ -71,8 +98,30 @@ export default function FormBuilder({ formId }: FormBuilderProps) {
         description: form.description || '',
         fields: form.fields,
         customization: form.customization,
+        settings: {
+          allowMultipleSubmissions: form.settings?.allowMultipleSubmissions ?? true,
+          passwordProtection: { enabled: !!form.settings?.passwordProtection?.enabled },
+          responseLimit: { ...DEFAULT_SETTINGS.responseLimit, ...form.settings?.responseLimit },
+          schedule: {
+            ...DEFAULT_SETTINGS.schedule,
+            ...form.settings?.schedule,
+            timezone: form.settings?.schedule?.timezone || getBrowserTimezone()
+          },
+          closedMessage: form.settings?.closedMessage || '',
+          notifications: {
+            email: { ...DEFAULT_SETTINGS.notifications.email, ...form.settings?.notifications?.email },
+            autoresponder: { ...DEFAULT_SETTINGS.notifications.autoresponder, ...form.settings?.notifications?.autoresponder }
+          },
+          spamProtection: {
+            ...DEFAULT_SETTINGS.spamProtection!,
+            ...form.settings?.spamProtection,
+            proofOfWork: { ...DEFAULT_SETTINGS.spamProtection!.proofOfWork, ...form.settings?.spamProtection?.proofOfWork }
+          }
+        },
         isPublic: form.isPublic
       });
+      setHasStoredPassword(!!form.settings?.passwordProtection?.enabled);
+      fetchAvailability();
     } catch (error) {
       console.error('Error fetching form:', error);
       toast.error('Failed to load form');
@@ -82,6 +131,17 @@ export default function FormBuilder({ formId }: FormBuilderProps) {
     }
   };
 
+  const fetchAvailability = async () => {
+    if (!formId) return;
+
+    try {
+      const response = await axios.get(`${process.env.NEXT_PUBLIC_API_URL}/api/forms/${formId}/availability`);
+      setAvailability(response.data.data);
+    } catch (error) {
+      console.error('Error checking form availability:', error);
+    }
+  };
+
   const addField = (type: FormField['type']) => {
     const newField: FormField = {
       id: uuidv4(),
@@ -143,12 +203,19 @@ export default function FormBuilder({ formId }: FormBuilderProps) {
         description: formData.description.trim(),
         fields: formData.fields,
         customization: formData.customization,
+        settings: formData.settings,
         isPublic: formData.isPublic
       };
 
       if (formId) {
         await axios.put(`${process.env.NEXT_PUBLIC_API_URL}/api/forms/${formId}`, payload);
         toast.success('Form updated successfully!');
+        setHasStoredPassword(formData.settings.passwordProtection.enabled);
+        setFormData(prev => ({
+          ...prev,
+          settings: { ...prev.settings, passwordProtection: { enabled: prev.settings.passwordProtection.enabled } }
+        }));
+        fetchAvailability();
       } else {
         const response = await axios.post(`${process.env.NEXT_PUBLIC_API_URL}/api/forms`, payload);
         toast.success('Form created successfully!');
@@ -222,6 +289,21 @@ export default function FormBuilder({ formId }: FormBuilderProps) {
       </div>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {availability && !availability.allowed && (
+          <div className="mb-6 rounded-lg border border-yellow-200 bg-yellow-50 p-4 flex items-center justify-between">
+            <div>
+              <p className="font-medium text-yellow-800">This form is closed</p>
+              <p className="text-sm text-yellow-700">{availability.message}</p>
+            </div>
+            <button
+              onClick={() => setSelectedTab('settings')}
+              className="text-sm font-medium text-yellow-800 hover:text-yellow-900"
+            >
+              Edit settings
+            </button>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
           {/* Field Types Sidebar */}
           <div className="lg:col-span-1">
@@ -366,6 +448,8 @@ export default function FormBuilder({ formId }: FormBuilderProps) {
                 description={formData.description}
                 fields={formData.fields}
                 customization={formData.customization}
+                closed={showClosedPreview}
+                closedMessage={formData.settings.closedMessage}
               />
             </div>
           </div>
@@ -396,6 +480,16 @@ export default function FormBuilder({ formId }: FormBuilderProps) {
                   >
                     Customize
                   </button>
+                  <button
+                    onClick={() => setSelectedTab('settings')}
+                    className={`flex-1 py-3 px-4 text-sm font-medium border-b-2 ${
+                      selectedTab === 'settings'
+                        ? 'border-primary-500 text-primary-600'
+                        : 'border-transparent text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    Settings
+                  </button>
                 </nav>
               </div>
 
@@ -414,6 +508,18 @@ export default function FormBuilder({ formId }: FormBuilderProps) {
                       </p>
                     )}
                   </>
+                ) : selectedTab === 'settings' ? (
+                  <FormSettingsPanel
+                    settings={formData.settings}
+                    onUpdate={(updates) => setFormData(prev => ({
+                      ...prev,
+                      settings: { ...prev.settings, ...updates }
+                    }))}
+                    hasStoredPassword={hasStoredPassword}
+                    emailFields={formData.fields.filter(field => field.type === 'email')}
+                    showClosedPreview={showClosedPreview}
+                    onToggleClosedPreview={() => setShowClosedPreview(prev => !prev)}
+                  />
                 ) : (
                   <FormCustomizationPanel
                     customization={formData.customization}
@@ -497,6 +603,34 @@ function FieldEditor({ field, onUpdate }: FieldEditorProps) {
         </label>
       </div>
 
+      {field.type !== 'file' && (
+        <div className="flex items-center">
+          <input
+            type="checkbox"
+            id="sensitive"
+            checked={!!field.sensitive}
+            onChange={(e) => onUpdate({ sensitive: e.target.checked })}
+            className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+          />
+          <label htmlFor="sensitive" className="ml-2 block text-sm text-gray-900">
+            Sensitive (encrypt answers)
+          </label>
+        </div>
+      )}
+
+      <div className="flex items-center">
+        <input
+          type="checkbox"
+          id="personal"
+          checked={!!field.personal}
+          onChange={(e) => onUpdate({ personal: e.target.checked })}
+          className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+        />
+        <label htmlFor="personal" className="ml-2 block text-sm text-gray-900">
+          Personal data (removed when responses are anonymized)
+        </label>
+      </div>
+
       {needsOptions && (
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
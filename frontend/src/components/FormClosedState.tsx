@@ -0,0 +1,56 @@
+'use client';
+
+import { FormAccessCode, FormCustomization } from '@/types';
+
+interface FormClosedStateProps {
+  title: string;
+  message?: string;
+  code?: FormAccessCode;
+  opensAt?: string;
+  customization?: FormCustomization;
+  compact?: boolean;
+}
+
+const DEFAULT_MESSAGES: Partial<Record<FormAccessCode, string>> = {
+  FORM_NOT_OPEN: 'This form is not accepting responses yet.',
+  FORM_CLOSED: 'This form is no longer accepting responses.',
+  RESPONSE_LIMIT_REACHED: 'This form has reached its response limit.',
+  ALREADY_SUBMITTED: 'You have already submitted this form.'
+};
+
+export default function FormClosedState({
+  title,
+  message,
+  code,
+  opensAt,
+  customization,
+  compact = false
+}: FormClosedStateProps) {
+  const fontFamily = customization?.fontFamily || 'Inter';
+
+  return (
+    <div className={compact ? 'py-8 text-center' : 'min-h-[50vh] flex items-center justify-center p-4'}>
+      <div className={compact ? '' : 'max-w-md w-full bg-white rounded-lg shadow-lg p-8 text-center'}>
+        <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <svg className="w-8 h-8 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+          </svg>
+        </div>
+        <h2
+          className="text-2xl font-bold mb-2"
+          style={{ color: customization?.primaryColor || '#111827', fontFamily }}
+        >
+          {title || 'Form Title'}
+        </h2>
+        <p className="text-gray-600 whitespace-pre-line" style={{ fontFamily }}>
+          {message || (code && DEFAULT_MESSAGES[code]) || DEFAULT_MESSAGES.FORM_CLOSED}
+        </p>
+        {code === 'FORM_NOT_OPEN' && opensAt && (
+          <p className="text-sm text-gray-500 mt-4">
+            Opens {new Date(opensAt).toLocaleString()}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+import { Form, FormAvailability, FormCustomization } from '@/types';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import PublicFormRenderer from './PublicFormRenderer';
+import FormClosedState from './FormClosedState';
+
+interface FormPasswordGateProps {
+  publicUrl: string;
+  title: string;
+  description?: string;
+  customization?: FormCustomization;
+}
+
+export default function FormPasswordGate({
+  publicUrl,
+  title,
+  description,
+  customization
+}: FormPasswordGateProps) {
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [unlocked, setUnlocked] = useState<{ form: Form; unlockToken: string } | null>(null);
+  const [closedState, setClosedState] = useState<FormAvailability | null>(null);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!password) {
+      setError('Please enter the password');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    try {
+      const unlockResponse = await axios.post(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/public/forms/${publicUrl}/unlock`,
+        { password }
+      );
+      const { unlockToken } = unlockResponse.data.data;
+
+      const formResponse = await axios.get(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/public/forms/${publicUrl}/embed`,
+        { headers: { 'X-Form-Unlock-Token': unlockToken } }
+      );
+
+      setUnlocked({ form: formResponse.data.data.form, unlockToken });
+    } catch (error: any) {
+      console.error('Error unlocking form:', error);
+
+      const data = error.response?.data;
+      if (data?.code === 'INVALID_PASSWORD') {
+        setError(data.message);
+      } else if (data?.code && data.code !== 'PASSWORD_REQUIRED') {
+        setClosedState({ allowed: false, code: data.code, message: data.message, opensAt: data.data?.opensAt });
+      } else {
+        toast.error(data?.message || 'Failed to unlock form');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (closedState) {
+    return (
+      <FormClosedState
+        title={title}
+        message={closedState.message}
+        code={closedState.code}
+        opensAt={closedState.opensAt}
+        customization={customization}
+      />
+    );
+  }
+
+  if (unlocked) {
+    return <PublicFormRenderer form={unlocked.form} unlockToken={unlocked.unlockToken} />;
+  }
+
+  return (
+    <div className="min-h-[50vh] flex items-center justify-center p-4">
+      <form onSubmit={handleUnlock} className="max-w-md w-full bg-white rounded-lg shadow-lg p-8">
+        <div className="text-center mb-6">
+          <h2
+            className="text-2xl font-bold mb-2"
+            style={{
+              color: customization?.primaryColor || '#3b82f6',
+              fontFamily: customization?.fontFamily || 'Inter'
+            }}
+          >
+            {title}
+          </h2>
+          {description && <p className="text-gray-600 mb-2">{description}</p>}
+          <p className="text-sm text-gray-500">This form is password protected.</p>
+        </div>
+
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Password
+        </label>
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className={`input-field ${error ? 'border-red-300' : ''}`}
+          autoFocus
+        />
+        {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={loading}
+          className="btn-primary w-full mt-6"
+          style={{ backgroundColor: customization?.primaryColor || '#3b82f6' }}
+        >
+          {loading ? 'Unlocking...' : 'Open Form'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -1,20 +1,39 @@
 'use client';
 
 import { FormField, FormCustomization } from '@/types';
+import FormClosedState from './FormClosedState';
 
 interface FormPreviewProps {
   title: string;
   description?: string;
   fields: FormField[];
   customization: FormCustomization;
+  closed?: boolean;
+  closedMessage?: string;
 }
 
 export default function FormPreview({ 
   title, 
   description, 
   fields, 
-  customization 
+  customization,
+  closed = false,
+  closedMessage
 }: FormPreviewProps) {
+  if (closed) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-6 max-h-96 overflow-y-auto">
+        <h3 className="text-sm font-medium text-gray-500 mb-2 text-center">Closed Form Preview</h3>
+        <FormClosedState
+          title={title}
+          message={closedMessage}
+          customization={customization}
+          compact
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="bg-white rounded-lg shadow-sm border p-6 max-h-96 overflow-y-auto">
       <div className="text-center mb-6">
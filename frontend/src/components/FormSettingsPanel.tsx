@@ -0,0 +1,460 @@
+'use client';
+
+import { FormField, FormSettings, SpamProtectionSettings } from '@/types';
+
+interface FormSettingsPanelProps {
+  settings: FormSettings;
+  onUpdate: (updates: Partial<FormSettings>) => void;
+  hasStoredPassword?: boolean;
+  emailFields?: FormField[];
+  showClosedPreview: boolean;
+  onToggleClosedPreview: () => void;
+}
+
+const TIMEZONE_OPTIONS = [
+  'UTC',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney'
+];
+
+export const getBrowserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Convert a stored UTC date to the wall-clock value shown in a datetime-local input
+export const toScheduleInputValue = (value: string | undefined, timezone: string) => {
+  if (!value) return '';
+  // Already a wall-clock value entered in the builder
+  if (!/(Z|[+-]\d{2}:?\d{2})$/i.test(value)) return value;
+
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).formatToParts(new Date(value));
+  const part = (type: string) => parts.find(p => p.type === type)?.value;
+
+  return `${part('year')}-${part('month')}-${part('day')}T${part('hour')}:${part('minute')}`;
+};
+
+export default function FormSettingsPanel({
+  settings,
+  onUpdate,
+  hasStoredPassword = false,
+  emailFields = [],
+  showClosedPreview,
+  onToggleClosedPreview
+}: FormSettingsPanelProps) {
+  const timezone = settings.schedule.timezone || getBrowserTimezone();
+  const timezones = TIMEZONE_OPTIONS.includes(timezone) ? TIMEZONE_OPTIONS : [timezone, ...TIMEZONE_OPTIONS];
+
+  const updateSchedule = (updates: Partial<FormSettings['schedule']>) => {
+    onUpdate({ schedule: { ...settings.schedule, timezone, ...updates } });
+  };
+
+  const { email, autoresponder } = settings.notifications;
+
+  const updateEmail = (updates: Partial<FormSettings['notifications']['email']>) => {
+    onUpdate({ notifications: { ...settings.notifications, email: { ...email, ...updates } } });
+  };
+
+  const updateAutoresponder = (updates: Partial<FormSettings['notifications']['autoresponder']>) => {
+    onUpdate({ notifications: { ...settings.notifications, autoresponder: { ...autoresponder, ...updates } } });
+  };
+
+  const spamProtection = settings.spamProtection;
+
+  const updateSpamProtection = (updates: Partial<SpamProtectionSettings>) => {
+    onUpdate({ spamProtection: { ...spamProtection!, ...updates } });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Schedule */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-sm font-medium text-gray-900">Schedule</h4>
+          <input
+            type="checkbox"
+            checked={settings.schedule.enabled}
+            onChange={(e) => updateSchedule({ enabled: e.target.checked })}
+            className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+          />
+        </div>
+        {settings.schedule.enabled && (
+          <div className="space-y-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Opens</label>
+              <input
+                type="datetime-local"
+                value={toScheduleInputValue(settings.schedule.startDate, timezone)}
+                onChange={(e) => updateSchedule({ startDate: e.target.value })}
+                className="input-field"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Closes</label>
+              <input
+                type="datetime-local"
+                value={toScheduleInputValue(settings.schedule.endDate, timezone)}
+                onChange={(e) => updateSchedule({ endDate: e.target.value })}
+                className="input-field"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Timezone</label>
+              <select
+                value={timezone}
+                onChange={(e) => updateSchedule({
+                  timezone: e.target.value,
+                  // Keep the wall-clock times the owner sees when switching zones
+                  startDate: toScheduleInputValue(settings.schedule.startDate, timezone) || undefined,
+                  endDate: toScheduleInputValue(settings.schedule.endDate, timezone) || undefined
+                })}
+                className="input-field"
+              >
+                {timezones.map(tz => (
+                  <option key={tz} value={tz}>{tz}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Response limit */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-sm font-medium text-gray-900">Response Limit</h4>
+          <input
+            type="checkbox"
+            checked={settings.responseLimit.enabled}
+            onChange={(e) => onUpdate({ responseLimit: { ...settings.responseLimit, enabled: e.target.checked } })}
+            className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+          />
+        </div>
+        {settings.responseLimit.enabled && (
+          <input
+            type="number"
+            min={1}
+            value={settings.responseLimit.maxResponses ?? ''}
+            onChange={(e) => onUpdate({
+              responseLimit: {
+                ...settings.responseLimit,
+                maxResponses: e.target.value ? parseInt(e.target.value, 10) : undefined
+              }
+            })}
+            className="input-field"
+            placeholder="Maximum responses"
+          />
+        )}
+      </div>
+
+      {/* Password protection */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-sm font-medium text-gray-900">Password Protection</h4>
+          <input
+            type="checkbox"
+            checked={settings.passwordProtection.enabled}
+            onChange={(e) => onUpdate({ passwordProtection: { ...settings.passwordProtection, enabled: e.target.checked } })}
+            className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+          />
+        </div>
+        {settings.passwordProtection.enabled && (
+          <input
+            type="password"
+            value={settings.passwordProtection.password || ''}
+            onChange={(e) => onUpdate({ passwordProtection: { ...settings.passwordProtection, password: e.target.value } })}
+            className="input-field"
+            placeholder={hasStoredPassword ? 'Leave blank to keep current password' : 'Form password'}
+            autoComplete="new-password"
+          />
+        )}
+      </div>
+
+      {/* Single submission */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-sm font-medium text-gray-900">One Response Per Person</h4>
+          <p className="text-xs text-gray-500">Detected by browser cookie and device</p>
+        </div>
+        <input
+          type="checkbox"
+          checked={!settings.allowMultipleSubmissions}
+          onChange={(e) => onUpdate({ allowMultipleSubmissions: !e.target.checked })}
+          className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+        />
+      </div>
+
+      {/* Owner notifications */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <div>
+            <h4 className="text-sm font-medium text-gray-900">Email Notifications</h4>
+            <p className="text-xs text-gray-500">Get an email for every new response</p>
+          </div>
+          <input
+            type="checkbox"
+            checked={email.enabled}
+            onChange={(e) => updateEmail({ enabled: e.target.checked })}
+            className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+          />
+        </div>
+        {email.enabled && (
+          <div className="space-y-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Recipients</label>
+              <input
+                type="text"
+                value={email.recipients.join(', ')}
+                onChange={(e) => updateEmail({
+                  recipients: e.target.value.split(',').map(recipient => recipient.trim()).filter(Boolean)
+                })}
+                className="input-field"
+                placeholder="Leave blank to notify yourself"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Subject</label>
+              <input
+                type="text"
+                value={email.subject || ''}
+                onChange={(e) => updateEmail({ subject: e.target.value })}
+                className="input-field"
+                placeholder="New response to {{form.title}}"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Message</label>
+              <textarea
+                value={email.template || ''}
+                onChange={(e) => updateEmail({ template: e.target.value })}
+                className="input-field"
+                rows={4}
+                placeholder="Leave blank to list every answer. Use {{Field label}} to insert answers."
+              />
+            </div>
+            <label className="flex items-center text-xs text-gray-700">
+              <input
+                type="checkbox"
+                checked={!!email.includeAttachments}
+                onChange={(e) => updateEmail({ includeAttachments: e.target.checked })}
+                className="h-4 w-4 mr-2 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+              />
+              Attach uploaded files
+            </label>
+          </div>
+        )}
+      </div>
+
+      {/* Autoresponder */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <div>
+            <h4 className="text-sm font-medium text-gray-900">Autoresponder</h4>
+            <p className="text-xs text-gray-500">Email respondents a confirmation</p>
+          </div>
+          <input
+            type="checkbox"
+            checked={autoresponder.enabled}
+            onChange={(e) => updateAutoresponder({ enabled: e.target.checked })}
+            className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+          />
+        </div>
+        {autoresponder.enabled && (
+          <div className="space-y-3">
+            {emailFields.length === 0 && (
+              <p className="text-xs text-yellow-700">Add an Email field so respondents can receive this email.</p>
+            )}
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Send to</label>
+              <select
+                value={autoresponder.emailFieldId || ''}
+                onChange={(e) => updateAutoresponder({ emailFieldId: e.target.value || undefined })}
+                className="input-field"
+              >
+                <option value="">First email field</option>
+                {emailFields.map(field => (
+                  <option key={field.id} value={field.id}>{field.label || field.id}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Subject</label>
+              <input
+                type="text"
+                value={autoresponder.subject || ''}
+                onChange={(e) => updateAutoresponder({ subject: e.target.value })}
+                className="input-field"
+                placeholder="Thanks for your response to {{form.title}}"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Message</label>
+              <textarea
+                value={autoresponder.template || ''}
+                onChange={(e) => updateAutoresponder({ template: e.target.value })}
+                className="input-field"
+                rows={4}
+                placeholder="Leave blank to send a copy of their answers. Use {{Field label}} to insert answers."
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Reply-to</label>
+              <input
+                type="email"
+                value={autoresponder.replyTo || ''}
+                onChange={(e) => updateAutoresponder({ replyTo: e.target.value })}
+                className="input-field"
+                placeholder="Defaults to your account email"
+              />
+            </div>
+            <label className="flex items-center text-xs text-gray-700">
+              <input
+                type="checkbox"
+                checked={!!autoresponder.includeAttachments}
+                onChange={(e) => updateAutoresponder({ includeAttachments: e.target.checked })}
+                className="h-4 w-4 mr-2 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+              />
+              Attach uploaded files
+            </label>
+          </div>
+        )}
+      </div>
+
+      {/* Spam protection */}
+      {spamProtection && (
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <div>
+              <h4 className="text-sm font-medium text-gray-900">Spam Protection</h4>
+              <p className="text-xs text-gray-500">Suspected spam is moved to the Spam status for review</p>
+            </div>
+            <input
+              type="checkbox"
+              checked={spamProtection.enabled}
+              onChange={(e) => updateSpamProtection({ enabled: e.target.checked })}
+              className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+            />
+          </div>
+          {spamProtection.enabled && (
+            <div className="space-y-3">
+              <label className="flex items-center text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={spamProtection.honeypot}
+                  onChange={(e) => updateSpamProtection({ honeypot: e.target.checked })}
+                  className="h-4 w-4 mr-2 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                />
+                Add a hidden field only bots fill in
+              </label>
+              <label className="flex items-center text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={spamProtection.proofOfWork.enabled}
+                  onChange={(e) => updateSpamProtection({
+                    proofOfWork: { ...spamProtection.proofOfWork, enabled: e.target.checked }
+                  })}
+                  className="h-4 w-4 mr-2 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                />
+                Require the browser to solve a short challenge
+              </label>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Minimum fill time (seconds)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={600}
+                    value={spamProtection.minFillSeconds}
+                    onChange={(e) => updateSpamProtection({ minFillSeconds: Number(e.target.value) })}
+                    className="input-field"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Maximum links</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={spamProtection.maxLinks}
+                    onChange={(e) => updateSpamProtection({ maxLinks: Number(e.target.value) })}
+                    className="input-field"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Duplicate window (minutes)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={spamProtection.duplicateWindowMinutes}
+                    onChange={(e) => updateSpamProtection({ duplicateWindowMinutes: Number(e.target.value) })}
+                    className="input-field"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Spam score threshold</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={spamProtection.threshold}
+                    onChange={(e) => updateSpamProtection({ threshold: Number(e.target.value) })}
+                    className="input-field"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Blocked keywords</label>
+                <input
+                  type="text"
+                  value={spamProtection.blockedKeywords.join(', ')}
+                  onChange={(e) => updateSpamProtection({
+                    blockedKeywords: e.target.value.split(',').map(keyword => keyword.trim()).filter(Boolean)
+                  })}
+                  className="input-field"
+                  placeholder="casino, crypto giveaway"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Closed message */}
+      <div>
+        <label className="block text-sm font-medium text-gray-900 mb-1">
+          Closed Message
+        </label>
+        <textarea
+          value={settings.closedMessage || ''}
+          onChange={(e) => onUpdate({ closedMessage: e.target.value })}
+          className="input-field"
+          rows={3}
+          maxLength={1000}
+          placeholder="This form is no longer accepting responses."
+        />
+        <button
+          type="button"
+          onClick={onToggleClosedPreview}
+          className="mt-2 text-sm text-primary-600 hover:text-primary-700"
+        >
+          {showClosedPreview ? 'Show form preview' : 'Preview closed state'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,69 @@
 'use client';
 
-import { useState } from 'react';
-import { Form, FormField } from '@/types';
+import { useEffect, useRef, useState } from 'react';
+import { Form, FormField, FormAvailability } from '@/types';
 import axios from 'axios';
 import toast from 'react-hot-toast';
+import FormClosedState from './FormClosedState';
 
 interface PublicFormRendererProps {
   form: Form;
+  unlockToken?: string;
 }
 
-export default function PublicFormRenderer({ form }: PublicFormRendererProps) {
+const CLOSED_CODES = ['FORM_NOT_OPEN', 'FORM_CLOSED', 'RESPONSE_LIMIT_REACHED', 'ALREADY_SUBMITTED'];
+
+// Coarse device fingerprint used by the server to enforce single submission
+const getDeviceFingerprint = () => [
+  navigator.userAgent,
+  navigator.language,
+  `${window.screen.width}x${window.screen.height}x${window.screen.colorDepth}`,
+  Intl.DateTimeFormat().resolvedOptions().timeZone,
+  navigator.hardwareConcurrency || ''
+].join('|');
+
+// Number of leading zero bits in a hash
+const countZeroBits = (hash: Uint8Array) => {
+  let bits = 0;
+  for (let i = 0; i < hash.length; i++) {
+    if (hash[i] === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(hash[i]) - 24;
+  }
+  return bits;
+};
+
+// Find a nonce whose SHA-256 with the challenge starts with enough zero bits
+const solveProofOfWork = async (challenge: string, difficulty: number) => {
+  const encoder = new TextEncoder();
+  for (let nonce = 0; ; nonce++) {
+    const hash = await crypto.subtle.digest('SHA-256', encoder.encode(`${challenge}:${nonce}`));
+    if (countZeroBits(new Uint8Array(hash)) >= difficulty) {
+      return String(nonce);
+    }
+  }
+};
+
+export default function PublicFormRenderer({ form, unlockToken }: PublicFormRendererProps) {
   const [responses, setResponses] = useState<Record<string, any>>({});
   const [loading, setLoading] = useState(false);
   const [submitted, setSubmitted] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [closedState, setClosedState] = useState<FormAvailability | null>(null);
+  const [honeypot, setHoneypot] = useState('');
+  const [consentGiven, setConsentGiven] = useState(false);
+  const proofOfWork = useRef<Promise<string> | null>(null);
+
+  // Start solving the challenge while the respondent fills in the form
+  useEffect(() => {
+    const challenge = form.protection?.proofOfWork;
+    proofOfWork.current = challenge ? solveProofOfWork(challenge.challenge, challenge.difficulty) : null;
+  }, [form.protection]);
+
+  // The server only versions consent wording for forms that ask for it
+  const requiresConsent = form.consentVersion != null;
 
   const handleFieldChange = (fieldId: string, value: any) => {
     setResponses(prev => ({
@@ -51,6 +101,10 @@ export default function PublicFormRenderer({ form }: PublicFormRendererProps) {
       }
     });
 
+    if (requiresConsent && !consentGiven) {
+      newErrors.consent = 'Please agree to the processing of your data';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -65,6 +119,20 @@ export default function PublicFormRenderer({ form }: PublicFormRendererProps) {
 
     setLoading(true);
     try {
+      const accessHeaders: Record<string, string> = {
+        'X-Device-Fingerprint': getDeviceFingerprint(),
+        ...(unlockToken && { 'X-Form-Unlock-Token': unlockToken })
+      };
+      const protection = form.protection ? {
+        token: form.protection.token,
+        honeypot,
+        nonce: proofOfWork.current ? await proofOfWork.current : undefined
+      } : undefined;
+      const consent = requiresConsent ? {
+        version: form.consentVersion,
+        choices: { data_processing: true }
+      } : undefined;
+
       // Check if form contains file uploads
       const hasFiles = form.fields.some(field => field.type === 'file' && responses[field.id]);
       
@@ -93,13 +161,23 @@ export default function PublicFormRenderer({ form }: PublicFormRendererProps) {
           language: navigator.language
         }));
 
+        if (protection) {
+          formData.append('protection', JSON.stringify(protection));
+        }
+
+        if (consent) {
+          formData.append('consent', JSON.stringify(consent));
+        }
+
         await axios.post(
           `${process.env.NEXT_PUBLIC_API_URL}/api/public/forms/${form.publicUrl}/submit`,
           formData,
           {
             headers: {
-              'Content-Type': 'multipart/form-data'
-            }
+              'Content-Type': 'multipart/form-data',
+              ...accessHeaders
+            },
+            withCredentials: true
           }
         );
       } else {
@@ -112,7 +190,13 @@ export default function PublicFormRenderer({ form }: PublicFormRendererProps) {
               screenResolution: `${window.screen.width}x${window.screen.height}`,
               timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
               language: navigator.language
-            }
+            },
+            protection,
+            consent
+          },
+          {
+            headers: accessHeaders,
+            withCredentials: true
           }
         );
       }
@@ -121,6 +205,21 @@ export default function PublicFormRenderer({ form }: PublicFormRendererProps) {
       toast.success('Form submitted successfully!');
     } catch (error: any) {
       console.error('Error submitting form:', error);
+
+      if (CLOSED_CODES.includes(error.response?.data?.code)) {
+        setClosedState({
+          allowed: false,
+          code: error.response.data.code,
+          message: error.response.data.message,
+          opensAt: error.response.data.data?.opensAt
+        });
+        return;
+      }
+
+      if (error.response?.data?.code === 'CONSENT_VERSION_CHANGED') {
+        toast.error('The consent wording has changed. Please reload the page and review it before submitting.');
+        return;
+      }
       
       if (error.response?.data?.errors) {
         const serverErrors: Record<string, string> = {};
@@ -136,6 +235,18 @@ export default function PublicFormRenderer({ form }: PublicFormRendererProps) {
     }
   };
 
+  if (closedState) {
+    return (
+      <FormClosedState
+        title={form.title}
+        message={closedState.message}
+        code={closedState.code}
+        opensAt={closedState.opensAt}
+        customization={form.customization}
+      />
+    );
+  }
+
   if (submitted) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
@@ -147,16 +258,19 @@ export default function PublicFormRenderer({ form }: PublicFormRendererProps) {
           </div>
           <h2 className="text-2xl font-bold text-gray-900 mb-2">Thank You!</h2>
           <p className="text-gray-600 mb-6">Your response has been submitted successfully.</p>
-          <button
-            onClick={() => {
-              setSubmitted(false);
-              setResponses({});
-              setErrors({});
-            }}
-            className="btn-primary"
-          >
-            Submit Another Response
-          </button>
+          {form.settings?.allowMultipleSubmissions !== false && (
+            <button
+              onClick={() => {
+                setSubmitted(false);
+                setResponses({});
+                setErrors({});
+                setConsentGiven(false);
+              }}
+              className="btn-primary"
+            >
+              Submit Another Response
+            </button>
+          )}
         </div>
       </div>
     );
@@ -195,6 +309,21 @@ export default function PublicFormRenderer({ form }: PublicFormRendererProps) {
 
         {/* Form */}
         <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm p-8">
+          {/* Hidden from people and assistive tech; bots that fill every input give themselves away */}
+          {form.protection?.honeypotField && (
+            <div aria-hidden="true" style={{ position: 'absolute', left: '-10000px', width: '1px', height: '1px', overflow: 'hidden' }}>
+              <label htmlFor={form.protection.honeypotField}>Leave this field empty</label>
+              <input
+                type="text"
+                id={form.protection.honeypotField}
+                name={form.protection.honeypotField}
+                value={honeypot}
+                onChange={(e) => setHoneypot(e.target.value)}
+                tabIndex={-1}
+                autoComplete="off"
+              />
+            </div>
+          )}
           <div className="space-y-6">
             {form.fields.map((field) => (
               <FormFieldRenderer
@@ -209,6 +338,44 @@ export default function PublicFormRenderer({ form }: PublicFormRendererProps) {
             ))}
           </div>
 
+          {requiresConsent && (
+            <div className="mt-8">
+              <label className="flex items-start">
+                <input
+                  type="checkbox"
+                  checked={consentGiven}
+                  onChange={(e) => {
+                    setConsentGiven(e.target.checked);
+                    if (errors.consent) {
+                      setErrors(prev => ({ ...prev, consent: '' }));
+                    }
+                  }}
+                  className="h-4 w-4 mt-1 border-gray-300 rounded"
+                  style={{ accentColor: form.customization?.primaryColor || '#3b82f6' }}
+                />
+                <span className="ml-2 text-sm text-gray-700" style={{ fontFamily: form.customization?.fontFamily || 'Inter' }}>
+                  {form.settings?.gdpr?.consentText || 'I agree to the processing of my personal data.'}
+                  {form.settings?.gdpr?.privacyPolicyUrl && (
+                    <>
+                      {' '}
+                      <a
+                        href={form.settings.gdpr.privacyPolicyUrl}
+                        className="text-primary-600 hover:text-primary-700 underline"
+                        target="_blank"
+                        rel="noopener noreferrer"
+                      >
+                        Privacy policy
+                      </a>
+                    </>
+                  )}
+                </span>
+              </label>
+              {errors.consent && (
+                <p className="mt-1 text-sm text-red-600">{errors.consent}</p>
+              )}
+            </div>
+          )}
+
           <div className="mt-8 flex justify-end">
             <button
               type="submit"
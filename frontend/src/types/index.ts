@@ -18,6 +18,8 @@ export interface FormField {
   label: string;
   placeholder?: string;
   required: boolean;
+  sensitive?: boolean; // Answers are encrypted and hidden from users without response access
+  personal?: boolean; // Answers are scrubbed when responses are anonymized
   options?: string[]; // For dropdown, radio, checkbox
   validation?: {
     minLength?: number;
@@ -40,8 +42,14 @@ export interface Form {
   customization: FormCustomization;
   isPublic: boolean;
   userId: string;
+  workspaceId?: string;
   publicUrl: string;
   embedCode?: string;
+  settings?: FormSettings;
+  // Issued with the public form; sent back with the submission
+  protection?: SpamChallenge | null;
+  // Consent wording version the respondent is shown; null when the form has no consent step
+  consentVersion?: number | null;
   analytics: {
     views: number;
     submissions: number;
@@ -50,6 +58,151 @@ export interface Form {
   updatedAt: string;
 }
 
+export interface FormSettings {
+  allowMultipleSubmissions: boolean;
+  passwordProtection: {
+    enabled: boolean;
+    password?: string;
+  };
+  responseLimit: {
+    enabled: boolean;
+    maxResponses?: number;
+  };
+  schedule: {
+    enabled: boolean;
+    startDate?: string;
+    endDate?: string;
+    timezone?: string;
+  };
+  closedMessage?: string;
+  notifications: FormNotificationSettings;
+  spamProtection?: SpamProtectionSettings;
+  gdpr?: {
+    enabled: boolean;
+    consentText?: string;
+    privacyPolicyUrl?: string;
+    dataRetentionDays?: number;
+  };
+}
+
+export interface SpamProtectionSettings {
+  enabled: boolean;
+  honeypot: boolean;
+  minFillSeconds: number;
+  duplicateWindowMinutes: number;
+  maxLinks: number;
+  blockedKeywords: string[];
+  proofOfWork: {
+    enabled: boolean;
+    difficulty: number;
+  };
+  threshold: number;
+}
+
+export interface SpamChallenge {
+  token: string;
+  honeypotField: string | null;
+  proofOfWork: { challenge: string; difficulty: number } | null;
+}
+
+export interface SpamSignal {
+  code: string;
+  weight: number;
+  detail?: string;
+}
+
+export interface FormNotificationSettings {
+  email: {
+    enabled: boolean;
+    recipients: string[];
+    subject?: string;
+    template?: string;
+    includeAttachments?: boolean;
+  };
+  autoresponder: {
+    enabled: boolean;
+    emailFieldId?: string;
+    subject?: string;
+    template?: string;
+    replyTo?: string;
+    includeAttachments?: boolean;
+  };
+}
+
+export type FormAccessCode =
+  | 'FORM_NOT_OPEN'
+  | 'FORM_CLOSED'
+  | 'RESPONSE_LIMIT_REACHED'
+  | 'PASSWORD_REQUIRED'
+  | 'INVALID_PASSWORD'
+  | 'ALREADY_SUBMITTED';
+
+export interface FormAvailability {
+  allowed: boolean;
+  code?: FormAccessCode;
+  message?: string;
+  opensAt?: string;
+  closedAt?: string;
+  responseCount?: number;
+}
+
+export type ResponseStatus = 'new' | 'in_review' | 'done' | 'spam';
+
+export interface ResponseMember {
+  _id: string;
+  email: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+export interface ResponseNote {
+  _id: string;
+  authorId: ResponseMember | null;
+  body: string;
+  createdAt: string;
+}
+
+export type ResponseFilterOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'greater_than'
+  | 'less_than'
+  | 'between'
+  | 'in'
+  | 'regex'
+  | 'is_empty'
+  | 'is_not_empty';
+
+export interface ResponseFilterCondition {
+  fieldId: string;
+  operator: ResponseFilterOperator;
+  value?: any;
+}
+
+export interface SavedView {
+  _id: string;
+  formId: string;
+  createdBy: ResponseMember | string;
+  name: string;
+  description?: string;
+  visibility: 'private' | 'workspace';
+  criteria: {
+    status?: ResponseStatus[];
+    tags?: string[];
+    assignedTo?: string;
+    hasNotes?: boolean;
+    filter?: { logic?: 'and' | 'or'; conditions: ResponseFilterCondition[] };
+    search?: string;
+    datePreset?: string;
+  };
+  columns: string[];
+  sortBy: string;
+  order: 'asc' | 'desc';
+  pageSize: number;
+}
+
 export interface FormResponse {
   _id: string;
   formId: string;
@@ -57,6 +210,16 @@ export interface FormResponse {
   submittedAt: string;
   ipAddress?: string;
   userAgent?: string;
+  status?: ResponseStatus;
+  tags?: string[];
+  notes?: ResponseNote[];
+  assignedTo?: ResponseMember | null;
+  spam?: {
+    score: number;
+    signals: SpamSignal[];
+    quarantined: boolean;
+    releasedAt?: string;
+  };
 }
 
 export interface FormAnalytics {